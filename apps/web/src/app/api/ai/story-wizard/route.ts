@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import { generateText } from "@/lib/ai/client";
+import { getAIErrorStatus } from "@/lib/ai/errors";
+import { extractJSON, extractJSONArray } from "@/lib/ai/json";
+import { isAIConfigured, toAIConnection, type AIConnection } from "@/lib/ai/types";
+
 // Types for wizard responses
 type WizardQuestion = {
     id: string;
@@ -51,31 +56,31 @@ type WizardResult = {
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { action, storyIdea, genre, answers, apiEndpoint, apiKey, model } = body;
+        const { action, storyIdea, genre, answers, provider, apiEndpoint, apiKey, model } = body;
 
-        if (!apiEndpoint || !apiKey) {
+        if (!apiEndpoint || !isAIConfigured({ provider, apiKey })) {
             return NextResponse.json(
                 { error: "API-Konfiguration fehlt. Bitte konfiguriere deine KI-Einstellungen." },
                 { status: 400 }
             );
         }
 
+        const connection = toAIConnection({
+            provider,
+            apiEndpoint,
+            apiKey,
+            model: model || "gpt-4o-mini",
+        });
+
         if (action === "questions") {
             // Generate follow-up questions
-            const questions = await generateQuestions(storyIdea, genre, apiEndpoint, apiKey, model);
+            const questions = await generateQuestions(storyIdea, genre, connection);
             return NextResponse.json({ questions });
         }
 
         if (action === "generate") {
             // Generate full book structure
-            const result = await generateBookStructure(
-                storyIdea,
-                genre,
-                answers,
-                apiEndpoint,
-                apiKey,
-                model
-            );
+            const result = await generateBookStructure(storyIdea, genre, answers, connection);
             return NextResponse.json(result);
         }
 
@@ -84,7 +89,7 @@ export async function POST(request: NextRequest) {
         console.error("Story wizard error:", error);
         return NextResponse.json(
             { error: "Fehler bei der KI-Generierung" },
-            { status: 500 }
+            { status: getAIErrorStatus(error) }
         );
     }
 }
@@ -92,9 +97,7 @@ export async function POST(request: NextRequest) {
 async function generateQuestions(
     storyIdea: string,
     genre: string,
-    apiEndpoint: string,
-    apiKey: string,
-    model: string
+    connection: AIConnection
 ): Promise<WizardQuestion[]> {
     const systemPrompt = `Du bist ein erfahrener Buchautor-Assistent. Basierend auf der Geschichtsidee des Nutzers, stelle 3 präzise Nachfragen, um die Geschichte besser zu verstehen.
 
@@ -115,13 +118,17 @@ Genre: ${genre || "Nicht angegeben"}
 
 Generiere 3 Nachfragen.`;
 
-    const response = await callAI(apiEndpoint, apiKey, model, systemPrompt, userPrompt);
+    const response = await generateText(connection, {
+        system: systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.8,
+        maxTokens: 2048,
+    });
 
     try {
-        // Extract JSON from response
-        const jsonMatch = response.match(/\[[\s\S]*\]/);
-        if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
+        const questions = extractJSONArray(response);
+        if (questions) {
+            return questions as WizardQuestion[];
         }
         throw new Error("Could not parse questions");
     } catch {
@@ -138,9 +145,7 @@ async function generateBookStructure(
     storyIdea: string,
     genre: string,
     answers: Record<string, string>,
-    apiEndpoint: string,
-    apiKey: string,
-    model: string
+    connection: AIConnection
 ): Promise<WizardResult> {
     const answersText = Object.entries(answers)
         .map(([key, value]) => `${key}: ${value}`)
@@ -205,13 +210,17 @@ ${answersText}
 
 Generiere jetzt die vollständige Buchstruktur als JSON.`;
 
-    const response = await callAI(apiEndpoint, apiKey, model, systemPrompt, userPrompt, 4096);
+    const response = await generateText(connection, {
+        system: systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.8,
+        maxTokens: 4096,
+    });
 
     try {
-        // Extract JSON from response
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
+        const structure = extractJSON(response);
+        if (structure) {
+            return structure as unknown as WizardResult;
         }
         throw new Error("Could not parse book structure");
     } catch (error) {
@@ -219,38 +228,3 @@ Generiere jetzt die vollständige Buchstruktur als JSON.`;
         throw new Error("Fehler beim Parsen der KI-Antwort");
     }
 }
-
-async function callAI(
-    apiEndpoint: string,
-    apiKey: string,
-    model: string,
-    systemPrompt: string,
-    userPrompt: string,
-    maxTokens: number = 2048
-): Promise<string> {
-    const response = await fetch(`${apiEndpoint}/chat/completions`, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-            model: model || "gpt-4o-mini",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt },
-            ],
-            temperature: 0.8,
-            max_tokens: maxTokens,
-        }),
-    });
-
-    if (!response.ok) {
-        const error = await response.text();
-        console.error("AI API error:", error);
-        throw new Error("KI-API Fehler");
-    }
-
-    const data = await response.json();
-    return data.choices[0]?.message?.content || "";
-}
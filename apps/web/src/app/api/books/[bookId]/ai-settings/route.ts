@@ -1,6 +1,8 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { isAIProvider } from "@/lib/ai/types";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -45,32 +47,48 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
         const { bookId } = await params;
         const body = await request.json();
         const {
+            provider,
             apiEndpoint,
             apiKey,
             model,
             temperature,
             maxTokens,
             systemPrompt,
+            contextWindow,
+            verbatimChapters,
         } = body;
 
+        if (provider !== undefined && !isAIProvider(provider)) {
+            return NextResponse.json(
+                { error: "Unknown AI provider" },
+                { status: 400 }
+            );
+        }
+
         const aiSettings = await prisma.aISettings.upsert({
             where: { bookId },
             create: {
                 bookId,
+                ...(provider !== undefined && { provider }),
                 ...(apiEndpoint !== undefined && { apiEndpoint }),
                 ...(apiKey !== undefined && { apiKey }),
                 ...(model !== undefined && { model }),
                 ...(temperature !== undefined && { temperature }),
                 ...(maxTokens !== undefined && { maxTokens }),
                 ...(systemPrompt !== undefined && { systemPrompt }),
+                ...(contextWindow !== undefined && { contextWindow }),
+                ...(verbatimChapters !== undefined && { verbatimChapters }),
             },
             update: {
+                ...(provider !== undefined && { provider }),
                 ...(apiEndpoint !== undefined && { apiEndpoint }),
                 ...(apiKey !== undefined && { apiKey }),
                 ...(model !== undefined && { model }),
                 ...(temperature !== undefined && { temperature }),
                 ...(maxTokens !== undefined && { maxTokens }),
                 ...(systemPrompt !== undefined && { systemPrompt }),
+                ...(contextWindow !== undefined && { contextWindow }),
+                ...(verbatimChapters !== undefined && { verbatimChapters }),
             },
         });
 
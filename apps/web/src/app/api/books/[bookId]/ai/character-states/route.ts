@@ -0,0 +1,235 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { generateText } from "@/lib/ai/client";
+import {
+    computeInputBudget,
+    estimateTokens,
+    getModelContextWindow,
+    htmlToPlainText,
+    truncateToTokens,
+} from "@/lib/ai/context-budget";
+import { AIProviderError } from "@/lib/ai/errors";
+import { extractJSON } from "@/lib/ai/json";
+import { isAIConfigured, toAIConnection } from "@/lib/ai/types";
+import {
+    formatCharacterState,
+    isCharacterStateEmpty,
+    MOOD_MAX,
+    MOOD_MIN,
+    normalizeCharacterState,
+} from "@/lib/character-arc";
+import { characterPromptName, parseAliases } from "@/lib/character-presence";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// Room for one short JSON object per character
+const STATES_MAX_TOKENS = 2000;
+
+const systemPrompt = "Du bist ein präziser Lektor-Assistent, der die Entwicklung von Figuren über ein Buch hinweg verfolgt. Antworte nur mit validem JSON.";
+
+function buildStatesPrompt(data: {
+    language: string;
+    chapterNumber: number;
+    chapterTitle: string;
+    chapterText: string;
+    characters: Array<{ name: string; previous: string | null }>;
+}): string {
+    let prompt = `Bestimme für jede der folgenden Figuren, wo sie am ENDE dieses Kapitels steht.
+
+## Antwortformat:
+\`\`\`json
+{
+  "characters": [
+    {
+      "name": "Name genau wie unten angegeben, ohne die Angaben in eckigen Klammern",
+      "mood": 0,
+      "emotion": "Gefühlslage in wenigen Worten",
+      "goal": "Was die Figur gerade erreichen will",
+      "knowledge": "Was sie in diesem Kapitel erfahren hat oder weiß, das für die Handlung zählt",
+      "relationships": "Wie sich ihre Beziehungen in diesem Kapitel verändert haben"
+    }
+  ]
+}
+\`\`\`
+
+Regeln:
+- "mood" ist eine ganze Zahl von ${MOOD_MIN} (am Boden) bis ${MOOD_MAX} (obenauf).
+- Nur Fakten, die im Kapitel tatsächlich vorkommen. Felder ohne Anhaltspunkt im Text bleiben leer ("").
+- Figuren, die im Kapitel gar nicht vorkommen, lässt du weg.
+- Schreibe in der Sprache des Buches (${data.language === "de" ? "Deutsch" : data.language}).
+
+## Figuren`;
+
+    for (const character of data.characters) {
+        prompt += `\n- ${character.name}`;
+        if (character.previous) prompt += `\n  Stand vorher: ${character.previous}`;
+    }
+
+    prompt += `\n\n## Kapitel ${data.chapterNumber}: ${data.chapterTitle}\n${data.chapterText}`;
+
+    return prompt;
+}
+
+// POST - Extract the state of the chapter's characters from its text.
+// Body: { chapterId, characterIds?, overwrite? }; entries made by hand are kept unless overwrite is set.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json();
+        const { chapterId } = body;
+        const requestedIds = Array.isArray(body.characterIds)
+            ? body.characterIds.filter((id: unknown): id is string => typeof id === "string")
+            : null;
+        const overwrite = body.overwrite === true;
+
+        if (!chapterId) {
+            return NextResponse.json(
+                { error: "chapterId is required" },
+                { status: 400 }
+            );
+        }
+
+        const aiSettings = await prisma.aISettings.findUnique({
+            where: { bookId },
+        });
+
+        if (!aiSettings || !isAIConfigured(aiSettings)) {
+            return NextResponse.json(
+                { error: "AI API key not configured. Please set up AI settings first." },
+                { status: 400 }
+            );
+        }
+
+        const chapter = await prisma.chapter.findUnique({
+            where: { id: chapterId, bookId },
+            select: {
+                title: true,
+                content: true,
+                orderIndex: true,
+                book: { select: { language: true } },
+                chapterCharacters: { select: { characterId: true } },
+                characterStates: { select: { characterId: true, source: true } },
+            },
+        });
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        const plainText = htmlToPlainText(chapter.content);
+        if (!plainText) {
+            return NextResponse.json(
+                { error: "Chapter has no content to analyze" },
+                { status: 400 }
+            );
+        }
+
+        // Without a selection, the characters linked to the chapter
+        const manual = new Set(
+            chapter.characterStates.filter((state) => state.source === "manual").map((state) => state.characterId)
+        );
+        const characterIds = (requestedIds ?? chapter.chapterCharacters.map((link) => link.characterId))
+            .filter((id: string) => overwrite || !manual.has(id));
+
+        if (characterIds.length === 0) {
+            return NextResponse.json({ states: [] });
+        }
+
+        const characters = await prisma.character.findMany({
+            where: { bookId, id: { in: characterIds } },
+            select: {
+                id: true,
+                name: true,
+                aliases: true,
+                pronouns: true,
+                // The latest state before this chapter keeps the answer consistent with the arc so far
+                states: {
+                    where: { chapter: { orderIndex: { lt: chapter.orderIndex } } },
+                    orderBy: { chapter: { orderIndex: "desc" } },
+                    take: 1,
+                },
+            },
+        });
+
+        const promptData = {
+            language: chapter.book.language,
+            chapterNumber: chapter.orderIndex + 1,
+            chapterTitle: chapter.title,
+            chapterText: "",
+            characters: characters.map((character) => ({
+                name: characterPromptName(character),
+                previous: character.states[0] ? formatCharacterState(character.states[0]) || null : null,
+            })),
+        };
+
+        const { inputBudget } = computeInputBudget(
+            getModelContextWindow(aiSettings.model, aiSettings.contextWindow),
+            STATES_MAX_TOKENS
+        );
+        const fixedTokens = estimateTokens(systemPrompt + buildStatesPrompt(promptData));
+        promptData.chapterText = truncateToTokens(plainText, Math.max(inputBudget - fixedTokens, 500));
+
+        const response = await generateText(toAIConnection(aiSettings), {
+            system: systemPrompt,
+            prompt: buildStatesPrompt(promptData),
+            temperature: 0.3,
+            maxTokens: STATES_MAX_TOKENS,
+        });
+
+        const parsed = extractJSON(response);
+        if (!parsed || !Array.isArray(parsed.characters)) {
+            console.error("Failed to parse character states:", response);
+            return NextResponse.json(
+                { error: "AI response could not be parsed" },
+                { status: 502 }
+            );
+        }
+
+        // The model answers with names; aliases are accepted as well
+        const byName = new Map<string, string>();
+        for (const character of characters) {
+            for (const name of [character.name, ...parseAliases(character.aliases)]) {
+                byName.set(name.trim().toLowerCase(), character.id);
+            }
+        }
+
+        const states = [];
+        for (const entry of parsed.characters) {
+            if (!entry || typeof entry !== "object") continue;
+            const raw = entry as Record<string, unknown>;
+            // Models sometimes repeat the "[auch: ...]" note from the prompt
+            const name = typeof raw.name === "string" ? raw.name.replace(/\s*\[.*$/, "").trim().toLowerCase() : "";
+            const characterId = byName.get(name);
+            if (!characterId) continue;
+
+            const state = normalizeCharacterState(raw);
+            if (isCharacterStateEmpty(state)) continue;
+
+            states.push(await prisma.characterState.upsert({
+                where: { characterId_chapterId: { characterId, chapterId } },
+                create: { characterId, chapterId, ...state, source: "ai" },
+                update: { ...state, source: "ai" },
+            }));
+        }
+
+        return NextResponse.json({ states });
+    } catch (error) {
+        console.error("Failed to extract character states:", error);
+        if (error instanceof AIProviderError) {
+            return NextResponse.json(
+                { error: "AI extraction failed", details: error.message },
+                { status: error.status }
+            );
+        }
+        return NextResponse.json(
+            { error: "Failed to extract character states" },
+            { status: 500 }
+        );
+    }
+}
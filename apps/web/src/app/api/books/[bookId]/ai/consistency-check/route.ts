@@ -1,26 +1,33 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { chatCompletion } from "@/lib/ai/client";
+import { AIProviderError } from "@/lib/ai/errors";
+import { extractJSON } from "@/lib/ai/json";
+import { isAIConfigured, toAIConnection } from "@/lib/ai/types";
+import { characterPromptName } from "@/lib/character-presence";
+import { isConsistencyIssueType, type ConsistencyIssue } from "@/lib/consistency-issues";
+import { formatTravelRoute, serializeStoryMap } from "@/lib/story-map";
+import { parseStoryCalendar } from "@/lib/story-time";
+import { formatFieldFacts, parseFieldValues, templatesByType } from "@/lib/world-fields";
+import { formatWorldLink, worldElementPath } from "@/lib/world-links";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
 
-interface ConsistencyIssue {
-    id: string;
-    type: "character" | "timeline" | "object" | "location" | "plot" | "other";
-    severity: "warning" | "error";
-    title: string;
-    description: string;
-    chapters: number[];
-    suggestion: string;
-}
-
 interface ConsistencyCheckResponse {
     issues: ConsistencyIssue[];
     summary: string;
     checkedAt: string;
 }
 
+// Story dates as "year-month-day" in the book's own calendar
+function formatStoryDates(item: { storyStart: string | null; storyEnd: string | null }) {
+    if (!item.storyStart) return "";
+    return item.storyEnd ? ` ${item.storyStart} bis ${item.storyEnd}` : ` ${item.storyStart}`;
+}
+
 // Build the consistency check prompt
 function buildConsistencyPrompt(bookData: {
     title: string;
@@ -29,22 +36,31 @@ function buildConsistencyPrompt(bookData: {
         title: string;
         content: string;
         summary: string | null;
+        storyStart: string | null;
+        storyEnd: string | null;
     }>;
     characters: Array<{
         name: string;
         role: string;
         description: string | null;
+        deathChapter: { orderIndex: number } | null;
     }>;
     plotPoints: Array<{
         title: string;
         type: string;
         description: string | null;
+        storyStart: string | null;
+        storyEnd: string | null;
     }>;
     worldElements: Array<{
         name: string;
         type: string;
         description: string | null;
+        path: string;
+        facts: string;
     }>;
+    worldLinks: string[];
+    travelRoutes: string[];
 }): string {
     let prompt = `Du bist ein Lektor-Assistent, der Bücher auf Konsistenzfehler und Widersprüche prüft.
 
@@ -53,7 +69,7 @@ Analysiere das folgende Buch und finde alle Inkonsistenzen, Widersprüche und Lo
 
 ## Achte besonders auf:
 1. **Charakter-Widersprüche**: Charaktere, die in einem Kapitel sterben/verschwinden, aber später wieder auftauchen
-2. **Timeline-Probleme**: Ereignisse in falscher chronologischer Reihenfolge
+2. **Timeline-Probleme**: Ereignisse in falscher chronologischer Reihenfolge (Zeitpunkte in der Geschichte sind als Jahr-Monat-Tag im Kalender des Buches angegeben)
 3. **Objekt-Widersprüche**: Gegenstände, die mehrfach gefunden/eingeführt werden oder plötzlich verschwinden
 4. **Orts-Inkonsistenzen**: Charaktere an unmöglichen Orten oder plötzliche Ortswechsel ohne Übergang
 5. **Plot-Löcher**: Ungelöste Handlungsstränge, fehlende Erklärungen
@@ -88,14 +104,14 @@ Sei gründlich aber fokussiere dich auf echte Widersprüche, nicht auf stilistis
 Titel: ${bookData.title}
 
 ### Charaktere:
-${bookData.characters.map(c => `- ${c.name} (${c.role}): ${c.description || "Keine Beschreibung"}`).join("\n")}
+${bookData.characters.map(c => `- ${characterPromptName(c)} (${c.role}${c.deathChapter ? `, stirbt in Kapitel ${c.deathChapter.orderIndex + 1}` : ""}): ${c.description || "Keine Beschreibung"}`).join("\n")}
 
 ### Handlungspunkte:
-${bookData.plotPoints.map(p => `- ${p.title} (${p.type}): ${p.description || "Keine Beschreibung"}`).join("\n")}
+${bookData.plotPoints.map(p => `- ${p.title} (${p.type}${formatStoryDates(p)}): ${p.description || "Keine Beschreibung"}`).join("\n")}
 
 ### Weltelemente:
-${bookData.worldElements.map(w => `- ${w.name} (${w.type}): ${w.description || "Keine Beschreibung"}`).join("\n")}
-
+${bookData.worldElements.map(w => `- ${w.name} (${w.type}${w.path ? `, in ${w.path}` : ""}): ${w.description || "Keine Beschreibung"}${w.facts ? `\n  ${w.facts}` : ""}`).join("\n")}
+${bookData.worldLinks.length > 0 ? `\n### Verbindungen in der Welt:\n${bookData.worldLinks.map(link => `- ${link}`).join("\n")}\n` : ""}${bookData.travelRoutes.length > 0 ? `\n### Reisewege (Entfernung, Reisedauer):\n${bookData.travelRoutes.map(route => `- ${route}`).join("\n")}\n` : ""}
 ### Kapitel-Inhalte:
 `;
 
@@ -108,6 +124,9 @@ ${bookData.worldElements.map(w => `- ${w.name} (${w.type}): ${w.description || "
             .trim();
 
         prompt += `\n#### Kapitel ${chapter.orderIndex + 1}: ${chapter.title}`;
+        if (chapter.storyStart) {
+            prompt += `\nZeitpunkt in der Geschichte:${formatStoryDates(chapter)}`;
+        }
         if (chapter.summary) {
             prompt += `\nZusammenfassung: ${chapter.summary}`;
         }
@@ -126,21 +145,16 @@ ${bookData.worldElements.map(w => `- ${w.name} (${w.type}): ${w.description || "
 
 // Parse AI response to extract JSON
 function parseAIResponse(response: string): ConsistencyCheckResponse {
-    // Try to extract JSON from the response
-    const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/) ||
-        response.match(/\{[\s\S]*"issues"[\s\S]*\}/);
-
-    let jsonStr = jsonMatch ? jsonMatch[1] || jsonMatch[0] : response;
-
     try {
-        const parsed = JSON.parse(jsonStr);
+        const parsed = extractJSON(response) as any;
+        if (!parsed) {
+            throw new Error("No JSON object in response");
+        }
 
         // Validate and normalize the response
         const issues: ConsistencyIssue[] = (parsed.issues || []).map((issue: any, index: number) => ({
             id: issue.id || `issue-${index + 1}`,
-            type: ["character", "timeline", "object", "location", "plot", "other"].includes(issue.type)
-                ? issue.type
-                : "other",
+            type: isConsistencyIssueType(issue.type) ? issue.type : "other",
             severity: issue.severity === "error" ? "error" : "warning",
             title: String(issue.title || "Unbekanntes Problem"),
             description: String(issue.description || ""),
@@ -175,7 +189,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             where: { bookId },
         });
 
-        if (!aiSettings?.apiKey) {
+        if (!aiSettings || !isAIConfigured(aiSettings)) {
             return NextResponse.json(
                 { error: "KI-API-Key nicht konfiguriert. Bitte zuerst AI-Einstellungen einrichten." },
                 { status: 400 }
@@ -193,13 +207,19 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
                         title: true,
                         content: true,
                         summary: true,
+                        storyStart: true,
+                        storyEnd: true,
                     },
                 },
                 characters: {
                     select: {
+                        id: true,
                         name: true,
+                        aliases: true,
+                        pronouns: true,
                         role: true,
                         description: true,
+                        deathChapter: { select: { orderIndex: true } },
                     },
                 },
                 plotPoints: {
@@ -208,15 +228,26 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
                         title: true,
                         type: true,
                         description: true,
+                        storyStart: true,
+                        storyEnd: true,
                     },
                 },
                 worldElements: {
                     select: {
+                        id: true,
                         name: true,
                         type: true,
                         description: true,
+                        parentId: true,
+                        fields: true,
                     },
                 },
+                worldLinks: true,
+                worldFieldTemplates: true,
+                storyCalendar: true,
+                storyMap: {
+                    include: { pins: true, regions: true, routes: true },
+                },
             },
         });
 
@@ -236,50 +267,45 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         }
 
         // Build the prompt
+        const worldNames = {
+            elements: new Map(book.worldElements.map((element) => [element.id, element.name])),
+            characters: new Map(book.characters.map((character) => [character.id, character.name])),
+        };
+        const templateFields = templatesByType(book.worldFieldTemplates);
+        const storyMap = book.storyMap && serializeStoryMap(book.storyMap);
+        const calendar = parseStoryCalendar(book.storyCalendar, "de");
         const prompt = buildConsistencyPrompt({
             title: book.title,
             chapters: book.chapters,
             characters: book.characters,
             plotPoints: book.plotPoints,
-            worldElements: book.worldElements,
+            worldElements: book.worldElements.map((element) => ({
+                ...element,
+                path: worldElementPath(book.worldElements, element.id),
+                facts: formatFieldFacts(templateFields[element.type] ?? [], parseFieldValues(element.fields)),
+            })),
+            worldLinks: book.worldLinks.flatMap((link) => formatWorldLink(link, worldNames) ?? []),
+            travelRoutes: storyMap
+                ? storyMap.routes.flatMap((route) => formatTravelRoute(route, storyMap, worldNames.elements, calendar) ?? [])
+                : [],
         });
 
         // Call AI API
-        const response = await fetch(`${aiSettings.apiEndpoint}/chat/completions`, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${aiSettings.apiKey}`,
-            },
-            body: JSON.stringify({
-                model: aiSettings.model,
-                messages: [
-                    {
-                        role: "system",
-                        content: "Du bist ein präziser Lektor-Assistent. Antworte nur mit validem JSON.",
-                    },
-                    {
-                        role: "user",
-                        content: prompt,
-                    },
-                ],
-                temperature: 0.3, // Lower temperature for more consistent analysis
-                max_tokens: 4000,
-            }),
+        const { text: aiResponseText } = await chatCompletion(toAIConnection(aiSettings), {
+            messages: [
+                {
+                    role: "system",
+                    content: "Du bist ein präziser Lektor-Assistent. Antworte nur mit validem JSON.",
+                },
+                {
+                    role: "user",
+                    content: prompt,
+                },
+            ],
+            temperature: 0.3, // Lower temperature for more consistent analysis
+            maxTokens: 4000,
         });
 
-        if (!response.ok) {
-            const errorData = await response.text();
-            console.error("AI API error:", errorData);
-            return NextResponse.json(
-                { error: "KI-Analyse fehlgeschlagen", details: errorData },
-                { status: response.status }
-            );
-        }
-
-        const data = await response.json();
-        const aiResponseText = data.choices?.[0]?.message?.content || "";
-
         if (!aiResponseText) {
             return NextResponse.json(
                 { error: "Keine Antwort von der KI erhalten" },
@@ -287,12 +313,16 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             );
         }
 
-        // Parse the response
-        const result = parseAIResponse(aiResponseText);
-
-        return NextResponse.json(result);
+        // Parse the response; the rule-based issues come from the continuity check route
+        return NextResponse.json(parseAIResponse(aiResponseText));
     } catch (error) {
         console.error("Consistency check failed:", error);
+        if (error instanceof AIProviderError) {
+            return NextResponse.json(
+                { error: "KI-Analyse fehlgeschlagen", details: error.message },
+                { status: error.status }
+            );
+        }
         return NextResponse.json(
             { error: "Konsistenzprüfung fehlgeschlagen" },
             { status: 500 }
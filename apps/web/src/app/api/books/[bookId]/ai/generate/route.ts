@@ -1,6 +1,26 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { chatCompletion, openChatStream, type ChatStream } from "@/lib/ai/client";
+import { AIProviderError } from "@/lib/ai/errors";
+import {
+    computeInputBudget,
+    DEFAULT_VERBATIM_CHAPTERS,
+    estimateTokens,
+    getModelContextWindow,
+    planChapterContext,
+    type ContextPiece,
+    type ContextReport,
+} from "@/lib/ai/context-budget";
+import { isAIConfigured, toAIConnection } from "@/lib/ai/types";
+import { formatSummaryWithRecap } from "@/lib/chapter-recap";
+import { formatCharacterState } from "@/lib/character-arc";
+import { parseAliases } from "@/lib/character-presence";
+import { normalizeGeneratedHtml } from "@/lib/generated-text";
+import { formatSseEvent } from "@/lib/sse";
+import { formatFieldFacts, parseFieldValues, templatesByType } from "@/lib/world-fields";
+import { formatWorldLink, relatedWorldElementIds, worldElementPath } from "@/lib/world-links";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -15,9 +35,14 @@ interface AIContext {
     };
     characters: Array<{
         name: string;
+        aliases: string | null;
+        pronouns: string | null;
         role: string;
         description: string | null;
         personality: string | null;
+        // Latest state from an earlier chapter, and the one entered for the current chapter
+        currentState: { chapterNumber: number; text: string } | null;
+        plannedState: string | null;
     }>;
     previousChapters: Array<{
         title: string;
@@ -46,7 +71,12 @@ interface AIContext {
         name: string;
         type: string;
         description: string | null;
+        // "Königreich › Hafenstadt" for an element nested in others
+        path: string;
+        // Custom fields as "Label: Wert; ..."
+        facts: string;
     }>;
+    worldLinks: string[];
 }
 
 // Aggregate context for AI generation
@@ -73,7 +103,7 @@ async function aggregateContext(
     }
 
     // Get characters (all or selected)
-    const characters = await prisma.character.findMany({
+    const characterRecords = await prisma.character.findMany({
         where: {
             bookId,
             ...(selectedCharacterIds && selectedCharacterIds.length > 0 && {
@@ -81,7 +111,10 @@ async function aggregateContext(
             }),
         },
         select: {
+            id: true,
             name: true,
+            aliases: true,
+            pronouns: true,
             role: true,
             description: true,
             personality: true,
@@ -114,7 +147,7 @@ async function aggregateContext(
             currentChapter = chapter;
 
             // Get previous chapters (for story context) - include full content!
-            previousChapters = await prisma.chapter.findMany({
+            const previous = await prisma.chapter.findMany({
                 where: {
                     bookId,
                     orderIndex: { lt: chapter.orderIndex },
@@ -124,9 +157,15 @@ async function aggregateContext(
                     title: true,
                     content: true,
                     summary: true,
+                    recap: true,
                     orderIndex: true,
                 },
             });
+            // The structured recap travels with the summary wherever a chapter is condensed
+            previousChapters = previous.map(({ recap, ...ch }) => ({
+                ...ch,
+                summary: formatSummaryWithRecap(ch.summary, recap),
+            }));
 
             // Get next chapters (to know the story continues)
             nextChapters = await prisma.chapter.findMany({
@@ -144,6 +183,28 @@ async function aggregateContext(
         }
     }
 
+    // Where each character stands: their states up to the current chapter (all of them without one)
+    const states = await prisma.characterState.findMany({
+        where: {
+            characterId: { in: characterRecords.map((character) => character.id) },
+            ...(currentChapter && { chapter: { orderIndex: { lte: currentChapter.orderIndex } } }),
+        },
+        orderBy: { chapter: { orderIndex: "desc" } },
+        include: { chapter: { select: { orderIndex: true } } },
+    });
+    const characters: AIContext["characters"] = characterRecords.map(({ id, ...character }) => {
+        const own = states.filter((state) => state.characterId === id);
+        const planned = currentChapter ? own.find((state) => state.chapterId === chapterId) : undefined;
+        const current = own.find((state) => state !== planned);
+        return {
+            ...character,
+            currentState: current
+                ? { chapterNumber: current.chapter.orderIndex + 1, text: formatCharacterState(current) }
+                : null,
+            plannedState: planned ? formatCharacterState(planned) : null,
+        };
+    });
+
     // Get plot points (all or selected)
     const plotPoints = await prisma.plotPoint.findMany({
         where: {
@@ -160,20 +221,46 @@ async function aggregateContext(
         },
     });
 
-    // Get world elements (all or selected)
-    const worldElements = await prisma.worldElement.findMany({
-        where: {
-            bookId,
-            ...(selectedWorldElementIds && selectedWorldElementIds.length > 0 && {
-                id: { in: selectedWorldElementIds },
-            }),
-        },
-        select: {
-            name: true,
-            type: true,
-            description: true,
-        },
-    });
+    // Get world elements (all or selected). A selection pulls in what it is nested in and what is
+    // linked to it or to the characters in the context.
+    const [allWorldElements, allWorldLinks, fieldTemplates] = await Promise.all([
+        prisma.worldElement.findMany({
+            where: { bookId },
+            orderBy: { name: "asc" },
+            select: {
+                id: true,
+                name: true,
+                type: true,
+                description: true,
+                parentId: true,
+                fields: true,
+            },
+        }),
+        prisma.worldLink.findMany({ where: { bookId } }),
+        prisma.worldFieldTemplate.findMany({ where: { bookId } }),
+    ]);
+    const templateFields = templatesByType(fieldTemplates);
+    const worldElementIds = selectedWorldElementIds && selectedWorldElementIds.length > 0
+        ? relatedWorldElementIds(allWorldElements, allWorldLinks, {
+            elementIds: selectedWorldElementIds,
+            characterIds: characterRecords.map((character) => character.id),
+        })
+        : new Set(allWorldElements.map((element) => element.id));
+    const worldElements = allWorldElements
+        .filter((element) => worldElementIds.has(element.id))
+        .map((element) => ({
+            name: element.name,
+            type: element.type,
+            description: element.description,
+            path: worldElementPath(allWorldElements, element.id),
+            facts: formatFieldFacts(templateFields[element.type] ?? [], parseFieldValues(element.fields)),
+        }));
+
+    const names = {
+        elements: new Map(allWorldElements.filter((element) => worldElementIds.has(element.id)).map((element) => [element.id, element.name])),
+        characters: new Map(characterRecords.map((character) => [character.id, character.name])),
+    };
+    const worldLinks = allWorldLinks.flatMap((link) => formatWorldLink(link, names) ?? []);
 
     return {
         book,
@@ -184,11 +271,24 @@ async function aggregateContext(
         totalChapterCount,
         plotPoints,
         worldElements,
+        worldLinks,
     };
 }
 
-// Build system prompt from context
-function buildSystemPrompt(context: AIContext, customSystemPrompt?: string): string {
+type PromptBudget = {
+    model: string;
+    contextWindow: number;
+    maxOutputTokens: number;
+    verbatimChapters: number;
+    userPrompt: string;
+};
+
+// Build system prompt from context, fitting previous chapters into the model's token budget
+function buildSystemPrompt(
+    context: AIContext,
+    customSystemPrompt: string | undefined,
+    budget: PromptBudget
+): { systemPrompt: string; report: ContextReport } {
     const currentChapterNum = context.currentChapter ? context.currentChapter.orderIndex + 1 : 1;
     const totalChapters = context.totalChapterCount || 1;
     const isLastChapter = context.nextChapters.length === 0;
@@ -228,78 +328,263 @@ Jeder Absatz MUSS in ein <p>-Tag eingeschlossen sein. Verwende KEINE Markdown-Sy
         prompt += `\n\nZusätzliche Anweisungen des Autors:\n${customSystemPrompt}`;
     }
 
-    prompt += `\n\n## Buchinformationen
+    const pieces: ContextPiece[] = [
+        { kind: "instructions", label: "", mode: "full", tokens: estimateTokens(prompt) },
+    ];
+    const addSection = (kind: ContextPiece["kind"], text: string) => {
+        if (!text) return "";
+        pieces.push({ kind, label: "", mode: "full", tokens: estimateTokens(text) });
+        return text;
+    };
+
+    let bookSection = `\n\n## Buchinformationen
 Titel: ${context.book.title}
 Aktuelles Kapitel: ${currentChapterNum} von ${totalChapters}`;
 
-    if (context.book.genre) prompt += `\nGenre: ${context.book.genre}`;
-    if (context.book.writingStyle) prompt += `\nSchreibstil: ${context.book.writingStyle}`;
-    if (context.book.targetAudience) prompt += `\nZielgruppe: ${context.book.targetAudience}`;
-    prompt += `\nSprache: ${context.book.language === "de" ? "Deutsch" : context.book.language}`;
+    if (context.book.genre) bookSection += `\nGenre: ${context.book.genre}`;
+    if (context.book.writingStyle) bookSection += `\nSchreibstil: ${context.book.writingStyle}`;
+    if (context.book.targetAudience) bookSection += `\nZielgruppe: ${context.book.targetAudience}`;
+    bookSection += `\nSprache: ${context.book.language === "de" ? "Deutsch" : context.book.language}`;
 
+    let characterSection = "";
     if (context.characters.length > 0) {
-        prompt += `\n\n## Charaktere`;
+        characterSection += `\n\n## Charaktere`;
         for (const char of context.characters) {
-            prompt += `\n### ${char.name} (${char.role})`;
-            if (char.description) prompt += `\nBeschreibung: ${char.description}`;
-            if (char.personality) prompt += `\nPersönlichkeit: ${char.personality}`;
+            characterSection += `\n### ${char.name} (${char.role})`;
+            const aliases = parseAliases(char.aliases);
+            if (aliases.length > 0) characterSection += `\nAuch genannt: ${aliases.join(", ")}`;
+            if (char.pronouns) characterSection += `\nPronomen: ${char.pronouns}`;
+            if (char.currentState) {
+                characterSection += `\nStand nach Kapitel ${char.currentState.chapterNumber}: ${char.currentState.text}`;
+            }
+            if (char.plannedState) characterSection += `\nStand am Ende dieses Kapitels (geplant): ${char.plannedState}`;
+            if (char.description) characterSection += `\nBeschreibung: ${char.description}`;
+            if (char.personality) characterSection += `\nPersönlichkeit: ${char.personality}`;
         }
     }
 
+    let plotSection = "";
     if (context.plotPoints.length > 0) {
-        prompt += `\n\n## Handlungspunkte`;
+        plotSection += `\n\n## Handlungspunkte`;
         for (const pp of context.plotPoints) {
-            prompt += `\n- ${pp.title} (${pp.type})`;
-            if (pp.description) prompt += `: ${pp.description}`;
+            plotSection += `\n- ${pp.title} (${pp.type})`;
+            if (pp.description) plotSection += `: ${pp.description}`;
         }
     }
 
+    let worldSection = "";
     if (context.worldElements.length > 0) {
-        prompt += `\n\n## Weltelemente`;
+        worldSection += `\n\n## Weltelemente`;
         for (const we of context.worldElements) {
-            prompt += `\n- ${we.name} (${we.type})`;
-            if (we.description) prompt += `: ${we.description}`;
+            worldSection += `\n- ${we.name} (${we.type}${we.path ? `, in ${we.path}` : ""})`;
+            if (we.description) worldSection += `: ${we.description}`;
+            if (we.facts) worldSection += `\n  ${we.facts}`;
         }
-    }
-
-    if (context.previousChapters.length > 0) {
-        prompt += `\n\n## Vorherige Kapitel (VOLLSTÄNDIGER INHALT - dies sind die kanonischen Fakten!)`;
-        for (const ch of context.previousChapters) {
-            prompt += `\n\n### Kapitel ${ch.orderIndex + 1}: ${ch.title}`;
-            // Include full content, stripped of HTML for readability
-            if (ch.content && ch.content.trim()) {
-                const plainText = ch.content
-                    .replace(/<[^>]*>/g, ' ')  // Remove HTML tags
-                    .replace(/\s+/g, ' ')       // Normalize whitespace
-                    .trim();
-                prompt += `\n${plainText}`;
-            } else if (ch.summary) {
-                prompt += `\nZusammenfassung: ${ch.summary}`;
-            }
+        if (context.worldLinks.length > 0) {
+            worldSection += `\n\nVerbindungen:`;
+            for (const link of context.worldLinks) worldSection += `\n- ${link}`;
         }
-        prompt += `\n\n⚠️ WICHTIG: Alles oben Genannte ist bereits geschehen. Diese Ereignisse NICHT wiederholen!`;
     }
 
     // Add current chapter info
+    let currentSection = "";
     if (context.currentChapter) {
-        prompt += `\n\n## Aktuelles Kapitel (für das du schreibst)`;
-        prompt += `\n### Kapitel ${context.currentChapter.orderIndex + 1}: ${context.currentChapter.title}`;
+        currentSection += `\n\n## Aktuelles Kapitel (für das du schreibst)`;
+        currentSection += `\n### Kapitel ${context.currentChapter.orderIndex + 1}: ${context.currentChapter.title}`;
         if (context.currentChapter.summary) {
-            prompt += `\nGeplante Zusammenfassung: ${context.currentChapter.summary}`;
+            currentSection += `\nGeplante Zusammenfassung: ${context.currentChapter.summary}`;
         }
     }
 
     // Add next chapters to show the story continues
+    let nextSection = "";
     if (context.nextChapters.length > 0) {
-        prompt += `\n\n## Folgende Kapitel (was noch kommen wird - BEENDE DIE GESCHICHTE NICHT!)`;
+        nextSection += `\n\n## Folgende Kapitel (was noch kommen wird - BEENDE DIE GESCHICHTE NICHT!)`;
         for (const ch of context.nextChapters) {
-            prompt += `\n### Kapitel ${ch.orderIndex + 1}: ${ch.title}`;
-            if (ch.summary) prompt += `\nGeplante Zusammenfassung: ${ch.summary}`;
+            nextSection += `\n### Kapitel ${ch.orderIndex + 1}: ${ch.title}`;
+            if (ch.summary) nextSection += `\nGeplante Zusammenfassung: ${ch.summary}`;
+        }
+        nextSection += `\n\n⚠️ WICHTIG: Da noch ${context.nextChapters.length} Kapitel folgen, darf dieses Kapitel die Geschichte NICHT abschließen!`;
+    }
+
+    prompt += addSection("book", bookSection);
+    prompt += addSection("characters", characterSection);
+    prompt += addSection("plotPoints", plotSection);
+    prompt += addSection("worldElements", worldSection);
+
+    const { reservedForOutput, inputBudget } = computeInputBudget(budget.contextWindow, budget.maxOutputTokens);
+    const chapterHeading = (ch: { orderIndex: number; title: string }) => `\n\n### Kapitel ${ch.orderIndex + 1}: ${ch.title}`;
+
+    if (context.previousChapters.length > 0) {
+        const sectionIntro = `\n\n## Vorherige Kapitel (dies sind die kanonischen Fakten!)`;
+        const sectionOutro = `\n\n⚠️ WICHTIG: Alles oben Genannte ist bereits geschehen. Diese Ereignisse NICHT wiederholen!`;
+
+        // Whatever the rest of the prompt leaves over goes to the previous chapters
+        const fixedTokens = estimateTokens(prompt + currentSection + nextSection + sectionIntro + sectionOutro)
+            + estimateTokens(budget.userPrompt)
+            + context.previousChapters.reduce((sum, ch) => sum + estimateTokens(chapterHeading(ch)) + 10, 0);
+        const planned = planChapterContext(
+            context.previousChapters,
+            inputBudget - fixedTokens,
+            budget.verbatimChapters
+        );
+
+        prompt += sectionIntro;
+        for (const entry of planned) {
+            prompt += chapterHeading(entry.chapter);
+            switch (entry.mode) {
+                case "full":
+                    if (entry.text) prompt += `\n${entry.text}`;
+                    break;
+                case "summary":
+                    prompt += `\nZusammenfassung: ${entry.text}`;
+                    break;
+                case "excerpt":
+                    prompt += `\nAuszug (Anfang und Ende): ${entry.text}`;
+                    break;
+                case "truncated":
+                    prompt += `\nEnde des Kapitels: ${entry.text}`;
+                    break;
+                case "omitted":
+                    prompt += `\n(aus Platzgründen ausgelassen)`;
+                    break;
+            }
+            pieces.push({
+                kind: "previousChapter",
+                label: entry.chapter.title,
+                chapterNumber: entry.chapter.orderIndex + 1,
+                mode: entry.mode,
+                tokens: entry.tokens,
+            });
         }
-        prompt += `\n\n⚠️ WICHTIG: Da noch ${context.nextChapters.length} Kapitel folgen, darf dieses Kapitel die Geschichte NICHT abschließen!`;
+        prompt += sectionOutro;
     }
 
-    return prompt;
+    prompt += addSection("currentChapter", currentSection);
+    prompt += addSection("nextChapters", nextSection);
+
+    if (budget.userPrompt) {
+        pieces.push({ kind: "prompt", label: "", mode: "full", tokens: estimateTokens(budget.userPrompt) });
+    }
+
+    const usedTokens = estimateTokens(prompt) + estimateTokens(budget.userPrompt);
+
+    return {
+        systemPrompt: prompt,
+        report: {
+            model: budget.model,
+            contextWindow: budget.contextWindow,
+            reservedForOutput,
+            inputBudget,
+            usedTokens,
+            overBudget: usedTokens > inputBudget,
+            pieces,
+        },
+    };
+}
+
+// The user prompt sent to the model: the typed prompt, the chapter summary if requested,
+// and the length instruction. Null when there is nothing to write about.
+function buildUserPrompt(
+    prompt: string | undefined,
+    summary: string | null | undefined,
+    useSummaryAsPrompt: boolean,
+    lengthInstruction: string
+): string | null {
+    let effectivePrompt = prompt;
+    if (useSummaryAsPrompt && summary) {
+        const prefix = prompt?.trim() ? `${prompt}\n\nMiteinbezogene Zusammenfassung: ` : "Schreibe basierend auf dieser Zusammenfassung: ";
+        effectivePrompt = `${prefix}${summary}`;
+    } else if (!prompt?.trim()) {
+        return null;
+    }
+
+    // The length instruction is often more effective in the user prompt than in the system prompt
+    return `${effectivePrompt}\n\nLängen-Vorgabe: ${lengthInstruction}`;
+}
+
+// Length instruction for the user prompt and the matching output token limit
+function resolveTargetLength(targetLength: string, baseMaxTokens: number) {
+    // Reasoning models need significantly more tokens (often 2x-3x the content length)
+    // We set high limits to ensure the model can finish its thought process and content.
+    switch (targetLength) {
+        case "short":
+            return {
+                lengthInstruction: "Fasse dich kurz und prägnant (ca. 400-600 Wörter).",
+                maxOutputTokens: Math.max(baseMaxTokens, 4000),
+            };
+        case "long":
+            return {
+                lengthInstruction: "Schreibe sehr detailliert, atmosphärisch und umfangreich (ca. 1500+ Wörter). Nutze Dialoge und innere Monologe ausführlich.",
+                maxOutputTokens: Math.max(baseMaxTokens, 12000),
+            };
+        case "medium":
+            return {
+                lengthInstruction: "Schreibe in angemessener Länge und Ausführlichkeit (ca. 800-1200 Wörter).",
+                maxOutputTokens: Math.max(baseMaxTokens, 8000),
+            };
+        default:
+            return { lengthInstruction: "", maxOutputTokens: baseMaxTokens };
+    }
+}
+
+function promptBudget(
+    aiSettings: { model: string; contextWindow: number | null; verbatimChapters: number } | null,
+    maxOutputTokens: number,
+    userPrompt: string
+): PromptBudget {
+    const model = aiSettings?.model ?? "";
+    return {
+        model,
+        contextWindow: getModelContextWindow(model, aiSettings?.contextWindow),
+        maxOutputTokens,
+        verbatimChapters: aiSettings?.verbatimChapters ?? DEFAULT_VERBATIM_CHAPTERS,
+        userPrompt,
+    };
+}
+
+// Relay a provider stream to the client as server-sent events (context / delta / done / error).
+// Aborting the client request aborts the upstream call.
+function relayStream(request: NextRequest, stream: ChatStream, report: ContextReport): Response {
+    const encoder = new TextEncoder();
+
+    const readable = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: string, data: unknown) => {
+                try {
+                    controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+                } catch {
+                    // Client already disconnected
+                }
+            };
+
+            send("context", report);
+
+            try {
+                const { usage, finishReason } = await stream.read((text) => send("delta", { text }));
+                send("done", { usage, finishReason });
+            } catch (error) {
+                if (!request.signal.aborted) {
+                    console.error("AI stream error:", error);
+                    send("error", { error: "AI stream interrupted" });
+                }
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Stream was cancelled by the client
+                }
+            }
+        },
+    });
+
+    return new Response(readable, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
 }
 
 // POST generate text with AI
@@ -317,6 +602,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             targetLength = "medium", // default
             maxTokens,
             temperature,
+            stream = false,
         } = body;
 
         // Get AI settings
@@ -324,7 +610,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             where: { bookId },
         });
 
-        if (!aiSettings?.apiKey) {
+        if (!aiSettings || !isAIConfigured(aiSettings)) {
             return NextResponse.json(
                 { error: "AI API key not configured. Please set up AI settings first." },
                 { status: 400 }
@@ -341,135 +627,79 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         );
 
         // Determine length instruction and max tokens
-        let lengthInstruction = "";
-
-        // Reasoning models need significantly more tokens (often 2x-3x the content length)
-        // We set high limits to ensure the model can finish its thought process and content.
-        let calculatedMaxTokens = maxTokens ?? aiSettings.maxTokens;
-
-        switch (targetLength) {
-            case "short":
-                lengthInstruction = "Fasse dich kurz und prägnant (ca. 400-600 Wörter).";
-                if (calculatedMaxTokens < 4000) calculatedMaxTokens = 4000;
-                break;
-            case "medium":
-                lengthInstruction = "Schreibe in angemessener Länge und Ausführlichkeit (ca. 800-1200 Wörter).";
-                if (calculatedMaxTokens < 8000) calculatedMaxTokens = 8000;
-                break;
-            case "long":
-                lengthInstruction = "Schreibe sehr detailliert, atmosphärisch und umfangreich (ca. 1500+ Wörter). Nutze Dialoge und innere Monologe ausführlich.";
-                if (calculatedMaxTokens < 12000) calculatedMaxTokens = 12000;
-                break;
-        }
+        const { lengthInstruction, maxOutputTokens } = resolveTargetLength(
+            targetLength,
+            maxTokens ?? aiSettings.maxTokens
+        );
 
         // Build effective prompt - use chapter summary if requested and no prompt given
-        let effectivePrompt = prompt;
-        if (useSummaryAsPrompt && context.currentChapter?.summary) {
-            const prefix = prompt?.trim() ? `${prompt}\n\nMiteinbezogene Zusammenfassung: ` : "Schreibe basierend auf dieser Zusammenfassung: ";
-            effectivePrompt = `${prefix}${context.currentChapter.summary}`;
-        } else if (!prompt?.trim()) {
+        const effectivePrompt = buildUserPrompt(
+            prompt,
+            context.currentChapter?.summary,
+            Boolean(useSummaryAsPrompt),
+            lengthInstruction
+        );
+        if (!effectivePrompt) {
             return NextResponse.json(
                 { error: "Bitte gib einen Prompt ein oder füge eine Kapitelzusammenfassung hinzu." },
                 { status: 400 }
             );
         }
 
-        // Add length instruction to user prompt (it's often more effective in user prompt than system prompt for length)
-        effectivePrompt += `\n\nLängen-Vorgabe: ${lengthInstruction}`;
-
         // Build system prompt
-        const systemPrompt = buildSystemPrompt(context, aiSettings.systemPrompt || undefined);
-
-        // Call OpenAI-compatible API
-        const response = await fetch(`${aiSettings.apiEndpoint}/chat/completions`, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                Authorization: `Bearer ${aiSettings.apiKey}`,
-            },
-            body: JSON.stringify({
-                model: aiSettings.model,
-                messages: [
-                    { role: "system", content: systemPrompt },
-                    { role: "user", content: effectivePrompt },
-                ],
-                temperature: temperature ?? aiSettings.temperature,
-                max_tokens: calculatedMaxTokens,
-            }),
-        });
-
-        if (!response.ok) {
-            const errorData = await response.text();
-            console.error("AI API error:", errorData);
-            return NextResponse.json(
-                { error: "AI generation failed", details: errorData },
-                { status: response.status }
-            );
-        }
-
-        const data = await response.json().catch(() => ({ error: "Invalid JSON response from AI API" }));
-
-        if (process.env.NODE_ENV === "development") {
-            console.log("AI API Full Response:", JSON.stringify(data, null, 2));
-        }
+        const { systemPrompt, report } = buildSystemPrompt(
+            context,
+            aiSettings.systemPrompt || undefined,
+            promptBudget(aiSettings, maxOutputTokens, effectivePrompt)
+        );
 
-        // Robust text extraction
-        const choice = data.choices?.[0];
-        let generatedText = "";
-
-        // Check standard fields and provider-specific fields (like 'reasoning_content' from some local models)
-        if (typeof choice?.message?.content === "string" && choice.message.content.length > 0) {
-            generatedText = choice.message.content;
-
-            // Sometimes local models leak reasoning in <thinking> tags within the content
-            generatedText = generatedText.replace(/<thinking>[\s\S]*?<\/thinking>/gi, "").trim();
-        } else if (typeof choice?.message?.reasoning_content === "string") {
-            // Only fallback to reasoning if regular content is missing and we have no other choice
-            // But prefer not to use it if the user wants "final text only"
-            // However, better some text than error. We'll try to use it if we hit a length limit.
-            if (!generatedText) {
-                generatedText = choice.message.reasoning_content;
-            }
-        } else if (typeof choice?.text === "string") {
-            generatedText = choice.text;
-        } else if (typeof choice?.message === "string") {
-            generatedText = choice.message;
+        const connection = toAIConnection(aiSettings);
+        const chatRequest = {
+            messages: [
+                { role: "system" as const, content: systemPrompt },
+                { role: "user" as const, content: effectivePrompt },
+            ],
+            temperature: temperature ?? aiSettings.temperature,
+            maxTokens: maxOutputTokens,
+        };
+
+        if (stream) {
+            const chatStream = await openChatStream(connection, { ...chatRequest, signal: request.signal });
+            return relayStream(request, chatStream, report);
         }
 
-        if (!generatedText || generatedText.trim().length === 0) {
-            console.error("No usable text found in AI response. Data:", JSON.stringify(data, null, 2));
+        const result = await chatCompletion(connection, chatRequest);
 
-            // Check for specific error reasons in the response
-            const finishReason = choice?.finish_reason;
-            let errorMsg = data.error?.message || data.error || (finishReason ? `AI stopped without content: ${finishReason}` : "No text generated by AI model");
-
-            if (data.choices && data.choices.length === 0) {
-                errorMsg = "AI provider returned 0 choices. This might be due to content filtering.";
-            }
+        // Only fall back to the reasoning output if regular content is missing - better some text than an error
+        let generatedText = result.text.trim() ? result.text : result.reasoning ?? "";
 
+        if (!generatedText.trim()) {
+            console.error("No usable text found in AI response:", result);
             return NextResponse.json(
-                { error: errorMsg, details: data },
+                {
+                    error: result.finishReason
+                        ? `AI stopped without content: ${result.finishReason}`
+                        : "No text generated by AI model",
+                },
                 { status: 500 }
             );
         }
 
-        // Clean up markdown code blocks if the AI included them despite instructions
-        generatedText = generatedText.replace(/^```html\s*/i, "").replace(/```\s*$/, "").trim();
-
-        // Fallback: If no HTML tags are found, convert plain text newlines to HTML
-        if (!/<\/?[a-z][\s\S]*>/i.test(generatedText)) {
-            generatedText = generatedText
-                .split(/\n\n+/)
-                .map((para: string) => `<p>${para.trim().replace(/\n/g, "<br>")}</p>`)
-                .join("");
-        }
+        generatedText = normalizeGeneratedHtml(generatedText);
 
         return NextResponse.json({
             text: generatedText,
-            usage: data.usage,
+            usage: result.usage,
+            context: report,
         });
     } catch (error) {
         console.error("Failed to generate text:", error);
+        if (error instanceof AIProviderError) {
+            return NextResponse.json(
+                { error: "AI generation failed", details: error.message },
+                { status: error.status }
+            );
+        }
         return NextResponse.json(
             { error: "Failed to generate text" },
             { status: 500 }
@@ -477,23 +707,51 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
     }
 }
 
-// GET context preview (for debugging/displaying)
+// GET context preview (for debugging/displaying). Accepts the same selection and prompt as POST;
+// with reportOnly=true only the token budget report is returned.
 export async function GET(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId } = await params;
         const { searchParams } = new URL(request.url);
         const chapterId = searchParams.get("chapterId") || undefined;
+        const idList = (name: string) => searchParams.get(name)?.split(",").filter(Boolean);
 
-        const context = await aggregateContext(bookId, chapterId);
+        const context = await aggregateContext(
+            bookId,
+            chapterId,
+            idList("characterIds"),
+            idList("plotPointIds"),
+            idList("worldElementIds")
+        );
         const aiSettings = await prisma.aISettings.findUnique({
             where: { bookId },
         });
 
-        const systemPrompt = buildSystemPrompt(context, aiSettings?.systemPrompt || undefined);
+        const { lengthInstruction, maxOutputTokens } = resolveTargetLength(
+            searchParams.get("targetLength") || "medium",
+            aiSettings?.maxTokens ?? 2000
+        );
+        // The pending prompt takes its share of the budget just like it will when generating
+        const userPrompt = buildUserPrompt(
+            searchParams.get("prompt") || undefined,
+            context.currentChapter?.summary,
+            searchParams.get("useSummaryAsPrompt") === "true",
+            lengthInstruction
+        );
+        const { systemPrompt, report } = buildSystemPrompt(
+            context,
+            aiSettings?.systemPrompt || undefined,
+            promptBudget(aiSettings, maxOutputTokens, userPrompt ?? "")
+        );
+
+        if (searchParams.get("reportOnly") === "true") {
+            return NextResponse.json({ report });
+        }
 
         return NextResponse.json({
             context,
             systemPrompt,
+            report,
         });
     } catch (error) {
         console.error("Failed to get context:", error);
@@ -0,0 +1,208 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { generateText } from "@/lib/ai/client";
+import { estimateTokens, truncateToTokens } from "@/lib/ai/context-budget";
+import { AIProviderError } from "@/lib/ai/errors";
+import {
+    isSelectionAction,
+    isSelectionTone,
+    type SelectionAction,
+    type SelectionTone,
+} from "@/lib/ai/selection-actions";
+import { isAIConfigured, toAIConnection } from "@/lib/ai/types";
+import { normalizeGeneratedHtml } from "@/lib/generated-text";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// Surrounding text handed to the model; the selection itself is never cut
+const BEFORE_CONTEXT_TOKENS = 1500;
+const AFTER_CONTEXT_TOKENS = 500;
+
+const toneInstructions: Record<SelectionTone, string> = {
+    formal: "förmlich und gehoben",
+    casual: "locker und umgangssprachlich",
+    dramatic: "dramatisch und spannungsgeladen",
+    humorous: "humorvoll und leichtfüßig",
+    dark: "düster und bedrückend",
+    poetic: "poetisch und bildreich",
+};
+
+function actionInstruction(action: SelectionAction, tone: SelectionTone | undefined): string {
+    switch (action) {
+        case "rewrite":
+            return "Formuliere den markierten Text neu. Inhalt und Aussage bleiben gleich, aber Wortwahl und Satzbau sollen frischer und flüssiger werden.";
+        case "shorten":
+            return "Kürze den markierten Text auf etwa die Hälfte. Behalte alle wichtigen Informationen und den Ton bei.";
+        case "expand":
+            return "Erweitere den markierten Text auf etwa die doppelte Länge, mit mehr Details, Sinneseindrücken und Innensicht. Füge keine neuen Handlungsereignisse hinzu.";
+        case "tone":
+            return `Schreibe den markierten Text in einem anderen Ton um: ${toneInstructions[tone ?? "formal"]}. Der Inhalt bleibt gleich.`;
+        case "showDontTell":
+            return "Überarbeite den markierten Text nach dem Prinzip \"Show, don't tell\": Ersetze benannte Gefühle und Zusammenfassungen durch Handlungen, Dialog, Körpersprache und konkrete Details.";
+        case "continue":
+            return "Schreibe die Geschichte ab der Cursor-Position weiter, mit ein bis drei Absätzen. Knüpfe nahtlos an den vorherigen Text an und nimm den folgenden Text nicht vorweg.";
+    }
+}
+
+function buildSelectionPrompt(data: {
+    action: SelectionAction;
+    tone: SelectionTone | undefined;
+    text: string;
+    before: string;
+    after: string;
+    inline: boolean;
+    chapterTitle: string | null;
+}): string {
+    let prompt = actionInstruction(data.action, data.tone);
+
+    if (data.chapterTitle) {
+        prompt += `\n\n## Kapitel: ${data.chapterTitle}`;
+    }
+
+    if (data.before) {
+        prompt += `\n\n## Vorheriger Text (nur Kontext, nicht wiedergeben)\n${data.before}`;
+    }
+
+    if (data.action === "continue") {
+        prompt += `\n\n## >>> Hier weiterschreiben <<<`;
+        if (data.text) {
+            prompt += `\n(Zuletzt markiert: ${data.text})`;
+        }
+    } else {
+        prompt += `\n\n## Markierter Text\n${data.text}`;
+    }
+
+    if (data.after) {
+        prompt += `\n\n## Nachfolgender Text (nur Kontext, nicht wiedergeben)\n${data.after}`;
+    }
+
+    prompt += data.inline
+        ? "\n\nDer markierte Text ist Teil eines Absatzes. Antworte nur mit dem Ersatztext, ohne <p>-Tags, sodass er sich nahtlos in den Satz einfügt."
+        : "\n\nAntworte nur mit dem neuen Text in HTML. Jeder Absatz MUSS in ein <p>-Tag eingeschlossen sein.";
+
+    return prompt;
+}
+
+function buildSystemPrompt(book: {
+    title: string;
+    genre: string | null;
+    writingStyle: string | null;
+    language: string;
+}, customSystemPrompt: string | null): string {
+    let prompt = `Du bist ein erfahrener Lektor und Co-Autor, der einzelne Textstellen eines Romans überarbeitet.
+Behalte Erzählperspektive, Zeitform, Namen und Fakten des umgebenden Textes bei.
+Verwende ausschließlich folgende Tags: <p>, <strong>, <em>. Verwende KEINE Markdown-Syntax.
+Antworte nur mit dem Text selbst, ohne Erklärungen, Anführungszeichen oder Überschriften.
+
+## Buch: ${book.title}`;
+
+    if (book.genre) prompt += `\nGenre: ${book.genre}`;
+    if (book.writingStyle) prompt += `\nSchreibstil: ${book.writingStyle}`;
+    prompt += `\nSprache: ${book.language === "de" ? "Deutsch" : book.language}`;
+
+    if (customSystemPrompt) {
+        prompt += `\n\nZusätzliche Anweisungen des Autors:\n${customSystemPrompt}`;
+    }
+
+    return prompt;
+}
+
+// POST - Rewrite, shorten, expand, re-tone or continue a text selection from the chapter editor
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { chapterId } = body;
+        const text = typeof body.text === "string" ? body.text.trim() : "";
+        const before = typeof body.before === "string" ? body.before.trim() : "";
+        const after = typeof body.after === "string" ? body.after.trim() : "";
+
+        if (!isSelectionAction(body.action)) {
+            return NextResponse.json(
+                { error: "Unknown selection action" },
+                { status: 400 }
+            );
+        }
+
+        if (body.action === "continue" ? !text && !before : !text) {
+            return NextResponse.json(
+                { error: "No text selected" },
+                { status: 400 }
+            );
+        }
+
+        const aiSettings = await prisma.aISettings.findUnique({
+            where: { bookId },
+        });
+
+        if (!aiSettings || !isAIConfigured(aiSettings)) {
+            return NextResponse.json(
+                { error: "AI API key not configured. Please set up AI settings first." },
+                { status: 400 }
+            );
+        }
+
+        const book = await prisma.book.findUnique({
+            where: { id: bookId },
+            select: {
+                title: true,
+                genre: true,
+                writingStyle: true,
+                language: true,
+            },
+        });
+
+        if (!book) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        const chapter = chapterId
+            ? await prisma.chapter.findUnique({
+                where: { id: chapterId, bookId },
+                select: { title: true },
+            })
+            : null;
+
+        const prompt = buildSelectionPrompt({
+            action: body.action,
+            tone: isSelectionTone(body.tone) ? body.tone : undefined,
+            text,
+            before: truncateToTokens(before, BEFORE_CONTEXT_TOKENS, "end"),
+            after: truncateToTokens(after, AFTER_CONTEXT_TOKENS),
+            inline: body.inline === true && body.action !== "continue",
+            chapterTitle: chapter?.title ?? null,
+        });
+
+        // Rewrites stay close to the selection's length, expansions may double it
+        const maxTokens = body.action === "continue"
+            ? aiSettings.maxTokens
+            : Math.min(aiSettings.maxTokens, Math.max(estimateTokens(text) * 3, 400));
+
+        const response = await generateText(toAIConnection(aiSettings), {
+            system: buildSystemPrompt(book, aiSettings.systemPrompt),
+            prompt,
+            temperature: aiSettings.temperature,
+            maxTokens,
+        });
+
+        return NextResponse.json({ text: normalizeGeneratedHtml(response), model: aiSettings.model });
+    } catch (error) {
+        console.error("Failed to edit selection:", error);
+        if (error instanceof AIProviderError) {
+            return NextResponse.json(
+                { error: "AI editing failed", details: error.message },
+                { status: error.status }
+            );
+        }
+        return NextResponse.json(
+            { error: "Failed to edit selection" },
+            { status: 500 }
+        );
+    }
+}
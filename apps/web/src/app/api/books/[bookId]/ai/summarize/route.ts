@@ -0,0 +1,204 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { generateText } from "@/lib/ai/client";
+import {
+    computeInputBudget,
+    estimateTokens,
+    getModelContextWindow,
+    htmlToPlainText,
+    truncateToTokens,
+} from "@/lib/ai/context-budget";
+import { AIProviderError } from "@/lib/ai/errors";
+import { extractJSON } from "@/lib/ai/json";
+import { isAIConfigured, toAIConnection } from "@/lib/ai/types";
+import { formatSummaryWithRecap, normalizeRecap } from "@/lib/chapter-recap";
+import { characterPromptName } from "@/lib/character-presence";
+import { syncSearchIndex } from "@/lib/search-index";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// Room for the JSON answer (summary plus four short lists)
+const SUMMARY_MAX_TOKENS = 1500;
+
+const systemPrompt = "Du bist ein präziser Lektor-Assistent, der Kapitel für die Kontinuitätsprüfung zusammenfasst. Antworte nur mit validem JSON.";
+
+function buildSummaryPrompt(data: {
+    bookTitle: string;
+    language: string;
+    chapterNumber: number;
+    chapterTitle: string;
+    chapterText: string;
+    characterNames: string[];
+    previousRecap: string | null;
+}): string {
+    let prompt = `Fasse das folgende Kapitel zusammen. Die Zusammenfassung dient später als kanonische Faktenbasis, wenn weitere Kapitel geschrieben werden.
+
+## Antwortformat:
+\`\`\`json
+{
+  "summary": "Zusammenfassung der Handlung in 3-6 Sätzen",
+  "events": ["Wichtiges Ereignis in der Reihenfolge des Kapitels"],
+  "characterChanges": ["Name: Veränderung (z.B. verletzt, hat etwas erfahren, neues Ziel, Ortswechsel)"],
+  "items": ["Name: erworbener, verlorener oder weitergegebener Gegenstand"],
+  "openThreads": ["Offene Frage oder unaufgelöster Handlungsfaden"]
+}
+\`\`\`
+
+Regeln:
+- Nur Fakten, die im Kapitel tatsächlich vorkommen. Nichts erfinden.
+- Verwende die Charakternamen so, wie sie im Buch heißen.
+- Leere Listen sind erlaubt.
+- Schreibe in der Sprache des Buches (${data.language === "de" ? "Deutsch" : data.language}).
+
+## Buch: ${data.bookTitle}`;
+
+    if (data.characterNames.length > 0) {
+        prompt += `\nCharaktere: ${data.characterNames.join(", ")}`;
+    }
+
+    if (data.previousRecap) {
+        prompt += `\n\n## Stand nach dem vorherigen Kapitel\n${data.previousRecap}`;
+    }
+
+    prompt += `\n\n## Kapitel ${data.chapterNumber}: ${data.chapterTitle}\n${data.chapterText}`;
+
+    return prompt;
+}
+
+// POST - Summarize a chapter into a structured recap and store it on the chapter
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const { chapterId } = await request.json();
+
+        if (!chapterId) {
+            return NextResponse.json(
+                { error: "chapterId is required" },
+                { status: 400 }
+            );
+        }
+
+        const aiSettings = await prisma.aISettings.findUnique({
+            where: { bookId },
+        });
+
+        if (!aiSettings || !isAIConfigured(aiSettings)) {
+            return NextResponse.json(
+                { error: "AI API key not configured. Please set up AI settings first." },
+                { status: 400 }
+            );
+        }
+
+        const chapter = await prisma.chapter.findUnique({
+            where: { id: chapterId, bookId },
+            select: {
+                title: true,
+                content: true,
+                orderIndex: true,
+                book: {
+                    select: {
+                        title: true,
+                        language: true,
+                        characters: {
+                            orderBy: { name: "asc" },
+                            select: { name: true, aliases: true },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        const plainText = htmlToPlainText(chapter.content);
+        if (!plainText) {
+            return NextResponse.json(
+                { error: "Chapter has no content to summarize" },
+                { status: 400 }
+            );
+        }
+
+        // The recap of the chapter before helps telling new threads from resolved ones
+        const previousChapter = await prisma.chapter.findFirst({
+            where: { bookId, orderIndex: { lt: chapter.orderIndex } },
+            orderBy: { orderIndex: "desc" },
+            select: { summary: true, recap: true },
+        });
+
+        const promptData = {
+            bookTitle: chapter.book.title,
+            language: chapter.book.language,
+            chapterNumber: chapter.orderIndex + 1,
+            chapterTitle: chapter.title,
+            chapterText: "",
+            characterNames: chapter.book.characters.map((character) => characterPromptName(character)),
+            previousRecap: previousChapter ? formatSummaryWithRecap(previousChapter.summary, previousChapter.recap) : null,
+        };
+
+        // Very long chapters are cut to what fits into the model's context window
+        const { inputBudget } = computeInputBudget(
+            getModelContextWindow(aiSettings.model, aiSettings.contextWindow),
+            SUMMARY_MAX_TOKENS
+        );
+        const fixedTokens = estimateTokens(systemPrompt + buildSummaryPrompt(promptData));
+        promptData.chapterText = truncateToTokens(plainText, Math.max(inputBudget - fixedTokens, 500));
+
+        const response = await generateText(toAIConnection(aiSettings), {
+            system: systemPrompt,
+            prompt: buildSummaryPrompt(promptData),
+            temperature: 0.3,
+            maxTokens: SUMMARY_MAX_TOKENS,
+        });
+
+        const parsed = extractJSON(response, { fallbackFields: ["summary"] });
+        const summary = typeof parsed?.summary === "string" ? parsed.summary.trim() : "";
+        if (!parsed || !summary) {
+            console.error("Failed to parse chapter summary:", response);
+            return NextResponse.json(
+                { error: "AI response could not be parsed" },
+                { status: 502 }
+            );
+        }
+
+        const updated = await prisma.chapter.update({
+            where: { id: chapterId, bookId },
+            data: {
+                summary,
+                recap: JSON.stringify(normalizeRecap(parsed)),
+                summarizedAt: new Date(),
+                summaryStale: false,
+            },
+            select: {
+                id: true,
+                summary: true,
+                recap: true,
+                summarizedAt: true,
+                summaryStale: true,
+            },
+        });
+
+        await syncSearchIndex(bookId, "chapter", chapterId);
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error("Failed to summarize chapter:", error);
+        if (error instanceof AIProviderError) {
+            return NextResponse.json(
+                { error: "AI summarization failed", details: error.message },
+                { status: error.status }
+            );
+        }
+        return NextResponse.json(
+            { error: "Failed to summarize chapter" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { exportBookArchive } from "@/lib/book-archive";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET - Download the complete book as a backup archive
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const archive = await exportBookArchive(bookId);
+
+        if (!archive) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        const baseName = archive.title.replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_+|_+$/g, "") || "book";
+        const fileName = `${baseName}.backup.zip`;
+
+        return new NextResponse(new Uint8Array(archive.data), {
+            headers: {
+                "Content-Type": "application/zip",
+                "Content-Disposition": `attachment; filename="${encodeURIComponent(fileName)}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            },
+        });
+    } catch (error) {
+        console.error("Failed to export book backup:", error);
+        return NextResponse.json(
+            { error: "Failed to export book backup" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,100 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { MAX_COMMENT_LENGTH } from "@/lib/chapter-comments";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; chapterId: string; commentId: string }>;
+};
+
+async function findComment(bookId: string, chapterId: string, commentId: string) {
+    return prisma.chapterComment.findFirst({
+        where: {
+            id: commentId,
+            chapterId,
+            chapter: { bookId },
+        },
+        select: { id: true, parentId: true },
+    });
+}
+
+// PATCH edit the text of a comment, or resolve/reopen a thread with { resolved }
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId, commentId } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const comment = await findComment(bookId, chapterId, commentId);
+
+        if (!comment) {
+            return NextResponse.json(
+                { error: "Comment not found" },
+                { status: 404 }
+            );
+        }
+
+        const content = typeof body.content === "string" ? body.content.trim() : undefined;
+
+        if (content !== undefined && (!content || content.length > MAX_COMMENT_LENGTH)) {
+            return NextResponse.json(
+                { error: `Comment text must be between 1 and ${MAX_COMMENT_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        // Only whole threads are resolved
+        if (typeof body.resolved === "boolean" && comment.parentId) {
+            return NextResponse.json(
+                { error: "Replies cannot be resolved on their own" },
+                { status: 400 }
+            );
+        }
+
+        const updated = await prisma.chapterComment.update({
+            where: { id: commentId },
+            data: {
+                ...(content !== undefined && { content }),
+                ...(typeof body.resolved === "boolean" && {
+                    resolved: body.resolved,
+                    resolvedAt: body.resolved ? new Date() : null,
+                }),
+            },
+        });
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error("Failed to update comment:", error);
+        return NextResponse.json(
+            { error: "Failed to update comment" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE a comment; deleting the first comment of a thread removes its replies as well
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId, commentId } = await params;
+
+        const comment = await findComment(bookId, chapterId, commentId);
+
+        if (!comment) {
+            return NextResponse.json(
+                { error: "Comment not found" },
+                { status: 404 }
+            );
+        }
+
+        await prisma.chapterComment.delete({
+            where: { id: commentId },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete comment:", error);
+        return NextResponse.json(
+            { error: "Failed to delete comment" },
+            { status: 500 }
+        );
+    }
+}
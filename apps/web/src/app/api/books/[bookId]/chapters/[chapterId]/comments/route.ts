@@ -0,0 +1,114 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { isCommentAnchorId, MAX_COMMENT_LENGTH } from "@/lib/chapter-comments";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; chapterId: string }>;
+};
+
+// GET all comments of a chapter, replies included
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId } = await params;
+
+        const chapter = await prisma.chapter.findUnique({
+            where: { id: chapterId, bookId },
+            select: { id: true },
+        });
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        const comments = await prisma.chapterComment.findMany({
+            where: { chapterId },
+            orderBy: { createdAt: "asc" },
+        });
+
+        return NextResponse.json(comments);
+    } catch (error) {
+        console.error("Failed to fetch comments:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch comments" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST a new thread on an anchored text range, or a reply with parentId
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const content = typeof body.content === "string" ? body.content.trim() : "";
+        const author = typeof body.author === "string" ? body.author.trim() : "";
+
+        if (!content) {
+            return NextResponse.json(
+                { error: "Comment text is required" },
+                { status: 400 }
+            );
+        }
+
+        if (content.length > MAX_COMMENT_LENGTH) {
+            return NextResponse.json(
+                { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` },
+                { status: 400 }
+            );
+        }
+
+        const chapter = await prisma.chapter.findUnique({
+            where: { id: chapterId, bookId },
+            select: { id: true },
+        });
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        if (typeof body.parentId === "string") {
+            const parent = await prisma.chapterComment.findFirst({
+                where: { id: body.parentId, chapterId, parentId: null },
+                select: { id: true },
+            });
+
+            if (!parent) {
+                return NextResponse.json(
+                    { error: "Comment thread not found" },
+                    { status: 404 }
+                );
+            }
+
+            const reply = await prisma.chapterComment.create({
+                data: { chapterId, parentId: parent.id, author: author || "Unknown", content },
+            });
+
+            return NextResponse.json(reply, { status: 201 });
+        }
+
+        const comment = await prisma.chapterComment.create({
+            data: {
+                chapterId,
+                anchorId: isCommentAnchorId(body.anchorId) ? body.anchorId : null,
+                quote: typeof body.quote === "string" && body.quote.trim() ? body.quote.trim() : null,
+                author: author || "Unknown",
+                content,
+            },
+        });
+
+        return NextResponse.json(comment, { status: 201 });
+    } catch (error) {
+        console.error("Failed to create comment:", error);
+        return NextResponse.json(
+            { error: "Failed to create comment" },
+            { status: 500 }
+        );
+    }
+}
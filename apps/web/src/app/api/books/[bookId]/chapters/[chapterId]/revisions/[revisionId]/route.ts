@@ -0,0 +1,95 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { countWords, createChapterRevision } from "@/lib/chapter-revisions";
+import { syncChapterScenes } from "@/lib/scene-sync";
+import { syncSearchIndex } from "@/lib/search-index";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; chapterId: string; revisionId: string }>;
+};
+
+async function findRevision(bookId: string, chapterId: string, revisionId: string) {
+    return prisma.chapterRevision.findFirst({
+        where: {
+            id: revisionId,
+            chapterId,
+            chapter: { bookId },
+        },
+    });
+}
+
+// GET single revision with full content
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId, revisionId } = await params;
+
+        const revision = await findRevision(bookId, chapterId, revisionId);
+
+        if (!revision) {
+            return NextResponse.json(
+                { error: "Revision not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(revision);
+    } catch (error) {
+        console.error("Failed to fetch revision:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch revision" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST restore a revision into the chapter
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId, revisionId } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        if (body.action !== "restore") {
+            return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+        }
+
+        const [revision, current] = await Promise.all([
+            findRevision(bookId, chapterId, revisionId),
+            prisma.chapter.findUnique({
+                where: { id: chapterId, bookId },
+                select: { title: true, content: true, summarizedAt: true },
+            }),
+        ]);
+
+        if (!revision || !current) {
+            return NextResponse.json(
+                { error: "Revision not found" },
+                { status: 404 }
+            );
+        }
+
+        // Keep the state being replaced so a restore can itself be undone
+        await createChapterRevision(chapterId, current, "restore");
+
+        const chapter = await prisma.chapter.update({
+            where: { id: chapterId, bookId },
+            data: {
+                title: revision.title,
+                content: revision.content,
+                wordCount: countWords(revision.content),
+                ...(current.summarizedAt && revision.content !== current.content && { summaryStale: true }),
+            },
+        });
+
+        await syncChapterScenes(chapterId, chapter.content);
+        await syncSearchIndex(bookId, "chapter", chapterId);
+
+        return NextResponse.json(chapter);
+    } catch (error) {
+        console.error("Failed to restore revision:", error);
+        return NextResponse.json(
+            { error: "Failed to restore revision" },
+            { status: 500 }
+        );
+    }
+}
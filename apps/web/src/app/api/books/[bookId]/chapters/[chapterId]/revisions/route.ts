@@ -0,0 +1,92 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { createChapterRevision, isRevisionReason } from "@/lib/chapter-revisions";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; chapterId: string }>;
+};
+
+// GET all revisions of a chapter (without content)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId } = await params;
+
+        const chapter = await prisma.chapter.findUnique({
+            where: { id: chapterId, bookId },
+            select: { id: true },
+        });
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        const revisions = await prisma.chapterRevision.findMany({
+            where: { chapterId },
+            orderBy: { createdAt: "desc" },
+            select: {
+                id: true,
+                title: true,
+                wordCount: true,
+                reason: true,
+                createdAt: true,
+            },
+        });
+
+        return NextResponse.json(revisions);
+    } catch (error) {
+        console.error("Failed to fetch revisions:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch revisions" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST create a snapshot (defaults to the stored chapter state)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, chapterId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { reason, title, content } = body;
+
+        if (!isRevisionReason(reason)) {
+            return NextResponse.json(
+                { error: "Invalid revision reason" },
+                { status: 400 }
+            );
+        }
+
+        const chapter = await prisma.chapter.findUnique({
+            where: { id: chapterId, bookId },
+            select: { title: true, content: true },
+        });
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        const revision = await createChapterRevision(
+            chapterId,
+            {
+                title: typeof title === "string" ? title : chapter.title,
+                content: typeof content === "string" ? content : chapter.content,
+            },
+            reason
+        );
+
+        return NextResponse.json({ revision, created: revision !== null }, { status: revision ? 201 : 200 });
+    } catch (error) {
+        console.error("Failed to create revision:", error);
+        return NextResponse.json(
+            { error: "Failed to create revision" },
+            { status: 500 }
+        );
+    }
+}
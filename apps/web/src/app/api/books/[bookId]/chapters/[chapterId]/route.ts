@@ -1,6 +1,12 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { countWords, createChapterRevision, isAutosaveRevisionDue } from "@/lib/chapter-revisions";
+import { syncChapterPresence } from "@/lib/character-presence-sync";
+import { syncChapterScenes } from "@/lib/scene-sync";
+import { removeFromSearchIndex, syncSearchIndex } from "@/lib/search-index";
+import { readStoryDateFields } from "@/lib/story-time";
+
 type RouteContext = {
     params: Promise<{ bookId: string; chapterId: string }>;
 };
@@ -41,6 +47,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
                         },
                     },
                 },
+                scenes: {
+                    orderBy: { orderIndex: "asc" },
+                },
             },
         });
 
@@ -66,14 +75,41 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId, chapterId } = await params;
         const body = await request.json();
-        const { title, content, summary, notes, status, characterIds, plotPointIds } = body;
+        const { title, content, summary, notes, status, act, characterIds, plotPointIds, revisionReason } = body;
+
+        if (act !== undefined && act !== null && !(Number.isInteger(act) && act >= 1)) {
+            return NextResponse.json(
+                { error: "act must be a positive integer or null" },
+                { status: 400 }
+            );
+        }
+
+        const storyDates = readStoryDateFields(body);
+        if (typeof storyDates === "string") {
+            return NextResponse.json(
+                { error: storyDates },
+                { status: 400 }
+            );
+        }
 
         // Calculate word count if content is provided
         let wordCount: number | undefined;
         if (content !== undefined) {
-            // Strip HTML tags and count words
-            const textContent = content.replace(/<[^>]*>/g, " ");
-            wordCount = textContent.split(/\s+/).filter((word: string) => word.length > 0).length;
+            wordCount = countWords(content);
+        }
+
+        const previous = content !== undefined
+            ? await prisma.chapter.findUnique({
+                where: { id: chapterId, bookId },
+                select: { title: true, content: true, summarizedAt: true },
+            })
+            : null;
+        const contentChanged = previous !== null && previous.content !== content;
+
+        // Keep the previous state around before an autosave overwrites it (at most every few minutes)
+        let revisionCreated = false;
+        if (previous && contentChanged && revisionReason === "autosave" && previous.content.trim() && await isAutosaveRevisionDue(chapterId)) {
+            revisionCreated = (await createChapterRevision(chapterId, previous, "autosave")) !== null;
         }
 
         // Update chapter
@@ -85,20 +121,39 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
                 ...(summary !== undefined && { summary }),
                 ...(notes !== undefined && { notes }),
                 ...(status !== undefined && { status }),
+                ...(act !== undefined && { act }),
+                ...storyDates,
                 ...(wordCount !== undefined && { wordCount }),
+                // An AI summary no longer describes the chapter once its text changes
+                ...(contentChanged && previous.summarizedAt && { summaryStale: true }),
             },
         });
 
-        // Update character associations if provided
+        // Scene order and word counts follow the scene breaks in the text, the cast follows the names
+        if (contentChanged) {
+            await syncChapterScenes(chapterId, chapter.content);
+            await syncChapterPresence(chapterId);
+        }
+
+        // Manual saves are explicit checkpoints of the state that was just written
+        if (revisionReason === "manual" && chapter.content.trim()) {
+            revisionCreated = (await createChapterRevision(chapterId, chapter, "manual")) !== null;
+        }
+
+        // Update character associations if provided; links that stay keep their prominence and counts
         if (characterIds !== undefined) {
-            // Delete existing associations
+            const keep: string[] = Array.isArray(characterIds) ? characterIds : [];
             await prisma.chapterCharacter.deleteMany({
+                where: { chapterId, characterId: { notIn: keep } },
+            });
+            const existing = await prisma.chapterCharacter.findMany({
                 where: { chapterId },
+                select: { characterId: true },
             });
-            // Create new associations
-            if (Array.isArray(characterIds) && characterIds.length > 0) {
+            const added = keep.filter((characterId) => !existing.some((link) => link.characterId === characterId));
+            if (added.length > 0) {
                 await prisma.chapterCharacter.createMany({
-                    data: characterIds.map((characterId: string) => ({
+                    data: added.map((characterId) => ({
                         chapterId,
                         characterId,
                     })),
@@ -123,7 +178,9 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
             }
         }
 
-        return NextResponse.json(chapter);
+        await syncSearchIndex(bookId, "chapter", chapterId);
+
+        return NextResponse.json({ ...chapter, revisionCreated });
     } catch (error) {
         console.error("Failed to update chapter:", error);
         return NextResponse.json(
@@ -142,6 +199,8 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
             where: { id: chapterId, bookId },
         });
 
+        await removeFromSearchIndex("chapter", chapterId);
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Failed to delete chapter:", error);
@@ -1,6 +1,8 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { syncSearchIndex } from "@/lib/search-index";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -81,6 +83,8 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             },
         });
 
+        await syncSearchIndex(bookId, "chapter", chapter.id);
+
         return NextResponse.json(chapter, { status: 201 });
     } catch (error) {
         console.error("Failed to create chapter:", error);
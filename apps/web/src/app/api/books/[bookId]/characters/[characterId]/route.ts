@@ -1,6 +1,10 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { parseAliases, serializeAliases } from "@/lib/character-presence";
+import { normalizeRelationChanges } from "@/lib/relation-history";
+import { removeFromSearchIndex, syncSearchIndex } from "@/lib/search-index";
+
 type RouteContext = {
     params: Promise<{ bookId: string; characterId: string }>;
 };
@@ -23,6 +27,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
                                 imageUrl: true,
                             },
                         },
+                        changes: {
+                            select: { chapterId: true, relationType: true, description: true },
+                        },
                     },
                 },
                 relationsTo: {
@@ -35,6 +42,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
                                 imageUrl: true,
                             },
                         },
+                        changes: {
+                            select: { chapterId: true, relationType: true, description: true },
+                        },
                     },
                 },
                 chapterCharacters: {
@@ -86,6 +96,8 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
         const body = await request.json();
         const {
             name,
+            aliases,
+            pronouns,
             role,
             description,
             backstory,
@@ -95,14 +107,24 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
             arc,
             notes,
             imageUrl,
+            deathChapterId,
             relations,
         } = body;
 
+        if (deathChapterId && !(await prisma.chapter.count({ where: { id: deathChapterId, bookId } }))) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
         // Update character
         const character = await prisma.character.update({
             where: { id: characterId, bookId },
             data: {
                 ...(name !== undefined && { name }),
+                ...(aliases !== undefined && { aliases: typeof aliases === "string" ? serializeAliases(parseAliases(aliases)) : null }),
+                ...(pronouns !== undefined && { pronouns: typeof pronouns === "string" ? pronouns.trim() || null : null }),
                 ...(role !== undefined && { role }),
                 ...(description !== undefined && { description }),
                 ...(backstory !== undefined && { backstory }),
@@ -112,6 +134,7 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
                 ...(arc !== undefined && { arc }),
                 ...(notes !== undefined && { notes }),
                 ...(imageUrl !== undefined && { imageUrl }),
+                ...(deathChapterId !== undefined && { deathChapterId: deathChapterId || null }),
             },
         });
 
@@ -121,19 +144,27 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
             await prisma.characterRelation.deleteMany({
                 where: { characterId },
             });
-            // Create new relations
-            if (relations.length > 0) {
-                await prisma.characterRelation.createMany({
-                    data: relations.map((rel: { relatedCharacterId: string; relationType: string; description?: string }) => ({
+            // Create new relations, each with its changes over the chapters
+            const chapterIds = new Set(
+                (await prisma.chapter.findMany({ where: { bookId }, select: { id: true } })).map((chapter) => chapter.id)
+            );
+            for (const rel of relations as Array<{ relatedCharacterId: string; relationType: string; description?: string; changes?: unknown }>) {
+                await prisma.characterRelation.create({
+                    data: {
                         characterId,
                         relatedCharacterId: rel.relatedCharacterId,
                         relationType: rel.relationType,
                         description: rel.description,
-                    })),
+                        changes: {
+                            create: normalizeRelationChanges(rel.changes).filter((change) => chapterIds.has(change.chapterId)),
+                        },
+                    },
                 });
             }
         }
 
+        await syncSearchIndex(bookId, "character", characterId);
+
         return NextResponse.json(character);
     } catch (error) {
         console.error("Failed to update character:", error);
@@ -153,6 +184,8 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
             where: { id: characterId, bookId },
         });
 
+        await removeFromSearchIndex("character", characterId);
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Failed to delete character:", error);
@@ -0,0 +1,32 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; characterId: string; chapterId: string }>;
+};
+
+// DELETE the character's state in a chapter
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, characterId, chapterId } = await params;
+
+        const { count } = await prisma.characterState.deleteMany({
+            where: { characterId, chapterId, character: { bookId } },
+        });
+
+        if (count === 0) {
+            return NextResponse.json(
+                { error: "Character state not found" },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete character state:", error);
+        return NextResponse.json(
+            { error: "Failed to delete character state" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,111 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { isCharacterStateEmpty, normalizeCharacterState } from "@/lib/character-arc";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; characterId: string }>;
+};
+
+// GET the arc of a character: every chapter of the book with the character's state in it
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, characterId } = await params;
+
+        const character = await prisma.character.findUnique({
+            where: { id: characterId, bookId },
+            select: { id: true },
+        });
+
+        if (!character) {
+            return NextResponse.json(
+                { error: "Character not found" },
+                { status: 404 }
+            );
+        }
+
+        const [chapters, states] = await Promise.all([
+            prisma.chapter.findMany({
+                where: { bookId },
+                orderBy: { orderIndex: "asc" },
+                select: {
+                    id: true,
+                    title: true,
+                    orderIndex: true,
+                    wordCount: true,
+                    chapterCharacters: {
+                        where: { characterId },
+                        select: { prominence: true },
+                    },
+                },
+            }),
+            prisma.characterState.findMany({
+                where: { characterId },
+            }),
+        ]);
+
+        return NextResponse.json({
+            chapters: chapters.map(({ chapterCharacters, ...chapter }) => ({
+                ...chapter,
+                prominence: chapterCharacters[0]?.prominence ?? null,
+            })),
+            states,
+        });
+    } catch (error) {
+        console.error("Failed to fetch character states:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch character states" },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT set the character's state in one chapter ({ chapterId, mood, emotion, goal, knowledge, relationships })
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, characterId } = await params;
+        const body = await request.json();
+        const { chapterId } = body;
+
+        if (!chapterId) {
+            return NextResponse.json(
+                { error: "chapterId is required" },
+                { status: 400 }
+            );
+        }
+
+        const [character, chapter] = await Promise.all([
+            prisma.character.findUnique({ where: { id: characterId, bookId }, select: { id: true } }),
+            prisma.chapter.findUnique({ where: { id: chapterId, bookId }, select: { id: true } }),
+        ]);
+
+        if (!character || !chapter) {
+            return NextResponse.json(
+                { error: character ? "Chapter not found" : "Character not found" },
+                { status: 404 }
+            );
+        }
+
+        const state = normalizeCharacterState(body);
+        if (isCharacterStateEmpty(state)) {
+            return NextResponse.json(
+                { error: "State must not be empty" },
+                { status: 400 }
+            );
+        }
+
+        const saved = await prisma.characterState.upsert({
+            where: { characterId_chapterId: { characterId, chapterId } },
+            create: { characterId, chapterId, ...state, source: "manual" },
+            update: { ...state, source: "manual" },
+        });
+
+        return NextResponse.json(saved);
+    } catch (error) {
+        console.error("Failed to save character state:", error);
+        return NextResponse.json(
+            { error: "Failed to save character state" },
+            { status: 500 }
+        );
+    }
+}
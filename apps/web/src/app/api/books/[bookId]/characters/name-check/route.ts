@@ -0,0 +1,41 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { htmlToText } from "@/lib/html-text";
+import { checkNameSpellings } from "@/lib/name-check";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET words in the chapter texts that look like misspelled character names
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        const [characters, chapters] = await Promise.all([
+            prisma.character.findMany({
+                where: { bookId },
+                select: { id: true, name: true, aliases: true },
+            }),
+            prisma.chapter.findMany({
+                where: { bookId },
+                orderBy: { orderIndex: "asc" },
+                select: { id: true, content: true },
+            }),
+        ]);
+
+        const issues = checkNameSpellings(
+            chapters.map((chapter) => ({ chapterId: chapter.id, text: htmlToText(chapter.content) })),
+            characters
+        );
+
+        return NextResponse.json({ issues });
+    } catch (error) {
+        console.error("Failed to check character names:", error);
+        return NextResponse.json(
+            { error: "Failed to check character names" },
+            { status: 500 }
+        );
+    }
+}
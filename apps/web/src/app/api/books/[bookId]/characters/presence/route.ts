@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { applyPresence, detectPresence } from "@/lib/character-presence-sync";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET suggested changes to the chapter characters, detected from the chapter texts
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const chapterId = request.nextUrl.searchParams.get("chapterId");
+
+        const presence = await detectPresence(bookId, chapterId ? [chapterId] : undefined);
+
+        return NextResponse.json({
+            suggestions: presence.flatMap((chapter) => chapter.suggestions),
+        });
+    } catch (error) {
+        console.error("Failed to detect character presence:", error);
+        return NextResponse.json(
+            { error: "Failed to detect character presence" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST apply detected presence; `only` limits it to "chapterId:characterId" keys
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const chapterIds = Array.isArray(body.chapterIds) ? body.chapterIds.filter((id: unknown) => typeof id === "string") : undefined;
+        const only = Array.isArray(body.only) ? body.only.filter((key: unknown) => typeof key === "string") : undefined;
+
+        const presence = await detectPresence(bookId, chapterIds);
+        const changed = await applyPresence(presence, only);
+
+        return NextResponse.json({ changed });
+    } catch (error) {
+        console.error("Failed to apply character presence:", error);
+        return NextResponse.json(
+            { error: "Failed to apply character presence" },
+            { status: 500 }
+        );
+    }
+}
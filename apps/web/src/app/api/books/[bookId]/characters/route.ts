@@ -1,6 +1,9 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { parseAliases, serializeAliases } from "@/lib/character-presence";
+import { syncSearchIndex } from "@/lib/search-index";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -23,6 +26,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
                                 role: true,
                             },
                         },
+                        changes: {
+                            select: { chapterId: true, relationType: true, description: true },
+                        },
                     },
                 },
                 relationsTo: {
@@ -34,6 +40,9 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
                                 role: true,
                             },
                         },
+                        changes: {
+                            select: { chapterId: true, relationType: true, description: true },
+                        },
                     },
                 },
                 _count: {
@@ -61,6 +70,8 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         const body = await request.json();
         const {
             name,
+            aliases,
+            pronouns,
             role,
             description,
             backstory,
@@ -70,6 +81,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             arc,
             notes,
             imageUrl,
+            deathChapterId,
         } = body;
 
         if (!name) {
@@ -79,10 +91,19 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             );
         }
 
+        if (deathChapterId && !(await prisma.chapter.count({ where: { id: deathChapterId, bookId } }))) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
         const character = await prisma.character.create({
             data: {
                 bookId,
                 name,
+                aliases: typeof aliases === "string" ? serializeAliases(parseAliases(aliases)) : null,
+                pronouns: typeof pronouns === "string" ? pronouns.trim() || null : null,
                 role: role || "supporting",
                 description,
                 backstory,
@@ -92,9 +113,12 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
                 arc,
                 notes,
                 imageUrl,
+                deathChapterId: deathChapterId || null,
             },
         });
 
+        await syncSearchIndex(bookId, "character", character.id);
+
         return NextResponse.json(character, { status: 201 });
     } catch (error) {
         console.error("Failed to create character:", error);
@@ -0,0 +1,86 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { lintContinuity } from "@/lib/continuity-lint";
+import { htmlToText } from "@/lib/html-text";
+import { translate } from "@/lib/i18n";
+import { getRequestLocale } from "@/lib/locale";
+import { checkBookChronology } from "@/lib/story-timeline";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET rule-based consistency check: chronology and continuity issues, no AI involved
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const locale = await getRequestLocale();
+
+        const book = await prisma.book.findUnique({
+            where: { id: bookId },
+            select: {
+                chapters: {
+                    orderBy: { orderIndex: "asc" },
+                    select: {
+                        id: true,
+                        title: true,
+                        orderIndex: true,
+                        content: true,
+                        chapterCharacters: { select: { characterId: true } },
+                        _count: { select: { chapterPlotPoints: true } },
+                    },
+                },
+                characters: {
+                    select: {
+                        id: true,
+                        name: true,
+                        aliases: true,
+                        appearance: true,
+                        deathChapterId: true,
+                    },
+                },
+                _count: { select: { plotPoints: true } },
+            },
+        });
+
+        if (!book) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        const issues = [
+            ...(await checkBookChronology(bookId, locale)),
+            ...lintContinuity({
+                chapters: book.chapters.map((chapter) => ({
+                    id: chapter.id,
+                    title: chapter.title,
+                    orderIndex: chapter.orderIndex,
+                    text: htmlToText(chapter.content),
+                    characterIds: chapter.chapterCharacters.map((link) => link.characterId),
+                    plotPointCount: chapter._count.chapterPlotPoints,
+                })),
+                characters: book.characters,
+                plotPointCount: book._count.plotPoints,
+            }, locale),
+        ];
+
+        const summary = issues.length === 0
+            ? translate(locale, { de: "Die Regelprüfung hat nichts gefunden.", en: "The rule check found nothing." })
+            : translate(
+                locale,
+                { de: "Die Regelprüfung hat {{count}} Hinweis(e) gefunden.", en: "The rule check found {{count}} issue(s)." },
+                { count: issues.length }
+            );
+
+        return NextResponse.json({ issues, summary, checkedAt: new Date().toISOString() });
+    } catch (error) {
+        console.error("Failed to run continuity check:", error);
+        return NextResponse.json(
+            { error: "Failed to run continuity check" },
+            { status: 500 }
+        );
+    }
+}
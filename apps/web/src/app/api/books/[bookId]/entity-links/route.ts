@@ -0,0 +1,39 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { buildEntityBacklinks, isEntityId, isEntityLinkType } from "@/lib/entity-links";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET chapters whose text links a character, world element or plot point.
+// Query: ?type=character|world|plot&id=<entity id>
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const { searchParams } = new URL(request.url);
+        const type = searchParams.get("type");
+        const id = searchParams.get("id");
+
+        if (!isEntityLinkType(type) || !isEntityId(id)) {
+            return NextResponse.json(
+                { error: "type and id are required" },
+                { status: 400 }
+            );
+        }
+
+        const chapters = await prisma.chapter.findMany({
+            where: { bookId, content: { contains: `data-entity-id="${id}"` } },
+            select: { id: true, title: true, orderIndex: true, content: true },
+        });
+
+        return NextResponse.json({ chapters: buildEntityBacklinks(chapters, type, id) });
+    } catch (error) {
+        console.error("Failed to load entity backlinks:", error);
+        return NextResponse.json(
+            { error: "Failed to load entity backlinks" },
+            { status: 500 }
+        );
+    }
+}
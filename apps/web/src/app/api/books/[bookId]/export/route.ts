@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { ExportError, exportBook, exportFormats, isExportFormat, type ExportOptions } from "@/lib/export";
+import { normalizeDocxOptions } from "@/lib/export/docx-options";
+import { normalizeEpubOptions } from "@/lib/export/epub-options";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+async function exportResponse(bookId: string, format: string | null, options: ExportOptions) {
+    if (!isExportFormat(format)) {
+        return NextResponse.json(
+            { error: `Unknown export format, expected one of: ${exportFormats.join(", ")}` },
+            { status: 400 }
+        );
+    }
+
+    const file = await exportBook(bookId, format, options);
+
+    if (!file) {
+        return NextResponse.json(
+            { error: "Book not found" },
+            { status: 404 }
+        );
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+        headers: {
+            "Content-Type": file.contentType,
+            "Content-Disposition": `attachment; filename="${encodeURIComponent(file.fileName)}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        },
+    });
+}
+
+// GET - Export the book as ?format=epub|docx|md|html with default settings
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        return await exportResponse(bookId, request.nextUrl.searchParams.get("format"), {});
+    } catch (error) {
+        if (error instanceof ExportError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+        console.error("Failed to export book:", error);
+        return NextResponse.json(
+            { error: "Failed to export book" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST - Export the book with settings: { format, options }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const format = typeof body.format === "string" ? body.format : null;
+
+        return await exportResponse(bookId, format, {
+            epub: normalizeEpubOptions(body.options),
+            docx: normalizeDocxOptions(body.options),
+        });
+    } catch (error) {
+        if (error instanceof ExportError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
+        console.error("Failed to export book:", error);
+        return NextResponse.json(
+            { error: "Failed to export book" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,82 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { readBookImage } from "@/lib/book-assets";
+import { listPdfFonts } from "@/lib/pdf/fonts";
+import { normalizePdfOptions } from "@/lib/pdf/page-setup";
+import { renderBookPdf, type PdfImage } from "@/lib/pdf/render-book";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// jsPDF embeds PNG and JPEG; other formats are skipped in the print PDF
+async function loadPdfImage(src: string): Promise<PdfImage | null> {
+    const image = await readBookImage(src);
+    if (image?.mediaType === "image/png") return { data: image.data, format: "PNG" };
+    if (image?.mediaType === "image/jpeg") return { data: image.data, format: "JPEG" };
+    return null;
+}
+
+// GET - Fonts that can be embedded into the PDF
+export async function GET() {
+    try {
+        const fonts = await listPdfFonts();
+        return NextResponse.json({ fonts: fonts.map((font) => font.name) });
+    } catch (error) {
+        console.error("Failed to list PDF fonts:", error);
+        return NextResponse.json(
+            { error: "Failed to list PDF fonts" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST - Render the book as a print-ready PDF
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const options = normalizePdfOptions(body.options);
+
+        const book = await prisma.book.findUnique({
+            where: { id: bookId },
+            select: {
+                title: true,
+                author: true,
+                language: true,
+                chapters: {
+                    orderBy: { orderIndex: "asc" },
+                    select: { title: true, content: true },
+                },
+            },
+        });
+
+        if (!book) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        const pdf = await renderBookPdf(book, options, loadPdfImage);
+
+        const baseName = book.title.replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_+|_+$/g, "") || "book";
+        const fileName = `${baseName}_${options.trimSize}.pdf`;
+
+        return new NextResponse(new Uint8Array(pdf.data), {
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `attachment; filename="${encodeURIComponent(fileName)}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+                "X-Pdf-Page-Count": String(pdf.pageCount),
+                "X-Pdf-Embedded-Fonts": String(pdf.embeddedFonts),
+            },
+        });
+    } catch (error) {
+        console.error("Failed to render PDF:", error);
+        return NextResponse.json(
+            { error: "Failed to render PDF" },
+            { status: 500 }
+        );
+    }
+}
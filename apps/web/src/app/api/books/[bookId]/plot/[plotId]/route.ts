@@ -1,6 +1,9 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { removeFromSearchIndex, syncSearchIndex } from "@/lib/search-index";
+import { readStoryDateFields } from "@/lib/story-time";
+
 type RouteContext = {
     params: Promise<{ bookId: string; plotId: string }>;
 };
@@ -63,6 +66,14 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
         const body = await request.json();
         const { title, description, type, characterIds } = body;
 
+        const storyDates = readStoryDateFields(body);
+        if (typeof storyDates === "string") {
+            return NextResponse.json(
+                { error: storyDates },
+                { status: 400 }
+            );
+        }
+
         // Update plot point
         const plotPoint = await prisma.plotPoint.update({
             where: { id: plotId, bookId },
@@ -70,6 +81,7 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
                 ...(title !== undefined && { title }),
                 ...(description !== undefined && { description }),
                 ...(type !== undefined && { type }),
+                ...storyDates,
             },
         });
 
@@ -90,6 +102,8 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
             }
         }
 
+        await syncSearchIndex(bookId, "plotpoint", plotId);
+
         return NextResponse.json(plotPoint);
     } catch (error) {
         console.error("Failed to update plot point:", error);
@@ -109,6 +123,8 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
             where: { id: plotId, bookId },
         });
 
+        await removeFromSearchIndex("plotpoint", plotId);
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Failed to delete plot point:", error);
@@ -1,6 +1,12 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { generateText } from "@/lib/ai/client";
+import { getAIErrorStatus } from "@/lib/ai/errors";
+import { extractJSON } from "@/lib/ai/json";
+import { isAIConfigured, toAIConnection, type AIConnection } from "@/lib/ai/types";
+import { characterPromptName } from "@/lib/character-presence";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -11,33 +17,6 @@ type PlotPointData = {
     description: string;
 };
 
-// Robust JSON extraction (reused from character AI)
-function extractJSON(text: string): Record<string, unknown> | null {
-    let cleanedText = text;
-    cleanedText = cleanedText.replace(/```(?:json)?[\s\n]*/gi, '');
-    cleanedText = cleanedText.replace(/```[\s\n]*/g, '');
-
-    const startIdx = cleanedText.indexOf('{');
-    if (startIdx === -1) return null;
-
-    let endIdx = cleanedText.lastIndexOf('}');
-    if (endIdx === -1) endIdx = cleanedText.length;
-    else endIdx++;
-
-    const jsonStr = cleanedText.substring(startIdx, endIdx);
-
-    try {
-        return JSON.parse(jsonStr) as Record<string, unknown>;
-    } catch (e) {
-        // Simple repair attempts
-        try {
-            return JSON.parse(jsonStr + '}') as Record<string, unknown>;
-        } catch {
-            return null;
-        }
-    }
-}
-
 export async function POST(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId } = await params;
@@ -50,15 +29,11 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
 
         // Get settings
         const settings = await prisma.globalSettings.findUnique({ where: { id: "default" } });
-        if (!settings?.apiKey) {
+        if (!settings || !isAIConfigured(settings)) {
             return NextResponse.json({ error: "Keine API-Konfiguration" }, { status: 400 });
         }
 
-        const aiSettings = {
-            apiEndpoint: settings.apiEndpoint,
-            apiKey: settings.apiKey,
-            model: settings.model,
-        };
+        const connection = toAIConnection(settings);
 
         // Get book context
         const book = await prisma.book.findUnique({
@@ -76,7 +51,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         }
 
         if (action === "generate") {
-            const plotPoint = await generatePlotPoint(aiSettings, book, prompt);
+            const plotPoint = await generatePlotPoint(connection, book, prompt);
             return NextResponse.json({ plotPoint });
         }
 
@@ -86,13 +61,13 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         console.error("AI plot error:", error);
         return NextResponse.json(
             { error: error instanceof Error ? error.message : "Unbekannter Fehler" },
-            { status: 500 }
+            { status: getAIErrorStatus(error) }
         );
     }
 }
 
 async function generatePlotPoint(
-    settings: { apiEndpoint: string; apiKey: string; model: string },
+    connection: AIConnection,
     book: any,
     prompt: string
 ): Promise<PlotPointData> {
@@ -101,7 +76,7 @@ async function generatePlotPoint(
         .join("\n");
 
     const characters = book.characters
-        .map((c: any) => `${c.name} (${c.role})`)
+        .map((c: any) => `${characterPromptName(c)} (${c.role})`)
         .join(", ");
 
     const systemPrompt = `Du bist ein erfahrener Buchautor und Plot-Stratege. Erstelle einen neuen Handlungspunkt (Plot Point) für das Buch.
@@ -130,7 +105,12 @@ Sprache: Deutsch.`;
 
     const userPrompt = `Benutzer-Anweisung: "${prompt}"\nErstelle basierend darauf einen neuen Handlungspunkt.`;
 
-    const response = await callAI(settings, systemPrompt, userPrompt);
+    const response = await generateText(connection, {
+        system: systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.8,
+        maxTokens: 2000,
+    });
     const parsed = extractJSON(response);
 
     if (parsed) {
@@ -138,33 +118,3 @@ Sprache: Deutsch.`;
     }
     throw new Error("Konnte Antwort nicht als JSON parsen");
 }
-
-async function callAI(
-    settings: { apiEndpoint: string; apiKey: string; model: string },
-    systemPrompt: string,
-    userPrompt: string
-): Promise<string> {
-    const response = await fetch(`${settings.apiEndpoint}/chat/completions`, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${settings.apiKey}`,
-        },
-        body: JSON.stringify({
-            model: settings.model,
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt },
-            ],
-            temperature: 0.8,
-            max_tokens: 2000,
-        }),
-    });
-
-    if (!response.ok) {
-        throw new Error(`AI API Error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || "";
-}
@@ -1,6 +1,8 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { syncSearchIndex } from "@/lib/search-index";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -101,6 +103,8 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             },
         });
 
+        await syncSearchIndex(bookId, "plotpoint", plotPoint.id);
+
         return NextResponse.json(plotPoint, { status: 201 });
     } catch (error) {
         console.error("Failed to create plot point:", error);
@@ -1,6 +1,8 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { removeBookFromSearchIndex } from "@/lib/search-index";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -22,6 +24,17 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
                         status: true,
                         wordCount: true,
                         summary: true,
+                        summaryStale: true,
+                        act: true,
+                        chapterCharacters: {
+                            select: { characterId: true },
+                        },
+                        chapterPlotPoints: {
+                            select: { plotPointId: true },
+                        },
+                        scenes: {
+                            orderBy: { orderIndex: "asc" },
+                        },
                     },
                 },
                 characters: {
@@ -85,7 +98,7 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId } = await params;
         const body = await request.json();
-        const { title, author, description, genre, targetAudience, writingStyle, language, coverUrl, hideCoverText } = body;
+        const { title, author, description, genre, targetAudience, writingStyle, language, coverUrl, hideCoverText, autoDetectPresence } = body;
 
         const book = await prisma.book.update({
             where: { id: bookId },
@@ -99,6 +112,7 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
                 ...(language !== undefined && { language }),
                 ...(coverUrl !== undefined && { coverUrl }),
                 ...(hideCoverText !== undefined && { hideCoverText }),
+                ...(autoDetectPresence !== undefined && { autoDetectPresence: autoDetectPresence === true }),
             },
         });
 
@@ -120,6 +134,7 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
         await prisma.book.delete({
             where: { id: bookId },
         });
+        await removeBookFromSearchIndex(bookId);
 
         return NextResponse.json({ success: true });
     } catch (error) {
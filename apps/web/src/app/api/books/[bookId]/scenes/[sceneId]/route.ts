@@ -0,0 +1,99 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { deleteScene, moveScene, readSceneFields } from "@/lib/scene-sync";
+import { readStoryDateFields } from "@/lib/story-time";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; sceneId: string }>;
+};
+
+async function findScene(bookId: string, sceneId: string) {
+    return prisma.scene.findFirst({
+        where: { id: sceneId, chapter: { bookId } },
+        select: { id: true, chapterId: true, orderIndex: true },
+    });
+}
+
+// PATCH update scene fields; chapterId and/or index move the scene together with its text
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, sceneId } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const scene = await findScene(bookId, sceneId);
+        if (!scene) {
+            return NextResponse.json(
+                { error: "Scene not found" },
+                { status: 404 }
+            );
+        }
+
+        const storyDates = readStoryDateFields(body);
+        if (typeof storyDates === "string") {
+            return NextResponse.json(
+                { error: storyDates },
+                { status: 400 }
+            );
+        }
+
+        await prisma.scene.update({
+            where: { id: sceneId },
+            data: { ...(await readSceneFields(bookId, body)), ...storyDates },
+        });
+
+        const targetChapterId = typeof body.chapterId === "string" ? body.chapterId : scene.chapterId;
+        const index = Number.isInteger(body.index) ? body.index as number : null;
+
+        if (targetChapterId !== scene.chapterId || (index !== null && index !== scene.orderIndex)) {
+            const target = await prisma.chapter.findUnique({
+                where: { id: targetChapterId, bookId },
+                select: { id: true },
+            });
+
+            if (!target) {
+                return NextResponse.json(
+                    { error: "Chapter not found" },
+                    { status: 404 }
+                );
+            }
+
+            const moved = await moveScene(sceneId, target.id, index ?? Number.MAX_SAFE_INTEGER);
+            return NextResponse.json(moved);
+        }
+
+        const updated = await prisma.scene.findUnique({ where: { id: sceneId } });
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error("Failed to update scene:", error);
+        return NextResponse.json(
+            { error: "Failed to update scene" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE scene; its text stays in the chapter
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, sceneId } = await params;
+
+        const scene = await findScene(bookId, sceneId);
+        if (!scene) {
+            return NextResponse.json(
+                { error: "Scene not found" },
+                { status: 404 }
+            );
+        }
+
+        await deleteScene(sceneId);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete scene:", error);
+        return NextResponse.json(
+            { error: "Failed to delete scene" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,76 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { readSceneFields } from "@/lib/scene-sync";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET all scenes of a book, optionally limited to one chapter
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const chapterId = request.nextUrl.searchParams.get("chapterId");
+
+        const scenes = await prisma.scene.findMany({
+            where: {
+                chapter: { bookId },
+                ...(chapterId && { chapterId }),
+            },
+            orderBy: [{ chapter: { orderIndex: "asc" } }, { orderIndex: "asc" }],
+        });
+
+        return NextResponse.json(scenes);
+    } catch (error) {
+        console.error("Failed to fetch scenes:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch scenes" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST create a scene at the end of a chapter; the editor places its scene break afterwards
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const chapter = typeof body.chapterId === "string"
+            ? await prisma.chapter.findUnique({
+                where: { id: body.chapterId, bookId },
+                select: { id: true },
+            })
+            : null;
+
+        if (!chapter) {
+            return NextResponse.json(
+                { error: "Chapter not found" },
+                { status: 404 }
+            );
+        }
+
+        const lastScene = await prisma.scene.findFirst({
+            where: { chapterId: chapter.id },
+            orderBy: { orderIndex: "desc" },
+            select: { orderIndex: true },
+        });
+
+        const scene = await prisma.scene.create({
+            data: {
+                ...(await readSceneFields(bookId, body)),
+                chapterId: chapter.id,
+                orderIndex: (lastScene?.orderIndex ?? -1) + 1,
+            },
+        });
+
+        return NextResponse.json(scene, { status: 201 });
+    } catch (error) {
+        console.error("Failed to create scene:", error);
+        return NextResponse.json(
+            { error: "Failed to create scene" },
+            { status: 500 }
+        );
+    }
+}
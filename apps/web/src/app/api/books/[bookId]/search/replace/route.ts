@@ -0,0 +1,93 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { countWords, createChapterRevision } from "@/lib/chapter-revisions";
+import { syncChapterPresence } from "@/lib/character-presence-sync";
+import { replaceInHtml, replaceInText } from "@/lib/html-text";
+import { syncChapterScenes } from "@/lib/scene-sync";
+import { syncSearchIndex } from "@/lib/search-index";
+import { buildSearchPattern, normalizeSearchOptions } from "@/lib/search-query";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// POST - Replace all matches in the chapters of a book (title, text, summary, notes)
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json();
+        const { query, replacement } = body;
+        const options = normalizeSearchOptions(body.options);
+
+        if (!query || query.trim().length < 2 || typeof replacement !== "string") {
+            return NextResponse.json(
+                { error: "query and replacement are required" },
+                { status: 400 }
+            );
+        }
+
+        let pattern: RegExp | null;
+        try {
+            pattern = buildSearchPattern(query, options);
+        } catch {
+            return NextResponse.json(
+                { error: "Invalid regular expression" },
+                { status: 400 }
+            );
+        }
+        if (!pattern) {
+            return NextResponse.json({ replacedCount: 0, chapterCount: 0 });
+        }
+
+        const replaceOptions = { expandGroups: options.mode === "regex" };
+        const chapters = await prisma.chapter.findMany({
+            where: { bookId },
+            select: { id: true, title: true, content: true, summary: true, notes: true, summarizedAt: true },
+        });
+
+        let replacedCount = 0;
+        let chapterCount = 0;
+
+        for (const chapter of chapters) {
+            const title = replaceInText(chapter.title, pattern, replacement, replaceOptions);
+            const content = replaceInHtml(chapter.content, pattern, replacement, replaceOptions);
+            const summary = chapter.summary ? replaceInText(chapter.summary, pattern, replacement, replaceOptions) : null;
+            const notes = chapter.notes ? replaceInText(chapter.notes, pattern, replacement, replaceOptions) : null;
+
+            const count = title.count + content.count + (summary?.count ?? 0) + (notes?.count ?? 0);
+            if (count === 0) continue;
+
+            // Every affected chapter can be rolled back from its history
+            if (chapter.content.trim()) {
+                await createChapterRevision(chapter.id, chapter, "replace");
+            }
+
+            await prisma.chapter.update({
+                where: { id: chapter.id, bookId },
+                data: {
+                    title: title.text,
+                    content: content.html,
+                    wordCount: countWords(content.html),
+                    ...(summary && { summary: summary.text }),
+                    ...(notes && { notes: notes.text }),
+                    ...(content.count > 0 && chapter.summarizedAt && { summaryStale: true }),
+                },
+            });
+            // Scene word counts and detected characters follow the text, as on a regular save
+            if (content.count > 0) {
+                await syncChapterScenes(chapter.id, content.html);
+                await syncChapterPresence(chapter.id);
+            }
+            await syncSearchIndex(bookId, "chapter", chapter.id);
+
+            replacedCount += count;
+            chapterCount++;
+        }
+
+        return NextResponse.json({ replacedCount, chapterCount });
+    } catch (error) {
+        console.error("Replace failed:", error);
+        return NextResponse.json({ error: "Replace failed" }, { status: 500 });
+    }
+}
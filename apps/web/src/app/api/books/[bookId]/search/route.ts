@@ -1,243 +1,138 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { findNameVariants } from "@/lib/character-presence";
+import { querySearchIndex, type SearchEntityType } from "@/lib/search-index";
+import {
+    buildSearchPattern,
+    combineFtsQueries,
+    combineSearchPatterns,
+    findOccurrences,
+    normalizeSearchOptions,
+    toFtsQuery,
+    type SearchOccurrence,
+} from "@/lib/search-query";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
 
 interface SearchResult {
-    type: "chapter" | "character" | "plotpoint" | "worldelement";
+    type: SearchEntityType;
     id: string;
     title: string;
     matchField: string;
     context: string;
     orderIndex?: number;
+    occurrences: SearchOccurrence[];
+    matchCount: number;
 }
 
+const MAX_RESULTS = 50;
+// Enough to page through a chapter, without sending megabytes for a one-letter regex
+const MAX_OCCURRENCES = 200;
+
+// Hits in names and titles are worth more than hits somewhere in the text
+const fieldBoost: Record<string, number> = {
+    Titel: 3,
+    Name: 3,
+    Aliase: 3,
+    Zusammenfassung: 1.5,
+};
+
 // POST - Search within a book
 export async function POST(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId } = await params;
         const body = await request.json();
         const { query } = body;
+        const options = normalizeSearchOptions(body.options);
 
         if (!query || query.trim().length < 2) {
             return NextResponse.json({ results: [] });
         }
 
-        const searchTerm = query.trim().toLowerCase();
-        const results: SearchResult[] = [];
-
-        // Helper function to extract context around match
-        const extractContext = (text: string, searchTerm: string, maxLength: number = 100): string => {
-            if (!text) return "";
-
-            // Strip HTML tags for searching
-            const plainText = text.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
-            const lowerText = plainText.toLowerCase();
-            const matchIndex = lowerText.indexOf(searchTerm.toLowerCase());
-
-            if (matchIndex === -1) return plainText.substring(0, maxLength) + "...";
-
-            // Get context around the match
-            const start = Math.max(0, matchIndex - 40);
-            const end = Math.min(plainText.length, matchIndex + searchTerm.length + 60);
-
-            let context = "";
-            if (start > 0) context += "...";
-            context += plainText.substring(start, end);
-            if (end < plainText.length) context += "...";
-
-            return context;
-        };
-
-        // Search in chapters
-        const chapters = await prisma.chapter.findMany({
-            where: { bookId },
-            select: {
-                id: true,
-                title: true,
-                content: true,
-                summary: true,
-                notes: true,
-                orderIndex: true,
-            },
-        });
-
-        for (const chapter of chapters) {
-            const plainContent = chapter.content?.replace(/<[^>]*>/g, " ") || "";
-            const plainSummary = chapter.summary?.replace(/<[^>]*>/g, " ") || "";
-
-            // Search in title
-            if (chapter.title?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "chapter",
-                    id: chapter.id,
-                    title: chapter.title,
-                    matchField: "Titel",
-                    context: chapter.title,
-                    orderIndex: chapter.orderIndex,
-                });
-            }
-            // Search in content
-            else if (plainContent.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "chapter",
-                    id: chapter.id,
-                    title: chapter.title,
-                    matchField: "Inhalt",
-                    context: extractContext(chapter.content || "", searchTerm),
-                    orderIndex: chapter.orderIndex,
-                });
-            }
-            // Search in summary
-            else if (plainSummary.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "chapter",
-                    id: chapter.id,
-                    title: chapter.title,
-                    matchField: "Zusammenfassung",
-                    context: extractContext(chapter.summary || "", searchTerm),
-                    orderIndex: chapter.orderIndex,
-                });
-            }
-            // Search in notes
-            else if (chapter.notes?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "chapter",
-                    id: chapter.id,
-                    title: chapter.title,
-                    matchField: "Notizen",
-                    context: extractContext(chapter.notes || "", searchTerm),
-                    orderIndex: chapter.orderIndex,
-                });
-            }
+        let pattern: RegExp | null;
+        try {
+            pattern = buildSearchPattern(query, options);
+        } catch {
+            return NextResponse.json(
+                { error: "Invalid regular expression" },
+                { status: 400 }
+            );
         }
-
-        // Search in characters
-        const characters = await prisma.character.findMany({
-            where: { bookId },
-            select: {
-                id: true,
-                name: true,
-                role: true,
-                description: true,
-                backstory: true,
-            },
-        });
-
-        for (const character of characters) {
-            if (character.name?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "character",
-                    id: character.id,
-                    title: character.name,
-                    matchField: "Name",
-                    context: `${character.role || ""} - ${character.description?.substring(0, 80) || ""}`,
-                });
-            } else if (character.description?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "character",
-                    id: character.id,
-                    title: character.name,
-                    matchField: "Beschreibung",
-                    context: extractContext(character.description, searchTerm),
-                });
-            } else if (character.backstory?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "character",
-                    id: character.id,
-                    title: character.name,
-                    matchField: "Hintergrund",
-                    context: extractContext(character.backstory, searchTerm),
-                });
-            }
+        if (!pattern) {
+            return NextResponse.json({ results: [], total: 0, query: query.trim() });
         }
 
-        // Search in plot points
-        const plotPoints = await prisma.plotPoint.findMany({
-            where: { bookId },
-            select: {
-                id: true,
-                title: true,
-                description: true,
-                type: true,
-                orderIndex: true,
-            },
-        });
+        let ftsQuery = toFtsQuery(query, options);
 
-        for (const plotPoint of plotPoints) {
-            if (plotPoint.title?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "plotpoint",
-                    id: plotPoint.id,
-                    title: plotPoint.title,
-                    matchField: "Titel",
-                    context: plotPoint.description?.substring(0, 100) || "",
-                    orderIndex: plotPoint.orderIndex,
-                });
-            } else if (plotPoint.description?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "plotpoint",
-                    id: plotPoint.id,
-                    title: plotPoint.title,
-                    matchField: "Beschreibung",
-                    context: extractContext(plotPoint.description, searchTerm),
-                    orderIndex: plotPoint.orderIndex,
-                });
+        // A character's name also finds their other names; those are searched as exact phrases
+        let variants: string[] = [];
+        if (options.aliases && options.mode !== "regex") {
+            const characters = await prisma.character.findMany({
+                where: { bookId },
+                select: { id: true, name: true, aliases: true },
+            });
+            variants = findNameVariants(query, characters);
+        }
+        if (variants.length > 0 && ftsQuery) {
+            const variantOptions = { ...options, mode: "phrase" as const };
+            const patterns = [pattern];
+            const ftsQueries = [ftsQuery];
+            for (const variant of variants) {
+                const variantPattern = buildSearchPattern(variant, variantOptions);
+                const variantQuery = toFtsQuery(variant, variantOptions);
+                if (variantPattern && variantQuery) {
+                    patterns.push(variantPattern);
+                    ftsQueries.push(variantQuery);
+                }
             }
+            pattern = combineSearchPatterns(patterns);
+            ftsQuery = combineFtsQueries(ftsQueries);
         }
 
-        // Search in world elements
-        const worldElements = await prisma.worldElement.findMany({
-            where: { bookId },
-            select: {
-                id: true,
-                name: true,
-                type: true,
-                description: true,
-            },
-        });
-
-        for (const element of worldElements) {
-            if (element.name?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "worldelement",
-                    id: element.id,
-                    title: element.name,
-                    matchField: "Name",
-                    context: `${element.type} - ${element.description?.substring(0, 80) || ""}`,
-                });
-            } else if (element.description?.toLowerCase().includes(searchTerm)) {
-                results.push({
-                    type: "worldelement",
-                    id: element.id,
-                    title: element.name,
-                    matchField: "Beschreibung",
-                    context: extractContext(element.description, searchTerm),
-                });
-            }
+        const rows = await querySearchIndex(bookId, ftsQuery);
+
+        // The index finds candidate fields; the pattern finds every occurrence within them
+        const ranked: Array<{ result: SearchResult; relevance: number }> = [];
+        for (const row of rows) {
+            const occurrences = findOccurrences(row.body, pattern);
+            if (occurrences.length === 0) continue;
+
+            const boost = fieldBoost[row.field] ?? 1;
+            ranked.push({
+                result: {
+                    type: row.entityType,
+                    id: row.entityId,
+                    title: row.title,
+                    matchField: row.field,
+                    context: occurrences[0]!.context,
+                    occurrences: occurrences.slice(0, MAX_OCCURRENCES),
+                    matchCount: occurrences.length,
+                },
+                // bm25 is negative with lower being better; regex scans rank by number of hits
+                relevance: (ftsQuery ? -row.score : occurrences.length) * boost,
+            });
         }
 
-        // Sort results: chapters first by order, then characters, then rest
-        results.sort((a, b) => {
-            const typeOrder = { chapter: 0, character: 1, plotpoint: 2, worldelement: 3 };
-            if (typeOrder[a.type] !== typeOrder[b.type]) {
-                return typeOrder[a.type] - typeOrder[b.type];
-            }
-            if (a.orderIndex !== undefined && b.orderIndex !== undefined) {
-                return a.orderIndex - b.orderIndex;
-            }
-            return 0;
-        });
+        const chapterIds = ranked.filter(({ result }) => result.type === "chapter").map(({ result }) => result.id);
+        const plotPointIds = ranked.filter(({ result }) => result.type === "plotpoint").map(({ result }) => result.id);
+        const [chapters, plotPoints] = await Promise.all([
+            prisma.chapter.findMany({ where: { id: { in: chapterIds } }, select: { id: true, orderIndex: true } }),
+            prisma.plotPoint.findMany({ where: { id: { in: plotPointIds } }, select: { id: true, orderIndex: true } }),
+        ]);
+        const orderIndexes = new Map([...chapters, ...plotPoints].map((item) => [item.id, item.orderIndex]));
 
-        // Limit results
-        const limitedResults = results.slice(0, 50);
+        const results = ranked
+            .sort((a, b) => b.relevance - a.relevance)
+            .map(({ result }) => ({ ...result, orderIndex: orderIndexes.get(result.id) }));
 
         return NextResponse.json({
-            results: limitedResults,
+            results: results.slice(0, MAX_RESULTS),
             total: results.length,
-            query: searchTerm,
+            query: query.trim(),
+            variants,
         });
 
     } catch (error) {
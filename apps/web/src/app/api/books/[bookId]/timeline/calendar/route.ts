@@ -0,0 +1,76 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalizeStoryCalendar } from "@/lib/story-time";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// PUT replace the book's story calendar
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const calendar = normalizeStoryCalendar(body);
+        if (typeof calendar === "string") {
+            return NextResponse.json(
+                { error: calendar },
+                { status: 400 }
+            );
+        }
+
+        const book = await prisma.book.findUnique({
+            where: { id: bookId },
+            select: { id: true },
+        });
+
+        if (!book) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        const data = {
+            name: calendar.name,
+            months: JSON.stringify(calendar.months),
+            eras: JSON.stringify(calendar.eras),
+            hoursPerDay: calendar.hoursPerDay,
+        };
+
+        await prisma.storyCalendar.upsert({
+            where: { bookId },
+            create: { bookId, ...data },
+            update: data,
+        });
+
+        return NextResponse.json(calendar);
+    } catch (error) {
+        console.error("Failed to save story calendar:", error);
+        return NextResponse.json(
+            { error: "Failed to save story calendar" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE story calendar; the book falls back to the default calendar
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        await prisma.storyCalendar.deleteMany({
+            where: { bookId },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete story calendar:", error);
+        return NextResponse.json(
+            { error: "Failed to delete story calendar" },
+            { status: 500 }
+        );
+    }
+}
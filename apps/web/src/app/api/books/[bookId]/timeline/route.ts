@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { checkChronology } from "@/lib/chronology";
+import { getRequestLocale } from "@/lib/locale";
+import { loadStoryTimeline } from "@/lib/story-timeline";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET story dates of chapters, scenes and plot points with the book's calendar and chronology issues
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        const timeline = await loadStoryTimeline(bookId);
+        if (!timeline) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        const issues = checkChronology(timeline, await getRequestLocale());
+
+        return NextResponse.json({ ...timeline, issues });
+    } catch (error) {
+        console.error("Failed to fetch timeline:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch timeline" },
+            { status: 500 }
+        );
+    }
+}
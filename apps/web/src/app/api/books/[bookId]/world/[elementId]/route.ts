@@ -1,6 +1,10 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { removeFromSearchIndex, syncSearchIndex } from "@/lib/search-index";
+import { normalizeFieldValues } from "@/lib/world-fields";
+import { wouldCreateCycle } from "@/lib/world-links";
+
 type RouteContext = {
     params: Promise<{ bookId: string; elementId: string }>;
 };
@@ -36,7 +40,26 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId, elementId } = await params;
         const body = await request.json();
-        const { name, type, description, imageUrl } = body;
+        const { name, type, description, imageUrl, parentId, fields } = body;
+
+        if (parentId) {
+            const elements = await prisma.worldElement.findMany({
+                where: { bookId },
+                select: { id: true, name: true, parentId: true },
+            });
+            if (!elements.some((element) => element.id === parentId)) {
+                return NextResponse.json(
+                    { error: "Parent element not found" },
+                    { status: 400 }
+                );
+            }
+            if (wouldCreateCycle(elements, elementId, parentId)) {
+                return NextResponse.json(
+                    { error: "An element cannot be nested inside itself" },
+                    { status: 400 }
+                );
+            }
+        }
 
         const worldElement = await prisma.worldElement.update({
             where: { id: elementId, bookId },
@@ -45,9 +68,13 @@ export async function PATCH(request: NextRequest, { params }: RouteContext) {
                 ...(type !== undefined && { type }),
                 ...(description !== undefined && { description }),
                 ...(imageUrl !== undefined && { imageUrl }),
+                ...(parentId !== undefined && { parentId: parentId || null }),
+                ...(fields !== undefined && { fields: JSON.stringify(normalizeFieldValues(fields)) }),
             },
         });
 
+        await syncSearchIndex(bookId, "worldelement", elementId);
+
         return NextResponse.json(worldElement);
     } catch (error) {
         console.error("Failed to update world element:", error);
@@ -63,10 +90,31 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId, elementId } = await params;
 
-        await prisma.worldElement.delete({
+        const worldElement = await prisma.worldElement.findUnique({
             where: { id: elementId, bookId },
+            select: { parentId: true },
         });
 
+        if (!worldElement) {
+            return NextResponse.json(
+                { error: "World element not found" },
+                { status: 404 }
+            );
+        }
+
+        // Children move up to the parent instead of losing their place in the hierarchy
+        await prisma.$transaction([
+            prisma.worldElement.updateMany({
+                where: { parentId: elementId, bookId },
+                data: { parentId: worldElement.parentId },
+            }),
+            prisma.worldElement.delete({
+                where: { id: elementId, bookId },
+            }),
+        ]);
+
+        await removeFromSearchIndex("worldelement", elementId);
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Failed to delete world element:", error);
@@ -1,6 +1,13 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { generateText } from "@/lib/ai/client";
+import { getAIErrorStatus } from "@/lib/ai/errors";
+import { extractJSON } from "@/lib/ai/json";
+import { isAIConfigured, toAIConnection, type AIConnection } from "@/lib/ai/types";
+import { labeledFieldValues, parseFieldValues, templatesByType } from "@/lib/world-fields";
+import { formatWorldLink, relatedWorldElementIds, worldElementPath, type WorldLinkData } from "@/lib/world-links";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -13,74 +20,7 @@ type WorldElementData = {
     history?: string;
 };
 
-// Manual field extraction as last resort fallback
-function extractFieldsManually(text: string): Record<string, unknown> | null {
-    const fields = ['name', 'type', 'description', 'usage', 'history'];
-    const result: Record<string, string> = {};
-
-    for (const field of fields) {
-        // Match "field": "value" pattern, handling multiline values
-        const pattern = new RegExp(`"${field}"\\s*:\\s*"([^"]*(?:\\\\.[^"]*)*)"`, 'i');
-        const match = text.match(pattern);
-        if (match) {
-            result[field] = match[1].replace(/\\n/g, '\n').replace(/\\r/g, '\r');
-        }
-    }
-
-    if (result.name) {
-        return result;
-    }
-
-    return null;
-}
-
-// Robust JSON extraction
-function extractJSON(text: string): Record<string, unknown> | null {
-    let cleanedText = text.replace(/```(?:json)?[\s\n]*/gi, '').replace(/```[\s\n]*/g, '');
-    cleanedText = cleanedText.replace(/\*\*([^*]+)\*\*/g, '$1').replace(/\*([^*]+)\*/g, '$1');
-
-    const startIdx = cleanedText.indexOf('{');
-    if (startIdx === -1) return extractFieldsManually(text);
-
-    let depth = 0;
-    let endIdx = -1;
-    let inString = false;
-    let escapeNext = false;
-
-    for (let i = startIdx; i < cleanedText.length; i++) {
-        const char = cleanedText[i];
-        if (escapeNext) { escapeNext = false; continue; }
-        if (char === '\\' && inString) { escapeNext = true; continue; }
-        if (char === '"' && !escapeNext) { inString = !inString; continue; }
-        if (!inString) {
-            if (char === '{') depth++;
-            if (char === '}') {
-                depth--;
-                if (depth === 0) {
-                    endIdx = i;
-                    break;
-                }
-            }
-        }
-    }
-
-    if (endIdx === -1) return extractFieldsManually(text);
-
-    let jsonStr = cleanedText.substring(startIdx, endIdx + 1);
-    jsonStr = jsonStr.replace(/,\s*([\}\]])/g, '$1');
-    jsonStr = jsonStr.replace(/[\x00-\x1f]/g, (char) => {
-        if (char === '\n') return '\\n';
-        if (char === '\r') return '\\r';
-        if (char === '\t') return '\\t';
-        return '';
-    });
-
-    try {
-        return JSON.parse(jsonStr) as Record<string, unknown>;
-    } catch {
-        return extractFieldsManually(text);
-    }
-}
+const worldElementFields = ["name", "type", "description", "usage", "history"];
 
 // POST - AI actions for world elements
 export async function POST(request: NextRequest, { params }: RouteContext) {
@@ -94,20 +34,19 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         }
 
         const settings = await prisma.globalSettings.findUnique({ where: { id: "default" } });
-        if (!settings?.apiKey) {
+        if (!settings || !isAIConfigured(settings)) {
             return NextResponse.json({ error: "Keine API-Konfiguration." }, { status: 400 });
         }
 
-        const aiSettings = {
-            apiEndpoint: settings.apiEndpoint,
-            apiKey: settings.apiKey,
-            model: settings.model,
-        };
+        const connection = toAIConnection(settings);
 
         const book = await prisma.book.findUnique({
             where: { id: bookId },
             include: {
                 worldElements: true,
+                worldLinks: true,
+                worldFieldTemplates: true,
+                characters: { select: { id: true, name: true } },
             },
         });
 
@@ -124,12 +63,16 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             if (!element) {
                 return NextResponse.json({ error: "Element nicht gefunden" }, { status: 404 });
             }
-            const result = await enhanceWorldElement(aiSettings, book, element, prompt);
+            const facts = labeledFieldValues(
+                templatesByType(book.worldFieldTemplates)[element.type] ?? [],
+                parseFieldValues(element.fields)
+            );
+            const result = await enhanceWorldElement(connection, book, element, facts, describeSurroundings(book, element.id), prompt);
             return NextResponse.json(result);
         }
 
         if (action === "generate") {
-            const result = await generateWorldElement(aiSettings, book, prompt);
+            const result = await generateWorldElement(connection, book, prompt);
             return NextResponse.json(result);
         }
 
@@ -138,15 +81,52 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
         console.error("AI world error:", error);
         return NextResponse.json(
             { error: "Fehler bei der KI-Generierung" },
-            { status: 500 }
+            { status: getAIErrorStatus(error) }
         );
     }
 }
 
+// Where the element sits in the world: its parents, what it contains and the elements linked to it
+function describeSurroundings(
+    book: {
+        worldElements: Array<{ id: string; name: string; type: string; description: string | null; parentId: string | null }>;
+        worldLinks: WorldLinkData[];
+        characters: Array<{ id: string; name: string }>;
+    },
+    elementId: string
+): string {
+    const lines: string[] = [];
+    const path = worldElementPath(book.worldElements, elementId);
+    if (path) lines.push(`- Liegt in / gehört zu: ${path}`);
+
+    const children = book.worldElements.filter((e) => e.parentId === elementId);
+    if (children.length > 0) lines.push(`- Enthält: ${children.map((e) => `${e.name} (${e.type})`).join(", ")}`);
+
+    const names = {
+        elements: new Map(book.worldElements.map((e) => [e.id, e.name])),
+        characters: new Map(book.characters.map((c) => [c.id, c.name])),
+    };
+    const links = book.worldLinks
+        .filter((link) => link.fromElementId === elementId || link.toElementId === elementId)
+        .flatMap((link) => formatWorldLink(link, names) ?? []);
+    if (links.length > 0) lines.push(`- Verbindungen: ${links.join("; ")}`);
+
+    const related = relatedWorldElementIds(book.worldElements, book.worldLinks, { elementIds: [elementId], characterIds: [] });
+    const relatedElements = book.worldElements.filter((e) => e.id !== elementId && related.has(e.id) && e.description);
+    if (relatedElements.length > 0) {
+        lines.push("- Verwandte Elemente:");
+        for (const e of relatedElements) lines.push(`  - ${e.name} (${e.type}): ${e.description}`);
+    }
+
+    return lines.join("\n");
+}
+
 async function enhanceWorldElement(
-    settings: { apiEndpoint: string; apiKey: string; model: string },
+    connection: AIConnection,
     book: { title: string; genre: string | null; description: string | null },
     element: { name: string; type: string; description: string | null },
+    facts: Array<[label: string, value: string]>,
+    surroundings: string,
     prompt: string
 ): Promise<{ worldElement: WorldElementData }> {
     const systemPrompt = `Du bist ein erfahrener Worldbuilder für Romane. Verbessere das folgende Weltelement.
@@ -159,8 +139,8 @@ BUCH-KONTEXT:
 ELEMENT:
 - Name: ${element.name}
 - Typ: ${element.type}
-- Beschreibung: ${element.description || ""}
-
+- Beschreibung: ${element.description || ""}${facts.map(([label, value]) => `\n- ${label}: ${value}`).join("")}
+${surroundings ? `\nEINORDNUNG IN DER WELT (bleib damit konsistent):\n${surroundings}\n` : ""}
 Antworte NUR mit einem JSON-Objekt:
 {
   "name": "Name",
@@ -171,15 +151,20 @@ Antworte NUR mit einem JSON-Objekt:
 }`;
 
     const userPrompt = `Anweisung: "${prompt}"\nVerbessere das Element entsprechend der Anweisung.`;
-    const response = await callAI(settings, systemPrompt, userPrompt);
-    const parsed = extractJSON(response);
+    const response = await generateText(connection, {
+        system: systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.8,
+        maxTokens: 2048,
+    });
+    const parsed = extractJSON(response, { fallbackFields: worldElementFields });
 
     if (parsed) return { worldElement: parsed as unknown as WorldElementData };
     throw new Error("Kein gültiges JSON gefunden.");
 }
 
 async function generateWorldElement(
-    settings: { apiEndpoint: string; apiKey: string; model: string },
+    connection: AIConnection,
     book: { title: string; genre: string | null; description: string | null; worldElements: Array<{ name: string; type: string }> },
     prompt: string
 ): Promise<{ worldElement: WorldElementData }> {
@@ -204,26 +189,14 @@ Antworte NUR mit einem JSON-Objekt:
 }`;
 
     const userPrompt = `Anweisung: "${prompt}"\nErstelle ein neues Element.`;
-    const response = await callAI(settings, systemPrompt, userPrompt);
-    const parsed = extractJSON(response);
+    const response = await generateText(connection, {
+        system: systemPrompt,
+        prompt: userPrompt,
+        temperature: 0.8,
+        maxTokens: 2048,
+    });
+    const parsed = extractJSON(response, { fallbackFields: worldElementFields });
 
     if (parsed) return { worldElement: parsed as unknown as WorldElementData };
     throw new Error("Kein gültiges JSON gefunden.");
 }
-
-async function callAI(settings: { apiEndpoint: string; apiKey: string; model: string }, systemPrompt: string, userPrompt: string): Promise<string> {
-    const response = await fetch(`${settings.apiEndpoint}/chat/completions`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json", Authorization: `Bearer ${settings.apiKey}` },
-        body: JSON.stringify({
-            model: settings.model,
-            messages: [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }],
-            temperature: 0.8,
-            max_tokens: 2048,
-        }),
-    });
-
-    if (!response.ok) throw new Error("KI-API Fehler");
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || "";
-}
@@ -0,0 +1,61 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { isWorldLinkType } from "@/lib/world-links";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; linkId: string }>;
+};
+
+// PATCH update type or description of a link
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, linkId } = await params;
+        const body = await request.json();
+        const { linkType, description } = body;
+
+        if (linkType !== undefined && !isWorldLinkType(linkType)) {
+            return NextResponse.json(
+                { error: "Invalid link type" },
+                { status: 400 }
+            );
+        }
+
+        const link = await prisma.worldLink.update({
+            where: { id: linkId, bookId },
+            data: {
+                ...(linkType !== undefined && { linkType }),
+                ...(description !== undefined && {
+                    description: typeof description === "string" ? description.trim() || null : null,
+                }),
+            },
+        });
+
+        return NextResponse.json(link);
+    } catch (error) {
+        console.error("Failed to update world link:", error);
+        return NextResponse.json(
+            { error: "Failed to update world link" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE link
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, linkId } = await params;
+
+        await prisma.worldLink.delete({
+            where: { id: linkId, bookId },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete world link:", error);
+        return NextResponse.json(
+            { error: "Failed to delete world link" },
+            { status: 500 }
+        );
+    }
+}
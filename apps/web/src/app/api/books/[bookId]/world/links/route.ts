@@ -0,0 +1,85 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { isWorldLinkType } from "@/lib/world-links";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET all links between world elements and characters of a book
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        const links = await prisma.worldLink.findMany({
+            where: { bookId },
+            orderBy: { createdAt: "asc" },
+        });
+
+        return NextResponse.json(links);
+    } catch (error) {
+        console.error("Failed to fetch world links:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch world links" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST create a link. Body: { linkType, description?, toElementId } plus either fromElementId or fromCharacterId
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json();
+        const { linkType, description, fromElementId, fromCharacterId, toElementId } = body;
+
+        if (!isWorldLinkType(linkType)) {
+            return NextResponse.json(
+                { error: "Invalid link type" },
+                { status: 400 }
+            );
+        }
+
+        if (!toElementId || !fromElementId === !fromCharacterId || fromElementId === toElementId) {
+            return NextResponse.json(
+                { error: "A link needs a target element and exactly one other element or character as source" },
+                { status: 400 }
+            );
+        }
+
+        const elementIds = [toElementId, ...(fromElementId ? [fromElementId] : [])];
+        const [elementCount, character] = await Promise.all([
+            prisma.worldElement.count({ where: { bookId, id: { in: elementIds } } }),
+            fromCharacterId
+                ? prisma.character.findUnique({ where: { id: fromCharacterId, bookId }, select: { id: true } })
+                : null,
+        ]);
+
+        if (elementCount !== elementIds.length || (fromCharacterId && !character)) {
+            return NextResponse.json(
+                { error: "World element or character not found" },
+                { status: 404 }
+            );
+        }
+
+        const link = await prisma.worldLink.create({
+            data: {
+                bookId,
+                linkType,
+                description: typeof description === "string" ? description.trim() || null : null,
+                fromElementId: fromElementId || null,
+                fromCharacterId: fromCharacterId || null,
+                toElementId,
+            },
+        });
+
+        return NextResponse.json(link, { status: 201 });
+    } catch (error) {
+        console.error("Failed to create world link:", error);
+        return NextResponse.json(
+            { error: "Failed to create world link" },
+            { status: 500 }
+        );
+    }
+}
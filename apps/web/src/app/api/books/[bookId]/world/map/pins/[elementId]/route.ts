@@ -0,0 +1,77 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalizeMapPoints } from "@/lib/story-map";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; elementId: string }>;
+};
+
+// PUT place or move the pin of a location. Body: { x, y } in pixels of the map image
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, elementId } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const [map, element] = await Promise.all([
+            prisma.storyMap.findUnique({ where: { bookId } }),
+            prisma.worldElement.findUnique({ where: { id: elementId, bookId }, select: { type: true } }),
+        ]);
+
+        if (!map || !element) {
+            return NextResponse.json(
+                { error: map ? "World element not found" : "Book has no map" },
+                { status: 404 }
+            );
+        }
+
+        if (element.type !== "location") {
+            return NextResponse.json(
+                { error: "Only locations can be pinned on the map" },
+                { status: 400 }
+            );
+        }
+
+        const points = normalizeMapPoints([body], map);
+        if (typeof points === "string") {
+            return NextResponse.json(
+                { error: points },
+                { status: 400 }
+            );
+        }
+        const { x, y } = points[0]!;
+
+        const pin = await prisma.mapPin.upsert({
+            where: { elementId },
+            create: { mapId: map.id, elementId, x, y },
+            update: { x, y },
+        });
+
+        return NextResponse.json({ elementId: pin.elementId, x: pin.x, y: pin.y });
+    } catch (error) {
+        console.error("Failed to save map pin:", error);
+        return NextResponse.json(
+            { error: "Failed to save map pin" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE pin; routes from or to the location stay and return once it is pinned again
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, elementId } = await params;
+
+        await prisma.mapPin.deleteMany({
+            where: { elementId, map: { bookId } },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete map pin:", error);
+        return NextResponse.json(
+            { error: "Failed to delete map pin" },
+            { status: 500 }
+        );
+    }
+}
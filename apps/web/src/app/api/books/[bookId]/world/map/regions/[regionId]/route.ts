@@ -0,0 +1,84 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalizeMapPoints, serializeMapRegion } from "@/lib/story-map";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; regionId: string }>;
+};
+
+// PATCH update name, color, outline or linked element of a region
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, regionId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { name, color, elementId } = body;
+
+        if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+            return NextResponse.json(
+                { error: "Name is required" },
+                { status: 400 }
+            );
+        }
+
+        const map = await prisma.storyMap.findUnique({ where: { bookId } });
+        if (!map) {
+            return NextResponse.json(
+                { error: "Book has no map" },
+                { status: 404 }
+            );
+        }
+
+        const points = body.points === undefined ? undefined : normalizeMapPoints(body.points, map);
+        if (typeof points === "string" || (points && points.length < 3)) {
+            return NextResponse.json(
+                { error: typeof points === "string" ? points : "A region needs at least 3 points" },
+                { status: 400 }
+            );
+        }
+
+        if (elementId && !(await prisma.worldElement.count({ where: { id: elementId, bookId } }))) {
+            return NextResponse.json(
+                { error: "World element not found" },
+                { status: 404 }
+            );
+        }
+
+        const region = await prisma.mapRegion.update({
+            where: { id: regionId, mapId: map.id },
+            data: {
+                ...(name !== undefined && { name: name.trim() }),
+                ...(typeof color === "string" && color && { color }),
+                ...(points && { points: JSON.stringify(points) }),
+                ...(elementId !== undefined && { elementId: elementId || null }),
+            },
+        });
+
+        return NextResponse.json(serializeMapRegion(region));
+    } catch (error) {
+        console.error("Failed to update map region:", error);
+        return NextResponse.json(
+            { error: "Failed to update map region" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE region
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, regionId } = await params;
+
+        await prisma.mapRegion.delete({
+            where: { id: regionId, map: { bookId } },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete map region:", error);
+        return NextResponse.json(
+            { error: "Failed to delete map region" },
+            { status: 500 }
+        );
+    }
+}
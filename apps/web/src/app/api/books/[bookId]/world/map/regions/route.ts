@@ -0,0 +1,65 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalizeMapPoints, REGION_COLORS, serializeMapRegion } from "@/lib/story-map";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// POST create a region. Body: { name, points: [{ x, y }], color?, elementId? }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { name, color, elementId } = body;
+
+        if (typeof name !== "string" || !name.trim()) {
+            return NextResponse.json(
+                { error: "Name is required" },
+                { status: 400 }
+            );
+        }
+
+        const map = await prisma.storyMap.findUnique({ where: { bookId } });
+        if (!map) {
+            return NextResponse.json(
+                { error: "Book has no map" },
+                { status: 404 }
+            );
+        }
+
+        const points = normalizeMapPoints(body.points, map);
+        if (typeof points === "string" || points.length < 3) {
+            return NextResponse.json(
+                { error: typeof points === "string" ? points : "A region needs at least 3 points" },
+                { status: 400 }
+            );
+        }
+
+        if (elementId && !(await prisma.worldElement.count({ where: { id: elementId, bookId } }))) {
+            return NextResponse.json(
+                { error: "World element not found" },
+                { status: 404 }
+            );
+        }
+
+        const region = await prisma.mapRegion.create({
+            data: {
+                mapId: map.id,
+                name: name.trim(),
+                color: typeof color === "string" && color ? color : REGION_COLORS[0]!,
+                points: JSON.stringify(points),
+                elementId: elementId || null,
+            },
+        });
+
+        return NextResponse.json(serializeMapRegion(region), { status: 201 });
+    } catch (error) {
+        console.error("Failed to create map region:", error);
+        return NextResponse.json(
+            { error: "Failed to create map region" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,145 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { parseMapPoints, readPositiveNumber, serializeStoryMap, type MapPoint } from "@/lib/story-map";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET the book's map with pins, regions and routes; null when no map was uploaded yet
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        const map = await prisma.storyMap.findUnique({
+            where: { bookId },
+            include: { pins: true, regions: true, routes: true },
+        });
+
+        return NextResponse.json(map && serializeStoryMap(map));
+    } catch (error) {
+        console.error("Failed to fetch story map:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch story map" },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT create the map or change its image and settings.
+// Body: { imageUrl, imageWidth, imageHeight, distanceUnit?, scale?, travelPerDay? }; the image is
+// only required when creating the map.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { imageUrl, imageWidth, imageHeight, distanceUnit } = body;
+
+        const scale = readPositiveNumber(body.scale);
+        const travelPerDay = readPositiveNumber(body.travelPerDay);
+        if (scale === undefined || travelPerDay === undefined) {
+            return NextResponse.json(
+                { error: "scale and travelPerDay must be positive numbers" },
+                { status: 400 }
+            );
+        }
+
+        const hasImage = imageUrl !== undefined;
+        if (hasImage && (
+            typeof imageUrl !== "string" || !imageUrl
+            || !Number.isInteger(imageWidth) || imageWidth <= 0
+            || !Number.isInteger(imageHeight) || imageHeight <= 0
+        )) {
+            return NextResponse.json(
+                { error: "A map image needs a URL and its size in pixels" },
+                { status: 400 }
+            );
+        }
+
+        const book = await prisma.book.findUnique({
+            where: { id: bookId },
+            select: {
+                id: true,
+                storyMap: { include: { pins: true, regions: true, routes: true } },
+            },
+        });
+
+        if (!book) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        if (!book.storyMap && !hasImage) {
+            return NextResponse.json(
+                { error: "imageUrl is required" },
+                { status: 400 }
+            );
+        }
+
+        const data = {
+            ...(hasImage && { imageUrl, imageWidth, imageHeight }),
+            ...(typeof distanceUnit === "string" && { distanceUnit: distanceUnit.trim() }),
+            ...(body.scale !== undefined && { scale }),
+            ...(body.travelPerDay !== undefined && { travelPerDay }),
+        };
+
+        const map = await prisma.$transaction(async (tx) => {
+            // A new image of a different size (a redrawn map) keeps everything at the same relative place
+            const previous = book.storyMap;
+            if (hasImage && previous && (previous.imageWidth !== imageWidth || previous.imageHeight !== imageHeight)) {
+                const scalePoint = (point: MapPoint) => ({
+                    x: (point.x / previous.imageWidth) * imageWidth,
+                    y: (point.y / previous.imageHeight) * imageHeight,
+                });
+                for (const pin of previous.pins) {
+                    await tx.mapPin.update({ where: { id: pin.id }, data: scalePoint(pin) });
+                }
+                for (const region of previous.regions) {
+                    const points = parseMapPoints(region.points).map(scalePoint);
+                    await tx.mapRegion.update({ where: { id: region.id }, data: { points: JSON.stringify(points) } });
+                }
+                for (const route of previous.routes) {
+                    const points = parseMapPoints(route.points).map(scalePoint);
+                    await tx.mapRoute.update({ where: { id: route.id }, data: { points: JSON.stringify(points) } });
+                }
+            }
+
+            return tx.storyMap.upsert({
+                where: { bookId },
+                create: { bookId, imageUrl, imageWidth, imageHeight, ...data },
+                update: data,
+                include: { pins: true, regions: true, routes: true },
+            });
+        });
+
+        return NextResponse.json(serializeStoryMap(map));
+    } catch (error) {
+        console.error("Failed to save story map:", error);
+        return NextResponse.json(
+            { error: "Failed to save story map" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE map with all its pins, regions and routes
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        await prisma.storyMap.deleteMany({
+            where: { bookId },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete story map:", error);
+        return NextResponse.json(
+            { error: "Failed to delete story map" },
+            { status: 500 }
+        );
+    }
+}
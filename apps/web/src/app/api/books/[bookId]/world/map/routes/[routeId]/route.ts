@@ -0,0 +1,79 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalizeMapPoints, readPositiveNumber, serializeMapRoute } from "@/lib/story-map";
+
+type RouteContext = {
+    params: Promise<{ bookId: string; routeId: string }>;
+};
+
+// PATCH update name, waypoints, distance or travel time of a route
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, routeId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { name } = body;
+
+        const distance = body.distance === undefined ? undefined : readPositiveNumber(body.distance);
+        const travelHours = body.travelHours === undefined ? undefined : readPositiveNumber(body.travelHours);
+        if ((body.distance !== undefined && distance === undefined) || (body.travelHours !== undefined && travelHours === undefined)) {
+            return NextResponse.json(
+                { error: "distance and travelHours must be positive numbers" },
+                { status: 400 }
+            );
+        }
+
+        const map = await prisma.storyMap.findUnique({ where: { bookId } });
+        if (!map) {
+            return NextResponse.json(
+                { error: "Book has no map" },
+                { status: 404 }
+            );
+        }
+
+        const points = body.points === undefined ? undefined : normalizeMapPoints(body.points, map);
+        if (typeof points === "string") {
+            return NextResponse.json(
+                { error: points },
+                { status: 400 }
+            );
+        }
+
+        const route = await prisma.mapRoute.update({
+            where: { id: routeId, mapId: map.id },
+            data: {
+                ...(typeof name === "string" && { name: name.trim() }),
+                ...(points && { points: JSON.stringify(points) }),
+                ...(distance !== undefined && { distance }),
+                ...(travelHours !== undefined && { travelHours }),
+            },
+        });
+
+        return NextResponse.json(serializeMapRoute(route));
+    } catch (error) {
+        console.error("Failed to update map route:", error);
+        return NextResponse.json(
+            { error: "Failed to update map route" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE route
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId, routeId } = await params;
+
+        await prisma.mapRoute.delete({
+            where: { id: routeId, map: { bookId } },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Failed to delete map route:", error);
+        return NextResponse.json(
+            { error: "Failed to delete map route" },
+            { status: 500 }
+        );
+    }
+}
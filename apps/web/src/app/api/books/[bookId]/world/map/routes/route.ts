@@ -0,0 +1,80 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { normalizeMapPoints, readPositiveNumber, serializeMapRoute } from "@/lib/story-map";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// POST create a travel route between two locations.
+// Body: { fromElementId, toElementId, name?, points?: [{ x, y }], distance?, travelHours? }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { fromElementId, toElementId, name } = body;
+
+        if (!fromElementId || !toElementId || fromElementId === toElementId) {
+            return NextResponse.json(
+                { error: "A route needs two different locations" },
+                { status: 400 }
+            );
+        }
+
+        const distance = readPositiveNumber(body.distance);
+        const travelHours = readPositiveNumber(body.travelHours);
+        if (distance === undefined || travelHours === undefined) {
+            return NextResponse.json(
+                { error: "distance and travelHours must be positive numbers" },
+                { status: 400 }
+            );
+        }
+
+        const map = await prisma.storyMap.findUnique({ where: { bookId } });
+        if (!map) {
+            return NextResponse.json(
+                { error: "Book has no map" },
+                { status: 404 }
+            );
+        }
+
+        const points = normalizeMapPoints(body.points ?? [], map);
+        if (typeof points === "string") {
+            return NextResponse.json(
+                { error: points },
+                { status: 400 }
+            );
+        }
+
+        const locationCount = await prisma.worldElement.count({
+            where: { bookId, type: "location", id: { in: [fromElementId, toElementId] } },
+        });
+        if (locationCount !== 2) {
+            return NextResponse.json(
+                { error: "Location not found" },
+                { status: 404 }
+            );
+        }
+
+        const route = await prisma.mapRoute.create({
+            data: {
+                mapId: map.id,
+                name: typeof name === "string" ? name.trim() : "",
+                fromElementId,
+                toElementId,
+                points: JSON.stringify(points),
+                distance,
+                travelHours,
+            },
+        });
+
+        return NextResponse.json(serializeMapRoute(route), { status: 201 });
+    } catch (error) {
+        console.error("Failed to create map route:", error);
+        return NextResponse.json(
+            { error: "Failed to create map route" },
+            { status: 500 }
+        );
+    }
+}
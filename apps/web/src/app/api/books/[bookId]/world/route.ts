@@ -1,6 +1,9 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { syncSearchIndex } from "@/lib/search-index";
+import { normalizeFieldValues } from "@/lib/world-fields";
+
 type RouteContext = {
     params: Promise<{ bookId: string }>;
 };
@@ -35,7 +38,7 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
     try {
         const { bookId } = await params;
         const body = await request.json();
-        const { name, type, description, imageUrl } = body;
+        const { name, type, description, imageUrl, parentId, fields } = body;
 
         if (!name) {
             return NextResponse.json(
@@ -44,6 +47,16 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
             );
         }
 
+        if (parentId) {
+            const parent = await prisma.worldElement.findUnique({ where: { id: parentId, bookId }, select: { id: true } });
+            if (!parent) {
+                return NextResponse.json(
+                    { error: "Parent element not found" },
+                    { status: 400 }
+                );
+            }
+        }
+
         const worldElement = await prisma.worldElement.create({
             data: {
                 bookId,
@@ -51,9 +64,13 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
                 type: type || "location",
                 description,
                 imageUrl,
+                parentId: parentId || null,
+                fields: JSON.stringify(normalizeFieldValues(fields)),
             },
         });
 
+        await syncSearchIndex(bookId, "worldelement", worldElement.id);
+
         return NextResponse.json(worldElement, { status: 201 });
     } catch (error) {
         console.error("Failed to create world element:", error);
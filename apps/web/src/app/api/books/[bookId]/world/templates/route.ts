@@ -0,0 +1,95 @@
+import prisma from "@bucherstellung/db";
+import { NextRequest, NextResponse } from "next/server";
+
+import { syncSearchIndex } from "@/lib/search-index";
+import { normalizeWorldFields, parseWorldFields } from "@/lib/world-fields";
+
+type RouteContext = {
+    params: Promise<{ bookId: string }>;
+};
+
+// GET field templates of a book, one per world element type
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+
+        const templates = await prisma.worldFieldTemplate.findMany({
+            where: { bookId },
+        });
+
+        return NextResponse.json(templates.map((template) => ({
+            type: template.type,
+            fields: parseWorldFields(template.fields),
+        })));
+    } catch (error) {
+        console.error("Failed to fetch world field templates:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch world field templates" },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT replace the template of one element type. Body: { type, fields: [{ key?, label }] };
+// without fields the template is removed. Values of removed fields stay with the elements.
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { bookId } = await params;
+        const body = await request.json().catch(() => ({}));
+        const { type } = body;
+
+        if (typeof type !== "string" || !type) {
+            return NextResponse.json(
+                { error: "type is required" },
+                { status: 400 }
+            );
+        }
+
+        const fields = normalizeWorldFields(body.fields);
+        if (typeof fields === "string") {
+            return NextResponse.json(
+                { error: fields },
+                { status: 400 }
+            );
+        }
+
+        const book = await prisma.book.findUnique({
+            where: { id: bookId },
+            select: { id: true },
+        });
+
+        if (!book) {
+            return NextResponse.json(
+                { error: "Book not found" },
+                { status: 404 }
+            );
+        }
+
+        if (fields.length === 0) {
+            await prisma.worldFieldTemplate.deleteMany({ where: { bookId, type } });
+        } else {
+            await prisma.worldFieldTemplate.upsert({
+                where: { bookId_type: { bookId, type } },
+                create: { bookId, type, fields: JSON.stringify(fields) },
+                update: { fields: JSON.stringify(fields) },
+            });
+        }
+
+        // Field labels are part of the indexed text of every element of this type
+        const elements = await prisma.worldElement.findMany({
+            where: { bookId, type },
+            select: { id: true },
+        });
+        for (const element of elements) {
+            await syncSearchIndex(bookId, "worldelement", element.id);
+        }
+
+        return NextResponse.json({ type, fields });
+    } catch (error) {
+        console.error("Failed to save world field template:", error);
+        return NextResponse.json(
+            { error: "Failed to save world field template" },
+            { status: 500 }
+        );
+    }
+}
@@ -2,6 +2,8 @@ import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 import mammoth from "mammoth";
 
+import { BookArchiveError, importBookArchive } from "@/lib/book-archive";
+
 // Type for parsed chapter
 interface ParsedChapter {
     title: string;
@@ -145,6 +147,17 @@ export async function POST(request: NextRequest) {
 
         const buffer = await file.arrayBuffer();
 
+        // Backup archives restore the whole book instead of splitting a manuscript
+        if (fileName.endsWith(".zip")) {
+            const result = await importBookArchive(buffer, { title });
+            return NextResponse.json({
+                book: { id: result.bookId, title: result.title },
+                chaptersImported: result.counts.chapters,
+                counts: result.counts,
+                message: `Backup wiederhergestellt: ${result.counts.chapters} Kapitel, ${result.counts.characters} Charaktere, ${result.counts.plotPoints} Handlungspunkte, ${result.counts.worldElements} Weltelemente.`,
+            });
+        }
+
         if (fileName.endsWith(".docx")) {
             const result = await parseDocx(buffer);
             html = result.html;
@@ -159,7 +172,7 @@ export async function POST(request: NextRequest) {
             html = parsePlainText(content);
         } else {
             return NextResponse.json(
-                { error: "Unsupported file format. Please use .docx, .md, or .txt" },
+                { error: "Unsupported file format. Please use .docx, .md, .txt, or a .zip backup" },
                 { status: 400 }
             );
         }
@@ -203,6 +216,12 @@ export async function POST(request: NextRequest) {
 
     } catch (error) {
         console.error("Import failed:", error);
+        if (error instanceof BookArchiveError) {
+            return NextResponse.json(
+                { error: "Import fehlgeschlagen", details: error.message },
+                { status: 400 }
+            );
+        }
         return NextResponse.json(
             { error: "Import fehlgeschlagen" },
             { status: 500 }
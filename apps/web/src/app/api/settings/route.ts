@@ -1,6 +1,8 @@
 import prisma from "@bucherstellung/db";
 import { NextRequest, NextResponse } from "next/server";
 
+import { isAIConfigured, isAIProvider } from "@/lib/ai/types";
+
 // GET global settings
 export async function GET() {
     try {
@@ -37,6 +39,7 @@ export async function PATCH(request: NextRequest) {
     try {
         const body = await request.json();
         const {
+            provider,
             apiEndpoint,
             apiKey,
             model,
@@ -45,10 +48,18 @@ export async function PATCH(request: NextRequest) {
             systemPrompt,
         } = body;
 
+        if (provider !== undefined && !isAIProvider(provider)) {
+            return NextResponse.json(
+                { error: "Unknown AI provider" },
+                { status: 400 }
+            );
+        }
+
         const settings = await prisma.globalSettings.upsert({
             where: { id: "default" },
             create: {
                 id: "default",
+                ...(provider !== undefined && { provider }),
                 ...(apiEndpoint !== undefined && { apiEndpoint }),
                 ...(apiKey !== undefined && { apiKey }),
                 ...(model !== undefined && { model }),
@@ -57,6 +68,7 @@ export async function PATCH(request: NextRequest) {
                 ...(systemPrompt !== undefined && { systemPrompt }),
             },
             update: {
+                ...(provider !== undefined && { provider }),
                 ...(apiEndpoint !== undefined && { apiEndpoint }),
                 ...(apiKey !== undefined && { apiKey }),
                 ...(model !== undefined && { model }),
@@ -97,7 +109,7 @@ export async function POST(request: NextRequest) {
             where: { id: "default" },
         });
 
-        if (!settings || !settings.apiKey) {
+        if (!settings || !isAIConfigured(settings)) {
             return NextResponse.json(
                 { error: "No API key configured" },
                 { status: 404 }
@@ -105,6 +117,7 @@ export async function POST(request: NextRequest) {
         }
 
         return NextResponse.json({
+            provider: settings.provider,
             apiEndpoint: settings.apiEndpoint,
             apiKey: settings.apiKey,
             model: settings.model,
@@ -17,6 +17,7 @@ export default async function ChapterEditorPage({ params }: PageProps) {
                 select: {
                     id: true,
                     title: true,
+                    author: true,
                     genre: true,
                     writingStyle: true,
                     targetAudience: true,
@@ -48,6 +49,9 @@ export default async function ChapterEditorPage({ params }: PageProps) {
                     },
                 },
             },
+            scenes: {
+                orderBy: { orderIndex: "asc" },
+            },
         },
     });
 
@@ -60,17 +64,17 @@ export default async function ChapterEditorPage({ params }: PageProps) {
         prisma.character.findMany({
             where: { bookId },
             orderBy: { name: "asc" },
-            select: { id: true, name: true, role: true },
+            select: { id: true, name: true, role: true, aliases: true, description: true, imageUrl: true },
         }),
         prisma.plotPoint.findMany({
             where: { bookId },
             orderBy: { orderIndex: "asc" },
-            select: { id: true, title: true, type: true },
+            select: { id: true, title: true, type: true, description: true },
         }),
         prisma.worldElement.findMany({
             where: { bookId },
             orderBy: { name: "asc" },
-            select: { id: true, name: true, type: true },
+            select: { id: true, name: true, type: true, description: true, imageUrl: true },
         }),
         prisma.chapter.findMany({
             where: { bookId },
@@ -21,6 +21,18 @@ export default async function BookEditorPage({ params }: PageProps) {
                     orderIndex: true,
                     status: true,
                     wordCount: true,
+                    summary: true,
+                    summaryStale: true,
+                    act: true,
+                    chapterCharacters: {
+                        select: { characterId: true },
+                    },
+                    chapterPlotPoints: {
+                        select: { plotPointId: true },
+                    },
+                    scenes: {
+                        orderBy: { orderIndex: "asc" },
+                    },
                 },
             },
             characters: {
@@ -28,6 +40,8 @@ export default async function BookEditorPage({ params }: PageProps) {
                 select: {
                     id: true,
                     name: true,
+                    aliases: true,
+                    pronouns: true,
                     role: true,
                     description: true,
                     personality: true,
@@ -37,6 +51,32 @@ export default async function BookEditorPage({ params }: PageProps) {
                     arc: true,
                     notes: true,
                     imageUrl: true,
+                    deathChapterId: true,
+                    relationsFrom: {
+                        select: {
+                            id: true,
+                            relatedCharacterId: true,
+                            relationType: true,
+                            description: true,
+                            relatedCharacter: {
+                                select: { id: true, name: true, role: true, imageUrl: true },
+                            },
+                            changes: {
+                                select: { chapterId: true, relationType: true, description: true },
+                            },
+                        },
+                    },
+                    relationsTo: {
+                        select: {
+                            id: true,
+                            characterId: true,
+                            relationType: true,
+                            description: true,
+                            character: {
+                                select: { id: true, name: true, role: true, imageUrl: true },
+                            },
+                        },
+                    },
                 },
             },
             plotPoints: {
@@ -57,6 +97,22 @@ export default async function BookEditorPage({ params }: PageProps) {
                     type: true,
                     description: true,
                     imageUrl: true,
+                    parentId: true,
+                    fields: true,
+                },
+            },
+            worldFieldTemplates: {
+                select: { type: true, fields: true },
+            },
+            worldLinks: {
+                orderBy: { createdAt: "asc" },
+                select: {
+                    id: true,
+                    linkType: true,
+                    description: true,
+                    fromElementId: true,
+                    fromCharacterId: true,
+                    toElementId: true,
                 },
             },
             aiSettings: true,
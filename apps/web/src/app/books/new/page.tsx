@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { ArrowLeft, Loader2, Sparkles, PenTool, Upload, FileText, File, CheckCircle2, AlertCircle } from "lucide-react";
+import { ArrowLeft, Loader2, Sparkles, PenTool, Upload, FileText, File, FileArchive, CheckCircle2, AlertCircle } from "lucide-react";
 import Link from "next/link";
 import type { Route } from "next";
 
@@ -12,10 +12,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import StoryWizard from "@/components/wizard/StoryWizard";
 import { useI18n } from "@/components/locale-provider";
+import { isAIConfigured } from "@/lib/ai/types";
 
 type AISettings = {
+    provider: string;
     apiEndpoint: string;
-    apiKey: string;
+    apiKey: string | null;
     model: string;
 } | null;
 
@@ -61,8 +63,9 @@ export default function NewBookPage() {
 
                 if (response.ok) {
                     const settings = await response.json();
-                    if (settings.apiKey) {
+                    if (isAIConfigured(settings)) {
                         setAiSettings({
+                            provider: settings.provider,
                             apiEndpoint: settings.apiEndpoint,
                             apiKey: settings.apiKey,
                             model: settings.model,
@@ -140,7 +143,9 @@ export default function NewBookPage() {
             } else {
                 setImportResult({
                     success: false,
-                    message: data.error || t({ de: "Import fehlgeschlagen", en: "Import failed" }),
+                    message: data.details
+                        ? `${data.error}: ${data.details}`
+                        : data.error || t({ de: "Import fehlgeschlagen", en: "Import failed" }),
                 });
             }
         } catch (error) {
@@ -157,6 +162,7 @@ export default function NewBookPage() {
     const getFileIcon = (fileName: string) => {
         if (fileName.endsWith(".docx")) return <FileText className="h-8 w-8 text-blue-500" />;
         if (fileName.endsWith(".md")) return <File className="h-8 w-8 text-purple-500" />;
+        if (fileName.endsWith(".zip")) return <FileArchive className="h-8 w-8 text-amber-500" />;
         return <File className="h-8 w-8 text-gray-500" />;
     };
 
@@ -302,6 +308,7 @@ export default function NewBookPage() {
                 </p>
 
                 <StoryWizard
+                    provider={aiSettings.provider}
                     apiEndpoint={aiSettings.apiEndpoint}
                     apiKey={aiSettings.apiKey}
                     model={aiSettings.model}
@@ -380,7 +387,7 @@ export default function NewBookPage() {
                                     <input
                                         ref={fileInputRef}
                                         type="file"
-                                        accept=".docx,.txt,.md"
+                                        accept=".docx,.txt,.md,.zip"
                                         onChange={handleFileSelect}
                                         className="hidden"
                                     />
@@ -410,7 +417,7 @@ export default function NewBookPage() {
                                             <Upload className="h-10 w-10 text-muted-foreground mb-3" />
                                             <p className="font-medium">{t({ de: "Datei hier ablegen oder klicken", en: "Drop file here or click" })}</p>
                                             <p className="text-sm text-muted-foreground mt-1">
-                                                {t({ de: "DOCX, TXT oder Markdown", en: "DOCX, TXT, or Markdown" })}
+                                                {t({ de: "DOCX, TXT, Markdown oder Backup (.zip)", en: "DOCX, TXT, Markdown, or backup (.zip)" })}
                                             </p>
                                         </div>
                                     )}
@@ -440,6 +447,7 @@ export default function NewBookPage() {
                                         <li>{t({ de: "Kapitel werden anhand von Überschriften erkannt", en: "Chapters are detected by headings" })}</li>
                                         <li>{t({ de: "Auch \"Kapitel X\" / \"Chapter X\" werden erkannt", en: "Also recognizes \"Kapitel X\" / \"Chapter X\"" })}</li>
                                         <li>{t({ de: "Formatierung (Fett, Kursiv) wird beibehalten", en: "Formatting (bold, italic) is preserved" })}</li>
+                                        <li>{t({ de: "Backups (.zip) stellen das ganze Buch inklusive Charakteren, Handlung, Welt und Bildern wieder her", en: "Backups (.zip) restore the whole book including characters, plot, world, and images" })}</li>
                                     </ul>
                                 </div>
 
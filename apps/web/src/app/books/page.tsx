@@ -14,7 +14,8 @@ import {
     Filter,
     Calendar,
     ArrowUpRight,
-    MoreVertical
+    MoreVertical,
+    Download
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -29,6 +30,7 @@ import {
     DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
 import { useI18n } from "@/components/locale-provider";
+import type { ExportFormat } from "@/lib/export/shared";
 
 type Book = {
     id: string;
@@ -98,6 +100,21 @@ export default function BooksPage() {
         }
     };
 
+    const handleBackup = (bookId: string) => {
+        window.location.href = `/api/books/${bookId}/backup`;
+    };
+
+    const handleExport = (bookId: string, format: ExportFormat) => {
+        window.location.href = `/api/books/${bookId}/export?format=${format}`;
+    };
+
+    const exportOptions: Array<{ format: ExportFormat; label: string }> = [
+        { format: "epub", label: "EPUB" },
+        { format: "docx", label: t({ de: "Word (DOCX)", en: "Word (DOCX)" }) },
+        { format: "md", label: "Markdown" },
+        { format: "html", label: "HTML" },
+    ];
+
     const filteredBooks = useMemo(() => {
         let filtered = books.filter(book =>
             book.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -283,7 +300,40 @@ export default function BooksPage() {
                                                 <div className="absolute inset-0 bg-gradient-to-t from-background via-background/20 to-transparent" />
 
                                                 {/* Quick Actions (Hover) */}
-                                                <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex gap-2">
+                                                <div
+                                                    className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 has-[[data-popup-open]]:opacity-100 transition-opacity duration-200 flex gap-2"
+                                                    onClick={(e) => {
+                                                        // Menu clicks must not follow the card link
+                                                        e.preventDefault();
+                                                        e.stopPropagation();
+                                                    }}
+                                                >
+                                                    <DropdownMenu>
+                                                        <DropdownMenuTrigger
+                                                            render={
+                                                                <Button
+                                                                    variant="secondary"
+                                                                    size="icon"
+                                                                    className="h-8 w-8 rounded-full bg-background/80 backdrop-blur hover:bg-background shadow-sm"
+                                                                    title={t({ de: "Herunterladen", en: "Download" })}
+                                                                />
+                                                            }
+                                                        >
+                                                            <Download className="h-3 w-3" />
+                                                        </DropdownMenuTrigger>
+                                                        <DropdownMenuContent align="end" className="w-48 rounded-xl">
+                                                            <DropdownMenuItem onClick={() => handleBackup(book.id)}>
+                                                                {t({ de: "Backup (ZIP)", en: "Backup (ZIP)" })}
+                                                            </DropdownMenuItem>
+                                                            <DropdownMenuSeparator />
+                                                            <DropdownMenuLabel>{t({ de: "Exportieren als", en: "Export as" })}</DropdownMenuLabel>
+                                                            {exportOptions.map((option) => (
+                                                                <DropdownMenuItem key={option.format} onClick={() => handleExport(book.id, option.format)}>
+                                                                    {option.label}
+                                                                </DropdownMenuItem>
+                                                            ))}
+                                                        </DropdownMenuContent>
+                                                    </DropdownMenu>
                                                     <Button
                                                         variant="secondary"
                                                         size="icon"
@@ -9,9 +9,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useI18n } from "@/components/locale-provider";
+import { aiProviderOptions, type AIProvider } from "@/lib/ai/types";
 
 type GlobalSettings = {
     id: string;
+    provider: string;
     apiEndpoint: string;
     apiKey: string | null;
     hasApiKey: boolean;
@@ -42,6 +44,7 @@ export default function SettingsPage() {
     const [error, setError] = useState<string | null>(null);
 
     // Form state
+    const [provider, setProvider] = useState<AIProvider>("openai");
     const [apiEndpoint, setApiEndpoint] = useState("");
     const [apiKey, setApiKey] = useState("");
     const [model, setModel] = useState("");
@@ -57,6 +60,7 @@ export default function SettingsPage() {
                 if (response.ok) {
                     const data = await response.json();
                     setSettings(data);
+                    setProvider(data.provider);
                     setApiEndpoint(data.apiEndpoint);
                     setModel(data.model);
                     setTemperature(data.temperature);
@@ -73,6 +77,17 @@ export default function SettingsPage() {
         loadSettings();
     }, [t]);
 
+    const providerOption = aiProviderOptions.find((option) => option.value === provider);
+
+    // Switch the endpoint along with the provider unless the user entered a custom one
+    const handleProviderChange = (value: AIProvider) => {
+        const isDefaultEndpoint = !apiEndpoint || aiProviderOptions.some((option) => option.defaultEndpoint === apiEndpoint);
+        setProvider(value);
+        if (isDefaultEndpoint) {
+            setApiEndpoint(aiProviderOptions.find((option) => option.value === value)?.defaultEndpoint ?? apiEndpoint);
+        }
+    };
+
     const handleSave = async () => {
         setIsSaving(true);
         setError(null);
@@ -80,6 +95,7 @@ export default function SettingsPage() {
 
         try {
             const body: Record<string, unknown> = {
+                provider,
                 apiEndpoint,
                 model,
                 temperature,
@@ -145,25 +161,52 @@ export default function SettingsPage() {
                         </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                        {/* Provider */}
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Anbieter", en: "Provider" })}</label>
+                            <select
+                                value={provider}
+                                onChange={(e) => handleProviderChange(e.target.value as AIProvider)}
+                                className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+                            >
+                                {aiProviderOptions.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-muted-foreground">
+                                {t({
+                                    de: "OpenAI-kompatibel deckt auch LM Studio, vLLM, OpenRouter und ähnliche Dienste ab.",
+                                    en: "OpenAI-compatible also covers LM Studio, vLLM, OpenRouter and similar services.",
+                                })}
+                            </p>
+                        </div>
+
                         {/* API Endpoint */}
                         <div className="space-y-2">
                             <label className="text-sm font-medium">{t({ de: "API-Endpunkt", en: "API endpoint" })}</label>
                             <Input
                                 value={apiEndpoint}
                                 onChange={(e) => setApiEndpoint(e.target.value)}
-                                placeholder="https://api.openai.com/v1"
+                                placeholder={providerOption?.defaultEndpoint}
                             />
                             <p className="text-xs text-muted-foreground">
                                 {t({
-                                    de: "OpenAI-kompatible API-URL (z.B. OpenAI, Anthropic via Proxy, lokale LLMs)",
-                                    en: "OpenAI-compatible API URL (e.g., OpenAI, Anthropic via proxy, local LLMs)",
+                                    de: "Basis-URL der API des gewählten Anbieters",
+                                    en: "Base URL of the selected provider's API",
                                 })}
                             </p>
                         </div>
 
                         {/* API Key */}
                         <div className="space-y-2">
-                            <label className="text-sm font-medium">{t({ de: "API-Schlüssel", en: "API key" })}</label>
+                            <label className="text-sm font-medium">
+                                {t({ de: "API-Schlüssel", en: "API key" })}
+                                {providerOption?.requiresApiKey === false && (
+                                    <span className="ml-1 font-normal text-muted-foreground">{t({ de: "(optional)", en: "(optional)" })}</span>
+                                )}
+                            </label>
                             <div className="relative">
                                 <Input
                                     type={showApiKey ? "text" : "password"}
@@ -0,0 +1,364 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Mark, mergeAttributes, type Editor } from "@tiptap/react";
+import { BubbleMenu } from "@tiptap/react/menus";
+import { Check, Loader2, Sparkles, Square, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/components/locale-provider";
+import { TRACK_CHANGES_META } from "@/components/editor/TrackChangesMenu";
+import {
+    selectionTones,
+    type SelectionAction,
+    type SelectionRequest,
+    type SelectionTone,
+} from "@/lib/ai/selection-actions";
+
+// Paragraphs before and after the selection that are sent along as context
+const CONTEXT_PARAGRAPHS = 3;
+
+// Marks AI-written text until it is accepted or rejected; never parsed back from saved HTML
+export const AISuggestion = Mark.create({
+    name: "aiSuggestion",
+    inclusive: false,
+
+    parseHTML() {
+        return [];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ["span", mergeAttributes(HTMLAttributes, { class: "ai-suggestion" }), 0];
+    },
+});
+
+type Slice = ReturnType<Editor["state"]["doc"]["slice"]>;
+
+type Suggestion = {
+    // Document right after the insertion; as long as it is unchanged, undo restores the original exactly
+    doc: Editor["state"]["doc"];
+    original: Slice;
+    originalText: string;
+};
+
+type Status = "idle" | "loading" | "review";
+
+type Options = {
+    bookId: string;
+    chapterId?: string;
+    // Called when a suggestion is pending (the editor content must not be saved) and when it is settled
+    onPendingChange: (pending: boolean) => void;
+};
+
+function lastParagraphs(text: string) {
+    return text.split(/\n\n+/).slice(-CONTEXT_PARAGRAPHS).join("\n\n");
+}
+
+function firstParagraphs(text: string) {
+    return text.split(/\n\n+/).slice(0, CONTEXT_PARAGRAPHS).join("\n\n");
+}
+
+// A single-paragraph answer for a selection inside one paragraph is inserted inline
+function unwrapParagraph(html: string) {
+    const match = /^<p>([\s\S]*)<\/p>$/.exec(html.trim());
+    return match && !/<\/?p[\s>]/i.test(match[1]) ? match[1] : html;
+}
+
+// Text range currently carrying the suggestion mark
+function findSuggestionRange(editor: Editor) {
+    let from = -1;
+    let to = -1;
+    editor.state.doc.descendants((node, pos) => {
+        if (node.isText && node.marks.some((mark) => mark.type.name === "aiSuggestion")) {
+            if (from < 0) from = pos;
+            to = pos + node.nodeSize;
+        }
+    });
+    return from < 0 ? null : { from, to };
+}
+
+export function useAISelection(editor: Editor | null, { bookId, chapterId, onPendingChange }: Options) {
+    const { t } = useI18n();
+    const [status, setStatus] = useState<Status>("idle");
+    const [error, setError] = useState<string | null>(null);
+    const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+    // The bubble menu plugin reads its visibility from here, outside of React's render cycle
+    const statusRef = useRef<Status>("idle");
+    const abortRef = useRef<AbortController | null>(null);
+
+    const updateStatus = useCallback((next: Status) => {
+        statusRef.current = next;
+        setStatus(next);
+    }, []);
+
+    const run = useCallback(async (action: SelectionAction, tone?: SelectionTone) => {
+        if (!editor || statusRef.current !== "idle") return;
+
+        const { doc, selection } = editor.state;
+        const { from, to, empty, $from, $to } = selection;
+        if (empty && action !== "continue") return;
+
+        // Continuing writes after the selection and keeps it
+        const range = action === "continue" ? { from: to, to } : { from, to };
+        const inline = action !== "continue" && $from.sameParent($to) && $from.parent.isTextblock;
+        const request: SelectionRequest = {
+            chapterId,
+            action,
+            tone,
+            text: doc.textBetween(from, to, "\n\n"),
+            before: lastParagraphs(doc.textBetween(0, range.from, "\n\n")),
+            after: firstParagraphs(doc.textBetween(range.to, doc.content.size, "\n\n")),
+            inline,
+        };
+
+        // The document stays read-only until the answer arrives, so the range remains valid
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        updateStatus("loading");
+        onPendingChange(true);
+        editor.setEditable(false);
+
+        try {
+            const response = await fetch(`/api/books/${bookId}/ai/selection`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(request),
+                signal: controller.signal,
+            });
+            const data = await response.json().catch(() => ({}));
+            if (editor.isDestroyed) return;
+            editor.setEditable(true);
+
+            if (!response.ok || typeof data.text !== "string" || !data.text.trim()) {
+                setError(data.details || data.error || t({ de: "Die KI hat keinen Text geliefert.", en: "The AI returned no text." }));
+                updateStatus("idle");
+                onPendingChange(false);
+                return;
+            }
+
+            const original = editor.state.doc.slice(range.from, range.to);
+            const sizeBefore = editor.state.doc.content.size;
+            updateStatus("review");
+            // With track changes on, the replacement is attributed to the model
+            editor
+                .chain()
+                .setMeta(TRACK_CHANGES_META, { name: data.model || "AI", type: "ai" })
+                .insertContentAt(range, inline ? unwrapParagraph(data.text) : data.text)
+                .run();
+            const end = range.to + editor.state.doc.content.size - sizeBefore;
+
+            const markType = editor.schema.marks.aiSuggestion;
+            editor
+                .chain()
+                .command(({ tr }) => {
+                    tr.addMark(range.from, end, markType.create());
+                    tr.setMeta("addToHistory", false);
+                    return true;
+                })
+                .setTextSelection({ from: range.from, to: end })
+                .run();
+
+            setSuggestion({ doc: editor.state.doc, original, originalText: request.text });
+        } catch (err) {
+            if (editor.isDestroyed) return;
+            editor.setEditable(true);
+            updateStatus("idle");
+            onPendingChange(false);
+            if (!controller.signal.aborted) {
+                console.error("Error editing selection:", err);
+                setError(t({ de: "Die KI-Bearbeitung ist fehlgeschlagen.", en: "AI editing failed." }));
+            }
+        } finally {
+            abortRef.current = null;
+        }
+    }, [editor, bookId, chapterId, onPendingChange, t, updateStatus]);
+
+    const cancel = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
+
+    const accept = useCallback(() => {
+        if (!editor || !suggestion) return;
+        updateStatus("idle");
+        editor
+            .chain()
+            .command(({ tr }) => {
+                tr.removeMark(0, tr.doc.content.size, editor.schema.marks.aiSuggestion);
+                tr.setMeta("addToHistory", false);
+                return true;
+            })
+            .setTextSelection(editor.state.selection.to)
+            .focus()
+            .run();
+        setSuggestion(null);
+        onPendingChange(false);
+    }, [editor, suggestion, onPendingChange, updateStatus]);
+
+    const reject = useCallback(() => {
+        if (!editor || !suggestion) return;
+        updateStatus("idle");
+        if (editor.state.doc === suggestion.doc) {
+            editor.chain().undo().focus().run();
+        } else {
+            // Edited in the meantime: swap whatever still carries the mark for the original text
+            const range = findSuggestionRange(editor);
+            if (range) {
+                editor
+                    .chain()
+                    .setMeta(TRACK_CHANGES_META, false)
+                    .command(({ tr }) => {
+                        tr.replace(range.from, range.to, suggestion.original);
+                        return true;
+                    })
+                    .focus()
+                    .run();
+            }
+        }
+        setSuggestion(null);
+        onPendingChange(false);
+    }, [editor, suggestion, onPendingChange, updateStatus]);
+
+    const clearError = useCallback(() => setError(null), []);
+
+    // Escape rejects a pending suggestion
+    useEffect(() => {
+        if (status !== "review") return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") {
+                e.preventDefault();
+                reject();
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [status, reject]);
+
+    // Abort a running request when the editor goes away
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    return { status, statusRef, error, suggestion, run, cancel, accept, reject, clearError };
+}
+
+export type AISelectionController = ReturnType<typeof useAISelection>;
+
+type Props = {
+    editor: Editor;
+    ai: AISelectionController;
+};
+
+export default function AISelectionMenu({ editor, ai }: Props) {
+    const { t } = useI18n();
+    const [showTones, setShowTones] = useState(false);
+    const { statusRef } = ai;
+
+    const actions: Array<{ action: Exclude<SelectionAction, "tone">; label: string }> = [
+        { action: "rewrite", label: t({ de: "Umformulieren", en: "Rewrite" }) },
+        { action: "shorten", label: t({ de: "Kürzen", en: "Shorten" }) },
+        { action: "expand", label: t({ de: "Erweitern", en: "Expand" }) },
+        { action: "showDontTell", label: t({ de: "Zeigen statt erzählen", en: "Show, don't tell" }) },
+        { action: "continue", label: t({ de: "Weiterschreiben", en: "Continue" }) },
+    ];
+
+    const toneLabels: Record<SelectionTone, string> = {
+        formal: t({ de: "Förmlich", en: "Formal" }),
+        casual: t({ de: "Locker", en: "Casual" }),
+        dramatic: t({ de: "Dramatisch", en: "Dramatic" }),
+        humorous: t({ de: "Humorvoll", en: "Humorous" }),
+        dark: t({ de: "Düster", en: "Dark" }),
+        poetic: t({ de: "Poetisch", en: "Poetic" }),
+    };
+
+    const shouldShow = useCallback(
+        ({ editor, from, to }: { editor: Editor; from: number; to: number }) =>
+            statusRef.current !== "idle" || (from !== to && editor.isEditable),
+        [statusRef],
+    );
+
+    const runAction = (action: SelectionAction, tone?: SelectionTone) => {
+        setShowTones(false);
+        ai.run(action, tone);
+    };
+
+    // Keep the editor selection (and focus) while clicking inside the menu
+    const keepSelection = (e: React.MouseEvent) => e.preventDefault();
+
+    return (
+        <BubbleMenu
+            editor={editor}
+            pluginKey="aiSelectionMenu"
+            shouldShow={shouldShow}
+            options={{ placement: "top", offset: 8 }}
+            className="relative z-50 max-w-md bg-background border rounded-lg shadow-lg p-1 text-sm"
+            onMouseDown={keepSelection}
+        >
+            {ai.status === "loading" && (
+                <div className="flex items-center gap-2 px-2 py-1">
+                    <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                    <span className="text-muted-foreground">{t({ de: "KI schreibt …", en: "AI is writing …" })}</span>
+                    <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={ai.cancel}>
+                        <Square className="h-3 w-3 mr-1" />
+                        {t({ de: "Stopp", en: "Stop" })}
+                    </Button>
+                </div>
+            )}
+
+            {ai.status === "review" && ai.suggestion && (
+                <div className="space-y-1">
+                    <div className="flex items-center gap-1">
+                        <Button type="button" size="sm" className="h-7 px-2" onClick={ai.accept}>
+                            <Check className="h-3.5 w-3.5 mr-1" />
+                            {t({ de: "Übernehmen", en: "Accept" })}
+                        </Button>
+                        <Button type="button" variant="outline" size="sm" className="h-7 px-2" onClick={ai.reject}>
+                            <X className="h-3.5 w-3.5 mr-1" />
+                            {t({ de: "Verwerfen", en: "Reject" })}
+                        </Button>
+                        <span className="px-1 text-xs text-muted-foreground">{t({ de: "Esc verwirft", en: "Esc rejects" })}</span>
+                    </div>
+                    {ai.suggestion.originalText && (
+                        <p className="px-2 pb-1 text-xs text-muted-foreground line-clamp-3">
+                            {t({ de: "Vorher", en: "Before" })}: <span className="line-through">{ai.suggestion.originalText}</span>
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {ai.status === "idle" && (
+                <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-0.5">
+                        <Sparkles className="h-4 w-4 mx-1 text-primary" />
+                        {actions.slice(0, 3).map(({ action, label }) => (
+                            <Button key={action} type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => runAction(action)}>
+                                {label}
+                            </Button>
+                        ))}
+                        <Button
+                            type="button"
+                            variant={showTones ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-7 px-2"
+                            onClick={() => setShowTones(!showTones)}
+                        >
+                            {t({ de: "Ton ändern", en: "Change tone" })}
+                        </Button>
+                        {actions.slice(3).map(({ action, label }) => (
+                            <Button key={action} type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => runAction(action)}>
+                                {label}
+                            </Button>
+                        ))}
+                    </div>
+                    {showTones && (
+                        <div className="flex flex-wrap items-center gap-0.5 border-t pt-1">
+                            {selectionTones.map((tone) => (
+                                <Button key={tone} type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => runAction("tone", tone)}>
+                                    {toneLabels[tone]}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </BubbleMenu>
+    );
+}
@@ -7,16 +7,20 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useI18n } from "@/components/locale-provider";
+import { aiProviderOptions, type AIProvider } from "@/lib/ai/types";
 
 type AISettings = {
     id: string;
     bookId: string;
+    provider: string;
     apiEndpoint: string;
     apiKey: string | null;
     model: string;
     temperature: number;
     maxTokens: number;
     systemPrompt: string | null;
+    contextWindow: number | null;
+    verbatimChapters: number;
 };
 
 interface AISettingsFormProps {
@@ -43,6 +47,9 @@ export default function AISettingsForm({
     onSave,
 }: AISettingsFormProps) {
     const { t } = useI18n();
+    const [provider, setProvider] = useState<AIProvider>(
+        (initialSettings?.provider as AIProvider) || "openai"
+    );
     const [apiEndpoint, setApiEndpoint] = useState(
         initialSettings?.apiEndpoint || "https://api.openai.com/v1"
     );
@@ -57,6 +64,12 @@ export default function AISettingsForm({
     const [systemPrompt, setSystemPrompt] = useState(
         initialSettings?.systemPrompt || ""
     );
+    const [contextWindow, setContextWindow] = useState(
+        initialSettings?.contextWindow ? String(initialSettings.contextWindow) : ""
+    );
+    const [verbatimChapters, setVerbatimChapters] = useState(
+        initialSettings?.verbatimChapters ?? 2
+    );
     const [showApiKey, setShowApiKey] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -64,6 +77,17 @@ export default function AISettingsForm({
 
     const hasExistingKey = initialSettings?.apiKey !== null;
 
+    const providerOption = aiProviderOptions.find((option) => option.value === provider);
+
+    // Switch the endpoint along with the provider unless the user entered a custom one
+    const handleProviderChange = (value: AIProvider) => {
+        const isDefaultEndpoint = !apiEndpoint || aiProviderOptions.some((option) => option.defaultEndpoint === apiEndpoint);
+        setProvider(value);
+        if (isDefaultEndpoint) {
+            setApiEndpoint(aiProviderOptions.find((option) => option.value === value)?.defaultEndpoint ?? apiEndpoint);
+        }
+    };
+
     const handleSave = async () => {
         setIsSaving(true);
         setError(null);
@@ -71,11 +95,14 @@ export default function AISettingsForm({
 
         try {
             const body: Record<string, unknown> = {
+                provider,
                 apiEndpoint,
                 model,
                 temperature,
                 maxTokens,
                 systemPrompt: systemPrompt || null,
+                contextWindow: parseInt(contextWindow) > 0 ? parseInt(contextWindow) : null,
+                verbatimChapters,
             };
 
             // Only include API key if it's been changed
@@ -119,25 +146,52 @@ export default function AISettingsForm({
                     </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                    {/* Provider */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Anbieter", en: "Provider" })}</label>
+                        <select
+                            value={provider}
+                            onChange={(e) => handleProviderChange(e.target.value as AIProvider)}
+                            className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+                        >
+                            {aiProviderOptions.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-muted-foreground">
+                            {t({
+                                de: "OpenAI-kompatibel deckt auch LM Studio, vLLM, OpenRouter und ähnliche Dienste ab.",
+                                en: "OpenAI-compatible also covers LM Studio, vLLM, OpenRouter and similar services.",
+                            })}
+                        </p>
+                    </div>
+
                     {/* API Endpoint */}
                     <div className="space-y-2">
                         <label className="text-sm font-medium">{t({ de: "API-Endpunkt", en: "API endpoint" })}</label>
                         <Input
                             value={apiEndpoint}
                             onChange={(e) => setApiEndpoint(e.target.value)}
-                            placeholder="https://api.openai.com/v1"
+                            placeholder={providerOption?.defaultEndpoint}
                         />
                         <p className="text-xs text-muted-foreground">
                             {t({
-                                de: "OpenAI-kompatible API-URL (z.B. OpenAI, Anthropic via Proxy, lokale LLMs)",
-                                en: "OpenAI-compatible API URL (e.g., OpenAI, Anthropic via proxy, local LLMs)",
+                                de: "Basis-URL der API des gewählten Anbieters",
+                                en: "Base URL of the selected provider's API",
                             })}
                         </p>
                     </div>
 
                     {/* API Key */}
                     <div className="space-y-2">
-                        <label className="text-sm font-medium">{t({ de: "API-Schlüssel", en: "API key" })}</label>
+                        <label className="text-sm font-medium">
+                            {t({ de: "API-Schlüssel", en: "API key" })}
+                            {providerOption?.requiresApiKey === false && (
+                                <span className="ml-1 font-normal text-muted-foreground">{t({ de: "(optional)", en: "(optional)" })}</span>
+                            )}
+                        </label>
                         <div className="relative">
                             <Input
                                 type={showApiKey ? "text" : "password"}
@@ -245,6 +299,48 @@ export default function AISettingsForm({
                             {t({ de: "Maximale Länge der generierten Antwort", en: "Maximum length of the generated response" })}
                         </p>
                     </div>
+
+                    {/* Context Window */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Kontextfenster (Tokens)", en: "Context window (tokens)" })}</label>
+                        <Input
+                            type="number"
+                            min={1024}
+                            step={1024}
+                            value={contextWindow}
+                            onChange={(e) => setContextWindow(e.target.value)}
+                            placeholder={t({ de: "Automatisch anhand des Modells", en: "Automatic based on the model" })}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            {t({
+                                de: "Nur nötig für unbekannte oder lokale Modelle. Bestimmt, wie viel vom bisherigen Buch in den Kontext passt.",
+                                en: "Only needed for unknown or local models. Determines how much of the book so far fits into the context.",
+                            })}
+                        </p>
+                    </div>
+
+                    {/* Verbatim Chapters */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium">{t({ de: "Vollständige Vorkapitel", en: "Full previous chapters" })}</label>
+                            <span className="text-sm text-muted-foreground">{verbatimChapters}</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="10"
+                            step="1"
+                            value={verbatimChapters}
+                            onChange={(e) => setVerbatimChapters(parseInt(e.target.value))}
+                            className="w-full"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            {t({
+                                de: "So viele der letzten Kapitel gehen im Volltext in den Kontext, ältere nur als Zusammenfassung.",
+                                en: "This many of the most recent chapters go into the context in full, older ones only as summaries.",
+                            })}
+                        </p>
+                    </div>
                 </CardContent>
             </Card>
 
@@ -24,6 +24,7 @@ import {
   LayoutGrid,
   GitBranch,
   Link2,
+  CalendarClock,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -39,9 +40,15 @@ import CharacterRelationshipGraph from "@/components/editor/CharacterRelationshi
 import GlobalSearch from "@/components/editor/GlobalSearch";
 import OverviewTab from "@/components/editor/OverviewTab";
 import ChapterTab from "@/components/editor/ChapterTab";
+import type { ChapterChanges } from "@/components/editor/Corkboard";
 import PlotTab from "@/components/editor/PlotTab";
+import TimelineTab from "@/components/editor/TimelineTab";
 import WorldTab from "@/components/editor/WorldTab";
 import { useI18n } from "@/components/locale-provider";
+import type { RelationChange } from "@/lib/relation-history";
+import type { SceneData } from "@/lib/scenes";
+import { templatesByType } from "@/lib/world-fields";
+import type { WorldLinkData } from "@/lib/world-links";
 
 type Chapter = {
   id: string;
@@ -49,6 +56,12 @@ type Chapter = {
   orderIndex: number;
   status: string;
   wordCount: number;
+  summary: string | null;
+  summaryStale: boolean;
+  act: number | null;
+  chapterCharacters: { characterId: string }[];
+  chapterPlotPoints: { plotPointId: string }[];
+  scenes: SceneData[];
 };
 
 type CharacterRelation = {
@@ -61,11 +74,14 @@ type CharacterRelation = {
     role: string;
     imageUrl: string | null;
   };
+  changes?: RelationChange[];
 };
 
 type Character = {
   id: string;
   name: string;
+  aliases: string | null;
+  pronouns: string | null;
   role: string;
   description: string | null;
   personality: string | null;
@@ -75,6 +91,7 @@ type Character = {
   arc: string | null;
   notes: string | null;
   imageUrl: string | null;
+  deathChapterId: string | null;
   relationsFrom?: CharacterRelation[];
   relationsTo?: Array<{
     id: string;
@@ -90,17 +107,7 @@ type Character = {
 };
 
 type CharacterWithRelations = Character & {
-  relationsFrom: Array<{
-    id: string;
-    relationType: string;
-    description: string | null;
-    relatedCharacter: {
-      id: string;
-      name: string;
-      role: string;
-      imageUrl: string | null;
-    };
-  }>;
+  relationsFrom: CharacterRelation[];
 };
 
 type PlotPoint = {
@@ -117,17 +124,22 @@ type WorldElement = {
   type: string;
   description: string | null;
   imageUrl: string | null;
+  parentId: string | null;
+  fields: string;
 };
 
 type AISettings = {
   id: string;
   bookId: string;
+  provider: string;
   apiEndpoint: string;
   apiKey: string | null;
   model: string;
   temperature: number;
   maxTokens: number;
   systemPrompt: string | null;
+  contextWindow: number | null;
+  verbatimChapters: number;
 } | null;
 
 type Book = {
@@ -141,10 +153,13 @@ type Book = {
   language: string;
   coverUrl: string | null;
   hideCoverText: boolean;
+  autoDetectPresence: boolean;
   chapters: Chapter[];
   characters: Character[];
   plotPoints: PlotPoint[];
   worldElements: WorldElement[];
+  worldLinks: WorldLinkData[];
+  worldFieldTemplates: { type: string; fields: string }[];
   aiSettings: AISettings;
 };
 
@@ -152,7 +167,7 @@ type Props = {
   book: Book;
 };
 
-type Tab = "overview" | "chapters" | "characters" | "plot" | "world" | "preview" | "settings";
+type Tab = "overview" | "chapters" | "characters" | "plot" | "timeline" | "world" | "preview" | "settings";
 
 export default function BookEditorLayout({ book: initialBook }: Props) {
   const { t, intlLocale } = useI18n();
@@ -209,40 +224,118 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
     if (!result.destination) return;
     if (result.source.index === result.destination.index) return;
 
-    const reorderedChapters = Array.from(book.chapters);
-    const [removed] = reorderedChapters.splice(result.source.index, 1);
-    reorderedChapters.splice(result.destination.index, 0, removed);
+    const chapterIds = book.chapters.map((ch) => ch.id);
+    const [removed] = chapterIds.splice(result.source.index, 1);
+    chapterIds.splice(result.destination.index, 0, removed);
 
-    // Update order indexes locally
-    const updatedChapters = reorderedChapters.map((ch, idx) => ({
-      ...ch,
-      orderIndex: idx,
-    }));
+    await saveChapterOrder(chapterIds);
+  };
 
-    // Optimistic update
-    setBook((prev) => ({ ...prev, chapters: updatedChapters }));
+  const saveChapterOrder = async (chapterIds: string[]) => {
+    const previousChapters = book.chapters;
+
+    // Optimistic update, with order indexes following the new order
+    setBook((prev) => ({
+      ...prev,
+      chapters: chapterIds
+        .map((id) => prev.chapters.find((ch) => ch.id === id))
+        .filter((ch): ch is Chapter => !!ch)
+        .map((ch, idx) => ({ ...ch, orderIndex: idx })),
+    }));
 
     // Save to API
     try {
       await fetch(`/api/books/${book.id}/chapters`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          chapterIds: updatedChapters.map((ch) => ch.id),
-        }),
+        body: JSON.stringify({ chapterIds }),
       });
     } catch (error) {
       console.error("Error reordering chapters:", error);
       // Revert on error
-      setBook((prev) => ({ ...prev, chapters: book.chapters }));
+      setBook((prev) => ({ ...prev, chapters: previousChapters }));
+    }
+  };
+
+  // Inline edits from the corkboard
+  const handleChapterUpdate = async (chapterId: string, changes: ChapterChanges) => {
+    const previousChapters = book.chapters;
+
+    setBook((prev) => ({
+      ...prev,
+      chapters: prev.chapters.map((ch) => {
+        if (ch.id !== chapterId) return ch;
+        const { characterIds, plotPointIds, ...fields } = changes;
+        return {
+          ...ch,
+          ...fields,
+          ...(characterIds && { chapterCharacters: characterIds.map((characterId) => ({ characterId })) }),
+          ...(plotPointIds && { chapterPlotPoints: plotPointIds.map((plotPointId) => ({ plotPointId })) }),
+        };
+      }),
+    }));
+
+    try {
+      const response = await fetch(`/api/books/${book.id}/chapters/${chapterId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) throw new Error("Failed to update chapter");
+    } catch (error) {
+      console.error("Error updating chapter:", error);
+      setBook((prev) => ({ ...prev, chapters: previousChapters }));
+    }
+  };
+
+  // Moving a scene rewrites the text of both chapters; word counts come back with the reload
+  const handleSceneMove = async (sceneId: string, chapterId: string, index: number) => {
+    const previousChapters = book.chapters;
+    const scene = previousChapters.flatMap((ch) => ch.scenes).find((s) => s.id === sceneId);
+    if (!scene) return;
+
+    // Optimistic update
+    const movedScene = { ...scene, chapterId };
+    setBook((prev) => ({
+      ...prev,
+      chapters: prev.chapters.map((ch) => {
+        const scenes = ch.scenes.filter((s) => s.id !== sceneId);
+        if (ch.id === chapterId) scenes.splice(index, 0, movedScene);
+        return { ...ch, scenes };
+      }),
+    }));
+
+    try {
+      const response = await fetch(`/api/books/${book.id}/scenes/${sceneId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chapterId, index }),
+      });
+      if (!response.ok) throw new Error("Failed to move scene");
+      await reloadChapters();
+    } catch (error) {
+      console.error("Error moving scene:", error);
+      // Revert on error
+      setBook((prev) => ({ ...prev, chapters: previousChapters }));
     }
   };
 
+  const handleSceneSave = (savedScene: SceneData) => {
+    setBook((prev) => ({
+      ...prev,
+      chapters: prev.chapters.map((ch) => ({
+        ...ch,
+        scenes: ch.scenes.map((s) => (s.id === savedScene.id ? savedScene : s)),
+      })),
+    }));
+  };
+
   const handleCharacterSave = (savedCharacter: Character) => {
     if (editingCharacter) {
       setBook((prev) => ({
         ...prev,
-        characters: prev.characters.map((c) => (c.id === savedCharacter.id ? savedCharacter : c)),
+        // The form's response carries no relations, keep the loaded ones
+        characters: prev.characters.map((c) => (c.id === savedCharacter.id ? { ...c, ...savedCharacter } : c)),
       }));
     } else {
       setBook((prev) => ({
@@ -254,6 +347,24 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
     setEditingCharacter(null);
   };
 
+  // Relations show up on both characters of a pair, so all of them are reloaded
+  const handleRelationsSave = async () => {
+    try {
+      const response = await fetch(`/api/books/${book.id}/characters`);
+      if (!response.ok) return;
+      const characters: Character[] = await response.json();
+      setBook((prev) => ({
+        ...prev,
+        characters: prev.characters.map((c) => {
+          const loaded = characters.find((item) => item.id === c.id);
+          return loaded ? { ...c, relationsFrom: loaded.relationsFrom, relationsTo: loaded.relationsTo } : c;
+        }),
+      }));
+    } catch (error) {
+      console.error("Failed to reload relations:", error);
+    }
+  };
+
   const handleCharacterDelete = async (characterId: string) => {
     if (!confirm(t({ de: "Möchtest du diesen Charakter wirklich löschen?", en: "Do you really want to delete this character?" }))) return;
     try {
@@ -263,6 +374,7 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
       setBook((prev) => ({
         ...prev,
         characters: prev.characters.filter((c) => c.id !== characterId),
+        worldLinks: prev.worldLinks.filter((link) => link.fromCharacterId !== characterId),
       }));
     } catch (error) {
       console.error("Error deleting character:", error);
@@ -322,20 +434,42 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
       await fetch(`/api/books/${book.id}/world/${worldElementId}`, {
         method: "DELETE",
       });
-      setBook((prev) => ({
-        ...prev,
-        worldElements: prev.worldElements.filter((w) => w.id !== worldElementId),
-      }));
+      // Children move up to the deleted element's parent, its links go with it
+      setBook((prev) => {
+        const parentId = prev.worldElements.find((w) => w.id === worldElementId)?.parentId ?? null;
+        return {
+          ...prev,
+          worldElements: prev.worldElements
+            .filter((w) => w.id !== worldElementId)
+            .map((w) => (w.parentId === worldElementId ? { ...w, parentId } : w)),
+          worldLinks: prev.worldLinks.filter(
+            (link) => link.fromElementId !== worldElementId && link.toElementId !== worldElementId
+          ),
+        };
+      });
     } catch (error) {
       console.error("Error deleting world element:", error);
     }
   };
 
+  // Replace-all and scene moves rewrite chapters on the server; pull their new titles, word counts and scenes
+  const reloadChapters = async () => {
+    try {
+      const res = await fetch(`/api/books/${book.id}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setBook((prev) => ({ ...prev, chapters: data.chapters }));
+    } catch (error) {
+      console.error("Error reloading chapters:", error);
+    }
+  };
+
   const tabs: { id: Tab; label: string; icon: typeof BookOpen }[] = [
     { id: "overview", label: t({ de: "Übersicht", en: "Overview" }), icon: BookOpen },
     { id: "chapters", label: t({ de: "Kapitel", en: "Chapters" }), icon: FileText },
     { id: "characters", label: t({ de: "Charaktere", en: "Characters" }), icon: Users },
     { id: "plot", label: t({ de: "Handlung", en: "Plot" }), icon: Map },
+    { id: "timeline", label: t({ de: "Zeitleiste", en: "Timeline" }), icon: CalendarClock },
     { id: "world", label: t({ de: "Welt", en: "World" }), icon: Globe },
     { id: "preview", label: t({ de: "Vorschau", en: "Preview" }), icon: Eye },
     { id: "settings", label: t({ de: "Einstellungen", en: "Settings" }), icon: Settings },
@@ -424,6 +558,7 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
         <div className="px-4 py-3 border-t border-border/50 bg-secondary/20">
           <GlobalSearch
             bookId={book.id}
+            onReplaced={reloadChapters}
             onNavigateToChapter={(chapterId) => {
               router.push(`/books/${book.id}/chapter/${chapterId}` as Route);
             }}
@@ -505,7 +640,14 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
                 <ChapterTab
                   bookId={book.id}
                   chapters={book.chapters}
+                  characters={book.characters}
+                  plotPoints={book.plotPoints}
+                  worldElements={book.worldElements}
                   onReorder={handleChapterReorder}
+                  onReorderChapters={saveChapterOrder}
+                  onUpdateChapter={handleChapterUpdate}
+                  onMoveScene={handleSceneMove}
+                  onSceneSave={handleSceneSave}
                   onCreate={handleCreateChapter}
                   isCreating={isCreatingChapter}
                 />
@@ -550,7 +692,11 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
 
                   {characterViewMode === "graph" ? (
                     <Card className="h-[600px] overflow-hidden border-border/50 shadow-inner bg-card/30">
-                      <CharacterRelationshipGraph characters={book.characters as any} onNodeClick={handleCharacterNodeClick} />
+                      <CharacterRelationshipGraph
+                        characters={book.characters as any}
+                        chapters={book.chapters}
+                        onNodeClick={handleCharacterNodeClick}
+                      />
                     </Card>
                   ) : (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -646,9 +792,14 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
                 />
               )}
 
+              {activeTab === "timeline" && <TimelineTab bookId={book.id} />}
+
               {activeTab === "world" && (
                 <WorldTab
+                  bookId={book.id}
                   worldElements={book.worldElements}
+                  worldLinks={book.worldLinks}
+                  characters={book.characters}
                   onEdit={(element) => {
                     setEditingWorldElement(element);
                     setShowWorldForm(true);
@@ -700,6 +851,7 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
         <CharacterForm
           bookId={book.id}
           character={editingCharacter || undefined}
+          chapters={book.chapters}
           onSave={handleCharacterSave}
           onCancel={() => {
             setShowCharacterForm(false);
@@ -710,12 +862,14 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
 
       {showRelationModal && editingRelationsCharacter && (
         <CharacterRelationModal
-          open={showRelationModal}
-          onOpenChange={setShowRelationModal}
           character={editingRelationsCharacter}
           allCharacters={book.characters}
-          onSave={() => {
+          chapters={book.chapters}
+          bookId={book.id}
+          onSave={handleRelationsSave}
+          onClose={() => {
             setShowRelationModal(false);
+            setEditingRelationsCharacter(null);
           }}
         />
       )}
@@ -736,6 +890,20 @@ export default function BookEditorLayout({ book: initialBook }: Props) {
         <WorldElementForm
           bookId={book.id}
           worldElement={editingWorldElement || undefined}
+          worldElements={book.worldElements}
+          worldLinks={book.worldLinks}
+          characters={book.characters}
+          onLinksChange={(worldLinks) => setBook((prev) => ({ ...prev, worldLinks }))}
+          fieldTemplates={templatesByType(book.worldFieldTemplates)}
+          onTemplateChange={(type, fields) =>
+            setBook((prev) => ({
+              ...prev,
+              worldFieldTemplates: [
+                ...prev.worldFieldTemplates.filter((template) => template.type !== type),
+                ...(fields.length > 0 ? [{ type, fields: JSON.stringify(fields) }] : []),
+              ],
+            }))
+          }
           onSave={handleWorldElementSave}
           onCancel={() => {
             setShowWorldForm(false);
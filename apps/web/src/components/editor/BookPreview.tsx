@@ -1,22 +1,20 @@
 "use client";
 
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
-import { ChevronLeft, ChevronRight, Maximize2, Minimize2, Loader2, Download, Book, FileText } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, Maximize2, Minimize2, Loader2, Download, Book, FileText, MessageSquare } from "lucide-react";
+import { cn, toRomanNumerals } from "@/lib/utils";
+import type { DocxExportOptions } from "@/lib/export/docx-options";
+import { cleanSceneBreaks } from "@/lib/scenes";
+import { acceptTrackedChangesHtml } from "@/lib/track-changes";
 import { Button } from "@/components/ui/button";
-import { toJpeg } from "html-to-image";
-import { jsPDF } from "jspdf";
-import JSZip from "jszip";
 import {
-    Document,
-    Packer,
-    Paragraph,
-    TextRun,
-    HeadingLevel,
-    AlignmentType,
-    PageBreak,
-    ImageRun,
-} from "docx";
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import EpubExportDialog from "@/components/editor/EpubExportDialog";
+import PdfExportDialog from "@/components/editor/PdfExportDialog";
 
 interface Chapter {
     id: string;
@@ -47,13 +45,12 @@ export default function BookPreview({
     className,
 }: BookPreviewProps) {
     const [currentPage, setCurrentPage] = useState(0);
-    const [isFullscreen, setIsFullscreen] = useState(true); // Start in fullscreen for better PDF export
+    const [isFullscreen, setIsFullscreen] = useState(true);
     const [loadedContent, setLoadedContent] = useState<Record<string, string>>({});
     const [loadingChapterId, setLoadingChapterId] = useState<string | null>(null);
-    const [isExporting, setIsExporting] = useState(false);
-    const [isExportingEpub, setIsExportingEpub] = useState(false);
+    const [showPdfDialog, setShowPdfDialog] = useState(false);
+    const [showEpubDialog, setShowEpubDialog] = useState(false);
     const [isExportingDocx, setIsExportingDocx] = useState(false);
-    const bookRef = useRef<HTMLDivElement>(null);
 
     // Track which chapters we've already fetched to prevent re-fetching
     const fetchedChaptersRef = useRef<Set<string>>(new Set());
@@ -164,7 +161,7 @@ export default function BookPreview({
             };
 
             // Split content into multiple pages
-            const chapterContent = loadedContent[chapter.id] || chapter.content;
+            const chapterContent = acceptTrackedChangesHtml(cleanSceneBreaks(loadedContent[chapter.id] || chapter.content));
             // Conservative limit to prevent text cutoff at page bottom
             const contentChunks = splitContentIntoPages(chapterContent, 1600);
 
@@ -245,795 +242,24 @@ export default function BookPreview({
 
     const isLoading = loadingChapterId === currentPageData?.chapterId;
 
-    const escapeXml = (value: string) =>
-        value
-            .replace(/&/g, "&amp;")
-            .replace(/</g, "&lt;")
-            .replace(/>/g, "&gt;")
-            .replace(/"/g, "&quot;")
-            .replace(/'/g, "&apos;");
-
-    const slugify = (value: string) => {
-        const slug = value.trim().replace(/[^a-zA-Z0-9]+/g, "_").replace(/^_+|_+$/g, "");
-        return slug || "book";
-    };
-
-    const resolveUrl = (src: string) => {
-        try {
-            return new URL(src, window.location.href).toString();
-        } catch {
-            return src;
-        }
-    };
-
-    const getMediaType = (contentType: string | null, src: string) => {
-        if (contentType && contentType.includes("/")) {
-            return contentType.split(";")[0];
-        }
-
-        const lowered = src.toLowerCase().split("?")[0];
-        if (lowered.endsWith(".png")) return "image/png";
-        if (lowered.endsWith(".gif")) return "image/gif";
-        if (lowered.endsWith(".webp")) return "image/webp";
-        if (lowered.endsWith(".svg")) return "image/svg+xml";
-        return "image/jpeg";
-    };
-
-    const getExtension = (mediaType: string, src: string) => {
-        if (mediaType.includes("png")) return ".png";
-        if (mediaType.includes("gif")) return ".gif";
-        if (mediaType.includes("webp")) return ".webp";
-        if (mediaType.includes("svg")) return ".svg";
-        if (mediaType.includes("jpeg")) return ".jpg";
-        if (mediaType.includes("jpg")) return ".jpg";
-
-        const match = src.toLowerCase().split("?")[0].match(/\.[a-z0-9]+$/);
-        return match ? match[0] : ".jpg";
-    };
-
-    // PDF Export function
-    const exportToPdf = async () => {
-        if (!bookRef.current || allPages.length === 0) return;
-
-        setIsExporting(true);
-        const originalPage = currentPage;
-
-        try {
-            // A4 dimensions in mm: 210 x 297
-            const pdf = new jsPDF({
-                orientation: 'portrait',
-                unit: 'mm',
-                format: 'a4',
-            });
-
-            const pageWidth = 210;
-            const pageHeight = 297;
-
-            // Calculate aspect ratio to fit A4 page without distortion (width priority)
-            // Original aspect ratio: 500 / 650 = 0.769
-            // A4 aspect ratio: 210 / 297 = 0.707
-            // We scale to fit width (210mm), height will be determined by ratio
-            // But we actually want to fill the page for a "book" feel, letting margins handle it.
-            // Since our source is "stubbier" than A4, stretching to full A4 height would distort verticality.
-            // Better to fit width and center vertically or just fill. 
-            // The user wants "A4 format", usually meaning "Make it big".
-            // Let's stick to full page fill for now but ensure padding prevents cutoff.
-
-            // Iterate through all pages
-            for (let i = 0; i < allPages.length; i++) {
-                setCurrentPage(i);
-
-                // Wait for content to render and fonts to load
-                await new Promise(resolve => setTimeout(resolve, 350)); // Slightly longer wait
-
-                if (bookRef.current) {
-                    try {
-                        const imgData = await toJpeg(bookRef.current, {
-                            quality: 0.98, // Higher quality
-                            backgroundColor: '#ffffff',
-                            pixelRatio: 3, // Higher resolution for A4
-                        });
-
-                        if (i > 0) {
-                            pdf.addPage();
-                        }
-
-                        pdf.addImage(imgData, 'JPEG', 0, 0, pageWidth, pageHeight);
-                    } catch (err) {
-                        console.error(`Error rendering page ${i}:`, err);
-                    }
-                }
-            }
-
-            // Save PDF
-            pdf.save(`${bookTitle.replace(/[^a-zA-Z0-9]/g, '_')}_A4.pdf`);
-
-        } catch (error) {
-            console.error('PDF export failed:', error);
-        } finally {
-            setCurrentPage(originalPage);
-            setIsExporting(false);
-        }
-    };
-
-    const exportToEpub = async () => {
-        if (isExporting || isExportingEpub || chapters.length === 0) return;
-
-        setIsExportingEpub(true);
-
-        try {
-            const orderedChapters = [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
-            const chapterEntries = await Promise.all(
-                orderedChapters.map(async (chapter) => {
-                    if (Object.prototype.hasOwnProperty.call(loadedContent, chapter.id)) {
-                        return { ...chapter, content: loadedContent[chapter.id] || "" };
-                    }
-
-                    if (chapter.content && chapter.content.trim()) {
-                        return chapter;
-                    }
-
-                    try {
-                        const response = await fetch(
-                            `/api/books/${bookId}/chapters/${chapter.id}`
-                        );
-                        if (response.ok) {
-                            const data = await response.json();
-                            const content = data.content || "";
-                            setLoadedContent((prev) => ({
-                                ...prev,
-                                [chapter.id]: content,
-                            }));
-                            return { ...chapter, content };
-                        }
-                    } catch (error) {
-                        console.error("Failed to fetch chapter for EPUB:", error);
-                    }
-
-                    return { ...chapter, content: chapter.content || "" };
-                })
-            );
-
-            type ImageAsset = { id: string; href: string; mediaType: string; data: ArrayBuffer };
-            const imageAssets: ImageAsset[] = [];
-            const imageBySrc = new Map<string, ImageAsset>();
-
-            const registerImage = async (
-                src: string,
-                nameHint: string,
-                idOverride?: string
-            ): Promise<ImageAsset | null> => {
-                if (!src || src.startsWith("data:")) return null;
-
-                const resolved = resolveUrl(src);
-                const existing = imageBySrc.get(resolved);
-                if (existing) return existing;
-
-                try {
-                    const response = await fetch(resolved);
-                    if (!response.ok) return null;
-
-                    const blob = await response.blob();
-                    const mediaType = getMediaType(
-                        blob.type || response.headers.get("content-type"),
-                        resolved
-                    );
-                    const extension = getExtension(mediaType, resolved);
-                    const safeName = slugify(nameHint) || `image-${imageAssets.length + 1}`;
-                    const href = `images/${safeName}${extension}`;
-                    const data = await blob.arrayBuffer();
-                    const asset = {
-                        id: idOverride ?? `img-${imageAssets.length + 1}`,
-                        href,
-                        mediaType,
-                        data,
-                    };
-
-                    imageAssets.push(asset);
-                    imageBySrc.set(resolved, asset);
-                    return asset;
-                } catch (error) {
-                    console.error("Failed to fetch image for EPUB:", error);
-                    return null;
-                }
-            };
-
-            const processHtml = async (html: string, chapterIndex: number) => {
-                if (typeof DOMParser === "undefined") {
-                    return html;
-                }
-
-                const parser = new DOMParser();
-                const doc = parser.parseFromString(html, "text/html");
-                const images = Array.from(doc.querySelectorAll("img"));
-
-                for (let imgIndex = 0; imgIndex < images.length; imgIndex += 1) {
-                    const img = images[imgIndex];
-                    const src = img.getAttribute("src");
-                    if (!src || src.startsWith("data:")) continue;
-
-                    const asset = await registerImage(
-                        src,
-                        `chapter-${chapterIndex + 1}-img-${imgIndex + 1}`
-                    );
-                    if (asset) {
-                        img.setAttribute("src", asset.href);
-                    }
-                }
-
-                const voidElements = new Set([
-                    "area",
-                    "base",
-                    "br",
-                    "col",
-                    "embed",
-                    "hr",
-                    "img",
-                    "input",
-                    "link",
-                    "meta",
-                    "param",
-                    "source",
-                    "track",
-                    "wbr",
-                ]);
-
-                const serializeNode = (node: ChildNode): string => {
-                    if (node.nodeType === Node.TEXT_NODE) {
-                        return escapeXml(node.nodeValue || "");
-                    }
-
-                    if (node.nodeType !== Node.ELEMENT_NODE) {
-                        return "";
-                    }
-
-                    const element = node as Element;
-                    const tagName = element.tagName.toLowerCase();
-                    const attributes = Array.from(element.attributes)
-                        .map((attr) => ` ${attr.name}="${escapeXml(attr.value)}"`)
-                        .join("");
-
-                    if (voidElements.has(tagName)) {
-                        return `<${tagName}${attributes} />`;
-                    }
-
-                    const children = Array.from(element.childNodes)
-                        .map(serializeNode)
-                        .join("");
-
-                    return `<${tagName}${attributes}>${children}</${tagName}>`;
-                };
-
-                return Array.from(doc.body.childNodes)
-                    .map(serializeNode)
-                    .join("");
-            };
-
-            const languageTag = (language || "de").trim() || "de";
-            const titleText = (bookTitle || "Book").trim() || "Book";
-            const authorText = (author || "").trim();
-
-            const zip = new JSZip();
-            zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
-
-            const metaInf = zip.folder("META-INF");
-            metaInf?.file(
-                "container.xml",
-                `<?xml version="1.0" encoding="UTF-8"?>
-<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
-  <rootfiles>
-    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
-  </rootfiles>
-</container>`
-            );
-
-            const oebps = zip.folder("OEBPS");
-            if (!oebps) {
-                throw new Error("Failed to initialize EPUB folder.");
-            }
-
-            const epubStyles = `
-body {
-    font-family: "Georgia", "Times New Roman", serif;
-    line-height: 1.6;
-    margin: 0;
-    padding: 1.5rem;
-    color: #111111;
-}
-
-h1, h2, h3, h4 {
-    font-weight: 700;
-    margin: 1.2em 0 0.6em;
-}
-
-p {
-    margin: 0 0 1em;
-    text-indent: 1.5em;
-}
-
-p:first-of-type {
-    text-indent: 0;
-}
-
-img {
-    max-width: 100%;
-    height: auto;
-}
-
-blockquote {
-    margin: 1em 2em;
-    padding-left: 1em;
-    border-left: 2px solid #999999;
-    color: #555555;
-}
-
-.cover {
-    text-align: center;
-}
-
-.cover-image img {
-    display: block;
-    max-width: 100%;
-    margin: 0 auto;
-}
-
-.cover-text {
-    margin-top: 2rem;
-}
-
-.cover-text h1 {
-    margin: 0 0 0.5rem;
-}
-
-.cover-text p {
-    margin: 0;
-    text-indent: 0;
-}
-`;
-
-            oebps.file("styles.css", epubStyles);
-
-            const coverAsset = coverUrl
-                ? await registerImage(coverUrl, "cover", "cover-image")
-                : null;
-
-            const chapterFiles: { id: string; href: string; title: string }[] = [];
-
-            for (let index = 0; index < chapterEntries.length; index += 1) {
-                const chapter = chapterEntries[index];
-                const chapterTitle = chapter.title?.trim() || `Kapitel ${index + 1}`;
-                const bodyHtml = await processHtml(chapter.content || "", index);
-                const chapterFile = `chapter-${index + 1}.xhtml`;
-                const chapterXhtml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" lang="${escapeXml(languageTag)}">
-<head>
-  <title>${escapeXml(chapterTitle)}</title>
-  <link rel="stylesheet" type="text/css" href="styles.css"/>
-</head>
-<body>
-  <section class="chapter">
-    <h1>${escapeXml(chapterTitle)}</h1>
-    ${bodyHtml}
-  </section>
-</body>
-</html>`;
-
-                oebps.file(chapterFile, chapterXhtml);
-                chapterFiles.push({
-                    id: `chapter-${index + 1}`,
-                    href: chapterFile,
-                    title: chapterTitle,
-                });
-            }
-
-            const coverTextBlock = authorText
-                ? `<div class="cover-text">
-  <h1>${escapeXml(titleText)}</h1>
-  <p>${escapeXml(authorText)}</p>
-</div>`
-                : `<div class="cover-text">
-  <h1>${escapeXml(titleText)}</h1>
-</div>`;
-
-            const coverBody = coverAsset
-                ? `<div class="cover-image">
-  <img src="${coverAsset.href}" alt="Cover"/>
-</div>${hideCoverText ? "" : coverTextBlock}`
-                : coverTextBlock;
-
-            const coverXhtml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" lang="${escapeXml(languageTag)}">
-<head>
-  <title>${escapeXml(titleText)}</title>
-  <link rel="stylesheet" type="text/css" href="styles.css"/>
-</head>
-<body class="cover">
-  ${coverBody}
-</body>
-</html>`;
-
-            oebps.file("cover.xhtml", coverXhtml);
-
-            const navItems = [
-                `<li><a href="cover.xhtml">Cover</a></li>`,
-                ...chapterFiles.map(
-                    (chapter) => `<li><a href="${chapter.href}">${escapeXml(chapter.title)}</a></li>`
-                ),
-            ].join("");
-
-            const navXhtml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(languageTag)}">
-<head>
-  <title>Inhalt</title>
-  <link rel="stylesheet" type="text/css" href="styles.css"/>
-</head>
-<body>
-  <nav epub:type="toc" id="toc">
-    <h1>Inhalt</h1>
-    <ol>
-      ${navItems}
-    </ol>
-  </nav>
-</body>
-</html>`;
-
-            oebps.file("nav.xhtml", navXhtml);
-
-            const navPoints = [
-                { id: "cover", href: "cover.xhtml", label: "Cover" },
-                ...chapterFiles.map((chapter) => ({
-                    id: chapter.id,
-                    href: chapter.href,
-                    label: chapter.title,
-                })),
-            ]
-                .map(
-                    (item, index) => `
-    <navPoint id="${item.id}" playOrder="${index + 1}">
-      <navLabel><text>${escapeXml(item.label)}</text></navLabel>
-      <content src="${item.href}"/>
-    </navPoint>`
-                )
-                .join("");
-
-            const tocNcx = `<?xml version="1.0" encoding="UTF-8"?>
-<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
-  <head>
-    <meta name="dtb:uid" content="${escapeXml(bookId)}"/>
-    <meta name="dtb:depth" content="1"/>
-    <meta name="dtb:totalPageCount" content="0"/>
-    <meta name="dtb:maxPageNumber" content="0"/>
-  </head>
-  <docTitle><text>${escapeXml(titleText)}</text></docTitle>
-  <navMap>${navPoints}
-  </navMap>
-</ncx>`;
-
-            oebps.file("toc.ncx", tocNcx);
-
-            for (const asset of imageAssets) {
-                oebps.file(asset.href, asset.data, { binary: true });
-            }
-
-            const manifestEntries: string[] = [
-                `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
-                `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
-                `<item id="css" href="styles.css" media-type="text/css"/>`,
-                `<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>`,
-            ];
-
-            if (coverAsset) {
-                manifestEntries.push(
-                    `<item id="${coverAsset.id}" href="${coverAsset.href}" media-type="${coverAsset.mediaType}" properties="cover-image"/>`
-                );
-            }
-
-            for (const chapter of chapterFiles) {
-                manifestEntries.push(
-                    `<item id="${chapter.id}" href="${chapter.href}" media-type="application/xhtml+xml"/>`
-                );
-            }
-
-            for (const asset of imageAssets) {
-                if (coverAsset && asset.id === coverAsset.id) continue;
-                manifestEntries.push(
-                    `<item id="${asset.id}" href="${asset.href}" media-type="${asset.mediaType}"/>`
-                );
-            }
-
-            const spineEntries = [
-                `<itemref idref="cover"/>`,
-                `<itemref idref="nav" linear="no"/>`,
-                ...chapterFiles.map((chapter) => `<itemref idref="${chapter.id}"/>`),
-            ];
-
-            const metadataCreator = authorText
-                ? `<dc:creator>${escapeXml(authorText)}</dc:creator>`
-                : "";
-            const modified = new Date().toISOString().split(".")[0] + "Z";
-            const coverMeta = coverAsset ? `<meta name="cover" content="cover-image"/>` : "";
-
-            const contentOpf = `<?xml version="1.0" encoding="UTF-8"?>
-<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="bookid" version="3.0">
-  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
-    <dc:title>${escapeXml(titleText)}</dc:title>
-    ${metadataCreator}
-    <dc:language>${escapeXml(languageTag)}</dc:language>
-    <dc:identifier id="bookid">${escapeXml(bookId)}</dc:identifier>
-    <meta property="dcterms:modified">${escapeXml(modified)}</meta>
-    ${coverMeta}
-  </metadata>
-  <manifest>
-    ${manifestEntries.join("\n    ")}
-  </manifest>
-  <spine toc="ncx">
-    ${spineEntries.join("\n    ")}
-  </spine>
-</package>`;
-
-            oebps.file("content.opf", contentOpf);
-
-            const epubBlob = await zip.generateAsync({ type: "blob", compression: "DEFLATE" });
-            const fileName = `${slugify(titleText)}.epub`;
-            const url = URL.createObjectURL(epubBlob);
-            const link = document.createElement("a");
-            link.href = url;
-            link.download = fileName;
-            document.body.appendChild(link);
-            link.click();
-            link.remove();
-            setTimeout(() => URL.revokeObjectURL(url), 1000);
-        } catch (error) {
-            console.error("EPUB export failed:", error);
-        } finally {
-            setIsExportingEpub(false);
-        }
-    };
-
-    // DOCX Export function
-    const exportToDocx = async () => {
-        if (isExporting || isExportingEpub || isExportingDocx || chapters.length === 0) return;
+    const exportToDocx = async (options: DocxExportOptions) => {
+        if (isExportingDocx || chapters.length === 0) return;
 
         setIsExportingDocx(true);
 
         try {
-            const orderedChapters = [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
-
-            // Load all chapter content if not already loaded
-            const chapterEntries = await Promise.all(
-                orderedChapters.map(async (chapter) => {
-                    if (loadedContent[chapter.id]) {
-                        return { ...chapter, content: loadedContent[chapter.id] };
-                    }
-                    if (chapter.content && chapter.content.trim()) {
-                        return chapter;
-                    }
-                    try {
-                        const response = await fetch(`/api/books/${bookId}/chapters/${chapter.id}`);
-                        if (response.ok) {
-                            const data = await response.json();
-                            return { ...chapter, content: data.content || "" };
-                        }
-                    } catch (error) {
-                        console.error("Failed to fetch chapter for DOCX:", error);
-                    }
-                    return chapter;
-                })
-            );
-
-            // Helper function to parse HTML and convert to docx paragraphs
-            const htmlToParagraphs = (html: string): Paragraph[] => {
-                if (!html || html.trim() === "") return [];
-
-                const paragraphs: Paragraph[] = [];
-
-                // Parse HTML
-                const tempDiv = document.createElement("div");
-                tempDiv.innerHTML = html;
-
-                const processNode = (node: Node): TextRun[] => {
-                    const runs: TextRun[] = [];
-
-                    if (node.nodeType === Node.TEXT_NODE) {
-                        const text = node.textContent || "";
-                        if (text.trim()) {
-                            runs.push(new TextRun({ text }));
-                        }
-                    } else if (node.nodeType === Node.ELEMENT_NODE) {
-                        const element = node as HTMLElement;
-                        const tagName = element.tagName.toLowerCase();
-
-                        // Handle different elements
-                        if (tagName === "strong" || tagName === "b") {
-                            const childText = element.textContent || "";
-                            runs.push(new TextRun({ text: childText, bold: true }));
-                        } else if (tagName === "em" || tagName === "i") {
-                            const childText = element.textContent || "";
-                            runs.push(new TextRun({ text: childText, italics: true }));
-                        } else if (tagName === "u") {
-                            const childText = element.textContent || "";
-                            runs.push(new TextRun({ text: childText, underline: {} }));
-                        } else if (tagName === "br") {
-                            runs.push(new TextRun({ text: "", break: 1 }));
-                        } else {
-                            // Process child nodes
-                            for (const child of Array.from(node.childNodes)) {
-                                runs.push(...processNode(child));
-                            }
-                        }
-                    }
-
-                    return runs;
-                };
-
-                const processElement = (element: Element) => {
-                    const tagName = element.tagName.toLowerCase();
-
-                    if (tagName === "h1") {
-                        paragraphs.push(new Paragraph({
-                            heading: HeadingLevel.HEADING_1,
-                            children: [new TextRun({ text: element.textContent || "", bold: true })],
-                            spacing: { before: 400, after: 200 },
-                        }));
-                    } else if (tagName === "h2") {
-                        paragraphs.push(new Paragraph({
-                            heading: HeadingLevel.HEADING_2,
-                            children: [new TextRun({ text: element.textContent || "", bold: true })],
-                            spacing: { before: 300, after: 150 },
-                        }));
-                    } else if (tagName === "h3") {
-                        paragraphs.push(new Paragraph({
-                            heading: HeadingLevel.HEADING_3,
-                            children: [new TextRun({ text: element.textContent || "", bold: true })],
-                            spacing: { before: 200, after: 100 },
-                        }));
-                    } else if (tagName === "p") {
-                        const runs = processNode(element);
-                        if (runs.length > 0) {
-                            paragraphs.push(new Paragraph({
-                                children: runs,
-                                spacing: { after: 200 },
-                                indent: { firstLine: 720 }, // 0.5 inch indent
-                            }));
-                        }
-                    } else if (tagName === "blockquote") {
-                        paragraphs.push(new Paragraph({
-                            children: [new TextRun({ text: element.textContent || "", italics: true })],
-                            spacing: { before: 200, after: 200 },
-                            indent: { left: 720, right: 720 },
-                        }));
-                    } else if (tagName === "ul" || tagName === "ol") {
-                        const listItems = element.querySelectorAll("li");
-                        listItems.forEach((li, index) => {
-                            const prefix = tagName === "ol" ? `${index + 1}. ` : "• ";
-                            paragraphs.push(new Paragraph({
-                                children: [new TextRun({ text: prefix + (li.textContent || "") })],
-                                indent: { left: 720 },
-                                spacing: { after: 100 },
-                            }));
-                        });
-                    } else {
-                        // For other elements, try to get text content
-                        const text = element.textContent?.trim();
-                        if (text) {
-                            paragraphs.push(new Paragraph({
-                                children: [new TextRun({ text })],
-                                spacing: { after: 200 },
-                            }));
-                        }
-                    }
-                };
-
-                // Process all top-level elements
-                for (const child of Array.from(tempDiv.children)) {
-                    processElement(child);
-                }
-
-                // If no block elements found, wrap text in paragraph
-                if (paragraphs.length === 0 && tempDiv.textContent?.trim()) {
-                    paragraphs.push(new Paragraph({
-                        children: [new TextRun({ text: tempDiv.textContent })],
-                        spacing: { after: 200 },
-                    }));
-                }
-
-                return paragraphs;
-            };
-
-            // Build document sections
-            const children: Paragraph[] = [];
-
-            // Title page
-            children.push(
-                new Paragraph({
-                    alignment: AlignmentType.CENTER,
-                    spacing: { before: 3000 },
-                    children: [
-                        new TextRun({
-                            text: bookTitle,
-                            bold: true,
-                            size: 72, // 36pt
-                        }),
-                    ],
-                }),
-                new Paragraph({
-                    alignment: AlignmentType.CENTER,
-                    spacing: { before: 400 },
-                    children: [
-                        new TextRun({
-                            text: author,
-                            size: 32, // 16pt
-                            italics: true,
-                        }),
-                    ],
-                }),
-                new Paragraph({
-                    children: [new PageBreak()],
-                })
-            );
-
-            // Add chapters
-            for (let i = 0; i < chapterEntries.length; i++) {
-                const chapter = chapterEntries[i];
-
-                // Chapter title
-                children.push(
-                    new Paragraph({
-                        heading: HeadingLevel.HEADING_1,
-                        alignment: AlignmentType.CENTER,
-                        spacing: { before: 600, after: 400 },
-                        children: [
-                            new TextRun({
-                                text: `Kapitel ${i + 1}`,
-                                size: 28, // 14pt
-                            }),
-                        ],
-                    }),
-                    new Paragraph({
-                        heading: HeadingLevel.HEADING_2,
-                        alignment: AlignmentType.CENTER,
-                        spacing: { after: 600 },
-                        children: [
-                            new TextRun({
-                                text: chapter.title,
-                                bold: true,
-                                size: 36, // 18pt
-                            }),
-                        ],
-                    })
-                );
-
-                // Chapter content
-                const contentParagraphs = htmlToParagraphs(chapter.content || "");
-                children.push(...contentParagraphs);
-
-                // Page break after each chapter (except last)
-                if (i < chapterEntries.length - 1) {
-                    children.push(new Paragraph({
-                        children: [new PageBreak()],
-                    }));
-                }
-            }
-
-            // Create document
-            const doc = new Document({
-                creator: author,
-                title: bookTitle,
-                description: `${bookTitle} by ${author}`,
-                sections: [
-                    {
-                        properties: {},
-                        children: children,
-                    },
-                ],
+            const response = await fetch(`/api/books/${bookId}/export`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ format: "docx", options }),
             });
+            if (!response.ok) {
+                throw new Error(`Export failed with status ${response.status}`);
+            }
 
-            // Generate and download
-            const blob = await Packer.toBlob(doc);
-            const fileName = `${slugify(bookTitle)}.docx`;
+            const blob = await response.blob();
+            const disposition = response.headers.get("Content-Disposition") ?? "";
+            const fileName = decodeURIComponent(/filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1] ?? "book.docx");
             const url = URL.createObjectURL(blob);
             const link = document.createElement("a");
             link.href = url;
@@ -1042,7 +268,6 @@ blockquote {
             link.click();
             link.remove();
             setTimeout(() => URL.revokeObjectURL(url), 1000);
-
         } catch (error) {
             console.error("DOCX export failed:", error);
         } finally {
@@ -1072,36 +297,45 @@ blockquote {
                 )}
             </Button>
 
-            {/* DOCX Export Button */}
-            <Button
-                variant="ghost"
-                size="icon"
-                className="absolute top-4 right-[8.5rem] z-10"
-                onClick={exportToDocx}
-                disabled={isExporting || isExportingEpub || isExportingDocx}
-                title="Als DOCX exportieren (für Lektoren)"
-            >
-                {isExportingDocx ? (
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                ) : (
-                    <FileText className="h-5 w-5" />
-                )}
-            </Button>
+            {/* DOCX Export Menu */}
+            <DropdownMenu>
+                <DropdownMenuTrigger
+                    render={
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="absolute top-4 right-[8.5rem] z-10"
+                            disabled={isExportingDocx}
+                            title="Als DOCX exportieren (für Lektoren)"
+                        />
+                    }
+                >
+                    {isExportingDocx ? (
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                    ) : (
+                        <FileText className="h-5 w-5" />
+                    )}
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-64">
+                    <DropdownMenuItem onClick={() => exportToDocx({ comments: false })}>
+                        <FileText className="mr-2 h-4 w-4" /> DOCX exportieren
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportToDocx({ comments: true })}>
+                        <MessageSquare className="mr-2 h-4 w-4" /> DOCX mit Kommentaren exportieren
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
 
             {/* EPUB Export Button */}
             <Button
                 variant="ghost"
                 size="icon"
                 className="absolute top-4 right-24 z-10"
-                onClick={exportToEpub}
-                disabled={isExporting || isExportingEpub || isExportingDocx}
+                onClick={() => setShowEpubDialog(true)}
+                disabled={isExportingDocx}
                 title="Als EPUB exportieren"
             >
-                {isExportingEpub ? (
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                ) : (
-                    <Book className="h-5 w-5" />
-                )}
+                <Book className="h-5 w-5" />
             </Button>
 
             {/* PDF Export Button */}
@@ -1109,27 +343,24 @@ blockquote {
                 variant="ghost"
                 size="icon"
                 className="absolute top-4 right-14 z-10"
-                onClick={exportToPdf}
-                disabled={isExporting || isExportingEpub || isExportingDocx}
-                title="Als PDF exportieren"
+                onClick={() => setShowPdfDialog(true)}
+                disabled={isExportingDocx}
+                title="Als Druck-PDF exportieren"
             >
-                {isExporting ? (
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                ) : (
-                    <Download className="h-5 w-5" />
-                )}
+                <Download className="h-5 w-5" />
             </Button>
 
+            <EpubExportDialog bookId={bookId} open={showEpubDialog} onOpenChange={setShowEpubDialog} />
+            <PdfExportDialog bookId={bookId} open={showPdfDialog} onOpenChange={setShowPdfDialog} />
+
             {/* Book */}
             <div
-                ref={bookRef}
                 className={cn(
                     "relative bg-white dark:bg-stone-950 shadow-2xl transition-all duration-300",
                     "border border-stone-300 dark:border-stone-700",
                     isFullscreen
                         ? "w-[700px] h-[900px]"
-                        : "w-[500px] h-[650px]",
-                    isExporting && "pdf-export-mode"
+                        : "w-[500px] h-[650px]"
                 )}
                 style={{
                     boxShadow: isFullscreen
@@ -1171,7 +402,6 @@ blockquote {
                             <ChapterTitlePage
                                 chapterNumber={currentPageData.chapterNumber}
                                 title={currentPageData.title}
-                                isExporting={isExporting}
                             />
                         )}
 
@@ -1301,26 +531,19 @@ function CoverPage({ title, author, coverUrl, hideCoverText }: { title: string;
 function ChapterTitlePage({
     chapterNumber,
     title,
-    isExporting,
 }: {
     chapterNumber: number;
     title: string;
-    isExporting?: boolean;
 }) {
-    const forcedStyle = isExporting ? { color: '#000000', borderColor: '#000000' } : {};
-    const forcedTextStyle = isExporting ? { color: '#000000' } : {};
-
     return (
         <div className="h-full flex flex-col items-center justify-center p-12 text-center chapter-title-page">
             <div
                 className="mb-6 mx-auto w-16 border-t-2 border-stone-300 dark:border-stone-700 chapter-line"
-                style={forcedStyle}
             />
 
             {/* Chapter number */}
             <p
                 className="text-base font-bold uppercase tracking-[0.3em] text-stone-500 dark:text-stone-400 mb-8 font-serif chapter-number"
-                style={forcedTextStyle}
             >
                 KAPITEL {toRomanNumerals(chapterNumber)}
             </p>
@@ -1328,7 +551,6 @@ function ChapterTitlePage({
             {/* Chapter title */}
             <h2
                 className="text-4xl font-serif font-bold text-stone-900 dark:text-stone-50 leading-tight mb-12 max-w-lg chapter-title"
-                style={forcedTextStyle}
             >
                 {title}
             </h2>
@@ -1336,14 +558,12 @@ function ChapterTitlePage({
             {/* Decorative ornament */}
             <div
                 className="text-3xl text-stone-300 dark:text-stone-600 chapter-ornament"
-                style={forcedTextStyle}
             >
                 ❦
             </div>
 
             <div
                 className="mt-6 mx-auto w-16 border-t-2 border-stone-300 dark:border-stone-700 chapter-line"
-                style={forcedStyle}
             />
         </div>
     );
@@ -1564,115 +784,7 @@ function ContentPage({
                     font-size: 1.5em;
                     color: #d97706;
                 }
-                
-                /* PDF EXPORT OVERRIDES - FORCE PRINT STYLING */
-                .pdf-export-mode {
-                    background-color: #ffffff !important;
-                    color: #000000 !important;
-                    box-shadow: none !important;
-                    border: none !important;
-                    /* Increase bottom padding to prevent cutoff on A4 scaling */
-                    padding-bottom: 80px !important;
-                }
-                
-                .pdf-export-mode .book-content {
-                    color: #000000 !important;
-                }
-                
-                /* Force white background on all inner containers */
-                .pdf-export-mode > div,
-                .pdf-export-mode div,
-                .pdf-export-mode [class*="bg-"],
-                .pdf-export-mode .chapter-title-page,
-                .pdf-export-mode [class*="dark:bg-"] {
-                    background-color: #ffffff !important;
-                    background: #ffffff !important;
-                    background-image: none !important;
-                }
-                
-                /* Hide decorative elements in PDF */
-                .pdf-export-mode .paper-texture,
-                .pdf-export-mode [class*="from-stone"],
-                .pdf-export-mode [class*="via-stone"],
-                .pdf-export-mode [class*="to-stone"]:not(p):not(span):not(h1):not(h2):not(h3) {
-                    opacity: 0 !important;
-                    background: transparent !important;
-                }
-                
-                /* Reset header border for print */
-                .pdf-export-mode .border-b {
-                    border-color: #cccccc !important;
-                }
-                
-                /* Force ALL text to black, overriding Tailwind classes */
-                .pdf-export-mode h1,
-                .pdf-export-mode h2,
-                .pdf-export-mode h3,
-                .pdf-export-mode h4,
-                .pdf-export-mode h5,
-                .pdf-export-mode h6,
-                .pdf-export-mode p,
-                .pdf-export-mode span,
-                .pdf-export-mode div,
-                .pdf-export-mode [class*="text-stone-"] {
-                    color: #000000 !important;
-                    text-shadow: none !important;
-                    -webkit-text-fill-color: #000000 !important;
-                }
-                
-                .pdf-export-mode .book-content blockquote {
-                    color: #333333 !important;
-                    border-left-color: #000000 !important;
-                }
-                
-                /* Ensure image captions/shadows look good in print */
-                .pdf-export-mode img {
-                    box-shadow: none !important;
-                    border: 1px solid #eee !important;
-                }
-                
-                /* Specific overrides for Chapter Title Page in PDF */
-                .pdf-export-mode .chapter-title-page .chapter-title,
-                .pdf-export-mode .chapter-title-page .chapter-number,
-                .pdf-export-mode .chapter-title-page .chapter-ornament {
-                    color: #000000 !important;
-                }
-                
-                .pdf-export-mode .chapter-title-page .chapter-line {
-                    border-color: #000000 !important;
-                }
             `}</style>
         </div>
     );
 }
-
-// Utility function to convert number to Roman numerals
-function toRomanNumerals(num: number): string {
-    const romanNumerals: [number, string][] = [
-        [1000, "M"],
-        [900, "CM"],
-        [500, "D"],
-        [400, "CD"],
-        [100, "C"],
-        [90, "XC"],
-        [50, "L"],
-        [40, "XL"],
-        [10, "X"],
-        [9, "IX"],
-        [5, "V"],
-        [4, "IV"],
-        [1, "I"],
-    ];
-
-    let result = "";
-    let remaining = num;
-
-    for (const [value, numeral] of romanNumerals) {
-        while (remaining >= value) {
-            result += numeral;
-            remaining -= value;
-        }
-    }
-
-    return result;
-}
@@ -1,8 +1,9 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import Link from "next/link";
 import type { Route } from "next";
+import type { Editor } from "@tiptap/react";
 import { useRouter } from "next/navigation";
 import {
   ArrowLeft,
@@ -20,6 +21,11 @@ import {
   AlignJustify,
   Maximize2,
   Minimize2,
+  History,
+  Square,
+  ScrollText,
+  AlertTriangle,
+  MessageSquare,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -32,10 +38,25 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import RichTextEditor, { getTextStatistics } from "@/components/editor/RichTextEditor";
+import RevisionHistoryPanel from "@/components/editor/RevisionHistoryPanel";
+import CommentSidebar, { CommentHighlights, useChapterComments } from "@/components/editor/CommentSidebar";
+import { SceneBreakContext } from "@/components/editor/SceneBreak";
+import { EntityLinkContext } from "@/components/editor/EntityLink";
+import SceneForm from "@/components/editor/SceneForm";
+import ContextBudgetCard from "@/components/editor/ContextBudgetCard";
 import { useI18n } from "@/components/locale-provider";
+import type { ContextReport } from "@/lib/ai/context-budget";
+import { isAIConfigured } from "@/lib/ai/types";
+import { isRecapEmpty, parseRecap, recapSections, type RecapSection } from "@/lib/chapter-recap";
+import type { LinkableEntity } from "@/lib/entity-links";
+import { normalizeGeneratedHtml, toPreviewHtml } from "@/lib/generated-text";
+import type { SceneData } from "@/lib/scenes";
+import { readSseEvents } from "@/lib/sse";
+import { createTrackedChange, markAsInsertion, type TrackedAuthor } from "@/lib/track-changes";
 
 type AISettings = {
   id: string;
+  provider: string;
   apiEndpoint: string;
   apiKey: string | null;
   model: string;
@@ -47,6 +68,7 @@ type AISettings = {
 type Book = {
   id: string;
   title: string;
+  author: string | null;
   genre: string | null;
   writingStyle: string | null;
   targetAudience: string | null;
@@ -79,24 +101,31 @@ type Chapter = {
   title: string;
   content: string;
   summary: string | null;
+  recap: string | null;
+  summaryStale: boolean;
   notes: string | null;
   wordCount: number;
   status: string;
   book: Book;
   chapterCharacters: ChapterCharacter[];
   chapterPlotPoints: ChapterPlotPoint[];
+  scenes: SceneData[];
 };
 
 type SimpleCharacter = {
   id: string;
   name: string;
   role: string;
+  aliases: string | null;
+  description: string | null;
+  imageUrl: string | null;
 };
 
 type SimplePlotPoint = {
   id: string;
   title: string;
   type: string;
+  description: string | null;
 };
 
 type SimpleChapter = {
@@ -109,6 +138,8 @@ type SimpleWorldElement = {
   id: string;
   name: string;
   type: string;
+  description: string | null;
+  imageUrl: string | null;
 };
 
 type Props = {
@@ -131,14 +162,25 @@ export default function ChapterEditorView({
   const [title, setTitle] = useState(chapter.title);
   const [content, setContent] = useState(chapter.content);
   const [summary, setSummary] = useState(chapter.summary || "");
+  const [recap, setRecap] = useState(chapter.recap);
+  const [summaryStale, setSummaryStale] = useState(chapter.summaryStale);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
   const [notes, setNotes] = useState(chapter.notes || "");
   const [status, setStatus] = useState(chapter.status);
   const [isSaving, setIsSaving] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [showAIPanel, setShowAIPanel] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [showCommentsPanel, setShowCommentsPanel] = useState(false);
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const [revisionsVersion, setRevisionsVersion] = useState(0);
+  const [scenes, setScenes] = useState<SceneData[]>(chapter.scenes);
+  const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
   const [aiPrompt, setAiPrompt] = useState("");
   const [generatedText, setGeneratedText] = useState("");
+  const generationAbortRef = useRef<AbortController | null>(null);
 
   // AI context selection states
   const [selectedCharacterIds, setSelectedCharacterIds] = useState<string[]>(
@@ -150,6 +192,8 @@ export default function ChapterEditorView({
   const [selectedWorldElementIds, setSelectedWorldElementIds] = useState<string[]>([]);
   const [useSummaryAsPrompt, setUseSummaryAsPrompt] = useState(true);
   const [targetLength, setTargetLength] = useState("medium");
+  const [contextReport, setContextReport] = useState<ContextReport | null>(null);
+  const [isLoadingContext, setIsLoadingContext] = useState(false);
 
   // Focus mode state
   const [isFocusMode, setIsFocusMode] = useState(false);
@@ -174,14 +218,19 @@ export default function ChapterEditorView({
   }, [isFocusMode]);
 
   // Auto-save
-  const saveChapter = useCallback(async () => {
+  const saveChapter = useCallback(async (revisionReason: "manual" | "autosave" = "manual") => {
     setIsSaving(true);
     try {
-      await fetch(`/api/books/${chapter.bookId}/chapters/${chapter.id}`, {
+      const response = await fetch(`/api/books/${chapter.bookId}/chapters/${chapter.id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, content, summary, notes, status }),
+        body: JSON.stringify({ title, content, summary, notes, status, revisionReason }),
       });
+      if (response.ok) {
+        const saved = await response.json();
+        setSummaryStale(saved.summaryStale);
+        if (saved.revisionCreated) setRevisionsVersion((version) => version + 1);
+      }
       setLastSaved(new Date());
     } catch (error) {
       console.error("Error saving chapter:", error);
@@ -199,12 +248,65 @@ export default function ChapterEditorView({
         summary !== (chapter.summary || "") ||
         notes !== (chapter.notes || "")
       ) {
-        saveChapter();
+        saveChapter("autosave");
       }
     }, 2000);
     return () => clearTimeout(timer);
   }, [content, title, summary, notes, chapter, saveChapter]);
 
+  // Preview which context pieces fit into the model's token budget for the current selection
+  useEffect(() => {
+    if (!showAIPanel || isGenerating) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoadingContext(true);
+      try {
+        const query = new URLSearchParams({
+          chapterId: chapter.id,
+          targetLength,
+          characterIds: selectedCharacterIds.join(","),
+          plotPointIds: selectedPlotPointIds.join(","),
+          worldElementIds: selectedWorldElementIds.join(","),
+          prompt: aiPrompt,
+          useSummaryAsPrompt: String(useSummaryAsPrompt && !aiPrompt.trim()),
+          reportOnly: "true",
+        });
+        const response = await fetch(`/api/books/${chapter.bookId}/ai/generate?${query}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setContextReport(data.report);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Error loading context preview:", error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoadingContext(false);
+        }
+      }
+    }, 400);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [
+    showAIPanel,
+    isGenerating,
+    chapter.id,
+    chapter.bookId,
+    targetLength,
+    aiPrompt,
+    useSummaryAsPrompt,
+    selectedCharacterIds,
+    selectedPlotPointIds,
+    selectedWorldElementIds,
+  ]);
+
   const handleGenerateText = async () => {
     // Allow generation without prompt if summary exists and useSummaryAsPrompt is true
     if (!aiPrompt.trim() && !(useSummaryAsPrompt && summary.trim())) {
@@ -219,6 +321,10 @@ export default function ChapterEditorView({
     setIsGenerating(true);
     setGeneratedText("");
 
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    let streamedText = "";
+
     try {
       const response = await fetch(`/api/books/${chapter.bookId}/ai/generate`, {
         method: "POST",
@@ -231,11 +337,13 @@ export default function ChapterEditorView({
           worldElementIds: selectedWorldElementIds.length > 0 ? selectedWorldElementIds : undefined,
           useSummaryAsPrompt: useSummaryAsPrompt && !aiPrompt.trim(),
           targetLength,
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
-      if (!response.ok) {
-        const error = await response.json();
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({}));
         setGeneratedText(
           `${t({ de: "Fehler", en: "Error" })}: ${
             error.error || t({ de: "Generierung fehlgeschlagen", en: "Generation failed" })
@@ -244,21 +352,97 @@ export default function ChapterEditorView({
         return;
       }
 
-      const data = await response.json();
-      setGeneratedText(data.text);
+      let streamError: string | null = null;
+      await readSseEvents(response.body, ({ event, data }) => {
+        let payload;
+        try {
+          payload = JSON.parse(data);
+        } catch {
+          return;
+        }
+        if (event === "context") {
+          setContextReport(payload);
+        } else if (event === "delta") {
+          streamedText += payload.text;
+          setGeneratedText(streamedText);
+        } else if (event === "error") {
+          streamError = payload.error;
+        }
+      });
+
+      if (streamError && !streamedText) {
+        setGeneratedText(`${t({ de: "Fehler", en: "Error" })}: ${streamError}`);
+      } else {
+        setGeneratedText(normalizeGeneratedHtml(streamedText));
+      }
     } catch (error) {
-      console.error("Error generating text:", error);
-      setGeneratedText(t({ de: "Fehler bei der Generierung", en: "Error during generation" }));
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep what has been generated so far
+        setGeneratedText(normalizeGeneratedHtml(streamedText));
+      } else {
+        console.error("Error generating text:", error);
+        setGeneratedText(t({ de: "Fehler bei der Generierung", en: "Error during generation" }));
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
-  const insertGeneratedText = () => {
+  // Let the AI write the summary and structured recap from the saved chapter text
+  const handleSummarize = async () => {
+    setIsSummarizing(true);
+    setSummaryError(null);
+    try {
+      await saveChapter("autosave");
+      const response = await fetch(`/api/books/${chapter.bookId}/ai/summarize`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chapterId: chapter.id }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setSummaryError(data.details || data.error || t({ de: "Zusammenfassung fehlgeschlagen", en: "Summarization failed" }));
+        return;
+      }
+      setSummary(data.summary);
+      setRecap(data.recap);
+      setSummaryStale(data.summaryStale);
+    } catch (error) {
+      console.error("Error summarizing chapter:", error);
+      setSummaryError(t({ de: "Zusammenfassung fehlgeschlagen", en: "Summarization failed" }));
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  const stopGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // Abort a running generation when leaving the editor
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+  const insertGeneratedText = async () => {
     if (generatedText) {
+      // Snapshot the unsaved editor state so the insertion can be rolled back
+      if (content.trim()) {
+        try {
+          await fetch(`/api/books/${chapter.bookId}/chapters/${chapter.id}/revisions`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ reason: "ai_insert", title, content }),
+          });
+        } catch (error) {
+          console.error("Error creating revision:", error);
+        }
+      }
+
       // Check if content already exists to add a break
       const spacer = content.trim() ? "<p><br></p>" : "";
-      setContent(content + spacer + generatedText);
+      // The inserted text stays marked as the model's change until it is accepted
+      const change = createTrackedChange({ name: chapter.book.aiSettings?.model || "AI", type: "ai" });
+      setContent(content + spacer + markAsInsertion(generatedText, change));
       setGeneratedText("");
       setAiPrompt("");
       setShowAIPanel(false);
@@ -284,6 +468,77 @@ export default function ChapterEditorView({
     }
   };
 
+  const trackChangesAuthor: TrackedAuthor = {
+    name: chapter.book.author?.trim() || t({ de: "Autor", en: "Author" }),
+    type: "human",
+  };
+
+  const comments = useChapterComments(editor, {
+    bookId: chapter.bookId,
+    chapterId: chapter.id,
+    author: trackChangesAuthor.name,
+  });
+  const openCommentCount = comments.threads.filter((thread) => !thread.resolved).length;
+
+  // The scene record exists before its break is inserted, so the break is never unbound
+  const createScene = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/books/${chapter.bookId}/scenes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chapterId: chapter.id }),
+      });
+      if (!response.ok) return null;
+      const scene: SceneData = await response.json();
+      setScenes((current) => [...current, scene]);
+      setEditingSceneId(scene.id);
+      return scene.id;
+    } catch (error) {
+      console.error("Error creating scene:", error);
+      return null;
+    }
+  }, [chapter.bookId, chapter.id]);
+
+  const locations = allWorldElements.filter((element) => element.type === "location");
+  const linkableEntities = useMemo<LinkableEntity[]>(() => [
+    ...allCharacters.map((character) => ({
+      type: "character" as const,
+      id: character.id,
+      name: character.name,
+      aliases: character.aliases,
+      subtitle: character.role,
+      description: character.description,
+      imageUrl: character.imageUrl,
+    })),
+    ...allWorldElements.map((element) => ({
+      type: "world" as const,
+      id: element.id,
+      name: element.name,
+      aliases: null,
+      subtitle: element.type,
+      description: element.description,
+      imageUrl: element.imageUrl,
+    })),
+    ...allPlotPoints.map((plotPoint) => ({
+      type: "plot" as const,
+      id: plotPoint.id,
+      name: plotPoint.title,
+      aliases: null,
+      subtitle: plotPoint.type,
+      description: plotPoint.description,
+      imageUrl: null,
+    })),
+  ], [allCharacters, allWorldElements, allPlotPoints]);
+  const editingScene = scenes.find((scene) => scene.id === editingSceneId);
+
+  const parsedRecap = parseRecap(recap);
+  const recapLabels: Record<RecapSection, string> = {
+    events: t({ de: "Ereignisse", en: "Events" }),
+    characterChanges: t({ de: "Veränderungen der Charaktere", en: "Character changes" }),
+    items: t({ de: "Gegenstände", en: "Items" }),
+    openThreads: t({ de: "Offene Fäden", en: "Open threads" }),
+  };
+
   const promptSuffix =
     useSummaryAsPrompt && summary
       ? t({ de: "(optional, ergänzt Zusammenfassung)", en: "(optional, adds summary)" })
@@ -319,14 +574,47 @@ export default function ChapterEditorView({
                 {t({ de: "Gespeichert", en: "Saved" })}: {lastSaved.toLocaleTimeString(intlLocale)}
               </span>
             )}
-            <Button variant="outline" size="sm" onClick={saveChapter} disabled={isSaving}>
+            <Button variant="outline" size="sm" onClick={() => saveChapter("manual")} disabled={isSaving}>
               {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
               <span className="ml-2 hidden sm:inline">{t({ de: "Speichern", en: "Save" })}</span>
             </Button>
-            <Button variant={showAIPanel ? "default" : "outline"} size="sm" onClick={() => setShowAIPanel(!showAIPanel)}>
+            <Button
+              variant={showHistoryPanel ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setShowHistoryPanel(!showHistoryPanel);
+                setShowAIPanel(false);
+                setShowCommentsPanel(false);
+              }}
+            >
+              <History className="h-4 w-4" />
+              <span className="ml-2 hidden sm:inline">{t({ de: "Verlauf", en: "History" })}</span>
+            </Button>
+            <Button
+              variant={showAIPanel ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setShowAIPanel(!showAIPanel);
+                setShowHistoryPanel(false);
+                setShowCommentsPanel(false);
+              }}
+            >
               <Sparkles className="h-4 w-4" />
               <span className="ml-2 hidden sm:inline">{t({ de: "KI", en: "AI" })}</span>
             </Button>
+            <Button
+              variant={showCommentsPanel ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setShowCommentsPanel(!showCommentsPanel);
+                setShowHistoryPanel(false);
+                setShowAIPanel(false);
+              }}
+            >
+              <MessageSquare className="h-4 w-4" />
+              <span className="ml-2 hidden sm:inline">{t({ de: "Kommentare", en: "Comments" })}</span>
+              {openCommentCount > 0 && <span className="ml-1 text-xs">({openCommentCount})</span>}
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -362,11 +650,22 @@ export default function ChapterEditorView({
             />
 
             {/* Content Editor - TipTap Rich Text */}
-            <RichTextEditor
-              content={content}
-              onChange={setContent}
-              placeholder={t({ de: "Beginne mit dem Schreiben...", en: "Start writing..." })}
-            />
+            <SceneBreakContext.Provider
+              value={{ scenes, characters: allCharacters, locations, onEdit: setEditingSceneId }}
+            >
+              <EntityLinkContext.Provider value={{ entities: linkableEntities }}>
+                <RichTextEditor
+                  content={content}
+                  onChange={setContent}
+                  placeholder={t({ de: "Beginne mit dem Schreiben...", en: "Start writing..." })}
+                  ai={{ bookId: chapter.bookId, chapterId: chapter.id }}
+                  trackChangesAuthor={trackChangesAuthor}
+                  onEditorChange={setEditor}
+                  onCreateScene={createScene}
+                />
+              </EntityLinkContext.Provider>
+            </SceneBreakContext.Provider>
+            <CommentHighlights comments={comments} />
 
             {/* Summary - Hidden in Focus Mode */}
             <div
@@ -374,15 +673,62 @@ export default function ChapterEditorView({
                 isFocusMode ? "opacity-0 h-0 overflow-hidden pt-0 border-none" : "opacity-100"
               }`}
             >
-              <label className="text-sm font-medium text-muted-foreground">
-                {t({ de: "Zusammenfassung (für KI-Kontext)", en: "Summary (for AI context)" })}
-              </label>
+              <div className="flex items-center gap-2">
+                <label className="text-sm font-medium text-muted-foreground">
+                  {t({ de: "Zusammenfassung (für KI-Kontext)", en: "Summary (for AI context)" })}
+                </label>
+                {summaryStale && (
+                  <span
+                    className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+                    title={t({
+                      de: "Das Kapitel wurde nach der KI-Zusammenfassung geändert.",
+                      en: "The chapter was changed after the AI summary was created.",
+                    })}
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    {t({ de: "Veraltet", en: "Outdated" })}
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-7 text-xs"
+                  onClick={handleSummarize}
+                  disabled={isSummarizing || stats.wordCount === 0 || !isAIConfigured(chapter.book.aiSettings)}
+                >
+                  {isSummarizing ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <ScrollText className="h-3 w-3 mr-1" />
+                  )}
+                  {summaryStale || summary
+                    ? t({ de: "Neu zusammenfassen", en: "Summarize again" })
+                    : t({ de: "Mit KI zusammenfassen", en: "Summarize with AI" })}
+                </Button>
+              </div>
               <textarea
                 value={summary}
                 onChange={(e) => setSummary(e.target.value)}
                 placeholder={t({ de: "Kurze Zusammenfassung dieses Kapitels...", en: "Short summary of this chapter..." })}
                 className="w-full min-h-[80px] px-3 py-2 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring"
               />
+              {summaryError && <p className="text-xs text-destructive">{summaryError}</p>}
+              {parsedRecap && !isRecapEmpty(parsedRecap) && (
+                <div className={`grid gap-3 sm:grid-cols-2 text-xs ${summaryStale ? "opacity-60" : ""}`}>
+                  {recapSections
+                    .filter((section) => parsedRecap[section].length > 0)
+                    .map((section) => (
+                      <div key={section} className="space-y-1">
+                        <div className="font-medium text-muted-foreground">{recapLabels[section]}</div>
+                        <ul className="list-disc pl-4 space-y-0.5">
+                          {parsedRecap[section].map((entry, index) => (
+                            <li key={index}>{entry}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                </div>
+              )}
             </div>
 
             {/* Notes - Hidden in Focus Mode */}
@@ -492,6 +838,38 @@ export default function ChapterEditorView({
         )}
       </div>
 
+      {/* Revision History - Hidden in Focus Mode */}
+      {showHistoryPanel && !isFocusMode && (
+        <RevisionHistoryPanel
+          bookId={chapter.bookId}
+          chapterId={chapter.id}
+          currentContent={content}
+          refreshKey={revisionsVersion}
+          onContentChange={setContent}
+          onRestored={(restored) => {
+            setTitle(restored.title);
+            setContent(restored.content);
+          }}
+        />
+      )}
+
+      {editingScene && (
+        <SceneForm
+          bookId={chapter.bookId}
+          scene={editingScene}
+          characters={allCharacters}
+          locations={locations}
+          onSave={(saved) => {
+            setScenes((current) => current.map((scene) => (scene.id === saved.id ? saved : scene)));
+            setEditingSceneId(null);
+          }}
+          onCancel={() => setEditingSceneId(null)}
+        />
+      )}
+
+      {/* Comments - Hidden in Focus Mode */}
+      {showCommentsPanel && !isFocusMode && <CommentSidebar comments={comments} />}
+
       {/* AI Panel - Hidden in Focus Mode */}
       {showAIPanel && !isFocusMode && (
         <aside className="w-96 border-l bg-card flex flex-col">
@@ -674,33 +1052,42 @@ export default function ChapterEditorView({
                 }
                 className="w-full min-h-[80px] px-3 py-2 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring"
               />
-              <Button
-                onClick={handleGenerateText}
-                disabled={isGenerating || (!aiPrompt.trim() && !(useSummaryAsPrompt && summary)) || !chapter.book.aiSettings?.apiKey}
-                className="w-full"
-              >
-                {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
-                {t({ de: "Text generieren", en: "Generate text" })}
-              </Button>
-              {!chapter.book.aiSettings?.apiKey && (
+              {isGenerating ? (
+                <Button onClick={stopGeneration} variant="destructive" className="w-full">
+                  <Square className="mr-2 h-4 w-4" />
+                  {t({ de: "Stopp", en: "Stop" })}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleGenerateText}
+                  disabled={(!aiPrompt.trim() && !(useSummaryAsPrompt && summary)) || !isAIConfigured(chapter.book.aiSettings)}
+                  className="w-full"
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  {t({ de: "Text generieren", en: "Generate text" })}
+                </Button>
+              )}
+              {!isAIConfigured(chapter.book.aiSettings) && (
                 <p className="text-xs text-yellow-600 dark:text-yellow-400">
                   {t({ de: "Bitte konfiguriere zuerst die KI-Einstellungen im Buch.", en: "Please configure the AI settings for this book first." })}
                 </p>
               )}
-              <p className="text-xs text-muted-foreground">
-                {t({
-                  de: "ℹ️ Die KI nutzt automatisch alle vorherigen Kapitelzusammenfassungen als Kontext.",
-                  en: "ℹ️ The AI automatically uses all previous chapter summaries as context.",
-                })}
-              </p>
             </div>
 
+            <ContextBudgetCard report={contextReport} isLoading={isLoadingContext} />
+
             {/* Generated Text */}
-            {generatedText && (
+            {(generatedText || isGenerating) && (
               <div className="space-y-2">
-                <label className="text-sm font-medium">{t({ de: "Generierter Text", en: "Generated text" })}</label>
-                <div className="p-3 rounded-md bg-secondary text-sm max-h-64 overflow-auto whitespace-pre-wrap">{generatedText}</div>
-                <Button onClick={insertGeneratedText} variant="outline" className="w-full">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  {t({ de: "Generierter Text", en: "Generated text" })}
+                  {isGenerating && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                </label>
+                <div
+                  className="p-3 rounded-md bg-secondary text-sm max-h-64 overflow-auto prose prose-sm dark:prose-invert max-w-none"
+                  dangerouslySetInnerHTML={{ __html: toPreviewHtml(generatedText) }}
+                />
+                <Button onClick={insertGeneratedText} variant="outline" className="w-full" disabled={isGenerating || !generatedText}>
                   {t({ de: "In Kapitel einfügen", en: "Insert into chapter" })}
                 </Button>
               </div>
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd";
 import { cn } from "@/lib/utils";
 import {
@@ -11,7 +12,12 @@ import {
     Pencil,
     Trash2,
     Clock,
-    AlignLeft
+    AlignLeft,
+    Clapperboard,
+    MapPin,
+    User,
+    List,
+    StickyNote
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -24,6 +30,9 @@ import {
 import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
 import { useI18n } from "@/components/locale-provider";
+import Corkboard, { type ChapterChanges } from "@/components/editor/Corkboard";
+import SceneForm from "@/components/editor/SceneForm";
+import type { SceneData } from "@/lib/scenes";
 
 type Chapter = {
     id: string;
@@ -31,12 +40,24 @@ type Chapter = {
     orderIndex: number;
     status: string;
     wordCount: number;
+    summary: string | null;
+    act: number | null;
+    chapterCharacters: { characterId: string }[];
+    chapterPlotPoints: { plotPointId: string }[];
+    scenes: SceneData[];
 };
 
 interface ChapterTabProps {
     bookId: string;
     chapters: Chapter[];
+    characters: { id: string; name: string }[];
+    plotPoints: { id: string; title: string }[];
+    worldElements: { id: string; name: string; type: string }[];
     onReorder: (result: DropResult) => void;
+    onReorderChapters: (chapterIds: string[]) => void;
+    onUpdateChapter: (chapterId: string, changes: ChapterChanges) => void;
+    onMoveScene: (sceneId: string, chapterId: string, index: number) => void;
+    onSceneSave: (scene: SceneData) => void;
     onCreate: () => void;
     isCreating: boolean;
 }
@@ -44,11 +65,34 @@ interface ChapterTabProps {
 export default function ChapterTab({
     bookId,
     chapters,
+    characters,
+    plotPoints,
+    worldElements,
     onReorder,
+    onReorderChapters,
+    onUpdateChapter,
+    onMoveScene,
+    onSceneSave,
     onCreate,
     isCreating
 }: ChapterTabProps) {
     const { t, intlLocale } = useI18n();
+    const [view, setView] = useState<"list" | "corkboard">("list");
+    const [editingScene, setEditingScene] = useState<SceneData | null>(null);
+
+    const locations = worldElements.filter((element) => element.type === "location");
+
+    // Chapters and scenes share one drag context; scenes can be dropped into any chapter
+    const handleDragEnd = (result: DropResult) => {
+        if (result.type !== "scene") {
+            onReorder(result);
+            return;
+        }
+        const { source, destination } = result;
+        if (!destination) return;
+        if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+        onMoveScene(result.draggableId, destination.droppableId, destination.index);
+    };
 
     const getStatusColor = (status: string) => {
         switch (status) {
@@ -87,152 +131,270 @@ export default function ChapterTab({
                     </p>
                 </div>
 
-                <Button
-                    onClick={onCreate}
-                    disabled={isCreating}
-                    className="h-10 px-6 shadow-lg shadow-primary/25 hover:shadow-primary/40 transition-all duration-300"
-                >
-                    {isCreating ? (
-                        <div className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
-                    ) : (
-                        <Plus className="mr-2 h-4 w-4" />
-                    )}
-                    {t({ de: "Kapitel hinzufügen", en: "Add chapter" })}
-                </Button>
+                <div className="flex items-center gap-2">
+                    <div className="flex items-center rounded-md border p-0.5">
+                        <Button
+                            variant={view === "list" ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setView("list")}
+                        >
+                            <List className="mr-1.5 h-4 w-4" />
+                            {t({ de: "Liste", en: "List" })}
+                        </Button>
+                        <Button
+                            variant={view === "corkboard" ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setView("corkboard")}
+                        >
+                            <StickyNote className="mr-1.5 h-4 w-4" />
+                            {t({ de: "Pinnwand", en: "Corkboard" })}
+                        </Button>
+                    </div>
+                    <Button
+                        onClick={onCreate}
+                        disabled={isCreating}
+                        className="h-10 px-6 shadow-lg shadow-primary/25 hover:shadow-primary/40 transition-all duration-300"
+                    >
+                        {isCreating ? (
+                            <div className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
+                        ) : (
+                            <Plus className="mr-2 h-4 w-4" />
+                        )}
+                        {t({ de: "Kapitel hinzufügen", en: "Add chapter" })}
+                    </Button>
+                </div>
             </div>
 
+            {view === "corkboard" && chapters.length > 0 && (
+                <Corkboard
+                    bookId={bookId}
+                    chapters={chapters}
+                    characters={characters}
+                    plotPoints={plotPoints}
+                    onReorder={onReorderChapters}
+                    onUpdate={onUpdateChapter}
+                />
+            )}
+
             {/* Chapters List */}
-            <div className="bg-white/50 dark:bg-zinc-900/50 backdrop-blur-md rounded-2xl border border-white/20 dark:border-white/5 shadow-xl overflow-hidden">
-                {/* Table Header */}
-                <div className="grid grid-cols-12 gap-4 p-4 border-b border-border/40 bg-muted/30 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
-                    <div className="col-span-1 text-center">#</div>
-                    <div className="col-span-6 md:col-span-5">{t({ de: "Titel", en: "Title" })}</div>
-                    <div className="col-span-2 hidden md:block">{t({ de: "Status", en: "Status" })}</div>
-                    <div className="col-span-3 md:col-span-3 text-right pr-4">{t({ de: "Umfang", en: "Length" })}</div>
-                    <div className="col-span-1"></div>
-                </div>
+            {(view === "list" || chapters.length === 0) && (
+                <div className="bg-white/50 dark:bg-zinc-900/50 backdrop-blur-md rounded-2xl border border-white/20 dark:border-white/5 shadow-xl overflow-hidden">
+                    {/* Table Header */}
+                    <div className="grid grid-cols-12 gap-4 p-4 border-b border-border/40 bg-muted/30 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        <div className="col-span-1 text-center">#</div>
+                        <div className="col-span-6 md:col-span-5">{t({ de: "Titel", en: "Title" })}</div>
+                        <div className="col-span-2 hidden md:block">{t({ de: "Status", en: "Status" })}</div>
+                        <div className="col-span-3 md:col-span-3 text-right pr-4">{t({ de: "Umfang", en: "Length" })}</div>
+                        <div className="col-span-1"></div>
+                    </div>
 
-                <DragDropContext onDragEnd={onReorder}>
-                    <Droppable droppableId="chapters">
-                        {(provided) => (
-                            <div
-                                {...provided.droppableProps}
-                                ref={provided.innerRef}
-                                className="divide-y divide-border/30 min-h-[200px]"
-                            >
-                                {chapters.length === 0 ? (
-                                    <div className="py-20 flex flex-col items-center justify-center text-center p-8">
-                                        <div className="h-20 w-20 rounded-full bg-primary/5 flex items-center justify-center mb-6 ring-1 ring-primary/20">
-                                            <BookOpen className="h-10 w-10 text-primary/40" />
+                    <DragDropContext onDragEnd={handleDragEnd}>
+                        <Droppable droppableId="chapters" type="chapter">
+                            {(provided) => (
+                                <div
+                                    {...provided.droppableProps}
+                                    ref={provided.innerRef}
+                                    className="divide-y divide-border/30 min-h-[200px]"
+                                >
+                                    {chapters.length === 0 ? (
+                                        <div className="py-20 flex flex-col items-center justify-center text-center p-8">
+                                            <div className="h-20 w-20 rounded-full bg-primary/5 flex items-center justify-center mb-6 ring-1 ring-primary/20">
+                                                <BookOpen className="h-10 w-10 text-primary/40" />
+                                            </div>
+                                            <h3 className="text-lg font-serif font-bold text-foreground mb-2">
+                                                {t({ de: "Dein Buch ist noch leer", en: "Your book is still empty" })}
+                                            </h3>
+                                            <p className="text-muted-foreground max-w-sm mb-6">
+                                                {t({
+                                                    de: "Starte deine Reise, indem du dein erstes Kapitel anlegst.",
+                                                    en: "Start your journey by creating your first chapter.",
+                                                })}
+                                            </p>
+                                            <Button variant="outline" onClick={onCreate}>
+                                                {t({ de: "Jetzt beginnen", en: "Start now" })}
+                                            </Button>
                                         </div>
-                                        <h3 className="text-lg font-serif font-bold text-foreground mb-2">
-                                            {t({ de: "Dein Buch ist noch leer", en: "Your book is still empty" })}
-                                        </h3>
-                                        <p className="text-muted-foreground max-w-sm mb-6">
-                                            {t({
-                                                de: "Starte deine Reise, indem du dein erstes Kapitel anlegst.",
-                                                en: "Start your journey by creating your first chapter.",
-                                            })}
-                                        </p>
-                                        <Button variant="outline" onClick={onCreate}>
-                                            {t({ de: "Jetzt beginnen", en: "Start now" })}
-                                        </Button>
-                                    </div>
-                                ) : (
-                                    chapters.map((chapter, index) => (
-                                        <Draggable key={chapter.id} draggableId={chapter.id} index={index}>
-                                            {(provided, snapshot) => (
-                                                <div
-                                                    ref={provided.innerRef}
-                                                    {...provided.draggableProps}
-                                                    className={cn(
-                                                        "grid grid-cols-12 gap-4 p-4 items-center group transition-all duration-200",
-                                                        snapshot.isDragging
-                                                            ? "bg-background shadow-lg scale-[1.02] border border-primary/20 rounded-lg z-50"
-                                                            : "hover:bg-primary/5"
-                                                    )}
-                                                >
-                                                    {/* Drag Handle & Number */}
-                                                    <div className="col-span-1 flex items-center gap-3">
+                                    ) : (
+                                        chapters.map((chapter, index) => (
+                                            <Draggable key={chapter.id} draggableId={chapter.id} index={index}>
+                                                {(provided, snapshot) => (
+                                                    <div
+                                                        ref={provided.innerRef}
+                                                        {...provided.draggableProps}
+                                                        className={cn(
+                                                            "transition-all duration-200",
+                                                            snapshot.isDragging &&
+                                                                "bg-background shadow-lg scale-[1.02] border border-primary/20 rounded-lg z-50"
+                                                        )}
+                                                    >
                                                         <div
-                                                            {...provided.dragHandleProps}
-                                                            className="p-1.5 rounded-md text-muted-foreground/30 hover:text-foreground hover:bg-muted/50 cursor-grab active:cursor-grabbing transition-colors"
+                                                            className={cn(
+                                                                "grid grid-cols-12 gap-4 p-4 items-center group transition-all duration-200",
+                                                                !snapshot.isDragging && "hover:bg-primary/5"
+                                                            )}
                                                         >
-                                                            <GripVertical className="h-4 w-4" />
-                                                        </div>
-                                                        <span className="font-mono text-sm font-medium text-muted-foreground/50 w-6 text-center">
-                                                            {(index + 1).toString().padStart(2, "0")}
-                                                        </span>
-                                                    </div>
+                                                            {/* Drag Handle & Number */}
+                                                            <div className="col-span-1 flex items-center gap-3">
+                                                                <div
+                                                                    {...provided.dragHandleProps}
+                                                                    className="p-1.5 rounded-md text-muted-foreground/30 hover:text-foreground hover:bg-muted/50 cursor-grab active:cursor-grabbing transition-colors"
+                                                                >
+                                                                    <GripVertical className="h-4 w-4" />
+                                                                </div>
+                                                                <span className="font-mono text-sm font-medium text-muted-foreground/50 w-6 text-center">
+                                                                    {(index + 1).toString().padStart(2, "0")}
+                                                                </span>
+                                                            </div>
 
-                                                    {/* Title & Link */}
-                                                    <div className="col-span-6 md:col-span-5">
-                                                        <Link
-                                                            href={`/books/${bookId}/chapter/${chapter.id}`}
-                                                            className="flex items-center group/link w-full"
-                                                        >
-                                                            <span className="font-medium text-base text-foreground group-hover/link:text-primary transition-colors line-clamp-1">
-                                                                {chapter.title || t({ de: "Unbenanntes Kapitel", en: "Untitled chapter" })}
-                                                            </span>
-                                                            <ArrowRight className="h-3.5 w-3.5 ml-2 opacity-0 -translate-x-2 group-hover/link:opacity-100 group-hover/link:translate-x-0 transition-all text-primary" />
-                                                        </Link>
-                                                    </div>
+                                                            {/* Title & Link */}
+                                                            <div className="col-span-6 md:col-span-5">
+                                                                <Link
+                                                                    href={`/books/${bookId}/chapter/${chapter.id}`}
+                                                                    className="flex items-center group/link w-full"
+                                                                >
+                                                                    <span className="font-medium text-base text-foreground group-hover/link:text-primary transition-colors line-clamp-1">
+                                                                        {chapter.title || t({ de: "Unbenanntes Kapitel", en: "Untitled chapter" })}
+                                                                    </span>
+                                                                    <ArrowRight className="h-3.5 w-3.5 ml-2 opacity-0 -translate-x-2 group-hover/link:opacity-100 group-hover/link:translate-x-0 transition-all text-primary" />
+                                                                </Link>
+                                                            </div>
 
-                                                    {/* Status Badge */}
-                                                    <div className="col-span-2 hidden md:block">
-                                                        <span className={cn(
-                                                            "inline-flex items-center px-2.5 py-0.5 rounded-full text-[10px] font-medium border uppercase tracking-wider",
-                                                            getStatusColor(chapter.status)
-                                                        )}>
-                                                            {getStatusLabel(chapter.status)}
-                                                        </span>
-                                                    </div>
+                                                            {/* Status Badge */}
+                                                            <div className="col-span-2 hidden md:block">
+                                                                <span className={cn(
+                                                                    "inline-flex items-center px-2.5 py-0.5 rounded-full text-[10px] font-medium border uppercase tracking-wider",
+                                                                    getStatusColor(chapter.status)
+                                                                )}>
+                                                                    {getStatusLabel(chapter.status)}
+                                                                </span>
+                                                            </div>
 
-                                                    {/* Stats */}
-                                                    <div className="col-span-3 md:col-span-3 text-right">
-                                                        <div className="flex flex-col items-end pr-4">
-                                                            <div className="flex items-center gap-1.5 text-sm font-medium text-foreground">
-                                                                <AlignLeft className="h-3.5 w-3.5 text-muted-foreground" />
-                                                                {chapter.wordCount.toLocaleString(intlLocale)}
+                                                            {/* Stats */}
+                                                            <div className="col-span-3 md:col-span-3 text-right">
+                                                                <div className="flex flex-col items-end pr-4">
+                                                                    <div className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+                                                                        <AlignLeft className="h-3.5 w-3.5 text-muted-foreground" />
+                                                                        {chapter.wordCount.toLocaleString(intlLocale)}
+                                                                    </div>
+                                                                    <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                                                                        <Clock className="h-3 w-3" />
+                                                                        ~{getReadingTime(chapter.wordCount)} min
+                                                                    </div>
+                                                                </div>
                                                             </div>
-                                                            <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
-                                                                <Clock className="h-3 w-3" />
-                                                                ~{getReadingTime(chapter.wordCount)} min
+
+                                                            {/* Actions */}
+                                                            <div className="col-span-1 flex justify-end">
+                                                                <DropdownMenu>
+                                                                    <DropdownMenuTrigger className={cn(
+                                                                        "inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50 hover:bg-muted hover:text-foreground h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                                    )}>
+                                                                        <MoreVertical className="h-4 w-4" />
+                                                                    </DropdownMenuTrigger>
+                                                                    <DropdownMenuContent align="end" className="w-40">
+                                                                        <DropdownMenuItem asChild>
+                                                                            <Link href={`/books/${bookId}/chapter/${chapter.id}`}>
+                                                                                <Pencil className="mr-2 h-4 w-4" /> {t({ de: "Bearbeiten", en: "Edit" })}
+                                                                            </Link>
+                                                                        </DropdownMenuItem>
+                                                                        <DropdownMenuItem className="text-destructive focus:text-destructive">
+                                                                            <Trash2 className="mr-2 h-4 w-4" /> {t({ de: "Löschen", en: "Delete" })}
+                                                                        </DropdownMenuItem>
+                                                                    </DropdownMenuContent>
+                                                                </DropdownMenu>
                                                             </div>
                                                         </div>
-                                                    </div>
 
-                                                    {/* Actions */}
-                                                    <div className="col-span-1 flex justify-end">
-                                                        <DropdownMenu>
-                                                            <DropdownMenuTrigger className={cn(
-                                                                "inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50 hover:bg-muted hover:text-foreground h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
-                                                            )}>
-                                                                <MoreVertical className="h-4 w-4" />
-                                                            </DropdownMenuTrigger>
-                                                            <DropdownMenuContent align="end" className="w-40">
-                                                                <DropdownMenuItem asChild>
-                                                                    <Link href={`/books/${bookId}/chapter/${chapter.id}`}>
-                                                                        <Pencil className="mr-2 h-4 w-4" /> {t({ de: "Bearbeiten", en: "Edit" })}
-                                                                    </Link>
-                                                                </DropdownMenuItem>
-                                                                <DropdownMenuItem className="text-destructive focus:text-destructive">
-                                                                    <Trash2 className="mr-2 h-4 w-4" /> {t({ de: "Löschen", en: "Delete" })}
-                                                                </DropdownMenuItem>
-                                                            </DropdownMenuContent>
-                                                        </DropdownMenu>
+                                                        {/* Scenes */}
+                                                        <Droppable droppableId={chapter.id} type="scene">
+                                                            {(sceneProvided, sceneSnapshot) => (
+                                                                <div
+                                                                    {...sceneProvided.droppableProps}
+                                                                    ref={sceneProvided.innerRef}
+                                                                    className={cn(
+                                                                        "ml-14 mr-4 mb-3 space-y-1.5 rounded-lg transition-colors",
+                                                                        chapter.scenes.length === 0 && "min-h-2",
+                                                                        sceneSnapshot.isDraggingOver && "bg-primary/5 min-h-10"
+                                                                    )}
+                                                                >
+                                                                    {chapter.scenes.map((scene, sceneIndex) => {
+                                                                        const pov = characters.find((c) => c.id === scene.povCharacterId);
+                                                                        const location = locations.find((l) => l.id === scene.locationId);
+                                                                        return (
+                                                                            <Draggable key={scene.id} draggableId={scene.id} index={sceneIndex}>
+                                                                                {(sceneDragProvided, sceneDragSnapshot) => (
+                                                                                    <div
+                                                                                        ref={sceneDragProvided.innerRef}
+                                                                                        {...sceneDragProvided.draggableProps}
+                                                                                        {...sceneDragProvided.dragHandleProps}
+                                                                                        onClick={() => setEditingScene(scene)}
+                                                                                        className={cn(
+                                                                                            "flex items-center gap-3 px-3 py-2 rounded-md border border-border/40 bg-background/60 text-sm cursor-grab active:cursor-grabbing hover:border-primary/30",
+                                                                                            sceneDragSnapshot.isDragging && "shadow-lg border-primary/30"
+                                                                                        )}
+                                                                                    >
+                                                                                        <Clapperboard className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                                                                                        <span className="font-medium line-clamp-1">
+                                                                                            {scene.title || t({ de: "Unbenannte Szene", en: "Untitled scene" })}
+                                                                                        </span>
+                                                                                        {pov && (
+                                                                                            <span className="hidden md:flex items-center gap-1 text-xs text-muted-foreground">
+                                                                                                <User className="h-3 w-3" />
+                                                                                                {pov.name}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {location && (
+                                                                                            <span className="hidden md:flex items-center gap-1 text-xs text-muted-foreground">
+                                                                                                <MapPin className="h-3 w-3" />
+                                                                                                {location.name}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {scene.timeMarker && (
+                                                                                            <span className="hidden md:flex items-center gap-1 text-xs text-muted-foreground">
+                                                                                                <Clock className="h-3 w-3" />
+                                                                                                {scene.timeMarker}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        <span className="ml-auto text-xs text-muted-foreground">
+                                                                                            {scene.wordCount.toLocaleString(intlLocale)}
+                                                                                        </span>
+                                                                                    </div>
+                                                                                )}
+                                                                            </Draggable>
+                                                                        );
+                                                                    })}
+                                                                    {sceneProvided.placeholder}
+                                                                </div>
+                                                            )}
+                                                        </Droppable>
                                                     </div>
-                                                </div>
-                                            )}
-                                        </Draggable>
-                                    ))
-                                )}
-                                {provided.placeholder}
-                            </div>
-                        )}
-                    </Droppable>
-                </DragDropContext>
-            </div>
+                                                )}
+                                            </Draggable>
+                                        ))
+                                    )}
+                                    {provided.placeholder}
+                                </div>
+                            )}
+                        </Droppable>
+                    </DragDropContext>
+                </div>
+            )}
+
+            {editingScene && (
+                <SceneForm
+                    bookId={bookId}
+                    scene={editingScene}
+                    characters={characters}
+                    locations={locations}
+                    onSave={(savedScene) => {
+                        onSceneSave(savedScene);
+                        setEditingScene(null);
+                    }}
+                    onCancel={() => setEditingScene(null)}
+                />
+            )}
         </div>
     );
 }
@@ -11,6 +11,8 @@ import { useI18n } from "@/components/locale-provider";
 type Character = {
     id: string;
     name: string;
+    aliases: string | null;
+    pronouns: string | null;
     role: string;
     description: string | null;
     personality: string | null;
@@ -20,6 +22,7 @@ type Character = {
     arc: string | null;
     notes: string | null;
     imageUrl: string | null;
+    deathChapterId: string | null;
 };
 
 type GeneratedCharacter = {
@@ -0,0 +1,398 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2, Pencil, Sparkles, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/components/locale-provider";
+import {
+    formatMood,
+    MOOD_MAX,
+    MOOD_MIN,
+    type CharacterStateData,
+    type CharacterStateInput,
+    type StateTextField,
+} from "@/lib/character-arc";
+import { cn } from "@/lib/utils";
+
+type ArcChapter = {
+    id: string;
+    title: string;
+    orderIndex: number;
+    wordCount: number;
+    // Prominence of the character in the chapter, null when not linked
+    prominence: string | null;
+};
+
+interface CharacterArcTrackerProps {
+    bookId: string;
+    characterId: string;
+}
+
+const emptyState: CharacterStateInput = { mood: null, emotion: null, goal: null, knowledge: null, relationships: null };
+
+const CHART_HEIGHT = 96;
+const CHART_STEP = 40;
+const CHART_PADDING = 12;
+
+export default function CharacterArcTracker({ bookId, characterId }: CharacterArcTrackerProps) {
+    const { t } = useI18n();
+    const [chapters, setChapters] = useState<ArcChapter[]>([]);
+    const [states, setStates] = useState<CharacterStateData[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showAllChapters, setShowAllChapters] = useState(false);
+    const [editingChapterId, setEditingChapterId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<CharacterStateInput>(emptyState);
+    const [isSaving, setIsSaving] = useState(false);
+    // Progress while the AI goes through several chapters
+    const [extractQueue, setExtractQueue] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fieldLabels: Record<StateTextField, string> = {
+        emotion: t({ de: "Gefühlslage", en: "Emotional state" }),
+        goal: t({ de: "Ziel", en: "Goal" }),
+        knowledge: t({ de: "Wissen", en: "Knowledge" }),
+        relationships: t({ de: "Beziehungen", en: "Relationships" }),
+    };
+
+    const loadStates = useCallback(async () => {
+        try {
+            const response = await fetch(`/api/books/${bookId}/characters/${characterId}/states`);
+            if (response.ok) {
+                const data = await response.json();
+                setChapters(data.chapters);
+                setStates(data.states);
+            }
+        } catch (err) {
+            console.error("Error loading character states:", err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [bookId, characterId]);
+
+    useEffect(() => {
+        loadStates();
+    }, [loadStates]);
+
+    const stateByChapter = useMemo(() => {
+        const map: Record<string, CharacterStateData> = {};
+        for (const state of states) map[state.chapterId] = state;
+        return map;
+    }, [states]);
+
+    const visibleChapters = showAllChapters
+        ? chapters
+        : chapters.filter((chapter) => chapter.prominence || stateByChapter[chapter.id]);
+
+    // Mood points for the chart, x by chapter position
+    const points = chapters
+        .map((chapter, index) => ({ index, mood: stateByChapter[chapter.id]?.mood ?? null }))
+        .filter((point): point is { index: number; mood: number } => point.mood !== null);
+    const chartWidth = Math.max(chapters.length - 1, 1) * CHART_STEP + CHART_PADDING * 2;
+    const x = (index: number) => CHART_PADDING + index * CHART_STEP;
+    const y = (mood: number) => CHART_PADDING + ((MOOD_MAX - mood) / (MOOD_MAX - MOOD_MIN)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+    const startEditing = (chapterId: string) => {
+        const state = stateByChapter[chapterId];
+        setDraft(state
+            ? { mood: state.mood, emotion: state.emotion, goal: state.goal, knowledge: state.knowledge, relationships: state.relationships }
+            : emptyState);
+        setEditingChapterId(chapterId);
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!editingChapterId) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/characters/${characterId}/states`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ chapterId: editingChapterId, ...draft }),
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.error || t({ de: "Fehler beim Speichern", en: "Failed to save" }));
+            }
+            const saved: CharacterStateData = await response.json();
+            setStates((current) => [...current.filter((state) => state.chapterId !== saved.chapterId), saved]);
+            setEditingChapterId(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (chapterId: string) => {
+        try {
+            const response = await fetch(`/api/books/${bookId}/characters/${characterId}/states/${chapterId}`, {
+                method: "DELETE",
+            });
+            if (response.ok) {
+                setStates((current) => current.filter((state) => state.chapterId !== chapterId));
+            }
+        } catch (err) {
+            console.error("Error deleting character state:", err);
+        }
+    };
+
+    const extract = async (chapterId: string, overwrite: boolean) => {
+        const response = await fetch(`/api/books/${bookId}/ai/character-states`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ chapterId, characterIds: [characterId], overwrite }),
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => null);
+            throw new Error(data?.details || data?.error || t({ de: "KI-Analyse fehlgeschlagen", en: "AI analysis failed" }));
+        }
+        const data = await response.json();
+        const extracted: CharacterStateData[] = data.states;
+        setStates((current) => [
+            ...current.filter((state) => !extracted.some((entry) => entry.chapterId === state.chapterId)),
+            ...extracted,
+        ]);
+    };
+
+    // Every written chapter the character appears in; entries made by hand are kept
+    const extractTargets = chapters.filter((chapter) =>
+        chapter.prominence && chapter.wordCount > 0 && stateByChapter[chapter.id]?.source !== "manual"
+    );
+
+    const handleExtractAll = async () => {
+        const targets = extractTargets;
+        if (targets.length === 0) return;
+
+        setError(null);
+        setExtractQueue({ done: 0, total: targets.length });
+        try {
+            for (const [index, chapter] of targets.entries()) {
+                await extract(chapter.id, false);
+                setExtractQueue({ done: index + 1, total: targets.length });
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setExtractQueue(null);
+        }
+    };
+
+    const handleExtractOne = async () => {
+        if (!editingChapterId) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await extract(editingChapterId, true);
+            setEditingChapterId(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const summary = (state: CharacterStateData) =>
+        (["emotion", "goal", "knowledge", "relationships"] as const)
+            .filter((field) => state[field])
+            .map((field) => `${fieldLabels[field]}: ${state[field]}`)
+            .join(" · ");
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t({ de: "Lade Verlauf...", en: "Loading arc..." })}
+            </div>
+        );
+    }
+
+    if (chapters.length === 0) {
+        return (
+            <p className="text-xs text-muted-foreground">
+                {t({ de: "Sobald es Kapitel gibt, lässt sich hier der Verlauf festhalten.", en: "Once there are chapters, the arc can be tracked here." })}
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={showAllChapters}
+                        onChange={(e) => setShowAllChapters(e.target.checked)}
+                        className="h-3.5 w-3.5 rounded border-gray-300"
+                    />
+                    {t({ de: "Alle Kapitel zeigen", en: "Show all chapters" })}
+                </label>
+                <Button type="button" variant="outline" size="sm" onClick={handleExtractAll} disabled={extractQueue !== null || extractTargets.length === 0}>
+                    {extractQueue ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <Sparkles className="mr-2 h-3.5 w-3.5" />}
+                    {extractQueue
+                        ? t({ de: "Kapitel {{done}} von {{total}}...", en: "Chapter {{done}} of {{total}}..." }, { done: Math.min(extractQueue.done + 1, extractQueue.total), total: extractQueue.total })
+                        : t({ de: "Mit KI aus den Kapiteln ermitteln", en: "Extract from chapters with AI" })}
+                </Button>
+            </div>
+
+            {/* Mood chart */}
+            {points.length > 0 && (
+                <div className="overflow-x-auto rounded-md border bg-muted/20">
+                    <svg width={chartWidth} height={CHART_HEIGHT + 16} className="block">
+                        <line
+                            x1={CHART_PADDING}
+                            x2={chartWidth - CHART_PADDING}
+                            y1={y(0)}
+                            y2={y(0)}
+                            className="stroke-border"
+                            strokeDasharray="4 4"
+                        />
+                        <polyline
+                            points={points.map((point) => `${x(point.index)},${y(point.mood)}`).join(" ")}
+                            fill="none"
+                            className="stroke-primary"
+                            strokeWidth={2}
+                        />
+                        {chapters.map((chapter, index) => {
+                            const state = stateByChapter[chapter.id];
+                            return (
+                                <g key={chapter.id}>
+                                    {state?.mood !== null && state?.mood !== undefined && (
+                                        <circle cx={x(index)} cy={y(state.mood)} r={4} className="fill-primary">
+                                            <title>{`${index + 1}. ${chapter.title}: ${formatMood(state.mood)}${state.emotion ? ` – ${state.emotion}` : ""}`}</title>
+                                        </circle>
+                                    )}
+                                    <text
+                                        x={x(index)}
+                                        y={CHART_HEIGHT + 12}
+                                        textAnchor="middle"
+                                        className={cn("text-[10px]", chapter.prominence ? "fill-foreground" : "fill-muted-foreground")}
+                                    >
+                                        {index + 1}
+                                    </text>
+                                </g>
+                            );
+                        })}
+                    </svg>
+                </div>
+            )}
+
+            {/* Per-chapter states */}
+            <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+                {visibleChapters.length === 0 && (
+                    <p className="p-3 text-xs text-muted-foreground">
+                        {t({ de: "Die Figur ist noch keinem Kapitel zugeordnet.", en: "The character is not linked to any chapter yet." })}
+                    </p>
+                )}
+                {visibleChapters.map((chapter) => {
+                    const state = stateByChapter[chapter.id];
+                    const number = chapters.indexOf(chapter) + 1;
+
+                    if (editingChapterId === chapter.id) {
+                        return (
+                            <div key={chapter.id} className="p-3 space-y-2 bg-muted/30">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-sm font-medium">{number}. {chapter.title}</span>
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <span className="text-muted-foreground">{t({ de: "Stimmung", en: "Mood" })}</span>
+                                        <input
+                                            type="range"
+                                            min={MOOD_MIN}
+                                            max={MOOD_MAX}
+                                            value={draft.mood ?? 0}
+                                            onChange={(e) => setDraft((current) => ({ ...current, mood: Number(e.target.value) }))}
+                                            className={cn("w-28", draft.mood === null && "opacity-40")}
+                                        />
+                                        <span className="w-6 text-right tabular-nums">{draft.mood === null ? "–" : formatMood(draft.mood)}</span>
+                                        {draft.mood !== null && (
+                                            <button
+                                                type="button"
+                                                onClick={() => setDraft((current) => ({ ...current, mood: null }))}
+                                                className="text-muted-foreground hover:text-foreground"
+                                            >
+                                                {t({ de: "leeren", en: "clear" })}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(["emotion", "goal", "knowledge", "relationships"] as const).map((field) => (
+                                        <Input
+                                            key={field}
+                                            value={draft[field] ?? ""}
+                                            onChange={(e) => setDraft((current) => ({ ...current, [field]: e.target.value }))}
+                                            placeholder={fieldLabels[field]}
+                                            className="h-8 text-sm"
+                                        />
+                                    ))}
+                                </div>
+                                <div className="flex justify-between gap-2">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={handleExtractOne}
+                                        disabled={isSaving || chapter.wordCount === 0}
+                                    >
+                                        <Sparkles className="mr-1 h-3.5 w-3.5" />
+                                        {t({ de: "Mit KI ermitteln", en: "Extract with AI" })}
+                                    </Button>
+                                    <div className="flex gap-2">
+                                        <Button type="button" variant="outline" size="sm" onClick={() => setEditingChapterId(null)}>
+                                            {t({ de: "Abbrechen", en: "Cancel" })}
+                                        </Button>
+                                        <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+                                            {isSaving && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                                            {t({ de: "Übernehmen", en: "Apply" })}
+                                        </Button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    }
+
+                    return (
+                        <div key={chapter.id} className="group flex items-start gap-3 px-3 py-2 text-sm">
+                            <span className={cn("w-36 shrink-0 truncate", !chapter.prominence && "text-muted-foreground")}>
+                                {number}. {chapter.title}
+                            </span>
+                            <span className="w-8 shrink-0 text-right tabular-nums text-muted-foreground">
+                                {state?.mood !== null && state?.mood !== undefined ? formatMood(state.mood) : ""}
+                            </span>
+                            <span className="flex-1 min-w-0 text-xs text-muted-foreground line-clamp-2">
+                                {state ? summary(state) : t({ de: "Noch kein Eintrag", en: "No entry yet" })}
+                                {state?.source === "ai" && (
+                                    <span className="ml-1 rounded bg-primary/10 px-1 text-[10px] text-primary">{t({ de: "KI", en: "AI" })}</span>
+                                )}
+                            </span>
+                            <div className="flex shrink-0 gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Button type="button" variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => startEditing(chapter.id)}>
+                                    <Pencil className="h-3 w-3" />
+                                </Button>
+                                {state && (
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0 text-destructive"
+                                        onClick={() => handleDelete(chapter.id)}
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {error && (
+                <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                    {error}
+                </div>
+            )}
+        </div>
+    );
+}
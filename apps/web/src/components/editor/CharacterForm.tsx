@@ -7,10 +7,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useI18n } from "@/components/locale-provider";
+import CharacterArcTracker from "@/components/editor/CharacterArcTracker";
+import EntityBacklinks from "@/components/editor/EntityBacklinks";
 
 type Character = {
     id: string;
     name: string;
+    aliases: string | null;
+    pronouns: string | null;
     role: string;
     description: string | null;
     personality: string | null;
@@ -20,6 +24,7 @@ type Character = {
     arc: string | null;
     notes: string | null;
     imageUrl: string | null;
+    deathChapterId: string | null;
 };
 
 type CharacterInput = Omit<Character, "id">;
@@ -27,6 +32,8 @@ type CharacterInput = Omit<Character, "id">;
 interface CharacterFormProps {
     bookId: string;
     character?: Character;
+    // For the chapter in which the character dies
+    chapters?: { id: string; title: string }[];
     onSave?: (character: Character) => void;
     onCancel?: () => void;
 }
@@ -34,6 +41,7 @@ interface CharacterFormProps {
 export default function CharacterForm({
     bookId,
     character,
+    chapters = [],
     onSave,
     onCancel,
 }: CharacterFormProps) {
@@ -49,6 +57,8 @@ export default function CharacterForm({
     ]), [t]);
 
     const [name, setName] = useState(character?.name || "");
+    const [aliases, setAliases] = useState(character?.aliases || "");
+    const [pronouns, setPronouns] = useState(character?.pronouns || "");
     const [role, setRole] = useState(character?.role || "supporting");
     const [description, setDescription] = useState(character?.description || "");
     const [personality, setPersonality] = useState(character?.personality || "");
@@ -58,6 +68,7 @@ export default function CharacterForm({
     const [arc, setArc] = useState(character?.arc || "");
     const [notes, setNotes] = useState(character?.notes || "");
     const [imageUrl, setImageUrl] = useState(character?.imageUrl || "");
+    const [deathChapterId, setDeathChapterId] = useState(character?.deathChapterId || "");
     const [isSaving, setIsSaving] = useState(false);
     const [isUploading, setIsUploading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -103,6 +114,8 @@ export default function CharacterForm({
         try {
             const body: CharacterInput = {
                 name: name.trim(),
+                aliases: aliases.trim() || null,
+                pronouns: pronouns.trim() || null,
                 role,
                 description: description || null,
                 personality: personality || null,
@@ -112,6 +125,7 @@ export default function CharacterForm({
                 arc: arc || null,
                 notes: notes || null,
                 imageUrl: imageUrl || null,
+                deathChapterId: deathChapterId || null,
             };
 
             const url = isEditing
@@ -226,6 +240,37 @@ export default function CharacterForm({
                         </Button>
                     )}
 
+                    {/* Aliases & Pronouns */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-3 sm:col-span-2 space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Spitznamen & Aliase", en: "Nicknames & aliases" })}</label>
+                            <textarea
+                                value={aliases}
+                                onChange={(e) => setAliases(e.target.value)}
+                                placeholder={t({
+                                    de: "Einer pro Zeile, z.B. Annie, Frau Schmidt, Annas",
+                                    en: "One per line, e.g. Annie, Miss Schmidt",
+                                })}
+                                rows={2}
+                                className="w-full px-3 py-2 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+                            />
+                        </div>
+                        <div className="col-span-3 sm:col-span-1 space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Pronomen", en: "Pronouns" })}</label>
+                            <Input
+                                value={pronouns}
+                                onChange={(e) => setPronouns(e.target.value)}
+                                placeholder={t({ de: "z.B. sie/ihr", en: "e.g. she/her" })}
+                            />
+                        </div>
+                        <p className="col-span-3 -mt-2 text-xs text-muted-foreground">
+                            {t({
+                                de: "Titel und gebeugte Formen gehören mit in die Liste. Suche, Figurenpräsenz, Namensprüfung und KI-Assistent kennen die Figur dann unter allen Namen.",
+                                en: "Add titles and inflected forms as well. Search, character presence, the name check and the AI assistant then know the character by all of these names.",
+                            })}
+                        </p>
+                    </div>
+
                     {/* Description */}
                     <div className="space-y-2">
                         <label className="text-sm font-medium">{t({ de: "Kurzbeschreibung", en: "Short description" })}</label>
@@ -263,6 +308,12 @@ export default function CharacterForm({
                             placeholder={t({ de: "Physische Beschreibung, Kleidungsstil...", en: "Physical description, style..." })}
                             className="w-full min-h-[80px] px-3 py-2 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring"
                         />
+                        <p className="text-xs text-muted-foreground">
+                            {t({
+                                de: "Augen- und Haarfarbe (z.B. „grüne Augen, rote Haare“) gleicht die Konsistenzprüfung mit dem Kapiteltext ab.",
+                                en: "The consistency check compares eye and hair colour (e.g. “green eyes, red hair”) with the chapter text.",
+                            })}
+                        </p>
                     </div>
 
                     {/* Backstory */}
@@ -301,6 +352,48 @@ export default function CharacterForm({
                         />
                     </div>
 
+                    {/* Death */}
+                    {chapters.length > 0 && (
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Stirbt in Kapitel", en: "Dies in chapter" })}</label>
+                            <select
+                                value={deathChapterId}
+                                onChange={(e) => setDeathChapterId(e.target.value)}
+                                className="w-full h-10 px-3 rounded-md border border-input bg-background text-sm"
+                            >
+                                <option value="">{t({ de: "Lebt (bis zum Ende)", en: "Alive (until the end)" })}</option>
+                                {chapters.map((chapter, index) => (
+                                    <option key={chapter.id} value={chapter.id}>
+                                        {index + 1}. {chapter.title}
+                                    </option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-muted-foreground">
+                                {t({
+                                    de: "Tritt die Figur in späteren Kapiteln noch auf, meldet die Konsistenzprüfung das.",
+                                    en: "The consistency check reports it when the character still appears in later chapters.",
+                                })}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Arc per chapter */}
+                    {character && (
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Verlauf über die Kapitel", en: "Arc across chapters" })}</label>
+                            <p className="text-xs text-muted-foreground">
+                                {t({
+                                    de: "Wo die Figur am Ende jedes Kapitels steht. Der KI-Assistent schreibt ab dem letzten Stand weiter.",
+                                    en: "Where the character stands at the end of each chapter. The AI assistant continues from the latest state.",
+                                })}
+                            </p>
+                            <CharacterArcTracker bookId={bookId} characterId={character.id} />
+                        </div>
+                    )}
+
+                    {/* Chapters linking the character */}
+                    {character && <EntityBacklinks bookId={bookId} type="character" entityId={character.id} />}
+
                     {/* Notes */}
                     <div className="space-y-2">
                         <label className="text-sm font-medium">{t({ de: "Notizen", en: "Notes" })}</label>
@@ -0,0 +1,245 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, Check, Loader2, ScanSearch, UserCheck } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useI18n } from "@/components/locale-provider";
+import { findCharacterAbsences, type PresenceSuggestion } from "@/lib/character-presence";
+import { cn } from "@/lib/utils";
+
+type Props = {
+    bookId: string;
+    chapters: { id: string; title: string; wordCount: number; chapterCharacters: { characterId: string }[] }[];
+    characters: { id: string; name: string; role: string }[];
+    autoDetect: boolean;
+    onAutoDetectChange: (autoDetect: boolean) => void;
+    // Called after links were changed, so the chapters can be reloaded
+    onApplied: () => void;
+};
+
+const suggestionKey = (suggestion: PresenceSuggestion) => `${suggestion.chapterId}:${suggestion.characterId}`;
+
+export default function CharacterPresencePanel({
+    bookId,
+    chapters,
+    characters,
+    autoDetect,
+    onAutoDetectChange,
+    onApplied,
+}: Props) {
+    const { t } = useI18n();
+    const [suggestions, setSuggestions] = useState<PresenceSuggestion[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isDetecting, setIsDetecting] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const prominenceLabels: Record<string, string> = {
+        featured: t({ de: "Hauptrolle", en: "Featured" }),
+        mentioned: t({ de: "Erwähnt", en: "Mentioned" }),
+        cameo: t({ de: "Kurzauftritt", en: "Cameo" }),
+    };
+
+    const absences = useMemo(
+        () => findCharacterAbsences(
+            chapters.map((chapter) => ({
+                wordCount: chapter.wordCount,
+                characterIds: chapter.chapterCharacters.map((link) => link.characterId),
+            })),
+            characters
+        ),
+        [chapters, characters]
+    );
+
+    const characterName = (characterId: string) =>
+        characters.find((character) => character.id === characterId)?.name ?? "?";
+    const chapterIndex = (chapterId: string) => chapters.findIndex((chapter) => chapter.id === chapterId);
+
+    const handleDetect = async () => {
+        setIsDetecting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/characters/presence`);
+            if (!response.ok) {
+                throw new Error(t({ de: "Analyse fehlgeschlagen", en: "Analysis failed" }));
+            }
+            const data = await response.json();
+            setSuggestions(data.suggestions);
+            setSelected(new Set(data.suggestions.map(suggestionKey)));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsDetecting(false);
+        }
+    };
+
+    const handleApply = async () => {
+        setIsApplying(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/characters/presence`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ only: [...selected] }),
+            });
+            if (!response.ok) {
+                throw new Error(t({ de: "Fehler beim Speichern", en: "Failed to save" }));
+            }
+            setSuggestions(null);
+            setSelected(new Set());
+            onApplied();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    const toggle = (key: string) => {
+        setSelected((current) => {
+            const next = new Set(current);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const actionLabel = (suggestion: PresenceSuggestion) => {
+        if (suggestion.action === "remove") return t({ de: "Entfernen – nicht mehr im Text", en: "Remove – no longer in the text" });
+        const prominence = prominenceLabels[suggestion.prominence!] ?? suggestion.prominence!;
+        if (suggestion.action === "update") {
+            return t({ de: "{{from}} → {{to}}", en: "{{from}} → {{to}}" }, {
+                from: prominenceLabels[suggestion.current?.prominence ?? ""] ?? suggestion.current?.prominence ?? "",
+                to: prominence,
+            });
+        }
+        return t({ de: "Hinzufügen als {{prominence}}", en: "Add as {{prominence}}" }, { prominence });
+    };
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                            <UserCheck className="h-5 w-5 text-primary" />
+                            {t({ de: "Figurenpräsenz", en: "Character presence" })}
+                        </CardTitle>
+                        <CardDescription>
+                            {t({
+                                de: "Findet Namen, Teilnamen und Aliase der Figuren im Kapiteltext und gleicht die Kapitelzuordnung ab.",
+                                en: "Finds names, name parts and aliases of characters in the chapter text and updates the chapter cast.",
+                            })}
+                        </CardDescription>
+                    </div>
+                    <Button variant="outline" onClick={handleDetect} disabled={isDetecting || chapters.length === 0}>
+                        {isDetecting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanSearch className="mr-2 h-4 w-4" />}
+                        {t({ de: "Im Text suchen", en: "Scan text" })}
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        id="auto-detect-presence"
+                        checked={autoDetect}
+                        onChange={(e) => onAutoDetectChange(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <Label htmlFor="auto-detect-presence" className="text-sm cursor-pointer text-muted-foreground">
+                        {t({
+                            de: "Beim Speichern eines Kapitels automatisch übernehmen (von Hand gesetzte Zuordnungen bleiben)",
+                            en: "Apply automatically when a chapter is saved (links set by hand are kept)",
+                        })}
+                    </Label>
+                </div>
+
+                {/* Absence warnings */}
+                {absences.length > 0 && (
+                    <div className="space-y-2">
+                        {absences.map((absence) => (
+                            <div
+                                key={`${absence.characterId}-${absence.fromChapter}`}
+                                className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/5 p-3 text-sm"
+                            >
+                                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5 text-yellow-500" />
+                                <span>
+                                    {absence.ongoing
+                                        ? t({
+                                            de: "{{name}} fehlt seit {{count}} Kapiteln (ab Kapitel {{from}}).",
+                                            en: "{{name}} has been absent for {{count}} chapters (since chapter {{from}}).",
+                                        }, { name: characterName(absence.characterId), count: absence.length, from: absence.fromChapter })
+                                        : t({
+                                            de: "{{name}} fehlt {{count}} Kapitel lang (Kapitel {{from}}–{{to}}).",
+                                            en: "{{name}} is absent for {{count}} chapters (chapters {{from}}–{{to}}).",
+                                        }, { name: characterName(absence.characterId), count: absence.length, from: absence.fromChapter, to: absence.toChapter })}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Suggestions */}
+                {suggestions && (
+                    suggestions.length === 0 ? (
+                        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Check className="h-4 w-4 text-green-500" />
+                            {t({ de: "Die Zuordnungen passen zum Text.", en: "The chapter cast matches the text." })}
+                        </p>
+                    ) : (
+                        <div className="space-y-2">
+                            <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+                                {suggestions.map((suggestion) => {
+                                    const key = suggestionKey(suggestion);
+                                    const index = chapterIndex(suggestion.chapterId);
+                                    return (
+                                        <label key={key} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/50">
+                                            <input
+                                                type="checkbox"
+                                                checked={selected.has(key)}
+                                                onChange={() => toggle(key)}
+                                                className="h-4 w-4 rounded border-gray-300"
+                                            />
+                                            <span className="w-40 truncate text-muted-foreground">
+                                                {index + 1}. {chapters[index]?.title}
+                                            </span>
+                                            <span className="font-medium">{characterName(suggestion.characterId)}</span>
+                                            <span className={cn("flex-1 text-right text-xs", suggestion.action === "remove" ? "text-destructive" : "text-muted-foreground")}>
+                                                {actionLabel(suggestion)}
+                                                {suggestion.mentionCount > 0 && (
+                                                    <> · {t({ de: "{{count}}× genannt", en: "{{count}}× mentioned" }, { count: suggestion.mentionCount })}</>
+                                                )}
+                                            </span>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => setSuggestions(null)}>
+                                    {t({ de: "Verwerfen", en: "Dismiss" })}
+                                </Button>
+                                <Button size="sm" onClick={handleApply} disabled={isApplying || selected.size === 0}>
+                                    {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    {t({ de: "{{count}} übernehmen", en: "Apply {{count}}" }, { count: selected.size })}
+                                </Button>
+                            </div>
+                        </div>
+                    )
+                )}
+
+                {error && (
+                    <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                        {error}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
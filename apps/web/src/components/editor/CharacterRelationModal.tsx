@@ -1,11 +1,12 @@
 "use client";
 
 import { useState } from "react";
-import { X, Plus, Trash2, Users, Heart, Swords, UserPlus, Handshake, GraduationCap, Trophy } from "lucide-react";
+import { X, Plus, Trash2, Users, Heart, Swords, UserPlus, Handshake, GraduationCap, Trophy, Unlink, History } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { NO_RELATION, sortRelationChanges, type RelationChange } from "@/lib/relation-history";
 
 type Character = {
     id: string;
@@ -19,6 +20,8 @@ type Relation = {
     relatedCharacterId: string;
     relationType: string;
     description: string | null;
+    // Type and description from a chapter on; the fields above are the state at the start
+    changes: RelationChange[];
 };
 
 type CharacterWithRelations = Character & {
@@ -27,12 +30,20 @@ type CharacterWithRelations = Character & {
         relationType: string;
         description: string | null;
         relatedCharacter: Character;
+        changes?: RelationChange[];
     }>;
 };
 
+type Chapter = {
+    id: string;
+    title: string;
+    orderIndex: number;
+};
+
 type Props = {
     character: CharacterWithRelations;
     allCharacters: Character[];
+    chapters: Chapter[];
     bookId: string;
     onSave: (updatedRelations: Relation[]) => void;
     onClose: () => void;
@@ -46,6 +57,7 @@ const RELATION_TYPES = [
     { value: "colleague", label: "Kollege", icon: UserPlus, color: "text-gray-500", bgColor: "bg-gray-500/10" },
     { value: "rival", label: "Rivale", icon: Trophy, color: "text-orange-500", bgColor: "bg-orange-500/10" },
     { value: "mentor", label: "Mentor", icon: GraduationCap, color: "text-yellow-500", bgColor: "bg-yellow-500/10" },
+    { value: NO_RELATION, label: "Keine Beziehung", icon: Unlink, color: "text-muted-foreground", bgColor: "bg-muted" },
 ];
 
 export function getRelationTypeInfo(type: string) {
@@ -55,6 +67,7 @@ export function getRelationTypeInfo(type: string) {
 export default function CharacterRelationModal({
     character,
     allCharacters,
+    chapters,
     bookId,
     onSave,
     onClose,
@@ -66,10 +79,14 @@ export default function CharacterRelationModal({
             relatedCharacterId: r.relatedCharacter.id,
             relationType: r.relationType,
             description: r.description,
+            changes: r.changes ?? [],
         }))
     );
     const [isSaving, setIsSaving] = useState(false);
 
+    const sortedChapters = [...chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+    const chapterPositions = Object.fromEntries(sortedChapters.map((chapter, index) => [chapter.id, index]));
+
     // Available characters (exclude current character and already related)
     const relatedIds = new Set(relations.map(r => r.relatedCharacterId));
     const availableCharacters = allCharacters.filter(
@@ -79,20 +96,53 @@ export default function CharacterRelationModal({
     const addRelation = (targetId: string) => {
         setRelations([
             ...relations,
-            { relatedCharacterId: targetId, relationType: "friend", description: null }
+            { relatedCharacterId: targetId, relationType: "friend", description: null, changes: [] }
         ]);
     };
 
+    const updateRelation = (index: number, patch: Partial<Relation>) => {
+        setRelations(relations.map((relation, i) => (i === index ? { ...relation, ...patch } : relation)));
+    };
+
     const updateRelationType = (index: number, type: string) => {
-        const updated = [...relations];
-        updated[index].relationType = type;
-        setRelations(updated);
+        updateRelation(index, { relationType: type });
     };
 
     const updateRelationDescription = (index: number, description: string) => {
-        const updated = [...relations];
-        updated[index].description = description || null;
-        setRelations(updated);
+        updateRelation(index, { description: description || null });
+    };
+
+    // A new change goes to the first chapter after the last one and starts from the type in effect there
+    const addChange = (index: number) => {
+        const relation = relations[index];
+        if (!relation) return;
+        const sorted = sortRelationChanges(relation.changes, chapterPositions);
+        const last = sorted[sorted.length - 1];
+        const used = new Set(relation.changes.map((change) => change.chapterId));
+        const lastPosition = last ? chapterPositions[last.chapterId] ?? -1 : -1;
+        const chapter = sortedChapters.find((item, position) => position > lastPosition && !used.has(item.id))
+            ?? sortedChapters.find((item) => !used.has(item.id));
+        if (!chapter) return;
+        updateRelation(index, {
+            changes: [
+                ...relation.changes,
+                { chapterId: chapter.id, relationType: last?.relationType ?? relation.relationType, description: null },
+            ],
+        });
+    };
+
+    const updateChange = (index: number, chapterId: string, patch: Partial<RelationChange>) => {
+        const relation = relations[index];
+        if (!relation) return;
+        updateRelation(index, {
+            changes: relation.changes.map((change) => (change.chapterId === chapterId ? { ...change, ...patch } : change)),
+        });
+    };
+
+    const removeChange = (index: number, chapterId: string) => {
+        const relation = relations[index];
+        if (!relation) return;
+        updateRelation(index, { changes: relation.changes.filter((change) => change.chapterId !== chapterId) });
     };
 
     const removeRelation = (index: number) => {
@@ -211,6 +261,80 @@ export default function CharacterRelationModal({
                                                 placeholder="Beschreibung (optional)..."
                                                 className="mt-3"
                                             />
+
+                                            {/* History */}
+                                            {sortedChapters.length > 0 && (
+                                                <div className="mt-3 space-y-2 border-l-2 border-muted pl-3">
+                                                    {relation.changes.length > 0 && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            Oben steht der Stand zu Beginn des Buches, darunter die Änderungen im Verlauf.
+                                                        </p>
+                                                    )}
+                                                    {sortRelationChanges(relation.changes, chapterPositions).map(change => {
+                                                        const usedByOthers = new Set(
+                                                            relation.changes
+                                                                .filter(other => other.chapterId !== change.chapterId)
+                                                                .map(other => other.chapterId)
+                                                        );
+                                                        return (
+                                                            <div key={change.chapterId} className="space-y-2">
+                                                                <div className="flex items-center gap-2">
+                                                                    <span className="text-xs text-muted-foreground whitespace-nowrap">ab</span>
+                                                                    <select
+                                                                        value={change.chapterId}
+                                                                        onChange={(e) => updateChange(index, change.chapterId, { chapterId: e.target.value })}
+                                                                        className="h-8 min-w-0 flex-1 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                                                                    >
+                                                                        {sortedChapters.map((chapter, position) => (
+                                                                            <option key={chapter.id} value={chapter.id} disabled={usedByOthers.has(chapter.id)}>
+                                                                                Kapitel {position + 1}: {chapter.title}
+                                                                            </option>
+                                                                        ))}
+                                                                        {chapterPositions[change.chapterId] === undefined && (
+                                                                            <option value={change.chapterId}>Gelöschtes Kapitel</option>
+                                                                        )}
+                                                                    </select>
+                                                                    <select
+                                                                        value={change.relationType}
+                                                                        onChange={(e) => updateChange(index, change.chapterId, { relationType: e.target.value })}
+                                                                        className="h-8 rounded-md border border-input bg-background px-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                                                                    >
+                                                                        {RELATION_TYPES.map(type => (
+                                                                            <option key={type.value} value={type.value}>
+                                                                                {type.label}
+                                                                            </option>
+                                                                        ))}
+                                                                    </select>
+                                                                    <Button
+                                                                        variant="ghost"
+                                                                        size="icon"
+                                                                        className="h-8 w-8 text-destructive hover:text-destructive"
+                                                                        onClick={() => removeChange(index, change.chapterId)}
+                                                                    >
+                                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                                    </Button>
+                                                                </div>
+                                                                <Input
+                                                                    value={change.description || ""}
+                                                                    onChange={(e) => updateChange(index, change.chapterId, { description: e.target.value || null })}
+                                                                    placeholder="Was hat sich geändert? (optional)..."
+                                                                    className="h-8 text-sm"
+                                                                />
+                                                            </div>
+                                                        );
+                                                    })}
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="h-7 px-2 text-xs"
+                                                        onClick={() => addChange(index)}
+                                                        disabled={relation.changes.length >= sortedChapters.length}
+                                                    >
+                                                        <History className="mr-1 h-3.5 w-3.5" />
+                                                        Änderung ab Kapitel
+                                                    </Button>
+                                                </div>
+                                            )}
                                         </CardContent>
                                     </Card>
                                 );
@@ -1,7 +1,10 @@
 "use client";
 
-import { useRef, useCallback, useEffect, useState } from "react";
+import { useRef, useCallback, useEffect, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
+import { Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { NO_RELATION, relationAtChapter, type RelationChange } from "@/lib/relation-history";
 import { getRelationTypeInfo } from "./CharacterRelationModal";
 
 // Dynamic import to avoid SSR issues with canvas
@@ -26,6 +29,7 @@ type RelationFrom = {
     relationType: string;
     description: string | null;
     relatedCharacter: Character;
+    changes?: RelationChange[];
 };
 
 type RelationTo = {
@@ -55,6 +59,8 @@ type GraphLink = {
     relationType: string;
     description: string | null;
     color: string;
+    // The relation changed in the chapter shown
+    changed: boolean;
 };
 
 type GraphData = {
@@ -62,8 +68,16 @@ type GraphData = {
     links: GraphLink[];
 };
 
+type Chapter = {
+    id: string;
+    title: string;
+    orderIndex: number;
+};
+
 type Props = {
     characters: CharacterWithRelations[];
+    // With chapters, a slider shows the relations as they stand in each chapter
+    chapters?: Chapter[];
     onNodeClick: (characterId: string) => void;
     className?: string;
 };
@@ -85,14 +99,50 @@ const RELATION_COLORS: Record<string, string> = {
     mentor: "#eab308",    // yellow
 };
 
+// Time per chapter while the story is played back
+const PLAYBACK_INTERVAL = 1500;
+
 export default function CharacterRelationshipGraph({
     characters,
+    chapters = [],
     onNodeClick,
     className = "",
 }: Props) {
     const containerRef = useRef<HTMLDivElement>(null);
     const fgRef = useRef<any>(null);
     const [dimensions, setDimensions] = useState({ width: 800, height: 500 });
+    // Position of the chapter shown; null follows the last chapter
+    const [chapterPosition, setChapterPosition] = useState<number | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    const sortedChapters = useMemo(
+        () => [...chapters].sort((a, b) => a.orderIndex - b.orderIndex),
+        [chapters]
+    );
+    const lastPosition = sortedChapters.length - 1;
+    const position = chapterPosition === null ? lastPosition : Math.min(chapterPosition, lastPosition);
+    const currentChapter = sortedChapters[position];
+
+    // Step through the chapters until the last one
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (position >= lastPosition) {
+            setIsPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => setChapterPosition(position + 1), PLAYBACK_INTERVAL);
+        return () => clearTimeout(timer);
+    }, [isPlaying, position, lastPosition]);
+
+    const togglePlayback = () => {
+        if (isPlaying) {
+            setIsPlaying(false);
+            return;
+        }
+        // From the end, playback starts over at the first chapter
+        if (position >= lastPosition) setChapterPosition(0);
+        setIsPlaying(true);
+    };
 
     // Update dimensions on resize
     useEffect(() => {
@@ -110,26 +160,36 @@ export default function CharacterRelationshipGraph({
         return () => window.removeEventListener("resize", updateDimensions);
     }, []);
 
-    // Transform characters into graph data
-    const graphData: GraphData = {
-        nodes: characters.map(char => ({
-            id: char.id,
-            name: char.name,
-            role: char.role,
-            imageUrl: char.imageUrl,
-            val: char.role === "protagonist" ? 3 : char.role === "antagonist" ? 2.5 : char.role === "supporting" ? 2 : 1.5,
-            color: ROLE_COLORS[char.role] || ROLE_COLORS.minor,
-        })),
-        links: (characters || []).flatMap(char =>
-            (char.relationsFrom || []).map(rel => ({
-                source: char.id,
-                target: rel.relatedCharacter?.id,
-                relationType: rel.relationType,
-                description: rel.description,
-                color: RELATION_COLORS[rel.relationType] || RELATION_COLORS.colleague,
-            })).filter(link => link.source && link.target)
-        ),
-    };
+    // Nodes keep their identity across chapters, so the layout stays in place while links change
+    const nodes: GraphNode[] = useMemo(() => characters.map(char => ({
+        id: char.id,
+        name: char.name,
+        role: char.role,
+        imageUrl: char.imageUrl,
+        val: char.role === "protagonist" ? 3 : char.role === "antagonist" ? 2.5 : char.role === "supporting" ? 2 : 1.5,
+        color: ROLE_COLORS[char.role] || ROLE_COLORS.minor,
+    })), [characters]);
+
+    // Transform characters into graph data, with each relation as it stands in the chapter shown
+    const graphData: GraphData = useMemo(() => {
+        const chapterPositions = Object.fromEntries(sortedChapters.map((chapter, index) => [chapter.id, index]));
+        return {
+            nodes,
+            links: (characters || []).flatMap(char =>
+                (char.relationsFrom || []).map(rel => {
+                    const state = relationAtChapter(rel, chapterPositions, position);
+                    return {
+                        source: char.id,
+                        target: rel.relatedCharacter?.id,
+                        relationType: state.relationType,
+                        description: state.description,
+                        color: RELATION_COLORS[state.relationType] || RELATION_COLORS.colleague,
+                        changed: !!currentChapter && (rel.changes ?? []).some(change => change.chapterId === currentChapter.id),
+                    };
+                }).filter(link => link.source && link.target && link.relationType !== NO_RELATION)
+            ),
+        };
+    }, [characters, nodes, sortedChapters, position, currentChapter]);
 
     // Custom node rendering
     const nodeCanvasObject = useCallback((node: any, ctx: CanvasRenderingContext2D, globalScale: number) => {
@@ -182,7 +242,7 @@ export default function CharacterRelationshipGraph({
         ctx.moveTo(sx, sy);
         ctx.lineTo(ex, ey);
         ctx.strokeStyle = link.color || "#6b7280";
-        ctx.lineWidth = 2 / globalScale;
+        ctx.lineWidth = (link.changed ? 4 : 2) / globalScale;
         ctx.stroke();
 
         // Draw arrow
@@ -254,7 +314,7 @@ export default function CharacterRelationshipGraph({
                 nodeLabel={(node: any) => `${node.name} (${node.role})`}
                 linkLabel={(link: any) => {
                     const info = getRelationTypeInfo(link.relationType);
-                    return `${info.label}${link.description ? `: ${link.description}` : ""}`;
+                    return `${info.label}${link.description ? `: ${link.description}` : ""}${link.changed ? " (in diesem Kapitel geändert)" : ""}`;
                 }}
                 backgroundColor="transparent"
                 cooldownTicks={100}
@@ -317,6 +377,39 @@ export default function CharacterRelationshipGraph({
                 </div>
             </div>
 
+            {/* Chapter slider */}
+            {currentChapter && (
+                <div className="absolute top-4 left-4 w-72 bg-card/90 backdrop-blur-sm border rounded-lg px-3 py-2 shadow-lg space-y-1.5">
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 shrink-0"
+                            onClick={togglePlayback}
+                            disabled={lastPosition === 0}
+                            title={isPlaying ? "Anhalten" : "Kapitel nacheinander abspielen"}
+                        >
+                            {isPlaying ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                        </Button>
+                        <input
+                            type="range"
+                            min={0}
+                            max={lastPosition}
+                            value={position}
+                            onChange={(e) => {
+                                setIsPlaying(false);
+                                setChapterPosition(Number(e.target.value));
+                            }}
+                            className="flex-1 accent-primary"
+                            disabled={lastPosition === 0}
+                        />
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                        Stand in Kapitel {position + 1}: {currentChapter.title}
+                    </p>
+                </div>
+            )}
+
             {/* Instructions */}
             <div className="absolute top-4 right-4 bg-card/90 backdrop-blur-sm border rounded-lg px-3 py-2 shadow-lg text-xs text-muted-foreground">
                 <p>🖱️ Klicke auf einen Charakter zum Bearbeiten</p>
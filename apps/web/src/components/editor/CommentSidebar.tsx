@@ -0,0 +1,617 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Mark, mergeAttributes, type Editor } from "@tiptap/react";
+import { Check, Loader2, MessageSquare, MessageSquarePlus, RotateCcw, Trash2, Unlink, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/components/locale-provider";
+import { TRACK_CHANGES_META } from "@/components/editor/TrackChangesMenu";
+import { cn } from "@/lib/utils";
+import {
+    buildCommentThreads,
+    commentFilters,
+    createCommentAnchorId,
+    isCommentAnchorId,
+    matchesCommentFilter,
+    type ChapterCommentData,
+    type CommentFilter,
+    type CommentThread,
+} from "@/lib/chapter-comments";
+
+// Text range a comment thread refers to. Threads may overlap, so the mark does not exclude itself.
+export const CommentAnchor = Mark.create({
+    name: "commentAnchor",
+    inclusive: false,
+    excludes: "",
+
+    addAttributes() {
+        return {
+            anchorId: {
+                default: null,
+                parseHTML: (element: HTMLElement) => element.getAttribute("data-comment-id"),
+                renderHTML: (attributes: Record<string, string | null>) => ({ "data-comment-id": attributes.anchorId }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: "span[data-comment-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ["span", mergeAttributes(HTMLAttributes), 0];
+    },
+});
+
+type AnchorRange = { from: number; to: number };
+
+// Range of every anchor in the document, from its first to its last marked character
+function findAnchorRanges(editor: Editor) {
+    const ranges = new Map<string, AnchorRange>();
+    editor.state.doc.descendants((node, pos) => {
+        if (!node.isText) return true;
+        for (const mark of node.marks) {
+            if (mark.type.name !== CommentAnchor.name) continue;
+            const anchorId = String(mark.attrs.anchorId);
+            const range = ranges.get(anchorId);
+            if (range) range.to = pos + node.nodeSize;
+            else ranges.set(anchorId, { from: pos, to: pos + node.nodeSize });
+        }
+        return false;
+    });
+    return ranges;
+}
+
+// Anchors at the cursor or at the start of the selection
+function anchorsAtSelection(editor: Editor) {
+    const { $from } = editor.state.selection;
+    const anchorIds = new Set<string>();
+    for (const node of [$from.nodeAfter, $from.nodeBefore]) {
+        for (const mark of node?.marks ?? []) {
+            if (mark.type.name === CommentAnchor.name) anchorIds.add(String(mark.attrs.anchorId));
+        }
+    }
+    return anchorIds;
+}
+
+// Anchors are bookkeeping, not edits: they stay out of undo and track changes
+function dispatchAnchorChange(editor: Editor, update: (tr: Editor["state"]["tr"]) => void) {
+    const tr = editor.state.tr;
+    update(tr);
+    if (!tr.docChanged) return;
+    tr.setMeta("addToHistory", false);
+    tr.setMeta(TRACK_CHANGES_META, false);
+    editor.view.dispatch(tr);
+}
+
+function addAnchor(editor: Editor, anchorId: string, range: AnchorRange) {
+    const markType = editor.schema.marks[CommentAnchor.name]!;
+    dispatchAnchorChange(editor, (tr) => tr.addMark(range.from, range.to, markType.create({ anchorId })));
+}
+
+function removeAnchor(editor: Editor, anchorId: string) {
+    dispatchAnchorChange(editor, (tr) => {
+        editor.state.doc.descendants((node, pos) => {
+            if (!node.isText) return true;
+            const mark = node.marks.find((entry) => entry.type.name === CommentAnchor.name && entry.attrs.anchorId === anchorId);
+            if (mark) tr.removeMark(pos, pos + node.nodeSize, mark);
+            return false;
+        });
+    });
+}
+
+type CommentDraft = {
+    anchorId: string;
+    quote: string;
+};
+
+export type ChapterCommentsController = {
+    threads: CommentThread[];
+    isLoading: boolean;
+    error: string | null;
+    clearError: () => void;
+    // Anchors that are still in the text; threads whose text was deleted keep their quote
+    presentAnchorIds: Set<string>;
+    // Thread under the cursor
+    activeAnchorId: string | null;
+    hasSelection: boolean;
+    draft: CommentDraft | null;
+    startThread: () => void;
+    cancelThread: () => void;
+    submitThread: (content: string) => Promise<boolean>;
+    reply: (threadId: string, content: string) => Promise<boolean>;
+    setResolved: (threadId: string, resolved: boolean) => Promise<void>;
+    remove: (comment: ChapterCommentData) => Promise<void>;
+    focusThread: (thread: CommentThread) => void;
+};
+
+export function useChapterComments(
+    editor: Editor | null,
+    { bookId, chapterId, author }: { bookId: string; chapterId: string; author: string },
+): ChapterCommentsController {
+    const { t } = useI18n();
+    const [comments, setComments] = useState<ChapterCommentData[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [draft, setDraft] = useState<CommentDraft | null>(null);
+    const [presentAnchorIds, setPresentAnchorIds] = useState<Set<string>>(new Set());
+    const [activeAnchorId, setActiveAnchorId] = useState<string | null>(null);
+    const [hasSelection, setHasSelection] = useState(false);
+
+    const baseUrl = `/api/books/${bookId}/chapters/${chapterId}/comments`;
+    const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        fetch(baseUrl)
+            .then((response) => (response.ok ? response.json() : []))
+            .then((data: ChapterCommentData[]) => {
+                if (!cancelled) setComments(data);
+            })
+            .catch((loadError) => console.error("Error loading comments:", loadError))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [baseUrl]);
+
+    useEffect(() => {
+        if (!editor) return;
+
+        const handleUpdate = () => {
+            setPresentAnchorIds(new Set(findAnchorRanges(editor).keys()));
+        };
+        const handleSelection = () => {
+            setHasSelection(!editor.state.selection.empty);
+            setActiveAnchorId(anchorsAtSelection(editor).values().next().value ?? null);
+        };
+
+        handleUpdate();
+        handleSelection();
+        editor.on("update", handleUpdate);
+        editor.on("selectionUpdate", handleSelection);
+        return () => {
+            editor.off("update", handleUpdate);
+            editor.off("selectionUpdate", handleSelection);
+        };
+    }, [editor]);
+
+    const request = useCallback(async (url: string, init: RequestInit) => {
+        const response = await fetch(url, {
+            ...init,
+            headers: { "Content-Type": "application/json" },
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new Error(data.error || t({ de: "Kommentar konnte nicht gespeichert werden", en: "Comment could not be saved" }));
+        }
+        return data;
+    }, [t]);
+
+    const startThread = useCallback(() => {
+        if (!editor || draft) return;
+        const { from, to, empty } = editor.state.selection;
+        if (empty) return;
+
+        const anchorId = createCommentAnchorId();
+        addAnchor(editor, anchorId, { from, to });
+        setDraft({ anchorId, quote: editor.state.doc.textBetween(from, to, " ") });
+    }, [editor, draft]);
+
+    const cancelThread = useCallback(() => {
+        if (editor && draft) removeAnchor(editor, draft.anchorId);
+        setDraft(null);
+    }, [editor, draft]);
+
+    const submitThread = useCallback(async (content: string) => {
+        if (!draft) return false;
+        try {
+            const comment: ChapterCommentData = await request(baseUrl, {
+                method: "POST",
+                body: JSON.stringify({ content, author, anchorId: draft.anchorId, quote: draft.quote }),
+            });
+            setComments((current) => [...current, comment]);
+            setDraft(null);
+            return true;
+        } catch (submitError) {
+            setError(submitError instanceof Error ? submitError.message : String(submitError));
+            return false;
+        }
+    }, [draft, request, baseUrl, author]);
+
+    const reply = useCallback(async (threadId: string, content: string) => {
+        try {
+            const comment: ChapterCommentData = await request(baseUrl, {
+                method: "POST",
+                body: JSON.stringify({ content, author, parentId: threadId }),
+            });
+            setComments((current) => [...current, comment]);
+            return true;
+        } catch (replyError) {
+            setError(replyError instanceof Error ? replyError.message : String(replyError));
+            return false;
+        }
+    }, [request, baseUrl, author]);
+
+    const setResolved = useCallback(async (threadId: string, resolved: boolean) => {
+        try {
+            const updated: ChapterCommentData = await request(`${baseUrl}/${threadId}`, {
+                method: "PATCH",
+                body: JSON.stringify({ resolved }),
+            });
+            setComments((current) => current.map((comment) => (comment.id === updated.id ? updated : comment)));
+        } catch (resolveError) {
+            setError(resolveError instanceof Error ? resolveError.message : String(resolveError));
+        }
+    }, [request, baseUrl]);
+
+    const remove = useCallback(async (comment: ChapterCommentData) => {
+        try {
+            await request(`${baseUrl}/${comment.id}`, { method: "DELETE" });
+            setComments((current) => current.filter((entry) => entry.id !== comment.id && entry.parentId !== comment.id));
+            if (editor && comment.anchorId) removeAnchor(editor, comment.anchorId);
+        } catch (removeError) {
+            setError(removeError instanceof Error ? removeError.message : String(removeError));
+        }
+    }, [request, baseUrl, editor]);
+
+    const focusThread = useCallback((thread: CommentThread) => {
+        if (!editor || !thread.anchorId) return;
+        const range = findAnchorRanges(editor).get(thread.anchorId);
+        if (range) {
+            editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+        }
+    }, [editor]);
+
+    return {
+        threads,
+        isLoading,
+        error,
+        clearError: () => setError(null),
+        presentAnchorIds,
+        activeAnchorId,
+        hasSelection,
+        draft,
+        startThread,
+        cancelThread,
+        submitThread,
+        reply,
+        setResolved,
+        remove,
+        focusThread,
+    };
+}
+
+// Highlights the anchors of open threads in the editor; resolved threads keep their anchor unmarked
+export function CommentHighlights({ comments }: { comments: ChapterCommentsController }) {
+    const selector = (anchorId: string) => `.ProseMirror span[data-comment-id="${anchorId}"]`;
+    const open = comments.threads
+        .filter((thread) => !thread.resolved && thread.anchorId)
+        .map((thread) => thread.anchorId!)
+        .concat(comments.draft ? [comments.draft.anchorId] : [])
+        .filter(isCommentAnchorId);
+    const active = [comments.activeAnchorId, comments.draft?.anchorId].filter(
+        (anchorId): anchorId is string => !!anchorId && open.includes(anchorId),
+    );
+
+    if (open.length === 0) return null;
+
+    return (
+        <style>{`
+            ${open.map(selector).join(", ")} { background-color: rgb(250 204 21 / 0.2); border-bottom: 2px solid rgb(234 179 8 / 0.7); }
+            ${active.length > 0 ? `${active.map(selector).join(", ")} { background-color: rgb(250 204 21 / 0.45); }` : ""}
+        `}</style>
+    );
+}
+
+function CommentBody({
+    comment,
+    formatDate,
+    onDelete,
+    deleteLabel,
+}: {
+    comment: ChapterCommentData;
+    formatDate: (value: string) => string;
+    onDelete?: () => void;
+    deleteLabel: string;
+}) {
+    return (
+        <div className="group space-y-1">
+            <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium">{comment.author}</span>
+                <span className="text-muted-foreground">{formatDate(comment.createdAt)}</span>
+                {onDelete && (
+                    <button
+                        type="button"
+                        onClick={onDelete}
+                        title={deleteLabel}
+                        className="ml-auto text-muted-foreground opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                    >
+                        <Trash2 className="h-3 w-3" />
+                    </button>
+                )}
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+        </div>
+    );
+}
+
+function ThreadCard({
+    thread,
+    comments,
+    formatDate,
+}: {
+    thread: CommentThread;
+    comments: ChapterCommentsController;
+    formatDate: (value: string) => string;
+}) {
+    const { t } = useI18n();
+    const [replyText, setReplyText] = useState("");
+    const [isSending, setIsSending] = useState(false);
+    const isActive = !!thread.anchorId && thread.anchorId === comments.activeAnchorId;
+    const isDetached = !!thread.anchorId && !comments.presentAnchorIds.has(thread.anchorId);
+
+    const sendReply = async () => {
+        if (!replyText.trim()) return;
+        setIsSending(true);
+        if (await comments.reply(thread.id, replyText.trim())) setReplyText("");
+        setIsSending(false);
+    };
+
+    const deleteThread = () => {
+        if (confirm(t({ de: "Diesen Kommentar-Thread löschen?", en: "Delete this comment thread?" }))) {
+            comments.remove(thread);
+        }
+    };
+
+    return (
+        <div
+            id={`comment-thread-${thread.id}`}
+            className={cn(
+                "rounded-md border p-3 space-y-3 transition-colors",
+                isActive && "border-yellow-500 bg-yellow-500/5",
+                thread.resolved && "opacity-70",
+            )}
+        >
+            {thread.quote && (
+                <button
+                    type="button"
+                    onClick={() => comments.focusThread(thread)}
+                    disabled={isDetached}
+                    className="block w-full text-left border-l-2 border-yellow-500 pl-2 text-xs italic text-muted-foreground line-clamp-3 hover:text-foreground disabled:hover:text-muted-foreground"
+                >
+                    {thread.quote}
+                </button>
+            )}
+            {isDetached && (
+                <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+                    <Unlink className="h-3 w-3" />
+                    {t({ de: "Die kommentierte Textstelle wurde gelöscht.", en: "The commented text was deleted." })}
+                </p>
+            )}
+
+            <CommentBody comment={thread} formatDate={formatDate} deleteLabel={t({ de: "Löschen", en: "Delete" })} />
+            {thread.replies.map((reply) => (
+                <div key={reply.id} className="pl-3 border-l">
+                    <CommentBody
+                        comment={reply}
+                        formatDate={formatDate}
+                        onDelete={() => comments.remove(reply)}
+                        deleteLabel={t({ de: "Antwort löschen", en: "Delete reply" })}
+                    />
+                </div>
+            ))}
+
+            {!thread.resolved && (
+                <div className="flex items-end gap-2">
+                    <textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) sendReply();
+                        }}
+                        rows={1}
+                        placeholder={t({ de: "Antworten...", en: "Reply..." })}
+                        className="flex-1 min-h-[32px] px-2 py-1.5 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                    <Button size="sm" variant="outline" onClick={sendReply} disabled={isSending || !replyText.trim()}>
+                        {isSending ? <Loader2 className="h-3 w-3 animate-spin" /> : t({ de: "Senden", en: "Send" })}
+                    </Button>
+                </div>
+            )}
+
+            <div className="flex items-center justify-between">
+                {thread.resolved ? (
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => comments.setResolved(thread.id, false)}>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        {t({ de: "Wieder öffnen", en: "Reopen" })}
+                    </Button>
+                ) : (
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => comments.setResolved(thread.id, true)}>
+                        <Check className="h-3 w-3 mr-1" />
+                        {t({ de: "Erledigt", en: "Resolve" })}
+                    </Button>
+                )}
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs text-muted-foreground hover:text-destructive"
+                    onClick={deleteThread}
+                >
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    {t({ de: "Löschen", en: "Delete" })}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+type Props = {
+    comments: ChapterCommentsController;
+};
+
+export default function CommentSidebar({ comments }: Props) {
+    const { t, intlLocale } = useI18n();
+    const [filter, setFilter] = useState<CommentFilter>("open");
+    const [authorFilter, setAuthorFilter] = useState("");
+    const [draftText, setDraftText] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { threads, activeAnchorId, draft } = comments;
+
+    const filterLabels: Record<CommentFilter, string> = {
+        open: t({ de: "Offen", en: "Open" }),
+        resolved: t({ de: "Erledigt", en: "Resolved" }),
+        all: t({ de: "Alle", en: "All" }),
+    };
+
+    const authors = useMemo(
+        () => Array.from(new Set(threads.flatMap((thread) => [thread.author, ...thread.replies.map((reply) => reply.author)]))).sort(),
+        [threads],
+    );
+
+    const visibleThreads = threads.filter(
+        (thread) =>
+            matchesCommentFilter(thread, filter) &&
+            (!authorFilter || thread.author === authorFilter || thread.replies.some((reply) => reply.author === authorFilter)),
+    );
+
+    // Bring the thread under the cursor into view
+    useEffect(() => {
+        const thread = activeAnchorId ? threads.find((entry) => entry.anchorId === activeAnchorId) : null;
+        if (thread) {
+            document.getElementById(`comment-thread-${thread.id}`)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+        }
+    }, [activeAnchorId, threads]);
+
+    const submitDraft = async () => {
+        if (!draftText.trim()) return;
+        setIsSubmitting(true);
+        if (await comments.submitThread(draftText.trim())) {
+            setDraftText("");
+            setFilter((current) => (current === "resolved" ? "open" : current));
+        }
+        setIsSubmitting(false);
+    };
+
+    const cancelDraft = () => {
+        comments.cancelThread();
+        setDraftText("");
+    };
+
+    const formatDate = (value: string) =>
+        new Date(value).toLocaleString(intlLocale, { dateStyle: "short", timeStyle: "short" });
+
+    return (
+        <aside className="w-96 border-l bg-card flex flex-col">
+            <div className="p-4 border-b space-y-3">
+                <div className="flex items-center justify-between">
+                    <h2 className="font-semibold flex items-center gap-2">
+                        <MessageSquare className="h-4 w-4 text-chart-3" />
+                        {t({ de: "Kommentare", en: "Comments" })}
+                    </h2>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={comments.startThread}
+                        disabled={!comments.hasSelection || !!draft}
+                        title={t({ de: "Markiere zuerst eine Textstelle", en: "Select some text first" })}
+                    >
+                        <MessageSquarePlus className="h-4 w-4" />
+                        <span className="ml-2">{t({ de: "Kommentieren", en: "Comment" })}</span>
+                    </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-md border p-0.5">
+                        {commentFilters.map((entry) => (
+                            <button
+                                key={entry}
+                                type="button"
+                                onClick={() => setFilter(entry)}
+                                className={cn(
+                                    "px-2 py-0.5 rounded text-xs transition-colors",
+                                    filter === entry ? "bg-primary text-primary-foreground" : "hover:bg-secondary",
+                                )}
+                            >
+                                {filterLabels[entry]} ({threads.filter((thread) => matchesCommentFilter(thread, entry)).length})
+                            </button>
+                        ))}
+                    </div>
+                    {authors.length > 1 && (
+                        <select
+                            value={authorFilter}
+                            onChange={(e) => setAuthorFilter(e.target.value)}
+                            className="min-w-0 flex-1 bg-transparent border rounded px-2 py-1 text-xs focus:ring-1 focus:ring-primary"
+                        >
+                            <option value="">{t({ de: "Alle Personen", en: "Everyone" })}</option>
+                            {authors.map((name) => (
+                                <option key={name} value={name}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            </div>
+
+            {comments.error && (
+                <div className="flex items-center justify-between gap-2 border-b bg-destructive/10 px-4 py-2 text-sm text-destructive">
+                    <span>{comments.error}</span>
+                    <button type="button" onClick={comments.clearError} title={t({ de: "Schließen", en: "Close" })}>
+                        <X className="h-4 w-4" />
+                    </button>
+                </div>
+            )}
+
+            <div className="flex-1 overflow-auto p-4 space-y-3">
+                {draft && (
+                    <div className="rounded-md border border-yellow-500 p-3 space-y-2">
+                        <p className="border-l-2 border-yellow-500 pl-2 text-xs italic text-muted-foreground line-clamp-3">{draft.quote}</p>
+                        <textarea
+                            autoFocus
+                            value={draftText}
+                            onChange={(e) => setDraftText(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) submitDraft();
+                                if (e.key === "Escape") cancelDraft();
+                            }}
+                            placeholder={t({ de: "Kommentar schreiben...", en: "Write a comment..." })}
+                            className="w-full min-h-[80px] px-3 py-2 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                        <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="ghost" onClick={cancelDraft}>
+                                {t({ de: "Abbrechen", en: "Cancel" })}
+                            </Button>
+                            <Button size="sm" onClick={submitDraft} disabled={isSubmitting || !draftText.trim()}>
+                                {isSubmitting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                {t({ de: "Kommentieren", en: "Comment" })}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {comments.isLoading && threads.length === 0 && (
+                    <div className="flex justify-center py-6">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+                {!comments.isLoading && visibleThreads.length === 0 && !draft && (
+                    <p className="text-sm text-muted-foreground">
+                        {threads.length === 0
+                            ? t({
+                                  de: "Noch keine Kommentare. Markiere eine Textstelle und klicke auf „Kommentieren“.",
+                                  en: "No comments yet. Select some text and click “Comment”.",
+                              })
+                            : t({ de: "Keine Kommentare für diesen Filter.", en: "No comments match this filter." })}
+                    </p>
+                )}
+                {visibleThreads.map((thread) => (
+                    <ThreadCard key={thread.id} thread={thread} comments={comments} formatDate={formatDate} />
+                ))}
+            </div>
+        </aside>
+    );
+}
@@ -17,27 +17,25 @@ import {
     MapPin,
     GitBranch,
     HelpCircle,
+    ListChecks,
     X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ConsistencyIssue } from "@/lib/consistency-issues";
 import { cn } from "@/lib/utils";
 import { useI18n } from "@/components/locale-provider";
 
-interface ConsistencyIssue {
-    id: string;
-    type: "character" | "timeline" | "object" | "location" | "plot" | "other";
-    severity: "warning" | "error";
-    title: string;
-    description: string;
-    chapters: number[];
-    suggestion: string;
-}
+type ListedIssue = ConsistencyIssue & {
+    // Found by the rule-based check or by the AI
+    source?: "rules" | "ai";
+};
 
 interface ConsistencyCheckResult {
-    issues: ConsistencyIssue[];
+    issues: ListedIssue[];
     summary: string;
     checkedAt: string;
+    withAI?: boolean;
 }
 
 type Props = {
@@ -47,7 +45,7 @@ type Props = {
 
 export default function ConsistencyCheckPanel({ bookId, onNavigateToChapter }: Props) {
     const { t, intlLocale } = useI18n();
-    const [isChecking, setIsChecking] = useState(false);
+    const [checking, setChecking] = useState<"rules" | "ai" | null>(null);
     const [result, setResult] = useState<ConsistencyCheckResult | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [expandedIssues, setExpandedIssues] = useState<Set<string>>(new Set());
@@ -61,29 +59,50 @@ export default function ConsistencyCheckPanel({ bookId, onNavigateToChapter }: P
         other: { icon: HelpCircle, label: t({ de: "Sonstiges", en: "Other" }), color: "text-gray-500" },
     }), [t]);
 
-    const runCheck = async () => {
-        setIsChecking(true);
+    const isChecking = checking !== null;
+
+    const fetchCheck = async (url: string, init?: RequestInit): Promise<ConsistencyCheckResult> => {
+        const response = await fetch(url, init);
+        if (!response.ok) {
+            const data = await response.json();
+            throw new Error(data.error || t({ de: "Prüfung fehlgeschlagen", en: "Check failed" }));
+        }
+        return response.json();
+    };
+
+    // The rule-based check always runs; the AI check is optional and its failure keeps the rule results
+    const runCheck = async (withAI: boolean) => {
+        setChecking(withAI ? "ai" : "rules");
         setError(null);
 
         try {
-            const response = await fetch(`/api/books/${bookId}/ai/consistency-check`, {
-                method: "POST",
-            });
-
-            if (!response.ok) {
-                const data = await response.json();
-                throw new Error(data.error || t({ de: "Prüfung fehlgeschlagen", en: "Check failed" }));
-            }
+            const [rules, ai] = await Promise.all([
+                fetchCheck(`/api/books/${bookId}/continuity-check`),
+                withAI
+                    ? fetchCheck(`/api/books/${bookId}/ai/consistency-check`, { method: "POST" }).catch((err) => {
+                        setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+                        return null;
+                    })
+                    : null,
+            ]);
 
-            const data = await response.json();
-            setResult(data);
+            const issues: ListedIssue[] = [
+                ...rules.issues.map((issue) => ({ ...issue, source: "rules" as const })),
+                ...(ai?.issues ?? []).map((issue) => ({ ...issue, id: `ai-${issue.id}`, source: "ai" as const })),
+            ];
+            setResult({
+                issues,
+                summary: ai ? ai.summary : rules.summary,
+                checkedAt: ai?.checkedAt ?? rules.checkedAt,
+                withAI: ai !== null,
+            });
 
             // Auto-expand all issues on first load
-            setExpandedIssues(new Set(data.issues.map((i: ConsistencyIssue) => i.id)));
+            setExpandedIssues(new Set(issues.map((i) => i.id)));
         } catch (err) {
             setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
         } finally {
-            setIsChecking(false);
+            setChecking(null);
         }
     };
 
@@ -131,32 +150,50 @@ export default function ConsistencyCheckPanel({ bookId, onNavigateToChapter }: P
                         <div>
                             <CardTitle className="text-lg">{t({ de: "Konsistenzprüfung", en: "Consistency check" })}</CardTitle>
                             <CardDescription>
-                                {t({ de: "KI-basierte Analyse auf Widersprüche und Logikfehler", en: "AI-based analysis for inconsistencies and logic errors" })}
+                                {t({ de: "Regelprüfung und optionale KI-Analyse auf Widersprüche und Logikfehler", en: "Rule check and optional AI analysis for inconsistencies and logic errors" })}
                             </CardDescription>
                         </div>
                     </div>
-                    <Button
-                        onClick={runCheck}
-                        disabled={isChecking}
-                        variant={result ? "outline" : "default"}
-                    >
-                        {isChecking ? (
-                            <>
+                    <div className="flex items-center gap-2">
+                        <Button
+                            onClick={() => runCheck(false)}
+                            disabled={isChecking}
+                            variant="outline"
+                            title={t({
+                                de: "Prüft lokal nach festen Regeln, ohne KI und ohne Kosten",
+                                en: "Checks locally by fixed rules, without AI and at no cost",
+                            })}
+                        >
+                            {checking === "rules" ? (
                                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                {t({ de: "Prüfe...", en: "Checking..." })}
-                            </>
-                        ) : result ? (
-                            <>
-                                <RefreshCw className="h-4 w-4 mr-2" />
-                                {t({ de: "Erneut prüfen", en: "Check again" })}
-                            </>
-                        ) : (
-                            <>
-                                <FileSearch className="h-4 w-4 mr-2" />
-                                {t({ de: "Jetzt prüfen", en: "Check now" })}
-                            </>
-                        )}
-                    </Button>
+                            ) : (
+                                <ListChecks className="h-4 w-4 mr-2" />
+                            )}
+                            {t({ de: "Regelprüfung", en: "Rule check" })}
+                        </Button>
+                        <Button
+                            onClick={() => runCheck(true)}
+                            disabled={isChecking}
+                            variant={result ? "outline" : "default"}
+                        >
+                            {checking === "ai" ? (
+                                <>
+                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    {t({ de: "Prüfe...", en: "Checking..." })}
+                                </>
+                            ) : result?.withAI ? (
+                                <>
+                                    <RefreshCw className="h-4 w-4 mr-2" />
+                                    {t({ de: "Erneut prüfen", en: "Check again" })}
+                                </>
+                            ) : (
+                                <>
+                                    <FileSearch className="h-4 w-4 mr-2" />
+                                    {t({ de: "Mit KI prüfen", en: "Check with AI" })}
+                                </>
+                            )}
+                        </Button>
+                    </div>
                 </div>
             </CardHeader>
 
@@ -266,6 +303,13 @@ export default function ConsistencyCheckPanel({ bookId, onNavigateToChapter }: P
                                                                 : t({ de: "Warnung", en: "Warning" })}
                                                         </span>
                                                         <span>{config.label}</span>
+                                                        {issue.source && (
+                                                            <span>
+                                                                • {issue.source === "ai"
+                                                                    ? t({ de: "KI", en: "AI" })
+                                                                    : t({ de: "Regel", en: "Rule" })}
+                                                            </span>
+                                                        )}
                                                         {issue.chapters.length > 0 && (
                                                             <span>
                                                                 • {issue.chapters.length === 1
@@ -329,10 +373,15 @@ export default function ConsistencyCheckPanel({ bookId, onNavigateToChapter }: P
                                 <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
                                 <h3 className="font-semibold text-lg mb-1">{t({ de: "Keine Probleme gefunden!", en: "No issues found!" })}</h3>
                                 <p className="text-muted-foreground text-sm max-w-md">
-                                    {t({
-                                        de: "Die KI hat keine offensichtlichen Widersprüche oder Inkonsistenzen in deinem Buch gefunden.",
-                                        en: "The AI found no obvious inconsistencies or contradictions in your book.",
-                                    })}
+                                    {result.withAI
+                                        ? t({
+                                            de: "Weder die Regelprüfung noch die KI haben offensichtliche Widersprüche oder Inkonsistenzen in deinem Buch gefunden.",
+                                            en: "Neither the rule check nor the AI found obvious inconsistencies or contradictions in your book.",
+                                        })
+                                        : t({
+                                            de: "Die Regelprüfung hat keine Widersprüche gefunden. Inhaltliche Logikfehler findet zusätzlich die Prüfung mit KI.",
+                                            en: "The rule check found no contradictions. The AI check additionally finds logic errors in the story.",
+                                        })}
                                 </p>
                             </div>
                         )}
@@ -346,8 +395,8 @@ export default function ConsistencyCheckPanel({ bookId, onNavigateToChapter }: P
                         <h3 className="font-semibold mb-1">{t({ de: "Noch keine Prüfung durchgeführt", en: "No check run yet" })}</h3>
                         <p className="text-muted-foreground text-sm max-w-md mb-4">
                             {t({
-                                de: "Klicke auf \"Jetzt prüfen\", um dein Buch auf Widersprüche und Inkonsistenzen zu analysieren.",
-                                en: "Click \"Check now\" to analyze your book for inconsistencies.",
+                                de: "Die Regelprüfung findet ohne KI z. B. Auftritte nach dem Tod, abweichende Namen, Augen- und Haarfarben, die dem Aussehen widersprechen, und doppelte Kapiteltitel. \"Mit KI prüfen\" ergänzt eine inhaltliche Analyse.",
+                                en: "The rule check finds, without AI, appearances after death, diverging names, eye and hair colours that contradict the appearance, and duplicate chapter titles. \"Check with AI\" adds an analysis of the story.",
                             })}
                         </p>
                     </div>
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Layers, Loader2 } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { ContextPiece, ContextPieceMode, ContextReport } from "@/lib/ai/context-budget";
+import { useI18n } from "@/components/locale-provider";
+
+type Props = {
+    report: ContextReport | null;
+    isLoading?: boolean;
+};
+
+const modeClasses: Record<ContextPieceMode, string> = {
+    full: "bg-green-500/10 text-green-700 dark:text-green-400",
+    summary: "bg-blue-500/10 text-blue-700 dark:text-blue-400",
+    excerpt: "bg-yellow-500/10 text-yellow-700 dark:text-yellow-400",
+    truncated: "bg-orange-500/10 text-orange-700 dark:text-orange-400",
+    omitted: "bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+export default function ContextBudgetCard({ report, isLoading }: Props) {
+    const { t, intlLocale } = useI18n();
+    const [showDetails, setShowDetails] = useState(false);
+
+    const modeLabels: Record<ContextPieceMode, string> = {
+        full: t({ de: "vollständig", en: "full" }),
+        summary: t({ de: "Zusammenfassung", en: "summary" }),
+        excerpt: t({ de: "Auszug", en: "excerpt" }),
+        truncated: t({ de: "gekürzt", en: "truncated" }),
+        omitted: t({ de: "ausgelassen", en: "omitted" }),
+    };
+
+    const pieceLabel = (piece: ContextPiece) => {
+        switch (piece.kind) {
+            case "instructions":
+                return t({ de: "Anweisungen", en: "Instructions" });
+            case "book":
+                return t({ de: "Buchinformationen", en: "Book information" });
+            case "characters":
+                return t({ de: "Charaktere", en: "Characters" });
+            case "plotPoints":
+                return t({ de: "Handlungspunkte", en: "Plot points" });
+            case "worldElements":
+                return t({ de: "Weltelemente", en: "World elements" });
+            case "currentChapter":
+                return t({ de: "Aktuelles Kapitel", en: "Current chapter" });
+            case "nextChapters":
+                return t({ de: "Folgende Kapitel", en: "Following chapters" });
+            case "prompt":
+                return t({ de: "Prompt", en: "Prompt" });
+            case "previousChapter":
+                return t({ de: "Kapitel {{number}}: {{title}}", en: "Chapter {{number}}: {{title}}" }, {
+                    number: piece.chapterNumber ?? "",
+                    title: piece.label,
+                });
+        }
+    };
+
+    const formatTokens = (tokens: number) =>
+        tokens >= 10_000
+            ? `${(tokens / 1000).toLocaleString(intlLocale, { maximumFractionDigits: 0 })}k`
+            : tokens.toLocaleString(intlLocale);
+
+    const chapterPieces = report?.pieces.filter((piece) => piece.kind === "previousChapter") ?? [];
+    const countByMode = (mode: ContextPieceMode) => chapterPieces.filter((piece) => piece.mode === mode).length;
+    const cutCount = countByMode("truncated") + countByMode("omitted");
+    const usage = report && report.inputBudget > 0 ? Math.min(100, (report.usedTokens / report.inputBudget) * 100) : 100;
+
+    return (
+        <Card>
+            <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                    <Layers className="h-4 w-4" />
+                    {t({ de: "KI-Kontext", en: "AI context" })}
+                    {isLoading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                    {report && (
+                        <span className={cn("text-xs ml-auto", report.overBudget ? "text-destructive" : "text-muted-foreground")}>
+                            ~{formatTokens(report.usedTokens)} / {formatTokens(report.inputBudget)}
+                        </span>
+                    )}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="text-xs space-y-2">
+                {!report ? (
+                    <span className="text-muted-foreground">
+                        {t({ de: "Kontext wird berechnet...", en: "Calculating context..." })}
+                    </span>
+                ) : (
+                    <>
+                        <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                            <div
+                                className={cn("h-full rounded-full", report.overBudget ? "bg-destructive" : "bg-chart-3")}
+                                style={{ width: `${usage}%` }}
+                            />
+                        </div>
+                        <p className="text-muted-foreground">
+                            {t(
+                                {
+                                    de: "{{model}}: {{window}} Tokens Kontextfenster, {{output}} für die Antwort reserviert.",
+                                    en: "{{model}}: {{window}} token context window, {{output}} reserved for the answer.",
+                                },
+                                {
+                                    model: report.model,
+                                    window: formatTokens(report.contextWindow),
+                                    output: formatTokens(report.reservedForOutput),
+                                },
+                            )}
+                        </p>
+                        {chapterPieces.length > 0 && (
+                            <p className={cn(cutCount > 0 ? "text-orange-600 dark:text-orange-400" : "text-muted-foreground")}>
+                                {t(
+                                    {
+                                        de: "Vorkapitel: {{full}} vollständig, {{summary}} als Zusammenfassung, {{excerpt}} als Auszug, {{cut}} gekürzt oder ausgelassen.",
+                                        en: "Previous chapters: {{full}} in full, {{summary}} as summary, {{excerpt}} as excerpt, {{cut}} truncated or omitted.",
+                                    },
+                                    {
+                                        full: countByMode("full"),
+                                        summary: countByMode("summary"),
+                                        excerpt: countByMode("excerpt"),
+                                        cut: cutCount,
+                                    },
+                                )}
+                            </p>
+                        )}
+                        {report.overBudget && (
+                            <p className="text-destructive">
+                                {t({
+                                    de: "Der Kontext überschreitet das Budget. Wähle weniger Charaktere, Handlungspunkte oder Weltelemente aus.",
+                                    en: "The context exceeds the budget. Select fewer characters, plot points or world elements.",
+                                })}
+                            </p>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => setShowDetails(!showDetails)}
+                            className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                        >
+                            {showDetails ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            {t({ de: "Details", en: "Details" })}
+                        </button>
+                        {showDetails && (
+                            <div className="space-y-1 max-h-48 overflow-auto">
+                                {report.pieces.map((piece, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <span className="truncate flex-1">{pieceLabel(piece)}</span>
+                                        <span className={cn("px-1.5 rounded text-[10px] shrink-0", modeClasses[piece.mode])}>
+                                            {modeLabels[piece.mode]}
+                                        </span>
+                                        <span className="w-10 text-right text-muted-foreground shrink-0">
+                                            {formatTokens(piece.tokens)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
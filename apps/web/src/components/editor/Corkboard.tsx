@@ -0,0 +1,368 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { DragDropContext, Droppable, Draggable, type DraggableProvided, type DropResult } from "@hello-pangea/dnd";
+import { AlignLeft, ArrowRight, Columns3, LayoutGrid, Map, Plus, Users } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from "@/components/locale-provider";
+import { cn } from "@/lib/utils";
+
+export type CorkboardChapter = {
+    id: string;
+    title: string;
+    status: string;
+    wordCount: number;
+    summary: string | null;
+    act: number | null;
+    chapterCharacters: { characterId: string }[];
+    chapterPlotPoints: { plotPointId: string }[];
+};
+
+// Fields the corkboard edits in place; sent as they are to the chapter PATCH route
+export type ChapterChanges = {
+    title?: string;
+    summary?: string;
+    status?: string;
+    act?: number | null;
+    characterIds?: string[];
+    plotPointIds?: string[];
+};
+
+type CorkboardLayout = "grid" | "acts";
+
+// @hello-pangea/dnd only moves cards along a line, so the grid is a stack of horizontal rows
+const CARDS_PER_ROW = 4;
+const DEFAULT_ACT_COUNT = 3;
+
+type Lane = {
+    id: string;
+    act?: number | null;
+    chapters: CorkboardChapter[];
+};
+
+interface CorkboardProps {
+    bookId: string;
+    chapters: CorkboardChapter[];
+    characters: { id: string; name: string }[];
+    plotPoints: { id: string; title: string }[];
+    onReorder: (chapterIds: string[]) => void;
+    onUpdate: (chapterId: string, changes: ChapterChanges) => void;
+}
+
+export default function Corkboard({
+    bookId,
+    chapters,
+    characters,
+    plotPoints,
+    onReorder,
+    onUpdate,
+}: CorkboardProps) {
+    const { t } = useI18n();
+    const [layout, setLayout] = useState<CorkboardLayout>("grid");
+    const [addedActs, setAddedActs] = useState(0);
+
+    const actCount = Math.max(DEFAULT_ACT_COUNT, ...chapters.map((chapter) => chapter.act ?? 0)) + addedActs;
+    const unassigned = chapters.filter((chapter) => chapter.act === null);
+
+    // Dropping a card anywhere yields the new book order: the lanes read one after another
+    const lanes: Lane[] = layout === "grid"
+        ? Array.from({ length: Math.ceil(chapters.length / CARDS_PER_ROW) }, (_, row) => ({
+            id: `row-${row}`,
+            chapters: chapters.slice(row * CARDS_PER_ROW, (row + 1) * CARDS_PER_ROW),
+        }))
+        : [
+            ...Array.from({ length: actCount }, (_, index) => ({
+                id: `act-${index + 1}`,
+                act: index + 1,
+                chapters: chapters.filter((chapter) => chapter.act === index + 1),
+            })),
+            ...(unassigned.length > 0 ? [{ id: "act-none", act: null, chapters: unassigned }] : []),
+        ];
+
+    const handleDragEnd = (result: DropResult) => {
+        const { source, destination, draggableId } = result;
+        if (!destination) return;
+        if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+        const laneIds = lanes.map((lane) => ({ ...lane, chapterIds: lane.chapters.map((chapter) => chapter.id) }));
+        const from = laneIds.find((lane) => lane.id === source.droppableId);
+        const to = laneIds.find((lane) => lane.id === destination.droppableId);
+        if (!from || !to) return;
+
+        from.chapterIds.splice(source.index, 1);
+        to.chapterIds.splice(destination.index, 0, draggableId);
+
+        const moved = chapters.find((chapter) => chapter.id === draggableId);
+        if (layout === "acts" && moved && to.act !== undefined && moved.act !== to.act) {
+            onUpdate(draggableId, { act: to.act });
+        }
+
+        const chapterIds = laneIds.flatMap((lane) => lane.chapterIds);
+        if (chapterIds.some((id, index) => chapters[index]?.id !== id)) {
+            onReorder(chapterIds);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-end gap-2">
+                <div className="flex items-center rounded-md border p-0.5">
+                    <Button
+                        variant={layout === "grid" ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-7"
+                        onClick={() => setLayout("grid")}
+                    >
+                        <LayoutGrid className="mr-1.5 h-3.5 w-3.5" />
+                        {t({ de: "Raster", en: "Grid" })}
+                    </Button>
+                    <Button
+                        variant={layout === "acts" ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-7"
+                        onClick={() => setLayout("acts")}
+                    >
+                        <Columns3 className="mr-1.5 h-3.5 w-3.5" />
+                        {t({ de: "Akte", en: "Acts" })}
+                    </Button>
+                </div>
+                {layout === "acts" && (
+                    <Button variant="outline" size="sm" className="h-8" onClick={() => setAddedActs(addedActs + 1)}>
+                        <Plus className="mr-1.5 h-3.5 w-3.5" />
+                        {t({ de: "Akt hinzufügen", en: "Add act" })}
+                    </Button>
+                )}
+            </div>
+
+            <DragDropContext onDragEnd={handleDragEnd}>
+                <div className={cn(layout === "grid" ? "space-y-4" : "flex gap-4 overflow-x-auto pb-2")}>
+                    {lanes.map((lane) => (
+                        <div
+                            key={lane.id}
+                            className={cn(layout === "acts" && "w-72 shrink-0 rounded-xl bg-muted/30 p-3")}
+                        >
+                            {layout === "acts" && (
+                                <div className="mb-3 flex items-center justify-between text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                    <span>
+                                        {lane.act
+                                            ? `${t({ de: "Akt", en: "Act" })} ${lane.act}`
+                                            : t({ de: "Ohne Akt", en: "No act" })}
+                                    </span>
+                                    <span>{lane.chapters.length}</span>
+                                </div>
+                            )}
+                            <Droppable
+                                droppableId={lane.id}
+                                direction={layout === "grid" ? "horizontal" : "vertical"}
+                            >
+                                {(provided, snapshot) => (
+                                    <div
+                                        ref={provided.innerRef}
+                                        {...provided.droppableProps}
+                                        className={cn(
+                                            "rounded-lg transition-colors",
+                                            layout === "grid" ? "flex gap-4" : "min-h-[120px] space-y-3",
+                                            snapshot.isDraggingOver && "bg-primary/5"
+                                        )}
+                                    >
+                                        {lane.chapters.map((chapter, index) => (
+                                            <Draggable key={chapter.id} draggableId={chapter.id} index={index}>
+                                                {(dragProvided, dragSnapshot) => (
+                                                    <ChapterCard
+                                                        bookId={bookId}
+                                                        chapter={chapter}
+                                                        number={chapters.indexOf(chapter) + 1}
+                                                        characters={characters}
+                                                        plotPoints={plotPoints}
+                                                        onUpdate={(changes) => onUpdate(chapter.id, changes)}
+                                                        dragProvided={dragProvided}
+                                                        isDragging={dragSnapshot.isDragging}
+                                                        className={layout === "grid" ? "w-1/4 min-w-0" : undefined}
+                                                    />
+                                                )}
+                                            </Draggable>
+                                        ))}
+                                        {provided.placeholder}
+                                    </div>
+                                )}
+                            </Droppable>
+                        </div>
+                    ))}
+                </div>
+            </DragDropContext>
+        </div>
+    );
+}
+
+interface ChapterCardProps {
+    bookId: string;
+    chapter: CorkboardChapter;
+    number: number;
+    characters: { id: string; name: string }[];
+    plotPoints: { id: string; title: string }[];
+    onUpdate: (changes: ChapterChanges) => void;
+    dragProvided: DraggableProvided;
+    isDragging: boolean;
+    className?: string;
+}
+
+function ChapterCard({
+    bookId,
+    chapter,
+    number,
+    characters,
+    plotPoints,
+    onUpdate,
+    dragProvided,
+    isDragging,
+    className,
+}: ChapterCardProps) {
+    const { t, intlLocale } = useI18n();
+    const [title, setTitle] = useState(chapter.title);
+    const [summary, setSummary] = useState(chapter.summary || "");
+
+    // Take over values saved elsewhere, e.g. after a reload
+    useEffect(() => setTitle(chapter.title), [chapter.title]);
+    useEffect(() => setSummary(chapter.summary || ""), [chapter.summary]);
+
+    const statuses = [
+        { value: "draft", label: t({ de: "Entwurf", en: "Draft" }) },
+        { value: "in_progress", label: t({ de: "In Arbeit", en: "In progress" }) },
+        { value: "review", label: t({ de: "In Überarbeitung", en: "In review" }) },
+        { value: "completed", label: t({ de: "Abgeschlossen", en: "Completed" }) },
+    ];
+
+    const characterIds = chapter.chapterCharacters.map((link) => link.characterId);
+    const plotPointIds = chapter.chapterPlotPoints.map((link) => link.plotPointId);
+    const linkedCharacters = characters.filter((character) => characterIds.includes(character.id));
+    const linkedPlotPoints = plotPoints.filter((plotPoint) => plotPointIds.includes(plotPoint.id));
+
+    const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((entry) => entry !== id) : [...ids, id]);
+
+    return (
+        <div
+            ref={dragProvided.innerRef}
+            {...dragProvided.draggableProps}
+            className={cn(
+                "flex flex-col gap-2 rounded-lg border bg-amber-50/80 dark:bg-zinc-900 p-3 shadow-sm",
+                isDragging && "shadow-lg ring-1 ring-primary/30",
+                className
+            )}
+        >
+            <div {...dragProvided.dragHandleProps} className="flex items-center gap-2 cursor-grab active:cursor-grabbing">
+                <span className="font-mono text-xs text-muted-foreground">{number.toString().padStart(2, "0")}</span>
+                <select
+                    value={chapter.status}
+                    onChange={(e) => onUpdate({ status: e.target.value })}
+                    className="ml-auto h-6 rounded border border-input bg-background px-1 text-[10px]"
+                >
+                    {statuses.map((status) => (
+                        <option key={status.value} value={status.value}>
+                            {status.label}
+                        </option>
+                    ))}
+                </select>
+                <Link
+                    href={`/books/${bookId}/chapter/${chapter.id}`}
+                    className="text-muted-foreground hover:text-primary"
+                    title={t({ de: "Kapitel öffnen", en: "Open chapter" })}
+                >
+                    <ArrowRight className="h-3.5 w-3.5" />
+                </Link>
+            </div>
+
+            <input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onBlur={() => title !== chapter.title && onUpdate({ title })}
+                placeholder={t({ de: "Unbenanntes Kapitel", en: "Untitled chapter" })}
+                className="bg-transparent font-serif font-semibold focus:outline-none"
+            />
+            <textarea
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                onBlur={() => summary !== (chapter.summary || "") && onUpdate({ summary })}
+                placeholder={t({ de: "Worum geht es in diesem Kapitel?", en: "What happens in this chapter?" })}
+                className="min-h-[72px] resize-none bg-transparent text-xs leading-relaxed focus:outline-none"
+            />
+
+            {(linkedPlotPoints.length > 0 || linkedCharacters.length > 0) && (
+                <div className="flex flex-wrap gap-1">
+                    {linkedPlotPoints.map((plotPoint) => (
+                        <span key={plotPoint.id} className="rounded-full bg-chart-3/15 px-2 py-0.5 text-[10px]">
+                            {plotPoint.title}
+                        </span>
+                    ))}
+                    {linkedCharacters.map((character) => (
+                        <span key={character.id} className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px]">
+                            {character.name}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <div className="mt-auto flex items-center gap-1 border-t border-border/40 pt-2 text-[10px] text-muted-foreground">
+                <AlignLeft className="h-3 w-3" />
+                {chapter.wordCount.toLocaleString(intlLocale)}
+                <DropdownMenu>
+                    <DropdownMenuTrigger
+                        render={
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="ml-auto h-6 w-6 p-0"
+                                title={t({ de: "Handlungspunkte verknüpfen", en: "Link plot points" })}
+                            />
+                        }
+                    >
+                        <Map className="h-3 w-3" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="max-h-64 w-56 overflow-auto">
+                        {plotPoints.map((plotPoint) => (
+                            <DropdownMenuCheckboxItem
+                                key={plotPoint.id}
+                                checked={plotPointIds.includes(plotPoint.id)}
+                                onCheckedChange={() => onUpdate({ plotPointIds: toggle(plotPointIds, plotPoint.id) })}
+                            >
+                                {plotPoint.title}
+                            </DropdownMenuCheckboxItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+                <DropdownMenu>
+                    <DropdownMenuTrigger
+                        render={
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0"
+                                title={t({ de: "Charaktere verknüpfen", en: "Link characters" })}
+                            />
+                        }
+                    >
+                        <Users className="h-3 w-3" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="max-h-64 w-56 overflow-auto">
+                        {characters.map((character) => (
+                            <DropdownMenuCheckboxItem
+                                key={character.id}
+                                checked={characterIds.includes(character.id)}
+                                onCheckedChange={() => onUpdate({ characterIds: toggle(characterIds, character.id) })}
+                            >
+                                {character.name}
+                            </DropdownMenuCheckboxItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            </div>
+        </div>
+    );
+}
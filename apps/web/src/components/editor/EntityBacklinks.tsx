@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Route } from "next";
+import { BookOpen, Loader2 } from "lucide-react";
+
+import { useI18n } from "@/components/locale-provider";
+import type { EntityBacklink, EntityLinkType } from "@/lib/entity-links";
+
+interface EntityBacklinksProps {
+    bookId: string;
+    type: EntityLinkType;
+    entityId: string;
+}
+
+// Chapters whose text links the entity ("appears in chapters")
+export default function EntityBacklinks({ bookId, type, entityId }: EntityBacklinksProps) {
+    const { t } = useI18n();
+    const [chapters, setChapters] = useState<EntityBacklink[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const query = new URLSearchParams({ type, id: entityId });
+                const response = await fetch(`/api/books/${bookId}/entity-links?${query}`);
+                if (response.ok && !cancelled) {
+                    const data = await response.json();
+                    setChapters(data.chapters);
+                }
+            } catch (err) {
+                console.error("Error loading entity backlinks:", err);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [bookId, type, entityId]);
+
+    return (
+        <div className="space-y-2">
+            <label className="text-sm font-medium flex items-center gap-2">
+                <BookOpen className="h-4 w-4" />
+                {t({ de: "Erscheint in Kapiteln", en: "Appears in chapters" })}
+            </label>
+            {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : chapters.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    {t({
+                        de: "Noch in keinem Kapitel verknüpft. Im Kapiteltext mit @ oder dem Ketten-Symbol in der Werkzeugleiste verlinken.",
+                        en: "Not linked in any chapter yet. Link it in the chapter text with @ or the chain icon in the toolbar.",
+                    })}
+                </p>
+            ) : (
+                <div className="rounded-md border divide-y">
+                    {chapters.map((chapter) => (
+                        <Link
+                            key={chapter.id}
+                            href={`/books/${bookId}/chapter/${chapter.id}` as Route}
+                            className="flex items-center gap-2 px-3 py-2 text-sm hover:bg-muted/50"
+                        >
+                            <span className="flex-1 truncate">{chapter.title}</span>
+                            <span className="text-xs text-muted-foreground">
+                                {t({ de: "{{count}}× verlinkt", en: "linked {{count}}×" }, { count: chapter.mentions })}
+                            </span>
+                        </Link>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,382 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { Extension, Mark, mergeAttributes, type Editor } from "@tiptap/react";
+import { Globe, Unlink, User, Zap } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/components/locale-provider";
+import {
+    findEntityMentions,
+    isEntityLinkType,
+    searchEntities,
+    type EntityLinkType,
+    type LinkableEntity,
+} from "@/lib/entity-links";
+import { cn } from "@/lib/utils";
+
+// The entities that can be linked from the text; provided by the chapter view around the editor
+export type EntityLinkContextValue = {
+    entities: LinkableEntity[];
+};
+
+export const EntityLinkContext = createContext<EntityLinkContextValue>({ entities: [] });
+
+const typeIcons: Record<EntityLinkType, typeof User> = {
+    character: User,
+    world: Globe,
+    plot: Zap,
+};
+
+export const EntityLink = Mark.create({
+    name: "entityLink",
+    inclusive: false,
+    excludes: "",
+
+    addAttributes() {
+        return {
+            entityType: {
+                default: null,
+                parseHTML: (element: HTMLElement) => element.getAttribute("data-entity-type"),
+                renderHTML: (attributes: Record<string, string | null>) => ({ "data-entity-type": attributes.entityType }),
+            },
+            entityId: {
+                default: null,
+                parseHTML: (element: HTMLElement) => element.getAttribute("data-entity-id"),
+                renderHTML: (attributes: Record<string, string | null>) => ({ "data-entity-id": attributes.entityId }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: "span[data-entity-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ["span", mergeAttributes(HTMLAttributes), 0];
+    },
+});
+
+interface EntityLinksOptions {
+    // Keys for the @ suggestions; returns true when the menu handled the key
+    onKeyDown: (key: string) => boolean;
+}
+
+export const EntityLinks = Extension.create<EntityLinksOptions>({
+    name: "entityLinks",
+    // Arrow keys and Enter go to the open suggestion list before the editor moves or splits
+    priority: 1000,
+
+    addOptions() {
+        return {
+            onKeyDown: () => false,
+        };
+    },
+
+    addExtensions() {
+        return [EntityLink];
+    },
+
+    addKeyboardShortcuts() {
+        const handle = (key: string) => () => this.options.onKeyDown(key);
+        return {
+            ArrowDown: handle("ArrowDown"),
+            ArrowUp: handle("ArrowUp"),
+            Enter: handle("Enter"),
+            Tab: handle("Tab"),
+            Escape: handle("Escape"),
+        };
+    },
+});
+
+function entityOf(entities: LinkableEntity[], element: Element) {
+    const type = element.getAttribute("data-entity-type");
+    const id = element.getAttribute("data-entity-id");
+    return entities.find((entity) => entity.type === type && entity.id === id) ?? null;
+}
+
+// Position relative to the positioned editor frame, which the menus are rendered into
+function framePosition(editor: Editor, rect: { left: number; bottom: number }) {
+    const dom = editor.view.dom;
+    const frame = ((dom.offsetParent as HTMLElement | null) ?? dom).getBoundingClientRect();
+    return { top: rect.bottom - frame.top + 4, left: Math.max(0, rect.left - frame.left) };
+}
+
+// Link every unlinked mention of a known name in the document; returns how many were linked
+export function linkEntityMentions(editor: Editor, entities: LinkableEntity[]) {
+    const markType = editor.schema.marks[EntityLink.name];
+    if (!markType || entities.length === 0) return 0;
+
+    const { tr } = editor.state;
+    let linked = 0;
+    editor.state.doc.descendants((node, pos) => {
+        if (!node.isTextblock) return true;
+
+        // Text of the block with the document position of every character; inline nodes break words
+        let text = "";
+        const positions: number[] = [];
+        node.forEach((child, offset) => {
+            const value = child.isText ? child.text ?? "" : "\ufffc";
+            for (let index = 0; index < value.length; index++) positions.push(pos + 1 + offset + index);
+            text += value;
+        });
+
+        for (const mention of findEntityMentions(text, entities)) {
+            const from = positions[mention.index]!;
+            const to = positions[mention.index + mention.length - 1]! + 1;
+            if (tr.doc.rangeHasMark(from, to, markType)) continue;
+            tr.addMark(from, to, markType.create({ entityType: mention.entity.type, entityId: mention.entity.id }));
+            linked++;
+        }
+        return false;
+    });
+
+    if (linked > 0) editor.view.dispatch(tr);
+    return linked;
+}
+
+type MentionQuery = {
+    from: number;
+    to: number;
+    query: string;
+    top: number;
+    left: number;
+};
+
+// "@" at the start of a word, followed by what has been typed of the name so far
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_'’-]{0,30})$/u;
+
+function findMentionQuery(editor: Editor): MentionQuery | null {
+    const { selection } = editor.state;
+    if (!selection.empty || !selection.$from.parent.isTextblock) return null;
+
+    const { $from } = selection;
+    const before = $from.parent.textBetween(0, $from.parentOffset, undefined, "\ufffc");
+    const match = MENTION_PATTERN.exec(before);
+    if (!match) return null;
+
+    const from = $from.pos - match[1]!.length - 1;
+    return { from, to: $from.pos, query: match[1]!, ...framePosition(editor, editor.view.coordsAtPos(from)) };
+}
+
+export type EntityMentionController = {
+    query: MentionQuery | null;
+    items: LinkableEntity[];
+    activeIndex: number;
+    setActiveIndex: (index: number) => void;
+    select: (entity: LinkableEntity) => void;
+    handleKey: (key: string) => boolean;
+};
+
+// The @ suggestions: typing "@" and a part of a name lists the matching entities
+export function useEntityMention(editor: Editor | null, entities: LinkableEntity[]): EntityMentionController {
+    const [query, setQuery] = useState<MentionQuery | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    // Start of the query closed with Escape; it stays closed until the @ is gone
+    const dismissedRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        if (!editor || entities.length === 0) return;
+
+        const handleChange = () => {
+            const next = editor.isEditable ? findMentionQuery(editor) : null;
+            if (!next) dismissedRef.current = null;
+            setQuery(next && next.from !== dismissedRef.current ? next : null);
+            setActiveIndex(0);
+        };
+
+        editor.on("update", handleChange);
+        editor.on("selectionUpdate", handleChange);
+        return () => {
+            editor.off("update", handleChange);
+            editor.off("selectionUpdate", handleChange);
+        };
+    }, [editor, entities.length]);
+
+    const items = useMemo(() => (query ? searchEntities(entities, query.query) : []), [entities, query]);
+
+    const select = useCallback((entity: LinkableEntity) => {
+        if (!editor || !query) return;
+        editor.chain().focus().insertContentAt({ from: query.from, to: query.to }, [
+            {
+                type: "text",
+                text: entity.name,
+                marks: [{ type: EntityLink.name, attrs: { entityType: entity.type, entityId: entity.id } }],
+            },
+            { type: "text", text: " " },
+        ]).run();
+        setQuery(null);
+    }, [editor, query]);
+
+    const handleKey = (key: string) => {
+        if (!query || items.length === 0) return false;
+        switch (key) {
+            case "ArrowDown":
+                setActiveIndex((activeIndex + 1) % items.length);
+                return true;
+            case "ArrowUp":
+                setActiveIndex((activeIndex - 1 + items.length) % items.length);
+                return true;
+            case "Enter":
+            case "Tab":
+                select(items[activeIndex] ?? items[0]!);
+                return true;
+            case "Escape":
+                dismissedRef.current = query.from;
+                setQuery(null);
+                return true;
+            default:
+                return false;
+        }
+    };
+
+    return { query, items, activeIndex, setActiveIndex, select, handleKey };
+}
+
+function EntityIcon({ type, className }: { type: EntityLinkType; className?: string }) {
+    const Icon = typeIcons[type];
+    return <Icon className={cn("h-3.5 w-3.5 shrink-0", className)} />;
+}
+
+export function EntityMentionMenu({ mention }: { mention: EntityMentionController }) {
+    const { query, items, activeIndex, setActiveIndex, select } = mention;
+    if (!query || items.length === 0) return null;
+
+    return (
+        <div
+            className="absolute z-50 w-64 overflow-hidden rounded-lg border bg-background p-1 text-sm shadow-lg"
+            style={{ top: query.top, left: query.left }}
+        >
+            {items.map((entity, index) => (
+                <button
+                    key={`${entity.type}:${entity.id}`}
+                    type="button"
+                    className={cn(
+                        "flex w-full items-center gap-2 rounded px-2 py-1.5 text-left",
+                        index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                    )}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    // Keep the editor focused, the selection must stay at the query
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => select(entity)}
+                >
+                    <EntityIcon type={entity.type} className="text-muted-foreground" />
+                    <span className="truncate">{entity.name}</span>
+                    {entity.subtitle && (
+                        <span className="ml-auto shrink-0 text-[10px] text-muted-foreground">{entity.subtitle}</span>
+                    )}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+type HoveredLink = {
+    element: HTMLElement;
+    entity: LinkableEntity | null;
+    top: number;
+    left: number;
+};
+
+const HIDE_DELAY = 200;
+
+// Details of the linked entity while the pointer rests on a link
+export function EntityHoverCard({ editor }: { editor: Editor }) {
+    const { t } = useI18n();
+    const { entities } = useContext(EntityLinkContext);
+    const [hovered, setHovered] = useState<HoveredLink | null>(null);
+    const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const cancelHide = () => {
+        if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+        hideTimerRef.current = null;
+    };
+    const scheduleHide = useCallback(() => {
+        if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+        hideTimerRef.current = setTimeout(() => setHovered(null), HIDE_DELAY);
+    }, []);
+
+    useEffect(() => {
+        const dom = editor.view.dom;
+        const handleOver = (event: MouseEvent) => {
+            const element = (event.target as HTMLElement).closest<HTMLElement>("span[data-entity-id]");
+            if (!element) return;
+            cancelHide();
+            setHovered({
+                element,
+                entity: entityOf(entities, element),
+                ...framePosition(editor, element.getBoundingClientRect()),
+            });
+        };
+        const handleOut = (event: MouseEvent) => {
+            if ((event.target as HTMLElement).closest("span[data-entity-id]")) scheduleHide();
+        };
+
+        dom.addEventListener("mouseover", handleOver);
+        dom.addEventListener("mouseout", handleOut);
+        return () => {
+            dom.removeEventListener("mouseover", handleOver);
+            dom.removeEventListener("mouseout", handleOut);
+            cancelHide();
+        };
+    }, [editor, entities, scheduleHide]);
+
+    if (!hovered) return null;
+    const { entity } = hovered;
+
+    const typeLabels: Record<EntityLinkType, string> = {
+        character: t({ de: "Charakter", en: "Character" }),
+        world: t({ de: "Weltelement", en: "World element" }),
+        plot: t({ de: "Plotpunkt", en: "Plot point" }),
+    };
+
+    const unlink = () => {
+        if (!hovered.element.isConnected) return;
+        const pos = editor.view.posAtDOM(hovered.element, 0);
+        editor.chain().focus().setTextSelection(pos).extendMarkRange(EntityLink.name).unsetMark(EntityLink.name).run();
+        setHovered(null);
+    };
+
+    const type = entity?.type ?? hovered.element.getAttribute("data-entity-type");
+
+    return (
+        <div
+            className="absolute z-50 w-72 rounded-lg border bg-background p-3 text-sm shadow-lg"
+            style={{ top: hovered.top, left: hovered.left }}
+            onMouseEnter={cancelHide}
+            onMouseLeave={scheduleHide}
+        >
+            {entity ? (
+                <div className="flex gap-3">
+                    {entity.imageUrl && (
+                        <img src={entity.imageUrl} alt="" className="h-14 w-14 shrink-0 rounded-md object-cover" />
+                    )}
+                    <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                            <EntityIcon type={entity.type} />
+                            <span>{typeLabels[entity.type]}</span>
+                            {entity.subtitle && <span>· {entity.subtitle}</span>}
+                        </div>
+                        <p className="font-medium">{entity.name}</p>
+                        {entity.description && (
+                            <p className="text-xs text-muted-foreground line-clamp-4 whitespace-pre-wrap">{entity.description}</p>
+                        )}
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-muted-foreground">
+                    {isEntityLinkType(type) && `${typeLabels[type]}: `}
+                    {t({ de: "Der verknüpfte Eintrag existiert nicht mehr.", en: "The linked entry no longer exists." })}
+                </p>
+            )}
+            {editor.isEditable && (
+                <div className="mt-2 border-t pt-2">
+                    <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={unlink}>
+                        <Unlink className="mr-1 h-3.5 w-3.5" />
+                        {t({ de: "Verknüpfung entfernen", en: "Remove link" })}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
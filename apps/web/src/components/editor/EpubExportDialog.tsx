@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { defaultEpubOptions, type EpubExportOptions } from "@/lib/export/epub-options";
+import { useI18n } from "@/components/locale-provider";
+
+type Props = {
+    bookId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+};
+
+export default function EpubExportDialog({ bookId, open, onOpenChange }: Props) {
+    const { t } = useI18n();
+    const [options, setOptions] = useState<EpubExportOptions>(defaultEpubOptions);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateOptions = (changes: Partial<EpubExportOptions>) => {
+        setOptions((prev) => ({ ...prev, ...changes }));
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/export`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ format: "epub", options }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || "EPUB export failed");
+            }
+
+            const blob = await response.blob();
+            const disposition = response.headers.get("Content-Disposition") ?? "";
+            const fileName = decodeURIComponent(/filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1] ?? "book.epub");
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = fileName;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            onOpenChange(false);
+        } catch (err) {
+            console.error("EPUB export failed:", err);
+            setError(t({ de: "Der EPUB-Export ist fehlgeschlagen.", en: "The EPUB export failed." }));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const toggles: Array<{ key: "titlePage" | "copyrightPage"; label: string }> = [
+        { key: "titlePage", label: t({ de: "Titelseite", en: "Title page" }) },
+        { key: "copyrightPage", label: t({ de: "Impressum mit Copyright-Hinweis", en: "Copyright page" }) },
+    ];
+
+    const texts: Array<{ key: "dedication" | "acknowledgements" | "aboutAuthor"; label: string; placeholder: string }> = [
+        {
+            key: "dedication",
+            label: t({ de: "Widmung", en: "Dedication" }),
+            placeholder: t({ de: "Für …", en: "For …" }),
+        },
+        {
+            key: "acknowledgements",
+            label: t({ de: "Danksagung (am Ende)", en: "Acknowledgements (at the end)" }),
+            placeholder: t({ de: "Optional", en: "Optional" }),
+        },
+        {
+            key: "aboutAuthor",
+            label: t({ de: "Über den Autor (am Ende)", en: "About the author (at the end)" }),
+            placeholder: t({ de: "Optional", en: "Optional" }),
+        },
+    ];
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{t({ de: "EPUB exportieren", en: "Export EPUB" })}</DialogTitle>
+                    <DialogDescription>
+                        {t({
+                            de: "EPUB 3 mit Inhaltsverzeichnis und Barrierefreiheits-Metadaten, geeignet für Kobo, Apple Books und andere Shops.",
+                            en: "EPUB 3 with table of contents and accessibility metadata, ready for Kobo, Apple Books and other stores.",
+                        })}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        {toggles.map((toggle) => (
+                            <label key={toggle.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={options[toggle.key]}
+                                    onChange={(e) => updateOptions({ [toggle.key]: e.target.checked })}
+                                    className="h-4 w-4 rounded border-gray-300"
+                                />
+                                {toggle.label}
+                            </label>
+                        ))}
+                    </div>
+
+                    {texts.map((text) => (
+                        <div key={text.key} className="space-y-1.5">
+                            <Label>{text.label}</Label>
+                            <textarea
+                                value={options[text.key]}
+                                onChange={(e) => updateOptions({ [text.key]: e.target.value })}
+                                placeholder={text.placeholder}
+                                className="w-full min-h-[64px] px-3 py-2 rounded-md border border-input bg-background text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring"
+                            />
+                        </div>
+                    ))}
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+                        {t({ de: "Abbrechen", en: "Cancel" })}
+                    </Button>
+                    <Button onClick={handleExport} disabled={isExporting}>
+                        {isExporting ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                            <Download className="h-4 w-4 mr-2" />
+                        )}
+                        {t({ de: "EPUB erstellen", en: "Create EPUB" })}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
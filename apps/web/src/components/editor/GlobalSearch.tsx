@@ -13,11 +13,14 @@ import {
     Globe,
     Loader2,
     ChevronRight,
+    ChevronDown,
     Command,
+    ReplaceAll,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useI18n } from "@/components/locale-provider";
 import type { TranslatedText } from "@/lib/i18n";
+import { defaultSearchOptions, type SearchMode, type SearchOccurrence, type SearchOptions } from "@/lib/search-query";
 
 interface SearchResult {
     type: "chapter" | "character" | "plotpoint" | "worldelement";
@@ -26,14 +29,21 @@ interface SearchResult {
     matchField: string;
     context: string;
     orderIndex?: number;
+    occurrences: SearchOccurrence[];
+    matchCount: number;
 }
 
 interface GlobalSearchProps {
     bookId: string;
     onNavigateToChapter?: (chapterId: string) => void;
     onNavigateToTab?: (tab: string, itemId?: string) => void;
+    // Called after a replace-all changed chapters
+    onReplaced?: () => void;
 }
 
+// Occurrences shown per result before it is expanded
+const COLLAPSED_OCCURRENCES = 1;
+
 const TYPE_CONFIG = {
     chapter: { icon: FileText, color: "text-blue-500", bg: "bg-blue-500/10" },
     character: { icon: User, color: "text-purple-500", bg: "bg-purple-500/10" },
@@ -41,7 +51,7 @@ const TYPE_CONFIG = {
     worldelement: { icon: Globe, color: "text-green-500", bg: "bg-green-500/10" },
 };
 
-export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateToTab }: GlobalSearchProps) {
+export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateToTab, onReplaced }: GlobalSearchProps) {
     const { t } = useI18n();
     const router = useRouter();
     const [isOpen, setIsOpen] = useState(false);
@@ -49,8 +59,17 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
     const [results, setResults] = useState<SearchResult[]>([]);
     const [isSearching, setIsSearching] = useState(false);
     const [total, setTotal] = useState(0);
+    // Other names of a character that were searched along with the query
+    const [variants, setVariants] = useState<string[]>([]);
     const [selectedIndex, setSelectedIndex] = useState(0);
     const [mounted, setMounted] = useState(false);
+    const [options, setOptions] = useState<SearchOptions>(defaultSearchOptions);
+    const [searchError, setSearchError] = useState<string | null>(null);
+    const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
+    const [showReplace, setShowReplace] = useState(false);
+    const [replacement, setReplacement] = useState("");
+    const [isReplacing, setIsReplacing] = useState(false);
+    const [replaceMessage, setReplaceMessage] = useState<string | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
     const debounceRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -60,6 +79,7 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
         Zusammenfassung: { de: "Zusammenfassung", en: "Summary" },
         Notizen: { de: "Notizen", en: "Notes" },
         Name: { de: "Name", en: "Name" },
+        Aliase: { de: "Aliase", en: "Aliases" },
         Beschreibung: { de: "Beschreibung", en: "Description" },
         Hintergrund: { de: "Hintergrund", en: "Backstory" },
     }) satisfies Record<string, TranslatedText>, []);
@@ -75,33 +95,42 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
     }, []);
 
     // Perform search
-    const performSearch = useCallback(async (searchQuery: string) => {
+    const performSearch = useCallback(async (searchQuery: string, searchOptions: SearchOptions) => {
         if (searchQuery.trim().length < 2) {
             setResults([]);
+            setVariants([]);
             setTotal(0);
             return;
         }
 
         setIsSearching(true);
+        setSearchError(null);
         try {
             const response = await fetch(`/api/books/${bookId}/search`, {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ query: searchQuery }),
+                body: JSON.stringify({ query: searchQuery, options: searchOptions }),
             });
 
             if (response.ok) {
                 const data = await response.json();
                 setResults(data.results || []);
                 setTotal(data.total || 0);
+                setVariants(data.variants || []);
                 setSelectedIndex(0);
+                setExpandedResults(new Set());
+            } else if (response.status === 400) {
+                setResults([]);
+                setVariants([]);
+                setTotal(0);
+                setSearchError(t({ de: "Ungültiger regulärer Ausdruck", en: "Invalid regular expression" }));
             }
         } catch (error) {
             console.error("Search error:", error);
         } finally {
             setIsSearching(false);
         }
-    }, [bookId]);
+    }, [bookId, t]);
 
     // Debounced search
     useEffect(() => {
@@ -111,11 +140,13 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
 
         if (query.trim().length >= 2) {
             debounceRef.current = setTimeout(() => {
-                performSearch(query);
+                performSearch(query, options);
             }, 200);
         } else {
             setResults([]);
+            setVariants([]);
             setTotal(0);
+            setSearchError(null);
         }
 
         return () => {
@@ -123,7 +154,7 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
                 clearTimeout(debounceRef.current);
             }
         };
-    }, [query, performSearch]);
+    }, [query, options, performSearch]);
 
     // Focus input when opened
     useEffect(() => {
@@ -132,7 +163,9 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
         } else {
             setQuery("");
             setResults([]);
+            setVariants([]);
             setSelectedIndex(0);
+            setReplaceMessage(null);
         }
     }, [isOpen]);
 
@@ -164,22 +197,86 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
         }
     };
 
-    // Highlight match in context
-    const highlightMatch = (text: string, searchTerm: string) => {
-        if (!text || !searchTerm) return text;
-
-        const regex = new RegExp(`(${searchTerm.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})`, "gi");
-        const parts = text.split(regex);
-
-        return parts.map((part, i) =>
-            regex.test(part) ? (
-                <mark key={i} className="bg-yellow-300 dark:bg-yellow-700 px-0.5 rounded font-medium">
-                    {part}
+    // Highlight the match within its context snippet
+    const renderOccurrence = (occurrence: SearchOccurrence) => {
+        const { context, matchStart, matchLength } = occurrence;
+        return (
+            <>
+                {context.slice(0, matchStart)}
+                <mark className="bg-yellow-300 dark:bg-yellow-700 px-0.5 rounded font-medium">
+                    {context.slice(matchStart, matchStart + matchLength)}
                 </mark>
-            ) : part
+                {context.slice(matchStart + matchLength)}
+            </>
         );
     };
 
+    const resultKey = (result: SearchResult) => `${result.type}-${result.id}-${result.matchField}`;
+
+    const toggleExpanded = (key: string) => {
+        setExpandedResults(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const updateOptions = (changes: Partial<SearchOptions>) => {
+        setOptions(prev => ({ ...prev, ...changes }));
+        setReplaceMessage(null);
+    };
+
+    const chapterMatchCount = results
+        .filter(result => result.type === "chapter")
+        .reduce((sum, result) => sum + result.matchCount, 0);
+
+    // Replace every match in the chapters of the book; each changed chapter keeps a revision
+    const handleReplaceAll = async () => {
+        if (!confirm(t({
+            de: "Alle Treffer für \"{{query}}\" in allen Kapiteln durch \"{{replacement}}\" ersetzen? Der vorherige Stand bleibt im Verlauf jedes Kapitels erhalten.",
+            en: "Replace all matches for \"{{query}}\" in all chapters with \"{{replacement}}\"? The previous state is kept in each chapter's history.",
+        }, { query, replacement }))) {
+            return;
+        }
+
+        setIsReplacing(true);
+        setReplaceMessage(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/search/replace`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ query, options, replacement }),
+            });
+
+            if (response.ok) {
+                const data = await response.json();
+                setReplaceMessage(t({
+                    de: "{{count}} Treffer in {{chapters}} Kapiteln ersetzt.",
+                    en: "Replaced {{count}} matches in {{chapters}} chapters.",
+                }, { count: data.replacedCount, chapters: data.chapterCount }));
+                onReplaced?.();
+                await performSearch(query, options);
+            } else {
+                setReplaceMessage(t({ de: "Ersetzen fehlgeschlagen.", en: "Replace failed." }));
+            }
+        } catch (error) {
+            console.error("Replace error:", error);
+            setReplaceMessage(t({ de: "Ersetzen fehlgeschlagen.", en: "Replace failed." }));
+        } finally {
+            setIsReplacing(false);
+        }
+    };
+
+    const modeLabels: Record<SearchMode, string> = {
+        words: t({ de: "Wörter", en: "Words" }),
+        phrase: t({ de: "Phrase", en: "Phrase" }),
+        regex: t({ de: "Regex", en: "Regex" }),
+    };
+
     const handleResultClick = (result: SearchResult) => {
         setIsOpen(false);
 
@@ -254,6 +351,107 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
                         </button>
                     </div>
 
+                    {/* Search Options */}
+                    <div className="flex items-center gap-3 px-4 py-2 border-b text-xs">
+                        <div className="flex rounded-md border overflow-hidden">
+                            {(Object.keys(modeLabels) as SearchMode[]).map((mode) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => updateOptions({ mode })}
+                                    className={cn(
+                                        "px-2 py-1 transition-colors",
+                                        options.mode === mode ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+                                    )}
+                                >
+                                    {modeLabels[mode]}
+                                </button>
+                            ))}
+                        </div>
+                        <label className={cn(
+                            "flex items-center gap-1.5 cursor-pointer",
+                            options.mode === "regex" && "opacity-50 cursor-not-allowed"
+                        )}>
+                            <input
+                                type="checkbox"
+                                checked={options.wholeWord}
+                                disabled={options.mode === "regex"}
+                                onChange={(e) => updateOptions({ wholeWord: e.target.checked })}
+                                className="h-3.5 w-3.5 rounded border-gray-300"
+                            />
+                            {t({ de: "Ganzes Wort", en: "Whole word" })}
+                        </label>
+                        <label
+                            className={cn(
+                                "flex items-center gap-1.5 cursor-pointer",
+                                (options.mode === "regex" || showReplace) && "opacity-50 cursor-not-allowed"
+                            )}
+                            title={t({
+                                de: "Der Name einer Figur findet auch ihre Spitznamen und Aliase",
+                                en: "A character's name also finds their nicknames and aliases",
+                            })}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={options.aliases}
+                                disabled={options.mode === "regex" || showReplace}
+                                onChange={(e) => updateOptions({ aliases: e.target.checked })}
+                                className="h-3.5 w-3.5 rounded border-gray-300"
+                            />
+                            {t({ de: "Aliase", en: "Aliases" })}
+                        </label>
+                        <button
+                            onClick={() => {
+                                // Replacing only touches what was typed, so the results must not include aliases
+                                if (!showReplace && options.aliases) updateOptions({ aliases: false });
+                                setShowReplace(!showReplace);
+                            }}
+                            className={cn(
+                                "ml-auto flex items-center gap-1 px-2 py-1 rounded transition-colors",
+                                showReplace ? "bg-accent text-foreground" : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                            )}
+                        >
+                            <ReplaceAll className="h-3.5 w-3.5" />
+                            {t({ de: "Ersetzen", en: "Replace" })}
+                        </button>
+                    </div>
+
+                    {/* Replace All */}
+                    {showReplace && (
+                        <div className="px-4 py-2 border-b space-y-1">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={replacement}
+                                    onChange={(e) => setReplacement(e.target.value)}
+                                    placeholder={options.mode === "regex"
+                                        ? t({ de: "Ersetzen durch ($1 für Gruppen)...", en: "Replace with ($1 for groups)..." })
+                                        : t({ de: "Ersetzen durch...", en: "Replace with..." })}
+                                    className="flex-1 h-8 px-2 rounded-md border border-input bg-background text-sm outline-none focus:ring-2 focus:ring-ring"
+                                />
+                                <button
+                                    onClick={handleReplaceAll}
+                                    disabled={isReplacing || isSearching || chapterMatchCount === 0}
+                                    className="h-8 px-3 flex items-center gap-1.5 rounded-md bg-primary text-primary-foreground text-sm disabled:opacity-50 disabled:pointer-events-none"
+                                >
+                                    {isReplacing && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                                    {t({ de: "Alle ersetzen", en: "Replace all" })}
+                                </button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                {replaceMessage ?? t({
+                                    de: "Ersetzt in Titel, Text, Zusammenfassung und Notizen aller Kapitel. Formatierungen bleiben erhalten.",
+                                    en: "Replaces in title, text, summary and notes of all chapters. Formatting is preserved.",
+                                })}
+                            </p>
+                        </div>
+                    )}
+
+                    {variants.length > 0 && !isSearching && (
+                        <div className="px-4 py-1.5 border-b text-xs text-muted-foreground">
+                            {t({ de: "Auch gesucht: {{names}}", en: "Also searched: {{names}}" }, { names: variants.join(", ") })}
+                        </div>
+                    )}
+
                     {/* Results */}
                     <div className="max-h-[60vh] overflow-auto">
                         {isSearching ? (
@@ -261,6 +459,10 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
                                 <Loader2 className="h-6 w-6 animate-spin mr-3" />
                                 <span>{t({ de: "Suche...", en: "Searching..." })}</span>
                             </div>
+                        ) : searchError ? (
+                            <div className="py-12 text-center text-destructive">
+                                <p className="text-sm">{searchError}</p>
+                            </div>
                         ) : results.length === 0 && query.length >= 2 ? (
                             <div className="py-12 text-center text-muted-foreground">
                                 <Search className="h-10 w-10 mx-auto mb-3 opacity-30" />
@@ -277,46 +479,72 @@ export default function GlobalSearch({ bookId, onNavigateToChapter, onNavigateTo
                                     const config = TYPE_CONFIG[result.type];
                                     const Icon = config.icon;
                                     const isSelected = index === selectedIndex;
+                                    const key = resultKey(result);
+                                    const isExpanded = expandedResults.has(key);
+                                    const occurrences = isExpanded
+                                        ? result.occurrences
+                                        : result.occurrences.slice(0, COLLAPSED_OCCURRENCES);
 
                                     return (
-                                        <button
-                                            key={`${result.type}-${result.id}`}
-                                            onClick={() => handleResultClick(result)}
-                                            onMouseEnter={() => setSelectedIndex(index)}
-                                            className={cn(
-                                                "w-full flex items-start gap-4 px-4 py-3 transition-colors text-left",
-                                                isSelected ? "bg-accent" : "hover:bg-muted/50"
-                                            )}
-                                        >
-                                            <div className={cn("mt-0.5 p-2 rounded-lg", config.bg)}>
-                                                <Icon className={cn("h-4 w-4", config.color)} />
-                                            </div>
-                                            <div className="flex-1 min-w-0">
-                                                <div className="flex items-center gap-2 mb-1">
-                                                    <span className="font-semibold">
-                                                        {result.type === "chapter" && result.orderIndex !== undefined && (
-                                                            <span className="text-muted-foreground font-normal mr-1">
-                                                                {t({ de: "Kap.", en: "Ch." })} {result.orderIndex + 1}:
+                                        <div key={key}>
+                                            <button
+                                                onClick={() => handleResultClick(result)}
+                                                onMouseEnter={() => setSelectedIndex(index)}
+                                                className={cn(
+                                                    "w-full flex items-start gap-4 px-4 py-3 transition-colors text-left",
+                                                    isSelected ? "bg-accent" : "hover:bg-muted/50"
+                                                )}
+                                            >
+                                                <div className={cn("mt-0.5 p-2 rounded-lg", config.bg)}>
+                                                    <Icon className={cn("h-4 w-4", config.color)} />
+                                                </div>
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="flex items-center gap-2 mb-1">
+                                                        <span className="font-semibold">
+                                                            {result.type === "chapter" && result.orderIndex !== undefined && (
+                                                                <span className="text-muted-foreground font-normal mr-1">
+                                                                    {t({ de: "Kap.", en: "Ch." })} {result.orderIndex + 1}:
+                                                                </span>
+                                                            )}
+                                                            {result.title}
+                                                        </span>
+                                                        <span className={cn(
+                                                            "text-xs px-2 py-0.5 rounded-full",
+                                                            config.bg, config.color
+                                                        )}>
+                                                            {formatMatchField(result.matchField)}
+                                                        </span>
+                                                        {result.matchCount > 1 && (
+                                                            <span className="text-xs text-muted-foreground">
+                                                                {t({ de: "{{count}} Treffer", en: "{{count}} matches" }, { count: result.matchCount })}
                                                             </span>
                                                         )}
-                                                        {result.title}
-                                                    </span>
-                                                    <span className={cn(
-                                                        "text-xs px-2 py-0.5 rounded-full",
-                                                        config.bg, config.color
-                                                    )}>
-                                                        {formatMatchField(result.matchField)}
-                                                    </span>
+                                                    </div>
+                                                    <div className="space-y-1">
+                                                        {occurrences.map((occurrence, occurrenceIndex) => (
+                                                            <p key={occurrenceIndex} className="text-sm text-muted-foreground line-clamp-2">
+                                                                {renderOccurrence(occurrence)}
+                                                            </p>
+                                                        ))}
+                                                    </div>
                                                 </div>
-                                                <p className="text-sm text-muted-foreground line-clamp-2">
-                                                    {highlightMatch(result.context, query)}
-                                                </p>
-                                            </div>
-                                            <ChevronRight className={cn(
-                                                "h-5 w-5 mt-2 flex-shrink-0 transition-colors",
-                                                isSelected ? "text-foreground" : "text-muted-foreground/50"
-                                            )} />
-                                        </button>
+                                                <ChevronRight className={cn(
+                                                    "h-5 w-5 mt-2 flex-shrink-0 transition-colors",
+                                                    isSelected ? "text-foreground" : "text-muted-foreground/50"
+                                                )} />
+                                            </button>
+                                            {result.occurrences.length > COLLAPSED_OCCURRENCES && (
+                                                <button
+                                                    onClick={() => toggleExpanded(key)}
+                                                    className="ml-16 mb-2 flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                                                >
+                                                    {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                                                    {isExpanded
+                                                        ? t({ de: "Weniger anzeigen", en: "Show less" })
+                                                        : t({ de: "Alle {{count}} Treffer anzeigen", en: "Show all {{count}} matches" }, { count: result.matchCount })}
+                                                </button>
+                                            )}
+                                        </div>
                                     );
                                 })}
                             </div>
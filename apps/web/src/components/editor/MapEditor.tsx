@@ -0,0 +1,873 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+    Hexagon,
+    ImageUp,
+    Loader2,
+    MapPin,
+    MousePointer2,
+    Route,
+    Trash2,
+    Undo2,
+    X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/components/locale-provider";
+import { cn } from "@/lib/utils";
+import {
+    formatDistance,
+    REGION_COLORS,
+    routeDistance,
+    routePath,
+    type MapPoint,
+    type MapRegionData,
+    type MapRouteData,
+    type StoryMapData,
+} from "@/lib/story-map";
+
+type MapElement = {
+    id: string;
+    name: string;
+    type: string;
+};
+
+type Props = {
+    bookId: string;
+    worldElements: MapElement[];
+    onOpenElement: (elementId: string) => void;
+};
+
+// Drawing a region collects its corners; drawing a route starts and ends at a pin with
+// waypoints in between
+type Tool =
+    | { kind: "select" }
+    | { kind: "pin"; elementId: string }
+    | { kind: "region"; points: MapPoint[] }
+    | { kind: "route"; fromElementId: string | null; toElementId: string | null; points: MapPoint[] };
+
+type Selection = { kind: "region" | "route"; id: string } | null;
+
+// Fields of the region or route being created or edited
+type ShapeForm = {
+    name: string;
+    color: string;
+    elementId: string;
+    distance: string;
+    travelHours: string;
+};
+
+const emptyForm: ShapeForm = { name: "", color: REGION_COLORS[0]!, elementId: "", distance: "", travelHours: "" };
+
+// Pins and labels keep their size on screen however large the map is shown
+const PIN_RADIUS = 7;
+const LABEL_SIZE = 12;
+
+function readImageSize(url: string) {
+    return new Promise<{ width: number; height: number }>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+        image.onerror = () => reject(new Error("Image could not be loaded"));
+        image.src = url;
+    });
+}
+
+function centroid(points: MapPoint[]) {
+    const sum = points.reduce((acc, point) => ({ x: acc.x + point.x, y: acc.y + point.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function toSvgPoints(points: MapPoint[]) {
+    return points.map((point) => `${point.x},${point.y}`).join(" ");
+}
+
+export default function MapEditor({ bookId, worldElements, onOpenElement }: Props) {
+    const { t } = useI18n();
+    const [map, setMap] = useState<StoryMapData | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [tool, setTool] = useState<Tool>({ kind: "select" });
+    const [selection, setSelection] = useState<Selection>(null);
+    const [form, setForm] = useState<ShapeForm>(emptyForm);
+    const [settings, setSettings] = useState({ distanceUnit: "", scale: "", travelPerDay: "" });
+    const [dragging, setDragging] = useState<{ elementId: string; x: number; y: number; moved: boolean } | null>(null);
+    // Image pixels per screen pixel
+    const [zoom, setZoom] = useState(1);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const apiBase = `/api/books/${bookId}/world/map`;
+    const locations = worldElements.filter((element) => element.type === "location");
+    const elementName = (id: string | null) => worldElements.find((element) => element.id === id)?.name ?? "?";
+
+    const applySettings = (data: StoryMapData | null) => {
+        setMap(data);
+        setSettings({
+            distanceUnit: data?.distanceUnit ?? "km",
+            scale: data?.scale?.toString() ?? "",
+            travelPerDay: data?.travelPerDay?.toString() ?? "",
+        });
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(apiBase)
+            .then((response) => (response.ok ? response.json() : Promise.reject(new Error())))
+            .then((data: StoryMapData | null) => {
+                if (!cancelled) applySettings(data);
+            })
+            .catch(() => {
+                if (!cancelled) setError(t({ de: "Karte konnte nicht geladen werden", en: "Failed to load the map" }));
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [apiBase, t]);
+
+    useEffect(() => {
+        const svg = svgRef.current;
+        if (!svg || !map) return;
+        const observer = new ResizeObserver(() => {
+            const width = svg.getBoundingClientRect().width;
+            if (width > 0) setZoom(map.imageWidth / width);
+        });
+        observer.observe(svg);
+        return () => observer.disconnect();
+    }, [map]);
+
+    const request = async <T,>(path: string, method: string, body?: unknown): Promise<T> => {
+        const response = await fetch(`${apiBase}${path}`, {
+            method,
+            headers: { "Content-Type": "application/json" },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        if (!response.ok) {
+            const data = await response.json().catch(() => ({}));
+            throw new Error(data.error || t({ de: "Speichern fehlgeschlagen", en: "Failed to save" }));
+        }
+        return response.json();
+    };
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        await run(async () => {
+            const formData = new FormData();
+            formData.append("file", file);
+            const response = await fetch("/api/upload", { method: "POST", body: formData });
+            if (!response.ok) {
+                throw new Error(t({ de: "Upload fehlgeschlagen", en: "Upload failed" }));
+            }
+            const { url } = await response.json();
+            const size = await readImageSize(url);
+            applySettings(await request<StoryMapData>("", "PUT", {
+                imageUrl: url,
+                imageWidth: size.width,
+                imageHeight: size.height,
+            }));
+        });
+    };
+
+    const handleSaveSettings = () => run(async () => {
+        applySettings(await request<StoryMapData>("", "PUT", {
+            distanceUnit: settings.distanceUnit,
+            scale: settings.scale || null,
+            travelPerDay: settings.travelPerDay || null,
+        }));
+    });
+
+    const handleDeleteMap = () => {
+        if (!confirm(t({
+            de: "Karte mit allen Pins, Regionen und Routen löschen?",
+            en: "Delete the map with all pins, regions and routes?",
+        }))) return;
+        run(async () => {
+            await request("", "DELETE");
+            applySettings(null);
+            setTool({ kind: "select" });
+            setSelection(null);
+        });
+    };
+
+    // Position on the map image in its own pixels
+    const toMapPoint = (event: { clientX: number; clientY: number }): MapPoint | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || !map || rect.width === 0 || rect.height === 0) return null;
+        return {
+            x: Math.min(Math.max(((event.clientX - rect.left) / rect.width) * map.imageWidth, 0), map.imageWidth),
+            y: Math.min(Math.max(((event.clientY - rect.top) / rect.height) * map.imageHeight, 0), map.imageHeight),
+        };
+    };
+
+    const savePin = (elementId: string, point: MapPoint) => run(async () => {
+        const pin = await request<{ elementId: string; x: number; y: number }>(`/pins/${elementId}`, "PUT", point);
+        setMap((current) => current && {
+            ...current,
+            pins: [...current.pins.filter((entry) => entry.elementId !== elementId), pin],
+        });
+    });
+
+    const removePin = (elementId: string) => run(async () => {
+        await request(`/pins/${elementId}`, "DELETE");
+        setMap((current) => current && {
+            ...current,
+            pins: current.pins.filter((entry) => entry.elementId !== elementId),
+        });
+    });
+
+    const handleMapClick = (event: React.MouseEvent<SVGSVGElement>) => {
+        const point = toMapPoint(event);
+        if (!point) return;
+        if (tool.kind === "pin") {
+            savePin(tool.elementId, point);
+            setTool({ kind: "select" });
+        } else if (tool.kind === "region") {
+            setTool({ ...tool, points: [...tool.points, point] });
+        } else if (tool.kind === "route" && tool.fromElementId && !tool.toElementId) {
+            setTool({ ...tool, points: [...tool.points, point] });
+        } else if (tool.kind === "select") {
+            setSelection(null);
+        }
+    };
+
+    const handlePinPointerDown = (event: React.PointerEvent, elementId: string, point: MapPoint) => {
+        event.stopPropagation();
+        if (tool.kind === "select") {
+            svgRef.current?.setPointerCapture(event.pointerId);
+            setDragging({ elementId, ...point, moved: false });
+        } else if (tool.kind === "region") {
+            setTool({ ...tool, points: [...tool.points, point] });
+        } else if (tool.kind === "route") {
+            if (!tool.fromElementId) setTool({ ...tool, fromElementId: elementId });
+            else if (!tool.toElementId && elementId !== tool.fromElementId) setTool({ ...tool, toElementId: elementId });
+        }
+    };
+
+    const handlePointerMove = (event: React.PointerEvent) => {
+        if (!dragging) return;
+        const point = toMapPoint(event);
+        if (point) setDragging({ ...dragging, ...point, moved: true });
+    };
+
+    // A pin that was not moved was clicked: open its location
+    const handlePointerUp = () => {
+        if (!dragging) return;
+        setDragging(null);
+        if (dragging.moved) savePin(dragging.elementId, { x: dragging.x, y: dragging.y });
+        else onOpenElement(dragging.elementId);
+    };
+
+    const startTool = (next: Tool) => {
+        setTool(next);
+        setSelection(null);
+        setForm(emptyForm);
+    };
+
+    const selectShape = (next: NonNullable<Selection>) => {
+        if (tool.kind !== "select") return;
+        setSelection(next);
+        if (next.kind === "region") {
+            const region = map?.regions.find((entry) => entry.id === next.id);
+            setForm({ ...emptyForm, name: region?.name ?? "", color: region?.color ?? emptyForm.color, elementId: region?.elementId ?? "" });
+        } else {
+            const route = map?.routes.find((entry) => entry.id === next.id);
+            setForm({
+                ...emptyForm,
+                name: route?.name ?? "",
+                distance: route?.distance?.toString() ?? "",
+                travelHours: route?.travelHours?.toString() ?? "",
+            });
+        }
+    };
+
+    const handleSaveRegion = () => run(async () => {
+        const body = { name: form.name, color: form.color, elementId: form.elementId || null };
+        if (tool.kind === "region") {
+            const region = await request<MapRegionData>("/regions", "POST", { ...body, points: tool.points });
+            setMap((current) => current && { ...current, regions: [...current.regions, region] });
+            setTool({ kind: "select" });
+            setSelection({ kind: "region", id: region.id });
+        } else if (selection?.kind === "region") {
+            const region = await request<MapRegionData>(`/regions/${selection.id}`, "PATCH", body);
+            setMap((current) => current && {
+                ...current,
+                regions: current.regions.map((entry) => (entry.id === region.id ? region : entry)),
+            });
+        }
+    });
+
+    const handleSaveRoute = () => run(async () => {
+        const body = { name: form.name, distance: form.distance || null, travelHours: form.travelHours || null };
+        if (tool.kind === "route" && tool.fromElementId && tool.toElementId) {
+            const route = await request<MapRouteData>("/routes", "POST", {
+                ...body,
+                fromElementId: tool.fromElementId,
+                toElementId: tool.toElementId,
+                points: tool.points,
+            });
+            setMap((current) => current && { ...current, routes: [...current.routes, route] });
+            setTool({ kind: "select" });
+            setSelection({ kind: "route", id: route.id });
+        } else if (selection?.kind === "route") {
+            const route = await request<MapRouteData>(`/routes/${selection.id}`, "PATCH", body);
+            setMap((current) => current && {
+                ...current,
+                routes: current.routes.map((entry) => (entry.id === route.id ? route : entry)),
+            });
+        }
+    });
+
+    const handleDeleteShape = () => {
+        if (!selection) return;
+        run(async () => {
+            const key = selection.kind === "region" ? "regions" : "routes";
+            await request(`/${key}/${selection.id}`, "DELETE");
+            setMap((current) => current && {
+                ...current,
+                regions: current.regions.filter((entry) => entry.id !== selection.id),
+                routes: current.routes.filter((entry) => entry.id !== selection.id),
+            });
+            setSelection(null);
+        });
+    };
+
+    const fileInput = (
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+    );
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-16">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+        );
+    }
+
+    if (!map) {
+        return (
+            <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed py-16 text-center">
+                <div className="bg-secondary/50 p-6 rounded-full mb-4">
+                    <MapPin className="h-10 w-10 text-muted-foreground/50" />
+                </div>
+                <h3 className="text-lg font-medium">{t({ de: "Noch keine Karte", en: "No map yet" })}</h3>
+                <p className="text-muted-foreground text-sm max-w-sm mt-2 mb-6">
+                    {t({
+                        de: "Lade eine Karte deiner Welt hoch, um Orte zu platzieren, Regionen einzuzeichnen und Reisewege zu messen.",
+                        en: "Upload a map of your world to place locations, draw regions and measure travel routes.",
+                    })}
+                </p>
+                <Button onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+                    {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImageUp className="mr-2 h-4 w-4" />}
+                    {t({ de: "Karte hochladen", en: "Upload map" })}
+                </Button>
+                {error && <p className="mt-3 text-sm text-destructive">{error}</p>}
+                {fileInput}
+            </div>
+        );
+    }
+
+    const pins = map.pins
+        .filter((pin) => locations.some((location) => location.id === pin.elementId))
+        .map((pin) => (dragging?.elementId === pin.elementId ? { ...pin, x: dragging.x, y: dragging.y } : pin));
+    const pinnedIds = new Set(pins.map((pin) => pin.elementId));
+    const routes = map.routes.flatMap((route) => {
+        const path = routePath(route, pins);
+        return path ? [{ route, path }] : [];
+    });
+    const selectedRegion = selection?.kind === "region" ? map.regions.find((region) => region.id === selection.id) : undefined;
+    const selectedRoute = selection?.kind === "route" ? map.routes.find((route) => route.id === selection.id) : undefined;
+
+    const draftPath = tool.kind === "route" && tool.fromElementId
+        ? routePath({ fromElementId: tool.fromElementId, toElementId: tool.toElementId ?? tool.fromElementId, points: tool.points }, pins)
+        : null;
+    // Until the end pin is chosen, the draft ends at the last waypoint
+    const draftLine = draftPath && tool.kind === "route" && !tool.toElementId ? draftPath.slice(0, -1) : draftPath;
+    const measuredDraft = tool.kind === "route" && tool.fromElementId && tool.toElementId
+        ? routeDistance({ fromElementId: tool.fromElementId, toElementId: tool.toElementId, points: tool.points, distance: null }, pins, map)
+        : null;
+    const measuredSelected = selectedRoute ? routeDistance({ ...selectedRoute, distance: null }, pins, map) : null;
+
+    const toolHint = {
+        select: t({ de: "Pins ziehen zum Verschieben, anklicken zum Öffnen.", en: "Drag pins to move them, click to open them." }),
+        pin: t({ de: "Auf die Karte klicken, um den Ort zu platzieren.", en: "Click on the map to place the location." }),
+        region: t({ de: "Eckpunkte der Region nacheinander anklicken.", en: "Click the corners of the region one after another." }),
+        route: tool.kind === "route" && tool.fromElementId
+            ? tool.toElementId
+                ? t({ de: "Route benennen und speichern.", en: "Name and save the route." })
+                : t({ de: "Wegpunkte setzen und den Zielort anklicken.", en: "Set waypoints and click the destination." })
+            : t({ de: "Den Startort anklicken.", en: "Click the starting location." }),
+    }[tool.kind];
+
+    const routeFields = (measured: number | null) => (
+        <>
+            <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                    <label className="text-xs font-medium">{t({ de: "Entfernung ({{unit}})", en: "Distance ({{unit}})" }, { unit: map.distanceUnit })}</label>
+                    <Input
+                        type="number"
+                        min={0}
+                        value={form.distance}
+                        onChange={(e) => setForm({ ...form, distance: e.target.value })}
+                        placeholder={measured !== null ? formatDistance(measured, "") : t({ de: "gemessen", en: "measured" })}
+                        className="h-8"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-medium">{t({ de: "Reisezeit (Std.)", en: "Travel time (h)" })}</label>
+                    <Input
+                        type="number"
+                        min={0}
+                        value={form.travelHours}
+                        onChange={(e) => setForm({ ...form, travelHours: e.target.value })}
+                        placeholder={t({ de: "aus Tempo", en: "from pace" })}
+                        className="h-8"
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                {t({
+                    de: "Leer lassen, um die Länge auf der Karte und das Reisetempo zu verwenden.",
+                    en: "Leave empty to use the length on the map and the travel pace.",
+                })}
+            </p>
+        </>
+    );
+
+    const regionFields = () => (
+        <>
+            <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder={t({ de: "Name, z.B. Nordmark", en: "Name, e.g. Northmarch" })}
+                className="h-8"
+            />
+            <div className="flex gap-1.5">
+                {REGION_COLORS.map((color) => (
+                    <button
+                        key={color}
+                        type="button"
+                        className={cn("h-5 w-5 rounded-full border-2", form.color === color ? "border-foreground" : "border-transparent")}
+                        style={{ backgroundColor: color }}
+                        onClick={() => setForm({ ...form, color })}
+                        aria-label={color}
+                    />
+                ))}
+            </div>
+            <select
+                value={form.elementId}
+                onChange={(e) => setForm({ ...form, elementId: e.target.value })}
+                className="h-8 w-full rounded-md border border-input bg-background px-2 text-sm"
+            >
+                <option value="">{t({ de: "Kein Weltelement", en: "No world element" })}</option>
+                {worldElements.map((element) => (
+                    <option key={element.id} value={element.id}>{element.name}</option>
+                ))}
+            </select>
+        </>
+    );
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-4">
+            <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="flex rounded-md border border-border/50 p-0.5">
+                        <Button
+                            variant={tool.kind === "select" || tool.kind === "pin" ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => startTool({ kind: "select" })}
+                        >
+                            <MousePointer2 className="mr-1 h-3.5 w-3.5" />
+                            {t({ de: "Auswählen", en: "Select" })}
+                        </Button>
+                        <Button
+                            variant={tool.kind === "region" ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => startTool({ kind: "region", points: [] })}
+                        >
+                            <Hexagon className="mr-1 h-3.5 w-3.5" />
+                            {t({ de: "Region", en: "Region" })}
+                        </Button>
+                        <Button
+                            variant={tool.kind === "route" ? "secondary" : "ghost"}
+                            size="sm"
+                            className="h-8"
+                            onClick={() => startTool({ kind: "route", fromElementId: null, toElementId: null, points: [] })}
+                            disabled={pins.length < 2}
+                        >
+                            <Route className="mr-1 h-3.5 w-3.5" />
+                            {t({ de: "Route", en: "Route" })}
+                        </Button>
+                    </div>
+                    <span className="text-xs text-muted-foreground">{toolHint}</span>
+                </div>
+
+                <div className="relative overflow-hidden rounded-xl border border-border/50 bg-secondary/20">
+                    <img src={map.imageUrl} alt="" className="block w-full select-none" draggable={false} />
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${map.imageWidth} ${map.imageHeight}`}
+                        className={cn("absolute inset-0 h-full w-full", tool.kind !== "select" && "cursor-crosshair")}
+                        onClick={handleMapClick}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                    >
+                        {map.regions.map((region) => (
+                            <g key={region.id} onClick={(e) => { if (tool.kind === "select") { e.stopPropagation(); selectShape({ kind: "region", id: region.id }); } }}>
+                                <polygon
+                                    points={toSvgPoints(region.points)}
+                                    fill={region.color}
+                                    fillOpacity={selection?.id === region.id ? 0.35 : 0.2}
+                                    stroke={region.color}
+                                    strokeWidth={(selection?.id === region.id ? 3 : 2) * zoom}
+                                    className={cn(tool.kind === "select" && "cursor-pointer")}
+                                />
+                                <text
+                                    {...centroid(region.points)}
+                                    textAnchor="middle"
+                                    fontSize={LABEL_SIZE * zoom}
+                                    fill={region.color}
+                                    className="pointer-events-none select-none font-semibold"
+                                >
+                                    {region.name}
+                                </text>
+                            </g>
+                        ))}
+
+                        {routes.map(({ route, path }) => {
+                            const distance = routeDistance(route, pins, map);
+                            const middle = path[Math.floor(path.length / 2)]!;
+                            const isSelected = selection?.id === route.id;
+                            return (
+                                <g key={route.id} onClick={(e) => { if (tool.kind === "select") { e.stopPropagation(); selectShape({ kind: "route", id: route.id }); } }}>
+                                    {/* Wide invisible line so the route is easy to hit */}
+                                    <polyline points={toSvgPoints(path)} fill="none" stroke="transparent" strokeWidth={12 * zoom} className={cn(tool.kind === "select" && "cursor-pointer")} />
+                                    <polyline
+                                        points={toSvgPoints(path)}
+                                        fill="none"
+                                        stroke={isSelected ? "#f59e0b" : "#1e293b"}
+                                        strokeWidth={(isSelected ? 3 : 2) * zoom}
+                                        strokeDasharray={`${6 * zoom} ${4 * zoom}`}
+                                        className="pointer-events-none"
+                                    />
+                                    {distance !== null && (
+                                        <text
+                                            x={middle.x}
+                                            y={middle.y - 6 * zoom}
+                                            textAnchor="middle"
+                                            fontSize={(LABEL_SIZE - 1) * zoom}
+                                            fill="#1e293b"
+                                            stroke="white"
+                                            strokeWidth={3 * zoom}
+                                            paintOrder="stroke"
+                                            className="pointer-events-none select-none"
+                                        >
+                                            {formatDistance(distance, map.distanceUnit)}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+
+                        {tool.kind === "region" && tool.points.length > 0 && (
+                            <polygon
+                                points={toSvgPoints(tool.points)}
+                                fill={form.color}
+                                fillOpacity={0.2}
+                                stroke={form.color}
+                                strokeWidth={2 * zoom}
+                                strokeDasharray={`${4 * zoom} ${3 * zoom}`}
+                                className="pointer-events-none"
+                            />
+                        )}
+                        {draftLine && (
+                            <polyline
+                                points={toSvgPoints(draftLine)}
+                                fill="none"
+                                stroke="#f59e0b"
+                                strokeWidth={2 * zoom}
+                                strokeDasharray={`${6 * zoom} ${4 * zoom}`}
+                                className="pointer-events-none"
+                            />
+                        )}
+
+                        {pins.map((pin) => {
+                            const isRouteEnd = tool.kind === "route" && (tool.fromElementId === pin.elementId || tool.toElementId === pin.elementId);
+                            return (
+                                <g
+                                    key={pin.elementId}
+                                    onPointerDown={(e) => handlePinPointerDown(e, pin.elementId, { x: pin.x, y: pin.y })}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className={tool.kind === "select" ? "cursor-grab" : "cursor-pointer"}
+                                >
+                                    <circle
+                                        cx={pin.x}
+                                        cy={pin.y}
+                                        r={PIN_RADIUS * zoom}
+                                        fill={isRouteEnd ? "#f59e0b" : "#10b981"}
+                                        stroke="white"
+                                        strokeWidth={2 * zoom}
+                                    />
+                                    <text
+                                        x={pin.x}
+                                        y={pin.y - (PIN_RADIUS + 4) * zoom}
+                                        textAnchor="middle"
+                                        fontSize={LABEL_SIZE * zoom}
+                                        fill="#0f172a"
+                                        stroke="white"
+                                        strokeWidth={3 * zoom}
+                                        paintOrder="stroke"
+                                        className="pointer-events-none select-none font-medium"
+                                    >
+                                        {elementName(pin.elementId)}
+                                    </text>
+                                </g>
+                            );
+                        })}
+                    </svg>
+                </div>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+
+            <div className="space-y-4">
+                {tool.kind === "region" && (
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <p className="text-sm font-medium">{t({ de: "Neue Region", en: "New region" })}</p>
+                        {regionFields()}
+                        <div className="flex justify-between gap-2">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setTool({ ...tool, points: tool.points.slice(0, -1) })}
+                                disabled={tool.points.length === 0}
+                            >
+                                <Undo2 className="mr-1 h-3.5 w-3.5" />
+                                {t({ de: "Punkt zurück", en: "Undo point" })}
+                            </Button>
+                            <div className="flex gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => startTool({ kind: "select" })}>
+                                    {t({ de: "Abbrechen", en: "Cancel" })}
+                                </Button>
+                                <Button size="sm" onClick={handleSaveRegion} disabled={isBusy || tool.points.length < 3 || !form.name.trim()}>
+                                    {t({ de: "Speichern", en: "Save" })}
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {tool.kind === "route" && (
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <p className="text-sm font-medium">
+                            {tool.fromElementId
+                                ? `${elementName(tool.fromElementId)} → ${tool.toElementId ? elementName(tool.toElementId) : "…"}`
+                                : t({ de: "Neue Route", en: "New route" })}
+                        </p>
+                        {tool.toElementId && (
+                            <>
+                                <Input
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder={t({ de: "Name, z.B. Küstenstraße (optional)", en: "Name, e.g. Coast road (optional)" })}
+                                    className="h-8"
+                                />
+                                {routeFields(measuredDraft)}
+                            </>
+                        )}
+                        <div className="flex justify-between gap-2">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setTool({ ...tool, points: tool.points.slice(0, -1) })}
+                                disabled={tool.points.length === 0 || !!tool.toElementId}
+                            >
+                                <Undo2 className="mr-1 h-3.5 w-3.5" />
+                                {t({ de: "Punkt zurück", en: "Undo point" })}
+                            </Button>
+                            <div className="flex gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => startTool({ kind: "select" })}>
+                                    {t({ de: "Abbrechen", en: "Cancel" })}
+                                </Button>
+                                <Button size="sm" onClick={handleSaveRoute} disabled={isBusy || !tool.toElementId}>
+                                    {t({ de: "Speichern", en: "Save" })}
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {selectedRegion && (
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium">{t({ de: "Region", en: "Region" })}</p>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setSelection(null)}>
+                                <X className="h-3.5 w-3.5" />
+                            </Button>
+                        </div>
+                        {regionFields()}
+                        <div className="flex justify-between gap-2">
+                            <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={handleDeleteShape} disabled={isBusy}>
+                                <Trash2 className="mr-1 h-3.5 w-3.5" />
+                                {t({ de: "Löschen", en: "Delete" })}
+                            </Button>
+                            <div className="flex gap-2">
+                                {selectedRegion.elementId && (
+                                    <Button variant="outline" size="sm" onClick={() => onOpenElement(selectedRegion.elementId!)}>
+                                        {t({ de: "Öffnen", en: "Open" })}
+                                    </Button>
+                                )}
+                                <Button size="sm" onClick={handleSaveRegion} disabled={isBusy || !form.name.trim()}>
+                                    {t({ de: "Speichern", en: "Save" })}
+                                </Button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {selectedRoute && (
+                    <div className="space-y-3 rounded-lg border p-3">
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium">
+                                {elementName(selectedRoute.fromElementId)} → {elementName(selectedRoute.toElementId)}
+                            </p>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setSelection(null)}>
+                                <X className="h-3.5 w-3.5" />
+                            </Button>
+                        </div>
+                        <Input
+                            value={form.name}
+                            onChange={(e) => setForm({ ...form, name: e.target.value })}
+                            placeholder={t({ de: "Name (optional)", en: "Name (optional)" })}
+                            className="h-8"
+                        />
+                        {routeFields(measuredSelected)}
+                        <div className="flex justify-between gap-2">
+                            <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={handleDeleteShape} disabled={isBusy}>
+                                <Trash2 className="mr-1 h-3.5 w-3.5" />
+                                {t({ de: "Löschen", en: "Delete" })}
+                            </Button>
+                            <Button size="sm" onClick={handleSaveRoute} disabled={isBusy}>
+                                {t({ de: "Speichern", en: "Save" })}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                <div className="space-y-2 rounded-lg border p-3">
+                    <p className="text-sm font-medium">{t({ de: "Orte", en: "Locations" })}</p>
+                    {locations.length === 0 && (
+                        <p className="text-xs text-muted-foreground">
+                            {t({ de: "Lege Weltelemente vom Typ Ort an, um sie zu platzieren.", en: "Create world elements of type location to place them." })}
+                        </p>
+                    )}
+                    {locations.map((location) => (
+                        <div key={location.id} className="group flex items-center gap-2 text-sm">
+                            <MapPin className={cn("h-3.5 w-3.5 shrink-0", pinnedIds.has(location.id) ? "text-emerald-500" : "text-muted-foreground/40")} />
+                            <button type="button" className="min-w-0 flex-1 truncate text-left hover:text-primary" onClick={() => onOpenElement(location.id)}>
+                                {location.name}
+                            </button>
+                            {pinnedIds.has(location.id) ? (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                                    onClick={() => removePin(location.id)}
+                                    title={t({ de: "Von der Karte nehmen", en: "Remove from map" })}
+                                >
+                                    <X className="h-3 w-3" />
+                                </Button>
+                            ) : (
+                                <Button
+                                    variant={tool.kind === "pin" && tool.elementId === location.id ? "secondary" : "ghost"}
+                                    size="sm"
+                                    className="h-6 px-2 text-xs"
+                                    onClick={() => startTool({ kind: "pin", elementId: location.id })}
+                                >
+                                    {t({ de: "Platzieren", en: "Place" })}
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="space-y-3 rounded-lg border p-3">
+                    <p className="text-sm font-medium">{t({ de: "Maßstab und Reisen", en: "Scale and travel" })}</p>
+                    <div className="grid grid-cols-[1fr_5rem] gap-2">
+                        <div className="space-y-1">
+                            <label className="text-xs font-medium">{t({ de: "Kartenbreite", en: "Map width" })}</label>
+                            <Input
+                                type="number"
+                                min={0}
+                                value={settings.scale}
+                                onChange={(e) => setSettings({ ...settings, scale: e.target.value })}
+                                className="h-8"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-xs font-medium">{t({ de: "Einheit", en: "Unit" })}</label>
+                            <Input
+                                value={settings.distanceUnit}
+                                onChange={(e) => setSettings({ ...settings, distanceUnit: e.target.value })}
+                                className="h-8"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-xs font-medium">
+                            {t({ de: "Reisestrecke pro Tag ({{unit}})", en: "Distance per day of travel ({{unit}})" }, { unit: settings.distanceUnit || "-" })}
+                        </label>
+                        <Input
+                            type="number"
+                            min={0}
+                            value={settings.travelPerDay}
+                            onChange={(e) => setSettings({ ...settings, travelPerDay: e.target.value })}
+                            className="h-8"
+                        />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        {t({
+                            de: "Aus Maßstab und Reisetempo ergeben sich die Reisezeiten, die die Zeitleiste gegen die Szenendaten prüft.",
+                            en: "Scale and pace give the travel times the timeline checks against the scene dates.",
+                        })}
+                    </p>
+                    <div className="flex flex-wrap justify-between gap-2">
+                        <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => fileInputRef.current?.click()} disabled={isBusy} title={t({ de: "Kartenbild ersetzen", en: "Replace map image" })}>
+                                <ImageUp className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" onClick={handleDeleteMap} disabled={isBusy} title={t({ de: "Karte löschen", en: "Delete map" })}>
+                                <Trash2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <Button size="sm" onClick={handleSaveSettings} disabled={isBusy}>
+                            {isBusy && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                            {t({ de: "Übernehmen", en: "Apply" })}
+                        </Button>
+                    </div>
+                </div>
+                {fileInput}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Loader2, Plus, SpellCheck, Wand2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useI18n } from "@/components/locale-provider";
+import { parseAliases, serializeAliases } from "@/lib/character-presence";
+import type { NameCheckIssue } from "@/lib/name-check";
+
+type Props = {
+    bookId: string;
+    chapters: { id: string; title: string }[];
+    characters: { id: string; name: string; aliases: string | null }[];
+    // Called with the updated character after a spelling was accepted as an alias
+    onAliasAdded: (character: { id: string; aliases: string | null }) => void;
+    // Called after a misspelling was corrected in the chapters
+    onReplaced: () => void;
+};
+
+export default function NameCheckPanel({ bookId, chapters, characters, onAliasAdded, onReplaced }: Props) {
+    const { t } = useI18n();
+    const [issues, setIssues] = useState<NameCheckIssue[] | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    // Word of the issue that is currently being fixed or accepted
+    const [busyWord, setBusyWord] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const characterName = (characterId: string) =>
+        characters.find((character) => character.id === characterId)?.name ?? "?";
+    const chapterLabel = (chapterId: string) => {
+        const index = chapters.findIndex((chapter) => chapter.id === chapterId);
+        return index >= 0 ? `${index + 1}. ${chapters[index]!.title}` : "";
+    };
+
+    const handleCheck = async () => {
+        setIsChecking(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/characters/name-check`);
+            if (!response.ok) {
+                throw new Error(t({ de: "Prüfung fehlgeschlagen", en: "Check failed" }));
+            }
+            const data = await response.json();
+            setIssues(data.issues);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const removeIssue = (word: string) => {
+        setIssues((current) => current?.filter((issue) => issue.word !== word) ?? null);
+    };
+
+    // Replace the spelling in all chapters with the known name
+    const handleFix = async (issue: NameCheckIssue) => {
+        setBusyWord(issue.word);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/search/replace`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    query: issue.word,
+                    options: { mode: "phrase", wholeWord: true, aliases: false },
+                    replacement: issue.suggestion,
+                }),
+            });
+            if (!response.ok) {
+                throw new Error(t({ de: "Ersetzen fehlgeschlagen", en: "Replace failed" }));
+            }
+            removeIssue(issue.word);
+            onReplaced();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setBusyWord(null);
+        }
+    };
+
+    // Keep the spelling: it becomes an alias of the character and is no longer reported
+    const handleAccept = async (issue: NameCheckIssue) => {
+        const character = characters.find((item) => item.id === issue.characterId);
+        if (!character) return;
+
+        setBusyWord(issue.word);
+        setError(null);
+        try {
+            const aliases = serializeAliases([...parseAliases(character.aliases), issue.word]);
+            const response = await fetch(`/api/books/${bookId}/characters/${character.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ aliases }),
+            });
+            if (!response.ok) {
+                throw new Error(t({ de: "Fehler beim Speichern", en: "Failed to save" }));
+            }
+            const updated = await response.json();
+            removeIssue(issue.word);
+            onAliasAdded({ id: updated.id, aliases: updated.aliases });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setBusyWord(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2 text-lg">
+                            <SpellCheck className="h-5 w-5 text-primary" />
+                            {t({ de: "Namensprüfung", en: "Name check" })}
+                        </CardTitle>
+                        <CardDescription>
+                            {t({
+                                de: "Findet seltene Schreibweisen, die einem Figurennamen sehr ähnlich sind, z.B. „Elisabeth“ neben „Elizabeth“.",
+                                en: "Finds rare spellings that are very close to a character's name, e.g. \"Elisabeth\" next to \"Elizabeth\".",
+                            })}
+                        </CardDescription>
+                    </div>
+                    <Button variant="outline" onClick={handleCheck} disabled={isChecking || chapters.length === 0}>
+                        {isChecking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SpellCheck className="mr-2 h-4 w-4" />}
+                        {t({ de: "Namen prüfen", en: "Check names" })}
+                    </Button>
+                </div>
+            </CardHeader>
+            {(issues || error) && (
+                <CardContent className="space-y-3">
+                    {issues && (
+                        issues.length === 0 ? (
+                            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                                <Check className="h-4 w-4 text-green-500" />
+                                {t({ de: "Keine abweichenden Schreibweisen gefunden.", en: "No deviating spellings found." })}
+                            </p>
+                        ) : (
+                            <div className="max-h-96 overflow-y-auto rounded-md border divide-y">
+                                {issues.map((issue) => (
+                                    <div key={issue.word} className="p-3 space-y-2 text-sm">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className="font-medium text-destructive line-through decoration-1">{issue.word}</span>
+                                            <span className="text-muted-foreground">→</span>
+                                            <span className="font-medium">{issue.suggestion}</span>
+                                            <span className="text-xs text-muted-foreground">
+                                                ({characterName(issue.characterId)} · {t({ de: "{{count}}×", en: "{{count}}×" }, { count: issue.count })})
+                                            </span>
+                                            <div className="ml-auto flex gap-1">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => handleAccept(issue)}
+                                                    disabled={busyWord !== null}
+                                                    title={t({ de: "Schreibweise als Alias der Figur behalten", en: "Keep the spelling as an alias of the character" })}
+                                                >
+                                                    <Plus className="mr-1 h-3.5 w-3.5" />
+                                                    {t({ de: "Als Alias", en: "As alias" })}
+                                                </Button>
+                                                <Button size="sm" onClick={() => handleFix(issue)} disabled={busyWord !== null}>
+                                                    {busyWord === issue.word
+                                                        ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                                                        : <Wand2 className="mr-1 h-3.5 w-3.5" />}
+                                                    {t({ de: "Korrigieren", en: "Correct" })}
+                                                </Button>
+                                            </div>
+                                        </div>
+                                        {issue.occurrences.slice(0, 3).map((occurrence, index) => (
+                                            <p key={index} className="text-xs text-muted-foreground">
+                                                <span className="font-medium">{chapterLabel(occurrence.chapterId)}:</span> {occurrence.context}
+                                            </p>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        )
+                    )}
+
+                    {error && (
+                        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                            {error}
+                        </div>
+                    )}
+                </CardContent>
+            )}
+        </Card>
+    );
+}
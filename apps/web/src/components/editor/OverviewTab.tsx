@@ -14,7 +14,8 @@ import {
     Map,
     Sparkles,
     Upload,
-    Trash2
+    Trash2,
+    ScrollText
 } from "lucide-react";
 import { motion } from "framer-motion";
 
@@ -24,8 +25,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
 import { useI18n } from "@/components/locale-provider";
+import { isAIConfigured } from "@/lib/ai/types";
+import type { SceneData } from "@/lib/scenes";
 
+import CharacterPresencePanel from "@/components/editor/CharacterPresencePanel";
 import ConsistencyCheckPanel from "@/components/editor/ConsistencyCheckPanel";
+import NameCheckPanel from "@/components/editor/NameCheckPanel";
 
 // Re-using types for now (should be in a shared types file ideally)
 type Chapter = {
@@ -34,17 +39,26 @@ type Chapter = {
     orderIndex: number;
     status: string;
     wordCount: number;
+    summary: string | null;
+    summaryStale: boolean;
+    act: number | null;
+    chapterCharacters: { characterId: string }[];
+    chapterPlotPoints: { plotPointId: string }[];
+    scenes: SceneData[];
 };
 
 type AISettings = {
     id: string;
     bookId: string;
+    provider: string;
     apiEndpoint: string;
     apiKey: string | null;
     model: string;
     temperature: number;
     maxTokens: number;
     systemPrompt: string | null;
+    contextWindow: number | null;
+    verbatimChapters: number;
 } | null;
 
 type Book = {
@@ -58,10 +72,13 @@ type Book = {
     language: string;
     coverUrl: string | null;
     hideCoverText: boolean;
+    autoDetectPresence: boolean;
     chapters: Chapter[];
     characters: any[];
     plotPoints: any[];
     worldElements: any[];
+    worldLinks: any[];
+    worldFieldTemplates: any[];
     aiSettings: AISettings;
 
 };
@@ -92,10 +109,41 @@ export default function OverviewTab({
     const [isGeneratingAll, setIsGeneratingAll] = useState(false);
     const [generationProgress, setGenerationProgress] = useState(0);
     const [generationTotal, setGenerationTotal] = useState(0);
+    const [isSummarizingAll, setIsSummarizingAll] = useState(false);
+    const [summaryProgress, setSummaryProgress] = useState(0);
+    const [summaryTotal, setSummaryTotal] = useState(0);
     const coverInputRef = useRef<HTMLInputElement>(null);
 
     const totalWords = book.chapters.reduce((sum, ch) => sum + ch.wordCount, 0);
     const pendingChapters = book.chapters.filter(ch => ch.wordCount === 0).length;
+    // Written chapters whose summary is missing or no longer matches their text
+    const unsummarizedChapters = book.chapters.filter(ch => ch.wordCount > 0 && (!ch.summary || ch.summaryStale)).length;
+
+    const handleAutoDetectPresenceChange = async (autoDetectPresence: boolean) => {
+        try {
+            const response = await fetch(`/api/books/${book.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ autoDetectPresence }),
+            });
+            if (response.ok) {
+                setBook(prev => ({ ...prev, autoDetectPresence }));
+            }
+        } catch (error) {
+            console.error("Error updating autoDetectPresence:", error);
+        }
+    };
+
+    const reloadChapters = async () => {
+        try {
+            const response = await fetch(`/api/books/${book.id}`);
+            if (!response.ok) return;
+            const data = await response.json();
+            setBook(prev => ({ ...prev, chapters: data.chapters }));
+        } catch (error) {
+            console.error("Error reloading chapters:", error);
+        }
+    };
 
     const handleSaveBookDetails = async () => {
         setIsSavingBook(true);
@@ -185,7 +233,7 @@ export default function OverviewTab({
 
     // Generate all chapters that don't have content
     const handleGenerateAllChapters = async () => {
-        if (!book.aiSettings?.apiKey) {
+        if (!isAIConfigured(book.aiSettings)) {
             alert(t({ de: "Bitte konfiguriere zuerst die KI-Einstellungen.", en: "Please configure the AI settings first." }));
             setActiveTab("settings");
             return;
@@ -268,6 +316,77 @@ export default function OverviewTab({
         }
     };
 
+    // Summarize all written chapters without an up-to-date summary, in reading order
+    const handleSummarizeAllChapters = async () => {
+        if (!isAIConfigured(book.aiSettings)) {
+            alert(t({ de: "Bitte konfiguriere zuerst die KI-Einstellungen.", en: "Please configure the AI settings first." }));
+            setActiveTab("settings");
+            return;
+        }
+
+        const chaptersToSummarize = book.chapters
+            .filter(ch => ch.wordCount > 0 && (!ch.summary || ch.summaryStale))
+            .sort((a, b) => a.orderIndex - b.orderIndex);
+
+        if (chaptersToSummarize.length === 0) {
+            alert(t({ de: "Alle Kapitel sind bereits zusammengefasst.", en: "All chapters are already summarized." }));
+            return;
+        }
+
+        setIsSummarizingAll(true);
+        setSummaryProgress(0);
+        setSummaryTotal(chaptersToSummarize.length);
+
+        let failed = 0;
+        try {
+            for (let i = 0; i < chaptersToSummarize.length; i++) {
+                const chapter = chaptersToSummarize[i];
+                setSummaryProgress(i + 1);
+
+                const response = await fetch(`/api/books/${book.id}/ai/summarize`, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ chapterId: chapter.id }),
+                });
+
+                if (!response.ok) {
+                    console.error(`Failed to summarize chapter ${chapter.orderIndex + 1}`);
+                    failed++;
+                    continue;
+                }
+
+                const data = await response.json();
+                setBook(prev => ({
+                    ...prev,
+                    chapters: prev.chapters.map(ch =>
+                        ch.id === chapter.id
+                            ? { ...ch, summary: data.summary, summaryStale: data.summaryStale }
+                            : ch
+                    )
+                }));
+            }
+
+            if (failed > 0) {
+                alert(t({
+                    de: "{{count}} Kapitel konnten nicht zusammengefasst werden.",
+                    en: "{{count}} chapters could not be summarized.",
+                }, { count: failed }));
+            } else {
+                alert(t({
+                    de: "{{count}} Kapitel erfolgreich zusammengefasst!",
+                    en: "{{count}} chapters summarized successfully!",
+                }, { count: chaptersToSummarize.length }));
+            }
+        } catch (error) {
+            console.error("Error summarizing chapters:", error);
+            alert(t({ de: "Fehler bei der Zusammenfassung. Bitte versuche es erneut.", en: "Error during summarization. Please try again." }));
+        } finally {
+            setIsSummarizingAll(false);
+            setSummaryProgress(0);
+            setSummaryTotal(0);
+        }
+    };
+
     const stats = [
         { label: t({ de: "Kapitel", en: "Chapters" }), value: book.chapters.length, icon: FileText, color: "text-blue-500", bg: "bg-blue-500/10" },
         { label: t({ de: "Charaktere", en: "Characters" }), value: book.characters.length, icon: Users, color: "text-emerald-500", bg: "bg-emerald-500/10" },
@@ -279,6 +398,10 @@ export default function OverviewTab({
         ? t({ de: "1 Kapitel wartet auf Inhalt", en: "1 chapter is waiting for content" })
         : t({ de: "{{count}} Kapitel warten auf Inhalt", en: "{{count}} chapters are waiting for content" }, { count: pendingChapters });
 
+    const unsummarizedLabel = unsummarizedChapters === 1
+        ? t({ de: "1 Kapitel ohne aktuelle Zusammenfassung", en: "1 chapter without an up-to-date summary" })
+        : t({ de: "{{count}} Kapitel ohne aktuelle Zusammenfassung", en: "{{count}} chapters without an up-to-date summary" }, { count: unsummarizedChapters });
+
     return (
         <div className="space-y-6">
             {/* Header Hero Section */}
@@ -480,11 +603,11 @@ export default function OverviewTab({
                         <div className="flex-1">
                             <h3 className="text-lg font-semibold">{t({ de: "KI-Assistent", en: "AI assistant" })}</h3>
                             <p className="text-sm text-muted-foreground">
-                                {book.aiSettings?.apiKey
+                                {isAIConfigured(book.aiSettings)
                                     ? t({
                                         de: "Aktiv ({{model}}) - Dein Co-Autor ist bereit.",
                                         en: "Active ({{model}}) - your co-author is ready.",
-                                    }, { model: book.aiSettings.model })
+                                    }, { model: book.aiSettings?.model ?? "" })
                                     : t({
                                         de: "Noch nicht konfiguriert. Aktiviere die KI, um Schreibblockaden zu lösen.",
                                         en: "Not configured yet. Enable AI to break writer's block.",
@@ -497,7 +620,7 @@ export default function OverviewTab({
                     </div>
 
                     {/* Batch Generation Button */}
-                    {book.chapters.length > 0 && book.aiSettings?.apiKey && (
+                    {book.chapters.length > 0 && isAIConfigured(book.aiSettings) && (
                         <div className="border-t pt-6">
                             <div className="flex items-center justify-between mb-2">
                                 <div>
@@ -539,9 +662,81 @@ export default function OverviewTab({
                             )}
                         </div>
                     )}
+
+                    {/* Batch Summarization */}
+                    {book.chapters.length > 0 && isAIConfigured(book.aiSettings) && (
+                        <div className="border-t pt-6">
+                            <div className="flex items-center justify-between mb-2">
+                                <div>
+                                    <h4 className="font-medium">{t({ de: "Kapitel-Zusammenfassungen", en: "Chapter summaries" })}</h4>
+                                    <p className="text-sm text-muted-foreground">
+                                        {isSummarizingAll
+                                            ? t({
+                                                de: "Fasse Kapitel {{current}} von {{total}} zusammen...",
+                                                en: "Summarizing chapter {{current}} of {{total}}...",
+                                            }, { current: summaryProgress, total: summaryTotal })
+                                            : unsummarizedLabel}
+                                    </p>
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    onClick={handleSummarizeAllChapters}
+                                    disabled={isSummarizingAll || isGeneratingAll || unsummarizedChapters === 0}
+                                >
+                                    {isSummarizingAll ? (
+                                        <>
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            {summaryProgress}/{summaryTotal}
+                                        </>
+                                    ) : (
+                                        <>
+                                            <ScrollText className="mr-2 h-4 w-4" />
+                                            {t({ de: "Alle zusammenfassen", en: "Summarize all" })}
+                                        </>
+                                    )}
+                                </Button>
+                            </div>
+                            {isSummarizingAll && (
+                                <div className="mt-4 h-2 bg-secondary rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-chart-3 transition-all duration-300"
+                                        style={{ width: `${(summaryProgress / summaryTotal) * 100}%` }}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
+            {/* Character presence */}
+            {book.characters.length > 0 && (
+                <CharacterPresencePanel
+                    bookId={book.id}
+                    chapters={book.chapters}
+                    characters={book.characters}
+                    autoDetect={book.autoDetectPresence}
+                    onAutoDetectChange={handleAutoDetectPresenceChange}
+                    onApplied={reloadChapters}
+                />
+            )}
+
+            {/* Name check */}
+            {book.characters.length > 0 && (
+                <NameCheckPanel
+                    bookId={book.id}
+                    chapters={book.chapters}
+                    characters={book.characters}
+                    onAliasAdded={(updated) => setBook(prev => ({
+                        ...prev,
+                        characters: prev.characters.map((character) =>
+                            character.id === updated.id ? { ...character, aliases: updated.aliases } : character
+                        ),
+                    }))}
+                    onReplaced={reloadChapters}
+                />
+            )}
+
             {/* Consistency Check */}
             <ConsistencyCheckPanel
                 bookId={book.id}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    defaultPdfOptions,
+    STANDARD_PDF_FONT,
+    trimSizes,
+    type PdfExportOptions,
+    type PdfMargins,
+    type TrimSize,
+} from "@/lib/pdf/page-setup";
+import { useI18n } from "@/components/locale-provider";
+
+type Props = {
+    bookId: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+};
+
+export default function PdfExportDialog({ bookId, open, onOpenChange }: Props) {
+    const { t } = useI18n();
+    const [options, setOptions] = useState<PdfExportOptions>(defaultPdfOptions);
+    const [fonts, setFonts] = useState<string[]>([defaultPdfOptions.fontFamily]);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        setError(null);
+        fetch(`/api/books/${bookId}/pdf`)
+            .then((res) => (res.ok ? res.json() : { fonts: [] }))
+            .then((data) => {
+                if (data.fonts?.length) setFonts(data.fonts);
+            })
+            .catch((err) => console.error("Error loading PDF fonts:", err));
+    }, [open, bookId]);
+
+    const updateOptions = (changes: Partial<PdfExportOptions>) => {
+        setOptions((prev) => ({ ...prev, ...changes }));
+    };
+
+    const updateMargin = (key: keyof PdfMargins, value: string) => {
+        const number = Number(value.replace(",", "."));
+        if (Number.isNaN(number)) return;
+        setOptions((prev) => ({ ...prev, margins: { ...prev.margins, [key]: number } }));
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/pdf`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ options }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || "PDF export failed");
+            }
+
+            const blob = await response.blob();
+            const disposition = response.headers.get("Content-Disposition") ?? "";
+            const fileName = decodeURIComponent(/filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1] ?? "book.pdf");
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = fileName;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+            onOpenChange(false);
+        } catch (err) {
+            console.error("PDF export failed:", err);
+            setError(t({ de: "Der PDF-Export ist fehlgeschlagen.", en: "The PDF export failed." }));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const marginLabels: Record<keyof PdfMargins, string> = {
+        top: t({ de: "Oben", en: "Top" }),
+        bottom: t({ de: "Unten", en: "Bottom" }),
+        inner: t({ de: "Innen (Bundsteg)", en: "Inner (gutter)" }),
+        outer: t({ de: "Außen", en: "Outer" }),
+    };
+
+    const toggles: Array<{ key: "bleed" | "runningHeaders" | "pageNumbers" | "tableOfContents" | "chaptersOnRecto"; label: string }> = [
+        { key: "tableOfContents", label: t({ de: "Inhaltsverzeichnis mit Links", en: "Linked table of contents" }) },
+        { key: "runningHeaders", label: t({ de: "Kolumnentitel (Buch- und Kapiteltitel)", en: "Running headers (book and chapter title)" }) },
+        { key: "pageNumbers", label: t({ de: "Seitenzahlen", en: "Page numbers" }) },
+        { key: "chaptersOnRecto", label: t({ de: "Kapitel beginnen auf rechter Seite", en: "Chapters start on a right-hand page" }) },
+        { key: "bleed", label: t({ de: "Beschnittzugabe 3,175 mm (für Druckdienste)", en: "Bleed of 1/8 inch (for print services)" }) },
+    ];
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{t({ de: "Druck-PDF exportieren", en: "Export print PDF" })}</DialogTitle>
+                    <DialogDescription>
+                        {t({
+                            de: "Vektor-PDF mit echtem Text, für den Druck oder Print-on-Demand.",
+                            en: "Vector PDF with real text, for printing or print-on-demand.",
+                        })}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1.5">
+                            <Label>{t({ de: "Format", en: "Trim size" })}</Label>
+                            <select
+                                value={options.trimSize}
+                                onChange={(e) => updateOptions({ trimSize: e.target.value as TrimSize })}
+                                className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+                            >
+                                {(Object.keys(trimSizes) as TrimSize[]).map((size) => (
+                                    <option key={size} value={size}>
+                                        {trimSizes[size].label} ({trimSizes[size].width} × {trimSizes[size].height} mm)
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label>{t({ de: "Schrift", en: "Font" })}</Label>
+                            <select
+                                value={options.fontFamily}
+                                onChange={(e) => updateOptions({ fontFamily: e.target.value })}
+                                className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
+                            >
+                                {fonts.map((font) => (
+                                    <option key={font} value={font}>{font}</option>
+                                ))}
+                                <option value={STANDARD_PDF_FONT}>{t({ de: "Times (nicht eingebettet)", en: "Times (not embedded)" })}</option>
+                            </select>
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label>{t({ de: "Schriftgröße (pt)", en: "Font size (pt)" })}</Label>
+                            <Input
+                                type="number"
+                                min={8}
+                                max={16}
+                                step={0.5}
+                                value={options.fontSize}
+                                onChange={(e) => updateOptions({ fontSize: Number(e.target.value) || defaultPdfOptions.fontSize })}
+                            />
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label>{t({ de: "Zeilenabstand", en: "Line height" })}</Label>
+                            <Input
+                                type="number"
+                                min={1}
+                                max={2.5}
+                                step={0.05}
+                                value={options.lineHeight}
+                                onChange={(e) => updateOptions({ lineHeight: Number(e.target.value) || defaultPdfOptions.lineHeight })}
+                            />
+                        </div>
+                    </div>
+
+                    {options.fontFamily === STANDARD_PDF_FONT && (
+                        <p className="text-xs text-muted-foreground">
+                            {t({
+                                de: "Times wird nicht eingebettet und kennt nur Latin-1: typografische Anführungszeichen werden zu \", andere Zeichen zu ?. Druckdienste lehnen solche PDFs meist ab.",
+                                en: "Times is not embedded and only covers Latin-1: typographic quotes become \", other characters become ?. Print services usually reject such PDFs.",
+                            })}
+                        </p>
+                    )}
+
+                    <div className="space-y-1.5">
+                        <Label>{t({ de: "Ränder (mm)", en: "Margins (mm)" })}</Label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {(Object.keys(marginLabels) as Array<keyof PdfMargins>).map((key) => (
+                                <div key={key} className="space-y-1">
+                                    <span className="text-[10px] text-muted-foreground">{marginLabels[key]}</span>
+                                    <Input
+                                        type="number"
+                                        min={5}
+                                        max={50}
+                                        value={options.margins[key]}
+                                        onChange={(e) => updateMargin(key, e.target.value)}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        {toggles.map((toggle) => (
+                            <label key={toggle.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={options[toggle.key]}
+                                    onChange={(e) => updateOptions({ [toggle.key]: e.target.checked })}
+                                    className="h-4 w-4 rounded border-gray-300"
+                                />
+                                {toggle.label}
+                            </label>
+                        ))}
+                    </div>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+                        {t({ de: "Abbrechen", en: "Cancel" })}
+                    </Button>
+                    <Button onClick={handleExport} disabled={isExporting}>
+                        {isExporting ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                            <Download className="h-4 w-4 mr-2" />
+                        )}
+                        {t({ de: "PDF erstellen", en: "Create PDF" })}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -6,6 +6,7 @@ import { Loader2, Save, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import EntityBacklinks from "@/components/editor/EntityBacklinks";
 import { useI18n } from "@/components/locale-provider";
 
 type PlotPoint = {
@@ -150,6 +151,9 @@ export default function PlotPointForm({
                         />
                     </div>
 
+                    {/* Chapters linking the plot point */}
+                    {plotPoint && <EntityBacklinks bookId={bookId} type="plot" entityId={plotPoint.id} />}
+
                     {/* Error */}
                     {error && (
                         <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
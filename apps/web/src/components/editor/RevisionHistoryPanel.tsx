@@ -0,0 +1,339 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { History, Loader2, RotateCcw, ArrowRight, RefreshCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import {
+    blockText,
+    diffBlocks,
+    diffWords,
+    joinDiffRows,
+    splitHtmlBlocks,
+    type BlockDiffRow,
+    type WordDiffPart,
+} from "@/lib/html-diff";
+import { useI18n } from "@/components/locale-provider";
+
+type RevisionSummary = {
+    id: string;
+    title: string;
+    wordCount: number;
+    reason: string;
+    createdAt: string;
+};
+
+type Revision = RevisionSummary & {
+    content: string;
+};
+
+type Props = {
+    bookId: string;
+    chapterId: string;
+    currentContent: string;
+    // Bump to reload the list (e.g. after a manual save)
+    refreshKey?: number;
+    onContentChange: (content: string) => void;
+    onRestored: (chapter: { title: string; content: string }) => void;
+};
+
+function WordDiff({ parts, side }: { parts: WordDiffPart[]; side: "left" | "right" }) {
+    return (
+        <>
+            {parts.map((part, index) => {
+                if (part.type === "equal") {
+                    return <span key={index}>{part.text}</span>;
+                }
+                if (side === "left" && part.type === "delete") {
+                    return (
+                        <span key={index} className="bg-red-500/20 text-red-700 dark:text-red-300 line-through">
+                            {part.text}
+                        </span>
+                    );
+                }
+                if (side === "right" && part.type === "insert") {
+                    return (
+                        <span key={index} className="bg-green-500/20 text-green-700 dark:text-green-300">
+                            {part.text}
+                        </span>
+                    );
+                }
+                return null;
+            })}
+        </>
+    );
+}
+
+function DiffRowView({
+    row,
+    onTakeRevision,
+    takeLabel,
+}: {
+    row: BlockDiffRow;
+    onTakeRevision: () => void;
+    takeLabel: string;
+}) {
+    const leftText = row.left.map(blockText).join("\n");
+    const rightText = row.right.map(blockText).join("\n");
+    const parts = useMemo(
+        () => (row.kind === "changed" ? diffWords(leftText, rightText) : []),
+        [row.kind, leftText, rightText],
+    );
+
+    return (
+        <div
+            className={cn(
+                "grid grid-cols-[1fr_auto_1fr] gap-2 border-b py-2 text-sm leading-relaxed",
+                row.kind === "equal" && "text-muted-foreground",
+            )}
+        >
+            <div className={cn("px-2 whitespace-pre-wrap", row.kind === "removed" && "bg-red-500/10")}>
+                {row.kind === "changed" ? <WordDiff parts={parts} side="left" /> : leftText}
+            </div>
+            <div className="flex items-start">
+                {row.kind !== "equal" && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon-xs"
+                        onClick={onTakeRevision}
+                        title={takeLabel}
+                    >
+                        <ArrowRight className="h-3 w-3" />
+                    </Button>
+                )}
+            </div>
+            <div className={cn("px-2 whitespace-pre-wrap", row.kind === "added" && "bg-green-500/10")}>
+                {row.kind === "changed" ? <WordDiff parts={parts} side="right" /> : rightText}
+            </div>
+        </div>
+    );
+}
+
+export default function RevisionHistoryPanel({
+    bookId,
+    chapterId,
+    currentContent,
+    refreshKey,
+    onContentChange,
+    onRestored,
+}: Props) {
+    const { t, intlLocale } = useI18n();
+    const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [selectedRevision, setSelectedRevision] = useState<Revision | null>(null);
+    const [isLoadingRevision, setIsLoadingRevision] = useState(false);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [onlyChanges, setOnlyChanges] = useState(true);
+
+    const reasonLabels: Record<string, string> = {
+        manual: t({ de: "Manuell gespeichert", en: "Saved manually" }),
+        autosave: t({ de: "Automatisch", en: "Autosave" }),
+        ai_insert: t({ de: "Vor KI-Einfügung", en: "Before AI insertion" }),
+        restore: t({ de: "Vor Wiederherstellung", en: "Before restore" }),
+        replace: t({ de: "Vor Ersetzen", en: "Before replace" }),
+        scene_move: t({ de: "Vor Szenenverschiebung", en: "Before scene move" }),
+    };
+
+    const loadRevisions = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`/api/books/${bookId}/chapters/${chapterId}/revisions`);
+            if (response.ok) {
+                setRevisions(await response.json());
+            }
+        } catch (error) {
+            console.error("Error loading revisions:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [bookId, chapterId]);
+
+    useEffect(() => {
+        loadRevisions();
+    }, [loadRevisions, refreshKey]);
+
+    const openRevision = async (revisionId: string) => {
+        setIsLoadingRevision(true);
+        try {
+            const response = await fetch(`/api/books/${bookId}/chapters/${chapterId}/revisions/${revisionId}`);
+            if (response.ok) {
+                setSelectedRevision(await response.json());
+            }
+        } catch (error) {
+            console.error("Error loading revision:", error);
+        } finally {
+            setIsLoadingRevision(false);
+        }
+    };
+
+    const restoreRevision = async () => {
+        if (!selectedRevision) return;
+        if (
+            !confirm(
+                t({
+                    de: "Den aktuellen Kapitelinhalt durch diese Version ersetzen? Der aktuelle Stand wird vorher gesichert.",
+                    en: "Replace the current chapter content with this version? The current state is backed up first.",
+                }),
+            )
+        ) {
+            return;
+        }
+
+        setIsRestoring(true);
+        try {
+            const response = await fetch(
+                `/api/books/${bookId}/chapters/${chapterId}/revisions/${selectedRevision.id}`,
+                {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ action: "restore" }),
+                },
+            );
+            if (response.ok) {
+                const chapter = await response.json();
+                onRestored({ title: chapter.title, content: chapter.content });
+                setSelectedRevision(null);
+                loadRevisions();
+            }
+        } catch (error) {
+            console.error("Error restoring revision:", error);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const rows = useMemo(
+        () => (selectedRevision ? diffBlocks(splitHtmlBlocks(selectedRevision.content), splitHtmlBlocks(currentContent)) : []),
+        [selectedRevision, currentContent],
+    );
+
+    // Cherry-pick: replace the current side of one row with the revision side
+    const takeRow = (rowIndex: number) => {
+        const nextRows = rows.map((row, index) => (index === rowIndex ? { ...row, right: row.left } : row));
+        onContentChange(joinDiffRows(nextRows));
+    };
+
+    const changedCount = rows.filter((row) => row.kind !== "equal").length;
+
+    const formatDate = (value: string) =>
+        new Date(value).toLocaleString(intlLocale, {
+            day: "2-digit",
+            month: "2-digit",
+            year: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+        });
+
+    return (
+        <aside className="w-96 border-l bg-card flex flex-col">
+            <div className="p-4 border-b flex items-center justify-between">
+                <h2 className="font-semibold flex items-center gap-2">
+                    <History className="h-4 w-4 text-chart-3" />
+                    {t({ de: "Versionsverlauf", en: "Revision history" })}
+                </h2>
+                <Button variant="ghost" size="icon-sm" onClick={loadRevisions} disabled={isLoading}>
+                    <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+                </Button>
+            </div>
+
+            <div className="flex-1 overflow-auto p-4 space-y-2">
+                {revisions.length === 0 && !isLoading && (
+                    <p className="text-sm text-muted-foreground">
+                        {t({
+                            de: "Noch keine Versionen. Versionen entstehen beim manuellen Speichern, vor KI-Einfügungen und regelmäßig beim automatischen Speichern.",
+                            en: "No revisions yet. Revisions are created on manual save, before AI insertions and periodically during autosave.",
+                        })}
+                    </p>
+                )}
+                {revisions.map((revision) => (
+                    <button
+                        key={revision.id}
+                        onClick={() => openRevision(revision.id)}
+                        disabled={isLoadingRevision}
+                        className="w-full text-left p-3 rounded-md border hover:bg-secondary/50 transition-colors"
+                    >
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">{formatDate(revision.createdAt)}</span>
+                            <span className="text-xs text-muted-foreground">
+                                {revision.wordCount.toLocaleString(intlLocale)} {t({ de: "Wörter", en: "words" })}
+                            </span>
+                        </div>
+                        <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                            <span className="truncate">{revision.title}</span>
+                            <span className="ml-2 shrink-0">{reasonLabels[revision.reason] ?? revision.reason}</span>
+                        </div>
+                    </button>
+                ))}
+            </div>
+
+            <Dialog open={!!selectedRevision} onOpenChange={(open) => !open && setSelectedRevision(null)}>
+                <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {t({ de: "Version vom {{date}}", en: "Revision from {{date}}" }, {
+                                date: selectedRevision ? formatDate(selectedRevision.createdAt) : "",
+                            })}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {t(
+                                {
+                                    de: "{{count}} geänderte Absätze. Mit dem Pfeil übernimmst du einzelne Absätze aus der Version.",
+                                    en: "{{count}} changed paragraphs. Use the arrow to take individual paragraphs from the revision.",
+                                },
+                                { count: changedCount },
+                            )}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="flex items-center justify-between">
+                        <label className="flex items-center gap-2 text-xs cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={onlyChanges}
+                                onChange={(e) => setOnlyChanges(e.target.checked)}
+                                className="rounded border-input"
+                            />
+                            {t({ de: "Nur Änderungen anzeigen", en: "Show changes only" })}
+                        </label>
+                        <Button size="sm" onClick={restoreRevision} disabled={isRestoring}>
+                            {isRestoring ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                            <span className="ml-2">{t({ de: "Ganze Version wiederherstellen", en: "Restore entire revision" })}</span>
+                        </Button>
+                    </div>
+
+                    <div className="grid grid-cols-[1fr_auto_1fr] gap-2 text-xs font-medium text-muted-foreground border-b pb-1">
+                        <span className="px-2">{t({ de: "Version", en: "Revision" })}</span>
+                        <span className="w-6" />
+                        <span className="px-2">{t({ de: "Aktuell", en: "Current" })}</span>
+                    </div>
+                    <div className="flex-1 overflow-auto">
+                        {rows.map((row, index) =>
+                            onlyChanges && row.kind === "equal" ? null : (
+                                <DiffRowView
+                                    key={index}
+                                    row={row}
+                                    onTakeRevision={() => takeRow(index)}
+                                    takeLabel={t({ de: "Absatz aus Version übernehmen", en: "Take paragraph from revision" })}
+                                />
+                            ),
+                        )}
+                        {changedCount === 0 && (
+                            <p className="py-6 text-center text-sm text-muted-foreground">
+                                {t({ de: "Keine Unterschiede zum aktuellen Stand.", en: "No differences from the current state." })}
+                            </p>
+                        )}
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </aside>
+    );
+}
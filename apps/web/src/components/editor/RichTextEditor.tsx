@@ -28,8 +28,15 @@ import {
     Trash2,
     Maximize,
     Minimize,
+    Sparkles,
+    X,
+    FileDiff,
+    CheckCheck,
+    XCircle,
+    Clapperboard,
+    Link2,
 } from "lucide-react";
-import { useEffect, useState, useRef, useCallback, useMemo } from "react";
+import { useEffect, useState, useRef, useCallback, useContext, useMemo } from "react";
 
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -42,6 +49,24 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import AISelectionMenu, { AISuggestion, useAISelection, type AISelectionController } from "@/components/editor/AISelectionMenu";
+import { CommentAnchor } from "@/components/editor/CommentSidebar";
+import {
+    EntityHoverCard,
+    EntityLinkContext,
+    EntityLinks,
+    EntityMentionMenu,
+    linkEntityMentions,
+    useEntityMention,
+} from "@/components/editor/EntityLink";
+import { insertSceneBreak, SceneBreak } from "@/components/editor/SceneBreak";
+import TrackChangesMenu, {
+    acceptChanges,
+    findTrackedChanges,
+    rejectChanges,
+    TrackChanges,
+} from "@/components/editor/TrackChangesMenu";
+import { acceptTrackedChangesHtml, type TrackedAuthor } from "@/lib/track-changes";
 
 interface RichTextEditorProps {
     content: string;
@@ -49,6 +74,17 @@ interface RichTextEditorProps {
     placeholder?: string;
     className?: string;
     editorClassName?: string;
+    // Enables the inline AI commands on selections
+    ai?: {
+        bookId: string;
+        chapterId?: string;
+    };
+    // Enables track changes; edits made while it is on are attributed to this author
+    trackChangesAuthor?: TrackedAuthor;
+    // Hands out the editor instance, e.g. for the comment sidebar next to it
+    onEditorChange?: (editor: Editor | null) => void;
+    // Enables scene breaks; creates the scene record and returns its id (null when it failed)
+    onCreateScene?: () => Promise<string | null>;
 }
 
 interface ToolbarButtonProps {
@@ -81,11 +117,20 @@ function ToolbarButton({ onClick, isActive, disabled, children, title }: Toolbar
 interface ToolbarProps {
     editor: Editor | null;
     onImageClick: () => void;
+    onSceneBreak?: () => void;
+    onLinkEntities?: () => void;
+    ai?: AISelectionController;
+    trackChanges?: {
+        enabled: boolean;
+        onToggle: () => void;
+    };
 }
 
-function Toolbar({ editor, onImageClick }: ToolbarProps) {
+function Toolbar({ editor, onImageClick, onSceneBreak, onLinkEntities, ai, trackChanges }: ToolbarProps) {
     if (!editor) return null;
 
+    const changeCount = trackChanges ? findTrackedChanges(editor).length : 0;
+
     return (
         <div className="flex flex-wrap items-center gap-0.5 border-b bg-muted/30 p-1">
             {/* Undo/Redo */}
@@ -203,6 +248,14 @@ function Toolbar({ editor, onImageClick }: ToolbarProps) {
                 >
                     <Minus className="h-4 w-4" />
                 </ToolbarButton>
+                {onSceneBreak && (
+                    <ToolbarButton
+                        onClick={onSceneBreak}
+                        title="Szenenwechsel einfügen"
+                    >
+                        <Clapperboard className="h-4 w-4" />
+                    </ToolbarButton>
+                )}
             </div>
 
             {/* Image */}
@@ -214,6 +267,62 @@ function Toolbar({ editor, onImageClick }: ToolbarProps) {
                     <ImagePlus className="h-4 w-4" />
                 </ToolbarButton>
             </div>
+
+            {/* Entity Links */}
+            {onLinkEntities && (
+                <div className="flex items-center border-l pl-1 ml-1">
+                    <ToolbarButton
+                        onClick={onLinkEntities}
+                        title="Erwähnte Charaktere, Orte und Plotpunkte verknüpfen"
+                    >
+                        <Link2 className="h-4 w-4" />
+                    </ToolbarButton>
+                </div>
+            )}
+
+            {/* Track Changes */}
+            {trackChanges && (
+                <div className="flex items-center border-l pl-1 ml-1">
+                    <ToolbarButton
+                        onClick={trackChanges.onToggle}
+                        isActive={trackChanges.enabled}
+                        title={trackChanges.enabled ? "Änderungen nachverfolgen: an" : "Änderungen nachverfolgen: aus"}
+                    >
+                        <FileDiff className="h-4 w-4" />
+                    </ToolbarButton>
+                    {changeCount > 0 && (
+                        <>
+                            <span className="px-1 text-xs text-muted-foreground">{changeCount}</span>
+                            <ToolbarButton
+                                onClick={() => acceptChanges(editor)}
+                                title="Alle Änderungen annehmen"
+                            >
+                                <CheckCheck className="h-4 w-4" />
+                            </ToolbarButton>
+                            <ToolbarButton
+                                onClick={() => rejectChanges(editor)}
+                                title="Alle Änderungen ablehnen"
+                            >
+                                <XCircle className="h-4 w-4" />
+                            </ToolbarButton>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {/* AI */}
+            {ai && (
+                <div className="flex items-center border-l pl-1 ml-1">
+                    <ToolbarButton
+                        onClick={() => (ai.status === "loading" ? ai.cancel() : ai.run("continue"))}
+                        isActive={ai.status === "loading"}
+                        disabled={ai.status === "review"}
+                        title={ai.status === "loading" ? "KI-Text abbrechen" : "KI: Ab Cursor weiterschreiben"}
+                    >
+                        {ai.status === "loading" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                    </ToolbarButton>
+                </div>
+            )}
         </div>
     );
 }
@@ -224,6 +333,10 @@ export default function RichTextEditor({
     placeholder = "Beginne mit dem Schreiben...",
     className,
     editorClassName,
+    ai,
+    trackChangesAuthor,
+    onEditorChange,
+    onCreateScene,
 }: RichTextEditorProps) {
     const [showImageDialog, setShowImageDialog] = useState(false);
     const [imageUrl, setImageUrl] = useState("");
@@ -234,6 +347,15 @@ export default function RichTextEditor({
     const [selectedImage, setSelectedImage] = useState<HTMLImageElement | null>(null);
     const [imageToolbarPos, setImageToolbarPos] = useState<{ top: number; left: number } | null>(null);
     const [, setSelectionUpdateTrigger] = useState(0); // Used to force re-render on selection change
+    // While an AI suggestion awaits review, the editor HTML contains it and must not reach onChange
+    const aiPendingRef = useRef(false);
+    const [trackChangesEnabled, setTrackChangesEnabled] = useState(false);
+    // The track changes extension reads these on every transaction
+    const trackChangesRef = useRef({ enabled: false, author: trackChangesAuthor });
+    trackChangesRef.current = { enabled: trackChangesEnabled && !!trackChangesAuthor, author: trackChangesAuthor };
+    // Linkable entities come from the chapter view; the @ suggestions take keys while they are open
+    const { entities } = useContext(EntityLinkContext);
+    const entityKeyRef = useRef<(key: string) => boolean>(() => false);
 
     // Get CSS class based on image size - professional book styling
     const getImageClass = (size: "large" | "medium" | "small") => {
@@ -344,6 +466,16 @@ export default function RichTextEditor({
         Highlight,
         Typography,
         Underline,
+        AISuggestion,
+        CommentAnchor,
+        SceneBreak,
+        EntityLinks.configure({
+            onKeyDown: (key) => entityKeyRef.current(key),
+        }),
+        TrackChanges.configure({
+            isEnabled: () => trackChangesRef.current.enabled,
+            getAuthor: () => trackChangesRef.current.author ?? { name: "", type: "human" },
+        }),
         // Extended Image extension to support dynamic class attribute
         Image.extend({
             addAttributes() {
@@ -411,7 +543,9 @@ export default function RichTextEditor({
             },
         },
         onUpdate: ({ editor }) => {
-            onChange(editor.getHTML());
+            if (!aiPendingRef.current) {
+                onChange(editor.getHTML());
+            }
         },
         onSelectionUpdate: ({ editor }) => {
             // Force re-render to update toolbar active states
@@ -423,6 +557,39 @@ export default function RichTextEditor({
         },
     });
 
+    useEffect(() => {
+        onEditorChange?.(editor);
+        return () => onEditorChange?.(null);
+    }, [editor, onEditorChange]);
+
+    const handleSceneBreak = useCallback(async () => {
+        if (!editor || !onCreateScene) return;
+        const sceneId = await onCreateScene();
+        if (sceneId && !editor.isDestroyed) {
+            insertSceneBreak(editor, sceneId);
+        }
+    }, [editor, onCreateScene]);
+
+    const handleAIPendingChange = useCallback((pending: boolean) => {
+        aiPendingRef.current = pending;
+        if (!pending && editor) {
+            onChange(editor.getHTML());
+        }
+    }, [editor, onChange]);
+
+    const aiSelection = useAISelection(editor, {
+        bookId: ai?.bookId ?? "",
+        chapterId: ai?.chapterId,
+        onPendingChange: handleAIPendingChange,
+    });
+
+    const entityMention = useEntityMention(editor, entities);
+    entityKeyRef.current = entityMention.handleKey;
+
+    const handleLinkEntities = useCallback(() => {
+        if (editor) linkEntityMentions(editor, entities);
+    }, [editor, entities]);
+
     const handleFileUpload = useCallback(async (file: File) => {
         setIsUploading(true);
         setUploadError(null);
@@ -508,8 +675,31 @@ export default function RichTextEditor({
     return (
         <>
             <div className={cn("rounded-md border bg-background relative", className)}>
-                <Toolbar editor={editor} onImageClick={() => setShowImageDialog(true)} />
+                <Toolbar
+                    editor={editor}
+                    onImageClick={() => setShowImageDialog(true)}
+                    onSceneBreak={onCreateScene ? handleSceneBreak : undefined}
+                    onLinkEntities={entities.length > 0 ? handleLinkEntities : undefined}
+                    ai={ai ? aiSelection : undefined}
+                    trackChanges={
+                        trackChangesAuthor
+                            ? { enabled: trackChangesEnabled, onToggle: () => setTrackChangesEnabled(!trackChangesEnabled) }
+                            : undefined
+                    }
+                />
+                {aiSelection.error && (
+                    <div className="flex items-center justify-between gap-2 border-b bg-destructive/10 px-3 py-1.5 text-sm text-destructive">
+                        <span>{aiSelection.error}</span>
+                        <button type="button" onClick={aiSelection.clearError} title="Schließen">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                )}
                 <EditorContent editor={editor} />
+                {ai && editor && <AISelectionMenu editor={editor} ai={aiSelection} />}
+                {editor && <TrackChangesMenu editor={editor} />}
+                {editor && <EntityHoverCard editor={editor} />}
+                <EntityMentionMenu mention={entityMention} />
 
                 {/* Floating Image Edit Toolbar */}
                 {selectedImage && imageToolbarPos && (
@@ -702,6 +892,11 @@ export default function RichTextEditor({
                 .ProseMirror ol { list-style-type: decimal; padding-left: 1.5rem; margin-top: 0.5rem; margin-bottom: 0.5rem; }
                 .ProseMirror blockquote { border-left: 2px solid var(--primary); padding-left: 1rem; font-style: italic; margin-top: 1rem; margin-bottom: 1rem; }
                 .ProseMirror p { margin-top: 0.5rem; margin-bottom: 0.5rem; line-height: 1.6; }
+                .ProseMirror ins[data-change-id] { text-decoration: underline; text-decoration-color: #16a34a; background-color: rgb(22 163 74 / 0.1); }
+                .ProseMirror ins[data-author-type="ai"] { text-decoration-color: #7c3aed; background-color: rgb(124 58 237 / 0.1); }
+                .ProseMirror del[data-change-id] { color: #dc2626; text-decoration: line-through; }
+                .ProseMirror span[data-entity-id] { text-decoration: underline dotted; text-decoration-color: var(--primary); text-underline-offset: 3px; }
+                .ProseMirror .ai-suggestion { background-color: color-mix(in oklch, var(--primary) 12%, transparent); border-bottom: 2px solid var(--primary); }
             `}</style>
         </>
     );
@@ -719,7 +914,7 @@ export interface TextStatistics {
 
 export function getTextStatistics(html: string): TextStatistics {
     const parser = new DOMParser();
-    const doc = parser.parseFromString(html, "text/html");
+    const doc = parser.parseFromString(acceptTrackedChangesHtml(html), "text/html");
     const text = doc.body.textContent || "";
 
     // Word count
@@ -0,0 +1,138 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import {
+    Node,
+    NodeViewWrapper,
+    ReactNodeViewRenderer,
+    type Editor,
+    type NodeViewProps,
+} from "@tiptap/react";
+import { Clapperboard, Clock, MapPin, Pencil, User } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/components/locale-provider";
+import { TRACK_CHANGES_META } from "@/components/editor/TrackChangesMenu";
+import { cn } from "@/lib/utils";
+import type { SceneData } from "@/lib/scenes";
+
+// What the scene break chips show; provided by the chapter view around the editor
+export type SceneBreakContextValue = {
+    scenes: SceneData[];
+    characters: { id: string; name: string }[];
+    locations: { id: string; name: string }[];
+    onEdit?: (sceneId: string) => void;
+};
+
+export const SceneBreakContext = createContext<SceneBreakContextValue>({
+    scenes: [],
+    characters: [],
+    locations: [],
+});
+
+function SceneBreakView({ node, selected }: NodeViewProps) {
+    const { t } = useI18n();
+    const { scenes, characters, locations, onEdit } = useContext(SceneBreakContext);
+    const sceneId = String(node.attrs.sceneId ?? "");
+    const scene = scenes.find((entry) => entry.id === sceneId);
+    const pov = characters.find((character) => character.id === scene?.povCharacterId);
+    const location = locations.find((element) => element.id === scene?.locationId);
+
+    return (
+        <NodeViewWrapper
+            className={cn(
+                "not-prose my-6 flex items-center gap-2 border-t border-dashed pt-2 text-xs text-muted-foreground",
+                selected && "border-primary"
+            )}
+            contentEditable={false}
+            data-drag-handle
+        >
+            <Clapperboard className="h-3.5 w-3.5 shrink-0" />
+            {scene ? (
+                <>
+                    <span className="font-medium text-foreground">
+                        {scene.title || t({ de: "Unbenannte Szene", en: "Untitled scene" })}
+                    </span>
+                    {pov && (
+                        <span className="flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            {pov.name}
+                        </span>
+                    )}
+                    {location && (
+                        <span className="flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {location.name}
+                        </span>
+                    )}
+                    {scene.timeMarker && (
+                        <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {scene.timeMarker}
+                        </span>
+                    )}
+                    {onEdit && (
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto h-6 w-6 p-0"
+                            onClick={() => onEdit(scene.id)}
+                            title={t({ de: "Szene bearbeiten", en: "Edit scene" })}
+                        >
+                            <Pencil className="h-3 w-3" />
+                        </Button>
+                    )}
+                </>
+            ) : (
+                <span className="italic">{t({ de: "Szenenwechsel (keine Szene verknüpft)", en: "Scene break (no linked scene)" })}</span>
+            )}
+        </NodeViewWrapper>
+    );
+}
+
+// Start of a scene in the chapter text; the scene record itself lives in the database
+export const SceneBreak = Node.create({
+    name: "sceneBreak",
+    group: "block",
+    atom: true,
+    selectable: true,
+    draggable: true,
+
+    addAttributes() {
+        return {
+            sceneId: {
+                default: null,
+                parseHTML: (element: HTMLElement) => element.getAttribute("data-scene-id"),
+                renderHTML: (attributes: Record<string, string | null>) => ({ "data-scene-id": attributes.sceneId }),
+            },
+        };
+    },
+
+    parseHTML() {
+        // Ahead of the plain horizontal rule, which would otherwise take the <hr>
+        return [{ tag: "hr[data-scene-id]", priority: 60 }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ["hr", HTMLAttributes];
+    },
+
+    addNodeView() {
+        return ReactNodeViewRenderer(SceneBreakView);
+    },
+});
+
+// Insert a scene break at the cursor. Scenes split the chapter at top level, so inside a list or
+// quote the break goes after the surrounding block. Structure is not tracked as a text change.
+export function insertSceneBreak(editor: Editor, sceneId: string) {
+    const { $from } = editor.state.selection;
+    const node = { type: SceneBreak.name, attrs: { sceneId } };
+    const chain = editor.chain().focus().setMeta(TRACK_CHANGES_META, false);
+
+    if ($from.depth > 1) {
+        chain.insertContentAt($from.after(1), node).run();
+    } else {
+        chain.insertContent(node).run();
+    }
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Save, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useI18n } from "@/components/locale-provider";
+import type { SceneData, SceneTextField } from "@/lib/scenes";
+
+interface SceneFormProps {
+    bookId: string;
+    scene: SceneData;
+    characters: { id: string; name: string }[];
+    locations: { id: string; name: string }[];
+    onSave?: (scene: SceneData) => void;
+    onCancel?: () => void;
+}
+
+export default function SceneForm({
+    bookId,
+    scene,
+    characters,
+    locations,
+    onSave,
+    onCancel,
+}: SceneFormProps) {
+    const { t } = useI18n();
+
+    const [title, setTitle] = useState(scene.title);
+    const [povCharacterId, setPovCharacterId] = useState(scene.povCharacterId || "");
+    const [locationId, setLocationId] = useState(scene.locationId || "");
+    const [fields, setFields] = useState<Record<SceneTextField, string>>({
+        summary: scene.summary || "",
+        timeMarker: scene.timeMarker || "",
+        goal: scene.goal || "",
+        conflict: scene.conflict || "",
+        outcome: scene.outcome || "",
+    });
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const setField = (field: SceneTextField, value: string) => {
+        setFields((current) => ({ ...current, [field]: value }));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/books/${bookId}/scenes/${scene.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ title, povCharacterId, locationId, ...fields }),
+            });
+
+            if (!response.ok) {
+                throw new Error(t({ de: "Fehler beim Speichern", en: "Failed to save" }));
+            }
+
+            const savedScene = await response.json();
+            onSave?.(savedScene);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const textareaClassName = "w-full min-h-[60px] px-3 py-2 rounded-md border border-input bg-background text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring";
+    const selectClassName = "w-full h-10 px-3 rounded-md border border-input bg-background text-sm";
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center overflow-auto py-10">
+            <Card className="w-full max-w-lg mx-4">
+                <CardHeader>
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <CardTitle>{t({ de: "Szene bearbeiten", en: "Edit scene" })}</CardTitle>
+                            <CardDescription>
+                                {t({
+                                    de: "Perspektive, Ort und dramaturgische Eckpunkte dieser Szene.",
+                                    en: "Point of view, location and dramatic beats of this scene.",
+                                })}
+                            </CardDescription>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={onCancel}>
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {/* Title */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Titel", en: "Title" })}</label>
+                        <Input
+                            value={title}
+                            onChange={(e) => setTitle(e.target.value)}
+                            placeholder={t({ de: "z.B. Ankunft im Hafen", en: "e.g. Arrival at the harbour" })}
+                        />
+                    </div>
+
+                    {/* POV and location */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Perspektive", en: "Point of view" })}</label>
+                            <select
+                                value={povCharacterId}
+                                onChange={(e) => setPovCharacterId(e.target.value)}
+                                className={selectClassName}
+                            >
+                                <option value="">{t({ de: "Keine", en: "None" })}</option>
+                                {characters.map((character) => (
+                                    <option key={character.id} value={character.id}>
+                                        {character.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Ort", en: "Location" })}</label>
+                            <select
+                                value={locationId}
+                                onChange={(e) => setLocationId(e.target.value)}
+                                className={selectClassName}
+                            >
+                                <option value="">{t({ de: "Keiner", en: "None" })}</option>
+                                {locations.map((location) => (
+                                    <option key={location.id} value={location.id}>
+                                        {location.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Time */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Zeitpunkt", en: "Time" })}</label>
+                        <Input
+                            value={fields.timeMarker}
+                            onChange={(e) => setField("timeMarker", e.target.value)}
+                            placeholder={t({ de: "z.B. Tag 3, Abend", en: "e.g. Day 3, evening" })}
+                        />
+                    </div>
+
+                    {/* Summary */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Zusammenfassung", en: "Summary" })}</label>
+                        <textarea
+                            value={fields.summary}
+                            onChange={(e) => setField("summary", e.target.value)}
+                            className={textareaClassName}
+                        />
+                    </div>
+
+                    {/* Goal / conflict / outcome */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Ziel", en: "Goal" })}</label>
+                        <textarea
+                            value={fields.goal}
+                            onChange={(e) => setField("goal", e.target.value)}
+                            placeholder={t({ de: "Was will die Perspektivfigur erreichen?", en: "What does the POV character want?" })}
+                            className={textareaClassName}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Konflikt", en: "Conflict" })}</label>
+                        <textarea
+                            value={fields.conflict}
+                            onChange={(e) => setField("conflict", e.target.value)}
+                            placeholder={t({ de: "Was steht dem im Weg?", en: "What stands in the way?" })}
+                            className={textareaClassName}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">{t({ de: "Ausgang", en: "Outcome" })}</label>
+                        <textarea
+                            value={fields.outcome}
+                            onChange={(e) => setField("outcome", e.target.value)}
+                            placeholder={t({ de: "Wie endet die Szene?", en: "How does the scene end?" })}
+                            className={textareaClassName}
+                        />
+                    </div>
+
+                    {/* Error */}
+                    {error && (
+                        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex justify-end gap-2 pt-4">
+                        <Button variant="outline" onClick={onCancel}>
+                            {t({ de: "Abbrechen", en: "Cancel" })}
+                        </Button>
+                        <Button onClick={handleSave} disabled={isSaving}>
+                            {isSaving ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                                <Save className="mr-2 h-4 w-4" />
+                            )}
+                            {t({ de: "Speichern", en: "Save" })}
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
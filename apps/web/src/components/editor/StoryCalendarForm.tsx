@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Plus, RotateCcw, Save, Trash2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useI18n } from "@/components/locale-provider";
+import type { CalendarEra, CalendarMonth, StoryCalendar } from "@/lib/story-time";
+
+interface StoryCalendarFormProps {
+    bookId: string;
+    calendar: StoryCalendar;
+    // Whether the book has its own calendar that can be reset
+    isCustom: boolean;
+    onSave?: () => void;
+    onCancel?: () => void;
+}
+
+export default function StoryCalendarForm({
+    bookId,
+    calendar,
+    isCustom,
+    onSave,
+    onCancel,
+}: StoryCalendarFormProps) {
+    const { t } = useI18n();
+
+    const [name, setName] = useState(calendar.name);
+    const [hoursPerDay, setHoursPerDay] = useState(calendar.hoursPerDay);
+    const [months, setMonths] = useState<CalendarMonth[]>(calendar.months);
+    const [eras, setEras] = useState<CalendarEra[]>(calendar.eras);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateMonth = (index: number, changes: Partial<CalendarMonth>) => {
+        setMonths((current) => current.map((month, i) => (i === index ? { ...month, ...changes } : month)));
+    };
+
+    const updateEra = (index: number, changes: Partial<CalendarEra>) => {
+        setEras((current) => current.map((era, i) => (i === index ? { ...era, ...changes } : era)));
+    };
+
+    const submit = async (method: "PUT" | "DELETE") => {
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/books/${bookId}/timeline/calendar`, {
+                method,
+                headers: { "Content-Type": "application/json" },
+                body: method === "PUT" ? JSON.stringify({ name, hoursPerDay, months, eras }) : undefined,
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.error || t({ de: "Fehler beim Speichern", en: "Failed to save" }));
+            }
+
+            onSave?.();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center overflow-auto py-10">
+            <Card className="w-full max-w-xl mx-4">
+                <CardHeader>
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <CardTitle>{t({ de: "Kalender der Geschichte", en: "Story calendar" })}</CardTitle>
+                            <CardDescription>
+                                {t({
+                                    de: "Monate, Zeitalter und Tageslänge der erzählten Welt. Schaltjahre gibt es nicht.",
+                                    en: "Months, eras and day length of the story world. There are no leap years.",
+                                })}
+                            </CardDescription>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={onCancel}>
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {/* Name and day length */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="col-span-2 space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Name", en: "Name" })}</label>
+                            <Input
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder={t({ de: "z.B. Kalender von Eldor", en: "e.g. Calendar of Eldor" })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">{t({ de: "Stunden pro Tag", en: "Hours per day" })}</label>
+                            <Input
+                                type="number"
+                                min={1}
+                                value={hoursPerDay}
+                                onChange={(e) => setHoursPerDay(Number(e.target.value))}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Months */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium">{t({ de: "Monate", en: "Months" })}</label>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setMonths((current) => [...current, { name: "", days: 30 }])}
+                            >
+                                <Plus className="mr-1 h-3.5 w-3.5" />
+                                {t({ de: "Monat", en: "Month" })}
+                            </Button>
+                        </div>
+                        <div className="space-y-1.5 max-h-64 overflow-y-auto pr-1">
+                            {months.map((month, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <span className="w-6 text-right text-xs text-muted-foreground">{index + 1}.</span>
+                                    <Input
+                                        value={month.name}
+                                        onChange={(e) => updateMonth(index, { name: e.target.value })}
+                                        className="h-8"
+                                    />
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={month.days}
+                                        onChange={(e) => updateMonth(index, { days: Number(e.target.value) })}
+                                        className="h-8 w-20"
+                                        aria-label={t({ de: "Tage", en: "Days" })}
+                                    />
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-8 w-8 p-0 text-destructive"
+                                        disabled={months.length === 1}
+                                        onClick={() => setMonths((current) => current.filter((_, i) => i !== index))}
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Eras */}
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm font-medium">{t({ de: "Zeitalter", en: "Eras" })}</label>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEras((current) => [...current, { name: "", abbreviation: "", startYear: 0 }])}
+                            >
+                                <Plus className="mr-1 h-3.5 w-3.5" />
+                                {t({ de: "Zeitalter", en: "Era" })}
+                            </Button>
+                        </div>
+                        {eras.length === 0 ? (
+                            <p className="text-xs text-muted-foreground">
+                                {t({
+                                    de: "Ohne Zeitalter werden Jahre einfach durchgezählt.",
+                                    en: "Without eras, years are simply counted through.",
+                                })}
+                            </p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {eras.map((era, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <Input
+                                            value={era.name}
+                                            onChange={(e) => updateEra(index, { name: e.target.value })}
+                                            placeholder={t({ de: "Name", en: "Name" })}
+                                            className="h-8"
+                                        />
+                                        <Input
+                                            value={era.abbreviation}
+                                            onChange={(e) => updateEra(index, { abbreviation: e.target.value })}
+                                            placeholder={t({ de: "Kürzel", en: "Abbr." })}
+                                            className="h-8 w-20"
+                                        />
+                                        <Input
+                                            type="number"
+                                            value={era.startYear}
+                                            onChange={(e) => updateEra(index, { startYear: Number(e.target.value) })}
+                                            title={t({ de: "Beginnt im Jahr", en: "Starts in year" })}
+                                            className="h-8 w-24"
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-8 w-8 p-0 text-destructive"
+                                            onClick={() => setEras((current) => current.filter((_, i) => i !== index))}
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <p className="text-xs text-muted-foreground">
+                                    {t({
+                                        de: "Das Startjahr zählt ab dem Ursprung des Kalenders; ein Zeitalter beginnt mit seinem Jahr 1.",
+                                        en: "The start year counts from the calendar's origin; an era begins with its year 1.",
+                                    })}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Error */}
+                    {error && (
+                        <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Actions */}
+                    <div className="flex items-center justify-between gap-2 pt-4">
+                        {isCustom ? (
+                            <Button variant="ghost" onClick={() => submit("DELETE")} disabled={isSaving}>
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                                {t({ de: "Standardkalender", en: "Default calendar" })}
+                            </Button>
+                        ) : (
+                            <span />
+                        )}
+                        <div className="flex gap-2">
+                            <Button variant="outline" onClick={onCancel}>
+                                {t({ de: "Abbrechen", en: "Cancel" })}
+                            </Button>
+                            <Button onClick={() => submit("PUT")} disabled={isSaving}>
+                                {isSaving ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Save className="mr-2 h-4 w-4" />
+                                )}
+                                {t({ de: "Speichern", en: "Save" })}
+                            </Button>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarPlus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/components/locale-provider";
+import {
+    fromEraYear,
+    toEraYear,
+    type StoryCalendar,
+    type StoryDate,
+} from "@/lib/story-time";
+
+interface StoryDateFieldProps {
+    calendar: StoryCalendar;
+    value: StoryDate | null;
+    onChange: (value: StoryDate | null) => void;
+    // Year offered when a date is set for the first time
+    defaultYear?: number;
+}
+
+const TIME_PATTERN = /^(\d{1,3}):(\d{2})$/;
+
+// Date picker for the book's own calendar: era, year, month, day and an optional time of day
+export default function StoryDateField({ calendar, value, onChange, defaultYear = 1 }: StoryDateFieldProps) {
+    const { t } = useI18n();
+    const [timeText, setTimeText] = useState(() => formatTime(value));
+
+    if (!value) {
+        return (
+            <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={() => onChange({ year: defaultYear, month: 1, day: 1, hour: null, minute: null })}
+            >
+                <CalendarPlus className="mr-2 h-3.5 w-3.5" />
+                {t({ de: "Datum setzen", en: "Set date" })}
+            </Button>
+        );
+    }
+
+    const { era, year: eraYear } = toEraYear(value.year, calendar);
+    const eraIndex = era ? calendar.eras.indexOf(era) : -1;
+    const monthDays = calendar.months[value.month - 1]?.days ?? 1;
+
+    const update = (changes: Partial<StoryDate>) => onChange({ ...value, ...changes });
+
+    const handleTimeChange = (text: string) => {
+        setTimeText(text);
+        if (!text.trim()) {
+            update({ hour: null, minute: null });
+            return;
+        }
+        const match = text.trim().match(TIME_PATTERN);
+        if (match) {
+            update({ hour: Number(match[1]), minute: Number(match[2]) });
+        }
+    };
+
+    const selectClassName = "h-8 px-2 rounded-md border border-input bg-background text-sm";
+
+    return (
+        <div className="flex flex-wrap items-center gap-1.5">
+            <Input
+                type="number"
+                min={1}
+                max={monthDays}
+                value={value.day}
+                onChange={(e) => update({ day: Number(e.target.value) || 1 })}
+                className="h-8 w-16"
+                aria-label={t({ de: "Tag", en: "Day" })}
+            />
+            <select
+                value={value.month}
+                onChange={(e) => update({ month: Number(e.target.value) })}
+                className={selectClassName}
+                aria-label={t({ de: "Monat", en: "Month" })}
+            >
+                {calendar.months.map((month, index) => (
+                    <option key={index} value={index + 1}>
+                        {month.name}
+                    </option>
+                ))}
+            </select>
+            <Input
+                type="number"
+                value={eraYear}
+                onChange={(e) => update({ year: fromEraYear(Number(e.target.value) || 0, era) })}
+                className="h-8 w-20"
+                aria-label={t({ de: "Jahr", en: "Year" })}
+            />
+            {calendar.eras.length > 0 && (
+                <select
+                    value={eraIndex}
+                    onChange={(e) => {
+                        const nextEra = calendar.eras[Number(e.target.value)] ?? null;
+                        update({ year: fromEraYear(eraYear, nextEra) });
+                    }}
+                    className={selectClassName}
+                    aria-label={t({ de: "Zeitalter", en: "Era" })}
+                >
+                    {eraIndex === -1 && <option value={-1}>{t({ de: "Vor allen Zeitaltern", en: "Before all eras" })}</option>}
+                    {calendar.eras.map((entry, index) => (
+                        <option key={index} value={index}>
+                            {entry.abbreviation || entry.name}
+                        </option>
+                    ))}
+                </select>
+            )}
+            <Input
+                value={timeText}
+                onChange={(e) => handleTimeChange(e.target.value)}
+                placeholder={t({ de: "hh:mm", en: "hh:mm" })}
+                className="h-8 w-20"
+                aria-label={t({ de: "Uhrzeit", en: "Time" })}
+            />
+            <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => {
+                    setTimeText("");
+                    onChange(null);
+                }}
+                title={t({ de: "Datum entfernen", en: "Remove date" })}
+            >
+                <X className="h-3.5 w-3.5" />
+            </Button>
+        </div>
+    );
+}
+
+function formatTime(value: StoryDate | null) {
+    if (!value || value.hour === null) return "";
+    return `${String(value.hour).padStart(2, "0")}:${String(value.minute ?? 0).padStart(2, "0")}`;
+}
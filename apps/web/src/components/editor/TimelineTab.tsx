@@ -0,0 +1,499 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+    AlertTriangle,
+    CalendarClock,
+    CalendarCog,
+    Clapperboard,
+    FileText,
+    Flag,
+    Loader2,
+    Pencil,
+    Save,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import StoryCalendarForm from "@/components/editor/StoryCalendarForm";
+import StoryDateField from "@/components/editor/StoryDateField";
+import { useI18n } from "@/components/locale-provider";
+import { storySpan, type StorySpan } from "@/lib/chronology";
+import type { ConsistencyIssue } from "@/lib/consistency-issues";
+import {
+    formatStoryDate,
+    isValidStoryDate,
+    minutesToStoryDate,
+    parseStoryDate,
+    serializeStoryDate,
+    type StoryDate,
+} from "@/lib/story-time";
+import type { StoryTimeline } from "@/lib/story-timeline";
+import { cn } from "@/lib/utils";
+
+type TimelineData = StoryTimeline & { issues: ConsistencyIssue[] };
+
+type EventKind = "chapter" | "scene" | "plot";
+
+type TimelineEvent = {
+    kind: EventKind;
+    id: string;
+    label: string;
+    storyStart: string | null;
+    storyEnd: string | null;
+    span: StorySpan | null;
+    characterIds: string[];
+    // Scenes are listed below their chapter
+    indent: boolean;
+};
+
+type Lane = {
+    id: string;
+    label: string;
+    items: { event: TimelineEvent; faint: boolean }[];
+};
+
+const TICK_COUNT = 6;
+// Shortest bar, in percent of the chart width, so instants stay visible
+const MIN_BAR_WIDTH = 0.8;
+
+const kindStyles: Record<EventKind, { icon: typeof FileText; bar: string }> = {
+    chapter: { icon: FileText, bar: "bg-primary/70" },
+    scene: { icon: Clapperboard, bar: "bg-sky-500/70" },
+    plot: { icon: Flag, bar: "bg-amber-500/80" },
+};
+
+const apiPaths: Record<EventKind, string> = {
+    chapter: "chapters",
+    scene: "scenes",
+    plot: "plot",
+};
+
+type TimelineTabProps = {
+    bookId: string;
+};
+
+export default function TimelineTab({ bookId }: TimelineTabProps) {
+    const { t, locale } = useI18n();
+    const [data, setData] = useState<TimelineData | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [showCalendarForm, setShowCalendarForm] = useState(false);
+    const [editing, setEditing] = useState<{ kind: EventKind; id: string } | null>(null);
+    const [draftStart, setDraftStart] = useState<StoryDate | null>(null);
+    const [draftEnd, setDraftEnd] = useState<StoryDate | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadTimeline = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`/api/books/${bookId}/timeline`);
+            if (response.ok) {
+                setData(await response.json());
+            }
+        } catch (error) {
+            console.error("Error loading timeline:", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [bookId]);
+
+    useEffect(() => {
+        loadTimeline();
+    }, [loadTimeline]);
+
+    const events = useMemo<TimelineEvent[]>(() => {
+        if (!data) return [];
+        const toEvent = (kind: EventKind, item: { id: string; storyStart: string | null; storyEnd: string | null }, label: string, characterIds: string[], indent = false): TimelineEvent => ({
+            kind,
+            id: item.id,
+            label,
+            storyStart: item.storyStart,
+            storyEnd: item.storyEnd,
+            span: storySpan(item.storyStart, item.storyEnd, data.calendar),
+            characterIds,
+            indent,
+        });
+
+        const list: TimelineEvent[] = [];
+        data.chapters.forEach((chapter, index) => {
+            list.push(toEvent("chapter", chapter, `${index + 1}. ${chapter.title}`, chapter.characterIds));
+            data.scenes
+                .filter((scene) => scene.chapterId === chapter.id)
+                .forEach((scene, sceneIndex) => {
+                    const label = scene.title || t({ de: "Szene {{index}}", en: "Scene {{index}}" }, { index: sceneIndex + 1 });
+                    list.push(toEvent("scene", scene, label, scene.povCharacterId ? [scene.povCharacterId] : [], true));
+                });
+        });
+        for (const plotPoint of data.plotPoints) {
+            list.push(toEvent("plot", plotPoint, plotPoint.title, plotPoint.characterIds));
+        }
+        return list;
+    }, [data, t]);
+
+    const dated = useMemo(() => events.filter((event) => event.span !== null), [events]);
+
+    // Visible range with a little room on both sides
+    const range = useMemo(() => {
+        if (!data || dated.length === 0) return null;
+        const minutesPerDay = data.calendar.hoursPerDay * 60;
+        let from = Math.min(...dated.map((event) => event.span!.start));
+        let to = Math.max(...dated.map((event) => event.span!.end));
+        if (to - from < minutesPerDay) to = from + minutesPerDay;
+        const padding = Math.round((to - from) * 0.02);
+        from -= padding;
+        to += padding;
+        return { from, to, minutesPerDay };
+    }, [data, dated]);
+
+    const lanes = useMemo<Lane[]>(() => {
+        if (!data) return [];
+        const datedOf = (kind: EventKind) => dated.filter((event) => event.kind === kind);
+        const result: Lane[] = [
+            { id: "chapters", label: t({ de: "Kapitel", en: "Chapters" }), items: datedOf("chapter").map((event) => ({ event, faint: false })) },
+            { id: "plot", label: t({ de: "Handlung", en: "Plot" }), items: datedOf("plot").map((event) => ({ event, faint: false })) },
+        ];
+
+        // One swimlane per character: their scenes and plot points, with their chapters in the background
+        for (const character of data.characters) {
+            const items = dated
+                .filter((event) => event.characterIds.includes(character.id))
+                .map((event) => ({ event, faint: event.kind === "chapter" }));
+            if (items.some((item) => !item.faint)) {
+                result.push({ id: character.id, label: character.name, items });
+            }
+        }
+        return result;
+    }, [data, dated, t]);
+
+    if (isLoading && !data) {
+        return (
+            <div className="flex items-center justify-center py-16 text-muted-foreground">
+                <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+        );
+    }
+
+    if (!data) {
+        return (
+            <p className="py-16 text-center text-sm text-muted-foreground">
+                {t({ de: "Die Zeitleiste konnte nicht geladen werden.", en: "The timeline could not be loaded." })}
+            </p>
+        );
+    }
+
+    const { calendar } = data;
+
+    const formatValue = (value: string | null) => {
+        const date = parseStoryDate(value);
+        if (!value) return null;
+        if (!date || !isValidStoryDate(date, calendar)) return { text: value, valid: false };
+        return { text: formatStoryDate(date, calendar, locale), valid: true };
+    };
+
+    const position = (span: StorySpan) => {
+        if (!range) return { left: 0, width: 0 };
+        const total = range.to - range.from;
+        const left = ((span.start - range.from) / total) * 100;
+        const width = Math.max(((span.end - span.start) / total) * 100, MIN_BAR_WIDTH);
+        return { left, width: Math.min(width, 100 - left) };
+    };
+
+    // Overlapping bars of a lane go into separate rows
+    const stackRows = (items: Lane["items"]) => {
+        const rows: { items: Lane["items"]; end: number }[] = [];
+        const sorted = [...items].sort((a, b) => a.event.span!.start - b.event.span!.start);
+        for (const item of sorted) {
+            const { left, width } = position(item.event.span!);
+            const row = rows.find((entry) => entry.end <= left);
+            if (row) {
+                row.items.push(item);
+                row.end = left + width;
+            } else {
+                rows.push({ items: [item], end: left + width });
+            }
+        }
+        return rows.map((row) => row.items);
+    };
+
+    const ticks = range
+        ? Array.from({ length: TICK_COUNT }, (_, index) => {
+            const minutes = Math.floor(range.from + ((range.to - range.from) * index) / (TICK_COUNT - 1));
+            const showTime = range.to - range.from < range.minutesPerDay * 3;
+            return {
+                left: (index / (TICK_COUNT - 1)) * 100,
+                label: formatStoryDate(minutesToStoryDate(minutes, calendar), calendar, locale, { time: showTime }),
+            };
+        })
+        : [];
+
+    const defaultYear = parseStoryDate(dated[0]?.storyStart)?.year ?? 1;
+
+    const startEditing = (event: TimelineEvent) => {
+        setEditing({ kind: event.kind, id: event.id });
+        setDraftStart(parseStoryDate(event.storyStart));
+        setDraftEnd(parseStoryDate(event.storyEnd));
+        setError(null);
+    };
+
+    const saveDates = async () => {
+        if (!editing) return;
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/books/${bookId}/${apiPaths[editing.kind]}/${editing.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    storyStart: draftStart ? serializeStoryDate(draftStart) : null,
+                    storyEnd: draftStart && draftEnd ? serializeStoryDate(draftEnd) : null,
+                }),
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                throw new Error(body?.error || t({ de: "Fehler beim Speichern", en: "Failed to save" }));
+            }
+
+            setEditing(null);
+            await loadTimeline();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold font-serif">{t({ de: "Zeitleiste", en: "Timeline" })}</h2>
+                    <p className="text-sm text-muted-foreground">
+                        {t({
+                            de: "Wann die Ereignisse in der erzählten Welt stattfinden – unabhängig von der Reihenfolge im Buch.",
+                            en: "When events happen in the story world, independent of their order in the book.",
+                        })}
+                    </p>
+                </div>
+                <Button variant="outline" onClick={() => setShowCalendarForm(true)}>
+                    <CalendarCog className="mr-2 h-4 w-4" />
+                    {calendar.name || t({ de: "Kalender", en: "Calendar" })}
+                </Button>
+            </div>
+
+            {/* Chart */}
+            <Card>
+                <CardContent className="p-4">
+                    {!range ? (
+                        <div className="flex flex-col items-center justify-center py-10 text-center text-muted-foreground">
+                            <CalendarClock className="h-10 w-10 mb-3 opacity-50" />
+                            <p className="text-sm">
+                                {t({
+                                    de: "Noch keine Daten. Lege unten für Kapitel, Szenen oder Handlungspunkte fest, wann sie spielen.",
+                                    en: "No dates yet. Set below when chapters, scenes or plot points take place.",
+                                })}
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="space-y-1">
+                            {lanes.map((lane) => {
+                                const rows = stackRows(lane.items);
+                                return (
+                                    <div key={lane.id} className="flex gap-3 border-b border-border/50 py-1.5 last:border-b-0">
+                                        <div className="w-32 shrink-0 truncate pt-0.5 text-xs font-medium" title={lane.label}>
+                                            {lane.label}
+                                        </div>
+                                        <div className="relative flex-1 space-y-1">
+                                            {rows.length === 0 && <div className="h-5" />}
+                                            {rows.map((row, rowIndex) => (
+                                                <div key={rowIndex} className="relative h-5">
+                                                    {row.map(({ event, faint }) => {
+                                                        const { left, width } = position(event.span!);
+                                                        return (
+                                                            <button
+                                                                key={`${event.kind}-${event.id}`}
+                                                                type="button"
+                                                                onClick={() => startEditing(event)}
+                                                                className={cn(
+                                                                    "absolute top-0 h-5 min-w-[6px] overflow-hidden rounded px-1 text-left text-[10px] leading-5 text-white",
+                                                                    kindStyles[event.kind].bar,
+                                                                    faint && "opacity-25"
+                                                                )}
+                                                                style={{ left: `${left}%`, width: `${width}%` }}
+                                                                title={`${event.label}: ${[formatValue(event.storyStart)?.text, formatValue(event.storyEnd)?.text].filter(Boolean).join(" – ")}`}
+                                                            >
+                                                                <span className="truncate">{event.label}</span>
+                                                            </button>
+                                                        );
+                                                    })}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+
+                            {/* Axis */}
+                            <div className="flex gap-3 pt-1">
+                                <div className="w-32 shrink-0" />
+                                <div className="relative h-5 flex-1 border-t">
+                                    {ticks.map((tick, index) => (
+                                        <span
+                                            key={index}
+                                            className={cn(
+                                                "absolute top-1 whitespace-nowrap text-[10px] text-muted-foreground",
+                                                index === 0 ? "" : index === ticks.length - 1 ? "-translate-x-full" : "-translate-x-1/2"
+                                            )}
+                                            style={{ left: `${tick.left}%` }}
+                                        >
+                                            {tick.label}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Chronology issues */}
+            <Card>
+                <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{t({ de: "Chronologie-Prüfung", en: "Chronology check" })}</CardTitle>
+                    <CardDescription>
+                        {data.issues.length === 0
+                            ? t({ de: "Keine Widersprüche in den Daten gefunden.", en: "No contradictions found in the dates." })
+                            : t({ de: "{{count}} Auffälligkeit(en) in den Daten.", en: "{{count}} issue(s) in the dates." }, { count: data.issues.length })}
+                    </CardDescription>
+                </CardHeader>
+                {data.issues.length > 0 && (
+                    <CardContent className="space-y-2">
+                        {data.issues.map((issue) => (
+                            <div
+                                key={issue.id}
+                                className={cn(
+                                    "flex gap-3 rounded-md border p-3 text-sm",
+                                    issue.severity === "error" ? "border-red-500/30 bg-red-500/5" : "border-yellow-500/30 bg-yellow-500/5"
+                                )}
+                            >
+                                <AlertTriangle className={cn("h-4 w-4 shrink-0 mt-0.5", issue.severity === "error" ? "text-red-500" : "text-yellow-500")} />
+                                <div className="space-y-1">
+                                    <p className="font-medium">{issue.title}</p>
+                                    <p className="text-muted-foreground">{issue.description}</p>
+                                    <p className="text-xs text-muted-foreground">{issue.suggestion}</p>
+                                </div>
+                            </div>
+                        ))}
+                    </CardContent>
+                )}
+            </Card>
+
+            {/* Dates */}
+            <Card>
+                <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{t({ de: "Daten", en: "Dates" })}</CardTitle>
+                </CardHeader>
+                <CardContent className="divide-y">
+                    {events.map((event) => {
+                        const Icon = kindStyles[event.kind].icon;
+                        const isEditing = editing?.kind === event.kind && editing.id === event.id;
+                        const start = formatValue(event.storyStart);
+                        const end = formatValue(event.storyEnd);
+
+                        return (
+                            <div key={`${event.kind}-${event.id}`} className={cn("py-2", event.indent && "pl-6")}>
+                                <div className="flex items-center gap-3">
+                                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                    <span className="flex-1 truncate text-sm">{event.label}</span>
+                                    {!isEditing && (
+                                        <>
+                                            <span className="text-xs text-muted-foreground">
+                                                {start ? (
+                                                    <>
+                                                        <span className={cn(!start.valid && "text-destructive")}>{start.text}</span>
+                                                        {end && (
+                                                            <>
+                                                                {" – "}
+                                                                <span className={cn(!end.valid && "text-destructive")}>{end.text}</span>
+                                                            </>
+                                                        )}
+                                                    </>
+                                                ) : (
+                                                    "—"
+                                                )}
+                                            </span>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-7 w-7 p-0"
+                                                onClick={() => startEditing(event)}
+                                                title={t({ de: "Datum bearbeiten", en: "Edit date" })}
+                                            >
+                                                <Pencil className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+
+                                {isEditing && (
+                                    <div className="mt-2 space-y-2 pl-7">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className="w-12 text-xs text-muted-foreground">{t({ de: "Beginn", en: "Start" })}</span>
+                                            <StoryDateField
+                                                calendar={calendar}
+                                                value={draftStart}
+                                                onChange={setDraftStart}
+                                                defaultYear={defaultYear}
+                                            />
+                                        </div>
+                                        {draftStart && (
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <span className="w-12 text-xs text-muted-foreground">{t({ de: "Ende", en: "End" })}</span>
+                                                <StoryDateField
+                                                    calendar={calendar}
+                                                    value={draftEnd}
+                                                    onChange={setDraftEnd}
+                                                    defaultYear={draftStart.year}
+                                                />
+                                            </div>
+                                        )}
+                                        {error && <p className="text-xs text-destructive">{error}</p>}
+                                        <div className="flex gap-2">
+                                            <Button size="sm" onClick={saveDates} disabled={isSaving}>
+                                                {isSaving ? (
+                                                    <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                                                ) : (
+                                                    <Save className="mr-2 h-3.5 w-3.5" />
+                                                )}
+                                                {t({ de: "Speichern", en: "Save" })}
+                                            </Button>
+                                            <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                                                {t({ de: "Abbrechen", en: "Cancel" })}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </CardContent>
+            </Card>
+
+            {showCalendarForm && (
+                <StoryCalendarForm
+                    bookId={bookId}
+                    calendar={calendar}
+                    isCustom={data.hasCustomCalendar}
+                    onSave={() => {
+                        setShowCalendarForm(false);
+                        loadTimeline();
+                    }}
+                    onCancel={() => setShowCalendarForm(false)}
+                />
+            )}
+        </div>
+    );
+}
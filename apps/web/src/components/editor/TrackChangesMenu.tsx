@@ -0,0 +1,366 @@
+"use client";
+
+import { useCallback } from "react";
+import {
+    Extension,
+    Mark,
+    mergeAttributes,
+    resolveFocusPosition,
+    type DispatchTransactionProps,
+    type Editor,
+} from "@tiptap/react";
+import { BubbleMenu } from "@tiptap/react/menus";
+import { Bot, Check, User, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/components/locale-provider";
+import {
+    createTrackedChange,
+    type TrackedAuthor,
+    type TrackedAuthorType,
+    type TrackedChange,
+    type TrackedChangeType,
+} from "@/lib/track-changes";
+
+type Transaction = DispatchTransactionProps["transaction"];
+type Doc = Transaction["doc"];
+type Slice = ReturnType<Doc["slice"]>;
+type MarkType = Editor["schema"]["marks"][string];
+
+export type TrackedChangeSummary = TrackedChange & {
+    type: TrackedChangeType;
+    text: string;
+};
+
+const markNames: Record<TrackedChangeType, string> = {
+    insertion: "trackedInsertion",
+    deletion: "trackedDeletion",
+};
+
+// Transaction meta: false skips tracking, an author attributes the change to someone else
+// (e.g. the AI model) while tracking is on
+export const TRACK_CHANGES_META = "trackChanges";
+
+function changeAttributes() {
+    return {
+        id: {
+            default: null,
+            parseHTML: (element: HTMLElement) => element.getAttribute("data-change-id"),
+            renderHTML: (attributes: Record<string, string | null>) => ({ "data-change-id": attributes.id }),
+        },
+        author: {
+            default: "",
+            parseHTML: (element: HTMLElement) => element.getAttribute("data-author") ?? "",
+            renderHTML: (attributes: Record<string, string | null>) => ({ "data-author": attributes.author }),
+        },
+        authorType: {
+            default: "human",
+            parseHTML: (element: HTMLElement) => (element.getAttribute("data-author-type") === "ai" ? "ai" : "human"),
+            renderHTML: (attributes: Record<string, string | null>) => ({ "data-author-type": attributes.authorType }),
+        },
+        date: {
+            default: "",
+            parseHTML: (element: HTMLElement) => element.getAttribute("data-date") ?? "",
+            renderHTML: (attributes: Record<string, string | null>) => ({ "data-date": attributes.date }),
+        },
+    };
+}
+
+export const TrackedInsertion = Mark.create({
+    name: markNames.insertion,
+    inclusive: false,
+    addAttributes: changeAttributes,
+
+    parseHTML() {
+        return [{ tag: "ins[data-change-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ["ins", mergeAttributes(HTMLAttributes), 0];
+    },
+});
+
+export const TrackedDeletion = Mark.create({
+    name: markNames.deletion,
+    inclusive: false,
+    addAttributes: changeAttributes,
+
+    parseHTML() {
+        return [{ tag: "del[data-change-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ["del", mergeAttributes(HTMLAttributes), 0];
+    },
+});
+
+function changeOf(attrs: Record<string, unknown>): TrackedChange {
+    return {
+        id: String(attrs.id ?? ""),
+        author: String(attrs.author ?? ""),
+        authorType: attrs.authorType === "ai" ? "ai" : "human",
+        date: String(attrs.date ?? ""),
+    };
+}
+
+// Typing next to one's own change extends it instead of starting a new one per keystroke
+function adjacentChange(doc: Doc, from: number, to: number, markType: MarkType, author: TrackedAuthor) {
+    const $from = doc.resolve(from);
+    const $to = doc.resolve(to);
+    for (const node of [$from.nodeBefore, $to.nodeAfter]) {
+        const mark = node?.marks.find((candidate) => candidate.type === markType);
+        if (mark && mark.attrs.author === author.name && mark.attrs.authorType === author.type) {
+            return changeOf(mark.attrs);
+        }
+    }
+    return null;
+}
+
+function markInserted(tr: Transaction, from: number, to: number, author: TrackedAuthor) {
+    if (to <= from) return;
+    const { trackedInsertion, trackedDeletion } = tr.doc.type.schema.marks;
+    const change = adjacentChange(tr.doc, from, to, trackedInsertion!, author) ?? createTrackedChange(author);
+    tr.removeMark(from, to, trackedDeletion);
+    tr.addMark(from, to, trackedInsertion!.create(change));
+}
+
+// Rewrite a single replace step so that deleted text stays in the document, marked as deleted,
+// and inserted text is marked as inserted. Structural edits (joining or splitting blocks, lists,
+// formatting) pass through unchanged.
+function trackTransaction(editor: Editor, transaction: Transaction, author: TrackedAuthor): Transaction | null {
+    if (transaction.steps.length !== 1 || transaction.steps[0]!.toJSON().stepType !== "replace") return null;
+
+    const step = transaction.steps[0] as unknown as { from: number; to: number; slice: Slice };
+    const { from, to, slice } = step;
+    const doc = transaction.before;
+    // Replacing the whole document means new content was loaded, not edited
+    if (from === 0 && to === doc.content.size) return null;
+
+    const deletesText = doc.textBetween(from, to, "", "").length > 0;
+    if (!deletesText && slice.content.size === 0) return null;
+
+    const { trackedInsertion, trackedDeletion } = editor.schema.marks;
+    const tr = editor.state.tr;
+    const identity = editor.state.tr.mapping;
+
+    if (!deletesText) {
+        tr.replace(from, to, slice);
+        markInserted(tr, from, tr.mapping.map(to), author);
+        tr.setSelection(transaction.selection.map(tr.doc, identity));
+    } else {
+        // New text goes after the deleted range, which stays where it was
+        tr.replace(to, to, slice);
+        const insertedEnd = tr.mapping.map(to);
+        markInserted(tr, to, insertedEnd, author);
+        const afterInsert = tr.mapping.maps.length;
+
+        const deletion = adjacentChange(doc, from, to, trackedDeletion!, author) ?? createTrackedChange(author);
+        const ownInsertions: Array<{ from: number; to: number }> = [];
+        doc.nodesBetween(from, to, (node, pos) => {
+            if (!node.isText) return true;
+            const start = Math.max(pos, from);
+            const end = Math.min(pos + node.nodeSize, to);
+            const insertion = node.marks.find((mark) => mark.type === trackedInsertion);
+            if (insertion && insertion.attrs.author === author.name && insertion.attrs.authorType === author.type) {
+                // Deleting one's own not yet accepted text removes it for real; someone else's stays for review
+                ownInsertions.push({ from: start, to: end });
+            } else if (!node.marks.some((mark) => mark.type === trackedDeletion)) {
+                tr.addMark(start, end, trackedDeletion!.create(deletion));
+            }
+            return false;
+        });
+        for (const range of ownInsertions.reverse()) {
+            tr.delete(range.from, range.to);
+        }
+
+        const afterDeletes = tr.mapping.slice(afterInsert);
+        let cursor: number;
+        if (slice.content.size > 0) {
+            cursor = afterDeletes.map(insertedEnd);
+        } else if (editor.state.selection.empty && editor.state.selection.from === to) {
+            // Backspace: keep going left over the struck-through text
+            cursor = tr.mapping.map(from, -1);
+        } else {
+            cursor = tr.mapping.map(to);
+        }
+        const selection = resolveFocusPosition(tr.doc, cursor);
+        if (selection) tr.setSelection(selection);
+    }
+
+    if (transaction.getMeta("addToHistory") === false) tr.setMeta("addToHistory", false);
+    if (transaction.scrolledIntoView) tr.scrollIntoView();
+    return tr;
+}
+
+type TrackChangesOptions = {
+    // Read on every transaction, so the editor does not have to be recreated when they change
+    isEnabled: () => boolean;
+    getAuthor: () => TrackedAuthor;
+};
+
+export const TrackChanges = Extension.create<TrackChangesOptions>({
+    name: "trackChanges",
+
+    addOptions() {
+        return {
+            isEnabled: () => false,
+            getAuthor: () => ({ name: "", type: "human" as TrackedAuthorType }),
+        };
+    },
+
+    addExtensions() {
+        return [TrackedInsertion, TrackedDeletion];
+    },
+
+    dispatchTransaction({ transaction, next }) {
+        const meta = transaction.getMeta(TRACK_CHANGES_META) as TrackedAuthor | false | undefined;
+        const author = meta !== false && this.options.isEnabled() ? meta || this.options.getAuthor() : null;
+        // Undo and redo restore earlier states exactly
+        if (!author || !transaction.docChanged || transaction.getMeta("history$")) {
+            next(transaction);
+            return;
+        }
+        next(trackTransaction(this.editor, transaction, author) ?? transaction);
+    },
+});
+
+// All tracked changes in document order, one entry per change id and type
+export function findTrackedChanges(editor: Editor): TrackedChangeSummary[] {
+    const changes = new Map<string, TrackedChangeSummary>();
+    editor.state.doc.descendants((node) => {
+        if (!node.isText) return true;
+        for (const mark of node.marks) {
+            const type = (Object.keys(markNames) as TrackedChangeType[]).find((key) => markNames[key] === mark.type.name);
+            if (!type) continue;
+            const change = changeOf(mark.attrs);
+            const key = `${type}:${change.id}`;
+            const existing = changes.get(key);
+            if (existing) existing.text += node.text ?? "";
+            else changes.set(key, { ...change, type, text: node.text ?? "" });
+        }
+        return false;
+    });
+    return Array.from(changes.values());
+}
+
+// Accept or reject the changes with the given ids (all changes without ids)
+function resolveChanges(editor: Editor, accept: boolean, ids?: string[]) {
+    const { trackedInsertion, trackedDeletion } = editor.schema.marks;
+    const tr = editor.state.tr;
+    const removals: Array<{ from: number; to: number }> = [];
+    const matches = (attrs: Record<string, unknown>) => !ids || ids.includes(String(attrs.id));
+
+    editor.state.doc.descendants((node, pos) => {
+        if (!node.isText) return true;
+        const range = { from: pos, to: pos + node.nodeSize };
+        const insertion = node.marks.find((mark) => mark.type === trackedInsertion && matches(mark.attrs));
+        const deletion = node.marks.find((mark) => mark.type === trackedDeletion && matches(mark.attrs));
+        if (insertion) {
+            if (accept) tr.removeMark(range.from, range.to, insertion);
+            else removals.push(range);
+        }
+        if (deletion) {
+            if (accept) removals.push(range);
+            else tr.removeMark(range.from, range.to, deletion);
+        }
+        return false;
+    });
+    for (const range of removals.reverse()) {
+        tr.delete(range.from, range.to);
+    }
+
+    if (!tr.docChanged) return;
+    tr.setMeta(TRACK_CHANGES_META, false);
+    editor.view.dispatch(tr);
+}
+
+export function acceptChanges(editor: Editor, ids?: string[]) {
+    resolveChanges(editor, true, ids);
+}
+
+export function rejectChanges(editor: Editor, ids?: string[]) {
+    resolveChanges(editor, false, ids);
+}
+
+// The change under the cursor
+function changeAtCursor(editor: Editor): TrackedChangeSummary | null {
+    const { $from, empty } = editor.state.selection;
+    if (!empty) return null;
+    for (const node of [$from.nodeAfter, $from.nodeBefore]) {
+        for (const mark of node?.marks ?? []) {
+            const type = (Object.keys(markNames) as TrackedChangeType[]).find((key) => markNames[key] === mark.type.name);
+            if (type) {
+                const change = changeOf(mark.attrs);
+                return findTrackedChanges(editor).find((entry) => entry.id === change.id && entry.type === type) ?? null;
+            }
+        }
+    }
+    return null;
+}
+
+type Props = {
+    editor: Editor;
+};
+
+export default function TrackChangesMenu({ editor }: Props) {
+    const { t, intlLocale } = useI18n();
+    const change = changeAtCursor(editor);
+
+    const shouldShow = useCallback(
+        ({ editor }: { editor: Editor }) => changeAtCursor(editor) !== null,
+        [],
+    );
+
+    const formatDate = (date: string) => {
+        const parsed = new Date(date);
+        return Number.isNaN(parsed.getTime())
+            ? ""
+            : parsed.toLocaleString(intlLocale, { dateStyle: "short", timeStyle: "short" });
+    };
+
+    return (
+        <BubbleMenu
+            editor={editor}
+            pluginKey="trackChangesMenu"
+            shouldShow={shouldShow}
+            options={{ placement: "bottom", offset: 8 }}
+            className="relative z-50 bg-background border rounded-lg shadow-lg p-1 text-sm"
+            onMouseDown={(e: React.MouseEvent) => e.preventDefault()}
+        >
+            {change && (
+                <div className="flex items-center gap-2">
+                    <div className="flex items-center gap-1.5 px-2 text-xs text-muted-foreground">
+                        {change.authorType === "ai" ? <Bot className="h-3.5 w-3.5" /> : <User className="h-3.5 w-3.5" />}
+                        <span className="font-medium text-foreground">{change.author}</span>
+                        <span>
+                            {change.type === "insertion"
+                                ? t({ de: "hat eingefügt", en: "inserted" })
+                                : t({ de: "hat gelöscht", en: "deleted" })}
+                        </span>
+                        <span>{formatDate(change.date)}</span>
+                    </div>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title={t({ de: "Annehmen", en: "Accept" })}
+                        onClick={() => acceptChanges(editor, [change.id])}
+                    >
+                        <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title={t({ de: "Ablehnen", en: "Reject" })}
+                        onClick={() => rejectChanges(editor, [change.id])}
+                    >
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            )}
+        </BubbleMenu>
+    );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Loader2, Plus, Settings2, Sparkles, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/components/locale-provider";
+import {
+    MAX_TEMPLATE_FIELDS,
+    SUGGESTED_WORLD_FIELDS,
+    type WorldField,
+    type WorldFieldValues,
+} from "@/lib/world-fields";
+
+type Props = {
+    bookId: string;
+    type: string;
+    typeLabel: string;
+    // Template of the type; empty when none was set up yet
+    fields: WorldField[];
+    values: WorldFieldValues;
+    onValuesChange: (values: WorldFieldValues) => void;
+    onTemplateChange: (type: string, fields: WorldField[]) => void;
+};
+
+// Labels being edited; new fields have no key until the server assigns one
+type DraftField = { key?: string; label: string };
+
+export default function WorldElementFields({
+    bookId,
+    type,
+    typeLabel,
+    fields,
+    values,
+    onValuesChange,
+    onTemplateChange,
+}: Props) {
+    const { t } = useI18n();
+    const [draft, setDraft] = useState<DraftField[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const suggestions = (SUGGESTED_WORLD_FIELDS[type] ?? [])
+        .map((label) => t(label))
+        .filter((label) => !draft?.some((field) => field.label.trim().toLowerCase() === label.toLowerCase()));
+
+    const updateDraft = (index: number, label: string) => {
+        setDraft((current) => current?.map((field, i) => (i === index ? { ...field, label } : field)) ?? null);
+    };
+
+    const moveDraft = (index: number, offset: number) => {
+        setDraft((current) => {
+            if (!current) return current;
+            const next = [...current];
+            const [field] = next.splice(index, 1);
+            if (field) next.splice(index + offset, 0, field);
+            return next;
+        });
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!draft) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/world/templates`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ type, fields: draft.filter((field) => field.label.trim()) }),
+            });
+            if (!response.ok) {
+                throw new Error(t({ de: "Vorlage konnte nicht gespeichert werden", en: "Failed to save the template" }));
+            }
+            const saved = await response.json();
+            onTemplateChange(type, saved.fields);
+            setDraft(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (draft) {
+        return (
+            <div className="space-y-3 rounded-lg border border-dashed p-3">
+                <div>
+                    <p className="text-sm font-medium">{t({ de: "Felder für „{{type}}“", en: "Fields for \"{{type}}\"" }, { type: typeLabel })}</p>
+                    <p className="text-xs text-muted-foreground">
+                        {t({
+                            de: "Die Vorlage gilt für alle Elemente dieses Typs. Umbenennen behält die eingetragenen Werte.",
+                            en: "The template applies to all elements of this type. Renaming keeps the values entered.",
+                        })}
+                    </p>
+                </div>
+
+                {draft.map((field, index) => (
+                    <div key={field.key ?? `new-${index}`} className="flex items-center gap-1">
+                        <Input
+                            value={field.label}
+                            onChange={(e) => updateDraft(index, e.target.value)}
+                            placeholder={t({ de: "Bezeichnung, z.B. Klima", en: "Label, e.g. Climate" })}
+                            className="h-8"
+                        />
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveDraft(index, -1)} disabled={index === 0}>
+                            <ArrowUp className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveDraft(index, 1)} disabled={index === draft.length - 1}>
+                            <ArrowDown className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                        >
+                            <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                    </div>
+                ))}
+
+                <div className="flex flex-wrap gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDraft([...draft, { label: "" }])}
+                        disabled={draft.length >= MAX_TEMPLATE_FIELDS}
+                    >
+                        <Plus className="mr-1 h-3.5 w-3.5" />
+                        {t({ de: "Feld hinzufügen", en: "Add field" })}
+                    </Button>
+                    {suggestions.length > 0 && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDraft([...draft, ...suggestions.map((label) => ({ label }))].slice(0, MAX_TEMPLATE_FIELDS))}
+                            title={suggestions.join(", ")}
+                        >
+                            <Sparkles className="mr-1 h-3.5 w-3.5" />
+                            {t({ de: "Vorschläge übernehmen", en: "Add suggestions" })}
+                        </Button>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => { setDraft(null); setError(null); }}>
+                        {t({ de: "Abbrechen", en: "Cancel" })}
+                    </Button>
+                    <Button size="sm" onClick={handleSaveTemplate} disabled={isSaving}>
+                        {isSaving && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                        {t({ de: "Vorlage speichern", en: "Save template" })}
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {fields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                    <label className="text-sm font-medium">{field.label}</label>
+                    <textarea
+                        value={values[field.key] ?? ""}
+                        onChange={(e) => onValuesChange({ ...values, [field.key]: e.target.value })}
+                        rows={2}
+                        className="w-full px-3 py-2 rounded-md border border-input bg-background text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring"
+                    />
+                </div>
+            ))}
+            <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-muted-foreground"
+                onClick={() => setDraft(fields.map((field) => ({ ...field })))}
+            >
+                <Settings2 className="mr-1 h-3.5 w-3.5" />
+                {fields.length > 0
+                    ? t({ de: "Felder für „{{type}}“ anpassen", en: "Customize fields for \"{{type}}\"" }, { type: typeLabel })
+                    : t({ de: "Eigene Felder für „{{type}}“ anlegen", en: "Add custom fields for \"{{type}}\"" }, { type: typeLabel })}
+            </Button>
+        </div>
+    );
+}
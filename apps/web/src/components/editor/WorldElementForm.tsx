@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
-import { Loader2, Save, X, Sparkles } from "lucide-react";
+import { Loader2, Save, X, Sparkles, Link2, Plus, Trash2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Globe, MapPin, Box, Lightbulb, Users, Zap, Cpu } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useI18n } from "@/components/locale-provider";
+import EntityBacklinks from "@/components/editor/EntityBacklinks";
+import WorldElementFields from "@/components/editor/WorldElementFields";
+import { parseFieldValues, type WorldField, type WorldFieldValues } from "@/lib/world-fields";
+import {
+    WORLD_LINK_TYPES,
+    worldElementAncestors,
+    worldElementPath,
+    worldLinkLabel,
+    type WorldLinkData,
+} from "@/lib/world-links";
 
 type WorldElement = {
     id: string;
@@ -16,13 +26,23 @@ type WorldElement = {
     type: string;
     description: string | null;
     imageUrl: string | null;
+    parentId: string | null;
+    fields: string;
 };
 
-type WorldElementInput = Omit<WorldElement, "id">;
+type WorldElementInput = Omit<WorldElement, "id" | "fields"> & { fields: WorldFieldValues };
 
 interface WorldElementFormProps {
     bookId: string;
     worldElement?: WorldElement;
+    // All elements of the book, for the parent selection and the links
+    worldElements?: WorldElement[];
+    worldLinks?: WorldLinkData[];
+    characters?: { id: string; name: string }[];
+    onLinksChange?: (links: WorldLinkData[]) => void;
+    // Custom field templates by element type
+    fieldTemplates?: Record<string, WorldField[]>;
+    onTemplateChange?: (type: string, fields: WorldField[]) => void;
     onSave?: (worldElement: WorldElement) => void;
     onCancel?: () => void;
 }
@@ -30,6 +50,12 @@ interface WorldElementFormProps {
 export default function WorldElementForm({
     bookId,
     worldElement,
+    worldElements = [],
+    worldLinks = [],
+    characters = [],
+    onLinksChange,
+    fieldTemplates = {},
+    onTemplateChange,
     onSave,
     onCancel,
 }: WorldElementFormProps) {
@@ -48,6 +74,14 @@ export default function WorldElementForm({
     const [name, setName] = useState(worldElement?.name || "");
     const [type, setType] = useState(worldElement?.type || "location");
     const [description, setDescription] = useState(worldElement?.description || "");
+    const [parentId, setParentId] = useState(worldElement?.parentId || "");
+    // Values of all fields the element ever had, so switching the type back and forth loses nothing
+    const [fieldValues, setFieldValues] = useState<WorldFieldValues>(() => parseFieldValues(worldElement?.fields));
+    // New link: "element:<id>" links this element to another one, "character:<id>" a character to this one
+    const [linkTarget, setLinkTarget] = useState("");
+    const [linkType, setLinkType] = useState<string>("related_to");
+    const [linkDescription, setLinkDescription] = useState("");
+    const [isLinking, setIsLinking] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [isGenerating, setIsGenerating] = useState(false);
     const [aiPrompt, setAiPrompt] = useState("");
@@ -58,6 +92,64 @@ export default function WorldElementForm({
     // Filtered types for selection to ensure icon lookup works
     const SelectedIcon = worldTypes.find(t => t.value === type)?.icon || Globe;
 
+    // An element cannot move below itself or one of its descendants
+    const parentOptions = worldElements
+        .filter((element) =>
+            !worldElement
+            || (element.id !== worldElement.id
+                && !worldElementAncestors(worldElements, element.id).some((ancestor) => ancestor.id === worldElement.id))
+        )
+        .map((element) => ({ id: element.id, label: [worldElementPath(worldElements, element.id), element.name].filter(Boolean).join(" › ") }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+
+    const elementName = (id: string | null) => worldElements.find((element) => element.id === id)?.name ?? "?";
+    const characterName = (id: string | null) => characters.find((character) => character.id === id)?.name ?? "?";
+    const ownLinks = worldElement
+        ? worldLinks.filter((link) => link.fromElementId === worldElement.id || link.toElementId === worldElement.id)
+        : [];
+
+    const handleAddLink = async () => {
+        if (!worldElement || !linkTarget) return;
+        const [kind, targetId] = linkTarget.split(":");
+        setIsLinking(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/world/links`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(
+                    kind === "character"
+                        ? { linkType, description: linkDescription, fromCharacterId: targetId, toElementId: worldElement.id }
+                        : { linkType, description: linkDescription, fromElementId: worldElement.id, toElementId: targetId }
+                ),
+            });
+            if (!response.ok) {
+                throw new Error(t({ de: "Verbindung konnte nicht gespeichert werden", en: "Failed to save the link" }));
+            }
+            const link = await response.json();
+            onLinksChange?.([...worldLinks, link]);
+            setLinkTarget("");
+            setLinkDescription("");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        } finally {
+            setIsLinking(false);
+        }
+    };
+
+    const handleRemoveLink = async (linkId: string) => {
+        setError(null);
+        try {
+            const response = await fetch(`/api/books/${bookId}/world/links/${linkId}`, { method: "DELETE" });
+            if (!response.ok) {
+                throw new Error(t({ de: "Verbindung konnte nicht gelöscht werden", en: "Failed to delete the link" }));
+            }
+            onLinksChange?.(worldLinks.filter((link) => link.id !== linkId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t({ de: "Unbekannter Fehler", en: "Unknown error" }));
+        }
+    };
+
     const handleSave = async () => {
         if (!name.trim()) {
             setError(t({ de: "Name ist erforderlich", en: "Name is required" }));
@@ -73,6 +165,8 @@ export default function WorldElementForm({
                 type,
                 description: description || null,
                 imageUrl: worldElement?.imageUrl || null,
+                parentId: parentId || null,
+                fields: fieldValues,
             };
 
             const url = isEditing
@@ -227,6 +321,23 @@ export default function WorldElementForm({
                             </div>
                         </div>
 
+                        {/* Parent */}
+                        {parentOptions.length > 0 && (
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">{t({ de: "Liegt in / gehört zu", en: "Located in / part of" })}</label>
+                                <select
+                                    value={parentId}
+                                    onChange={(e) => setParentId(e.target.value)}
+                                    className="w-full h-9 rounded-md border border-input bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                                >
+                                    <option value="">{t({ de: "— Oberste Ebene —", en: "— Top level —" })}</option>
+                                    {parentOptions.map((option) => (
+                                        <option key={option.id} value={option.id}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
                         {/* Description */}
                         <div className="space-y-2">
                             <label className="text-sm font-medium">{t({ de: "Beschreibung", en: "Description" })}</label>
@@ -238,6 +349,95 @@ export default function WorldElementForm({
                             />
                         </div>
 
+                        {/* Custom fields */}
+                        {onTemplateChange && (
+                            <WorldElementFields
+                                bookId={bookId}
+                                type={type}
+                                typeLabel={typeLabel}
+                                fields={fieldTemplates[type] ?? []}
+                                values={fieldValues}
+                                onValuesChange={setFieldValues}
+                                onTemplateChange={onTemplateChange}
+                            />
+                        )}
+
+                        {/* Links */}
+                        {worldElement && (
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium flex items-center gap-2">
+                                    <Link2 className="h-4 w-4" />
+                                    {t({ de: "Verbindungen", en: "Links" })}
+                                </label>
+                                {ownLinks.length > 0 && (
+                                    <div className="rounded-md border divide-y">
+                                        {ownLinks.map((link) => {
+                                            const from = link.fromCharacterId ? characterName(link.fromCharacterId) : elementName(link.fromElementId);
+                                            return (
+                                                <div key={link.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                                                    <span className="flex-1">
+                                                        <span className="font-medium">{from}</span>{" "}
+                                                        <span className="text-muted-foreground">{t(worldLinkLabel(link.linkType))}</span>{" "}
+                                                        <span className="font-medium">{elementName(link.toElementId)}</span>
+                                                        {link.description && <span className="text-muted-foreground"> ({link.description})</span>}
+                                                    </span>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-7 w-7 text-destructive hover:text-destructive"
+                                                        onClick={() => handleRemoveLink(link.id)}
+                                                    >
+                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                    </Button>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                                <div className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                                    <select
+                                        value={linkType}
+                                        onChange={(e) => setLinkType(e.target.value)}
+                                        className="h-9 rounded-md border border-input bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                                    >
+                                        {WORLD_LINK_TYPES.map((option) => (
+                                            <option key={option.value} value={option.value}>{t(option.label)}</option>
+                                        ))}
+                                    </select>
+                                    <select
+                                        value={linkTarget}
+                                        onChange={(e) => setLinkTarget(e.target.value)}
+                                        className="h-9 rounded-md border border-input bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+                                    >
+                                        <option value="">{t({ de: "Verbinden mit…", en: "Link with…" })}</option>
+                                        <optgroup label={t({ de: "{{name}} → Weltelement", en: "{{name}} → world element" }, { name })}>
+                                            {worldElements.filter((element) => element.id !== worldElement.id).map((element) => (
+                                                <option key={element.id} value={`element:${element.id}`}>{element.name}</option>
+                                            ))}
+                                        </optgroup>
+                                        <optgroup label={t({ de: "Charakter → {{name}}", en: "Character → {{name}}" }, { name })}>
+                                            {characters.map((character) => (
+                                                <option key={character.id} value={`character:${character.id}`}>{character.name}</option>
+                                            ))}
+                                        </optgroup>
+                                    </select>
+                                    <Button variant="outline" size="icon" onClick={handleAddLink} disabled={!linkTarget || isLinking}>
+                                        {isLinking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                                    </Button>
+                                </div>
+                                {linkTarget && (
+                                    <Input
+                                        value={linkDescription}
+                                        onChange={(e) => setLinkDescription(e.target.value)}
+                                        placeholder={t({ de: "Details zur Verbindung (optional)", en: "Details about the link (optional)" })}
+                                    />
+                                )}
+                            </div>
+                        )}
+
+                        {/* Chapters linking the element */}
+                        {worldElement && <EntityBacklinks bookId={bookId} type="world" entityId={worldElement.id} />}
+
                         {error && (
                             <div className="p-3 rounded-md bg-destructive/10 text-destructive text-sm flex items-center gap-2">
                                 <X className="h-4 w-4" />
@@ -13,10 +13,17 @@ import {
     Search,
     Trash2,
     Edit2,
-    MoreVertical
+    MoreVertical,
+    ChevronDown,
+    ChevronRight,
+    LayoutGrid,
+    ListTree,
+    Link2,
+    Map as MapIcon
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 
+import MapEditor from "@/components/editor/MapEditor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -28,6 +35,15 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import { useI18n } from "@/components/locale-provider";
+import { parseFieldValues } from "@/lib/world-fields";
+import {
+    buildWorldTree,
+    worldElementAncestors,
+    worldElementPath,
+    worldLinkLabel,
+    type WorldLinkData,
+    type WorldTreeNode,
+} from "@/lib/world-links";
 
 // Types (should ideally be shared)
 type WorldElement = {
@@ -36,17 +52,25 @@ type WorldElement = {
     type: string;
     description: string | null;
     imageUrl: string | null;
+    parentId: string | null;
+    fields: string;
 };
 
 type WorldTabProps = {
+    bookId: string;
     worldElements: WorldElement[];
+    worldLinks: WorldLinkData[];
+    characters: { id: string; name: string }[];
     onEdit: (element: WorldElement) => void;
     onDelete: (id: string) => void;
     onCreate: () => void;
 };
 
 export default function WorldTab({
+    bookId,
     worldElements,
+    worldLinks,
+    characters,
     onEdit,
     onDelete,
     onCreate
@@ -54,6 +78,8 @@ export default function WorldTab({
     const { t } = useI18n();
     const [searchQuery, setSearchQuery] = useState("");
     const [activeFilter, setActiveFilter] = useState("all");
+    const [viewMode, setViewMode] = useState<"cards" | "tree" | "map">("cards");
+    const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
 
     const worldTypes = useMemo(() => ([
         { value: "all", label: t({ de: "Alle", en: "All" }), icon: Globe },
@@ -67,7 +93,8 @@ export default function WorldTab({
 
     const filteredElements = worldElements.filter(element => {
         const matchesSearch = element.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            (element.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false);
+            (element.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false) ||
+            Object.values(parseFieldValues(element.fields)).some((value) => value.toLowerCase().includes(searchQuery.toLowerCase()));
         const matchesFilter = activeFilter === "all" || element.type === activeFilter;
         return matchesSearch && matchesFilter;
     });
@@ -82,6 +109,92 @@ export default function WorldTab({
         return found ? found.label : type;
     };
 
+    // The tree keeps the ancestors of every match so that matches stay in place
+    const visibleIds = new Set(filteredElements.map((element) => element.id));
+    for (const element of filteredElements) {
+        for (const ancestor of worldElementAncestors(worldElements, element.id)) visibleIds.add(ancestor.id);
+    }
+    const worldTree = buildWorldTree(worldElements.filter((element) => visibleIds.has(element.id)));
+
+    const toggleCollapsed = (id: string) => {
+        setCollapsedIds((current) => {
+            const next = new Set(current);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    // Links of an element as short sentences, seen from the element: "besitzt Amulett", "Anna lebt in"
+    const describeLinks = (elementId: string) => {
+        const elementName = (id: string | null) => worldElements.find((element) => element.id === id)?.name ?? "?";
+        return worldLinks.flatMap((link) => {
+            const label = t(worldLinkLabel(link.linkType));
+            if (link.fromElementId === elementId) return [`${label} ${elementName(link.toElementId)}`];
+            if (link.toElementId !== elementId) return [];
+            const from = link.fromCharacterId
+                ? characters.find((character) => character.id === link.fromCharacterId)?.name ?? "?"
+                : elementName(link.fromElementId);
+            return [`${from} ${label}`];
+        });
+    };
+
+    const renderTreeNode = (node: WorldTreeNode<WorldElement>, depth: number): React.ReactNode => {
+        const { element, children } = node;
+        const TypeIcon = getTypeIcon(element.type);
+        const isCollapsed = collapsedIds.has(element.id);
+        const links = describeLinks(element.id);
+        return (
+            <div key={element.id}>
+                <div
+                    className="group flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-secondary/50 cursor-pointer"
+                    style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+                    onClick={() => onEdit(element)}
+                >
+                    <button
+                        type="button"
+                        className={cn("mt-0.5 text-muted-foreground hover:text-foreground", children.length === 0 && "invisible")}
+                        onClick={(e) => { e.stopPropagation(); toggleCollapsed(element.id); }}
+                        aria-label={isCollapsed ? t({ de: "Aufklappen", en: "Expand" }) : t({ de: "Zuklappen", en: "Collapse" })}
+                    >
+                        {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    </button>
+                    <TypeIcon className="mt-0.5 h-4 w-4 shrink-0 text-primary/70" />
+                    <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                            <span className="font-medium group-hover:text-primary transition-colors">{element.name}</span>
+                            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{getTypeLabel(element.type)}</span>
+                            {isCollapsed && children.length > 0 && (
+                                <span className="text-xs text-muted-foreground">
+                                    {t({ de: "{{count}} untergeordnet", en: "{{count}} nested" }, { count: children.length })}
+                                </span>
+                            )}
+                        </div>
+                        {element.description && (
+                            <p className="text-xs text-muted-foreground line-clamp-1">{element.description}</p>
+                        )}
+                        {links.length > 0 && (
+                            <p className="mt-0.5 flex items-center gap-1 text-xs text-muted-foreground">
+                                <Link2 className="h-3 w-3 shrink-0" />
+                                <span className="truncate">{links.join(" · ")}</span>
+                            </p>
+                        )}
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 opacity-0 group-hover:opacity-100 text-destructive hover:text-destructive"
+                        onClick={(e) => { e.stopPropagation(); onDelete(element.id); }}
+                        title={t({ de: "Löschen", en: "Delete" })}
+                    >
+                        <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+                {!isCollapsed && children.map((child) => renderTreeNode(child, depth + 1))}
+            </div>
+        );
+    };
+
     return (
         <div className="space-y-6">
             {/* Header / Stats */}
@@ -142,20 +255,62 @@ export default function WorldTab({
                     })}
                 </div>
 
-                <div className="relative w-full md:w-64">
-                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                    <Input
-                        placeholder={t({ de: "Suche...", en: "Search..." })}
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="pl-9 h-9 bg-secondary/30 border-transparent focus:border-primary focus:bg-background transition-all"
-                    />
+                <div className="flex w-full md:w-auto items-center gap-2">
+                    <div className="flex rounded-md border border-border/50 p-0.5">
+                        <Button
+                            variant={viewMode === "cards" ? "secondary" : "ghost"}
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setViewMode("cards")}
+                            title={t({ de: "Karten", en: "Cards" })}
+                        >
+                            <LayoutGrid className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant={viewMode === "tree" ? "secondary" : "ghost"}
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setViewMode("tree")}
+                            title={t({ de: "Baum", en: "Tree" })}
+                        >
+                            <ListTree className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant={viewMode === "map" ? "secondary" : "ghost"}
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setViewMode("map")}
+                            title={t({ de: "Karte", en: "Map" })}
+                        >
+                            <MapIcon className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <div className="relative w-full md:w-64">
+                        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            placeholder={t({ de: "Suche...", en: "Search..." })}
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            className="pl-9 h-9 bg-secondary/30 border-transparent focus:border-primary focus:bg-background transition-all"
+                        />
+                    </div>
                 </div>
             </div>
 
             {/* Grid */}
             <AnimatePresence mode="popLayout">
-                {filteredElements.length === 0 ? (
+                {viewMode === "map" ? (
+                    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                        <MapEditor
+                            bookId={bookId}
+                            worldElements={worldElements}
+                            onOpenElement={(elementId) => {
+                                const element = worldElements.find((entry) => entry.id === elementId);
+                                if (element) onEdit(element);
+                            }}
+                        />
+                    </motion.div>
+                ) : filteredElements.length === 0 ? (
                     <motion.div
                         initial={{ opacity: 0, scale: 0.9 }}
                         animate={{ opacity: 1, scale: 1 }}
@@ -178,6 +333,14 @@ export default function WorldTab({
                             <Button onClick={onCreate}>{t({ de: "Erstes Element erstellen", en: "Create the first element" })}</Button>
                         )}
                     </motion.div>
+                ) : viewMode === "tree" ? (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        className="rounded-xl border border-border/50 bg-card/40 p-2"
+                    >
+                        {worldTree.map((node) => renderTreeNode(node, 0))}
+                    </motion.div>
                 ) : (
                     <motion.div
                         initial={{ opacity: 0 }}
@@ -255,6 +418,11 @@ export default function WorldTab({
 
                                         <div className="p-4 flex-1 flex flex-col">
                                             <h3 className="text-lg font-bold font-serif mb-2 group-hover:text-primary transition-colors">{element.name}</h3>
+                                            {element.parentId && (
+                                                <p className="-mt-1.5 mb-2 text-xs text-muted-foreground truncate">
+                                                    {t({ de: "in {{path}}", en: "in {{path}}" }, { path: worldElementPath(worldElements, element.id) })}
+                                                </p>
+                                            )}
                                             <p className="text-sm text-muted-foreground line-clamp-3 leading-relaxed">
                                                 {element.description || <span className="italic opacity-50">{t({ de: "Keine Beschreibung...", en: "No description..." })}</span>}
                                             </p>
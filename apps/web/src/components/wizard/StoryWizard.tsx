@@ -67,8 +67,9 @@ type WizardResult = {
 };
 
 interface StoryWizardProps {
+    provider: string;
     apiEndpoint: string;
-    apiKey: string;
+    apiKey: string | null;
     model: string;
     onCancel: () => void;
 }
@@ -89,6 +90,7 @@ const GENRES = [
 type WizardStep = "idea" | "questions" | "generating" | "review";
 
 export default function StoryWizard({
+    provider,
     apiEndpoint,
     apiKey,
     model,
@@ -123,6 +125,7 @@ export default function StoryWizard({
                     action: "questions",
                     storyIdea,
                     genre,
+                    provider,
                     apiEndpoint,
                     apiKey,
                     model,
@@ -164,6 +167,7 @@ export default function StoryWizard({
                     storyIdea,
                     genre,
                     answers,
+                    provider,
                     apiEndpoint,
                     apiKey,
                     model,
@@ -274,6 +278,7 @@ export default function StoryWizard({
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
+                    provider,
                     apiEndpoint,
                     apiKey,
                     model,
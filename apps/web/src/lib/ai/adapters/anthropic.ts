@@ -0,0 +1,96 @@
+import { AIProviderError } from "../errors";
+import type { AIProviderAdapter } from "../types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Anthropic Messages API (system prompt is a top-level field, not a message)
+export const anthropicAdapter: AIProviderAdapter = {
+  streamFormat: "sse",
+
+  buildRequest(connection, request, stream) {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    return {
+      url: `${connection.apiEndpoint}/messages`,
+      headers: {
+        "Content-Type": "application/json",
+        "anthropic-version": ANTHROPIC_VERSION,
+        ...(connection.apiKey && { "x-api-key": connection.apiKey }),
+      },
+      body: {
+        model: connection.model,
+        ...(system && { system }),
+        messages: request.messages
+          .filter((message) => message.role !== "system")
+          .map((message) => ({ role: message.role, content: message.content })),
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        // Anthropic accepts 0..1 while the settings allow up to 2
+        ...(request.temperature !== undefined && { temperature: Math.min(request.temperature, 1) }),
+        ...(stream && { stream: true }),
+      },
+    };
+  },
+
+  parseResponse(raw) {
+    const data = raw as any;
+    const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+    const reasoning = blocks
+      .filter((block) => block.type === "thinking" && typeof block.thinking === "string")
+      .map((block) => block.thinking)
+      .join("");
+
+    return {
+      text: blocks
+        .filter((block) => block.type === "text" && typeof block.text === "string")
+        .map((block) => block.text)
+        .join(""),
+      reasoning: reasoning || undefined,
+      finishReason: data?.stop_reason ?? undefined,
+      usage: data?.usage
+        ? {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+          totalTokens: (data.usage.input_tokens ?? 0) + (data.usage.output_tokens ?? 0),
+        }
+        : undefined,
+    };
+  },
+
+  parseStreamChunk({ data }) {
+    let chunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    switch (chunk.type) {
+      case "content_block_delta":
+        return chunk.delta?.type === "text_delta" ? { text: chunk.delta.text } : null;
+      case "message_start":
+        return chunk.message?.usage
+          ? { usage: { promptTokens: chunk.message.usage.input_tokens } }
+          : null;
+      case "message_delta":
+        return {
+          finishReason: chunk.delta?.stop_reason ?? undefined,
+          usage: chunk.usage ? { completionTokens: chunk.usage.output_tokens } : undefined,
+        };
+      case "message_stop":
+        return { done: true };
+      case "error":
+        throw new AIProviderError(
+          chunk.error?.type === "overloaded_error" ? "upstream" : "invalid_response",
+          `AI API error: ${chunk.error?.message ?? "stream error"}`,
+          { details: data }
+        );
+      default:
+        return null;
+    }
+  },
+};
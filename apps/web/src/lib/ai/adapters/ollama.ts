@@ -0,0 +1,66 @@
+import { AIProviderError } from "../errors";
+import type { AIProviderAdapter, ChatUsage } from "../types";
+
+function parseUsage(data: any): ChatUsage | undefined {
+  if (data?.prompt_eval_count === undefined && data?.eval_count === undefined) return undefined;
+  return {
+    promptTokens: data.prompt_eval_count,
+    completionTokens: data.eval_count,
+    totalTokens: (data.prompt_eval_count ?? 0) + (data.eval_count ?? 0),
+  };
+}
+
+// Native Ollama chat API (/api/chat); streams newline-delimited JSON instead of SSE
+export const ollamaAdapter: AIProviderAdapter = {
+  streamFormat: "ndjson",
+
+  buildRequest(connection, request, stream) {
+    return {
+      url: `${connection.apiEndpoint.replace(/\/api$/, "")}/api/chat`,
+      headers: {
+        "Content-Type": "application/json",
+        // Only needed when Ollama sits behind an authenticating proxy
+        ...(connection.apiKey && { Authorization: `Bearer ${connection.apiKey}` }),
+      },
+      body: {
+        model: connection.model,
+        messages: request.messages,
+        stream,
+        options: {
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.maxTokens !== undefined && { num_predict: request.maxTokens }),
+        },
+      },
+    };
+  },
+
+  parseResponse(raw) {
+    const data = raw as any;
+    return {
+      text: typeof data?.message?.content === "string" ? data.message.content : "",
+      reasoning: typeof data?.message?.thinking === "string" ? data.message.thinking : undefined,
+      finishReason: data?.done_reason ?? undefined,
+      usage: parseUsage(data),
+    };
+  },
+
+  parseStreamChunk({ data }) {
+    let chunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    if (typeof chunk.error === "string") {
+      throw new AIProviderError("invalid_response", `AI API error: ${chunk.error}`, { details: data });
+    }
+
+    return {
+      text: typeof chunk.message?.content === "string" ? chunk.message.content : undefined,
+      finishReason: chunk.done_reason ?? undefined,
+      usage: chunk.done ? parseUsage(chunk) : undefined,
+      done: chunk.done === true,
+    };
+  },
+};
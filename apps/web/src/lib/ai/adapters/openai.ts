@@ -0,0 +1,78 @@
+import type { AIProviderAdapter, ChatUsage } from "../types";
+
+function parseUsage(usage: any): ChatUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+// OpenAI chat completions and the many servers that mimic it (LM Studio, vLLM, OpenRouter, ...)
+export const openAIAdapter: AIProviderAdapter = {
+  streamFormat: "sse",
+
+  buildRequest(connection, request, stream) {
+    return {
+      url: `${connection.apiEndpoint}/chat/completions`,
+      headers: {
+        "Content-Type": "application/json",
+        ...(connection.apiKey && { Authorization: `Bearer ${connection.apiKey}` }),
+      },
+      body: {
+        model: connection.model,
+        messages: request.messages,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(stream && { stream: true }),
+      },
+    };
+  },
+
+  parseResponse(raw) {
+    const data = raw as any;
+    const choice = data?.choices?.[0];
+    let text = "";
+
+    // Check standard fields and provider-specific fallbacks
+    if (typeof choice?.message?.content === "string") {
+      text = choice.message.content;
+    } else if (typeof choice?.text === "string") {
+      text = choice.text;
+    } else if (typeof choice?.message === "string") {
+      text = choice.message;
+    }
+
+    // Some local models report their thinking separately as 'reasoning_content'
+    const reasoning = typeof choice?.message?.reasoning_content === "string"
+      ? choice.message.reasoning_content
+      : undefined;
+
+    return {
+      text,
+      reasoning,
+      finishReason: choice?.finish_reason ?? undefined,
+      usage: parseUsage(data?.usage),
+    };
+  },
+
+  parseStreamChunk({ data }) {
+    if (data === "[DONE]") return { done: true };
+
+    let chunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return null;
+    }
+
+    const choice = chunk.choices?.[0];
+    const text = choice?.delta?.content ?? choice?.text;
+    return {
+      text: typeof text === "string" ? text : undefined,
+      finishReason: choice?.finish_reason ?? undefined,
+      usage: parseUsage(chunk.usage),
+    };
+  },
+};
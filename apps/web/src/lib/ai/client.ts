@@ -0,0 +1,231 @@
+import { readSseEvents, type SseEvent } from "@/lib/sse";
+
+import { anthropicAdapter } from "./adapters/anthropic";
+import { ollamaAdapter } from "./adapters/ollama";
+import { openAIAdapter } from "./adapters/openai";
+import { AIProviderError, errorFromResponse } from "./errors";
+import type {
+  AIConnection,
+  AIProvider,
+  AIProviderAdapter,
+  ChatRequest,
+  ChatResult,
+  ChatUsage,
+} from "./types";
+
+const adapters: Record<AIProvider, AIProviderAdapter> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter,
+  ollama: ollamaAdapter,
+};
+
+// Long chapters from reasoning models can take several minutes without streaming
+const DEFAULT_TIMEOUT_MS = 300_000;
+const DEFAULT_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+export type ChatStream = {
+  // Calls onText for every text delta; resolves once the upstream stream has ended
+  read(onText: (text: string) => void): Promise<Pick<ChatResult, "finishReason" | "usage">>;
+};
+
+function toTransportError(error: unknown, timedOut: boolean, signal?: AbortSignal) {
+  if (error instanceof AIProviderError) return error;
+  if (signal?.aborted) return new AIProviderError("aborted", "AI request aborted");
+  if (timedOut) return new AIProviderError("timeout", "AI API did not respond in time");
+  const message = error instanceof Error ? error.message : String(error);
+  return new AIProviderError("network", `Could not reach AI API: ${message}`);
+}
+
+function retryDelay(attempt: number, retryAfter: string | null) {
+  const seconds = Number(retryAfter);
+  if (seconds > 0) return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIProviderError("aborted", "AI request aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Send a request with timeout and retries. `consume` runs while the timeout is still armed,
+// so for plain completions reading the body counts towards it; streams only wait for headers.
+async function send<T>(
+  connection: AIConnection,
+  request: ChatRequest,
+  stream: boolean,
+  consume: (response: Response) => Promise<T>
+): Promise<T> {
+  const { url, headers, body } = adapters[connection.provider].buildRequest(connection, request, stream);
+  const retries = request.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    if (request.signal?.aborted) {
+      throw new AIProviderError("aborted", "AI request aborted");
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener("abort", abort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    let retryAfter: string | null = null;
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        retryAfter = response.headers.get("retry-after");
+        throw errorFromResponse(response.status, await response.text().catch(() => ""));
+      }
+
+      return await consume(response);
+    } catch (error) {
+      const aiError = toTransportError(error, timedOut, request.signal);
+      if (!aiError.retryable || attempt >= retries) {
+        throw aiError;
+      }
+      console.warn(`${aiError.message} - retrying (${attempt + 1}/${retries})`);
+      await wait(retryDelay(attempt, retryAfter), request.signal);
+    } finally {
+      clearTimeout(timer);
+      // A running stream still needs the client abort to reach the upstream request
+      if (!stream) request.signal?.removeEventListener("abort", abort);
+    }
+  }
+}
+
+// Newline-delimited JSON reader (Ollama streams one object per line)
+async function readJsonLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      lines.filter((line) => line.trim()).forEach(onLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) onLine(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function mergeUsage(current: ChatUsage | undefined, next: ChatUsage | undefined) {
+  if (!next) return current;
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(next) as Array<[keyof ChatUsage, number | undefined]>) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+// Single chat completion; the text may be empty if the model returned nothing usable
+export async function chatCompletion(connection: AIConnection, request: ChatRequest): Promise<ChatResult> {
+  const adapter = adapters[connection.provider];
+
+  return send(connection, request, false, async (response) => {
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new AIProviderError("invalid_response", "Invalid JSON response from AI API");
+      }
+      throw error;
+    }
+
+    if (process.env.NODE_ENV === "development") {
+      console.log("AI API response:", JSON.stringify(data).slice(0, 2000));
+    }
+
+    return adapter.parseResponse(data);
+  });
+}
+
+// Convenience wrapper for the structured-output routes: system + user prompt in, text out
+export async function generateText(
+  connection: AIConnection,
+  options: Omit<ChatRequest, "messages"> & { system: string; prompt: string }
+): Promise<string> {
+  const { system, prompt, ...request } = options;
+  const result = await chatCompletion(connection, {
+    ...request,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: prompt },
+    ],
+  });
+
+  if (!result.text.trim()) {
+    throw new AIProviderError("invalid_response", "Empty response from AI API");
+  }
+  return result.text;
+}
+
+// Open a streaming completion. Connection and HTTP errors are thrown here (with retries),
+// before any output was produced, so routes can still answer with a regular error response.
+export async function openChatStream(connection: AIConnection, request: ChatRequest): Promise<ChatStream> {
+  const adapter = adapters[connection.provider];
+  const response = await send(connection, request, true, async (response) => response);
+  const body = response.body;
+
+  if (!body) {
+    throw new AIProviderError("invalid_response", "AI API returned no stream");
+  }
+
+  return {
+    async read(onText) {
+      let finishReason: string | undefined;
+      let usage: ChatUsage | undefined;
+
+      const handle = (event: SseEvent) => {
+        const chunk = adapter.parseStreamChunk(event);
+        if (!chunk) return;
+        if (chunk.text) onText(chunk.text);
+        if (chunk.finishReason) finishReason = chunk.finishReason;
+        usage = mergeUsage(usage, chunk.usage);
+      };
+
+      try {
+        if (adapter.streamFormat === "ndjson") {
+          await readJsonLines(body, (line) => handle({ event: "message", data: line }));
+        } else {
+          await readSseEvents(body, handle);
+        }
+      } catch (error) {
+        body.cancel().catch(() => {});
+        throw toTransportError(error, false, request.signal);
+      }
+
+      return { finishReason, usage };
+    },
+  };
+}
@@ -0,0 +1,185 @@
+import { acceptTrackedChangesHtml } from "@/lib/track-changes";
+
+export type ContextPieceMode = "full" | "summary" | "excerpt" | "truncated" | "omitted";
+
+export type ContextPieceKind =
+  | "instructions"
+  | "book"
+  | "characters"
+  | "plotPoints"
+  | "worldElements"
+  | "previousChapter"
+  | "currentChapter"
+  | "nextChapters"
+  | "prompt";
+
+export type ContextPiece = {
+  kind: ContextPieceKind;
+  label: string;
+  mode: ContextPieceMode;
+  tokens: number;
+  chapterNumber?: number;
+};
+
+// What went into a generation request and what had to be cut, shown in the AI panel
+export type ContextReport = {
+  model: string;
+  contextWindow: number;
+  reservedForOutput: number;
+  inputBudget: number;
+  usedTokens: number;
+  overBudget: boolean;
+  pieces: ContextPiece[];
+};
+
+export type ChapterForContext = {
+  title: string;
+  content: string;
+  summary: string | null;
+  orderIndex: number;
+};
+
+export type PlannedChapter = {
+  chapter: ChapterForContext;
+  mode: ContextPieceMode;
+  text: string;
+  tokens: number;
+};
+
+// Used when neither the settings nor the lookup table know the model
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+export const DEFAULT_VERBATIM_CHAPTERS = 2;
+
+// Share of the window kept free because token counts are only estimated
+const SAFETY_MARGIN = 0.1;
+// Extractive stand-in for chapters without a summary
+const EXCERPT_TOKENS = 200;
+// Below this, a truncated chapter carries too little to be worth it
+const MIN_TRUNCATED_TOKENS = 300;
+
+// First match wins, so more specific patterns come first
+const modelContextWindows: Array<[RegExp, number]> = [
+  [/gpt-4\.1/i, 1_000_000],
+  [/gpt-5/i, 400_000],
+  [/gpt-4o|gpt-4-turbo|chatgpt-4o|^o[134](-|$)/i, 128_000],
+  [/gpt-4-32k/i, 32_768],
+  [/gpt-4/i, 8_192],
+  [/gpt-3\.5/i, 16_385],
+  [/claude/i, 200_000],
+  [/gemini-(1\.5|2)/i, 1_000_000],
+  [/gemini/i, 32_768],
+  [/llama-?3\.[123]/i, 128_000],
+  [/llama/i, 8_192],
+  [/mistral-(large|medium)|mistral-nemo/i, 128_000],
+  [/mistral|mixtral/i, 32_768],
+  [/deepseek/i, 64_000],
+  [/qwen/i, 32_768],
+];
+
+export function getModelContextWindow(model: string, override?: number | null) {
+  if (override && override > 0) return override;
+  return modelContextWindows.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// Tokens available for the prompt once the answer and a safety margin are set aside
+export function computeInputBudget(contextWindow: number, maxOutputTokens: number) {
+  const reservedForOutput = Math.min(maxOutputTokens, Math.floor(contextWindow / 2));
+  return {
+    reservedForOutput,
+    inputBudget: Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - reservedForOutput,
+  };
+}
+
+// Rough estimate (~3.5 characters per token for German/English prose); errs on the high side
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 3.5);
+}
+
+// Tracked deletions are no longer part of the story the model should continue
+export function htmlToPlainText(html: string) {
+  return acceptTrackedChangesHtml(html)
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Cut text to roughly maxTokens at a sentence boundary, from the start or keeping the end
+export function truncateToTokens(text: string, maxTokens: number, keep: "start" | "end" = "start") {
+  const maxChars = Math.floor(maxTokens * 3.5);
+  if (text.length <= maxChars) return text;
+
+  if (keep === "end") {
+    const tail = text.slice(text.length - maxChars);
+    const sentenceStart = tail.search(/[.!?…»"]\s+\S/);
+    return `… ${sentenceStart >= 0 && sentenceStart < tail.length / 2 ? tail.slice(sentenceStart + 1).trim() : tail.trim()}`;
+  }
+
+  const head = text.slice(0, maxChars);
+  const sentenceEnd = Math.max(head.lastIndexOf(". "), head.lastIndexOf("! "), head.lastIndexOf("? "));
+  return `${sentenceEnd > maxChars / 2 ? head.slice(0, sentenceEnd + 1) : head.trim()} …`;
+}
+
+// Opening and closing sentences of a chapter, used in place of a missing summary
+export function excerptChapter(plainText: string, maxTokens = EXCERPT_TOKENS) {
+  if (estimateTokens(plainText) <= maxTokens) return plainText;
+  const half = Math.floor(maxTokens / 2);
+  return `${truncateToTokens(plainText, half, "start")} ${truncateToTokens(plainText, half, "end")}`;
+}
+
+// Decide how each previous chapter (sorted ascending) is represented within the token budget:
+// every chapter first gets its compact form (summary, or an excerpt if there is none), dropping
+// the oldest ones if even that does not fit; then the most recent `verbatimCount` chapters are
+// upgraded to their full text, or to their ending when only part of it fits.
+export function planChapterContext(
+  chapters: ChapterForContext[],
+  budget: number,
+  verbatimCount: number
+): PlannedChapter[] {
+  const planned: PlannedChapter[] = chapters.map((chapter) => {
+    const summary = chapter.summary?.trim();
+    if (summary) {
+      return { chapter, mode: "summary", text: summary, tokens: estimateTokens(summary) };
+    }
+    const plain = htmlToPlainText(chapter.content);
+    const excerpt = excerptChapter(plain);
+    return {
+      chapter,
+      mode: excerpt === plain ? "full" : "excerpt",
+      text: excerpt,
+      tokens: estimateTokens(excerpt),
+    };
+  });
+
+  let used = planned.reduce((sum, entry) => sum + entry.tokens, 0);
+  for (let i = 0; i < planned.length && used > budget; i++) {
+    const entry = planned[i]!;
+    used -= entry.tokens;
+    planned[i] = { ...entry, mode: "omitted", text: "", tokens: 0 };
+  }
+
+  const firstVerbatim = Math.max(0, planned.length - verbatimCount);
+  for (let i = planned.length - 1; i >= firstVerbatim; i--) {
+    const entry = planned[i]!;
+    if (entry.mode === "full") continue;
+
+    const plain = htmlToPlainText(entry.chapter.content);
+    if (!plain) continue;
+
+    const fullTokens = estimateTokens(plain);
+    const available = budget - used + entry.tokens;
+
+    if (fullTokens <= available) {
+      planned[i] = { chapter: entry.chapter, mode: "full", text: plain, tokens: fullTokens };
+      used += fullTokens - entry.tokens;
+    } else if (available >= MIN_TRUNCATED_TOKENS && available > entry.tokens) {
+      // The ending matters most for continuing the story
+      const text = truncateToTokens(plain, available - 5, "end");
+      const tokens = estimateTokens(text);
+      planned[i] = { chapter: entry.chapter, mode: "truncated", text, tokens };
+      used += tokens - entry.tokens;
+    }
+  }
+
+  return planned;
+}
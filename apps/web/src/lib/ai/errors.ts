@@ -0,0 +1,72 @@
+export type AIErrorCode =
+  | "auth"
+  | "rate_limit"
+  | "bad_request"
+  | "upstream"
+  | "timeout"
+  | "network"
+  | "aborted"
+  | "invalid_response";
+
+// Error raised by the provider layer; `status` is what API routes should answer with
+export class AIProviderError extends Error {
+  readonly code: AIErrorCode;
+  readonly status: number;
+  readonly details?: string;
+  readonly retryable: boolean;
+
+  constructor(code: AIErrorCode, message: string, options: { status?: number; details?: string } = {}) {
+    super(message);
+    this.name = "AIProviderError";
+    this.code = code;
+    this.status = options.status ?? defaultStatus[code];
+    this.details = options.details;
+    // Timeouts are not retried: a generation that ran into the timeout would most likely do so again
+    this.retryable = code === "rate_limit" || code === "upstream" || code === "network";
+  }
+}
+
+const defaultStatus: Record<AIErrorCode, number> = {
+  auth: 401,
+  rate_limit: 429,
+  bad_request: 400,
+  upstream: 502,
+  timeout: 504,
+  network: 502,
+  aborted: 499,
+  invalid_response: 502,
+};
+
+// Pull a human-readable message out of an upstream error body
+// (OpenAI: { error: { message } }, Anthropic: { error: { type, message } }, Ollama: { error: "..." })
+export function extractUpstreamErrorMessage(body: string) {
+  try {
+    const data = JSON.parse(body);
+    const message = data?.error?.message ?? data?.error ?? data?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // Not JSON
+  }
+  return body.trim().slice(0, 300);
+}
+
+export function errorFromResponse(status: number, body: string) {
+  const upstreamMessage = extractUpstreamErrorMessage(body);
+  const message = `AI API error (${status})${upstreamMessage ? `: ${upstreamMessage}` : ""}`;
+
+  if (status === 401 || status === 403) {
+    return new AIProviderError("auth", message, { status, details: body });
+  }
+  if (status === 429) {
+    return new AIProviderError("rate_limit", message, { status, details: body });
+  }
+  if (status === 408 || status >= 500) {
+    // Anthropic reports overload as 529, which is not a status the client should see
+    return new AIProviderError("upstream", message, { status: status === 408 ? 504 : 502, details: body });
+  }
+  return new AIProviderError("bad_request", message, { status, details: body });
+}
+
+export function getAIErrorStatus(error: unknown, fallback = 500) {
+  return error instanceof AIProviderError ? error.status : fallback;
+}
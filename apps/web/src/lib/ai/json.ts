@@ -0,0 +1,145 @@
+type ExtractOptions = {
+  // Fields to pull out with regexes when the JSON cannot be parsed at all
+  fallbackFields?: string[];
+  // Field that must be present for the manual fallback result to count
+  requiredField?: string;
+};
+
+// Escape raw control characters inside strings and drop trailing commas
+function cleanJson(json: string) {
+  return json
+    .replace(/,\s*([\}\]])/g, "$1")
+    .replace(/[\x00-\x1f]/g, (char) => {
+      if (char === "\n") return "\\n";
+      if (char === "\r") return "\\r";
+      if (char === "\t") return "\\t";
+      return "";
+    });
+}
+
+// Strip markdown code fences and bold/italic markers that models like to add
+function stripMarkdown(text: string) {
+  return text
+    .replace(/```(?:json)?[\s\n]*/gi, "")
+    .replace(/```[\s\n]*/g, "")
+    .replace(/\*\*([^*]+)\*\*/g, "$1")
+    .replace(/\*([^*]+)\*/g, "$1");
+}
+
+// Index of the bracket closing the one at startIdx, ignoring brackets inside strings; -1 if truncated
+function findClosingBracket(text: string, startIdx: number) {
+  const open = text[startIdx];
+  const close = open === "[" ? "]" : "}";
+  let depth = 0;
+  let inString = false;
+  let escapeNext = false;
+
+  for (let i = startIdx; i < text.length; i++) {
+    const char = text[i];
+
+    if (escapeNext) {
+      escapeNext = false;
+      continue;
+    }
+    if (char === "\\" && inString) {
+      escapeNext = true;
+      continue;
+    }
+    if (char === '"') {
+      inString = !inString;
+      continue;
+    }
+    if (!inString) {
+      if (char === open) depth++;
+      if (char === close) {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+// Cut a truncated object back to its last complete string value and close it
+function repairTruncatedObject(json: string) {
+  let repaired = json;
+
+  const lastCompleteQuote = repaired.lastIndexOf('",');
+  if (lastCompleteQuote > 0) {
+    repaired = repaired.substring(0, lastCompleteQuote + 1);
+  } else {
+    const lastQuote = repaired.lastIndexOf('"');
+    if (lastQuote > 0) {
+      // Only cut here if this quote ends a value, not a key
+      const beforeQuote = repaired.substring(0, lastQuote);
+      if (beforeQuote.lastIndexOf(":") > beforeQuote.lastIndexOf(",")) {
+        repaired = repaired.substring(0, lastQuote + 1);
+      }
+    }
+  }
+
+  repaired = repaired.replace(/,\s*$/, "").replace(/,\s*"[^"]*$/, "");
+  return cleanJson(`${repaired}}`);
+}
+
+// Manual field extraction as last resort fallback
+function extractFieldsManually(text: string, fields: string[], requiredField?: string) {
+  const result: Record<string, string> = {};
+
+  for (const field of fields) {
+    // Match "field": "value" pattern, handling escaped quotes
+    const pattern = new RegExp(`"${field}"\\s*:\\s*"([^"]*(?:\\\\.[^"]*)*)"`, "i");
+    const match = text.match(pattern);
+    if (match) {
+      result[field] = match[1]!.replace(/\\n/g, "\n").replace(/\\r/g, "\r");
+    }
+  }
+
+  const required = requiredField ?? fields[0];
+  return required && result[required] ? result : null;
+}
+
+// Robust JSON object extraction that handles code fences, chatter around the JSON,
+// trailing commas, raw newlines in strings and responses cut off by the token limit
+export function extractJSON(text: string, options: ExtractOptions = {}): Record<string, unknown> | null {
+  const fallback = () =>
+    options.fallbackFields ? extractFieldsManually(text, options.fallbackFields, options.requiredField) : null;
+
+  const cleanedText = stripMarkdown(text);
+  const startIdx = cleanedText.indexOf("{");
+  if (startIdx === -1) return fallback();
+
+  const endIdx = findClosingBracket(cleanedText, startIdx);
+  if (endIdx === -1) {
+    try {
+      return JSON.parse(repairTruncatedObject(cleanedText.substring(startIdx))) as Record<string, unknown>;
+    } catch {
+      return fallback();
+    }
+  }
+
+  const jsonStr = cleanJson(cleanedText.substring(startIdx, endIdx + 1));
+  try {
+    return JSON.parse(jsonStr) as Record<string, unknown>;
+  } catch {
+    return fallback();
+  }
+}
+
+// Extract the first JSON array from a model response
+export function extractJSONArray(text: string): unknown[] | null {
+  const cleanedText = stripMarkdown(text);
+  const startIdx = cleanedText.indexOf("[");
+  if (startIdx === -1) return null;
+
+  const endIdx = findClosingBracket(cleanedText, startIdx);
+  if (endIdx === -1) return null;
+
+  try {
+    const parsed = JSON.parse(cleanJson(cleanedText.substring(startIdx, endIdx + 1)));
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,30 @@
+// Inline AI commands on a text selection in the chapter editor (safe to import from client components)
+
+export const selectionActions = ["rewrite", "shorten", "expand", "tone", "showDontTell", "continue"] as const;
+
+export type SelectionAction = (typeof selectionActions)[number];
+
+export const selectionTones = ["formal", "casual", "dramatic", "humorous", "dark", "poetic"] as const;
+
+export type SelectionTone = (typeof selectionTones)[number];
+
+export type SelectionRequest = {
+  chapterId?: string;
+  action: SelectionAction;
+  tone?: SelectionTone;
+  // Selected text; empty when continuing from the cursor
+  text: string;
+  // Plain text of the paragraphs around the selection
+  before: string;
+  after: string;
+  // The selection is part of a single paragraph, so the answer must not contain block tags
+  inline: boolean;
+};
+
+export function isSelectionAction(value: unknown): value is SelectionAction {
+  return typeof value === "string" && (selectionActions as readonly string[]).includes(value);
+}
+
+export function isSelectionTone(value: unknown): value is SelectionTone {
+  return typeof value === "string" && (selectionTones as readonly string[]).includes(value);
+}
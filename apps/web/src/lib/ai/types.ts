@@ -0,0 +1,100 @@
+export const aiProviders = ["openai", "anthropic", "ollama"] as const;
+export type AIProvider = (typeof aiProviders)[number];
+
+// Display metadata for the settings forms (safe to import from client components)
+export const aiProviderOptions: Array<{
+  value: AIProvider;
+  label: string;
+  defaultEndpoint: string;
+  requiresApiKey: boolean;
+}> = [
+  { value: "openai", label: "OpenAI-compatible", defaultEndpoint: "https://api.openai.com/v1", requiresApiKey: true },
+  { value: "anthropic", label: "Anthropic (Messages API)", defaultEndpoint: "https://api.anthropic.com/v1", requiresApiKey: true },
+  { value: "ollama", label: "Ollama", defaultEndpoint: "http://localhost:11434", requiresApiKey: false },
+];
+
+export type AIConnection = {
+  provider: AIProvider;
+  apiEndpoint: string;
+  apiKey: string | null;
+  model: string;
+};
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Aborts the upstream call (e.g. when the client disconnects)
+  signal?: AbortSignal;
+  // Per-attempt timeout; for streams only until the response headers arrive
+  timeoutMs?: number;
+  // Extra attempts for rate limits, 5xx responses and network failures
+  retries?: number;
+};
+
+export type ChatUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+};
+
+export type ChatResult = {
+  text: string;
+  // Separate reasoning output of thinking models, if the provider reports it
+  reasoning?: string;
+  finishReason?: string;
+  usage?: ChatUsage;
+};
+
+export type ChatStreamChunk = {
+  text?: string;
+  finishReason?: string;
+  usage?: ChatUsage;
+  done?: boolean;
+};
+
+export function isAIProvider(value: unknown): value is AIProvider {
+  return typeof value === "string" && (aiProviders as readonly string[]).includes(value);
+}
+
+export function toAIConnection(settings: {
+  provider?: string | null;
+  apiEndpoint: string;
+  apiKey: string | null;
+  model: string;
+}): AIConnection {
+  return {
+    provider: isAIProvider(settings.provider) ? settings.provider : "openai",
+    apiEndpoint: settings.apiEndpoint.replace(/\/+$/, ""),
+    apiKey: settings.apiKey || null,
+    model: settings.model,
+  };
+}
+
+// Local providers like Ollama work without an API key
+export function isAIConfigured(settings: { provider?: string | null; apiKey: string | null } | null | undefined) {
+  if (!settings) return false;
+  const option = aiProviderOptions.find((entry) => entry.value === settings.provider);
+  return option?.requiresApiKey === false || !!settings.apiKey;
+}
+
+export type ProviderHttpRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+// One adapter per wire protocol; the client in ./client.ts handles transport, retries and timeouts
+export type AIProviderAdapter = {
+  // "sse" for server-sent events, "ndjson" for one JSON object per line
+  streamFormat: "sse" | "ndjson";
+  buildRequest(connection: AIConnection, request: ChatRequest, stream: boolean): ProviderHttpRequest;
+  parseResponse(data: unknown): ChatResult;
+  // Returns null for events that carry nothing of interest (pings, role headers, ...)
+  parseStreamChunk(event: { event: string; data: string }): ChatStreamChunk | null;
+};
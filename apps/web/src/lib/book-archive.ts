@@ -0,0 +1,944 @@
+import prisma from "@bucherstellung/db";
+import { existsSync } from "fs";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import JSZip from "jszip";
+import path from "path";
+
+import { detectMediaType } from "@/lib/book-assets";
+import { isCharacterStateEmpty, normalizeCharacterState } from "@/lib/character-arc";
+import { replaceEntityLinkIds } from "@/lib/entity-links";
+import { normalizeRelationChanges, type RelationChange } from "@/lib/relation-history";
+import { replaceSceneIds } from "@/lib/scenes";
+import { normalizeMapPoints, readPositiveNumber, serializeStoryMap, type StoryMapData } from "@/lib/story-map";
+import { normalizeStoryCalendar, parseStoryCalendar, readStoryDateInput, type StoryCalendar } from "@/lib/story-time";
+import {
+  normalizeFieldValues,
+  normalizeWorldFields,
+  parseFieldValues,
+  parseWorldFields,
+  type WorldField,
+  type WorldFieldValues,
+} from "@/lib/world-fields";
+import { isWorldLinkType, type WorldLinkData } from "@/lib/world-links";
+
+// Portable backup of a complete book: a ZIP with `book.json` plus every upload the book refers
+// to under `uploads/`. IDs in the archive only link records within the archive; an import
+// always creates fresh ones, so the same archive can be restored several times side by side.
+
+export const ARCHIVE_FORMAT = "bucherstellung-book";
+export const ARCHIVE_VERSION = 1;
+
+const MANIFEST_FILE = "book.json";
+const UPLOAD_URL_PATTERN = /\/uploads\/([A-Za-z0-9][A-Za-z0-9._-]*)/g;
+const UPLOAD_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+// Only images are restored, named after what their bytes are, never after the archive entry
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+};
+
+export class BookArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookArchiveError";
+  }
+}
+
+export type ArchiveChapter = {
+  id: string;
+  orderIndex: number;
+  title: string;
+  content: string;
+  summary: string | null;
+  recap: string | null;
+  summarizedAt: string | null;
+  summaryStale: boolean;
+  notes: string | null;
+  wordCount: number;
+  status: string;
+  act: number | null;
+  storyStart: string | null;
+  storyEnd: string | null;
+};
+
+export type ArchiveChapterComment = {
+  id: string;
+  chapterId: string;
+  parentId: string | null;
+  anchorId: string | null;
+  author: string;
+  content: string;
+  quote: string | null;
+  resolved: boolean;
+  resolvedAt: string | null;
+  createdAt: string;
+};
+
+export type ArchiveScene = {
+  id: string;
+  chapterId: string;
+  orderIndex: number;
+  title: string;
+  summary: string | null;
+  povCharacterId: string | null;
+  locationId: string | null;
+  timeMarker: string | null;
+  goal: string | null;
+  conflict: string | null;
+  outcome: string | null;
+  storyStart: string | null;
+  storyEnd: string | null;
+  wordCount: number;
+};
+
+export type ArchiveCharacter = {
+  id: string;
+  name: string;
+  aliases: string | null;
+  pronouns: string | null;
+  role: string;
+  description: string | null;
+  backstory: string | null;
+  personality: string | null;
+  appearance: string | null;
+  motivation: string | null;
+  arc: string | null;
+  notes: string | null;
+  imageUrl: string | null;
+  deathChapterId: string | null;
+};
+
+export type ArchivePlotPoint = {
+  id: string;
+  title: string;
+  description: string | null;
+  type: string;
+  orderIndex: number;
+  storyStart: string | null;
+  storyEnd: string | null;
+  chapterIds: string[];
+  characters: Array<{ characterId: string; role: string }>;
+};
+
+export type ArchiveCharacterState = {
+  characterId: string;
+  chapterId: string;
+  mood: number | null;
+  emotion: string | null;
+  goal: string | null;
+  knowledge: string | null;
+  relationships: string | null;
+  source: string;
+};
+
+export type ArchiveWorldElement = {
+  id: string;
+  name: string;
+  type: string;
+  description: string | null;
+  imageUrl: string | null;
+  parentId: string | null;
+  fields: WorldFieldValues;
+};
+
+export type BookArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  book: {
+    title: string;
+    author: string | null;
+    description: string | null;
+    genre: string | null;
+    targetAudience: string | null;
+    writingStyle: string | null;
+    language: string;
+    coverUrl: string | null;
+    hideCoverText: boolean;
+    autoDetectPresence: boolean;
+  };
+  chapters: ArchiveChapter[];
+  chapterComments: ArchiveChapterComment[];
+  scenes: ArchiveScene[];
+  characters: ArchiveCharacter[];
+  characterRelations: Array<{
+    characterId: string;
+    relatedCharacterId: string;
+    relationType: string;
+    description: string | null;
+    changes: RelationChange[];
+  }>;
+  chapterCharacters: Array<{ chapterId: string; characterId: string; prominence: string; mentionCount: number; source: string }>;
+  characterStates: ArchiveCharacterState[];
+  plotPoints: ArchivePlotPoint[];
+  worldElements: ArchiveWorldElement[];
+  worldLinks: Array<Omit<WorldLinkData, "id">>;
+  worldFieldTemplates: Array<{ type: string; fields: WorldField[] }>;
+  storyCalendar: StoryCalendar | null;
+  // Pins, regions and routes refer to world elements by their archive id
+  storyMap: StoryMapData | null;
+  // The API key never leaves the machine; it has to be entered again after an import
+  aiSettings: {
+    provider: string;
+    apiEndpoint: string;
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    systemPrompt: string | null;
+    contextWindow: number | null;
+    verbatimChapters: number;
+  } | null;
+  // Upload file names stored under uploads/ in the ZIP
+  files: string[];
+};
+
+export type ArchiveImportResult = {
+  bookId: string;
+  title: string;
+  counts: {
+    chapters: number;
+    characters: number;
+    plotPoints: number;
+    worldElements: number;
+    files: number;
+  };
+};
+
+function uploadsDir() {
+  return path.join(process.cwd(), "public", "uploads");
+}
+
+function collectUploadNames(values: Array<string | null | undefined>) {
+  const names = new Set<string>();
+  for (const value of values) {
+    if (!value) continue;
+    for (const match of value.matchAll(UPLOAD_URL_PATTERN)) {
+      names.add(match[1]!);
+    }
+  }
+  return names;
+}
+
+export async function exportBookArchive(bookId: string): Promise<{ title: string; data: Buffer } | null> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    include: {
+      chapters: {
+        orderBy: { orderIndex: "asc" },
+        include: {
+          chapterCharacters: true,
+          comments: { orderBy: { createdAt: "asc" } },
+          scenes: { orderBy: { orderIndex: "asc" } },
+        },
+      },
+      characters: {
+        orderBy: { name: "asc" },
+        include: { relationsFrom: { include: { changes: true } }, states: true },
+      },
+      plotPoints: {
+        orderBy: { orderIndex: "asc" },
+        include: { chapterPlotPoints: true, characters: true },
+      },
+      worldElements: {
+        orderBy: { name: "asc" },
+      },
+      worldLinks: {
+        orderBy: { createdAt: "asc" },
+      },
+      worldFieldTemplates: true,
+      aiSettings: true,
+      storyCalendar: true,
+      storyMap: {
+        include: { pins: true, regions: true, routes: true },
+      },
+    },
+  });
+
+  if (!book) return null;
+
+  const uploadNames = collectUploadNames([
+    book.coverUrl,
+    ...book.chapters.map((chapter) => chapter.content),
+    ...book.characters.map((character) => character.imageUrl),
+    ...book.worldElements.map((element) => element.imageUrl),
+    book.storyMap?.imageUrl,
+  ]);
+
+  const zip = new JSZip();
+  const files: string[] = [];
+  for (const name of uploadNames) {
+    const filePath = path.join(uploadsDir(), name);
+    // References to files that were deleted in the meantime are kept as they are
+    if (!existsSync(filePath)) continue;
+    zip.file(`uploads/${name}`, await readFile(filePath));
+    files.push(name);
+  }
+
+  const archive: BookArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    book: {
+      title: book.title,
+      author: book.author,
+      description: book.description,
+      genre: book.genre,
+      targetAudience: book.targetAudience,
+      writingStyle: book.writingStyle,
+      language: book.language,
+      coverUrl: book.coverUrl,
+      hideCoverText: book.hideCoverText,
+      autoDetectPresence: book.autoDetectPresence,
+    },
+    chapters: book.chapters.map((chapter) => ({
+      id: chapter.id,
+      orderIndex: chapter.orderIndex,
+      title: chapter.title,
+      content: chapter.content,
+      summary: chapter.summary,
+      recap: chapter.recap,
+      summarizedAt: chapter.summarizedAt?.toISOString() ?? null,
+      summaryStale: chapter.summaryStale,
+      notes: chapter.notes,
+      wordCount: chapter.wordCount,
+      status: chapter.status,
+      act: chapter.act,
+      storyStart: chapter.storyStart,
+      storyEnd: chapter.storyEnd,
+    })),
+    chapterComments: book.chapters.flatMap((chapter) =>
+      chapter.comments.map((comment) => ({
+        id: comment.id,
+        chapterId: comment.chapterId,
+        parentId: comment.parentId,
+        anchorId: comment.anchorId,
+        author: comment.author,
+        content: comment.content,
+        quote: comment.quote,
+        resolved: comment.resolved,
+        resolvedAt: comment.resolvedAt?.toISOString() ?? null,
+        createdAt: comment.createdAt.toISOString(),
+      }))
+    ),
+    scenes: book.chapters.flatMap((chapter) =>
+      chapter.scenes.map((scene) => ({
+        id: scene.id,
+        chapterId: scene.chapterId,
+        orderIndex: scene.orderIndex,
+        title: scene.title,
+        summary: scene.summary,
+        povCharacterId: scene.povCharacterId,
+        locationId: scene.locationId,
+        timeMarker: scene.timeMarker,
+        goal: scene.goal,
+        conflict: scene.conflict,
+        outcome: scene.outcome,
+        storyStart: scene.storyStart,
+        storyEnd: scene.storyEnd,
+        wordCount: scene.wordCount,
+      }))
+    ),
+    characters: book.characters.map((character) => ({
+      id: character.id,
+      name: character.name,
+      aliases: character.aliases,
+      pronouns: character.pronouns,
+      role: character.role,
+      description: character.description,
+      backstory: character.backstory,
+      personality: character.personality,
+      appearance: character.appearance,
+      motivation: character.motivation,
+      arc: character.arc,
+      notes: character.notes,
+      imageUrl: character.imageUrl,
+      deathChapterId: character.deathChapterId,
+    })),
+    characterRelations: book.characters.flatMap((character) =>
+      character.relationsFrom.map((relation) => ({
+        characterId: relation.characterId,
+        relatedCharacterId: relation.relatedCharacterId,
+        relationType: relation.relationType,
+        description: relation.description,
+        changes: relation.changes.map((change) => ({
+          chapterId: change.chapterId,
+          relationType: change.relationType,
+          description: change.description,
+        })),
+      }))
+    ),
+    chapterCharacters: book.chapters.flatMap((chapter) =>
+      chapter.chapterCharacters.map((link) => ({
+        chapterId: link.chapterId,
+        characterId: link.characterId,
+        prominence: link.prominence,
+        mentionCount: link.mentionCount,
+        source: link.source,
+      }))
+    ),
+    characterStates: book.characters.flatMap((character) =>
+      character.states.map((state) => ({
+        characterId: state.characterId,
+        chapterId: state.chapterId,
+        mood: state.mood,
+        emotion: state.emotion,
+        goal: state.goal,
+        knowledge: state.knowledge,
+        relationships: state.relationships,
+        source: state.source,
+      }))
+    ),
+    plotPoints: book.plotPoints.map((plotPoint) => ({
+      id: plotPoint.id,
+      title: plotPoint.title,
+      description: plotPoint.description,
+      type: plotPoint.type,
+      orderIndex: plotPoint.orderIndex,
+      storyStart: plotPoint.storyStart,
+      storyEnd: plotPoint.storyEnd,
+      chapterIds: plotPoint.chapterPlotPoints.map((link) => link.chapterId),
+      characters: plotPoint.characters.map((link) => ({ characterId: link.characterId, role: link.role })),
+    })),
+    worldElements: book.worldElements.map((element) => ({
+      id: element.id,
+      name: element.name,
+      type: element.type,
+      description: element.description,
+      imageUrl: element.imageUrl,
+      parentId: element.parentId,
+      fields: parseFieldValues(element.fields),
+    })),
+    worldLinks: book.worldLinks.map((link) => ({
+      linkType: link.linkType,
+      description: link.description,
+      fromElementId: link.fromElementId,
+      fromCharacterId: link.fromCharacterId,
+      toElementId: link.toElementId,
+    })),
+    worldFieldTemplates: book.worldFieldTemplates.map((template) => ({
+      type: template.type,
+      fields: parseWorldFields(template.fields),
+    })),
+    storyCalendar: book.storyCalendar && parseStoryCalendar(book.storyCalendar, "de"),
+    storyMap: book.storyMap && serializeStoryMap(book.storyMap),
+    aiSettings: book.aiSettings && {
+      provider: book.aiSettings.provider,
+      apiEndpoint: book.aiSettings.apiEndpoint,
+      model: book.aiSettings.model,
+      temperature: book.aiSettings.temperature,
+      maxTokens: book.aiSettings.maxTokens,
+      systemPrompt: book.aiSettings.systemPrompt,
+      contextWindow: book.aiSettings.contextWindow,
+      verbatimChapters: book.aiSettings.verbatimChapters,
+    },
+    files,
+  };
+
+  zip.file(MANIFEST_FILE, JSON.stringify(archive, null, 2));
+
+  const data = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  return { title: book.title, data };
+}
+
+// ----- Reading archives -----
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function records(value: unknown): UnknownRecord[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function text(value: unknown, fallback = ""): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function optionalDate(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function storyDate(value: unknown): string | null {
+  return readStoryDateInput(value) ?? null;
+}
+
+async function readManifest(zip: JSZip): Promise<UnknownRecord> {
+  const entry = zip.file(MANIFEST_FILE);
+  if (!entry) {
+    throw new BookArchiveError("Archive does not contain a book.json");
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await entry.async("string"));
+  } catch {
+    throw new BookArchiveError("book.json is not valid JSON");
+  }
+
+  if (!isRecord(manifest) || manifest.format !== ARCHIVE_FORMAT || !isRecord(manifest.book)) {
+    throw new BookArchiveError("Not a book archive");
+  }
+  const version = num(manifest.version, 0);
+  if (version < 1 || version > ARCHIVE_VERSION) {
+    throw new BookArchiveError(`Unsupported archive version ${String(manifest.version)}`);
+  }
+  return manifest;
+}
+
+// Copy the archived uploads under new names, so restoring never overwrites existing files
+async function restoreUploads(zip: JSZip, names: string[]) {
+  const urlMap = new Map<string, string>();
+  const written: string[] = [];
+
+  if (names.length > 0 && !existsSync(uploadsDir())) {
+    await mkdir(uploadsDir(), { recursive: true });
+  }
+
+  try {
+    for (const name of names) {
+      if (!UPLOAD_NAME_PATTERN.test(name)) continue;
+      const entry = zip.file(`uploads/${name}`);
+      if (!entry) continue;
+
+      const data = await entry.async("nodebuffer");
+      const mediaType = detectMediaType(data);
+      const extension = mediaType ? UPLOAD_EXTENSIONS[mediaType] : undefined;
+      if (!extension) continue;
+
+      const filename = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}${extension}`;
+      const filePath = path.join(uploadsDir(), filename);
+      await writeFile(filePath, data);
+      written.push(filePath);
+      urlMap.set(`/uploads/${name}`, `/uploads/${filename}`);
+    }
+  } catch (error) {
+    await removeFiles(written);
+    throw error;
+  }
+
+  return { urlMap, written };
+}
+
+async function removeFiles(filePaths: string[]) {
+  await Promise.all(filePaths.map((filePath) => unlink(filePath).catch(() => undefined)));
+}
+
+export async function importBookArchive(data: ArrayBuffer | Buffer, options: { title?: string } = {}): Promise<ArchiveImportResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new BookArchiveError("File is not a valid ZIP archive");
+  }
+
+  const manifest = await readManifest(zip);
+  const book = manifest.book as UnknownRecord;
+  const chapters = records(manifest.chapters);
+  const characters = records(manifest.characters);
+  const plotPoints = records(manifest.plotPoints);
+  const worldElements = records(manifest.worldElements);
+  const aiSettings = isRecord(manifest.aiSettings) ? manifest.aiSettings : null;
+  const storyCalendar = isRecord(manifest.storyCalendar) ? normalizeStoryCalendar(manifest.storyCalendar) : null;
+  const fileNames = Array.isArray(manifest.files) ? manifest.files.filter((name): name is string => typeof name === "string") : [];
+
+  const { urlMap, written } = await restoreUploads(zip, fileNames);
+  const rewriteUrls = <T extends string | null>(value: T): T =>
+    (value?.replace(UPLOAD_URL_PATTERN, (url) => urlMap.get(url) ?? url) ?? value) as T;
+
+  try {
+    const title = options.title?.trim() || text(book.title).trim() || "Importiertes Buch";
+
+    const bookId = await prisma.$transaction(async (tx) => {
+      const created = await tx.book.create({
+        data: {
+          title,
+          author: optionalText(book.author),
+          description: optionalText(book.description),
+          genre: optionalText(book.genre),
+          targetAudience: optionalText(book.targetAudience),
+          writingStyle: optionalText(book.writingStyle),
+          language: text(book.language, "de"),
+          coverUrl: rewriteUrls(optionalText(book.coverUrl)),
+          hideCoverText: book.hideCoverText === true,
+          autoDetectPresence: book.autoDetectPresence === true,
+          aiSettings: {
+            create: aiSettings
+              ? {
+                  provider: text(aiSettings.provider, "openai"),
+                  apiEndpoint: text(aiSettings.apiEndpoint, "https://api.openai.com/v1"),
+                  model: text(aiSettings.model, "gpt-4"),
+                  temperature: num(aiSettings.temperature, 0.7),
+                  maxTokens: num(aiSettings.maxTokens, 2000),
+                  systemPrompt: optionalText(aiSettings.systemPrompt),
+                  contextWindow: typeof aiSettings.contextWindow === "number" ? aiSettings.contextWindow : null,
+                  verbatimChapters: num(aiSettings.verbatimChapters, 2),
+                }
+              : {},
+          },
+          ...(storyCalendar && typeof storyCalendar !== "string" && {
+            storyCalendar: {
+              create: {
+                name: storyCalendar.name,
+                months: JSON.stringify(storyCalendar.months),
+                eras: JSON.stringify(storyCalendar.eras),
+                hoursPerDay: storyCalendar.hoursPerDay,
+              },
+            },
+          }),
+        },
+        select: { id: true },
+      });
+
+      // Archive IDs -> freshly created IDs, for resolving the links below
+      const chapterIds = new Map<string, string>();
+      const chapterContents = new Map<string, string>();
+      const characterIds = new Map<string, string>();
+      const worldElementIds = new Map<string, string>();
+      const plotPointIds = new Map<string, string>();
+
+      for (const [index, chapter] of chapters.entries()) {
+        const createdChapter = await tx.chapter.create({
+          data: {
+            bookId: created.id,
+            orderIndex: num(chapter.orderIndex, index),
+            title: text(chapter.title, `Kapitel ${index + 1}`),
+            content: rewriteUrls(text(chapter.content)),
+            summary: optionalText(chapter.summary),
+            recap: optionalText(chapter.recap),
+            summarizedAt: optionalDate(chapter.summarizedAt),
+            summaryStale: chapter.summaryStale === true,
+            notes: optionalText(chapter.notes),
+            wordCount: num(chapter.wordCount, 0),
+            status: text(chapter.status, "draft"),
+            act: typeof chapter.act === "number" ? chapter.act : null,
+            storyStart: storyDate(chapter.storyStart),
+            storyEnd: storyDate(chapter.storyEnd),
+          },
+          select: { id: true },
+        });
+        chapterIds.set(text(chapter.id), createdChapter.id);
+        chapterContents.set(createdChapter.id, rewriteUrls(text(chapter.content)));
+      }
+
+      // Threads before their replies; anchor ids stay as they are, since they only have to match
+      // the anchors in the chapter text
+      const commentIds = new Map<string, string>();
+      const comments = records(manifest.chapterComments).sort((a, b) => Number(!!a.parentId) - Number(!!b.parentId));
+      for (const comment of comments) {
+        const chapterId = chapterIds.get(text(comment.chapterId));
+        const parentId = comment.parentId ? commentIds.get(text(comment.parentId)) : null;
+        if (!chapterId || parentId === undefined) continue;
+        const createdComment = await tx.chapterComment.create({
+          data: {
+            chapterId,
+            parentId,
+            anchorId: parentId ? null : optionalText(comment.anchorId),
+            author: text(comment.author, "Unknown"),
+            content: text(comment.content),
+            quote: optionalText(comment.quote),
+            resolved: comment.resolved === true,
+            resolvedAt: optionalDate(comment.resolvedAt),
+            createdAt: optionalDate(comment.createdAt) ?? undefined,
+          },
+          select: { id: true },
+        });
+        commentIds.set(text(comment.id), createdComment.id);
+      }
+
+      for (const character of characters) {
+        const createdCharacter = await tx.character.create({
+          data: {
+            bookId: created.id,
+            name: text(character.name, "Unbenannt"),
+            aliases: optionalText(character.aliases),
+            pronouns: optionalText(character.pronouns),
+            role: text(character.role, "supporting"),
+            description: optionalText(character.description),
+            backstory: optionalText(character.backstory),
+            personality: optionalText(character.personality),
+            appearance: optionalText(character.appearance),
+            motivation: optionalText(character.motivation),
+            arc: optionalText(character.arc),
+            notes: optionalText(character.notes),
+            imageUrl: rewriteUrls(optionalText(character.imageUrl)),
+            deathChapterId: chapterIds.get(text(character.deathChapterId)) ?? null,
+          },
+          select: { id: true },
+        });
+        characterIds.set(text(character.id), createdCharacter.id);
+      }
+
+      for (const relation of records(manifest.characterRelations)) {
+        const characterId = characterIds.get(text(relation.characterId));
+        const relatedCharacterId = characterIds.get(text(relation.relatedCharacterId));
+        if (!characterId || !relatedCharacterId || characterId === relatedCharacterId) continue;
+        await tx.characterRelation.upsert({
+          where: { characterId_relatedCharacterId: { characterId, relatedCharacterId } },
+          create: {
+            characterId,
+            relatedCharacterId,
+            relationType: text(relation.relationType, "friend"),
+            description: optionalText(relation.description),
+            changes: {
+              create: normalizeRelationChanges(relation.changes).flatMap((change) => {
+                const chapterId = chapterIds.get(change.chapterId);
+                return chapterId ? [{ ...change, chapterId }] : [];
+              }),
+            },
+          },
+          update: {},
+        });
+      }
+
+      for (const link of records(manifest.chapterCharacters)) {
+        const chapterId = chapterIds.get(text(link.chapterId));
+        const characterId = characterIds.get(text(link.characterId));
+        if (!chapterId || !characterId) continue;
+        await tx.chapterCharacter.upsert({
+          where: { chapterId_characterId: { chapterId, characterId } },
+          create: {
+            chapterId,
+            characterId,
+            prominence: text(link.prominence, "mentioned"),
+            mentionCount: num(link.mentionCount, 0),
+            source: text(link.source, "manual"),
+          },
+          update: {},
+        });
+      }
+
+      for (const state of records(manifest.characterStates)) {
+        const chapterId = chapterIds.get(text(state.chapterId));
+        const characterId = characterIds.get(text(state.characterId));
+        if (!chapterId || !characterId) continue;
+        const fields = normalizeCharacterState(state);
+        if (isCharacterStateEmpty(fields)) continue;
+        await tx.characterState.upsert({
+          where: { characterId_chapterId: { characterId, chapterId } },
+          create: { characterId, chapterId, ...fields, source: text(state.source, "manual") },
+          update: {},
+        });
+      }
+
+      for (const [index, plotPoint] of plotPoints.entries()) {
+        const linkedChapters = new Set(
+          (Array.isArray(plotPoint.chapterIds) ? plotPoint.chapterIds : [])
+            .map((id) => chapterIds.get(text(id)))
+            .filter((id): id is string => !!id)
+        );
+        const linkedCharacters = new Map<string, string>();
+        for (const link of records(plotPoint.characters)) {
+          const characterId = characterIds.get(text(link.characterId));
+          if (characterId) linkedCharacters.set(characterId, text(link.role, "involved"));
+        }
+
+        const createdPlotPoint = await tx.plotPoint.create({
+          data: {
+            bookId: created.id,
+            title: text(plotPoint.title, "Unbenannt"),
+            description: optionalText(plotPoint.description),
+            type: text(plotPoint.type, "event"),
+            orderIndex: num(plotPoint.orderIndex, index),
+            storyStart: storyDate(plotPoint.storyStart),
+            storyEnd: storyDate(plotPoint.storyEnd),
+            chapterPlotPoints: {
+              create: [...linkedChapters].map((chapterId) => ({ chapterId })),
+            },
+            characters: {
+              create: [...linkedCharacters].map(([characterId, role]) => ({ characterId, role })),
+            },
+          },
+          select: { id: true },
+        });
+        plotPointIds.set(text(plotPoint.id), createdPlotPoint.id);
+      }
+
+      for (const element of worldElements) {
+        const createdElement = await tx.worldElement.create({
+          data: {
+            bookId: created.id,
+            name: text(element.name, "Unbenannt"),
+            type: text(element.type, "location"),
+            description: optionalText(element.description),
+            imageUrl: rewriteUrls(optionalText(element.imageUrl)),
+            fields: JSON.stringify(normalizeFieldValues(element.fields)),
+          },
+          select: { id: true },
+        });
+        worldElementIds.set(text(element.id), createdElement.id);
+      }
+
+      for (const template of records(manifest.worldFieldTemplates)) {
+        const fields = normalizeWorldFields(template.fields);
+        const type = text(template.type);
+        if (!type || typeof fields === "string" || fields.length === 0) continue;
+        await tx.worldFieldTemplate.upsert({
+          where: { bookId_type: { bookId: created.id, type } },
+          create: { bookId: created.id, type, fields: JSON.stringify(fields) },
+          update: {},
+        });
+      }
+
+      // Parents can come later in the list, so the hierarchy is restored once all elements exist
+      for (const element of worldElements) {
+        const id = worldElementIds.get(text(element.id));
+        const parentId = worldElementIds.get(text(element.parentId));
+        if (!id || !parentId || id === parentId) continue;
+        await tx.worldElement.update({ where: { id }, data: { parentId } });
+      }
+
+      for (const link of records(manifest.worldLinks)) {
+        const toElementId = worldElementIds.get(text(link.toElementId));
+        const fromElementId = worldElementIds.get(text(link.fromElementId));
+        const fromCharacterId = characterIds.get(text(link.fromCharacterId));
+        if (!toElementId || !fromElementId === !fromCharacterId || fromElementId === toElementId) continue;
+        await tx.worldLink.create({
+          data: {
+            bookId: created.id,
+            linkType: isWorldLinkType(link.linkType) ? link.linkType : "related_to",
+            description: optionalText(link.description),
+            fromElementId: fromElementId ?? null,
+            fromCharacterId: fromCharacterId ?? null,
+            toElementId,
+          },
+        });
+      }
+
+      const storyMap = isRecord(manifest.storyMap) ? manifest.storyMap : null;
+      const imageWidth = num(storyMap?.imageWidth, 0);
+      const imageHeight = num(storyMap?.imageHeight, 0);
+      if (storyMap && text(storyMap.imageUrl) && imageWidth > 0 && imageHeight > 0) {
+        const size = { imageWidth, imageHeight };
+        const points = (value: unknown) => {
+          const normalized = normalizeMapPoints(value ?? [], size);
+          return typeof normalized === "string" ? [] : normalized;
+        };
+        const positive = (value: unknown) => readPositiveNumber(value) ?? null;
+
+        const map = await tx.storyMap.create({
+          data: {
+            bookId: created.id,
+            imageUrl: rewriteUrls(text(storyMap.imageUrl)),
+            imageWidth: Math.round(imageWidth),
+            imageHeight: Math.round(imageHeight),
+            distanceUnit: text(storyMap.distanceUnit, "km"),
+            scale: positive(storyMap.scale),
+            travelPerDay: positive(storyMap.travelPerDay),
+          },
+          select: { id: true },
+        });
+
+        const pinned = new Set<string>();
+        for (const pin of records(storyMap.pins)) {
+          const elementId = worldElementIds.get(text(pin.elementId));
+          const [point] = points([pin]);
+          if (!elementId || !point || pinned.has(elementId)) continue;
+          pinned.add(elementId);
+          await tx.mapPin.create({ data: { mapId: map.id, elementId, ...point } });
+        }
+
+        for (const region of records(storyMap.regions)) {
+          const outline = points(region.points);
+          if (outline.length < 3) continue;
+          await tx.mapRegion.create({
+            data: {
+              mapId: map.id,
+              name: text(region.name, "Region"),
+              color: text(region.color, "#6366f1"),
+              points: JSON.stringify(outline),
+              elementId: worldElementIds.get(text(region.elementId)) ?? null,
+            },
+          });
+        }
+
+        for (const route of records(storyMap.routes)) {
+          const fromElementId = worldElementIds.get(text(route.fromElementId));
+          const toElementId = worldElementIds.get(text(route.toElementId));
+          if (!fromElementId || !toElementId || fromElementId === toElementId) continue;
+          await tx.mapRoute.create({
+            data: {
+              mapId: map.id,
+              name: text(route.name),
+              fromElementId,
+              toElementId,
+              points: JSON.stringify(points(route.points)),
+              distance: positive(route.distance),
+              travelHours: positive(route.travelHours),
+            },
+          });
+        }
+      }
+
+      // Scene breaks in the chapter text carry the scene id, so they are pointed at the new scenes
+      const sceneIds = new Map<string, string>();
+      for (const [index, scene] of records(manifest.scenes).entries()) {
+        const chapterId = chapterIds.get(text(scene.chapterId));
+        if (!chapterId) continue;
+        const createdScene = await tx.scene.create({
+          data: {
+            chapterId,
+            orderIndex: num(scene.orderIndex, index),
+            title: text(scene.title),
+            summary: optionalText(scene.summary),
+            povCharacterId: characterIds.get(text(scene.povCharacterId)) ?? null,
+            locationId: worldElementIds.get(text(scene.locationId)) ?? null,
+            timeMarker: optionalText(scene.timeMarker),
+            goal: optionalText(scene.goal),
+            conflict: optionalText(scene.conflict),
+            outcome: optionalText(scene.outcome),
+            storyStart: storyDate(scene.storyStart),
+            storyEnd: storyDate(scene.storyEnd),
+            wordCount: num(scene.wordCount, 0),
+          },
+          select: { id: true },
+        });
+        sceneIds.set(text(scene.id), createdScene.id);
+      }
+
+      for (const [chapterId, content] of chapterContents) {
+        const rewritten = replaceEntityLinkIds(replaceSceneIds(content, sceneIds), {
+          character: characterIds,
+          world: worldElementIds,
+          plot: plotPointIds,
+        });
+        if (rewritten === content) continue;
+        await tx.chapter.update({
+          where: { id: chapterId },
+          data: { content: rewritten },
+        });
+      }
+
+      return created.id;
+    }, { timeout: 60_000 });
+
+    return {
+      bookId,
+      title,
+      counts: {
+        chapters: chapters.length,
+        characters: characters.length,
+        plotPoints: plotPoints.length,
+        worldElements: worldElements.length,
+        files: urlMap.size,
+      },
+    };
+  } catch (error) {
+    // Nothing of a failed import stays behind
+    await removeFiles(written);
+    throw error;
+  }
+}
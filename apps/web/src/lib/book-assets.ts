@@ -0,0 +1,41 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+
+// Images referenced from chapter content, read on the server for the exporters. Only uploads of
+// this app and inline data URLs are resolved; remote images are left out of exports.
+
+export type BookImage = {
+  data: Uint8Array;
+  mediaType: string;
+};
+
+export function detectMediaType(data: Uint8Array): string | null {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return "image/gif";
+  if (data[8] === 0x57 && data[9] === 0x45 && data[10] === 0x42 && data[11] === 0x50) return "image/webp";
+  return null;
+}
+
+export async function readBookImage(src: string): Promise<BookImage | null> {
+  try {
+    const dataUrl = /^data:(image\/[a-z+.-]+);base64,(.*)$/i.exec(src);
+    if (dataUrl) {
+      const data = new Uint8Array(Buffer.from(dataUrl[2]!, "base64"));
+      return { data, mediaType: detectMediaType(data) ?? dataUrl[1]!.toLowerCase() };
+    }
+
+    const upload = /^\/uploads\/([A-Za-z0-9][A-Za-z0-9._-]*)$/.exec(src.split("?")[0]!);
+    if (!upload) return null;
+    const filePath = path.join(process.cwd(), "public", "uploads", upload[1]!);
+    if (!existsSync(filePath)) return null;
+
+    const data = new Uint8Array(await readFile(filePath));
+    const mediaType = detectMediaType(data);
+    return mediaType ? { data, mediaType } : null;
+  } catch (error) {
+    console.error("Failed to read image:", src, error);
+    return null;
+  }
+}
@@ -0,0 +1,87 @@
+import { parseTag } from "@/lib/html-blocks";
+import { TAG_PATTERN } from "@/lib/html-text";
+import { createChangeId } from "@/lib/track-changes";
+
+// Comment threads on text ranges of a chapter (safe to import from client components). The
+// commented text carries a <span data-comment-id> anchor in the chapter HTML, so the range moves
+// along with every edit; the thread itself lives in the database and refers to the anchor id.
+
+export const commentFilters = ["open", "resolved", "all"] as const;
+
+export type CommentFilter = (typeof commentFilters)[number];
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Anchor ids end up in CSS selectors and attribute values, so only plain ids are accepted
+const ANCHOR_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type ChapterCommentData = {
+  id: string;
+  parentId: string | null;
+  anchorId: string | null;
+  author: string;
+  content: string;
+  quote: string | null;
+  resolved: boolean;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CommentThread = ChapterCommentData & {
+  replies: ChapterCommentData[];
+};
+
+export function createCommentAnchorId() {
+  return createChangeId();
+}
+
+export function isCommentAnchorId(value: unknown): value is string {
+  return typeof value === "string" && ANCHOR_ID_PATTERN.test(value);
+}
+
+// Top-level comments with their replies, oldest first
+export function buildCommentThreads(comments: ChapterCommentData[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) threads.set(comment.id, { ...comment, replies: [] });
+  }
+  for (const comment of comments) {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment);
+  }
+
+  const byDate = (a: ChapterCommentData, b: ChapterCommentData) => a.createdAt.localeCompare(b.createdAt);
+  const sorted = [...threads.values()].sort(byDate);
+  sorted.forEach((thread) => thread.replies.sort(byDate));
+  return sorted;
+}
+
+export function matchesCommentFilter(thread: CommentThread, filter: CommentFilter) {
+  return filter === "all" || thread.resolved === (filter === "resolved");
+}
+
+// Anchor ids present in chapter HTML
+export function findCommentAnchorIds(html: string) {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(/<span\b[^>]*\bdata-comment-id="([^"]+)"/gi)) {
+    ids.add(match[1]!);
+  }
+  return ids;
+}
+
+// Chapter HTML without comment anchors, for exports that are read rather than reviewed
+export function stripCommentAnchors(html: string) {
+  if (!html.includes("data-comment-id")) return html;
+
+  // One entry per open <span>: whether it is an anchor and gets dropped with its closing tag
+  const spans: boolean[] = [];
+  return html.replace(TAG_PATTERN, (value) => {
+    const tag = parseTag(value);
+    if (tag?.name !== "span") return value;
+    if (tag.closing) return spans.pop() ? "" : value;
+
+    const isAnchor = "data-comment-id" in tag.attributes;
+    spans.push(isAnchor);
+    return isAnchor ? "" : value;
+  });
+}
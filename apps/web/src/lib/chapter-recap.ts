@@ -0,0 +1,70 @@
+// Structured recap of a written chapter, stored as JSON in Chapter.recap
+export type ChapterRecap = {
+  events: string[];
+  characterChanges: string[];
+  items: string[];
+  openThreads: string[];
+};
+
+export const recapSections = ["events", "characterChanges", "items", "openThreads"] as const;
+
+export type RecapSection = (typeof recapSections)[number];
+
+// Headings used when the recap is handed to the model as continuity facts
+const promptHeadings: Record<RecapSection, string> = {
+  events: "Ereignisse",
+  characterChanges: "Veränderungen der Charaktere",
+  items: "Gegenstände (erworben, verloren, weitergegeben)",
+  openThreads: "Offene Handlungsfäden",
+};
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === "string") {
+    return value.trim() ? [value.trim()] : [];
+  }
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (typeof entry === "string" ? entry : entry ? JSON.stringify(entry) : ""))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Coerce whatever the model returned into a recap with string lists only
+export function normalizeRecap(raw: Record<string, unknown>): ChapterRecap {
+  return {
+    events: toStringList(raw.events),
+    characterChanges: toStringList(raw.characterChanges),
+    items: toStringList(raw.items),
+    openThreads: toStringList(raw.openThreads),
+  };
+}
+
+export function parseRecap(value: string | null | undefined): ChapterRecap | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? normalizeRecap(parsed) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isRecapEmpty(recap: ChapterRecap | null) {
+  return !recap || recapSections.every((section) => recap[section].length === 0);
+}
+
+// Summary text followed by the recap lists, as used for previous chapters in prompts
+export function formatSummaryWithRecap(summary: string | null, recap: string | null) {
+  const parsed = parseRecap(recap);
+  const parts = summary?.trim() ? [summary.trim()] : [];
+
+  if (parsed) {
+    for (const section of recapSections) {
+      if (parsed[section].length > 0) {
+        parts.push(`${promptHeadings[section]}:\n${parsed[section].map((entry) => `- ${entry}`).join("\n")}`);
+      }
+    }
+  }
+
+  return parts.length > 0 ? parts.join("\n") : null;
+}
@@ -0,0 +1,89 @@
+import prisma from "@bucherstellung/db";
+
+import { acceptTrackedChangesHtml } from "@/lib/track-changes";
+
+export const revisionReasons = ["manual", "autosave", "ai_insert", "restore", "replace", "scene_move"] as const;
+
+export type RevisionReason = (typeof revisionReasons)[number];
+
+// Autosaves only leave a snapshot behind if the last one is older than this
+export const AUTOSAVE_REVISION_INTERVAL_MS = 10 * 60 * 1000;
+
+// Oldest autosave snapshots beyond this count are pruned per chapter
+export const MAX_AUTOSAVE_REVISIONS = 50;
+
+export function isRevisionReason(value: unknown): value is RevisionReason {
+  return revisionReasons.includes(value as RevisionReason);
+}
+
+// Words of the chapter as it reads with all tracked changes accepted
+export function countWords(html: string) {
+  return acceptTrackedChangesHtml(html)
+    .replace(/<[^>]*>/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 0).length;
+}
+
+type Snapshot = {
+  title: string;
+  content: string;
+};
+
+// Store a snapshot unless it would duplicate the latest revision of the chapter
+export async function createChapterRevision(chapterId: string, snapshot: Snapshot, reason: RevisionReason) {
+  const latest = await prisma.chapterRevision.findFirst({
+    where: { chapterId },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, title: true, content: true },
+  });
+
+  if (latest && latest.content === snapshot.content && latest.title === snapshot.title) {
+    return null;
+  }
+
+  const revision = await prisma.chapterRevision.create({
+    data: {
+      chapterId,
+      title: snapshot.title,
+      content: snapshot.content,
+      wordCount: countWords(snapshot.content),
+      reason,
+    },
+  });
+
+  if (reason === "autosave") {
+    await pruneAutosaveRevisions(chapterId);
+  }
+
+  return revision;
+}
+
+// Decide whether an autosave should keep the previous state of the chapter
+export async function isAutosaveRevisionDue(chapterId: string) {
+  const latest = await prisma.chapterRevision.findFirst({
+    where: { chapterId },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+
+  if (!latest) {
+    return true;
+  }
+
+  return Date.now() - latest.createdAt.getTime() >= AUTOSAVE_REVISION_INTERVAL_MS;
+}
+
+async function pruneAutosaveRevisions(chapterId: string) {
+  const stale = await prisma.chapterRevision.findMany({
+    where: { chapterId, reason: "autosave" },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_AUTOSAVE_REVISIONS,
+    select: { id: true },
+  });
+
+  if (stale.length > 0) {
+    await prisma.chapterRevision.deleteMany({
+      where: { id: { in: stale.map((revision) => revision.id) } },
+    });
+  }
+}
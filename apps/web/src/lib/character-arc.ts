@@ -0,0 +1,72 @@
+// Where a character stands at the end of a chapter: one CharacterState per character and chapter,
+// entered by hand or extracted from the chapter text. Safe to import from client components.
+
+export const MOOD_MIN = -5;
+export const MOOD_MAX = 5;
+
+export const stateTextFields = ["emotion", "goal", "knowledge", "relationships"] as const;
+
+export type StateTextField = (typeof stateTextFields)[number];
+
+export type CharacterStateInput = {
+  // -5 (at rock bottom) to +5 (on top of the world), null when not rated
+  mood: number | null;
+} & Record<StateTextField, string | null>;
+
+export type CharacterStateData = CharacterStateInput & {
+  id: string;
+  characterId: string;
+  chapterId: string;
+  source: string;
+};
+
+// Labels used when states are handed to the model
+const promptLabels: Record<StateTextField, string> = {
+  emotion: "Gefühlslage",
+  goal: "Ziel",
+  knowledge: "Weiß",
+  relationships: "Beziehungen",
+};
+
+function optionalText(value: unknown) {
+  if (typeof value !== "string") return null;
+  return value.trim() || null;
+}
+
+export function normalizeMood(value: unknown): number | null {
+  const mood = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof mood !== "number" || !Number.isFinite(mood)) return null;
+  return Math.min(MOOD_MAX, Math.max(MOOD_MIN, Math.round(mood)));
+}
+
+// Coerce a request body or a model answer into state fields
+export function normalizeCharacterState(raw: Record<string, unknown>): CharacterStateInput {
+  return {
+    mood: normalizeMood(raw.mood),
+    emotion: optionalText(raw.emotion),
+    goal: optionalText(raw.goal),
+    knowledge: optionalText(raw.knowledge),
+    relationships: optionalText(raw.relationships),
+  };
+}
+
+export function isCharacterStateEmpty(state: CharacterStateInput) {
+  return state.mood === null && stateTextFields.every((field) => !state[field]);
+}
+
+export function formatMood(mood: number) {
+  return mood > 0 ? `+${mood}` : String(mood);
+}
+
+// One line per state for prompts: "Gefühlslage: misstrauisch (-2); Ziel: ..."
+export function formatCharacterState(state: CharacterStateInput) {
+  const parts: string[] = [];
+  for (const field of stateTextFields) {
+    let value = state[field];
+    if (field === "emotion" && state.mood !== null) {
+      value = value ? `${value} (${formatMood(state.mood)})` : formatMood(state.mood);
+    }
+    if (value) parts.push(`${promptLabels[field]}: ${value}`);
+  }
+  return parts.join("; ");
+}
@@ -0,0 +1,100 @@
+import prisma from "@bucherstellung/db";
+
+import {
+  countCharacterMentions,
+  suggestPresence,
+  type PresenceSuggestion,
+} from "@/lib/character-presence";
+import { htmlToText } from "@/lib/html-text";
+
+// Detected character presence for chapters of a book, and writing it back to ChapterCharacter
+
+export type ChapterPresence = {
+  chapterId: string;
+  counts: Record<string, number>;
+  suggestions: PresenceSuggestion[];
+};
+
+export async function detectPresence(bookId: string, chapterIds?: string[]): Promise<ChapterPresence[]> {
+  const [characters, chapters] = await Promise.all([
+    prisma.character.findMany({
+      where: { bookId },
+      select: { id: true, name: true, aliases: true },
+    }),
+    prisma.chapter.findMany({
+      where: { bookId, ...(chapterIds && { id: { in: chapterIds } }) },
+      orderBy: { orderIndex: "asc" },
+      select: {
+        id: true,
+        content: true,
+        chapterCharacters: {
+          select: { characterId: true, prominence: true, mentionCount: true, source: true },
+        },
+      },
+    }),
+  ]);
+
+  return chapters.map((chapter) => {
+    const counts = countCharacterMentions(htmlToText(chapter.content), characters);
+    return {
+      chapterId: chapter.id,
+      counts,
+      suggestions: suggestPresence(chapter.id, counts, chapter.chapterCharacters),
+    };
+  });
+}
+
+// Apply the suggestions (all, or those whose "chapterId:characterId" key is listed) and store the
+// mention counts of every link. Returns the number of links that were added, changed or removed.
+export async function applyPresence(presence: ChapterPresence[], only?: string[]) {
+  let changed = 0;
+
+  for (const chapter of presence) {
+    for (const suggestion of chapter.suggestions) {
+      if (only && !only.includes(`${suggestion.chapterId}:${suggestion.characterId}`)) continue;
+      const where = { chapterId_characterId: { chapterId: suggestion.chapterId, characterId: suggestion.characterId } };
+
+      if (suggestion.action === "remove") {
+        await prisma.chapterCharacter.delete({ where });
+      } else {
+        await prisma.chapterCharacter.upsert({
+          where,
+          create: {
+            chapterId: suggestion.chapterId,
+            characterId: suggestion.characterId,
+            prominence: suggestion.prominence!,
+            mentionCount: suggestion.mentionCount,
+            source: "detected",
+          },
+          update: { prominence: suggestion.prominence!, mentionCount: suggestion.mentionCount },
+        });
+      }
+      changed += 1;
+    }
+
+    // Counts of links that stay as they are, including the ones set by hand
+    const links = await prisma.chapterCharacter.findMany({
+      where: { chapterId: chapter.chapterId },
+      select: { id: true, characterId: true, mentionCount: true },
+    });
+    for (const link of links) {
+      const mentionCount = chapter.counts[link.characterId] ?? 0;
+      if (link.mentionCount !== mentionCount) {
+        await prisma.chapterCharacter.update({ where: { id: link.id }, data: { mentionCount } });
+      }
+    }
+  }
+
+  return changed;
+}
+
+// Called after a chapter's text changed; only books that opted in follow their text automatically
+export async function syncChapterPresence(chapterId: string) {
+  const chapter = await prisma.chapter.findUnique({
+    where: { id: chapterId },
+    select: { bookId: true, book: { select: { autoDetectPresence: true } } },
+  });
+  if (!chapter?.book.autoDetectPresence) return;
+
+  await applyPresence(await detectPresence(chapter.bookId, [chapterId]));
+}
@@ -0,0 +1,262 @@
+// Which characters appear in which chapters, detected from the chapter text (safe to import from
+// client components). A character is found by their full name, their aliases, and the single parts
+// of their name as long as no other character shares that part ("Bennet" is ambiguous when the
+// book has two Bennets, "Elizabeth" is not).
+
+export type PresenceCharacter = {
+  id: string;
+  name: string;
+  aliases: string | null;
+};
+
+export type Prominence = "featured" | "mentioned" | "cameo";
+
+export type PresenceLink = {
+  characterId: string;
+  prominence: string;
+  mentionCount: number;
+  source: string;
+};
+
+export type PresenceSuggestion = {
+  chapterId: string;
+  characterId: string;
+  mentionCount: number;
+  // null when the link should be removed
+  prominence: Prominence | null;
+  action: "add" | "update" | "remove";
+  current: { prominence: string; source: string } | null;
+};
+
+export type CharacterAbsence = {
+  characterId: string;
+  // Chapter numbers (1-based) of the first and last chapter without the character
+  fromChapter: number;
+  toChapter: number;
+  length: number;
+  // The gap reaches the end of the written chapters
+  ongoing: boolean;
+};
+
+// Mentions from which a character carries the chapter; a single mention counts as a cameo
+export const FEATURED_MENTIONS = 8;
+// Written chapters in a row without a character before it is flagged as absent
+export const ABSENCE_CHAPTERS = 5;
+
+// Words in names that say nothing about who is meant
+const NAME_TITLES = new Set([
+  "dr", "prof", "herr", "frau", "fräulein", "mr", "mrs", "ms", "miss", "sir", "lady", "lord",
+  "king", "queen", "prince", "princess", "könig", "königin", "prinz", "prinzessin", "graf", "gräfin",
+  "captain", "kapitän", "onkel", "tante", "uncle", "aunt",
+]);
+const MIN_NAME_PART_LENGTH = 3;
+
+export function parseAliases(aliases: string | null | undefined) {
+  return (aliases ?? "")
+    .split(/[\n,;]/)
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+}
+
+export function serializeAliases(aliases: string[]) {
+  const unique = [...new Set(aliases.map((alias) => alias.trim()).filter(Boolean))];
+  return unique.length > 0 ? unique.join("\n") : null;
+}
+
+// Name as given to the AI, with the other names and pronouns the text may use for the character:
+// "Elizabeth Bennet [auch: Liz, Miss Bennet; Pronomen: sie/ihr]"
+export function characterPromptName(character: { name: string; aliases?: string | null; pronouns?: string | null }) {
+  const details: string[] = [];
+  const aliases = parseAliases(character.aliases);
+  if (aliases.length > 0) details.push(`auch: ${aliases.join(", ")}`);
+  if (character.pronouns?.trim()) details.push(`Pronomen: ${character.pronouns.trim()}`);
+  return details.length > 0 ? `${character.name} [${details.join("; ")}]` : character.name;
+}
+
+export function isNameTitle(word: string) {
+  return NAME_TITLES.has(word.replace(/\.$/, "").toLowerCase());
+}
+
+function nameParts(name: string) {
+  return name
+    .split(/\s+/)
+    .map((part) => part.replace(/[.,]/g, ""))
+    .filter((part) => part.length >= MIN_NAME_PART_LENGTH && /^\p{Lu}/u.test(part) && !isNameTitle(part));
+}
+
+// Search terms per character id
+export function characterNameTerms(characters: PresenceCharacter[]) {
+  const terms: Record<string, Set<string>> = {};
+  const partOwners: Record<string, Set<string>> = {};
+
+  for (const character of characters) {
+    terms[character.id] = new Set([character.name.trim(), ...parseAliases(character.aliases)].filter(Boolean));
+  }
+  for (const character of characters) {
+    for (const part of nameParts(character.name)) {
+      (partOwners[part] ??= new Set()).add(character.id);
+    }
+  }
+  // A part that is also another character's full name or alias is not unique either
+  for (const character of characters) {
+    for (const term of terms[character.id]!) {
+      partOwners[term]?.add(character.id);
+    }
+  }
+
+  for (const [part, owners] of Object.entries(partOwners)) {
+    if (owners.size !== 1) continue;
+    const [owner] = [...owners];
+    terms[owner!]!.add(part);
+  }
+
+  const result: Record<string, string[]> = {};
+  for (const [characterId, set] of Object.entries(terms)) {
+    result[characterId] = [...set];
+  }
+  return result;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Mentions per character id in plain text. Names are matched case-sensitively as whole words, with
+// an optional genitive ("Annas", "Anna's", "Hans'"); other declined forms are listed as aliases.
+// Where names overlap ("Elizabeth Bennet" / "Elizabeth") the longer wins.
+export function countCharacterMentions(text: string, characters: PresenceCharacter[]) {
+  const terms = characterNameTerms(characters);
+  const owners: Record<string, string[]> = {};
+  for (const [characterId, characterTerms] of Object.entries(terms)) {
+    for (const term of characterTerms) {
+      (owners[term] ??= []).push(characterId);
+    }
+  }
+
+  const counts: Record<string, number> = {};
+  const sorted = Object.keys(owners).sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return counts;
+
+  const pattern = new RegExp(
+    `(^|[^\\p{L}\\p{N}_])(${sorted.map(escapeRegExp).join("|")})(?:s|'s|’s|'|’)?(?=$|[^\\p{L}\\p{N}_])`,
+    "gu"
+  );
+  for (const match of text.matchAll(pattern)) {
+    for (const characterId of owners[match[2]!] ?? []) {
+      counts[characterId] = (counts[characterId] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+// Other names of the characters the query names ("Liz" → "Elizabeth Bennet", "Miss Bennet"),
+// compared case-insensitively and ignoring punctuation. Empty when the query is no known name.
+export function findNameVariants(query: string, characters: PresenceCharacter[]) {
+  const normalize = (value: string) => (value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(" ");
+  const normalizedQuery = normalize(query);
+  if (!normalizedQuery) return [];
+
+  const variants = new Set<string>();
+  for (const characterTerms of Object.values(characterNameTerms(characters))) {
+    if (!characterTerms.some((term) => normalize(term) === normalizedQuery)) continue;
+    for (const term of characterTerms) {
+      if (normalize(term) !== normalizedQuery) variants.add(term);
+    }
+  }
+  return [...variants];
+}
+
+export function prominenceForMentions(count: number): Prominence {
+  if (count >= FEATURED_MENTIONS) return "featured";
+  return count > 1 ? "mentioned" : "cameo";
+}
+
+// Changes that would bring the links of one chapter in line with its text. Detected links follow
+// the text; links set by hand are never removed or re-rated, only their mention count is kept
+// up to date when the suggestions are applied.
+export function suggestPresence(
+  chapterId: string,
+  counts: Record<string, number>,
+  links: PresenceLink[]
+): PresenceSuggestion[] {
+  const suggestions: PresenceSuggestion[] = [];
+  const linked: Record<string, PresenceLink> = {};
+  for (const link of links) linked[link.characterId] = link;
+
+  for (const [characterId, mentionCount] of Object.entries(counts)) {
+    if (mentionCount === 0) continue;
+    const link = linked[characterId];
+    const prominence = prominenceForMentions(mentionCount);
+    if (!link) {
+      suggestions.push({ chapterId, characterId, mentionCount, prominence, action: "add", current: null });
+    } else if (link.source === "detected" && link.prominence !== prominence) {
+      suggestions.push({
+        chapterId,
+        characterId,
+        mentionCount,
+        prominence,
+        action: "update",
+        current: { prominence: link.prominence, source: link.source },
+      });
+    }
+  }
+
+  for (const link of links) {
+    if (link.source === "detected" && !counts[link.characterId]) {
+      suggestions.push({
+        chapterId,
+        characterId: link.characterId,
+        mentionCount: 0,
+        prominence: null,
+        action: "remove",
+        current: { prominence: link.prominence, source: link.source },
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+// Gaps of at least `minLength` written chapters in a row without the character, after their
+// first appearance. Minor characters and chapters without text are left out.
+export function findCharacterAbsences(
+  chapters: { wordCount: number; characterIds: string[] }[],
+  characters: { id: string; role: string }[],
+  minLength = ABSENCE_CHAPTERS
+): CharacterAbsence[] {
+  const written = chapters
+    .map((chapter, index) => ({ number: index + 1, characterIds: chapter.characterIds, wordCount: chapter.wordCount }))
+    .filter((chapter) => chapter.wordCount > 0);
+  const absences: CharacterAbsence[] = [];
+
+  for (const character of characters) {
+    if (character.role === "minor") continue;
+
+    let seen = false;
+    let gap: (typeof written)[number][] = [];
+    const flush = (ongoing: boolean) => {
+      if (seen && gap.length >= minLength) {
+        absences.push({
+          characterId: character.id,
+          fromChapter: gap[0]!.number,
+          toChapter: gap[gap.length - 1]!.number,
+          length: gap.length,
+          ongoing,
+        });
+      }
+      gap = [];
+    };
+
+    for (const chapter of written) {
+      if (chapter.characterIds.includes(character.id)) {
+        flush(false);
+        seen = true;
+      } else if (seen) {
+        gap.push(chapter);
+      }
+    }
+    flush(true);
+  }
+
+  return absences.sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,383 @@
+import type { ConsistencyIssue } from "@/lib/consistency-issues";
+import { translate, type Locale } from "@/lib/i18n";
+import { shortestTravelMinutes, type TravelLeg } from "@/lib/story-map";
+import {
+  formatStoryDate,
+  formatStoryDuration,
+  isValidStoryDate,
+  parseStoryDate,
+  storyDateToMinutes,
+  type StoryCalendar,
+  type StoryDate,
+} from "@/lib/story-time";
+import { worldElementAncestors } from "@/lib/world-links";
+
+type DatedFields = {
+  id: string;
+  title: string;
+  storyStart: string | null;
+  storyEnd: string | null;
+};
+
+export type ChronologyInput = {
+  calendar: StoryCalendar;
+  chapters: (DatedFields & { orderIndex: number })[];
+  scenes: (DatedFields & {
+    chapterId: string;
+    orderIndex: number;
+    povCharacterId: string | null;
+    locationId: string | null;
+  })[];
+  plotPoints: (DatedFields & { orderIndex: number; chapterIds: string[] })[];
+  characters: { id: string; name: string }[];
+  locations: { id: string; name: string; parentId: string | null }[];
+  // Travel times along the routes of the book's map
+  travel: TravelLeg[];
+};
+
+// Position of an event in minutes. A date without a time covers the whole day; `end` is exclusive.
+// `precise` events have a time of day or an explicit end and are the only ones that can overlap.
+export type StorySpan = {
+  start: number;
+  end: number;
+  precise: boolean;
+};
+
+type ResolvedDates =
+  | { status: "none" }
+  | { status: "invalid"; value: string }
+  | { status: "reversed" }
+  | { status: "ok"; span: StorySpan; startDate: StoryDate };
+
+function resolveDates(storyStart: string | null, storyEnd: string | null, calendar: StoryCalendar): ResolvedDates {
+  if (!storyStart) {
+    return storyEnd ? { status: "invalid", value: storyEnd } : { status: "none" };
+  }
+
+  const minutesPerDay = calendar.hoursPerDay * 60;
+  const startDate = parseStoryDate(storyStart);
+  if (!startDate || !isValidStoryDate(startDate, calendar)) return { status: "invalid", value: storyStart };
+  const start = storyDateToMinutes(startDate, calendar);
+
+  if (!storyEnd) {
+    const end = startDate.hour === null ? start + minutesPerDay : start;
+    return { status: "ok", startDate, span: { start, end, precise: startDate.hour !== null } };
+  }
+
+  const endDate = parseStoryDate(storyEnd);
+  if (!endDate || !isValidStoryDate(endDate, calendar)) return { status: "invalid", value: storyEnd };
+  const endMinutes = storyDateToMinutes(endDate, calendar);
+  const end = endDate.hour === null ? endMinutes + minutesPerDay : endMinutes;
+  if (end < start) return { status: "reversed" };
+
+  return { status: "ok", startDate, span: { start, end, precise: true } };
+}
+
+// Span of an event for display; null when it has no usable date
+export function storySpan(storyStart: string | null, storyEnd: string | null, calendar: StoryCalendar) {
+  const resolved = resolveDates(storyStart, storyEnd, calendar);
+  return resolved.status === "ok" ? resolved.span : null;
+}
+
+// Instants count as one minute long, so an instant inside another event's span overlaps it
+function overlaps(a: StorySpan, b: StorySpan) {
+  if (!a.precise || !b.precise) return false;
+  return a.start < Math.max(b.end, b.start + 1) && b.start < Math.max(a.end, a.start + 1);
+}
+
+type DatedEvent = {
+  label: string;
+  chapters: number[];
+  span: StorySpan;
+  startDate: StoryDate;
+};
+
+export function checkChronology(input: ChronologyInput, locale: Locale): ConsistencyIssue[] {
+  const { calendar } = input;
+  const issues: ConsistencyIssue[] = [];
+  const t = (text: { de: string; en: string }, vars?: Record<string, string | number>) => translate(locale, text, vars);
+  const formatDate = (date: StoryDate) => formatStoryDate(date, calendar, locale);
+
+  const chapters = [...input.chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+  const chapterNumbers: Record<string, number> = {};
+  chapters.forEach((chapter, index) => {
+    chapterNumbers[chapter.id] = index + 1;
+  });
+
+  // Resolve every date once; broken dates become issues and the event is left out of the checks
+  const resolve = (id: string, label: string, chapterList: number[], fields: DatedFields): DatedEvent | null => {
+    const resolved = resolveDates(fields.storyStart, fields.storyEnd, calendar);
+    if (resolved.status === "ok") {
+      return { label, chapters: chapterList, span: resolved.span, startDate: resolved.startDate };
+    }
+    if (resolved.status === "invalid") {
+      issues.push({
+        id: `chronology-invalid-${id}`,
+        type: "timeline",
+        severity: "error",
+        title: t({ de: "Ungültiges Datum", en: "Invalid date" }),
+        description: t(
+          { de: "{{label}}: „{{value}}“ gibt es im Kalender des Buches nicht.", en: "{{label}}: \"{{value}}\" does not exist in the book's calendar." },
+          { label, value: resolved.value }
+        ),
+        chapters: chapterList,
+        suggestion: t({ de: "Datum in der Zeitleiste korrigieren.", en: "Correct the date in the timeline." }),
+      });
+    }
+    if (resolved.status === "reversed") {
+      issues.push({
+        id: `chronology-reversed-${id}`,
+        type: "timeline",
+        severity: "error",
+        title: t({ de: "Ende vor Beginn", en: "End before start" }),
+        description: t({ de: "{{label}} endet, bevor es beginnt.", en: "{{label}} ends before it starts." }, { label }),
+        chapters: chapterList,
+        suggestion: t({ de: "Beginn und Ende vertauschen oder korrigieren.", en: "Swap or correct start and end." }),
+      });
+    }
+    return null;
+  };
+
+  const chapterLabel = (chapter: { id: string; title: string }) =>
+    t({ de: "Kapitel {{number}}: {{title}}", en: "Chapter {{number}}: {{title}}" }, {
+      number: chapterNumbers[chapter.id] ?? "?",
+      title: chapter.title,
+    });
+
+  // Order of the book vs. order of the story: a chapter starting before its predecessor is either
+  // a flashback or a mistake
+  const checkOrder = (
+    events: (DatedEvent & { id: string })[],
+    kind: string,
+    text: { title: { de: string; en: string }; description: { de: string; en: string } }
+  ) => {
+    let latest: (DatedEvent & { id: string }) | null = null;
+    for (const event of events) {
+      if (latest && event.span.start < latest.span.start) {
+        issues.push({
+          id: `chronology-${kind}-order-${latest.id}-${event.id}`,
+          type: "timeline",
+          severity: "warning",
+          title: t(text.title),
+          description: t(text.description, {
+            label: event.label,
+            date: formatDate(event.startDate),
+            previous: latest.label,
+            previousDate: formatDate(latest.startDate),
+          }),
+          chapters: [...new Set([...latest.chapters, ...event.chapters])].sort((a, b) => a - b),
+          suggestion: t({
+            de: "Falls es eine Rückblende ist, im Text kenntlich machen; sonst Datum oder Reihenfolge anpassen.",
+            en: "If this is a flashback, make it clear in the text; otherwise adjust the date or the order.",
+          }),
+        });
+      }
+      if (!latest || event.span.start >= latest.span.start) latest = event;
+    }
+  };
+
+  const chapterEvents: Record<string, DatedEvent> = {};
+  const datedChapters: (DatedEvent & { id: string })[] = [];
+  for (const chapter of chapters) {
+    const number = chapterNumbers[chapter.id]!;
+    const event = resolve(chapter.id, chapterLabel(chapter), [number], chapter);
+    if (!event) continue;
+    chapterEvents[chapter.id] = event;
+    datedChapters.push({ ...event, id: chapter.id });
+  }
+  checkOrder(datedChapters, "chapter", {
+    title: { de: "Kapitel außerhalb der Chronologie", en: "Chapter out of chronological order" },
+    description: {
+      de: "{{label}} ({{date}}) spielt vor {{previous}} ({{previousDate}}).",
+      en: "{{label}} ({{date}}) takes place before {{previous}} ({{previousDate}}).",
+    },
+  });
+
+  // Scenes: order within the chapter and position inside the chapter's time span
+  const scenesByChapter: Record<string, ChronologyInput["scenes"]> = {};
+  for (const scene of input.scenes) {
+    (scenesByChapter[scene.chapterId] ??= []).push(scene);
+  }
+
+  const datedScenes: (DatedEvent & { scene: ChronologyInput["scenes"][number] })[] = [];
+  for (const chapter of chapters) {
+    const number = chapterNumbers[chapter.id]!;
+    const scenes = (scenesByChapter[chapter.id] ?? []).sort((a, b) => a.orderIndex - b.orderIndex);
+    const datedInChapter: (DatedEvent & { id: string })[] = [];
+
+    scenes.forEach((scene, index) => {
+      const label = t({ de: "Szene „{{title}}“ in Kapitel {{number}}", en: "Scene \"{{title}}\" in chapter {{number}}" }, {
+        title: scene.title || t({ de: "Szene {{index}}", en: "Scene {{index}}" }, { index: index + 1 }),
+        number,
+      });
+      const event = resolve(scene.id, label, [number], scene);
+      if (!event) return;
+      datedInChapter.push({ ...event, id: scene.id });
+      datedScenes.push({ ...event, scene });
+
+      const chapterEvent = chapterEvents[chapter.id];
+      if (chapterEvent && (event.span.start < chapterEvent.span.start || event.span.start >= chapterEvent.span.end)) {
+        issues.push({
+          id: `chronology-scene-outside-${scene.id}`,
+          type: "timeline",
+          severity: "warning",
+          title: t({ de: "Szene außerhalb des Kapitelzeitraums", en: "Scene outside the chapter's time span" }),
+          description: t(
+            { de: "{{label}} ({{date}}) liegt nicht im Zeitraum des Kapitels.", en: "{{label}} ({{date}}) is outside the chapter's time span." },
+            { label, date: formatDate(event.startDate) }
+          ),
+          chapters: [number],
+          suggestion: t({ de: "Szenendatum oder Kapitelzeitraum anpassen.", en: "Adjust the scene date or the chapter's time span." }),
+        });
+      }
+    });
+
+    checkOrder(datedInChapter, "scene", {
+      title: { de: "Szene außerhalb der Chronologie", en: "Scene out of chronological order" },
+      description: {
+        de: "{{label}} ({{date}}) spielt vor der vorhergehenden {{previous}} ({{previousDate}}).",
+        en: "{{label}} ({{date}}) takes place before the preceding {{previous}} ({{previousDate}}).",
+      },
+    });
+  }
+
+  // Plot points: their own order and the span of the chapters they are linked to
+  const plotPoints = [...input.plotPoints].sort((a, b) => a.orderIndex - b.orderIndex);
+  const datedPlotPoints: (DatedEvent & { id: string })[] = [];
+  for (const plotPoint of plotPoints) {
+    const linkedNumbers = plotPoint.chapterIds
+      .map((chapterId) => chapterNumbers[chapterId])
+      .filter((number): number is number => number !== undefined)
+      .sort((a, b) => a - b);
+    const label = t({ de: "Handlungspunkt „{{title}}“", en: "Plot point \"{{title}}\"" }, { title: plotPoint.title });
+    const event = resolve(plotPoint.id, label, linkedNumbers, plotPoint);
+    if (!event) continue;
+    datedPlotPoints.push({ ...event, id: plotPoint.id });
+
+    const linkedSpans = plotPoint.chapterIds
+      .map((chapterId) => chapterEvents[chapterId]?.span)
+      .filter((span): span is StorySpan => span !== undefined);
+    if (linkedSpans.length > 0) {
+      const from = Math.min(...linkedSpans.map((span) => span.start));
+      const to = Math.max(...linkedSpans.map((span) => span.end));
+      if (event.span.start < from || event.span.start >= to) {
+        issues.push({
+          id: `chronology-plot-outside-${plotPoint.id}`,
+          type: "timeline",
+          severity: "warning",
+          title: t({ de: "Handlungspunkt außerhalb seiner Kapitel", en: "Plot point outside its chapters" }),
+          description: t(
+            { de: "{{label}} ({{date}}) liegt nicht im Zeitraum der verknüpften Kapitel.", en: "{{label}} ({{date}}) is outside the time span of its linked chapters." },
+            { label, date: formatDate(event.startDate) }
+          ),
+          chapters: linkedNumbers,
+          suggestion: t({ de: "Datum oder verknüpfte Kapitel anpassen.", en: "Adjust the date or the linked chapters." }),
+        });
+      }
+    }
+  }
+  checkOrder(datedPlotPoints, "plot", {
+    title: { de: "Handlungspunkt außerhalb der Chronologie", en: "Plot point out of chronological order" },
+    description: {
+      de: "{{label}} ({{date}}) spielt vor {{previous}} ({{previousDate}}).",
+      en: "{{label}} ({{date}}) takes place before {{previous}} ({{previousDate}}).",
+    },
+  });
+
+  // A character can only be in one place at a time: overlapping scenes with the same point of view
+  // at different locations
+  const characterNames: Record<string, string> = {};
+  for (const character of input.characters) characterNames[character.id] = character.name;
+  const locationNames: Record<string, string> = {};
+  for (const location of input.locations) locationNames[location.id] = location.name;
+
+  const located = datedScenes.filter((event) => event.scene.povCharacterId && event.scene.locationId);
+  for (let i = 0; i < located.length; i++) {
+    for (let j = i + 1; j < located.length; j++) {
+      const a = located[i]!;
+      const b = located[j]!;
+      if (a.scene.povCharacterId !== b.scene.povCharacterId || a.scene.locationId === b.scene.locationId) continue;
+      if (!overlaps(a.span, b.span)) continue;
+
+      issues.push({
+        id: `chronology-two-places-${a.scene.id}-${b.scene.id}`,
+        type: "location",
+        severity: "error",
+        title: t({ de: "Figur an zwei Orten gleichzeitig", en: "Character in two places at once" }),
+        description: t(
+          {
+            de: "{{character}} ist zur selben Zeit in {{first}} ({{firstLocation}}) und {{second}} ({{secondLocation}}).",
+            en: "{{character}} is in {{first}} ({{firstLocation}}) and {{second}} ({{secondLocation}}) at the same time.",
+          },
+          {
+            character: characterNames[a.scene.povCharacterId!] ?? "?",
+            first: a.label,
+            firstLocation: locationNames[a.scene.locationId!] ?? "?",
+            second: b.label,
+            secondLocation: locationNames[b.scene.locationId!] ?? "?",
+          }
+        ),
+        chapters: [...new Set([...a.chapters, ...b.chapters])].sort((x, y) => x - y),
+        suggestion: t({ de: "Zeiten, Orte oder Perspektive der Szenen anpassen.", en: "Adjust the times, locations or point of view of the scenes." }),
+      });
+    }
+  }
+
+  // Travel: a character needs at least the travel time along the map's routes to get from the
+  // location of one scene to the next. Scenes at a place inside a location with routes (a tavern in
+  // a city) use that location. The gap is measured generously for scenes without a time of day.
+  const travelNodes = new Set(input.travel.flatMap((leg) => [leg.fromElementId, leg.toElementId]));
+  const travelNode = (locationId: string) => {
+    if (travelNodes.has(locationId)) return locationId;
+    return worldElementAncestors(input.locations, locationId).find((ancestor) => travelNodes.has(ancestor.id))?.id ?? null;
+  };
+
+  const byCharacter: Record<string, typeof located> = {};
+  for (const event of located) {
+    (byCharacter[event.scene.povCharacterId!] ??= []).push(event);
+  }
+  for (const [characterId, events] of Object.entries(byCharacter)) {
+    const ordered = [...events].sort((a, b) => a.span.start - b.span.start);
+    for (let i = 1; i < ordered.length; i++) {
+      const a = ordered[i - 1]!;
+      const b = ordered[i]!;
+      if (overlaps(a.span, b.span)) continue;
+      const from = travelNode(a.scene.locationId!);
+      const to = travelNode(b.scene.locationId!);
+      if (!from || !to || from === to) continue;
+
+      const needed = shortestTravelMinutes(input.travel, from, to);
+      const available = (b.span.precise ? b.span.start : b.span.end) - (a.span.precise ? a.span.end : a.span.start);
+      if (needed === null || needed <= available) continue;
+
+      issues.push({
+        id: `chronology-travel-${a.scene.id}-${b.scene.id}`,
+        type: "location",
+        severity: "warning",
+        title: t({ de: "Reisezeit zu kurz", en: "Not enough travel time" }),
+        description: t(
+          {
+            de: "Zwischen {{first}} ({{firstLocation}}) und {{second}} ({{secondLocation}}) bleiben {{character}} nur {{available}}, die Reise dauert aber {{needed}}.",
+            en: "Between {{first}} ({{firstLocation}}) and {{second}} ({{secondLocation}}), {{character}} has only {{available}}, but the journey takes {{needed}}.",
+          },
+          {
+            character: characterNames[characterId] ?? "?",
+            first: a.label,
+            firstLocation: locationNames[a.scene.locationId!] ?? "?",
+            second: b.label,
+            secondLocation: locationNames[b.scene.locationId!] ?? "?",
+            available: formatStoryDuration(Math.max(available, 0), calendar, locale),
+            needed: formatStoryDuration(needed, calendar, locale),
+          }
+        ),
+        chapters: [...new Set([...a.chapters, ...b.chapters])].sort((x, y) => x - y),
+        suggestion: t({
+          de: "Mehr Zeit zwischen den Szenen lassen oder Route und Reisezeit auf der Karte anpassen.",
+          en: "Leave more time between the scenes or adjust the route and travel time on the map.",
+        }),
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,18 @@
+export const consistencyIssueTypes = ["character", "timeline", "object", "location", "plot", "other"] as const;
+
+export type ConsistencyIssueType = (typeof consistencyIssueTypes)[number];
+
+export type ConsistencyIssue = {
+  id: string;
+  type: ConsistencyIssueType;
+  severity: "warning" | "error";
+  title: string;
+  description: string;
+  // 1-based chapter numbers
+  chapters: number[];
+  suggestion: string;
+};
+
+export function isConsistencyIssueType(value: unknown): value is ConsistencyIssueType {
+  return typeof value === "string" && (consistencyIssueTypes as readonly string[]).includes(value);
+}
@@ -0,0 +1,350 @@
+import { countCharacterMentions } from "@/lib/character-presence";
+import type { ConsistencyIssue } from "@/lib/consistency-issues";
+import { translate, type Locale } from "@/lib/i18n";
+import { checkNameSpellings } from "@/lib/name-check";
+
+export type ContinuityInput = {
+  chapters: {
+    id: string;
+    title: string;
+    orderIndex: number;
+    // Plain text of the chapter
+    text: string;
+    // Characters linked to the chapter
+    characterIds: string[];
+    plotPointCount: number;
+  }[];
+  characters: {
+    id: string;
+    name: string;
+    aliases: string | null;
+    appearance: string | null;
+    deathChapterId: string | null;
+  }[];
+  plotPointCount: number;
+};
+
+type Feature = "eyes" | "hair";
+
+// Colour words per feature, German and English, keyed by the colour they mean
+const COLOR_WORDS: Record<Feature, Record<string, string[]>> = {
+  eyes: {
+    blue: ["blau", "blue"],
+    green: ["grün", "green"],
+    brown: ["braun", "brown"],
+    grey: ["grau", "grey", "gray"],
+    black: ["schwarz", "black"],
+    hazel: ["haselnussbraun", "haselnuss", "hazel"],
+    amber: ["bernsteinfarben", "bernstein", "amber"],
+    violet: ["violett", "violet"],
+  },
+  hair: {
+    blond: ["blond", "golden"],
+    brown: ["braun", "brünett", "brown", "brunette"],
+    black: ["schwarz", "black"],
+    red: ["rot", "kupfer", "red", "ginger", "auburn"],
+    grey: ["grau", "ergraut", "silbern", "grey", "gray", "silver"],
+    white: ["weiß", "white"],
+  },
+};
+
+const FEATURE_NOUNS: Record<Feature, string[]> = {
+  eyes: ["augenfarbe", "augen", "auge", "eyes", "eye"],
+  hair: ["haarfarbe", "haaren", "haare", "haar", "locken", "mähne", "zöpfe", "hair", "curls", "locks"],
+};
+
+// Compounds like "blauäugig", "rothaarig", "blue-eyed", "red-haired"
+const FEATURE_SUFFIXES: Record<Feature, string[]> = {
+  eyes: ["äugig", "-eyed"],
+  hair: ["haarig", "-haired"],
+};
+
+const INFLECTION = "(?:e|en|er|es|em)?";
+const COPULAS = "(?:sind|waren|ist|war|wirkten|leuchteten|are|were|is|was|looked)";
+
+function alternation(words: string[]) {
+  return [...words].sort((a, b) => b.length - a.length).join("|");
+}
+
+type ColorMention = { color: string; phrase: string };
+
+function colorPatterns(feature: Feature) {
+  const colors = alternation(Object.values(COLOR_WORDS[feature]).flat());
+  const nouns = alternation(FEATURE_NOUNS[feature]);
+  const suffixes = alternation(FEATURE_SUFFIXES[feature]);
+  return [
+    // "blaue Augen", "ihre dunkelbraunen, langen Haare" (one lowercase word may come between)
+    new RegExp(`(?<!\\p{L})\\p{L}*?(${colors})${INFLECTION}\\s+(?:\\p{Ll}[\\p{L}-]*\\s+)?(?:${nouns})(?!\\p{L})`, "giu"),
+    new RegExp(`(?<!\\p{L})\\p{L}*?(${colors})(?:${suffixes})${INFLECTION}(?!\\p{L})`, "giu"),
+    // "ihre Augen waren blau", "Augenfarbe: grün"
+    new RegExp(`(?<!\\p{L})(?:${nouns})(?:\\s*:\\s*|\\s+${COPULAS}\\s+(?:\\p{Ll}+\\s+)?)\\p{L}*?(${colors})${INFLECTION}(?!\\p{L})`, "giu"),
+  ];
+}
+
+const PATTERNS: Record<Feature, RegExp[]> = { eyes: colorPatterns("eyes"), hair: colorPatterns("hair") };
+
+// Eye or hair colours named in a text
+export function findFeatureColors(text: string, feature: Feature): ColorMention[] {
+  const colorOf = new Map<string, string>();
+  for (const [color, words] of Object.entries(COLOR_WORDS[feature])) {
+    for (const word of words) colorOf.set(word, color);
+  }
+
+  const mentions: ColorMention[] = [];
+  for (const pattern of PATTERNS[feature]) {
+    for (const match of text.matchAll(pattern)) {
+      const color = colorOf.get(match[1]!.toLowerCase());
+      if (color) mentions.push({ color, phrase: match[0].trim() });
+    }
+  }
+  return mentions;
+}
+
+const SENTENCE_PATTERN = /[^.!?…\n]+[.!?…]*/g;
+
+export function lintContinuity(input: ContinuityInput, locale: Locale): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const t = (text: { de: string; en: string }, vars?: Record<string, string | number>) => translate(locale, text, vars);
+  const quote = (value: string) => t({ de: "„{{value}}“", en: "\"{{value}}\"" }, { value });
+
+  const chapters = [...input.chapters].sort((a, b) => a.orderIndex - b.orderIndex);
+  const chapterNumbers: Record<string, number> = {};
+  chapters.forEach((chapter, index) => {
+    chapterNumbers[chapter.id] = index + 1;
+  });
+  const characterNames: Record<string, string> = {};
+  for (const character of input.characters) characterNames[character.id] = character.name;
+
+  const mentions = chapters.map((chapter) => countCharacterMentions(chapter.text, input.characters));
+  const listChapters = (entries: { number: number; count: number }[]) =>
+    entries.map((entry) => t({ de: "{{number}} ({{count}}×)", en: "{{number}} ({{count}}×)" }, entry)).join(", ");
+
+  // Characters who still appear after the chapter they die in. Being linked to a later chapter is
+  // an error; being named can also be a memory and is only a warning.
+  const afterDeath = new Set<string>();
+  for (const character of input.characters) {
+    const deathNumber = character.deathChapterId ? chapterNumbers[character.deathChapterId] : undefined;
+    if (!deathNumber) continue;
+
+    const appearances: { number: number; count: number; linked: boolean }[] = [];
+    chapters.forEach((chapter, index) => {
+      if (index + 1 <= deathNumber) return;
+      const count = mentions[index]![character.id] ?? 0;
+      const linked = chapter.characterIds.includes(character.id);
+      if (count > 0 || linked) {
+        appearances.push({ number: index + 1, count, linked });
+        afterDeath.add(`${character.id}:${chapter.id}`);
+      }
+    });
+    if (appearances.length === 0) continue;
+
+    issues.push({
+      id: `continuity-dead-${character.id}`,
+      type: "character",
+      severity: appearances.some((appearance) => appearance.linked) ? "error" : "warning",
+      title: t({ de: "Auftritt nach dem Tod", en: "Appears after death" }),
+      description: t(
+        {
+          de: "{{name}} stirbt in Kapitel {{death}}, kommt aber in Kapitel {{chapters}} noch vor.",
+          en: "{{name}} dies in chapter {{death}} but still appears in chapter {{chapters}}.",
+        },
+        { name: character.name, death: deathNumber, chapters: listChapters(appearances) }
+      ),
+      chapters: [deathNumber, ...appearances.map((appearance) => appearance.number)],
+      suggestion: t({
+        de: "Erinnerungen und Rückblenden sind in Ordnung; sonst den Tod oder die späteren Auftritte anpassen.",
+        en: "Memories and flashbacks are fine; otherwise adjust the death or the later appearances.",
+      }),
+    });
+  }
+
+  // Spellings close to a name ("Elisabeth" next to "Elizabeth"), as in the name check
+  const nameIssues = checkNameSpellings(
+    chapters.map((chapter) => ({ chapterId: chapter.id, text: chapter.text })),
+    input.characters
+  );
+  for (const issue of nameIssues) {
+    issues.push({
+      id: `continuity-spelling-${issue.characterId}-${issue.word}`,
+      type: "character",
+      severity: "warning",
+      title: t({ de: "Abweichende Schreibweise", en: "Spelling drift" }),
+      description: t(
+        {
+          de: "{{word}} kommt {{count}}× vor und ähnelt {{suggestion}} ({{name}}).",
+          en: "{{word}} occurs {{count}}× and resembles {{suggestion}} ({{name}}).",
+        },
+        {
+          word: quote(issue.word),
+          count: issue.count,
+          suggestion: quote(issue.suggestion),
+          name: characterNames[issue.characterId] ?? issue.suggestion,
+        }
+      ),
+      chapters: [...new Set(issue.occurrences.map((occurrence) => chapterNumbers[occurrence.chapterId]!))].sort((a, b) => a - b),
+      suggestion: t(
+        {
+          de: "In der Namensprüfung vereinheitlichen oder {{word}} als Alias eintragen, wenn die Schreibweise gewollt ist.",
+          en: "Unify it in the name check, or add {{word}} as an alias if the spelling is intended.",
+        },
+        { word: quote(issue.word) }
+      ),
+    });
+  }
+
+  // Eye and hair colours in the text against the ones in the character's appearance. A colour is
+  // only attributed to a character when their name is the only one in the sentence.
+  const featureLabels: Record<Feature, { de: string; en: string }> = {
+    eyes: { de: "Augenfarbe", en: "Eye colour" },
+    hair: { de: "Haarfarbe", en: "Hair colour" },
+  };
+  const described = input.characters.flatMap((character) =>
+    (["eyes", "hair"] as const).flatMap((feature) => {
+      const colors = findFeatureColors(character.appearance ?? "", feature);
+      return colors.length > 0 ? [{ character, feature, colors }] : [];
+    })
+  );
+  const contradictions = new Map<string, { number: number; phrase: string }[]>();
+  if (described.length > 0) {
+    chapters.forEach((chapter, index) => {
+      for (const sentence of chapter.text.match(SENTENCE_PATTERN) ?? []) {
+        const found = { eyes: findFeatureColors(sentence, "eyes"), hair: findFeatureColors(sentence, "hair") };
+        if (found.eyes.length === 0 && found.hair.length === 0) continue;
+
+        const named = Object.entries(countCharacterMentions(sentence, input.characters)).filter(([, count]) => count > 0);
+        if (named.length !== 1) continue;
+        const [characterId] = named[0]!;
+
+        for (const { character, feature, colors } of described) {
+          if (character.id !== characterId) continue;
+          const known = new Set(colors.map((color) => color.color));
+          for (const mention of found[feature]) {
+            if (known.has(mention.color)) continue;
+            const key = `${character.id}:${feature}`;
+            contradictions.set(key, [...(contradictions.get(key) ?? []), { number: index + 1, phrase: mention.phrase }]);
+          }
+        }
+      }
+    });
+  }
+  for (const { character, feature, colors } of described) {
+    const found = contradictions.get(`${character.id}:${feature}`);
+    if (!found) continue;
+    issues.push({
+      id: `continuity-${feature}-${character.id}`,
+      type: "character",
+      severity: "warning",
+      title: t(
+        { de: "{{feature}} von {{name}}", en: "{{feature}} of {{name}}" },
+        { feature: t(featureLabels[feature]), name: character.name }
+      ),
+      description: t(
+        {
+          de: "Laut Aussehen: {{expected}}. Im Text: {{found}}.",
+          en: "Appearance says: {{expected}}. The text says: {{found}}.",
+        },
+        {
+          expected: [...new Set(colors.map((color) => quote(color.phrase)))].join(", "),
+          found: found
+            .map((entry) => t({ de: "{{phrase}} (Kapitel {{number}})", en: "{{phrase}} (chapter {{number}})" }, {
+              phrase: quote(entry.phrase),
+              number: entry.number,
+            }))
+            .join(", "),
+        }
+      ),
+      chapters: [...new Set(found.map((entry) => entry.number))],
+      suggestion: t({
+        de: "Text oder Aussehen des Charakters angleichen.",
+        en: "Align the text or the character's appearance.",
+      }),
+    });
+  }
+
+  // Characters named in a chapter without being linked to it
+  chapters.forEach((chapter, index) => {
+    const unlinked = Object.entries(mentions[index]!)
+      .filter(([characterId, count]) =>
+        count > 0 && !chapter.characterIds.includes(characterId) && !afterDeath.has(`${characterId}:${chapter.id}`)
+      )
+      .sort((a, b) => b[1] - a[1]);
+    if (unlinked.length === 0) return;
+
+    issues.push({
+      id: `continuity-unlinked-${chapter.id}`,
+      type: "character",
+      severity: "warning",
+      title: t({ de: "Charaktere nicht verknüpft", en: "Characters not linked" }),
+      description: t(
+        {
+          de: "Im Text von Kapitel {{number}} genannt, aber nicht mit dem Kapitel verknüpft: {{names}}.",
+          en: "Named in the text of chapter {{number}} but not linked to it: {{names}}.",
+        },
+        {
+          number: index + 1,
+          names: unlinked.map(([characterId, count]) => `${characterNames[characterId]} (${count}×)`).join(", "),
+        }
+      ),
+      chapters: [index + 1],
+      suggestion: t({
+        de: "Im Kapitel verknüpfen oder die Vorschläge der Figurenpräsenz übernehmen.",
+        en: "Link them in the chapter or apply the character presence suggestions.",
+      }),
+    });
+  });
+
+  // Written chapters that no plot point belongs to, once the book uses plot points at all
+  if (input.plotPointCount > 0) {
+    const withoutPlot = chapters
+      .map((chapter, index) => ({ chapter, number: index + 1 }))
+      .filter(({ chapter }) => chapter.plotPointCount === 0 && chapter.text.trim());
+    if (withoutPlot.length > 0) {
+      issues.push({
+        id: "continuity-no-plot",
+        type: "plot",
+        severity: "warning",
+        title: t({ de: "Kapitel ohne Handlungspunkt", en: "Chapters without plot point" }),
+        description: t(
+          {
+            de: "Keinem Handlungspunkt zugeordnet: Kapitel {{chapters}}.",
+            en: "Not assigned to any plot point: chapter {{chapters}}.",
+          },
+          { chapters: withoutPlot.map((entry) => entry.number).join(", ") }
+        ),
+        chapters: withoutPlot.map((entry) => entry.number),
+        suggestion: t({
+          de: "Handlungspunkte zuordnen oder prüfen, ob das Kapitel die Geschichte voranbringt.",
+          en: "Assign plot points, or check whether the chapter moves the story forward.",
+        }),
+      });
+    }
+  }
+
+  // Chapters sharing a title
+  const byTitle = new Map<string, number[]>();
+  chapters.forEach((chapter, index) => {
+    const title = chapter.title.trim().toLocaleLowerCase();
+    if (title) byTitle.set(title, [...(byTitle.get(title) ?? []), index + 1]);
+  });
+  for (const numbers of byTitle.values()) {
+    if (numbers.length < 2) continue;
+    const title = chapters[numbers[0]! - 1]!.title.trim();
+    issues.push({
+      id: `continuity-title-${numbers.join("-")}`,
+      type: "other",
+      severity: "warning",
+      title: t({ de: "Doppelter Kapiteltitel", en: "Duplicate chapter title" }),
+      description: t(
+        { de: "Kapitel {{chapters}} tragen denselben Titel {{title}}.", en: "Chapters {{chapters}} share the title {{title}}." },
+        { chapters: numbers.join(", "), title: quote(title) }
+      ),
+      chapters: numbers,
+      suggestion: t({
+        de: "Unterscheidbare Titel vergeben, damit Inhaltsverzeichnis und Verweise eindeutig bleiben.",
+        en: "Give the chapters distinct titles so the table of contents and references stay unambiguous.",
+      }),
+    });
+  }
+
+  return issues;
+}
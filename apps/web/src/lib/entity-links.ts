@@ -0,0 +1,203 @@
+import { characterNameTerms, parseAliases } from "@/lib/character-presence";
+import { parseTag } from "@/lib/html-blocks";
+import { TAG_PATTERN } from "@/lib/html-text";
+
+// Links from chapter text to characters, world elements and plot points (safe to import from
+// client components). A linked mention is a <span data-entity-type data-entity-id> around the
+// words of the text, so it can be declined and edited like any other text; the entity itself lives
+// in the database. Exports drop the spans and keep the words.
+
+export const entityLinkTypes = ["character", "world", "plot"] as const;
+
+export type EntityLinkType = (typeof entityLinkTypes)[number];
+
+// What the editor needs to suggest, detect and preview an entity
+export type LinkableEntity = {
+  type: EntityLinkType;
+  id: string;
+  name: string;
+  // Newline separated, as stored on characters
+  aliases: string | null;
+  // Role, element type or plot point type
+  subtitle: string | null;
+  description: string | null;
+  imageUrl: string | null;
+};
+
+export type EntityMention = {
+  index: number;
+  length: number;
+  entity: LinkableEntity;
+};
+
+export type EntityBacklink = {
+  id: string;
+  title: string;
+  orderIndex: number;
+  mentions: number;
+};
+
+export const MAX_ENTITY_SUGGESTIONS = 8;
+
+// Ids end up in attribute selectors and queries, so only plain ids are linked
+const ENTITY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const ENTITY_LINK_PATTERN = /<span\b[^>]*\bdata-entity-id="([^"]+)"[^>]*>/gi;
+
+export function isEntityLinkType(value: unknown): value is EntityLinkType {
+  return typeof value === "string" && (entityLinkTypes as readonly string[]).includes(value);
+}
+
+export function isEntityId(value: unknown): value is string {
+  return typeof value === "string" && ENTITY_ID_PATTERN.test(value);
+}
+
+export function entityKey(type: EntityLinkType, id: string) {
+  return `${type}:${id}`;
+}
+
+function linkType(tag: string) {
+  const type = /\bdata-entity-type="([^"]+)"/i.exec(tag)?.[1];
+  return isEntityLinkType(type) ? type : null;
+}
+
+// Linked mentions per entity key in chapter HTML
+export function countEntityLinks(html: string) {
+  const counts = new Map<string, number>();
+  for (const match of html.matchAll(ENTITY_LINK_PATTERN)) {
+    const type = linkType(match[0]);
+    if (!type) continue;
+    const key = entityKey(type, match[1]!);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Chapter HTML without entity links, for exports; the linked words stay
+export function stripEntityLinks(html: string) {
+  if (!html.includes("data-entity-id")) return html;
+
+  // One entry per open <span>: whether it is a link and gets dropped with its closing tag
+  const spans: boolean[] = [];
+  return html.replace(TAG_PATTERN, (value) => {
+    const tag = parseTag(value);
+    if (tag?.name !== "span") return value;
+    if (tag.closing) return spans.pop() ? "" : value;
+
+    const isLink = "data-entity-id" in tag.attributes;
+    spans.push(isLink);
+    return isLink ? "" : value;
+  });
+}
+
+// Archive IDs -> freshly created IDs; links to entities missing from the maps are dropped
+export function replaceEntityLinkIds(html: string, ids: Record<EntityLinkType, Map<string, string>>) {
+  if (!html.includes("data-entity-id")) return html;
+
+  const rewritten = html.replace(ENTITY_LINK_PATTERN, (tag, id: string) => {
+    const type = linkType(tag);
+    const replacement = type ? ids[type].get(id) : undefined;
+    return replacement ? tag.replace(`data-entity-id="${id}"`, `data-entity-id="${replacement}"`) : tag;
+  });
+  if (!/data-entity-id="[^"]+"/.test(rewritten)) return rewritten;
+
+  // Links whose entity did not come along carry an old id; they lose the span but keep the words
+  const known = new Set(Object.values(ids).flatMap((map) => [...map.values()]));
+  const spans: boolean[] = [];
+  return rewritten.replace(TAG_PATTERN, (value) => {
+    const tag = parseTag(value);
+    if (tag?.name !== "span") return value;
+    if (tag.closing) return spans.pop() ? "" : value;
+
+    const id = tag.attributes["data-entity-id"];
+    const isStale = id !== undefined && !known.has(id);
+    spans.push(isStale);
+    return isStale ? "" : value;
+  });
+}
+
+// Chapters that link the entity, in book order
+export function buildEntityBacklinks(
+  chapters: { id: string; title: string; orderIndex: number; content: string }[],
+  type: EntityLinkType,
+  id: string
+): EntityBacklink[] {
+  const key = entityKey(type, id);
+  return chapters
+    .map((chapter) => ({
+      id: chapter.id,
+      title: chapter.title,
+      orderIndex: chapter.orderIndex,
+      mentions: countEntityLinks(chapter.content).get(key) ?? 0,
+    }))
+    .filter((chapter) => chapter.mentions > 0)
+    .sort((a, b) => a.orderIndex - b.orderIndex);
+}
+
+function normalize(value: string) {
+  return value.toLocaleLowerCase().normalize("NFD").replace(/\p{M}/gu, "");
+}
+
+// Entities for the @ query: names starting with the query first, then names or aliases with a word
+// starting with it, then any other match
+export function searchEntities(entities: LinkableEntity[], query: string, limit = MAX_ENTITY_SUGGESTIONS) {
+  const needle = normalize(query.trim());
+  const rank = (entity: LinkableEntity) => {
+    if (!needle) return 0;
+    const name = normalize(entity.name);
+    if (name.startsWith(needle)) return 0;
+    const terms = [name, ...parseAliases(entity.aliases).map(normalize)];
+    if (terms.some((term) => term.split(/[^\p{L}\p{N}]+/u).some((word) => word.startsWith(needle)))) return 1;
+    if (terms.some((term) => term.includes(needle))) return 2;
+    return null;
+  };
+
+  return entities
+    .map((entity) => ({ entity, rank: rank(entity) }))
+    .filter((entry): entry is { entity: LinkableEntity; rank: number } => entry.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.entity.name.localeCompare(b.entity.name))
+    .slice(0, limit)
+    .map((entry) => entry.entity);
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Unlinked mentions of the entities in plain text, for linking them automatically. Characters are
+// found like in the presence detection (name, aliases, unambiguous name parts), world elements and
+// plot points by their full name. A word that names several entities is left alone.
+export function findEntityMentions(text: string, entities: LinkableEntity[]): EntityMention[] {
+  const owners = new Map<string, LinkableEntity[]>();
+  const addTerm = (term: string, entity: LinkableEntity) => {
+    const list = owners.get(term) ?? [];
+    if (!list.includes(entity)) list.push(entity);
+    owners.set(term, list);
+  };
+
+  const characters = entities.filter((entity) => entity.type === "character");
+  const characterTerms = characterNameTerms(characters);
+  for (const character of characters) {
+    for (const term of characterTerms[character.id] ?? []) addTerm(term, character);
+  }
+  for (const entity of entities) {
+    if (entity.type === "character") continue;
+    for (const term of [entity.name.trim(), ...parseAliases(entity.aliases)]) {
+      if (term) addTerm(term, entity);
+    }
+  }
+
+  const terms = [...owners.keys()].sort((a, b) => b.length - a.length);
+  if (terms.length === 0) return [];
+
+  const pattern = new RegExp(
+    `(^|[^\\p{L}\\p{N}_])((${terms.map(escapeRegExp).join("|")})(?:s|'s|’s|'|’)?)(?=$|[^\\p{L}\\p{N}_])`,
+    "gu"
+  );
+  const mentions: EntityMention[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const candidates = owners.get(match[3]!) ?? [];
+    if (candidates.length !== 1) continue;
+    mentions.push({ index: match.index + match[1]!.length, length: match[2]!.length, entity: candidates[0]! });
+  }
+  return mentions;
+}
@@ -0,0 +1,18 @@
+// Settings for the DOCX manuscript export. Shared between the book preview and the exporter.
+
+export type DocxExportOptions = {
+  // Open comment threads become Word comments on the commented text
+  comments: boolean;
+};
+
+export const defaultDocxOptions: DocxExportOptions = {
+  comments: false,
+};
+
+export function normalizeDocxOptions(value: unknown): DocxExportOptions {
+  const input = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+
+  return {
+    comments: typeof input.comments === "boolean" ? input.comments : defaultDocxOptions.comments,
+  };
+}
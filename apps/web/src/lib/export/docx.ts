@@ -0,0 +1,301 @@
+import {
+  AlignmentType,
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  DeletedTextRun,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  InsertedTextRun,
+  Packer,
+  PageBreak,
+  Paragraph,
+  TextRun,
+  type ICommentOptions,
+  type ParagraphChild,
+} from "docx";
+
+import { parseHtmlBlocks, type ContentBlock, type TextAlign, type TextRun as BlockRun } from "@/lib/html-blocks";
+import { chapterLabels, type ExportBook, type ExportCommentThread } from "@/lib/export/shared";
+
+// Word manuscript for editors: title page, one section per chapter with a page break in between,
+// first-line indented paragraphs. Images are left out. Tracked changes from the editor become
+// Word revisions that can be accepted or rejected in Word, comment threads (when loaded) become
+// Word comments on their text ranges.
+
+// Ranges of the current chapter's comment threads. Word has no threaded replies, so the first
+// comment and each reply become separate Word comments on the same range.
+type CommentRanges = {
+  // Anchor id -> Word comment ids of the thread
+  ids: Map<string, number[]>;
+  started: Set<string>;
+  // Last run of each anchor, after which its ranges end
+  lastRuns: Map<string, BlockRun>;
+};
+
+// Revisions and comments need their own w:id within the document
+type Annotations = {
+  nextId: number;
+  comments: CommentRanges;
+};
+
+// Word expects the reference to a comment inside a run of its own
+class CommentReferenceRun extends TextRun {
+  constructor(id: number) {
+    super({});
+    this.root.push(new CommentReference(id));
+  }
+}
+
+const alignments: Record<TextAlign, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED,
+};
+
+const headingStyles = [
+  { heading: HeadingLevel.HEADING_1, spacing: { before: 400, after: 200 } },
+  { heading: HeadingLevel.HEADING_2, spacing: { before: 300, after: 150 } },
+  { heading: HeadingLevel.HEADING_3, spacing: { before: 200, after: 100 } },
+] as const;
+
+// Word expects xsd:dateTime without fractional seconds
+function revisionDate(date: string) {
+  const parsed = new Date(date);
+  return (Number.isNaN(parsed.getTime()) ? new Date() : parsed).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+// Line breaks inside a run become separate runs with a break
+function textRuns(run: BlockRun, annotations: Annotations, extra: { bold?: boolean; italics?: boolean } = {}) {
+  return run.text.split("\n").map((text, index): ParagraphChild => {
+    const options = {
+      text,
+      break: index > 0 ? 1 : undefined,
+      bold: run.bold || extra.bold,
+      italics: run.italic || extra.italics,
+      underline: run.underline ? {} : undefined,
+      strike: run.strike,
+      font: run.code ? "Courier New" : undefined,
+      style: run.href ? "Hyperlink" : undefined,
+    };
+    if (!run.change) return new TextRun(options);
+
+    const revision = {
+      ...options,
+      id: annotations.nextId++,
+      author: run.change.author || "Unknown",
+      date: revisionDate(run.change.date),
+    };
+    return run.change.type === "insertion" ? new InsertedTextRun(revision) : new DeletedTextRun(revision);
+  });
+}
+
+function commentStarts(run: BlockRun, ranges: CommentRanges): ParagraphChild[] {
+  return (run.comments ?? []).flatMap((anchorId) => {
+    const ids = ranges.ids.get(anchorId);
+    if (!ids || ranges.started.has(anchorId)) return [];
+    ranges.started.add(anchorId);
+    return ids.map((id) => new CommentRangeStart(id));
+  });
+}
+
+function commentEnds(run: BlockRun, ranges: CommentRanges): ParagraphChild[] {
+  return (run.comments ?? []).flatMap((anchorId) => {
+    const ids = ranges.ids.get(anchorId);
+    if (!ids || ranges.lastRuns.get(anchorId) !== run) return [];
+    return ids.flatMap((id) => [new CommentRangeEnd(id), new CommentReferenceRun(id)]);
+  });
+}
+
+function paragraphChildren(
+  runs: BlockRun[],
+  annotations: Annotations,
+  extra?: { bold?: boolean; italics?: boolean }
+): ParagraphChild[] {
+  return runs.flatMap((run): ParagraphChild[] => [
+    ...commentStarts(run, annotations.comments),
+    ...(run.href && /^(https?:|mailto:)/i.test(run.href)
+      ? [new ExternalHyperlink({ link: run.href, children: textRuns(run, annotations, extra) })]
+      : textRuns(run, annotations, extra)),
+    ...commentEnds(run, annotations.comments),
+  ]);
+}
+
+function blockToParagraph(block: ContentBlock, annotations: Annotations): Paragraph | null {
+  switch (block.type) {
+    case "heading": {
+      const style = headingStyles[Math.min(block.level, 3) - 1]!;
+      return new Paragraph({
+        heading: style.heading,
+        alignment: block.align && alignments[block.align],
+        children: paragraphChildren(block.runs, annotations, { bold: true }),
+        spacing: style.spacing,
+      });
+    }
+    case "paragraph":
+      if (block.quote) {
+        return new Paragraph({
+          alignment: block.align && alignments[block.align],
+          children: paragraphChildren(block.runs, annotations, { italics: true }),
+          spacing: { before: 200, after: 200 },
+          indent: { left: 720, right: 720 },
+        });
+      }
+      return new Paragraph({
+        alignment: block.align && alignments[block.align],
+        children: paragraphChildren(block.runs, annotations),
+        spacing: { after: 200 },
+        indent: { firstLine: 720 }, // 0.5 inch indent
+      });
+    case "listItem":
+      return new Paragraph({
+        children: [
+          new TextRun({ text: block.ordered ? `${block.index}. ` : "• " }),
+          ...paragraphChildren(block.runs, annotations),
+        ],
+        indent: { left: 720 * (block.depth + 1) },
+        spacing: { after: 100 },
+      });
+    case "separator":
+      return new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: "* * *" })],
+        spacing: { before: 200, after: 200 },
+      });
+    case "image":
+      return null;
+  }
+}
+
+function commentParagraphs(text: string) {
+  return text.split(/\n+/).map((line) => new Paragraph({ children: [new TextRun({ text: line })] }));
+}
+
+// Word comments for the threads of one chapter; only threads whose anchor is still in the text
+// get one, and the ranges of the chapter's paragraphs are set up to refer to them
+function chapterComments(
+  blocks: ContentBlock[],
+  threads: ExportCommentThread[],
+  annotations: Annotations
+): ICommentOptions[] {
+  const lastRuns = new Map<string, BlockRun>();
+  for (const block of blocks) {
+    if (!("runs" in block)) continue;
+    for (const run of block.runs) {
+      for (const anchorId of run.comments ?? []) lastRuns.set(anchorId, run);
+    }
+  }
+
+  const comments: ICommentOptions[] = [];
+  const ids = new Map<string, number[]>();
+  for (const thread of threads) {
+    if (!lastRuns.has(thread.anchorId) || ids.has(thread.anchorId)) continue;
+    const threadComments = [thread, ...thread.replies].map((comment) => ({
+      id: annotations.nextId++,
+      author: comment.author || "Unknown",
+      date: comment.createdAt,
+      children: commentParagraphs(comment.content),
+    }));
+    comments.push(...threadComments);
+    ids.set(thread.anchorId, threadComments.map((comment) => comment.id));
+  }
+
+  annotations.comments = { ids, started: new Set(), lastRuns };
+  return comments;
+}
+
+function blocksToParagraphs(blocks: ContentBlock[], annotations: Annotations): Paragraph[] {
+  return blocks
+    .map((block) => blockToParagraph(block, annotations))
+    .filter((paragraph): paragraph is Paragraph => paragraph !== null);
+}
+
+export async function buildDocx(book: ExportBook): Promise<Uint8Array> {
+  const labels = chapterLabels(book.language);
+  const author = (book.author ?? "").trim();
+  const children: Paragraph[] = [];
+  const annotations: Annotations = {
+    nextId: 1,
+    comments: { ids: new Map(), started: new Set(), lastRuns: new Map() },
+  };
+  const comments: ICommentOptions[] = [];
+
+  // Title page
+  children.push(
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 3000 },
+      children: [
+        new TextRun({
+          text: book.title,
+          bold: true,
+          size: 72, // 36pt
+        }),
+      ],
+    })
+  );
+  if (author) {
+    children.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 400 },
+        children: [
+          new TextRun({
+            text: author,
+            size: 32, // 16pt
+            italics: true,
+          }),
+        ],
+      })
+    );
+  }
+  children.push(new Paragraph({ children: [new PageBreak()] }));
+
+  book.chapters.forEach((chapter, index) => {
+    const blocks = parseHtmlBlocks(chapter.content);
+    comments.push(...chapterComments(blocks, chapter.comments ?? [], annotations));
+
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 600, after: 400 },
+        children: [
+          new TextRun({
+            text: `${labels.chapter} ${index + 1}`,
+            size: 28, // 14pt
+          }),
+        ],
+      }),
+      new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 600 },
+        children: [
+          new TextRun({
+            text: chapter.title.trim() || labels.untitled,
+            bold: true,
+            size: 36, // 18pt
+          }),
+        ],
+      }),
+      ...blocksToParagraphs(blocks, annotations)
+    );
+
+    if (index < book.chapters.length - 1) {
+      children.push(new Paragraph({ children: [new PageBreak()] }));
+    }
+  });
+
+  const doc = new Document({
+    creator: author,
+    title: book.title,
+    description: author ? `${book.title} by ${author}` : book.title,
+    comments: comments.length > 0 ? { children: comments } : undefined,
+    sections: [{ properties: {}, children }],
+  });
+
+  return new Uint8Array(await Packer.toBuffer(doc));
+}
@@ -0,0 +1,42 @@
+// Front and back matter for the EPUB export. Shared between the export dialog and the
+// exporter; texts are plain text with paragraphs separated by blank lines.
+
+export type EpubExportOptions = {
+  // Title page with title and author after the cover
+  titlePage: boolean;
+  // Copyright notice with year and author, also written to dc:rights
+  copyrightPage: boolean;
+  dedication: string;
+  acknowledgements: string;
+  aboutAuthor: string;
+};
+
+export const defaultEpubOptions: EpubExportOptions = {
+  titlePage: true,
+  copyrightPage: true,
+  dedication: "",
+  acknowledgements: "",
+  aboutAuthor: "",
+};
+
+const MAX_TEXT_LENGTH = 20_000;
+
+function flag(value: unknown, fallback: boolean) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim().slice(0, MAX_TEXT_LENGTH) : "";
+}
+
+export function normalizeEpubOptions(value: unknown): EpubExportOptions {
+  const input = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+
+  return {
+    titlePage: flag(input.titlePage, defaultEpubOptions.titlePage),
+    copyrightPage: flag(input.copyrightPage, defaultEpubOptions.copyrightPage),
+    dedication: text(input.dedication),
+    acknowledgements: text(input.acknowledgements),
+    aboutAuthor: text(input.aboutAuthor),
+  };
+}
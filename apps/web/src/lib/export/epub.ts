@@ -0,0 +1,472 @@
+import { createHash } from "crypto";
+import JSZip from "jszip";
+
+import { readBookImage } from "@/lib/book-assets";
+import { defaultEpubOptions, type EpubExportOptions } from "@/lib/export/epub-options";
+import { chapterLabels, escapeXml, ExportError, fileExtension, type ExportBook } from "@/lib/export/shared";
+import { toXhtml } from "@/lib/export/xhtml";
+import { parseHtmlBlocks } from "@/lib/html-blocks";
+
+// EPUB 3 package that passes epubcheck, with an EPUB 2 NCX for older readers. Chapter HTML is
+// written as validated XHTML; images from the uploads folder and data URLs are packed into the
+// archive, images that cannot be read are left out since EPUBs may not reference remote images.
+// Accessibility metadata follows the schema.org properties required by the EPUB Accessibility spec.
+
+type ImageAsset = {
+  id: string;
+  href: string;
+  mediaType: string;
+  data: Uint8Array;
+};
+
+type ContentDocument = {
+  id: string;
+  href: string;
+  title: string;
+  // Structural semantics for the landmarks and reading systems
+  type: string;
+  inToc: boolean;
+};
+
+type MatterLabels = {
+  cover: string;
+  titlePage: string;
+  copyright: string;
+  rights: string;
+  dedication: string;
+  acknowledgements: string;
+  aboutAuthor: string;
+  landmarks: string;
+  bodyStart: string;
+};
+
+function matterLabels(language: string): MatterLabels {
+  return language === "de"
+    ? {
+        cover: "Cover",
+        titlePage: "Titelseite",
+        copyright: "Impressum",
+        rights: "Alle Rechte vorbehalten.",
+        dedication: "Widmung",
+        acknowledgements: "Danksagung",
+        aboutAuthor: "Über den Autor",
+        landmarks: "Orientierungspunkte",
+        bodyStart: "Beginn",
+      }
+    : {
+        cover: "Cover",
+        titlePage: "Title page",
+        copyright: "Copyright",
+        rights: "All rights reserved.",
+        dedication: "Dedication",
+        acknowledgements: "Acknowledgements",
+        aboutAuthor: "About the author",
+        landmarks: "Landmarks",
+        bodyStart: "Start of content",
+      };
+}
+
+const epubStyles = `
+body {
+    font-family: "Georgia", "Times New Roman", serif;
+    line-height: 1.6;
+    margin: 0;
+    padding: 1.5rem;
+    color: #111111;
+}
+
+h1, h2, h3, h4 {
+    font-weight: 700;
+    margin: 1.2em 0 0.6em;
+}
+
+p {
+    margin: 0 0 1em;
+    text-indent: 1.5em;
+}
+
+p:first-of-type {
+    text-indent: 0;
+}
+
+img {
+    max-width: 100%;
+    height: auto;
+}
+
+blockquote {
+    margin: 1em 2em;
+    padding-left: 1em;
+    border-left: 2px solid #999999;
+    color: #555555;
+}
+
+.cover {
+    margin: 0;
+    padding: 0;
+    text-align: center;
+}
+
+.cover img {
+    max-height: 100vh;
+    max-width: 100%;
+}
+
+.titlepage, .copyright, .dedication {
+    text-align: center;
+}
+
+.titlepage h1 {
+    margin-top: 30%;
+}
+
+.titlepage p, .copyright p, .dedication p {
+    text-indent: 0;
+}
+
+.copyright {
+    margin-top: 50%;
+    font-size: 0.85em;
+}
+
+.dedication {
+    margin-top: 30%;
+    font-style: italic;
+}
+`;
+
+// Stable name-based UUID, so re-exports of a book keep the identifier stores match uploads by
+function bookUuid(bookId: string) {
+  const hash = createHash("sha1").update(`bucherstellung:book:${bookId}`).digest();
+  hash[6] = (hash[6]! & 0x0f) | 0x50;
+  hash[8] = (hash[8]! & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function textParagraphs(text: string) {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${escapeXml(paragraph).replace(/\n/g, "<br />")}</p>`)
+    .join("\n    ");
+}
+
+function xhtmlDocument(languageTag: string, title: string, body: string, bodyAttributes = "") {
+  const lang = escapeXml(languageTag);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+  <meta charset="utf-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyAttributes}>
+  ${body}
+</body>
+</html>`;
+}
+
+// Links inside the book may only point to the web; app-relative links have no target in the EPUB
+function resolveLink(href: string) {
+  return /^(https?:|mailto:)/i.test(href) ? href : null;
+}
+
+export async function buildEpub(book: ExportBook, options: EpubExportOptions = defaultEpubOptions): Promise<Uint8Array> {
+  // epubcheck rejects the empty table of contents a book without chapters would get
+  if (book.chapters.length === 0) {
+    throw new ExportError("Book has no chapters to export");
+  }
+
+  const labels = chapterLabels(book.language);
+  const matter = matterLabels(book.language);
+  const languageTag = book.language.trim() || "de";
+  const titleText = book.title.trim() || "Book";
+  const authorText = (book.author ?? "").trim();
+  const identifier = `urn:uuid:${bookUuid(book.id)}`;
+  const year = new Date().getFullYear();
+  const rightsText = `© ${year}${authorText ? ` ${authorText}` : ""}. ${matter.rights}`;
+
+  const zip = new JSZip();
+  // Folder entries are not part of the OCF container, so files are added without them
+  const addFile = (path: string, data: string | Uint8Array) =>
+    zip.file(path, data, { createFolders: false, ...(typeof data !== "string" && { binary: true }) });
+
+  // The mimetype file has to come first and uncompressed
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE", createFolders: false });
+  addFile(
+    "META-INF/container.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`
+  );
+  addFile("OEBPS/styles.css", epubStyles);
+
+  const imageAssets: ImageAsset[] = [];
+  const imageBySrc = new Map<string, ImageAsset>();
+
+  const registerImage = async (src: string, name: string, idOverride?: string) => {
+    const existing = imageBySrc.get(src);
+    if (existing) return existing;
+
+    const image = await readBookImage(src);
+    if (!image) return null;
+
+    const asset = {
+      id: idOverride ?? `img-${imageAssets.length + 1}`,
+      href: `images/${name}${fileExtension(image.mediaType)}`,
+      mediaType: image.mediaType,
+      data: image.data,
+    };
+    imageAssets.push(asset);
+    imageBySrc.set(src, asset);
+    return asset;
+  };
+
+  const documents: ContentDocument[] = [];
+  const addDocument = (document: ContentDocument, content: string) => {
+    addFile(`OEBPS/${document.href}`, content);
+    documents.push(document);
+  };
+
+  // Front matter
+  const coverAsset = book.coverUrl ? await registerImage(book.coverUrl, "cover", "cover-image") : null;
+  if (coverAsset) {
+    addDocument(
+      { id: "cover", href: "cover.xhtml", title: matter.cover, type: "cover", inToc: false },
+      xhtmlDocument(
+        languageTag,
+        titleText,
+        `<section epub:type="cover">
+    <img src="${coverAsset.href}" alt="${escapeXml(titleText)}"/>
+  </section>`,
+        ` class="cover"`
+      )
+    );
+  }
+
+  if (options.titlePage) {
+    addDocument(
+      { id: "titlepage", href: "titlepage.xhtml", title: matter.titlePage, type: "titlepage", inToc: false },
+      xhtmlDocument(
+        languageTag,
+        titleText,
+        `<section class="titlepage" epub:type="titlepage">
+    <h1 epub:type="fulltitle">${escapeXml(titleText)}</h1>
+    ${authorText ? `<p>${escapeXml(authorText)}</p>` : ""}
+  </section>`
+      )
+    );
+  }
+
+  if (options.copyrightPage) {
+    addDocument(
+      { id: "copyright", href: "copyright.xhtml", title: matter.copyright, type: "copyright-page", inToc: false },
+      xhtmlDocument(
+        languageTag,
+        matter.copyright,
+        `<section class="copyright" epub:type="copyright-page" aria-label="${escapeXml(matter.copyright)}">
+    <p>${escapeXml(titleText)}</p>
+    <p>${escapeXml(rightsText)}</p>
+  </section>`
+      )
+    );
+  }
+
+  if (options.dedication) {
+    addDocument(
+      { id: "dedication", href: "dedication.xhtml", title: matter.dedication, type: "dedication", inToc: false },
+      xhtmlDocument(
+        languageTag,
+        matter.dedication,
+        `<section class="dedication" epub:type="dedication" role="doc-dedication" aria-label="${escapeXml(matter.dedication)}">
+    ${textParagraphs(options.dedication)}
+  </section>`
+      )
+    );
+  }
+
+  const frontMatterCount = documents.length;
+
+  // Body matter
+  let bodyImages = 0;
+  let imagesWithoutAlt = 0;
+  for (let index = 0; index < book.chapters.length; index++) {
+    const chapter = book.chapters[index]!;
+    const chapterTitle = chapter.title.trim() || `${labels.chapter} ${index + 1}`;
+    const bodyHtml = await toXhtml(chapter.content, {
+      resolveImage: async (src, imageIndex) => {
+        const asset = await registerImage(src, `chapter_${index + 1}_img_${imageIndex}`);
+        if (asset) bodyImages++;
+        return asset?.href ?? null;
+      },
+      resolveLink,
+    });
+    imagesWithoutAlt += parseHtmlBlocks(chapter.content).filter((block) => block.type === "image" && !block.alt.trim()).length;
+
+    addDocument(
+      { id: `chapter-${index + 1}`, href: `chapter-${index + 1}.xhtml`, title: chapterTitle, type: "chapter", inToc: true },
+      xhtmlDocument(
+        languageTag,
+        chapterTitle,
+        `<section class="chapter" epub:type="chapter" role="doc-chapter" aria-labelledby="chapter-${index + 1}-title">
+    <h1 id="chapter-${index + 1}-title">${escapeXml(chapterTitle)}</h1>
+    ${bodyHtml}
+  </section>`,
+        ` epub:type="bodymatter"`
+      )
+    );
+  }
+
+  // Back matter
+  const backMatter = [
+    { id: "acknowledgements", title: matter.acknowledgements, type: "acknowledgments", role: "doc-acknowledgments", text: options.acknowledgements },
+    { id: "about-author", title: matter.aboutAuthor, type: "backmatter", role: null, text: options.aboutAuthor },
+  ];
+  for (const entry of backMatter) {
+    if (!entry.text) continue;
+    addDocument(
+      { id: entry.id, href: `${entry.id}.xhtml`, title: entry.title, type: entry.type, inToc: true },
+      xhtmlDocument(
+        languageTag,
+        entry.title,
+        `<section epub:type="${entry.type}"${entry.role ? ` role="${entry.role}"` : ""} aria-labelledby="${entry.id}-title">
+    <h1 id="${entry.id}-title">${escapeXml(entry.title)}</h1>
+    ${textParagraphs(entry.text)}
+  </section>`,
+        ` epub:type="backmatter"`
+      )
+    );
+  }
+
+  // Navigation
+  const tocDocuments = documents.filter((document) => document.inToc);
+  const firstChapter = documents.find((document) => document.type === "chapter");
+  const landmarks = [
+    ...(coverAsset ? [{ type: "cover", href: "cover.xhtml", title: matter.cover }] : []),
+    { type: "toc", href: "nav.xhtml#toc", title: labels.contents },
+    ...(firstChapter ? [{ type: "bodymatter", href: firstChapter.href, title: matter.bodyStart }] : []),
+  ];
+
+  addFile(
+    "OEBPS/nav.xhtml",
+    xhtmlDocument(
+      languageTag,
+      labels.contents,
+      `<nav epub:type="toc" id="toc" role="doc-toc" aria-labelledby="toc-title">
+    <h1 id="toc-title">${escapeXml(labels.contents)}</h1>
+    <ol>
+      ${tocDocuments.map((document) => `<li><a href="${document.href}">${escapeXml(document.title)}</a></li>`).join("\n      ")}
+    </ol>
+  </nav>
+  <nav epub:type="landmarks" id="landmarks" hidden="hidden">
+    <h2>${escapeXml(matter.landmarks)}</h2>
+    <ol>
+      ${landmarks.map((landmark) => `<li><a epub:type="${landmark.type}" href="${landmark.href}">${escapeXml(landmark.title)}</a></li>`).join("\n      ")}
+    </ol>
+  </nav>`
+    )
+  );
+
+  const navPoints = tocDocuments
+    .map(
+      (document, index) => `
+    <navPoint id="navpoint-${index + 1}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(document.title)}</text></navLabel>
+      <content src="${document.href}"/>
+    </navPoint>`
+    )
+    .join("");
+
+  addFile(
+    "OEBPS/toc.ncx",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${escapeXml(languageTag)}">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+    <meta name="dtb:depth" content="1"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(titleText)}</text></docTitle>
+  <navMap>${navPoints}
+  </navMap>
+</ncx>`
+  );
+
+  for (const asset of imageAssets) {
+    addFile(`OEBPS/${asset.href}`, asset.data);
+  }
+
+  // Package document
+  const manifestEntries = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
+    `<item id="css" href="styles.css" media-type="text/css"/>`,
+    ...documents.map((document) => `<item id="${document.id}" href="${document.href}" media-type="application/xhtml+xml"/>`),
+    ...imageAssets.map(
+      (asset) =>
+        `<item id="${asset.id}" href="${asset.href}" media-type="${asset.mediaType}"${asset === coverAsset ? ` properties="cover-image"` : ""}/>`
+    ),
+  ];
+
+  const spineEntries = [
+    ...documents.slice(0, frontMatterCount).map((document) => `<itemref idref="${document.id}"/>`),
+    `<itemref idref="nav" linear="no"/>`,
+    ...documents.slice(frontMatterCount).map((document) => `<itemref idref="${document.id}"/>`),
+  ];
+
+  const hasImages = bodyImages > 0;
+  const imagesDescribed = imagesWithoutAlt === 0;
+  const accessibility = [
+    `<meta property="schema:accessMode">textual</meta>`,
+    ...(hasImages ? [`<meta property="schema:accessMode">visual</meta>`] : []),
+    `<meta property="schema:accessModeSufficient">${hasImages && !imagesDescribed ? "textual,visual" : "textual"}</meta>`,
+    `<meta property="schema:accessibilityFeature">structuralNavigation</meta>`,
+    `<meta property="schema:accessibilityFeature">tableOfContents</meta>`,
+    `<meta property="schema:accessibilityFeature">readingOrder</meta>`,
+    ...(hasImages && imagesDescribed ? [`<meta property="schema:accessibilityFeature">alternativeText</meta>`] : []),
+    `<meta property="schema:accessibilityHazard">none</meta>`,
+    `<meta property="schema:accessibilitySummary">${
+      hasImages && !imagesDescribed
+        ? "Reflowable text with headings and a navigable table of contents. Some images have no text alternative."
+        : "Reflowable text with headings and a navigable table of contents. All content is available as text."
+    }</meta>`,
+  ];
+
+  const metadata = [
+    `<dc:identifier id="bookid">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(titleText)}</dc:title>`,
+    `<dc:language>${escapeXml(languageTag)}</dc:language>`,
+    ...(authorText ? [`<dc:creator id="creator">${escapeXml(authorText)}</dc:creator>`, `<meta refines="#creator" property="role" scheme="marc:relators">aut</meta>`] : []),
+    ...(book.description?.trim() ? [`<dc:description>${escapeXml(book.description.trim())}</dc:description>`] : []),
+    ...(book.genre?.trim() ? [`<dc:subject>${escapeXml(book.genre.trim())}</dc:subject>`] : []),
+    ...(options.copyrightPage ? [`<dc:rights>${escapeXml(rightsText)}</dc:rights>`] : []),
+    `<meta property="dcterms:modified">${new Date().toISOString().split(".")[0]}Z</meta>`,
+    ...accessibility,
+    ...(coverAsset ? [`<meta name="cover" content="${coverAsset.id}"/>`] : []),
+  ];
+
+  addFile(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" unique-identifier="bookid" version="3.0" xml:lang="${escapeXml(languageTag)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join("\n    ")}
+  </metadata>
+  <manifest>
+    ${manifestEntries.join("\n    ")}
+  </manifest>
+  <spine toc="ncx">
+    ${spineEntries.join("\n    ")}
+  </spine>
+</package>`
+  );
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
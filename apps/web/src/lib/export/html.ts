@@ -0,0 +1,107 @@
+import { readBookImage } from "@/lib/book-assets";
+import { chapterLabels, escapeXml, type ExportBook } from "@/lib/export/shared";
+import { toXhtml } from "@/lib/export/xhtml";
+
+// A single self-contained HTML file: images from the uploads folder are inlined as data URLs so
+// the file can be opened or mailed without the app running.
+
+const htmlStyles = `
+body {
+    font-family: "Georgia", "Times New Roman", serif;
+    line-height: 1.6;
+    max-width: 42rem;
+    margin: 0 auto;
+    padding: 2rem 1.5rem;
+    color: #111111;
+}
+
+header, nav {
+    text-align: center;
+    margin-bottom: 3rem;
+}
+
+nav ol {
+    display: inline-block;
+    text-align: left;
+}
+
+section.chapter {
+    margin-top: 4rem;
+}
+
+p {
+    margin: 0 0 1em;
+}
+
+img {
+    max-width: 100%;
+    height: auto;
+}
+
+blockquote {
+    margin: 1em 2em;
+    padding-left: 1em;
+    border-left: 2px solid #999999;
+    color: #555555;
+}
+
+.cover-image {
+    display: block;
+    max-width: 100%;
+    margin: 0 auto 2rem;
+}
+`;
+
+async function inlineImage(src: string) {
+  if (src.startsWith("data:")) return src;
+  const image = await readBookImage(src);
+  return image ? `data:${image.mediaType};base64,${Buffer.from(image.data).toString("base64")}` : src;
+}
+
+export async function buildHtml(book: ExportBook): Promise<Uint8Array> {
+  const labels = chapterLabels(book.language);
+  const author = (book.author ?? "").trim();
+
+  const chapters: string[] = [];
+  const navItems: string[] = [];
+
+  for (let index = 0; index < book.chapters.length; index++) {
+    const chapter = book.chapters[index]!;
+    const title = escapeXml(chapter.title.trim() || `${labels.chapter} ${index + 1}`);
+    const body = await toXhtml(chapter.content, { resolveImage: inlineImage });
+    navItems.push(`<li><a href="#chapter-${index + 1}">${title}</a></li>`);
+    chapters.push(`<section class="chapter" id="chapter-${index + 1}">
+  <h1>${title}</h1>
+  ${body}
+</section>`);
+  }
+
+  const cover = book.coverUrl ? await inlineImage(book.coverUrl) : null;
+
+  const html = `<!DOCTYPE html>
+<html lang="${escapeXml(book.language)}">
+<head>
+  <meta charset="utf-8"/>
+  <meta name="viewport" content="width=device-width, initial-scale=1"/>
+  <title>${escapeXml(book.title)}</title>${author ? `\n  <meta name="author" content="${escapeXml(author)}"/>` : ""}
+  <style>${htmlStyles}</style>
+</head>
+<body>
+<header>
+  ${cover ? `<img class="cover-image" src="${escapeXml(cover)}" alt="Cover"/>` : ""}
+  <h1>${escapeXml(book.title)}</h1>
+  ${author ? `<p>${escapeXml(author)}</p>` : ""}
+</header>
+<nav>
+  <h2>${escapeXml(labels.contents)}</h2>
+  <ol>
+    ${navItems.join("\n    ")}
+  </ol>
+</nav>
+${chapters.join("\n")}
+</body>
+</html>
+`;
+
+  return new TextEncoder().encode(html);
+}
@@ -0,0 +1,127 @@
+import prisma from "@bucherstellung/db";
+
+import { stripCommentAnchors } from "@/lib/chapter-comments";
+import { stripEntityLinks } from "@/lib/entity-links";
+import { buildDocx } from "@/lib/export/docx";
+import type { DocxExportOptions } from "@/lib/export/docx-options";
+import { buildEpub } from "@/lib/export/epub";
+import type { EpubExportOptions } from "@/lib/export/epub-options";
+import { buildHtml } from "@/lib/export/html";
+import { buildMarkdown } from "@/lib/export/markdown";
+import {
+  exportFileBase,
+  type ExportBook,
+  type ExportCommentThread,
+  type ExportFile,
+  type ExportFormat,
+} from "@/lib/export/shared";
+import { cleanSceneBreaks } from "@/lib/scenes";
+import { acceptTrackedChangesHtml } from "@/lib/track-changes";
+
+// Headless book export, used by the export route and the editor's preview alike so both produce
+// the same files.
+
+export { ExportError, exportFormats, isExportFormat, type ExportFile, type ExportFormat } from "@/lib/export/shared";
+
+// Format-specific settings; formats without an entry have none
+export type ExportOptions = {
+  epub?: EpubExportOptions;
+  docx?: DocxExportOptions;
+};
+
+type ExportFormatSpec = {
+  contentType: string;
+  extension: string;
+  // Keep tracked changes and comment anchors for review instead of exporting the clean text
+  keepsReviewMarkup?: boolean;
+  build: (book: ExportBook, options: ExportOptions) => Promise<Uint8Array> | Uint8Array;
+};
+
+const formats: Record<ExportFormat, ExportFormatSpec> = {
+  epub: { contentType: "application/epub+zip", extension: "epub", build: (book, options) => buildEpub(book, options.epub) },
+  docx: {
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extension: "docx",
+    keepsReviewMarkup: true,
+    build: buildDocx,
+  },
+  md: { contentType: "text/markdown; charset=utf-8", extension: "md", build: buildMarkdown },
+  html: { contentType: "text/html; charset=utf-8", extension: "html", build: buildHtml },
+};
+
+// Open threads whose text is still commented, grouped by chapter id
+async function loadCommentThreads(bookId: string) {
+  const comments = await prisma.chapterComment.findMany({
+    where: { chapter: { bookId }, parentId: null, resolved: false, anchorId: { not: null } },
+    orderBy: { createdAt: "asc" },
+    select: {
+      chapterId: true,
+      anchorId: true,
+      author: true,
+      content: true,
+      createdAt: true,
+      replies: {
+        orderBy: { createdAt: "asc" },
+        select: { author: true, content: true, createdAt: true },
+      },
+    },
+  });
+
+  const threads = new Map<string, ExportCommentThread[]>();
+  for (const { chapterId, anchorId, ...thread } of comments) {
+    const chapterThreads = threads.get(chapterId) ?? [];
+    chapterThreads.push({ ...thread, anchorId: anchorId! });
+    threads.set(chapterId, chapterThreads);
+  }
+  return threads;
+}
+
+export async function loadExportBook(bookId: string, { comments = false } = {}): Promise<ExportBook | null> {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    select: {
+      id: true,
+      title: true,
+      author: true,
+      description: true,
+      genre: true,
+      language: true,
+      coverUrl: true,
+      chapters: {
+        orderBy: { orderIndex: "asc" },
+        select: { id: true, title: true, content: true },
+      },
+    },
+  });
+  if (!book || !comments) return book;
+
+  const threads = await loadCommentThreads(bookId);
+  return {
+    ...book,
+    chapters: book.chapters.map((chapter) => ({ ...chapter, comments: threads.get(chapter.id) ?? [] })),
+  };
+}
+
+export async function exportBook(bookId: string, format: ExportFormat, options: ExportOptions = {}): Promise<ExportFile | null> {
+  const book = await loadExportBook(bookId, { comments: format === "docx" && !!options.docx?.comments });
+  if (!book) return null;
+
+  const { contentType, extension, keepsReviewMarkup, build } = formats[format];
+  // Scene breaks become plain separators and entity links plain text in every format
+  const source = {
+    ...book,
+    chapters: book.chapters.map((chapter) => {
+      const content = stripEntityLinks(cleanSceneBreaks(chapter.content));
+      return {
+        ...chapter,
+        content: keepsReviewMarkup ? content : stripCommentAnchors(acceptTrackedChangesHtml(content)),
+      };
+    }),
+  };
+
+  return {
+    fileName: `${exportFileBase(book.title)}.${extension}`,
+    contentType,
+    data: await build(source, options),
+  };
+}
@@ -0,0 +1,84 @@
+import { parseHtmlBlocks, type ContentBlock, type TextRun } from "@/lib/html-blocks";
+import { chapterLabels, type ExportBook } from "@/lib/export/shared";
+
+// One Markdown file for the whole book: the title as level-one heading, chapters as level-two
+// headings, headings inside chapters shifted down accordingly. Images keep their URL.
+
+function escapeMarkdown(text: string) {
+  return text.replace(/([\\`*_[\]<>|~])/g, "\\$1");
+}
+
+// Markers must touch the text, so surrounding spaces move outside of them
+function wrap(text: string, marker: string) {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+function runToMarkdown(run: TextRun) {
+  let text = run.code ? wrap(run.text.replace(/`/g, "'"), "`") : escapeMarkdown(run.text);
+  if (run.strike) text = wrap(text, "~~");
+  if (run.italic) text = wrap(text, "*");
+  if (run.bold) text = wrap(text, "**");
+  if (run.href) text = `[${text}](${run.href.replace(/[()\s]/g, encodeURIComponent)})`;
+  return text;
+}
+
+function runsToMarkdown(runs: TextRun[], linePrefix: string) {
+  // Hard line break: two trailing spaces, continuation lines keep the block prefix
+  return runs.map(runToMarkdown).join("").replace(/\n/g, `  \n${linePrefix}`);
+}
+
+function blockToMarkdown(block: ContentBlock): string {
+  switch (block.type) {
+    case "heading": {
+      const level = Math.min(block.level + 2, 6);
+      return `${"#".repeat(level)} ${runsToMarkdown(block.runs, "")}`;
+    }
+    case "paragraph": {
+      const prefix = block.quote ? "> " : "";
+      // A paragraph that starts like a list or heading would be read as one
+      const text = runsToMarkdown(block.runs, prefix).replace(/^(#|[-+] )/, "\\$1").replace(/^(\d+)\. /, "$1\\. ");
+      return `${prefix}${text}`;
+    }
+    case "listItem": {
+      const marker = block.ordered ? `${block.index}. ` : "- ";
+      const indent = "  ".repeat(block.depth);
+      const prefix = `${block.quote ? "> " : ""}${indent}`;
+      return `${prefix}${marker}${runsToMarkdown(block.runs, `${prefix}${" ".repeat(marker.length)}`)}`;
+    }
+    case "separator":
+      return "* * *";
+    case "image":
+      return `![${escapeMarkdown(block.alt)}](${block.src.startsWith("data:") ? block.src : encodeURI(block.src)})`;
+  }
+}
+
+export function htmlToMarkdown(html: string) {
+  const lines: string[] = [];
+  let previous: ContentBlock | undefined;
+
+  for (const block of parseHtmlBlocks(html)) {
+    // Items of the same list stay together, everything else is separated by a blank line
+    const sameList = previous?.type === "listItem" && block.type === "listItem";
+    if (lines.length > 0 && !sameList) lines.push("");
+    lines.push(blockToMarkdown(block));
+    previous = block;
+  }
+
+  return lines.join("\n");
+}
+
+export function buildMarkdown(book: ExportBook): Uint8Array {
+  const labels = chapterLabels(book.language);
+  const author = (book.author ?? "").trim();
+  const parts = [`# ${escapeMarkdown(book.title)}`];
+  if (author) parts.push(`*${escapeMarkdown(author)}*`);
+
+  book.chapters.forEach((chapter, index) => {
+    parts.push(`## ${escapeMarkdown(chapter.title.trim() || `${labels.chapter} ${index + 1}`)}`);
+    const body = htmlToMarkdown(chapter.content);
+    if (body) parts.push(body);
+  });
+
+  return new TextEncoder().encode(`${parts.join("\n\n")}\n`);
+}
@@ -0,0 +1,87 @@
+// Types and helpers shared by the book exporters (EPUB, DOCX, Markdown, HTML)
+
+export const exportFormats = ["epub", "docx", "md", "html"] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+// The book cannot be written in the requested format
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+export type ExportComment = {
+  author: string;
+  content: string;
+  createdAt: Date;
+};
+
+// Open comment thread on a range of the chapter text
+export type ExportCommentThread = ExportComment & {
+  anchorId: string;
+  replies: ExportComment[];
+};
+
+export type ExportChapter = {
+  title: string;
+  content: string;
+  // Only loaded for exports that keep comments
+  comments?: ExportCommentThread[];
+};
+
+export type ExportBook = {
+  id: string;
+  title: string;
+  author: string | null;
+  description: string | null;
+  genre: string | null;
+  language: string;
+  coverUrl: string | null;
+  chapters: ExportChapter[];
+};
+
+export type ExportFile = {
+  fileName: string;
+  contentType: string;
+  data: Uint8Array;
+};
+
+export type ChapterLabels = {
+  chapter: string;
+  contents: string;
+  untitled: string;
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (exportFormats as readonly string[]).includes(value);
+}
+
+export function chapterLabels(language: string): ChapterLabels {
+  return language === "de"
+    ? { chapter: "Kapitel", contents: "Inhalt", untitled: "Unbenanntes Kapitel" }
+    : { chapter: "Chapter", contents: "Contents", untitled: "Untitled chapter" };
+}
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// File name stem from the book title, keeping letters of any script
+export function exportFileBase(title: string) {
+  return title.replace(/[^\p{L}\p{N}]+/gu, "_").replace(/^_+|_+$/g, "") || "book";
+}
+
+export function fileExtension(mediaType: string) {
+  if (mediaType.includes("png")) return ".png";
+  if (mediaType.includes("gif")) return ".gif";
+  if (mediaType.includes("webp")) return ".webp";
+  if (mediaType.includes("svg")) return ".svg";
+  return ".jpg";
+}
@@ -0,0 +1,145 @@
+import { decodeEntities, TAG_PATTERN } from "@/lib/html-text";
+import { parseTag } from "@/lib/html-blocks";
+import { escapeXml } from "@/lib/export/shared";
+
+// Serializes editor HTML as well-formed XHTML without a DOM: void elements are self-closed,
+// entities are resolved (XHTML only knows the XML ones), unclosed elements are closed and stray
+// closing tags dropped. Only elements and attributes of HTML's content model survive, so the
+// result validates in EPUB reading systems; unknown elements are unwrapped, scripts and styles
+// removed together with their content.
+
+const VOID_ELEMENTS = new Set(["br", "col", "hr", "img", "wbr"]);
+
+const ALLOWED_ELEMENTS = new Set([
+  "a", "abbr", "article", "aside", "b", "blockquote", "br", "caption", "cite", "code", "col", "colgroup", "dd",
+  "del", "div", "dl", "dt", "em", "figcaption", "figure", "footer", "h1", "h2", "h3", "h4", "h5", "h6", "header",
+  "hr", "i", "img", "ins", "kbd", "li", "mark", "ol", "p", "pre", "q", "s", "samp", "section", "small", "span",
+  "strong", "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "tr", "u", "ul", "var", "wbr",
+]);
+
+// Removed including everything inside
+const DROPPED_ELEMENTS = new Set(["head", "iframe", "noscript", "object", "script", "style", "svg", "template", "title"]);
+
+// Elements that end an open <p> in HTML parsing; XML would otherwise nest them
+const CLOSES_PARAGRAPH = new Set([
+  "article", "aside", "blockquote", "div", "dl", "figure", "footer", "h1", "h2", "h3", "h4", "h5", "h6",
+  "header", "hr", "ol", "p", "pre", "section", "table", "ul",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(["class", "dir", "id", "lang", "style", "title"]);
+
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href"],
+  col: ["span"],
+  colgroup: ["span"],
+  img: ["src", "alt", "width", "height"],
+  li: ["value"],
+  ol: ["start", "type"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan"],
+};
+
+const NUMERIC_ATTRIBUTES = new Set(["colspan", "height", "rowspan", "span", "start", "value", "width"]);
+
+type OpenElement = {
+  name: string;
+  // Unwrapped elements keep their content but are not written
+  written: boolean;
+  dropped: boolean;
+};
+
+export type XhtmlOptions = {
+  // Rewrites the src of each image, e.g. to a file inside the export; null removes the image
+  resolveImage?: (src: string, index: number) => Promise<string | null>;
+  // Rewrites link targets; null keeps the link text without the link
+  resolveLink?: (href: string) => string | null;
+};
+
+function allowedAttributes(name: string, attributes: Record<string, string>) {
+  const allowed = ELEMENT_ATTRIBUTES[name] ?? [];
+  return Object.entries(attributes).filter(([attribute, value]) => {
+    if (NUMERIC_ATTRIBUTES.has(attribute) && !/^\d+$/.test(value)) return false;
+    return GLOBAL_ATTRIBUTES.has(attribute) || allowed.includes(attribute) || /^data-[a-z0-9_.-]+$/.test(attribute);
+  });
+}
+
+export async function toXhtml(html: string, options: XhtmlOptions = {}) {
+  const output: string[] = [];
+  const open: OpenElement[] = [];
+  let droppedDepth = 0;
+  let imageIndex = 0;
+  let last = 0;
+
+  const closeUntil = (name: string | null) => {
+    while (open.length > 0) {
+      const current = open.pop()!;
+      if (current.dropped) droppedDepth--;
+      if (current.written) output.push(`</${current.name}>`);
+      if (current.name === name) return;
+    }
+  };
+
+  const pushText = (raw: string) => {
+    if (raw && droppedDepth === 0) output.push(escapeXml(decodeEntities(raw)));
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    pushText(html.slice(last, index));
+    last = index + match[0].length;
+
+    const tag = parseTag(match[0]);
+    if (!tag) continue;
+
+    if (tag.closing) {
+      if (open.some((element) => element.name === tag.name)) closeUntil(tag.name);
+      continue;
+    }
+
+    const isVoid = VOID_ELEMENTS.has(tag.name);
+    if (DROPPED_ELEMENTS.has(tag.name) || droppedDepth > 0) {
+      if (!isVoid) {
+        open.push({ name: tag.name, written: false, dropped: true });
+        droppedDepth++;
+      }
+      continue;
+    }
+
+    if (CLOSES_PARAGRAPH.has(tag.name) && open.some((element) => element.name === "p")) closeUntil("p");
+
+    const attributes = Object.fromEntries(allowedAttributes(tag.name, tag.attributes));
+    let written = ALLOWED_ELEMENTS.has(tag.name);
+
+    if (tag.name === "img") {
+      imageIndex++;
+      const src = attributes.src && options.resolveImage ? await options.resolveImage(attributes.src, imageIndex) : attributes.src;
+      if (!src) continue;
+      attributes.src = src;
+      attributes.alt ??= "";
+    }
+
+    if (tag.name === "a" && attributes.href !== undefined && options.resolveLink) {
+      const href = options.resolveLink(attributes.href);
+      if (href === null) {
+        written = false;
+      } else {
+        attributes.href = href;
+      }
+    }
+
+    const serialized = Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join("");
+
+    if (isVoid) {
+      if (written) output.push(`<${tag.name}${serialized} />`);
+    } else {
+      if (written) output.push(`<${tag.name}${serialized}>`);
+      open.push({ name: tag.name, written, dropped: false });
+    }
+  }
+  pushText(html.slice(last));
+  closeUntil(null);
+
+  return output.join("");
+}
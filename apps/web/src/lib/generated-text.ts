@@ -0,0 +1,30 @@
+// Tags the chapter generation prompt allows the model to use
+const allowedTags = new Set(["p", "br", "strong", "em", "h1", "h2", "h3", "ul", "ol", "li", "blockquote"]);
+
+// Turn raw model output into HTML that can be inserted into the TipTap editor
+export function normalizeGeneratedHtml(text: string) {
+  // Some local models leak their reasoning in <thinking> tags within the content
+  let html = text.replace(/<thinking>[\s\S]*?(<\/thinking>|$)/gi, "").trim();
+
+  // Clean up markdown code blocks if the AI included them despite instructions
+  html = html.replace(/^```html\s*/i, "").replace(/```\s*$/, "").trim();
+
+  // Fallback: If no HTML tags are found, convert plain text newlines to HTML
+  if (html && !/<\/?[a-z][\s\S]*>/i.test(html)) {
+    html = html
+      .split(/\n\n+/)
+      .map((para) => `<p>${para.trim().replace(/\n/g, "<br>")}</p>`)
+      .join("");
+  }
+
+  return html;
+}
+
+// Reduce (possibly incomplete) generated HTML to attribute-free allowed tags for live previews
+export function toPreviewHtml(text: string) {
+  return normalizeGeneratedHtml(text)
+    .replace(/<[^>]*$/, "")
+    .replace(/<(\/?)([a-z0-9]+)\b[^>]*>/gi, (_match, slash: string, tag: string) =>
+      allowedTags.has(tag.toLowerCase()) ? `<${slash}${tag.toLowerCase()}>` : "",
+    );
+}
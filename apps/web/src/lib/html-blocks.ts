@@ -0,0 +1,279 @@
+import { decodeEntities, TAG_PATTERN } from "@/lib/html-text";
+import type { TrackedChangeType } from "@/lib/track-changes";
+
+// Chapter HTML as a flat list of blocks with styled text runs, for the exporters that lay out
+// text themselves instead of handing HTML to a browser. Covers what the editor produces:
+// paragraphs, headings, quotes, lists, horizontal rules, images, inline marks, tracked changes
+// and comment anchors.
+
+export type RunChange = {
+  type: TrackedChangeType;
+  id: string;
+  author: string;
+  date: string;
+};
+
+export type TextRun = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+  change?: RunChange;
+  // Anchor ids of the comment threads covering the run
+  comments?: string[];
+};
+
+export type TextAlign = "left" | "center" | "right" | "justify";
+
+export type ContentBlock =
+  | { type: "paragraph"; runs: TextRun[]; align?: TextAlign; quote: boolean }
+  | { type: "heading"; level: number; runs: TextRun[]; align?: TextAlign }
+  | { type: "listItem"; runs: TextRun[]; ordered: boolean; index: number; depth: number; quote: boolean }
+  | { type: "separator" }
+  | { type: "image"; src: string; alt: string };
+
+type TextBlock = Extract<ContentBlock, { runs: TextRun[] }>;
+
+export type HtmlTag = {
+  name: string;
+  closing: boolean;
+  attributes: Record<string, string>;
+};
+
+const ATTRIBUTE_PATTERN = /([a-z_:][-a-z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+export function parseTag(value: string): HtmlTag | null {
+  const match = /^<\s*(\/)?\s*([a-z][a-z0-9]*)([^>]*)>$/i.exec(value);
+  if (!match) return null;
+
+  const attributes: Record<string, string> = {};
+  for (const attribute of match[3]!.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[attribute[1]!.toLowerCase()] = decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+  }
+  return { name: match[2]!.toLowerCase(), closing: !!match[1], attributes };
+}
+
+function textAlign(attributes: Record<string, string>): TextAlign | undefined {
+  const align = /text-align\s*:\s*(left|center|right|justify)/i.exec(attributes.style ?? "")?.[1];
+  return align?.toLowerCase() as TextAlign | undefined;
+}
+
+// Merge neighbouring runs with the same marks and trim whitespace at the block edges
+function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const merged: TextRun[] = [];
+  for (const run of runs) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.bold === run.bold &&
+      previous.italic === run.italic &&
+      previous.underline === run.underline &&
+      previous.strike === run.strike &&
+      previous.code === run.code &&
+      previous.href === run.href &&
+      previous.change?.id === run.change?.id &&
+      previous.change?.type === run.change?.type &&
+      previous.comments?.join() === run.comments?.join()
+    ) {
+      previous.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  if (merged.length > 0) {
+    merged[0]!.text = merged[0]!.text.replace(/^ +/, "");
+    const last = merged[merged.length - 1]!;
+    last.text = last.text.replace(/ +$/, "");
+  }
+  return merged.filter((run) => run.text.length > 0);
+}
+
+export function runsToText(runs: TextRun[]) {
+  return runs.map((run) => run.text).join("");
+}
+
+export function parseHtmlBlocks(html: string): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  const marks = { bold: 0, italic: 0, underline: 0, strike: 0, code: 0 };
+  const links: string[] = [];
+  // Open <ins>/<del> elements; null for a plain (untracked) one
+  const changes: Array<RunChange | null> = [];
+  const openChange = (type: TrackedChangeType, attributes: Record<string, string>): RunChange | null =>
+    attributes["data-change-id"]
+      ? { type, id: attributes["data-change-id"], author: attributes["data-author"] ?? "", date: attributes["data-date"] ?? "" }
+      : null;
+  // Open <span> elements; the anchor id for a comment anchor, null for any other span
+  const spans: Array<string | null> = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  let quoteDepth = 0;
+  let preDepth = 0;
+  let current = null as TextBlock | null;
+
+  const flush = () => {
+    if (!current) return;
+    current.runs = normalizeRuns(current.runs);
+    // Empty paragraphs are spacing in the editor; empty list items still carry their bullet
+    if (current.runs.length > 0 || current.type === "listItem") {
+      blocks.push(current);
+    }
+    current = null;
+  };
+
+  const startBlock = (block: TextBlock) => {
+    flush();
+    current = block;
+  };
+
+  const appendText = (text: string) => {
+    if (!current) {
+      if (!text.trim()) return;
+      current = { type: "paragraph", runs: [], quote: quoteDepth > 0 };
+    }
+    const change = changes.findLast((entry) => entry !== null);
+    const comments = spans.filter((entry): entry is string => entry !== null);
+    current.runs.push({
+      text,
+      ...(marks.bold > 0 && { bold: true }),
+      ...(marks.italic > 0 && { italic: true }),
+      ...(marks.underline > 0 && { underline: true }),
+      ...(marks.strike > 0 && { strike: true }),
+      ...(marks.code > 0 && { code: true }),
+      ...(links.length > 0 && { href: links[links.length - 1] }),
+      ...(change && { change }),
+      ...(comments.length > 0 && { comments }),
+    });
+  };
+
+  let last = 0;
+  const handleText = (raw: string) => {
+    const decoded = decodeEntities(raw);
+    // Collapse whitespace like a browser would, except inside <pre> and for non-breaking spaces
+    appendText(preDepth > 0 ? decoded : decoded.replace(/[ \t\r\n\f]+/g, " "));
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) handleText(html.slice(last, index));
+    last = index + match[0].length;
+
+    const tag = parseTag(match[0]);
+    if (!tag) continue;
+    const { name, closing, attributes } = tag;
+
+    switch (name) {
+      case "strong":
+      case "b":
+        marks.bold += closing ? -1 : 1;
+        break;
+      case "em":
+      case "i":
+        marks.italic += closing ? -1 : 1;
+        break;
+      case "u":
+        marks.underline += closing ? -1 : 1;
+        break;
+      case "s":
+      case "strike":
+        marks.strike += closing ? -1 : 1;
+        break;
+      case "del":
+      case "ins": {
+        // Tracked changes become revision runs; a plain <del> is struck through
+        const change = closing ? changes.pop() : openChange(name === "del" ? "deletion" : "insertion", attributes);
+        if (!closing) changes.push(change ?? null);
+        if (name === "del" && change === null) marks.strike += closing ? -1 : 1;
+        break;
+      }
+      case "span":
+        if (closing) spans.pop();
+        else spans.push(attributes["data-comment-id"] || null);
+        break;
+      case "code":
+        marks.code += closing ? -1 : 1;
+        break;
+      case "a":
+        if (closing) links.pop();
+        else links.push(attributes.href ?? "");
+        break;
+      case "br":
+        appendText("\n");
+        break;
+      case "p":
+      case "div":
+        if (closing) {
+          flush();
+        } else if (!(current?.type === "listItem" && current.runs.length === 0)) {
+          // A paragraph directly inside a list item continues the item
+          startBlock({ type: "paragraph", runs: [], align: textAlign(attributes), quote: quoteDepth > 0 });
+        }
+        break;
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6":
+        if (closing) flush();
+        else startBlock({ type: "heading", level: Number(name[1]), runs: [], align: textAlign(attributes) });
+        break;
+      case "pre":
+        preDepth += closing ? -1 : 1;
+        if (closing) flush();
+        else startBlock({ type: "paragraph", runs: [], quote: quoteDepth > 0 });
+        marks.code += closing ? -1 : 1;
+        break;
+      case "blockquote":
+        flush();
+        quoteDepth += closing ? -1 : 1;
+        break;
+      case "ul":
+      case "ol":
+        flush();
+        if (closing) lists.pop();
+        else lists.push({ ordered: name === "ol", count: Number(attributes.start ?? 1) - 1 });
+        break;
+      case "li": {
+        if (closing) {
+          flush();
+          break;
+        }
+        const list = lists[lists.length - 1];
+        if (list) list.count++;
+        startBlock({
+          type: "listItem",
+          runs: [],
+          ordered: list?.ordered ?? false,
+          index: list?.count ?? 1,
+          depth: Math.max(lists.length - 1, 0),
+          quote: quoteDepth > 0,
+        });
+        break;
+      }
+      case "hr":
+        flush();
+        blocks.push({ type: "separator" });
+        break;
+      case "img":
+        if (attributes.src) {
+          flush();
+          blocks.push({ type: "image", src: attributes.src, alt: attributes.alt ?? "" });
+        }
+        break;
+    }
+
+    // Marks never go negative, even for stray closing tags
+    for (const key of Object.keys(marks) as Array<keyof typeof marks>) {
+      marks[key] = Math.max(marks[key], 0);
+    }
+    quoteDepth = Math.max(quoteDepth, 0);
+    preDepth = Math.max(preDepth, 0);
+  }
+  if (last < html.length) handleText(html.slice(last));
+  flush();
+
+  return blocks;
+}
@@ -0,0 +1,148 @@
+export type DiffOp<T> = {
+  type: "equal" | "delete" | "insert";
+  items: T[];
+};
+
+export type BlockDiffRow = {
+  kind: "equal" | "changed" | "removed" | "added";
+  // Blocks from the older version (revision)
+  left: string[];
+  // Blocks from the newer version (current chapter)
+  right: string[];
+};
+
+export type WordDiffPart = {
+  type: "equal" | "delete" | "insert";
+  text: string;
+};
+
+// Above this many LCS cells the word diff falls back to "replace everything"
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff over two sequences, merged into runs
+export function diffSequences<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOp<T>[] {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = equals(a[i]!, b[j]!)
+        ? table[(i + 1) * cols + j + 1]! + 1
+        : Math.max(table[(i + 1) * cols + j]!, table[i * cols + j + 1]!);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOp<T>["type"], item: T) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.items.push(item);
+    } else {
+      ops.push({ type, items: [item] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i]!, b[j]!)) {
+      push("equal", a[i]!);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j]! >= table[i * cols + j + 1]!) {
+      push("delete", a[i]!);
+      i++;
+    } else {
+      push("insert", b[j]!);
+      j++;
+    }
+  }
+  while (i < a.length) push("delete", a[i++]!);
+  while (j < b.length) push("insert", b[j++]!);
+
+  return ops;
+}
+
+// Split TipTap HTML into its top-level blocks (paragraphs, headings, lists, ...)
+export function splitHtmlBlocks(html: string): string[] {
+  if (!html.trim()) return [];
+
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const blocks: string[] = [];
+
+  for (const node of Array.from(doc.body.childNodes)) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      blocks.push((node as Element).outerHTML);
+    } else if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+      blocks.push(`<p>${node.textContent.trim()}</p>`);
+    }
+  }
+
+  return blocks;
+}
+
+export function blockText(html: string) {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return (doc.body.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+// Align blocks of two versions; adjacent removals/additions are paired up as "changed" rows
+export function diffBlocks(oldBlocks: string[], newBlocks: string[]): BlockDiffRow[] {
+  const rows: BlockDiffRow[] = [];
+  const ops = diffSequences(oldBlocks, newBlocks);
+
+  for (let index = 0; index < ops.length; index++) {
+    const op = ops[index]!;
+
+    if (op.type === "equal") {
+      for (const block of op.items) {
+        rows.push({ kind: "equal", left: [block], right: [block] });
+      }
+      continue;
+    }
+
+    const next = ops[index + 1];
+    const removed = op.type === "delete" ? op.items : [];
+    let added = op.type === "insert" ? op.items : [];
+    if (op.type === "delete" && next?.type === "insert") {
+      added = next.items;
+      index++;
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ kind: "changed", left: [removed[k]!], right: [added[k]!] });
+    }
+    for (const block of removed.slice(paired)) {
+      rows.push({ kind: "removed", left: [block], right: [] });
+    }
+    for (const block of added.slice(paired)) {
+      rows.push({ kind: "added", left: [], right: [block] });
+    }
+  }
+
+  return rows;
+}
+
+export function diffWords(oldText: string, newText: string): WordDiffPart[] {
+  const oldTokens = oldText.split(/(\s+)/).filter(Boolean);
+  const newTokens = newText.split(/(\s+)/).filter(Boolean);
+
+  if (oldTokens.length * newTokens.length > MAX_WORD_DIFF_CELLS) {
+    return [
+      ...(oldText ? [{ type: "delete" as const, text: oldText }] : []),
+      ...(newText ? [{ type: "insert" as const, text: newText }] : []),
+    ];
+  }
+
+  return diffSequences(oldTokens, newTokens).map((op) => ({
+    type: op.type,
+    text: op.items.join(""),
+  }));
+}
+
+// Rebuild the chapter HTML from the right-hand side of the rows
+export function joinDiffRows(rows: BlockDiffRow[]) {
+  return rows.flatMap((row) => row.right).join("");
+}
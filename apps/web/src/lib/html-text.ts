@@ -0,0 +1,208 @@
+// Plain-text view of chapter HTML that text search and replace-all share, so a match found by
+// the search is exactly what gets replaced. Inline markup (bold, italic, links) is transparent,
+// block elements separate text with a line break that no match may cross. Text deleted under
+// track changes is left out, as in the accepted version of the chapter.
+
+type TextSegment = {
+  // Index into the token list of the HTML
+  token: number;
+  text: string;
+};
+
+type HtmlToken = {
+  value: string;
+  isTag: boolean;
+};
+
+type TextMap = {
+  tokens: HtmlToken[];
+  segments: TextSegment[];
+  plain: string;
+  // Segment index for each character of `plain`, -1 for block boundaries
+  owner: Int32Array;
+  // Offset of each character within its segment's text
+  offset: Int32Array;
+};
+
+export const TAG_PATTERN = /<(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "blockquote", "br", "dd", "div", "dl", "dt", "figcaption", "figure",
+  "h1", "h2", "h3", "h4", "h5", "h6", "hr", "img", "li", "ol", "p", "pre", "section",
+  "table", "tbody", "td", "th", "thead", "tr", "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function encodeText(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\u00a0/g, "&nbsp;");
+}
+
+const TRACKED_DELETION_PATTERN = /^<del\b[^>]*\bdata-change-id=/i;
+
+function isBlockTag(tag: string) {
+  const name = /^<\/?\s*([a-z0-9]+)/i.exec(tag)?.[1]?.toLowerCase();
+  return name !== undefined && BLOCK_TAGS.has(name);
+}
+
+function buildTextMap(html: string): TextMap {
+  const tokens: HtmlToken[] = [];
+  let last = 0;
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) tokens.push({ value: html.slice(last, index), isTag: false });
+    tokens.push({ value: match[0], isTag: true });
+    last = index + match[0].length;
+  }
+  if (last < html.length) tokens.push({ value: html.slice(last), isTag: false });
+
+  const segments: TextSegment[] = [];
+  const owners: number[] = [];
+  const offsets: number[] = [];
+  let plain = "";
+  // One entry per open <del>: whether it is a tracked deletion
+  const deletions: boolean[] = [];
+
+  tokens.forEach((token, tokenIndex) => {
+    if (token.isTag) {
+      if (/^<del\b/i.test(token.value)) {
+        deletions.push(TRACKED_DELETION_PATTERN.test(token.value));
+      } else if (/^<\/del\s*>/i.test(token.value)) {
+        deletions.pop();
+      }
+      if (isBlockTag(token.value) && plain && !plain.endsWith("\n")) {
+        plain += "\n";
+        owners.push(-1);
+        offsets.push(0);
+      }
+      return;
+    }
+    if (deletions.includes(true)) return;
+
+    const text = decodeEntities(token.value);
+    const segmentIndex = segments.length;
+    segments.push({ token: tokenIndex, text });
+    for (let i = 0; i < text.length; i++) {
+      owners.push(segmentIndex);
+      offsets.push(i);
+    }
+    plain += text;
+  });
+
+  return { tokens, segments, plain, owner: Int32Array.from(owners), offset: Int32Array.from(offsets) };
+}
+
+// Text content of HTML with block elements on separate lines
+export function htmlToText(html: string) {
+  return buildTextMap(html).plain.trim();
+}
+
+// Expand $&, $1..$99, $<name> and $$ in a regex replacement string
+function expandReplacement(replacement: string, match: RegExpMatchArray) {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === "$") return "$";
+    if (ref === "&") return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? "";
+    const group = Number(ref);
+    return group > 0 && group < match.length ? match[group] ?? "" : token;
+  });
+}
+
+export type ReplaceOptions = {
+  // Interpret $1, $<name>, ... in the replacement (regex searches)
+  expandGroups: boolean;
+};
+
+// Replace all matches in plain text
+export function replaceInText(text: string, pattern: RegExp, replacement: string, options: ReplaceOptions) {
+  let count = 0;
+  pattern.lastIndex = 0;
+  const result = text.replace(pattern, (...args) => {
+    const matched = args[0] as string;
+    if (!matched) return matched;
+    count++;
+    if (!options.expandGroups) return replacement;
+    const groups = typeof args[args.length - 1] === "object" ? args[args.length - 1] : undefined;
+    const match = Object.assign(args.slice(0, -2 - (groups ? 1 : 0)) as RegExpMatchArray, { groups });
+    return expandReplacement(replacement, match);
+  });
+  return { text: result, count };
+}
+
+// Replace all matches in the text content of HTML while leaving every tag untouched. A match
+// spanning inline markup is written into the text run where it starts; the matched characters in
+// the following runs are removed. Matches crossing a block boundary are skipped.
+export function replaceInHtml(html: string, pattern: RegExp, replacement: string, options: ReplaceOptions) {
+  const map = buildTextMap(html);
+  // Pending edits per segment: [start, end, insert]
+  const edits = new Map<number, Array<[number, number, string]>>();
+  let count = 0;
+
+  pattern.lastIndex = 0;
+  for (const match of map.plain.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (start === end) continue;
+
+    let crossesBlock = false;
+    for (let i = start; i < end; i++) {
+      if (map.owner[i] === -1) {
+        crossesBlock = true;
+        break;
+      }
+    }
+    if (crossesBlock) continue;
+
+    const insert = options.expandGroups ? expandReplacement(replacement, match) : replacement;
+    let first = true;
+    let i = start;
+    while (i < end) {
+      const segment = map.owner[i]!;
+      const segmentStart = map.offset[i]!;
+      let j = i;
+      while (j < end && map.owner[j] === segment) j++;
+      const list = edits.get(segment) ?? [];
+      list.push([segmentStart, segmentStart + (j - i), first ? insert : ""]);
+      edits.set(segment, list);
+      first = false;
+      i = j;
+    }
+    count++;
+  }
+
+  if (count === 0) return { html, count };
+
+  const tokens = map.tokens.map((token) => token.value);
+  for (const [segmentIndex, list] of edits) {
+    const segment = map.segments[segmentIndex]!;
+    let text = segment.text;
+    // Apply from the back so earlier offsets stay valid
+    for (const [start, end, insert] of list.sort((a, b) => b[0] - a[0])) {
+      text = text.slice(0, start) + insert + text.slice(end);
+    }
+    tokens[segment.token] = encodeText(text);
+  }
+
+  return { html: tokens.join(""), count };
+}
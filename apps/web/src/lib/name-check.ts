@@ -0,0 +1,137 @@
+import { characterNameTerms, isNameTitle, type PresenceCharacter } from "@/lib/character-presence";
+
+// Spellings in the chapter text that are close to, but not the same as, a character's name or
+// alias ("Elisabeth" in a book about "Elizabeth"). German capitalises every noun, so a word is
+// only reported when it is rare and the name it resembles is much more common; intended
+// spellings are silenced by adding them as aliases.
+
+export type NameCheckText = {
+  chapterId: string;
+  text: string;
+};
+
+export type NameCheckOccurrence = {
+  chapterId: string;
+  context: string;
+};
+
+export type NameCheckIssue = {
+  word: string;
+  // The known name it most likely misspells, and whose it is
+  suggestion: string;
+  characterId: string;
+  count: number;
+  occurrences: NameCheckOccurrence[];
+};
+
+const MIN_WORD_LENGTH = 4;
+// A name is only trusted as the "right" spelling when it occurs this many times as often
+const DOMINANCE = 3;
+// Variants seen more often than this are most likely words of their own
+const MAX_VARIANT_COUNT = 3;
+const CONTEXT_CHARS = 40;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+
+// Allowed edits for a name of the given length: one for short names, two from eight letters
+function maxDistance(length: number) {
+  return length >= 8 ? 2 : 1;
+}
+
+// Optimal string alignment distance (Levenshtein plus swapped neighbours), giving up above `limit`
+export function editDistance(a: string, b: string, limit = Infinity) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2]! + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+// "Elisabeth's" is reported as "Elisabeth"
+function stripApostrophe(word: string) {
+  return word.replace(/['’]s$/u, "");
+}
+
+export function checkNameSpellings(texts: NameCheckText[], characters: PresenceCharacter[]): NameCheckIssue[] {
+  // Single words of every name and alias, with the character they belong to
+  const known = new Map<string, string>();
+  for (const [characterId, terms] of Object.entries(characterNameTerms(characters))) {
+    for (const term of terms) {
+      for (const word of term.match(WORD_PATTERN) ?? []) {
+        if (!known.has(word)) known.set(word, characterId);
+      }
+    }
+  }
+  // Titles ("Miss", "Frau") are left out, they are ordinary words with ordinary neighbours
+  const names = [...known.keys()].filter((name) => name.length >= MIN_WORD_LENGTH && /^\p{Lu}/u.test(name) && !isNameTitle(name));
+  if (names.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  const occurrences = new Map<string, NameCheckOccurrence[]>();
+  for (const { chapterId, text } of texts) {
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = match[0];
+      const base = stripApostrophe(word);
+      counts.set(base, (counts.get(base) ?? 0) + 1);
+      // A genitive "s" counts towards the name it is attached to
+      if (base.endsWith("s") && known.has(base.slice(0, -1))) {
+        counts.set(base.slice(0, -1), (counts.get(base.slice(0, -1)) ?? 0) + 1);
+        continue;
+      }
+
+      if (!/^\p{Lu}/u.test(base) || base.length < MIN_WORD_LENGTH || known.has(base)) continue;
+      const index = match.index ?? 0;
+      const start = Math.max(0, index - CONTEXT_CHARS);
+      const end = Math.min(text.length, index + word.length + CONTEXT_CHARS);
+      const list = occurrences.get(base) ?? [];
+      list.push({
+        chapterId,
+        context: `${start > 0 ? "..." : ""}${text.slice(start, end)}${end < text.length ? "..." : ""}`,
+      });
+      occurrences.set(base, list);
+    }
+  }
+
+  const issues: NameCheckIssue[] = [];
+  for (const [word, wordOccurrences] of occurrences) {
+    const count = counts.get(word) ?? wordOccurrences.length;
+    if (count > MAX_VARIANT_COUNT) continue;
+
+    let best: { name: string; distance: number } | null = null;
+    for (const name of names) {
+      const limit = maxDistance(name.length);
+      const distance = editDistance(word.toLowerCase(), name.toLowerCase(), limit);
+      if (distance > limit || (counts.get(name) ?? 0) < count * DOMINANCE) continue;
+      if (!best || distance < best.distance || (distance === best.distance && (counts.get(name) ?? 0) > (counts.get(best.name) ?? 0))) {
+        best = { name, distance };
+      }
+    }
+    if (!best) continue;
+
+    issues.push({
+      word,
+      suggestion: best.name,
+      characterId: known.get(best.name)!,
+      count,
+      occurrences: wordOccurrences,
+    });
+  }
+
+  return issues.sort((a, b) => a.suggestion.localeCompare(b.suggestion) || a.word.localeCompare(b.word));
+}
@@ -0,0 +1,96 @@
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import type { jsPDF } from "jspdf";
+import path from "path";
+
+import { DEFAULT_PDF_FONT, STANDARD_PDF_FONT } from "@/lib/pdf/page-setup";
+
+// Fonts for the PDF export are TrueType files in `apps/web/fonts`, named
+// `<Family>-Regular.ttf`, `-Bold.ttf`, `-Italic.ttf` and `-BoldItalic.ttf`, and are embedded into
+// the PDF. EB Garamond ships with the app; more families can be added next to it. The PDF standard
+// font Times is only used when chosen explicitly, it is not embedded.
+
+export type FontStyle = "normal" | "bold" | "italic" | "bolditalic";
+
+export type PdfFontFamily = {
+  name: string;
+  files: Partial<Record<FontStyle, string>> & { normal: string };
+};
+
+export type RegisteredFont = {
+  family: string;
+  embedded: boolean;
+};
+
+const styleSuffixes: Record<string, FontStyle> = {
+  regular: "normal",
+  bold: "bold",
+  italic: "italic",
+  bolditalic: "bolditalic",
+};
+
+function fontsDir() {
+  return path.join(process.cwd(), "fonts");
+}
+
+export async function listPdfFonts(): Promise<PdfFontFamily[]> {
+  if (!existsSync(fontsDir())) return [];
+
+  const families = new Map<string, Partial<Record<FontStyle, string>>>();
+  for (const file of await readdir(fontsDir())) {
+    const match = /^(.+)-(regular|bold|italic|bolditalic)\.ttf$/i.exec(file);
+    if (!match) continue;
+    const styles = families.get(match[1]!) ?? {};
+    styles[styleSuffixes[match[2]!.toLowerCase()]!] = file;
+    families.set(match[1]!, styles);
+  }
+
+  return [...families]
+    .filter((entry): entry is [string, PdfFontFamily["files"]] => !!entry[1].normal)
+    .map(([name, files]) => ({ name, files }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Register a family with the document; missing styles reuse the regular file. An unknown family
+// falls back to the default one.
+export async function registerPdfFont(doc: jsPDF, familyName: string): Promise<RegisteredFont> {
+  if (familyName === STANDARD_PDF_FONT) {
+    return { family: STANDARD_PDF_FONT, embedded: false };
+  }
+
+  const fonts = await listPdfFonts();
+  const family = fonts.find((font) => font.name === familyName) ?? fonts.find((font) => font.name === DEFAULT_PDF_FONT);
+  if (!family) {
+    throw new Error(`PDF font ${familyName} not found in ${fontsDir()}`);
+  }
+
+  for (const style of ["normal", "bold", "italic", "bolditalic"] as const) {
+    const file = family.files[style] ?? family.files.normal;
+    const data = await readFile(path.join(fontsDir(), file));
+    const vfsName = `${family.name}-${style}.ttf`;
+    doc.addFileToVFS(vfsName, data.toString("base64"));
+    doc.addFont(vfsName, family.name, style, undefined, "Identity-H");
+  }
+
+  return { family: family.name, embedded: true };
+}
+
+// The standard fonts only cover Latin-1; typographic punctuation is mapped to its plain form
+const standardFontReplacements: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "‚": ",",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "–": "-",
+  "—": "--",
+  "…": "...",
+  "•": "·",
+  "‹": "<",
+  "›": ">",
+};
+
+export function toStandardFontText(text: string) {
+  return text.replace(/[^\x00-\xff]/g, (char) => standardFontReplacements[char] ?? "?");
+}
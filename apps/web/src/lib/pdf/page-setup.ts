@@ -0,0 +1,96 @@
+// Print settings for the PDF export. Shared between the export dialog and the renderer, so
+// both agree on the available trim sizes and on how incomplete input is filled up.
+
+export const trimSizes = {
+  "5x8": { label: '5" × 8"', width: 127, height: 203.2 },
+  "5.25x8": { label: '5,25" × 8"', width: 133.35, height: 203.2 },
+  "5.5x8.5": { label: '5,5" × 8,5"', width: 139.7, height: 215.9 },
+  "6x9": { label: '6" × 9"', width: 152.4, height: 228.6 },
+  A5: { label: "A5", width: 148, height: 210 },
+  A4: { label: "A4", width: 210, height: 297 },
+} as const;
+
+export type TrimSize = keyof typeof trimSizes;
+
+// Bleed that print-on-demand services expect around the trim box (1/8 inch)
+export const BLEED_MM = 3.175;
+
+export type PdfMargins = {
+  top: number;
+  bottom: number;
+  // Towards the spine; mirrored between left and right pages
+  inner: number;
+  outer: number;
+};
+
+export type PdfExportOptions = {
+  trimSize: TrimSize;
+  // All margins in millimetres, measured from the trim edge
+  margins: PdfMargins;
+  bleed: boolean;
+  // Body text size in points and line height as a multiple of it
+  fontSize: number;
+  lineHeight: number;
+  // Font family from the server's font directory, or STANDARD_PDF_FONT for the built-in Times
+  fontFamily: string;
+  runningHeaders: boolean;
+  pageNumbers: boolean;
+  tableOfContents: boolean;
+  // Every chapter starts on a right-hand page, with a blank page inserted where needed
+  chaptersOnRecto: boolean;
+};
+
+// Shipped in `apps/web/fonts` and embedded into the PDF, as print-on-demand services require
+export const DEFAULT_PDF_FONT = "EBGaramond";
+
+// The PDF standard font: not embedded and limited to Latin-1
+export const STANDARD_PDF_FONT = "times";
+
+export const defaultPdfOptions: PdfExportOptions = {
+  trimSize: "6x9",
+  margins: { top: 18, bottom: 20, inner: 20, outer: 15 },
+  bleed: false,
+  fontSize: 11,
+  lineHeight: 1.4,
+  fontFamily: DEFAULT_PDF_FONT,
+  runningHeaders: true,
+  pageNumbers: true,
+  tableOfContents: true,
+  chaptersOnRecto: true,
+};
+
+export function isTrimSize(value: unknown): value is TrimSize {
+  return typeof value === "string" && Object.hasOwn(trimSizes, value);
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+}
+
+function flag(value: unknown, fallback: boolean) {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+export function normalizePdfOptions(value: unknown): PdfExportOptions {
+  const input = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  const margins = typeof input.margins === "object" && input.margins !== null ? (input.margins as Record<string, unknown>) : {};
+  const defaults = defaultPdfOptions;
+
+  return {
+    trimSize: isTrimSize(input.trimSize) ? input.trimSize : defaults.trimSize,
+    margins: {
+      top: clamp(margins.top, 5, 50, defaults.margins.top),
+      bottom: clamp(margins.bottom, 5, 50, defaults.margins.bottom),
+      inner: clamp(margins.inner, 5, 50, defaults.margins.inner),
+      outer: clamp(margins.outer, 5, 50, defaults.margins.outer),
+    },
+    bleed: flag(input.bleed, defaults.bleed),
+    fontSize: clamp(input.fontSize, 8, 16, defaults.fontSize),
+    lineHeight: clamp(input.lineHeight, 1, 2.5, defaults.lineHeight),
+    fontFamily: typeof input.fontFamily === "string" && input.fontFamily.trim() ? input.fontFamily.trim() : defaults.fontFamily,
+    runningHeaders: flag(input.runningHeaders, defaults.runningHeaders),
+    pageNumbers: flag(input.pageNumbers, defaults.pageNumbers),
+    tableOfContents: flag(input.tableOfContents, defaults.tableOfContents),
+    chaptersOnRecto: flag(input.chaptersOnRecto, defaults.chaptersOnRecto),
+  };
+}
@@ -0,0 +1,571 @@
+import { jsPDF } from "jspdf";
+
+import { stripEntityLinks } from "@/lib/entity-links";
+import { chapterLabels } from "@/lib/export/shared";
+import { parseHtmlBlocks, type ContentBlock, type TextAlign, type TextRun } from "@/lib/html-blocks";
+import { registerPdfFont, toStandardFontText, type FontStyle, type RegisteredFont } from "@/lib/pdf/fonts";
+import { BLEED_MM, trimSizes, type PdfExportOptions } from "@/lib/pdf/page-setup";
+import { cleanSceneBreaks } from "@/lib/scenes";
+import { acceptTrackedChangesHtml } from "@/lib/track-changes";
+import { toRomanNumerals } from "@/lib/utils";
+
+// Lays out a book as a vector PDF: real text in (embedded) fonts, mirrored margins, running
+// headers, page numbers, a linked table of contents and PDF bookmarks per chapter. All
+// measurements are in points.
+
+export type PdfChapter = {
+  title: string;
+  content: string;
+};
+
+export type PdfBook = {
+  title: string;
+  author: string | null;
+  language: string;
+  chapters: PdfChapter[];
+};
+
+export type PdfImage = {
+  data: Uint8Array;
+  format: "PNG" | "JPEG";
+};
+
+export type RenderedPdf = {
+  data: ArrayBuffer;
+  pageCount: number;
+  embeddedFonts: boolean;
+};
+
+const PT_PER_MM = 72 / 25.4;
+const PT_PER_PX = 0.75;
+
+type PageKind = "front" | "toc" | "blank" | "opening" | "body";
+
+type PageInfo = {
+  kind: PageKind;
+  chapterTitle?: string;
+};
+
+type Piece = {
+  text: string;
+  run: TextRun;
+  width: number;
+  isSpace: boolean;
+};
+
+type Line = {
+  pieces: Piece[];
+  width: number;
+  // Last line of a paragraph or before a hard break; never justified
+  isLast: boolean;
+};
+
+type TextStyle = {
+  size: number;
+  bold?: boolean;
+  italic?: boolean;
+};
+
+// Trim size plus bleed on every side
+export function pdfPageSize(options: PdfExportOptions): [number, number] {
+  const trim = trimSizes[options.trimSize];
+  const bleed = options.bleed ? BLEED_MM * 2 : 0;
+  return [(trim.width + bleed) * PT_PER_MM, (trim.height + bleed) * PT_PER_MM];
+}
+
+function fontStyle(bold?: boolean, italic?: boolean): FontStyle {
+  if (bold && italic) return "bolditalic";
+  if (bold) return "bold";
+  if (italic) return "italic";
+  return "normal";
+}
+
+class BookLayout {
+  private readonly doc: jsPDF;
+  private readonly options: PdfExportOptions;
+  private readonly font: RegisteredFont;
+  private readonly pages: PageInfo[] = [];
+
+  private readonly bleed: number;
+  private readonly trimWidth: number;
+  private readonly trimHeight: number;
+  private readonly margins: PdfExportOptions["margins"];
+  readonly textWidth: number;
+  readonly textTop: number;
+  readonly textBottom: number;
+
+  readonly fontSize: number;
+  readonly leading: number;
+
+  // Top of the next line on the current page
+  cursor = 0;
+  currentChapter: string | undefined;
+
+  constructor(doc: jsPDF, options: PdfExportOptions, font: RegisteredFont) {
+    this.doc = doc;
+    this.options = options;
+    this.font = font;
+
+    const trim = trimSizes[options.trimSize];
+    this.bleed = options.bleed ? BLEED_MM * PT_PER_MM : 0;
+    this.trimWidth = trim.width * PT_PER_MM;
+    this.trimHeight = trim.height * PT_PER_MM;
+    this.margins = {
+      top: options.margins.top * PT_PER_MM,
+      bottom: options.margins.bottom * PT_PER_MM,
+      inner: options.margins.inner * PT_PER_MM,
+      outer: options.margins.outer * PT_PER_MM,
+    };
+    this.textWidth = this.trimWidth - this.margins.inner - this.margins.outer;
+    this.textTop = this.bleed + this.margins.top;
+    this.textBottom = this.bleed + this.trimHeight - this.margins.bottom;
+
+    this.fontSize = options.fontSize;
+    this.leading = options.fontSize * options.lineHeight;
+  }
+
+  get pageSize() {
+    return pdfPageSize(this.options);
+  }
+
+  get pageNumber() {
+    return this.pages.length;
+  }
+
+  get textHeight() {
+    return this.textBottom - this.textTop;
+  }
+
+  // Odd pages are right-hand pages, with the spine on their left
+  textLeft(page = this.pageNumber) {
+    return this.bleed + (page % 2 === 1 ? this.margins.inner : this.margins.outer);
+  }
+
+  prepare(text: string) {
+    return this.font.embedded ? text : toStandardFontText(text);
+  }
+
+  setStyle(style: TextStyle) {
+    this.doc.setFont(this.font.family, fontStyle(style.bold, style.italic));
+    this.doc.setFontSize(style.size);
+  }
+
+  measure(text: string, style: TextStyle) {
+    this.setStyle(style);
+    return this.doc.getTextWidth(this.prepare(text));
+  }
+
+  // ----- Pages -----
+
+  addPage(kind: PageKind) {
+    // The first page exists as soon as the document does
+    if (this.pages.length > 0) {
+      this.doc.addPage(this.pageSize);
+    }
+    this.pages.push({ kind, chapterTitle: this.currentChapter });
+    this.cursor = this.textTop;
+
+    if (this.bleed > 0) {
+      const pageContext = this.doc.getCurrentPageInfo().pageContext;
+      const [width, height] = this.pageSize;
+      pageContext.trimBox = {
+        bottomLeftX: this.bleed,
+        bottomLeftY: this.bleed,
+        topRightX: width - this.bleed,
+        topRightY: height - this.bleed,
+      };
+      pageContext.bleedBox = { bottomLeftX: 0, bottomLeftY: 0, topRightX: width, topRightY: height };
+    }
+  }
+
+  // Start a page that a chapter or the table of contents opens on
+  startSection(kind: PageKind, recto: boolean) {
+    if (recto && this.pageNumber % 2 === 1) {
+      this.addPage("blank");
+    }
+    this.addPage(kind);
+  }
+
+  ensureSpace(height: number) {
+    if (this.cursor + height > this.textBottom + 0.01) {
+      this.addPage("body");
+    }
+  }
+
+  // ----- Text -----
+
+  private splitPieces(runs: TextRun[], size: number): Piece[] {
+    const pieces: Piece[] = [];
+    for (const run of runs) {
+      const style = { size, bold: run.bold, italic: run.italic };
+      for (const part of run.text.split(/(\n| +)/)) {
+        if (!part) continue;
+        if (part === "\n") {
+          pieces.push({ text: "\n", run, width: 0, isSpace: false });
+        } else {
+          const isSpace = part.trim() === "";
+          const text = isSpace ? " " : part;
+          pieces.push({ text, run, width: this.measure(text, style), isSpace });
+        }
+      }
+    }
+    return pieces;
+  }
+
+  // Greedy line breaking; words that span several runs (a bold word and its comma) stay together
+  layoutLines(runs: TextRun[], size: number, width: number, firstIndent = 0): Line[] {
+    const lines: Line[] = [];
+    let line: Piece[] = [];
+    let lineWidth = 0;
+    let word: Piece[] = [];
+    let wordWidth = 0;
+    let pendingSpace: Piece | null = null;
+
+    const available = () => width - (lines.length === 0 ? firstIndent : 0);
+
+    const endLine = (isLast: boolean) => {
+      lines.push({ pieces: line, width: lineWidth, isLast });
+      line = [];
+      lineWidth = 0;
+      pendingSpace = null;
+    };
+
+    const placeWord = () => {
+      if (word.length === 0) return;
+      const spaceWidth: number = line.length > 0 && pendingSpace ? pendingSpace.width : 0;
+      if (line.length > 0 && lineWidth + spaceWidth + wordWidth > available()) {
+        endLine(false);
+      }
+      if (line.length > 0 && pendingSpace) {
+        line.push(pendingSpace);
+        lineWidth += pendingSpace.width;
+      }
+      // A single word wider than the line is cut into pieces that fit
+      for (const piece of word) {
+        if (lineWidth + piece.width <= available() || line.length === 0 && piece.width <= available()) {
+          line.push(piece);
+          lineWidth += piece.width;
+          continue;
+        }
+        let rest = piece.text;
+        const style = { size, bold: piece.run.bold, italic: piece.run.italic };
+        while (rest) {
+          let fit = rest.length;
+          while (fit > 1 && lineWidth + this.measure(rest.slice(0, fit), style) > available()) fit--;
+          if (lineWidth > 0 && fit === 1 && lineWidth + this.measure(rest[0]!, style) > available()) {
+            endLine(false);
+            continue;
+          }
+          const text = rest.slice(0, fit);
+          const pieceWidth = this.measure(text, style);
+          line.push({ ...piece, text, width: pieceWidth });
+          lineWidth += pieceWidth;
+          rest = rest.slice(fit);
+          if (rest) endLine(false);
+        }
+      }
+      word = [];
+      wordWidth = 0;
+      pendingSpace = null;
+    };
+
+    for (const piece of this.splitPieces(runs, size)) {
+      if (piece.text === "\n") {
+        placeWord();
+        endLine(true);
+      } else if (piece.isSpace) {
+        placeWord();
+        pendingSpace = piece;
+      } else {
+        word.push(piece);
+        wordWidth += piece.width;
+      }
+    }
+    placeWord();
+    if (line.length > 0 || lines.length === 0) {
+      endLine(true);
+    } else {
+      lines[lines.length - 1]!.isLast = true;
+    }
+    return lines;
+  }
+
+  drawLine(line: Line, x: number, baseline: number, width: number, size: number, align: TextAlign) {
+    const slack = width - line.width;
+    const spaces = line.pieces.filter((piece) => piece.isSpace).length;
+    const extra = align === "justify" && !line.isLast && spaces > 0 ? slack / spaces : 0;
+
+    let position = x;
+    if (align === "center") position += slack / 2;
+    if (align === "right") position += slack;
+
+    line.pieces.forEach((piece, index) => {
+      if (piece.isSpace) {
+        position += piece.width + extra;
+        return;
+      }
+
+      this.setStyle({ size, bold: piece.run.bold, italic: piece.run.italic });
+      // The trailing space keeps words apart when the text is copied out of the PDF
+      const next = line.pieces[index + 1];
+      this.doc.text(this.prepare(piece.text) + (next?.isSpace ? " " : ""), position, baseline);
+
+      const lineWidth = Math.max(size * 0.05, 0.4);
+      if (piece.run.underline || piece.run.href) {
+        this.doc.setLineWidth(lineWidth);
+        this.doc.line(position, baseline + size * 0.12, position + piece.width, baseline + size * 0.12);
+      }
+      if (piece.run.strike) {
+        this.doc.setLineWidth(lineWidth);
+        this.doc.line(position, baseline - size * 0.28, position + piece.width, baseline - size * 0.28);
+      }
+      if (piece.run.href && /^(https?:|mailto:)/i.test(piece.run.href)) {
+        this.doc.link(position, baseline - size * 0.8, piece.width, size, { url: piece.run.href });
+      }
+      position += piece.width;
+    });
+  }
+
+  // Flow lines onto as many pages as needed; keeps at least two lines of a paragraph together
+  flowLines(lines: Line[], options: { size: number; leading: number; indent: number; width: number; firstIndent?: number; align: TextAlign }) {
+    lines.forEach((line, index) => {
+      const needed = index === 0 && lines.length > 1 ? options.leading * 2 : options.leading;
+      this.ensureSpace(needed);
+      const x = this.textLeft() + options.indent + (index === 0 ? options.firstIndent ?? 0 : 0);
+      const width = options.width - (index === 0 ? options.firstIndent ?? 0 : 0);
+      this.drawLine(line, x, this.cursor + options.size * 0.8, width, options.size, options.align);
+      this.cursor += options.leading;
+    });
+  }
+
+  centered(text: string, style: TextStyle, baseline: number, page = this.pageNumber) {
+    const width = this.measure(text, style) + this.doc.getCharSpace() * (text.length - 1);
+    this.doc.text(this.prepare(text), this.textLeft(page) + (this.textWidth - width) / 2, baseline);
+  }
+
+  // ----- Running heads and folios -----
+
+  decoratePages(bookTitle: string, firstBodyPage: number) {
+    const headerSize = this.fontSize * 0.85;
+    const headerBaseline = this.bleed + this.margins.top / 2;
+    const footerBaseline = this.bleed + this.trimHeight - this.margins.bottom / 2 + this.fontSize * 0.3;
+
+    this.pages.forEach((info, index) => {
+      const page = index + 1;
+      if (page < firstBodyPage || info.kind === "blank") return;
+      this.doc.setPage(page);
+
+      if (this.options.runningHeaders && info.kind === "body") {
+        const header = page % 2 === 0 ? bookTitle : info.chapterTitle ?? bookTitle;
+        this.setStyle({ size: headerSize, italic: true });
+        const text = this.truncate(header, { size: headerSize, italic: true }, this.textWidth);
+        this.centered(text, { size: headerSize, italic: true }, headerBaseline, page);
+      }
+
+      if (this.options.pageNumbers) {
+        this.centered(String(page - firstBodyPage + 1), { size: headerSize }, footerBaseline, page);
+      }
+    });
+  }
+
+  truncate(text: string, style: TextStyle, width: number) {
+    if (this.measure(text, style) <= width) return text;
+    let end = text.length;
+    while (end > 1 && this.measure(`${text.slice(0, end)}…`, style) > width) end--;
+    return `${text.slice(0, end).trimEnd()}…`;
+  }
+}
+
+function headingSize(level: number, fontSize: number) {
+  if (level <= 1) return fontSize * 1.6;
+  if (level === 2) return fontSize * 1.35;
+  return fontSize * 1.15;
+}
+
+async function renderBlocks(layout: BookLayout, blocks: ContentBlock[], loadImage: (src: string) => Promise<PdfImage | null>, doc: jsPDF) {
+  const { fontSize, leading } = layout;
+  // Book typography: indented paragraphs without spacing, except after headings and breaks
+  let indentNext = false;
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "paragraph": {
+        const indent = block.quote ? fontSize * 2 : 0;
+        const width = layout.textWidth - indent * 2;
+        const firstIndent = indentNext && !block.align ? fontSize * 1.5 : 0;
+        const lines = layout.layoutLines(block.runs, fontSize, width, firstIndent);
+        layout.flowLines(lines, { size: fontSize, leading, indent, width, firstIndent, align: block.align ?? "justify" });
+        indentNext = !block.quote;
+        break;
+      }
+      case "heading": {
+        const size = headingSize(block.level, fontSize);
+        const runs = block.runs.map((run) => ({ ...run, bold: true }));
+        const lines = layout.layoutLines(runs, size, layout.textWidth);
+        const headingLeading = size * 1.25;
+        if (layout.cursor > layout.textTop) layout.cursor += leading;
+        // Keep the heading together with the first lines of what follows
+        layout.ensureSpace(lines.length * headingLeading + leading * 2);
+        layout.flowLines(lines, { size, leading: headingLeading, indent: 0, width: layout.textWidth, align: block.align ?? "left" });
+        layout.cursor += leading * 0.5;
+        indentNext = false;
+        break;
+      }
+      case "listItem": {
+        const indent = fontSize * 1.5 * (block.depth + 1) + (block.quote ? fontSize * 2 : 0);
+        const width = layout.textWidth - indent;
+        const lines = layout.layoutLines(block.runs, fontSize, width);
+        layout.ensureSpace(leading);
+        const marker = block.ordered ? `${block.index}.` : "•";
+        layout.setStyle({ size: fontSize });
+        doc.text(layout.prepare(marker), layout.textLeft() + indent - fontSize * 1.2, layout.cursor + fontSize * 0.8);
+        layout.flowLines(lines, { size: fontSize, leading, indent, width, align: "left" });
+        indentNext = false;
+        break;
+      }
+      case "separator": {
+        layout.ensureSpace(leading * 2);
+        layout.cursor += leading * 0.5;
+        layout.centered("*   *   *", { size: fontSize }, layout.cursor + fontSize * 0.8);
+        layout.cursor += leading * 1.5;
+        indentNext = false;
+        break;
+      }
+      case "image": {
+        const image = await loadImage(block.src);
+        if (!image) break;
+        const properties = doc.getImageProperties(image.data);
+        let width = Math.min(layout.textWidth, properties.width * PT_PER_PX);
+        let height = width * (properties.height / properties.width);
+        const maxHeight = layout.textHeight * 0.7;
+        if (height > maxHeight) {
+          width *= maxHeight / height;
+          height = maxHeight;
+        }
+        layout.ensureSpace(height + leading);
+        layout.cursor += leading * 0.5;
+        doc.addImage(image.data, image.format, layout.textLeft() + (layout.textWidth - width) / 2, layout.cursor, width, height);
+        layout.cursor += height + leading * 0.5;
+        indentNext = false;
+        break;
+      }
+    }
+  }
+}
+
+export async function renderBookPdf(
+  book: PdfBook,
+  options: PdfExportOptions,
+  loadImage: (src: string) => Promise<PdfImage | null>
+): Promise<RenderedPdf> {
+  const labels = chapterLabels(book.language);
+  const doc = new jsPDF({ unit: "pt", format: pdfPageSize(options), compress: true, putOnlyUsedFonts: true });
+  doc.setDocumentProperties({ title: book.title, author: book.author ?? "", creator: "Bucherstellung" });
+  doc.setDisplayMode("fullpage", "continuous", "UseOutlines");
+
+  const font = await registerPdfFont(doc, options.fontFamily);
+  const layout = new BookLayout(doc, options, font);
+  const { fontSize, leading } = layout;
+  const chapters = book.chapters.map((chapter) => ({
+    ...chapter,
+    title: chapter.title.trim() || labels.untitled,
+  }));
+
+  // Title page and its blank back
+  layout.addPage("front");
+  const titleSize = fontSize * 2.2;
+  const titleLines = layout.layoutLines([{ text: book.title, bold: true }], titleSize, layout.textWidth);
+  layout.cursor = layout.textTop + layout.textHeight * 0.3;
+  layout.flowLines(titleLines, { size: titleSize, leading: titleSize * 1.2, indent: 0, width: layout.textWidth, align: "center" });
+  if (book.author) {
+    layout.cursor += leading * 2;
+    layout.centered(book.author, { size: fontSize * 1.2 }, layout.cursor);
+  }
+  layout.addPage("blank");
+
+  // Reserve the table of contents; entries are filled in once page numbers are known
+  const tocPages: number[] = [];
+  const tocNumberWidth = fontSize * 3;
+  const tocEntries = chapters.map((chapter, index) => ({
+    title: `${index + 1}. ${chapter.title}`,
+    lines: layout.layoutLines([{ text: `${index + 1}. ${chapter.title}` }], fontSize, layout.textWidth - tocNumberWidth),
+  }));
+  if (options.tableOfContents && chapters.length > 0) {
+    layout.startSection("toc", true);
+    tocPages.push(layout.pageNumber);
+    layout.cursor += fontSize * 1.6 * 1.25 + leading * 1.5;
+    for (const entry of tocEntries) {
+      if (layout.cursor + entry.lines.length * leading > layout.textBottom) {
+        layout.addPage("toc");
+        tocPages.push(layout.pageNumber);
+      }
+      layout.cursor += entry.lines.length * leading + leading * 0.3;
+    }
+  }
+
+  // Chapters
+  const chapterPages: number[] = [];
+  for (const [index, chapter] of chapters.entries()) {
+    layout.currentChapter = chapter.title;
+    layout.startSection("opening", options.chaptersOnRecto);
+    chapterPages.push(layout.pageNumber);
+    doc.outline.add(null, layout.prepare(chapter.title), { pageNumber: layout.pageNumber });
+
+    layout.cursor = layout.textTop + layout.textHeight * 0.2;
+    layout.setStyle({ size: fontSize * 0.9 });
+    doc.setCharSpace(fontSize * 0.2);
+    layout.centered(`${labels.chapter.toUpperCase()} ${toRomanNumerals(index + 1)}`, { size: fontSize * 0.9 }, layout.cursor);
+    doc.setCharSpace(0);
+    layout.cursor += leading * 1.5;
+
+    const size = fontSize * 1.8;
+    const lines = layout.layoutLines([{ text: chapter.title, bold: true }], size, layout.textWidth);
+    layout.flowLines(lines, { size, leading: size * 1.2, indent: 0, width: layout.textWidth, align: "center" });
+    layout.cursor += leading * 2;
+
+    await renderBlocks(layout, parseHtmlBlocks(acceptTrackedChangesHtml(stripEntityLinks(cleanSceneBreaks(chapter.content)))), loadImage, doc);
+  }
+
+  // Table of contents with links to the chapter openings
+  if (tocPages.length > 0) {
+    let tocIndex = 0;
+    doc.setPage(tocPages[0]!);
+    layout.cursor = layout.textTop;
+    const titleStyle = { size: fontSize * 1.6, bold: true };
+    layout.centered(labels.contents, titleStyle, layout.cursor + titleStyle.size * 0.8, tocPages[0]);
+    layout.cursor += titleStyle.size * 1.25 + leading * 1.5;
+
+    tocEntries.forEach((entry, index) => {
+      if (layout.cursor + entry.lines.length * leading > layout.textBottom) {
+        tocIndex++;
+        doc.setPage(tocPages[tocIndex]!);
+        layout.cursor = layout.textTop;
+      }
+      const page = tocPages[tocIndex]!;
+      const left = layout.textLeft(page);
+      const top = layout.cursor;
+      entry.lines.forEach((line, lineIndex) => {
+        layout.drawLine(line, left, layout.cursor + fontSize * 0.8, layout.textWidth - tocNumberWidth, fontSize, "left");
+        if (lineIndex === entry.lines.length - 1) {
+          const pageLabel = options.pageNumbers ? String(chapterPages[index]! - chapterPages[0]! + 1) : "";
+          layout.setStyle({ size: fontSize });
+          const labelWidth = doc.getTextWidth(pageLabel);
+          doc.text(pageLabel, left + layout.textWidth - labelWidth, layout.cursor + fontSize * 0.8);
+        }
+        layout.cursor += leading;
+      });
+      doc.link(left, top, layout.textWidth, layout.cursor - top, { pageNumber: chapterPages[index] });
+      layout.cursor += leading * 0.3;
+    });
+  }
+
+  if (chapterPages.length > 0) {
+    layout.decoratePages(book.title, chapterPages[0]!);
+  }
+
+  return {
+    data: doc.output("arraybuffer"),
+    pageCount: doc.getNumberOfPages(),
+    embeddedFonts: font.embedded,
+  };
+}
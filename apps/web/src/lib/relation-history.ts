@@ -0,0 +1,58 @@
+// How a relation between two characters changes over the book. A CharacterRelation holds the
+// state at the start; each change applies from its chapter on, until the next one. The type
+// "none" stands for no relation at all, so a relation can begin or break mid-book.
+
+export const NO_RELATION = "none";
+
+export type RelationChange = {
+  chapterId: string;
+  relationType: string;
+  description: string | null;
+};
+
+export type RelationState = {
+  relationType: string;
+  description: string | null;
+};
+
+// Changes from a request body: one per chapter (the last one wins), with a type set
+export function normalizeRelationChanges(value: unknown): RelationChange[] {
+  if (!Array.isArray(value)) return [];
+  const byChapter = new Map<string, RelationChange>();
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const { chapterId, relationType, description } = entry as Record<string, unknown>;
+    if (typeof chapterId !== "string" || !chapterId || typeof relationType !== "string" || !relationType) continue;
+    byChapter.set(chapterId, {
+      chapterId,
+      relationType,
+      description: typeof description === "string" && description.trim() ? description.trim() : null,
+    });
+  }
+  return [...byChapter.values()];
+}
+
+// The relation as it stands in the chapter at `position` (0-based, in reading order).
+// `chapterPositions` maps chapter ids to their position; changes in unknown chapters are ignored.
+export function relationAtChapter(
+  relation: RelationState & { changes?: RelationChange[] },
+  chapterPositions: Record<string, number>,
+  position: number
+): RelationState {
+  let state: RelationState = { relationType: relation.relationType, description: relation.description };
+  let statePosition = -1;
+  for (const change of relation.changes ?? []) {
+    const changePosition = chapterPositions[change.chapterId];
+    if (changePosition === undefined || changePosition > position || changePosition < statePosition) continue;
+    state = { relationType: change.relationType, description: change.description };
+    statePosition = changePosition;
+  }
+  return state;
+}
+
+// Changes sorted in reading order, for display
+export function sortRelationChanges<T extends RelationChange>(changes: T[], chapterPositions: Record<string, number>) {
+  return [...changes].sort(
+    (a, b) => (chapterPositions[a.chapterId] ?? Infinity) - (chapterPositions[b.chapterId] ?? Infinity)
+  );
+}
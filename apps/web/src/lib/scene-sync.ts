@@ -0,0 +1,187 @@
+import prisma from "@bucherstellung/db";
+
+import { countWords, createChapterRevision } from "@/lib/chapter-revisions";
+import {
+  joinScenes,
+  sceneTextFields,
+  splitScenes,
+  type SceneSegment,
+  type SceneTextField,
+} from "@/lib/scenes";
+import { syncSearchIndex } from "@/lib/search-index";
+
+// Scene records follow the scene breaks in the chapter text: their order and word counts are
+// taken from the text whenever it is saved. Scenes whose break was removed keep their data and
+// move to the end of the chapter, so undoing the deletion in the editor binds them again.
+
+export async function syncChapterScenes(chapterId: string, content: string) {
+  const { scenes: segments } = splitScenes(content);
+  const scenes = await prisma.scene.findMany({
+    where: { chapterId },
+    orderBy: { orderIndex: "asc" },
+    select: { id: true, orderIndex: true, wordCount: true },
+  });
+
+  const positions = new Map(segments.map((segment, index) => [segment.sceneId, { index, html: segment.html }]));
+  const detached = scenes.filter((scene) => !positions.has(scene.id));
+
+  for (const scene of scenes) {
+    const position = positions.get(scene.id);
+    const orderIndex = position ? position.index : segments.length + detached.indexOf(scene);
+    const wordCount = position ? countWords(position.html) : scene.wordCount;
+    if (orderIndex === scene.orderIndex && wordCount === scene.wordCount) continue;
+
+    await prisma.scene.update({
+      where: { id: scene.id },
+      data: { orderIndex, wordCount },
+    });
+  }
+}
+
+type ChapterText = {
+  id: string;
+  bookId: string;
+  title: string;
+  content: string;
+  summarizedAt: Date | null;
+};
+
+async function writeChapterText(chapter: ChapterText, content: string) {
+  if (content === chapter.content) return;
+
+  // Moving text around is a bigger edit than typing, so the previous state is kept
+  await createChapterRevision(chapter.id, chapter, "scene_move");
+  await prisma.chapter.update({
+    where: { id: chapter.id },
+    data: {
+      content,
+      wordCount: countWords(content),
+      ...(chapter.summarizedAt && { summaryStale: true }),
+    },
+  });
+  await syncSearchIndex(chapter.bookId, "chapter", chapter.id);
+}
+
+const chapterTextSelect = { id: true, bookId: true, title: true, content: true, summarizedAt: true } as const;
+
+// Move a scene with its text to position `index` among the scenes of a chapter (possibly its own)
+export async function moveScene(sceneId: string, targetChapterId: string, index: number) {
+  const scene = await prisma.scene.findUnique({
+    where: { id: sceneId },
+    select: { chapter: { select: chapterTextSelect } },
+  });
+  const target = await prisma.chapter.findUnique({
+    where: { id: targetChapterId },
+    select: chapterTextSelect,
+  });
+  if (!scene || !target) return null;
+
+  const source = scene.chapter;
+  const sameChapter = source.id === target.id;
+  const sourceParts = splitScenes(source.content);
+  const segment = sourceParts.scenes.find((entry) => entry.sceneId === sceneId);
+
+  // Scene order of the target chapter as shown in the planning view, with the moved scene in place
+  const order = (
+    await prisma.scene.findMany({
+      where: { chapterId: target.id },
+      orderBy: { orderIndex: "asc" },
+      select: { id: true },
+    })
+  )
+    .map((entry) => entry.id)
+    .filter((id) => id !== sceneId);
+  order.splice(Math.max(0, Math.min(index, order.length)), 0, sceneId);
+
+  const remaining = sourceParts.scenes.filter((entry) => entry.sceneId !== sceneId);
+  const targetParts = sameChapter ? { lead: sourceParts.lead, scenes: remaining } : splitScenes(target.content);
+  const segments = new Map<string, SceneSegment>(targetParts.scenes.map((entry) => [entry.sceneId, entry]));
+  if (segment) segments.set(sceneId, segment);
+
+  // Breaks of scenes the chapter does not know (e.g. pasted from elsewhere) stay after the known ones
+  const known = new Set(order);
+  const reordered = [
+    ...order.flatMap((id) => segments.get(id) ?? []),
+    ...targetParts.scenes.filter((entry) => !known.has(entry.sceneId)),
+  ];
+
+  if (!sameChapter) {
+    await writeChapterText(source, joinScenes({ lead: sourceParts.lead, scenes: remaining }));
+    await prisma.scene.update({
+      where: { id: sceneId },
+      data: { chapterId: target.id },
+    });
+  }
+  const targetContent = joinScenes({ lead: targetParts.lead, scenes: reordered });
+  await writeChapterText(target, targetContent);
+
+  // Detached scenes have no text position, so the requested order is stored as it is first
+  await Promise.all(
+    order.map((id, orderIndex) => prisma.scene.update({ where: { id }, data: { orderIndex } }))
+  );
+  if (!sameChapter) {
+    await syncChapterScenes(source.id, joinScenes({ lead: sourceParts.lead, scenes: remaining }));
+  }
+  await syncChapterScenes(target.id, targetContent);
+
+  return prisma.scene.findUnique({ where: { id: sceneId } });
+}
+
+// Delete a scene; its text stays and joins the scene before it
+export async function deleteScene(sceneId: string) {
+  const scene = await prisma.scene.findUnique({
+    where: { id: sceneId },
+    select: { chapter: { select: chapterTextSelect } },
+  });
+  if (!scene) return false;
+
+  const chapter = scene.chapter;
+  const parts = splitScenes(chapter.content);
+  const content = joinScenes({
+    lead: parts.lead,
+    scenes: parts.scenes.map((entry) =>
+      entry.sceneId === sceneId ? { ...entry, html: entry.html.replace(/^<hr\b[^>]*>/i, "") } : entry
+    ),
+  });
+
+  await prisma.scene.delete({ where: { id: sceneId } });
+  if (content !== chapter.content) {
+    await prisma.chapter.update({
+      where: { id: chapter.id },
+      data: { content },
+    });
+  }
+  await syncChapterScenes(chapter.id, content);
+  return true;
+}
+
+type SceneFieldInput = Partial<Record<"title" | "povCharacterId" | "locationId" | SceneTextField, unknown>>;
+
+// Editable scene fields from a request body; POV and location only count when they belong to the book
+export async function readSceneFields(bookId: string, body: SceneFieldInput) {
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const data: Partial<Record<"povCharacterId" | "locationId" | SceneTextField, string | null>> & { title?: string } = {};
+
+  if (body.title !== undefined) data.title = text(body.title) ?? "";
+  for (const field of sceneTextFields) {
+    if (body[field] !== undefined) data[field] = text(body[field]);
+  }
+
+  if (body.povCharacterId !== undefined) {
+    const id = text(body.povCharacterId);
+    const character = id
+      ? await prisma.character.findFirst({ where: { id, bookId }, select: { id: true } })
+      : null;
+    data.povCharacterId = character?.id ?? null;
+  }
+
+  if (body.locationId !== undefined) {
+    const id = text(body.locationId);
+    const location = id
+      ? await prisma.worldElement.findFirst({ where: { id, bookId }, select: { id: true } })
+      : null;
+    data.locationId = location?.id ?? null;
+  }
+
+  return data;
+}
@@ -0,0 +1,94 @@
+// Scenes inside chapters (safe to import from client components). A scene break is an
+// <hr data-scene-id> in the chapter HTML that starts the scene it names; the scene runs until the
+// next break or the end of the chapter. Text before the first break belongs to no scene.
+
+export type SceneData = {
+  id: string;
+  chapterId: string;
+  orderIndex: number;
+  title: string;
+  summary: string | null;
+  povCharacterId: string | null;
+  locationId: string | null;
+  timeMarker: string | null;
+  goal: string | null;
+  conflict: string | null;
+  outcome: string | null;
+  storyStart: string | null;
+  storyEnd: string | null;
+  wordCount: number;
+};
+
+// Free-text fields that can be edited through the API
+export const sceneTextFields = ["summary", "timeMarker", "goal", "conflict", "outcome"] as const;
+
+export type SceneTextField = (typeof sceneTextFields)[number];
+
+export type SceneSegment = {
+  sceneId: string;
+  // Starts with the scene break
+  html: string;
+};
+
+export type ChapterScenes = {
+  // Text before the first scene break
+  lead: string;
+  scenes: SceneSegment[];
+};
+
+const SCENE_BREAK_PATTERN = /<hr\b[^>]*\bdata-scene-id="([^"]*)"[^>]*>/gi;
+
+export function sceneBreakHtml(sceneId: string) {
+  return `<hr data-scene-id="${sceneId}">`;
+}
+
+// Scene ids in the order their breaks appear
+export function findSceneIds(html: string) {
+  return Array.from(html.matchAll(SCENE_BREAK_PATTERN), (match) => match[1]!);
+}
+
+export function splitScenes(html: string): ChapterScenes {
+  const matches = Array.from(html.matchAll(SCENE_BREAK_PATTERN));
+  if (matches.length === 0) return { lead: html, scenes: [] };
+
+  return {
+    lead: html.slice(0, matches[0]!.index),
+    scenes: matches.map((match, index) => ({
+      sceneId: match[1]!,
+      html: html.slice(match.index, matches[index + 1]?.index ?? html.length),
+    })),
+  };
+}
+
+// Point scene breaks at other scene ids, e.g. after an import created fresh records
+export function replaceSceneIds(html: string, sceneIds: Map<string, string>) {
+  return html.replace(SCENE_BREAK_PATTERN, (tag, id: string) => {
+    const replacement = sceneIds.get(id);
+    return replacement ? tag.replace(`data-scene-id="${id}"`, `data-scene-id="${replacement}"`) : tag;
+  });
+}
+
+export function joinScenes({ lead, scenes }: ChapterScenes) {
+  return lead + scenes.map((scene) => scene.html).join("");
+}
+
+function isBlank(html: string) {
+  return !/<img\b/i.test(html) && !html.replace(/<[^>]*>/g, "").replace(/&nbsp;/g, " ").trim();
+}
+
+// Scene breaks as plain separators for exports; a break before any text would only produce an
+// ornament at the top of the chapter, so it is dropped
+export function cleanSceneBreaks(html: string) {
+  if (!html.includes("data-scene-id")) return html;
+
+  let seenText = false;
+  let last = 0;
+  let result = "";
+  for (const match of html.matchAll(SCENE_BREAK_PATTERN)) {
+    const before = html.slice(last, match.index);
+    seenText ||= !isBlank(before);
+    result += before + (seenText ? "<hr>" : "");
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return result + html.slice(last);
+}
@@ -0,0 +1,230 @@
+import prisma from "@bucherstellung/db";
+
+import { htmlToText } from "@/lib/html-text";
+import { acceptTrackedChangesHtml } from "@/lib/track-changes";
+import { labeledFieldValues, parseFieldValues, parseWorldFields } from "@/lib/world-fields";
+
+// Full-text index over the searchable fields of a book, kept in an FTS5 virtual table next to the
+// Prisma-managed tables. Every route that writes one of the indexed entities re-syncs it; an
+// index that is missing or empty for a book (new database, `db push` dropped it) is rebuilt on
+// the next search.
+
+export type SearchEntityType = "chapter" | "character" | "plotpoint" | "worldelement";
+
+export type IndexedField = {
+  entityType: SearchEntityType;
+  entityId: string;
+  // Field label as shown in search results (Titel, Inhalt, ...)
+  field: string;
+  title: string;
+  body: string;
+  // bm25 score, lower is better; 0 for rows from a full scan
+  score: number;
+};
+
+type SearchDocument = {
+  bookId: string;
+  entityType: SearchEntityType;
+  entityId: string;
+  title: string;
+  fields: Array<[field: string, text: string | null]>;
+};
+
+let tableReady: Promise<void> | null = null;
+
+function ensureSearchTable() {
+  // remove_diacritics 0 keeps "Tur" and "Tür" apart, the same as the highlighting in the UI
+  tableReady ??= prisma
+    .$executeRawUnsafe(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+        book_id UNINDEXED, entity_type UNINDEXED, entity_id UNINDEXED, field UNINDEXED, title UNINDEXED, body,
+        tokenize = 'unicode61 remove_diacritics 0'
+      )`
+    )
+    .then(() => undefined)
+    .catch((error) => {
+      tableReady = null;
+      throw error;
+    });
+  return tableReady;
+}
+
+async function loadDocuments(entityType: SearchEntityType, where: { bookId: string } | { id: string }): Promise<SearchDocument[]> {
+  switch (entityType) {
+    case "chapter": {
+      const chapters = await prisma.chapter.findMany({
+        where,
+        select: { id: true, bookId: true, title: true, content: true, summary: true, notes: true },
+      });
+      return chapters.map((chapter) => ({
+        bookId: chapter.bookId,
+        entityType,
+        entityId: chapter.id,
+        title: chapter.title,
+        fields: [
+          ["Titel", chapter.title],
+          ["Inhalt", htmlToText(acceptTrackedChangesHtml(chapter.content))],
+          ["Zusammenfassung", chapter.summary],
+          ["Notizen", chapter.notes],
+        ],
+      }));
+    }
+    case "character": {
+      const characters = await prisma.character.findMany({
+        where,
+        select: { id: true, bookId: true, name: true, aliases: true, description: true, backstory: true },
+      });
+      return characters.map((character) => ({
+        bookId: character.bookId,
+        entityType,
+        entityId: character.id,
+        title: character.name,
+        fields: [
+          ["Name", character.name],
+          ["Aliase", character.aliases],
+          ["Beschreibung", character.description],
+          ["Hintergrund", character.backstory],
+        ],
+      }));
+    }
+    case "plotpoint": {
+      const plotPoints = await prisma.plotPoint.findMany({
+        where,
+        select: { id: true, bookId: true, title: true, description: true },
+      });
+      return plotPoints.map((plotPoint) => ({
+        bookId: plotPoint.bookId,
+        entityType,
+        entityId: plotPoint.id,
+        title: plotPoint.title,
+        fields: [
+          ["Titel", plotPoint.title],
+          ["Beschreibung", plotPoint.description],
+        ],
+      }));
+    }
+    case "worldelement": {
+      const elements = await prisma.worldElement.findMany({
+        where,
+        select: { id: true, bookId: true, name: true, type: true, description: true, fields: true },
+      });
+      const templates = await prisma.worldFieldTemplate.findMany({
+        where: { bookId: { in: [...new Set(elements.map((element) => element.bookId))] } },
+      });
+      return elements.map((element) => {
+        const template = templates.find((item) => item.bookId === element.bookId && item.type === element.type);
+        return {
+          bookId: element.bookId,
+          entityType,
+          entityId: element.id,
+          title: element.name,
+          fields: [
+            ["Name", element.name],
+            ["Beschreibung", element.description],
+            // Custom fields are indexed under their own label
+            ...labeledFieldValues(parseWorldFields(template?.fields), parseFieldValues(element.fields)),
+          ],
+        };
+      });
+    }
+  }
+}
+
+async function insertDocument(document: SearchDocument) {
+  for (const [field, text] of document.fields) {
+    if (!text?.trim()) continue;
+    await prisma.$executeRaw`
+      INSERT INTO search_index (book_id, entity_type, entity_id, field, title, body)
+      VALUES (${document.bookId}, ${document.entityType}, ${document.entityId}, ${field}, ${document.title}, ${text})
+    `;
+  }
+}
+
+// Rebuilds in progress, so overlapping searches do not index a book twice
+const pendingBuilds = new Map<string, Promise<void>>();
+
+// Build the index for a book that has never been indexed; true if it was (re)built just now
+async function ensureBookIndexed(bookId: string): Promise<boolean> {
+  await ensureSearchTable();
+  const pending = pendingBuilds.get(bookId);
+  if (pending) {
+    await pending;
+    return true;
+  }
+
+  const [row] = await prisma.$queryRaw<Array<{ count: number | bigint }>>`
+    SELECT COUNT(*) AS count FROM search_index WHERE book_id = ${bookId}
+  `;
+  if (Number(row?.count ?? 0) > 0) return false;
+
+  const build = rebuildSearchIndex(bookId).finally(() => pendingBuilds.delete(bookId));
+  pendingBuilds.set(bookId, build);
+  await build;
+  return true;
+}
+
+// Re-index one entity after it was created or changed; removes it if it no longer exists.
+// The index is derived data, so failures are logged instead of failing the write.
+export async function syncSearchIndex(bookId: string, entityType: SearchEntityType, entityId: string) {
+  try {
+    // A book without index builds it completely, including this entity
+    if (await ensureBookIndexed(bookId)) return;
+    await prisma.$executeRaw`DELETE FROM search_index WHERE entity_type = ${entityType} AND entity_id = ${entityId}`;
+    const [document] = await loadDocuments(entityType, { id: entityId });
+    if (document) {
+      await insertDocument(document);
+    }
+  } catch (error) {
+    console.error("Failed to update search index:", error);
+  }
+}
+
+export async function removeFromSearchIndex(entityType: SearchEntityType, entityId: string) {
+  try {
+    await ensureSearchTable();
+    await prisma.$executeRaw`DELETE FROM search_index WHERE entity_type = ${entityType} AND entity_id = ${entityId}`;
+  } catch (error) {
+    console.error("Failed to update search index:", error);
+  }
+}
+
+export async function removeBookFromSearchIndex(bookId: string) {
+  try {
+    await ensureSearchTable();
+    await prisma.$executeRaw`DELETE FROM search_index WHERE book_id = ${bookId}`;
+  } catch (error) {
+    console.error("Failed to update search index:", error);
+  }
+}
+
+export async function rebuildSearchIndex(bookId: string) {
+  await ensureSearchTable();
+  await prisma.$executeRaw`DELETE FROM search_index WHERE book_id = ${bookId}`;
+  for (const entityType of ["chapter", "character", "plotpoint", "worldelement"] as const) {
+    for (const document of await loadDocuments(entityType, { bookId })) {
+      await insertDocument(document);
+    }
+  }
+}
+
+// Ranked matches for an FTS5 query, or every indexed field of the book when ftsQuery is null
+// (regex searches, which are filtered by the caller)
+export async function querySearchIndex(bookId: string, ftsQuery: string | null, limit = 500): Promise<IndexedField[]> {
+  await ensureBookIndexed(bookId);
+
+  const rows = ftsQuery
+    ? await prisma.$queryRaw<IndexedField[]>`
+        SELECT entity_type AS entityType, entity_id AS entityId, field, title, body, bm25(search_index) AS score
+        FROM search_index
+        WHERE search_index MATCH ${ftsQuery} AND book_id = ${bookId}
+        ORDER BY score
+        LIMIT ${limit}
+      `
+    : await prisma.$queryRaw<IndexedField[]>`
+        SELECT entity_type AS entityType, entity_id AS entityId, field, title, body, 0 AS score
+        FROM search_index
+        WHERE book_id = ${bookId}
+      `;
+
+  return rows.map((row) => ({ ...row, score: Number(row.score) }));
+}
@@ -0,0 +1,117 @@
+export const searchModes = ["words", "phrase", "regex"] as const;
+
+export type SearchMode = (typeof searchModes)[number];
+
+export type SearchOptions = {
+  // words: all terms anywhere in the field, phrase: the exact word sequence, regex: JavaScript pattern
+  mode: SearchMode;
+  // Terms must match complete words instead of word beginnings (ignored for regex)
+  wholeWord: boolean;
+  // A character's name also finds their other names and aliases (ignored for regex and replace)
+  aliases: boolean;
+};
+
+export type SearchOccurrence = {
+  context: string;
+  // Position of the match within `context`
+  matchStart: number;
+  matchLength: number;
+};
+
+export const defaultSearchOptions: SearchOptions = { mode: "words", wholeWord: false, aliases: true };
+
+// Letters and digits in any script, the same characters FTS5's unicode61 tokenizer keeps
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+export function isSearchMode(value: unknown): value is SearchMode {
+  return searchModes.includes(value as SearchMode);
+}
+
+export function normalizeSearchOptions(value: unknown): SearchOptions {
+  const options = (value && typeof value === "object" ? value : {}) as Partial<SearchOptions>;
+  return {
+    mode: isSearchMode(options.mode) ? options.mode : defaultSearchOptions.mode,
+    wholeWord: options.wholeWord === true,
+    aliases: options.aliases !== false,
+  };
+}
+
+export function tokenizeQuery(query: string) {
+  return query.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Case-insensitive pattern finding every occurrence the search would report.
+// Throws a SyntaxError for an invalid regular expression.
+export function buildSearchPattern(query: string, options: SearchOptions): RegExp | null {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+
+  if (options.mode === "regex") {
+    const pattern = new RegExp(trimmed, "giu");
+    // A pattern matching the empty string would "occur" everywhere
+    return pattern.test("") ? null : new RegExp(trimmed, "giu");
+  }
+
+  const start = `(?<!${WORD_CHAR})`;
+  const end = options.wholeWord ? `(?!${WORD_CHAR})` : "";
+  const terms = tokenizeQuery(trimmed).map(escapeRegExp);
+  if (terms.length === 0) return null;
+
+  if (options.mode === "phrase") {
+    return new RegExp(`${start}${terms.join(`[^\\p{L}\\p{N}]+`)}${end}`, "giu");
+  }
+  // Longer terms first so "Haus" wins over "Ha" at the same position
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).join("|");
+  return new RegExp(`${start}(?:${alternatives})${end}`, "giu");
+}
+
+// All matches of the pattern in plain text, each with a bit of surrounding text
+export function findOccurrences(text: string, pattern: RegExp, contextChars = 50): SearchOccurrence[] {
+  const occurrences: SearchOccurrence[] = [];
+  pattern.lastIndex = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (!match[0]) continue;
+    const index = match.index ?? 0;
+    const start = Math.max(0, index - contextChars);
+    const end = Math.min(text.length, index + match[0].length + contextChars);
+    const prefix = start > 0 ? "..." : "";
+
+    occurrences.push({
+      context: `${prefix}${text.slice(start, end)}${end < text.length ? "..." : ""}`,
+      matchStart: prefix.length + index - start,
+      matchLength: match[0].length,
+    });
+  }
+
+  return occurrences;
+}
+
+// FTS5 MATCH expression for the query; null for regex searches, which scan instead
+export function toFtsQuery(query: string, options: SearchOptions) {
+  if (options.mode === "regex") return null;
+
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0) return null;
+
+  const suffix = options.wholeWord ? "" : "*";
+  if (options.mode === "phrase") {
+    return `"${terms.join(" ")}"${suffix}`;
+  }
+  return terms.map((term) => `"${term}"${suffix}`).join(" ");
+}
+
+// One pattern finding any of the given ones; the longest source goes first so "Elizabeth Bennet"
+// is reported as one occurrence rather than "Elizabeth" followed by "Bennet"
+export function combineSearchPatterns(patterns: RegExp[]) {
+  const sources = patterns.map((pattern) => pattern.source).sort((a, b) => b.length - a.length);
+  return new RegExp(sources.map((source) => `(?:${source})`).join("|"), "giu");
+}
+
+export function combineFtsQueries(queries: string[]) {
+  return queries.map((query) => `(${query})`).join(" OR ");
+}
@@ -0,0 +1,53 @@
+export type SseEvent = {
+  event: string;
+  data: string;
+};
+
+export function formatSseEvent(event: string, data: unknown) {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Minimal server-sent events parser for fetch response bodies (upstream AI APIs and our own routes)
+export async function readSseEvents(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventName = "message";
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventName, data: dataLines.join("\n") });
+    }
+    eventName = "message";
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+    } else if (line.startsWith("event:")) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      lines.forEach(processLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer) processLine(buffer);
+    dispatch();
+  } finally {
+    reader.releaseLock();
+  }
+}
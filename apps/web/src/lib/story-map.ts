@@ -0,0 +1,240 @@
+import { formatStoryDuration, type StoryCalendar } from "@/lib/story-time";
+
+// Map of the story world: one uploaded image per book with pins for locations, regions and travel
+// routes between two pinned locations. Everything is positioned in pixels of the image, so the
+// shapes stay in place however large the map is shown. Safe to import from client components.
+
+export const MAX_MAP_POINTS = 200;
+
+export const REGION_COLORS = ["#6366f1", "#10b981", "#f59e0b", "#ef4444", "#0ea5e9", "#a855f7", "#64748b"];
+
+export type MapPoint = {
+  x: number;
+  y: number;
+};
+
+export type MapPinData = {
+  elementId: string;
+  x: number;
+  y: number;
+};
+
+export type MapRegionData = {
+  id: string;
+  name: string;
+  color: string;
+  elementId: string | null;
+  points: MapPoint[];
+};
+
+export type MapRouteData = {
+  id: string;
+  name: string;
+  fromElementId: string;
+  toElementId: string;
+  // Waypoints between the two pins
+  points: MapPoint[];
+  distance: number | null;
+  travelHours: number | null;
+};
+
+export type StoryMapSettings = {
+  imageUrl: string;
+  imageWidth: number;
+  imageHeight: number;
+  distanceUnit: string;
+  // Distance the full width of the image stands for
+  scale: number | null;
+  travelPerDay: number | null;
+};
+
+export type StoryMapData = StoryMapSettings & {
+  pins: MapPinData[];
+  regions: MapRegionData[];
+  routes: MapRouteData[];
+};
+
+// Travel time between two locations in story minutes, in both directions
+export type TravelLeg = {
+  fromElementId: string;
+  toElementId: string;
+  minutes: number;
+};
+
+function parseJSONArray(value: string | null | undefined): unknown[] {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Validated points from user input, or an error message. Points are kept inside the image.
+export function normalizeMapPoints(input: unknown, map: { imageWidth: number; imageHeight: number }): MapPoint[] | string {
+  if (!Array.isArray(input)) return "points must be an array";
+  if (input.length > MAX_MAP_POINTS) return `A shape can have at most ${MAX_MAP_POINTS} points`;
+
+  const points: MapPoint[] = [];
+  for (const entry of input) {
+    const x = Number(entry?.x);
+    const y = Number(entry?.y);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return "Every point needs numeric x and y";
+    points.push({
+      x: Math.min(Math.max(x, 0), map.imageWidth),
+      y: Math.min(Math.max(y, 0), map.imageHeight),
+    });
+  }
+  return points;
+}
+
+// Points from their database record; broken records count as no points
+export function parseMapPoints(value: string | null | undefined): MapPoint[] {
+  return parseJSONArray(value).flatMap((entry) => {
+    const point = entry as Partial<MapPoint> | null;
+    return typeof point?.x === "number" && typeof point?.y === "number" ? [{ x: point.x, y: point.y }] : [];
+  });
+}
+
+// Positive number from user input: null clears it, undefined means invalid
+export function readPositiveNumber(value: unknown): number | null | undefined {
+  if (value === null || value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+type RegionRecord = Omit<MapRegionData, "points"> & { points: string };
+type RouteRecord = Omit<MapRouteData, "points"> & { points: string };
+
+export function serializeMapRegion(record: RegionRecord): MapRegionData {
+  return {
+    id: record.id,
+    name: record.name,
+    color: record.color,
+    elementId: record.elementId,
+    points: parseMapPoints(record.points),
+  };
+}
+
+export function serializeMapRoute(record: RouteRecord): MapRouteData {
+  return {
+    id: record.id,
+    name: record.name,
+    fromElementId: record.fromElementId,
+    toElementId: record.toElementId,
+    points: parseMapPoints(record.points),
+    distance: record.distance,
+    travelHours: record.travelHours,
+  };
+}
+
+// Map as sent to the editor, from its database record with pins, regions and routes
+export function serializeStoryMap(record: StoryMapSettings & { pins: MapPinData[]; regions: RegionRecord[]; routes: RouteRecord[] }): StoryMapData {
+  return {
+    imageUrl: record.imageUrl,
+    imageWidth: record.imageWidth,
+    imageHeight: record.imageHeight,
+    distanceUnit: record.distanceUnit,
+    scale: record.scale,
+    travelPerDay: record.travelPerDay,
+    pins: record.pins.map(({ elementId, x, y }) => ({ elementId, x, y })),
+    regions: record.regions.map(serializeMapRegion),
+    routes: record.routes.map(serializeMapRoute),
+  };
+}
+
+export function pathLength(points: MapPoint[]) {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i]!.x - points[i - 1]!.x, points[i]!.y - points[i - 1]!.y);
+  }
+  return length;
+}
+
+// Line of a route from pin to pin; null while one of its locations has no pin
+export function routePath(route: Pick<MapRouteData, "fromElementId" | "toElementId" | "points">, pins: MapPinData[]) {
+  const from = pins.find((pin) => pin.elementId === route.fromElementId);
+  const to = pins.find((pin) => pin.elementId === route.toElementId);
+  if (!from || !to) return null;
+  return [{ x: from.x, y: from.y }, ...route.points, { x: to.x, y: to.y }];
+}
+
+// Length of a route in the map's distance unit: the entered distance, else the measured line
+export function routeDistance(
+  route: Pick<MapRouteData, "fromElementId" | "toElementId" | "points" | "distance">,
+  pins: MapPinData[],
+  map: Pick<StoryMapSettings, "imageWidth" | "scale">
+) {
+  if (route.distance !== null) return route.distance;
+  const path = routePath(route, pins);
+  if (!path || !map.scale || map.imageWidth <= 0) return null;
+  return (pathLength(path) / map.imageWidth) * map.scale;
+}
+
+// Travel time of a route in story minutes: the entered time, else distance by travel per day.
+// A day has the length of a day in the book's calendar.
+export function routeTravelMinutes(
+  route: Pick<MapRouteData, "fromElementId" | "toElementId" | "points" | "distance" | "travelHours">,
+  pins: MapPinData[],
+  map: Pick<StoryMapSettings, "imageWidth" | "scale" | "travelPerDay">,
+  hoursPerDay: number
+) {
+  if (route.travelHours !== null) return route.travelHours * 60;
+  const distance = routeDistance(route, pins, map);
+  if (distance === null || !map.travelPerDay) return null;
+  return (distance / map.travelPerDay) * hoursPerDay * 60;
+}
+
+export function travelLegs(map: StoryMapData, hoursPerDay: number): TravelLeg[] {
+  return map.routes.flatMap((route) => {
+    const minutes = routeTravelMinutes(route, map.pins, map, hoursPerDay);
+    return minutes === null ? [] : [{ fromElementId: route.fromElementId, toElementId: route.toElementId, minutes }];
+  });
+}
+
+// Shortest travel time between two locations along the routes; null when no routes connect them
+export function shortestTravelMinutes(legs: TravelLeg[], fromId: string, toId: string) {
+  if (fromId === toId) return 0;
+
+  const neighbours = new Map<string, Array<{ id: string; minutes: number }>>();
+  for (const leg of legs) {
+    neighbours.set(leg.fromElementId, [...(neighbours.get(leg.fromElementId) ?? []), { id: leg.toElementId, minutes: leg.minutes }]);
+    neighbours.set(leg.toElementId, [...(neighbours.get(leg.toElementId) ?? []), { id: leg.fromElementId, minutes: leg.minutes }]);
+  }
+
+  const best = new Map([[fromId, 0]]);
+  const done = new Set<string>();
+  while (true) {
+    let current: string | null = null;
+    for (const [id, minutes] of best) {
+      if (!done.has(id) && (current === null || minutes < best.get(current)!)) current = id;
+    }
+    if (current === null) return null;
+    if (current === toId) return best.get(current)!;
+    done.add(current);
+    for (const next of neighbours.get(current) ?? []) {
+      const minutes = best.get(current)! + next.minutes;
+      if (minutes < (best.get(next.id) ?? Infinity)) best.set(next.id, minutes);
+    }
+  }
+}
+
+// One line per route for prompts: "Hafenstadt – Bergfeste (Küstenweg): 120 km, 4 Tage"
+export function formatTravelRoute(route: MapRouteData, map: StoryMapData, names: Map<string, string>, calendar: StoryCalendar) {
+  const from = names.get(route.fromElementId);
+  const to = names.get(route.toElementId);
+  if (!from || !to) return null;
+  const distance = routeDistance(route, map.pins, map);
+  const minutes = routeTravelMinutes(route, map.pins, map, calendar.hoursPerDay);
+  const facts = [
+    ...(distance !== null ? [formatDistance(distance, map.distanceUnit)] : []),
+    ...(minutes !== null ? [formatStoryDuration(minutes, calendar, "de")] : []),
+  ];
+  const line = `${from} – ${to}${route.name ? ` (${route.name})` : ""}`;
+  return facts.length > 0 ? `${line}: ${facts.join(", ")}` : line;
+}
+
+export function formatDistance(distance: number, unit: string) {
+  const rounded = distance >= 100 ? Math.round(distance) : Math.round(distance * 10) / 10;
+  return `${rounded} ${unit}`.trim();
+}
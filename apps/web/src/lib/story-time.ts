@@ -0,0 +1,253 @@
+import type { Locale } from "@/lib/i18n";
+
+// Dates in the story world (safe to import from client components). A date is stored as text in
+// the form "year-month-day" with an optional "Thh:mm", e.g. "305-3-12T14:00". The year counts from
+// the calendar's origin and may be negative; month and day are 1-based positions in the book's
+// calendar. Calendars have no leap years, so every year has the same length and dates can be
+// compared by counting minutes from the origin.
+
+export type CalendarMonth = {
+  name: string;
+  days: number;
+};
+
+// Years are shown relative to the era they fall into, e.g. "12 NZ" for the 12th year of an era
+export type CalendarEra = {
+  name: string;
+  abbreviation: string;
+  startYear: number;
+};
+
+export type StoryCalendar = {
+  name: string;
+  months: CalendarMonth[];
+  eras: CalendarEra[];
+  hoursPerDay: number;
+};
+
+export type StoryDate = {
+  year: number;
+  month: number;
+  day: number;
+  // null for dates without a time of day
+  hour: number | null;
+  minute: number | null;
+};
+
+export const MAX_CALENDAR_MONTHS = 100;
+export const MAX_MONTH_DAYS = 1000;
+export const MAX_HOURS_PER_DAY = 100;
+
+const STORY_DATE_PATTERN = /^(-?\d{1,7})-(\d{1,3})-(\d{1,4})(?:T(\d{1,3}):(\d{2}))?$/;
+
+const gregorianMonthNames: Record<Locale, string[]> = {
+  de: ["Januar", "Februar", "März", "April", "Mai", "Juni", "Juli", "August", "September", "Oktober", "November", "Dezember"],
+  en: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"],
+};
+const gregorianMonthDays = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Calendar of books that did not define their own
+export function defaultStoryCalendar(locale: Locale): StoryCalendar {
+  return {
+    name: locale === "de" ? "Gregorianisch" : "Gregorian",
+    months: gregorianMonthNames[locale].map((name, index) => ({ name, days: gregorianMonthDays[index]! })),
+    eras: [],
+    hoursPerDay: 24,
+  };
+}
+
+function parseJSONArray(value: string | null | undefined): unknown[] {
+  try {
+    const parsed = JSON.parse(value || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+type CalendarInput = {
+  name?: unknown;
+  months?: unknown;
+  eras?: unknown;
+  hoursPerDay?: unknown;
+};
+
+// Validated calendar from user input, or an error message
+export function normalizeStoryCalendar(input: CalendarInput): StoryCalendar | string {
+  const months = Array.isArray(input.months) ? input.months : [];
+  const eras = Array.isArray(input.eras) ? input.eras : [];
+  const hoursPerDay = Number(input.hoursPerDay ?? 24);
+
+  if (months.length === 0 || months.length > MAX_CALENDAR_MONTHS) {
+    return `A calendar needs between 1 and ${MAX_CALENDAR_MONTHS} months`;
+  }
+  if (!Number.isInteger(hoursPerDay) || hoursPerDay < 1 || hoursPerDay > MAX_HOURS_PER_DAY) {
+    return `hoursPerDay must be between 1 and ${MAX_HOURS_PER_DAY}`;
+  }
+
+  const normalizedMonths: CalendarMonth[] = [];
+  for (const month of months) {
+    const name = typeof month?.name === "string" ? month.name.trim() : "";
+    const days = Number(month?.days);
+    if (!name || !Number.isInteger(days) || days < 1 || days > MAX_MONTH_DAYS) {
+      return `Every month needs a name and between 1 and ${MAX_MONTH_DAYS} days`;
+    }
+    normalizedMonths.push({ name, days });
+  }
+
+  const normalizedEras: CalendarEra[] = [];
+  for (const era of eras) {
+    const name = typeof era?.name === "string" ? era.name.trim() : "";
+    const startYear = Number(era?.startYear);
+    if (!name || !Number.isInteger(startYear)) {
+      return "Every era needs a name and a start year";
+    }
+    const abbreviation = typeof era?.abbreviation === "string" ? era.abbreviation.trim() : "";
+    normalizedEras.push({ name, abbreviation, startYear });
+  }
+  normalizedEras.sort((a, b) => a.startYear - b.startYear);
+
+  return {
+    name: typeof input.name === "string" ? input.name.trim() : "",
+    months: normalizedMonths,
+    eras: normalizedEras,
+    hoursPerDay,
+  };
+}
+
+// Calendar from its database record; broken records fall back to the default calendar
+export function parseStoryCalendar(
+  record: { name: string; months: string; eras: string; hoursPerDay: number } | null,
+  locale: Locale
+): StoryCalendar {
+  if (!record) return defaultStoryCalendar(locale);
+
+  const calendar = normalizeStoryCalendar({
+    name: record.name,
+    months: parseJSONArray(record.months),
+    eras: parseJSONArray(record.eras),
+    hoursPerDay: record.hoursPerDay,
+  });
+  return typeof calendar === "string" ? defaultStoryCalendar(locale) : calendar;
+}
+
+export function parseStoryDate(value: string | null | undefined): StoryDate | null {
+  const match = value?.trim().match(STORY_DATE_PATTERN);
+  if (!match) return null;
+
+  const hasTime = match[4] !== undefined;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: hasTime ? Number(match[4]) : null,
+    minute: hasTime ? Number(match[5]) : null,
+  };
+}
+
+export function serializeStoryDate(date: StoryDate) {
+  const base = `${date.year}-${date.month}-${date.day}`;
+  if (date.hour === null) return base;
+  return `${base}T${String(date.hour).padStart(2, "0")}:${String(date.minute ?? 0).padStart(2, "0")}`;
+}
+
+// Value for a story date field from a request body: null clears it, undefined means invalid
+export function readStoryDateInput(value: unknown): string | null | undefined {
+  if (value === null || value === "") return null;
+  if (typeof value !== "string") return undefined;
+  const date = parseStoryDate(value);
+  return date ? serializeStoryDate(date) : undefined;
+}
+
+export function isValidStoryDate(date: StoryDate, calendar: StoryCalendar) {
+  const month = calendar.months[date.month - 1];
+  if (!month || date.day < 1 || date.day > month.days) return false;
+  if (date.hour === null) return true;
+  return date.hour < calendar.hoursPerDay && (date.minute ?? 0) < 60;
+}
+
+function daysPerYear(calendar: StoryCalendar) {
+  return calendar.months.reduce((sum, month) => sum + month.days, 0);
+}
+
+// Minutes since the start of year 0; only meaningful for dates valid in the calendar
+export function storyDateToMinutes(date: StoryDate, calendar: StoryCalendar) {
+  const daysBefore = calendar.months.slice(0, date.month - 1).reduce((sum, month) => sum + month.days, 0);
+  const dayIndex = date.year * daysPerYear(calendar) + daysBefore + date.day - 1;
+  return (dayIndex * calendar.hoursPerDay + (date.hour ?? 0)) * 60 + (date.minute ?? 0);
+}
+
+export function minutesToStoryDate(minutes: number, calendar: StoryCalendar): StoryDate {
+  const minutesPerDay = calendar.hoursPerDay * 60;
+  const dayIndex = Math.floor(minutes / minutesPerDay);
+  const yearLength = daysPerYear(calendar);
+  const year = Math.floor(dayIndex / yearLength);
+  let dayOfYear = dayIndex - year * yearLength;
+
+  let month = 1;
+  for (const entry of calendar.months) {
+    if (dayOfYear < entry.days) break;
+    dayOfYear -= entry.days;
+    month += 1;
+  }
+
+  const minuteOfDay = minutes - dayIndex * minutesPerDay;
+  return {
+    year,
+    month,
+    day: dayOfYear + 1,
+    hour: Math.floor(minuteOfDay / 60),
+    minute: minuteOfDay % 60,
+  };
+}
+
+// Era a year falls into and the year counted within it
+export function toEraYear(year: number, calendar: StoryCalendar): { era: CalendarEra | null; year: number } {
+  const era = [...calendar.eras].reverse().find((entry) => entry.startYear <= year) ?? null;
+  return { era, year: era ? year - era.startYear + 1 : year };
+}
+
+export function fromEraYear(eraYear: number, era: CalendarEra | null) {
+  return era ? era.startYear + eraYear - 1 : eraYear;
+}
+
+export function formatStoryYear(year: number, calendar: StoryCalendar) {
+  const { era, year: eraYear } = toEraYear(year, calendar);
+  return era ? `${eraYear} ${era.abbreviation || era.name}` : String(year);
+}
+
+export function formatStoryDate(date: StoryDate, calendar: StoryCalendar, locale: Locale, options: { time?: boolean } = {}) {
+  const monthName = calendar.months[date.month - 1]?.name ?? `${date.month}.`;
+  const day = locale === "de" ? `${date.day}.` : String(date.day);
+  const text = `${day} ${monthName} ${formatStoryYear(date.year, calendar)}`;
+  if (date.hour === null || options.time === false) return text;
+  return `${text}, ${String(date.hour).padStart(2, "0")}:${String(date.minute ?? 0).padStart(2, "0")}`;
+}
+
+// Length of a stretch of story time in days and hours of the calendar: "2 Tage, 5 Std."
+export function formatStoryDuration(minutes: number, calendar: StoryCalendar, locale: Locale) {
+  if (minutes < 60) return locale === "de" ? `${Math.round(minutes)} Min.` : `${Math.round(minutes)} min`;
+  const totalHours = Math.round(minutes / 60);
+  const days = Math.floor(totalHours / calendar.hoursPerDay);
+  const hours = totalHours - days * calendar.hoursPerDay;
+  const de = locale === "de";
+  const parts = [
+    ...(days > 0 ? [de ? `${days} ${days === 1 ? "Tag" : "Tage"}` : `${days} ${days === 1 ? "day" : "days"}`] : []),
+    ...(hours > 0 ? [de ? `${hours} Std.` : `${hours} h`] : []),
+  ];
+  return parts.join(", ");
+}
+
+type StoryDateFields = { storyStart?: string | null; storyEnd?: string | null };
+
+// storyStart/storyEnd from a request body, or an error message for malformed values
+export function readStoryDateFields(body: { storyStart?: unknown; storyEnd?: unknown }): StoryDateFields | string {
+  const fields: StoryDateFields = {};
+  for (const key of ["storyStart", "storyEnd"] as const) {
+    if (body[key] === undefined) continue;
+    const value = readStoryDateInput(body[key]);
+    if (value === undefined) return `${key} must look like "year-month-day" or "year-month-dayThh:mm"`;
+    fields[key] = value;
+  }
+  return fields;
+}
@@ -0,0 +1,97 @@
+import prisma from "@bucherstellung/db";
+
+import { checkChronology } from "@/lib/chronology";
+import { defaultLocale, isLocale, type Locale } from "@/lib/i18n";
+import { serializeStoryMap, travelLegs } from "@/lib/story-map";
+import { parseStoryCalendar } from "@/lib/story-time";
+
+// Everything the timeline view and the chronology check need about a book, in one query
+
+export async function loadStoryTimeline(bookId: string) {
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    select: {
+      language: true,
+      storyCalendar: true,
+      chapters: {
+        orderBy: { orderIndex: "asc" },
+        select: {
+          id: true,
+          orderIndex: true,
+          title: true,
+          storyStart: true,
+          storyEnd: true,
+          chapterCharacters: { select: { characterId: true } },
+          scenes: {
+            orderBy: { orderIndex: "asc" },
+            select: {
+              id: true,
+              chapterId: true,
+              orderIndex: true,
+              title: true,
+              povCharacterId: true,
+              locationId: true,
+              storyStart: true,
+              storyEnd: true,
+            },
+          },
+        },
+      },
+      plotPoints: {
+        orderBy: { orderIndex: "asc" },
+        select: {
+          id: true,
+          orderIndex: true,
+          title: true,
+          type: true,
+          storyStart: true,
+          storyEnd: true,
+          chapterPlotPoints: { select: { chapterId: true } },
+          characters: { select: { characterId: true } },
+        },
+      },
+      characters: {
+        orderBy: { name: "asc" },
+        select: { id: true, name: true },
+      },
+      worldElements: {
+        where: { type: "location" },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, parentId: true },
+      },
+      storyMap: {
+        include: { pins: true, regions: true, routes: true },
+      },
+    },
+  });
+
+  if (!book) return null;
+
+  const locale: Locale = isLocale(book.language) ? book.language : defaultLocale;
+  const calendar = parseStoryCalendar(book.storyCalendar, locale);
+
+  return {
+    calendar,
+    hasCustomCalendar: book.storyCalendar !== null,
+    chapters: book.chapters.map(({ chapterCharacters, scenes: _scenes, ...chapter }) => ({
+      ...chapter,
+      characterIds: chapterCharacters.map((link) => link.characterId),
+    })),
+    scenes: book.chapters.flatMap((chapter) => chapter.scenes),
+    plotPoints: book.plotPoints.map(({ chapterPlotPoints, characters, ...plotPoint }) => ({
+      ...plotPoint,
+      chapterIds: chapterPlotPoints.map((link) => link.chapterId),
+      characterIds: characters.map((link) => link.characterId),
+    })),
+    characters: book.characters,
+    locations: book.worldElements,
+    travel: book.storyMap ? travelLegs(serializeStoryMap(book.storyMap), calendar.hoursPerDay) : [],
+  };
+}
+
+export type StoryTimeline = NonNullable<Awaited<ReturnType<typeof loadStoryTimeline>>>;
+
+export async function checkBookChronology(bookId: string, locale: Locale) {
+  const timeline = await loadStoryTimeline(bookId);
+  return timeline ? checkChronology(timeline, locale) : [];
+}
@@ -0,0 +1,66 @@
+// Tracked changes in chapter HTML. The editor stores insertions and deletions as
+// <ins>/<del> elements carrying the change id, author and timestamp, so they survive saving
+// and can be turned into Word revisions on export.
+
+export type TrackedChangeType = "insertion" | "deletion";
+
+export type TrackedAuthorType = "human" | "ai";
+
+export type TrackedAuthor = {
+  name: string;
+  type: TrackedAuthorType;
+};
+
+export type TrackedChange = {
+  id: string;
+  author: string;
+  authorType: TrackedAuthorType;
+  // ISO 8601
+  date: string;
+};
+
+const TRACKED_DELETION_PATTERN = /<del\b[^>]*\bdata-change-id=[^>]*>[\s\S]*?<\/del>/gi;
+const TRACKED_INSERTION_TAG_PATTERN = /<\/?ins\b[^>]*>/gi;
+
+// Innermost text blocks, i.e. blocks without another block inside
+const TEXT_BLOCK_PATTERN = /<(p|h[1-6]|li)\b([^>]*)>((?:(?!<\/?(?:p|h[1-6]|li|ul|ol|blockquote)\b)[\s\S])*?)<\/\1>/gi;
+
+export function createChangeId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createTrackedChange(author: TrackedAuthor): TrackedChange {
+  return {
+    id: createChangeId(),
+    author: author.name,
+    authorType: author.type,
+    date: new Date().toISOString(),
+  };
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function changeAttributes(change: TrackedChange) {
+  return (
+    ` data-change-id="${escapeAttribute(change.id)}"` +
+    ` data-author="${escapeAttribute(change.author)}"` +
+    ` data-author-type="${change.authorType}"` +
+    ` data-date="${escapeAttribute(change.date)}"`
+  );
+}
+
+// Mark all text of a generated HTML fragment as one tracked insertion
+export function markAsInsertion(html: string, change: TrackedChange) {
+  const attributes = changeAttributes(change);
+  return html.replace(TEXT_BLOCK_PATTERN, (match, tag: string, tagAttributes: string, inner: string) =>
+    inner.trim() ? `<${tag}${tagAttributes}><ins${attributes}>${inner}</ins></${tag}>` : match,
+  );
+}
+
+// Chapter HTML as it reads with every tracked change accepted, for exports and AI context
+export function acceptTrackedChangesHtml(html: string) {
+  if (!html.includes("data-change-id")) return html;
+  return html.replace(TRACKED_DELETION_PATTERN, "").replace(TRACKED_INSERTION_TAG_PATTERN, "");
+}
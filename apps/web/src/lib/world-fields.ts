@@ -0,0 +1,127 @@
+import type { TranslatedText } from "@/lib/i18n";
+
+// Custom fields of world elements: each book defines a template of labeled fields per element type
+// (a magic system has a source, a cost and limits), and every element stores its values by field
+// key. Keys stay stable when a label is renamed. Safe to import from client components.
+
+export const MAX_TEMPLATE_FIELDS = 20;
+
+export type WorldField = {
+  key: string;
+  label: string;
+};
+
+export type WorldFieldValues = Record<string, string>;
+
+// Starting points offered in the template editor; nothing is applied without the author
+export const SUGGESTED_WORLD_FIELDS: Record<string, TranslatedText[]> = {
+  location: [
+    { de: "Klima", en: "Climate" },
+    { de: "Bevölkerung", en: "Population" },
+    { de: "Herrschaft", en: "Rule" },
+  ],
+  item: [
+    { de: "Herkunft", en: "Origin" },
+    { de: "Fähigkeiten", en: "Abilities" },
+  ],
+  concept: [
+    { de: "Bedeutung", en: "Meaning" },
+  ],
+  organization: [
+    { de: "Ziele", en: "Goals" },
+    { de: "Anführung", en: "Leadership" },
+    { de: "Mitglieder", en: "Members" },
+  ],
+  magic_system: [
+    { de: "Quelle", en: "Source" },
+    { de: "Preis", en: "Cost" },
+    { de: "Grenzen", en: "Limits" },
+  ],
+  technology: [
+    { de: "Funktionsweise", en: "How it works" },
+    { de: "Verbreitung", en: "Availability" },
+  ],
+};
+
+function parseJSON(value: string | null | undefined, fallback: unknown): unknown {
+  try {
+    return JSON.parse(value || "") as unknown;
+  } catch {
+    return fallback;
+  }
+}
+
+// Lowercase ASCII key from a label, unique among `taken`: "Preis" -> "preis", a second one -> "preis_2"
+export function fieldKeyFromLabel(label: string, taken: Iterable<string>) {
+  const used = new Set(taken);
+  const base = label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "") || "feld";
+  let key = base;
+  for (let n = 2; used.has(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+// Validated template fields from user input, or an error message. Fields without a key get one.
+export function normalizeWorldFields(input: unknown): WorldField[] | string {
+  if (!Array.isArray(input)) return "fields must be an array";
+  if (input.length > MAX_TEMPLATE_FIELDS) return `A template can have at most ${MAX_TEMPLATE_FIELDS} fields`;
+
+  const fields: WorldField[] = [];
+  for (const entry of input) {
+    const raw = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const label = typeof raw.label === "string" ? raw.label.trim() : "";
+    if (!label) return "Every field needs a label";
+    const taken = fields.map((field) => field.key);
+    const key = typeof raw.key === "string" && raw.key.trim() && !taken.includes(raw.key.trim())
+      ? raw.key.trim()
+      : fieldKeyFromLabel(label, taken);
+    fields.push({ key, label });
+  }
+  return fields;
+}
+
+// Template fields from their database record; broken records count as no fields
+export function parseWorldFields(value: string | null | undefined): WorldField[] {
+  const fields = normalizeWorldFields(parseJSON(value, []));
+  return typeof fields === "string" ? [] : fields;
+}
+
+// Field values from user input: text only, empty values dropped
+export function normalizeFieldValues(input: unknown): WorldFieldValues {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return {};
+  const values: WorldFieldValues = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (typeof value === "string" && value.trim()) values[key] = value.trim();
+  }
+  return values;
+}
+
+export function parseFieldValues(value: string | null | undefined): WorldFieldValues {
+  return normalizeFieldValues(parseJSON(value, {}));
+}
+
+// Filled-in fields of an element in template order, as [label, value]. Values of fields that were
+// removed from the template are kept in the element but not shown.
+export function labeledFieldValues(fields: WorldField[], values: WorldFieldValues): Array<[label: string, value: string]> {
+  return fields.flatMap((field): Array<[string, string]> => {
+    const value = values[field.key];
+    return value ? [[field.label, value]] : [];
+  });
+}
+
+// One line for prompts: "Quelle: Mondlicht; Preis: Erinnerungen"
+export function formatFieldFacts(fields: WorldField[], values: WorldFieldValues) {
+  return labeledFieldValues(fields, values)
+    .map(([label, value]) => `${label}: ${value}`)
+    .join("; ");
+}
+
+// Template fields per element type from the database records of a book
+export function templatesByType(templates: Array<{ type: string; fields: string }>): Record<string, WorldField[]> {
+  return Object.fromEntries(templates.map((template) => [template.type, parseWorldFields(template.fields)]));
+}
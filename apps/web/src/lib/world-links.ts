@@ -0,0 +1,141 @@
+// How the world hangs together: elements nest in a parent (a tavern in a city in a kingdom) and
+// WorldLinks tie an element or a character to another element ("Anna lives in the port city").
+// Safe to import from client components.
+
+export const WORLD_LINK_TYPES = [
+  { value: "owns", label: { de: "besitzt", en: "owns" } },
+  { value: "member_of", label: { de: "ist Mitglied von", en: "is a member of" } },
+  { value: "lives_in", label: { de: "lebt in", en: "lives in" } },
+  { value: "rules", label: { de: "herrscht über", en: "rules" } },
+  { value: "allied_with", label: { de: "ist verbündet mit", en: "is allied with" } },
+  { value: "opposes", label: { de: "ist verfeindet mit", en: "opposes" } },
+  { value: "related_to", label: { de: "hängt zusammen mit", en: "is related to" } },
+] as const;
+
+export type WorldLinkType = (typeof WORLD_LINK_TYPES)[number]["value"];
+
+export type WorldElementNode = {
+  id: string;
+  name: string;
+  parentId: string | null;
+};
+
+export type WorldLinkData = {
+  id: string;
+  linkType: string;
+  description: string | null;
+  fromElementId: string | null;
+  fromCharacterId: string | null;
+  toElementId: string;
+};
+
+export type WorldTreeNode<T extends WorldElementNode> = {
+  element: T;
+  children: WorldTreeNode<T>[];
+};
+
+export function isWorldLinkType(value: unknown): value is WorldLinkType {
+  return WORLD_LINK_TYPES.some((type) => type.value === value);
+}
+
+export function worldLinkLabel(linkType: string) {
+  return (WORLD_LINK_TYPES.find((type) => type.value === linkType) ?? WORLD_LINK_TYPES[WORLD_LINK_TYPES.length - 1]!).label;
+}
+
+// Ancestors of an element, nearest first. Stops at a loop instead of running forever.
+export function worldElementAncestors<T extends WorldElementNode>(elements: T[], elementId: string): T[] {
+  const byId = new Map(elements.map((element) => [element.id, element]));
+  const ancestors: T[] = [];
+  const seen = new Set([elementId]);
+  let parentId = byId.get(elementId)?.parentId ?? null;
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    seen.add(parentId);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+// "Kingdom › City" for a tavern in that city
+export function worldElementPath(elements: WorldElementNode[], elementId: string) {
+  return worldElementAncestors(elements, elementId)
+    .reverse()
+    .map((element) => element.name)
+    .join(" › ");
+}
+
+// Whether moving an element under `parentId` would make it its own ancestor
+export function wouldCreateCycle(elements: WorldElementNode[], elementId: string, parentId: string | null) {
+  if (!parentId) return false;
+  if (parentId === elementId) return true;
+  return worldElementAncestors(elements, parentId).some((ancestor) => ancestor.id === elementId);
+}
+
+// Nested elements sorted by name. Elements whose parent is missing become roots.
+export function buildWorldTree<T extends WorldElementNode>(elements: T[]): WorldTreeNode<T>[] {
+  const ids = new Set(elements.map((element) => element.id));
+  const childrenOf = new Map<string | null, T[]>();
+  for (const element of elements) {
+    const key = element.parentId && ids.has(element.parentId) ? element.parentId : null;
+    childrenOf.set(key, [...(childrenOf.get(key) ?? []), element]);
+  }
+
+  const placed = new Set<string>();
+  const build = (parentId: string | null): WorldTreeNode<T>[] =>
+    [...(childrenOf.get(parentId) ?? [])]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .filter((element) => !placed.has(element.id))
+      .map((element) => {
+        placed.add(element.id);
+        return { element, children: build(element.id) };
+      });
+
+  const roots = build(null);
+  // Elements caught in a loop are never reached from a root; show them at the top level
+  for (const element of elements) {
+    if (!placed.has(element.id)) {
+      placed.add(element.id);
+      roots.push({ element, children: build(element.id) });
+    }
+  }
+  return roots;
+}
+
+// World elements that belong in an AI context next to the given ones: their ancestors and
+// everything linked to them or to the given characters, one link away
+export function relatedWorldElementIds(
+  elements: WorldElementNode[],
+  links: WorldLinkData[],
+  seeds: { elementIds: string[]; characterIds: string[] }
+) {
+  const elementIds = new Set(seeds.elementIds);
+  const characterIds = new Set(seeds.characterIds);
+  const related = new Set(elementIds);
+
+  for (const link of links) {
+    if (link.fromCharacterId && characterIds.has(link.fromCharacterId)) related.add(link.toElementId);
+    if (link.fromElementId && elementIds.has(link.fromElementId)) related.add(link.toElementId);
+    if (link.fromElementId && elementIds.has(link.toElementId)) related.add(link.fromElementId);
+  }
+
+  for (const id of [...related]) {
+    for (const ancestor of worldElementAncestors(elements, id)) related.add(ancestor.id);
+  }
+  return related;
+}
+
+// One sentence per link for prompts: "Anna lebt in Hafenstadt (seit dem Brand)"
+export function formatWorldLink(
+  link: WorldLinkData,
+  names: { elements: Map<string, string>; characters: Map<string, string> }
+) {
+  const from = link.fromElementId
+    ? names.elements.get(link.fromElementId)
+    : link.fromCharacterId ? names.characters.get(link.fromCharacterId) : undefined;
+  const to = names.elements.get(link.toElementId);
+  if (!from || !to) return null;
+  const sentence = `${from} ${worldLinkLabel(link.linkType).de} ${to}`;
+  return link.description ? `${sentence} (${link.description})` : sentence;
+}